@@ -0,0 +1,110 @@
+import { NotifyReportUseCase } from '../../../../shared/usecases/notification/NotifyReportUseCase';
+import { logger } from '../../../../shared/infrastructure/logging/Logger';
+import { DateUtil } from '../../../../shared/utils/DateUtil';
+import { BillingCycleUtil } from '../../../../shared/utils/BillingCycleUtil';
+import { ReportNotificationMapper } from '../../../../shared/infrastructure/mappers/ReportNotificationMapper';
+import { IConfigRepository } from '../../../../shared/domain/interfaces/database/repositories/IConfigRepository';
+import { Card } from '../../../../shared/domain/entities/Card';
+import { Category } from '../../../../shared/domain/entities/Category';
+import { FirestoreDataExplorerService } from '../../infrastructure/services/FirestoreDataExplorerService';
+
+/** 1日あたりのミリ秒 */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 支払日通知サービス
+ * 登録済みのカードごとに、支払日の指定日数前に請求サイクルの請求金額をDiscordに通知する
+ * 1日1回の定期実行から呼び出されることを前提とし、送信済みの記録は持たない
+ */
+export class BillingReminderService {
+    private readonly serviceContext = 'Billing Reminder Service';
+
+    /**
+     * コンストラクタ
+     * @param configRepository 設定情報リポジトリ（登録済みのカード・支出カテゴリ名の取得に使用）
+     * @param dataExplorerService カード利用データの探索サービス
+     * @param notifyReportUseCase 通知レポートユースケース
+     */
+    constructor(
+        private readonly configRepository: IConfigRepository,
+        private readonly dataExplorerService: FirestoreDataExplorerService,
+        private readonly notifyReportUseCase: NotifyReportUseCase
+    ) { }
+
+    /**
+     * 今日が通知日にあたるカードの支払日を通知する
+     * カードごとの失敗は他のカードの通知に影響させない
+     */
+    async sendBillingReminders(): Promise<void> {
+        let cards: Card[];
+        try {
+            cards = await this.configRepository.getCards();
+        } catch (error) {
+            logger.warn('カードの取得に失敗しました。支払日の通知をスキップします', this.serviceContext);
+            return;
+        }
+
+        // 日本時間の「今日」を取得
+        const now = DateUtil.getJSTDate();
+        const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+        for (const card of cards) {
+            if (card.reminderDaysBefore <= 0) {
+                continue;
+            }
+
+            const cycle = BillingCycleUtil.nextCycle(card, today);
+            const daysUntilPayment = Math.round(
+                (cycle.paymentDate.getTime() - today.getTime()) / DAY_MS
+            );
+            if (daysUntilPayment !== card.reminderDaysBefore) {
+                continue;
+            }
+
+            try {
+                const documents = await this.dataExplorerService.exploreCardUsageData(
+                    cycle.periodStart,
+                    cycle.periodEnd
+                );
+                const report = BillingCycleUtil.summarize(card, cycle, documents.map((document) => ({
+                    ...document.data,
+                    path: document.path,
+                    usedAt: document.data.datetime_of_use,
+                })));
+
+                await this.notifyReportUseCase.notifyBillingReminder(
+                    ReportNotificationMapper.toBillingReminderNotification(
+                        report,
+                        daysUntilPayment,
+                        await this.getCategories()
+                    )
+                );
+
+                logger.info(
+                    `支払日を通知しました: ${card.cardName} ${report.paymentDate} ${report.totalAmount}円`,
+                    this.serviceContext
+                );
+            } catch (error) {
+                logger.warn(
+                    `支払日の通知に失敗しました: ${card.cardName} ` +
+                    `(${error instanceof Error ? error.message : String(error)})`,
+                    this.serviceContext
+                );
+            }
+        }
+    }
+
+    /**
+     * 支出カテゴリの一覧を取得
+     * 取得できない場合はカテゴリのIDを表示するため、通知は続行する
+     */
+    private async getCategories(): Promise<Category[] | undefined> {
+        try {
+            const config = await this.configRepository.getCategoryConfig();
+            return config.categories;
+        } catch (error) {
+            logger.warn('支出カテゴリの取得に失敗しました。カテゴリのIDで通知します', this.serviceContext);
+            return undefined;
+        }
+    }
+}
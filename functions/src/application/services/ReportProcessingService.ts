@@ -8,15 +8,47 @@ import {
     DailyReportFactory,
     WeeklyReportFactory,
     MonthlyReportFactory,
+    YearlyReportFactory,
 } from '../../../../shared/domain/factories/ReportsFactory';
-import { DailyReport, WeeklyReport, MonthlyReport } from '../../../../shared/domain/entities/Reports';
+import {
+    DailyReport,
+    WeeklyReport,
+    MonthlyReport,
+    YearlyReport,
+} from '../../../../shared/domain/entities/Reports';
 import { ReportNotificationMapper } from '../../../../shared/infrastructure/mappers/ReportNotificationMapper';
 import { ThresholdLevel, ReportType } from '../../domain/constants/ReportThresholds';
 import { ThresholdLevels } from '../../../../shared/domain/entities/ReportThresholds';
+import { CardUsageTransactionType } from '../../../../shared/domain/entities/CardUsage';
+import { ReportBreakdownUtil } from '../../../../shared/utils/ReportBreakdownUtil';
+import { BudgetUtil } from '../../../../shared/utils/BudgetUtil';
+
+/**
+ * レポート処理の対象となるカード利用データ
+ */
+export interface ReportCardUsageData {
+    // 利用金額（取消・返金の場合は負の値）
+    amount: number;
+    // 取引種別（未設定の場合は利用）
+    // eslint-disable-next-line camelcase
+    transaction_type?: CardUsageTransactionType;
+    // カード名（カードごとの小計に使用）
+    // eslint-disable-next-line camelcase
+    card_name?: string;
+    // 支出カテゴリのID（未設定の場合は未分類として小計に加算する）
+    category?: string;
+    // 利用先（元の表記、年次レポートの利用先ごとの小計に使用）
+    // eslint-disable-next-line camelcase
+    where_to_use?: string;
+    // 正規化した利用先（ある場合は元の表記より優先する）
+    merchant?: string;
+    // 過去のメールの取り込みで登録したかどうか（trueの場合はレポートに加算するが、アラートを送信しない）
+    imported?: boolean;
+}
 
 /**
  * レポート処理サービス
- * 各種レポート（日次・週次・月次）の作成・更新とアラート処理を行う
+ * 各種レポート（日次・週次・月次・年次）の作成・更新とアラート処理を行う
  */
 export class ReportProcessingService {
     /**
@@ -40,7 +72,7 @@ export class ReportProcessingService {
      */
     async processDailyReport(
         document: functions.firestore.DocumentSnapshot,
-        data: { amount: number },
+        data: ReportCardUsageData,
         params: Record<string, string>
     ): Promise<DailyReport> {
         const { year, month, day } = params;
@@ -58,9 +90,10 @@ export class ReportProcessingService {
             const updatedReport = DailyReportFactory.reconstruct({
                 ...existingReport,
                 totalAmount: existingReport.totalAmount + data.amount,
-                totalCount: existingReport.totalCount + 1,
+                totalCount: existingReport.totalCount + this.countOf(data),
                 lastUpdatedBy: 'system',
                 documentIdList: [...existingReport.documentIdList, documentFullPath],
+                ...this.addSubtotals(existingReport, data),
             });
 
             await this.reportUseCase.updateDailyReport(
@@ -78,12 +111,16 @@ export class ReportProcessingService {
         } else {
             // レポートが存在しない場合は新規作成
             const dateObj = new Date(parseInt(year), parseInt(month) - 1, parseInt(day));
+            const { categoryTotals, cardTotals } = this.addSubtotals({}, data);
             const dailyReport = DailyReportFactory.create(
                 dateObj.toISOString(),
                 data.amount,
-                1,
+                this.countOf(data),
                 'system',
-                [documentFullPath]
+                [documentFullPath],
+                false,
+                categoryTotals,
+                cardTotals
             );
 
             await this.reportUseCase.createDailyReport(dailyReport, year, month.padStart(2, '0'), day.padStart(2, '0'));
@@ -102,7 +139,7 @@ export class ReportProcessingService {
      */
     async processWeeklyReport(
         document: functions.firestore.DocumentSnapshot,
-        data: { amount: number },
+        data: ReportCardUsageData,
         params: Record<string, string>
     ): Promise<WeeklyReport> {
         const { year, month, day } = params;
@@ -125,44 +162,56 @@ export class ReportProcessingService {
             const updatedReport = WeeklyReportFactory.reconstruct({
                 ...existingReport,
                 totalAmount: existingReport.totalAmount + data.amount,
-                totalCount: existingReport.totalCount + 1,
+                totalCount: existingReport.totalCount + this.countOf(data),
                 lastUpdatedBy: 'system',
                 documentIdList: [...existingReport.documentIdList, documentFullPath],
+                ...this.addSubtotals(existingReport, data),
             });
 
             await this.reportUseCase.updateWeeklyReport(updatedReport, year, month.padStart(2, '0'), term);
             logger.info(`ウィークリーレポート更新完了: ${year}年${month}月第${term}週`, 'Report Processing Service');
 
-            // アラート条件チェック
-            await this.checkAndSendAlert(
-                'WEEKLY',
-                updatedReport,
-                '', // パスは不要（UseCaseで管理）
-                { weekNumber: pathInfo.weekNumber, year, month, currentAmount: data.amount }
-            );
+            // アラート条件チェック（過去のメールの取り込みの場合は送信しない）
+            if (!data.imported) {
+                await this.checkAndSendAlert(
+                    'WEEKLY',
+                    updatedReport,
+                    '', // パスは不要（UseCaseで管理）
+                    { weekNumber: pathInfo.weekNumber, year, month, currentAmount: data.amount }
+                );
+            }
 
             return updatedReport;
         } else {
             // レポートが存在しない場合は新規作成
+            const { categoryTotals, cardTotals } = this.addSubtotals({}, data);
             const weeklyReport = WeeklyReportFactory.create(
                 pathInfo.weekStartDate.toISOString(),
                 pathInfo.weekEndDate.toISOString(),
                 data.amount,
-                1,
+                this.countOf(data),
                 'system',
-                [documentFullPath]
+                [documentFullPath],
+                false,
+                false,
+                false,
+                false,
+                categoryTotals,
+                cardTotals
             );
 
             await this.reportUseCase.createWeeklyReport(weeklyReport, year, month, term);
             logger.info(`ウィークリーレポート作成完了: ${year}年${month}月第${term}週`, 'Report Processing Service');
 
-            // アラート条件チェック
-            await this.checkAndSendAlert(
-                'WEEKLY',
-                weeklyReport,
-                '',
-                { weekNumber: pathInfo.weekNumber, year, month, currentAmount: data.amount }
-            );
+            // アラート条件チェック（過去のメールの取り込みの場合は送信しない）
+            if (!data.imported) {
+                await this.checkAndSendAlert(
+                    'WEEKLY',
+                    weeklyReport,
+                    '',
+                    { weekNumber: pathInfo.weekNumber, year, month, currentAmount: data.amount }
+                );
+            }
 
             return weeklyReport;
         }
@@ -177,7 +226,7 @@ export class ReportProcessingService {
      */
     async processMonthlyReport(
         document: functions.firestore.DocumentSnapshot,
-        data: { amount: number },
+        data: ReportCardUsageData,
         params: Record<string, string>
     ): Promise<MonthlyReport> {
         const { year, month } = params;
@@ -195,21 +244,27 @@ export class ReportProcessingService {
             const updatedReport = MonthlyReportFactory.reconstruct({
                 ...existingReport,
                 totalAmount: existingReport.totalAmount + data.amount,
-                totalCount: existingReport.totalCount + 1,
+                totalCount: existingReport.totalCount + this.countOf(data),
                 lastUpdatedBy: 'system',
                 documentIdList: [...existingReport.documentIdList, documentFullPath],
+                ...this.addSubtotals(existingReport, data),
             });
 
             await this.reportUseCase.updateMonthlyReport(updatedReport, year, month.padStart(2, '0'));
             logger.info(`マンスリーレポート更新完了: ${year}年${month}月`, 'Report Processing Service');
 
-            // アラート条件チェック
-            await this.checkAndSendAlert(
-                'MONTHLY',
-                updatedReport,
-                '', // パスは不要（UseCaseで管理）
-                { year, month }
-            );
+            // アラート条件チェック（過去のメールの取り込みの場合は送信しない）
+            if (!data.imported) {
+                await this.checkAndSendAlert(
+                    'MONTHLY',
+                    updatedReport,
+                    '', // パスは不要（UseCaseで管理）
+                    { year, month }
+                );
+
+                // 予算のアラート条件チェック
+                await this.checkBudgetAlerts(updatedReport, { year, month });
+            }
 
             return updatedReport;
         } else {
@@ -217,32 +272,159 @@ export class ReportProcessingService {
             const startDate = new Date(parseInt(year), parseInt(month) - 1, 1);
             const endDate = new Date(parseInt(year), parseInt(month), 0);
 
+            const { categoryTotals, cardTotals } = this.addSubtotals({}, data);
             const monthlyReport = MonthlyReportFactory.create(
                 startDate.toISOString(),
                 endDate.toISOString(),
                 data.amount,
-                1,
+                this.countOf(data),
                 'system',
-                [documentFullPath]
+                [documentFullPath],
+                false,
+                false,
+                false,
+                false,
+                categoryTotals,
+                cardTotals
             );
 
             await this.reportUseCase.createMonthlyReport(monthlyReport, year, month.padStart(2, '0'));
             logger.info(`マンスリーレポート作成完了: ${year}年${month}月`, 'Report Processing Service');
 
-            // アラート条件チェック
-            await this.checkAndSendAlert(
-                'MONTHLY',
-                monthlyReport,
-                '',
-                { year, month }
-            );
+            // アラート条件チェック（過去のメールの取り込みの場合は送信しない）
+            if (!data.imported) {
+                await this.checkAndSendAlert(
+                    'MONTHLY',
+                    monthlyReport,
+                    '',
+                    { year, month }
+                );
+
+                // 予算のアラート条件チェック
+                await this.checkBudgetAlerts(monthlyReport, { year, month });
+            }
 
             return monthlyReport;
         }
     }
 
+    /**
+     * 年次レポート処理
+     * 年次レポートにはアラートを設けず、月ごと・支出カテゴリごと・カードごと・利用先ごとの小計のみ更新する
+     * @param document Firestoreドキュメント
+     * @param data カード利用データ
+     * @param params パラメータ（年、月）
+     * @returns 処理された年次レポート
+     */
+    async processYearlyReport(
+        document: functions.firestore.DocumentSnapshot,
+        data: ReportCardUsageData,
+        params: Record<string, string>
+    ): Promise<YearlyReport> {
+        const { year, month } = params;
+
+        // ドキュメントのフルパスを生成
+        const documentFullPath = document.ref.path;
+        const count = this.countOf(data);
+
+        // 既存の年次レポートを取得（存在チェック）
+        const existingReport = await this.reportUseCase
+            .getYearlyReport(year)
+            .catch(() => null);
+
+        if (existingReport) {
+            // 既存レポート更新 - ファクトリーを使用
+            const updatedReport = YearlyReportFactory.reconstruct({
+                ...existingReport,
+                totalAmount: existingReport.totalAmount + data.amount,
+                totalCount: existingReport.totalCount + count,
+                lastUpdatedBy: 'system',
+                documentIdList: [...existingReport.documentIdList, documentFullPath],
+                ...this.addSubtotals(existingReport, data),
+                monthlyTotals: ReportBreakdownUtil.add(
+                    existingReport.monthlyTotals,
+                    month.padStart(2, '0'),
+                    data.amount,
+                    count
+                ),
+                merchantTotals: ReportBreakdownUtil.add(
+                    existingReport.merchantTotals,
+                    ReportBreakdownUtil.merchantKeyOf(data),
+                    data.amount,
+                    count
+                ),
+            });
+
+            await this.reportUseCase.updateYearlyReport(updatedReport, year);
+            logger.info(`年次レポート更新完了: ${year}年`, 'Report Processing Service');
+
+            return updatedReport;
+        } else {
+            // レポートが存在しない場合は新規作成
+            const startDate = new Date(parseInt(year), 0, 1);
+            const endDate = new Date(parseInt(year), 11, 31);
+
+            const { categoryTotals, cardTotals } = this.addSubtotals({}, data);
+            const yearlyReport = YearlyReportFactory.create(
+                startDate.toISOString(),
+                endDate.toISOString(),
+                data.amount,
+                count,
+                'system',
+                [documentFullPath],
+                ReportBreakdownUtil.add({}, month.padStart(2, '0'), data.amount, count),
+                categoryTotals,
+                cardTotals,
+                ReportBreakdownUtil.add({}, ReportBreakdownUtil.merchantKeyOf(data), data.amount, count)
+            );
+
+            await this.reportUseCase.createYearlyReport(yearlyReport, year);
+            logger.info(`年次レポート作成完了: ${year}年`, 'Report Processing Service');
+
+            return yearlyReport;
+        }
+    }
+
+    /**
+     * レポートの利用件数に加算する件数
+     * 取消・返金は金額のみ差し引き、利用件数には含めない
+     * @param data カード利用データ
+     */
+    private countOf(data: ReportCardUsageData): number {
+        return data.transaction_type === 'refund' ? 0 : 1;
+    }
+
+    /**
+     * レポートの支出カテゴリ・カードごとの小計にカード利用データを加算する
+     * 導入前に作成したレポートに小計がない場合は、このカード利用データから集計を始める
+     * @param report 現在のレポート
+     * @param data カード利用データ
+     */
+    private addSubtotals(
+        report: Pick<DailyReport, 'categoryTotals' | 'cardTotals'>,
+        data: ReportCardUsageData
+    ): Required<Pick<DailyReport, 'categoryTotals' | 'cardTotals'>> {
+        const count = this.countOf(data);
+        return {
+            categoryTotals: ReportBreakdownUtil.add(
+                report.categoryTotals,
+                ReportBreakdownUtil.categoryKeyOf(data),
+                data.amount,
+                count
+            ),
+            cardTotals: ReportBreakdownUtil.add(
+                report.cardTotals,
+                ReportBreakdownUtil.cardKeyOf(data),
+                data.amount,
+                count
+            ),
+        };
+    }
+
     /**
      * レポートのアラート条件チェック（統一化）
+     * 取消・返金で合計金額がしきい値を下回った場合は、そのレベル以上の通知済みフラグを戻し、
+     * 再びしきい値を超えたときに改めて通知する
      */
     private async checkAndSendAlert<T extends WeeklyReport | MonthlyReport>(
         reportType: ReportType,
@@ -264,6 +446,20 @@ export class ReportProcessingService {
             updatedReport.hasNotifiedLevel2 = report.hasNotifiedLevel2;
             updatedReport.hasNotifiedLevel3 = report.hasNotifiedLevel3;
 
+            // 取消・返金でしきい値を下回ったレベルの通知済みフラグを戻す
+            if (report.hasNotifiedLevel3 && report.totalAmount < thresholds.level3) {
+                updatedReport.hasNotifiedLevel3 = false;
+                updated = true;
+            }
+            if (report.hasNotifiedLevel2 && report.totalAmount < thresholds.level2) {
+                updatedReport.hasNotifiedLevel2 = false;
+                updated = true;
+            }
+            if (report.hasNotifiedLevel1 && report.totalAmount < thresholds.level1) {
+                updatedReport.hasNotifiedLevel1 = false;
+                updated = true;
+            }
+
             // しきい値チェック（最も高いレベルから確認）
             if (report.totalAmount >= thresholds.level3 && !report.hasNotifiedLevel3) {
                 alertLevel = 3;
@@ -315,6 +511,70 @@ export class ReportProcessingService {
         }
     }
 
+    /**
+     * 予算のアラート条件チェック
+     * 予算ごとに、利用額が達した通知する割合をマンスリーレポートに記録し、同じ割合では1度だけ通知する
+     * 複数の割合に同時に達した場合は、最も高い割合のみ通知する
+     * 取消・返金で利用額が下回った割合は通知済みから外し、再び達したときに改めて通知する
+     */
+    private async checkBudgetAlerts(
+        report: MonthlyReport,
+        context: { year: string; month: string }
+    ): Promise<void> {
+        try {
+            const budgets = await this.configRepository.getBudgets();
+            const notified = report.budgetNotifiedPercentages ?? {};
+            const updatedNotified: Record<string, number[]> = {};
+            let updated = false;
+
+            for (const budget of budgets) {
+                const status = BudgetUtil.toStatus(budget, report);
+                const current = notified[budget.id] ?? [];
+                const reached = BudgetUtil.reachedPercentages(status);
+                const newlyReached = reached.filter((percentage) => !current.includes(percentage));
+
+                if (newlyReached.length > 0) {
+                    const percentage = Math.max(...newlyReached);
+                    const alertNotification = ReportNotificationMapper.toBudgetAlertNotification(
+                        report,
+                        status,
+                        percentage,
+                        context.year,
+                        context.month
+                    );
+
+                    await this.discordNotifier.notifyMonthlyReport(alertNotification);
+                    logger.info(
+                        `予算アラート（${budget.name}: ${percentage}%）を送信しました`,
+                        'Report Processing Service'
+                    );
+                }
+
+                if (reached.length > 0) {
+                    updatedNotified[budget.id] = reached;
+                }
+                if (reached.join() !== current.join()) {
+                    updated = true;
+                }
+            }
+
+            // 削除された予算の通知済みの割合は残さない
+            if (Object.keys(notified).some((id) => !budgets.some((budget) => budget.id === id))) {
+                updated = true;
+            }
+
+            if (updated) {
+                await this.reportUseCase.updateMonthlyReport(
+                    { budgetNotifiedPercentages: updatedNotified },
+                    context.year,
+                    context.month.padStart(2, '0')
+                );
+            }
+        } catch (error) {
+            logger.error(error as Error, 'Report Processing Service');
+        }
+    }
+
     /**
      * アラート通知送信
      */
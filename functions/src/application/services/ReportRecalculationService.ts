@@ -4,11 +4,19 @@ import {
     DailyReportFactory,
     WeeklyReportFactory,
     MonthlyReportFactory,
+    YearlyReportFactory,
 } from '../../../../shared/domain/factories/ReportsFactory';
-import { DailyReport, WeeklyReport, MonthlyReport } from '../../../../shared/domain/entities/Reports';
+import {
+    DailyReport,
+    WeeklyReport,
+    MonthlyReport,
+    YearlyReport,
+    ReportSubtotals,
+} from '../../../../shared/domain/entities/Reports';
 import { CardUsageDocument } from '../../domain/entities/ReportRecalculation';
 import { logger } from '../../../../shared/infrastructure/logging/Logger';
 import { AppError, ErrorType } from '../../../../shared/errors/AppError';
+import { ReportBreakdownUtil } from '../../../../shared/utils/ReportBreakdownUtil';
 
 /**
  * レポート再集計サービス
@@ -45,10 +53,11 @@ export class ReportRecalculationService {
                     .getDailyReport(year, month, day)
                     .catch(() => null);
 
-                // データから新しいレポートを構築
+                // データから新しいレポートを構築（取消・返金は負の金額として合計し、件数には含めない）
                 const totalAmount = documents.reduce((sum, doc) => sum + doc.data.amount, 0);
-                const totalCount = documents.length;
+                const totalCount = this.countUsages(documents);
                 const documentIdList = documents.map((doc) => doc.path);
+                const { categoryTotals, cardTotals } = this.sumSubtotals(documents);
                 const dateObj = new Date(parseInt(year), parseInt(month) - 1, parseInt(day));
 
                 const report: DailyReport = DailyReportFactory.create(
@@ -57,7 +66,9 @@ export class ReportRecalculationService {
                     totalCount,
                     executedBy,
                     documentIdList,
-                    existingReport?.hasNotified || false
+                    existingReport?.hasNotified || false,
+                    categoryTotals,
+                    cardTotals
                 );
 
                 if (existingReport) {
@@ -117,10 +128,11 @@ export class ReportRecalculationService {
                 );
                 const pathInfo = FirestorePathUtil.getFirestorePath(dateObj);
 
-                // データから新しいレポートを構築
+                // データから新しいレポートを構築（取消・返金は負の金額として合計し、件数には含めない）
                 const totalAmount = documents.reduce((sum, doc) => sum + doc.data.amount, 0);
-                const totalCount = documents.length;
+                const totalCount = this.countUsages(documents);
                 const documentIdList = documents.map((doc) => doc.path);
+                const { categoryTotals, cardTotals } = this.sumSubtotals(documents);
 
                 const report: WeeklyReport = WeeklyReportFactory.create(
                     pathInfo.weekStartDate.toISOString(),
@@ -132,7 +144,9 @@ export class ReportRecalculationService {
                     existingReport?.hasNotifiedLevel1 || false,
                     existingReport?.hasNotifiedLevel2 || false,
                     existingReport?.hasNotifiedLevel3 || false,
-                    existingReport?.hasReportSent || false
+                    existingReport?.hasReportSent || false,
+                    categoryTotals,
+                    cardTotals
                 );
 
                 if (existingReport) {
@@ -187,10 +201,11 @@ export class ReportRecalculationService {
                 const startDate = new Date(parseInt(year), parseInt(month) - 1, 1);
                 const endDate = new Date(parseInt(year), parseInt(month), 0);
 
-                // データから新しいレポートを構築
+                // データから新しいレポートを構築（取消・返金は負の金額として合計し、件数には含めない）
                 const totalAmount = documents.reduce((sum, doc) => sum + doc.data.amount, 0);
-                const totalCount = documents.length;
+                const totalCount = this.countUsages(documents);
                 const documentIdList = documents.map((doc) => doc.path);
+                const { categoryTotals, cardTotals } = this.sumSubtotals(documents);
 
                 const report: MonthlyReport = MonthlyReportFactory.create(
                     startDate.toISOString(),
@@ -202,7 +217,9 @@ export class ReportRecalculationService {
                     existingReport?.hasNotifiedLevel1 || false,
                     existingReport?.hasNotifiedLevel2 || false,
                     existingReport?.hasNotifiedLevel3 || false,
-                    existingReport?.hasReportSent || false
+                    existingReport?.hasReportSent || false,
+                    categoryTotals,
+                    cardTotals
                 );
 
                 if (existingReport) {
@@ -229,6 +246,130 @@ export class ReportRecalculationService {
         return stats;
     }
 
+    /**
+     * 年次レポートを再集計
+     * 年次レポートは年ごとに上書きするため、対象の年のすべてのカード利用データを渡すこと
+     * @param cardUsageDocuments カード利用データのリスト
+     * @param executedBy 実行者
+     * @returns 作成されたレポート数
+     */
+    async recalculateYearlyReports(
+        cardUsageDocuments: CardUsageDocument[],
+        executedBy: string
+    ): Promise<{ created: number; updated: number }> {
+        const stats = { created: 0, updated: 0 };
+
+        // 年ごとにグループ化
+        const groupedByYear = this.groupByYear(cardUsageDocuments);
+
+        for (const [year, documents] of groupedByYear.entries()) {
+            try {
+                // 既存レポートを取得
+                const existingReport = await this.reportUseCase
+                    .getYearlyReport(year)
+                    .catch(() => null);
+
+                // 期間の開始日と終了日を計算
+                const startDate = new Date(parseInt(year), 0, 1);
+                const endDate = new Date(parseInt(year), 11, 31);
+
+                // データから新しいレポートを構築（取消・返金は負の金額として合計し、件数には含めない）
+                const totalAmount = documents.reduce((sum, doc) => sum + doc.data.amount, 0);
+                const totalCount = this.countUsages(documents);
+                const documentIdList = documents.map((doc) => doc.path);
+                const { categoryTotals, cardTotals } = this.sumSubtotals(documents);
+
+                let monthlyTotals: ReportSubtotals = {};
+                let merchantTotals: ReportSubtotals = {};
+                for (const doc of documents) {
+                    const count = doc.data.transaction_type === 'refund' ? 0 : 1;
+                    monthlyTotals = ReportBreakdownUtil.add(
+                        monthlyTotals,
+                        doc.params.month.padStart(2, '0'),
+                        doc.data.amount,
+                        count
+                    );
+                    merchantTotals = ReportBreakdownUtil.add(
+                        merchantTotals,
+                        ReportBreakdownUtil.merchantKeyOf(doc.data),
+                        doc.data.amount,
+                        count
+                    );
+                }
+
+                const report: YearlyReport = YearlyReportFactory.create(
+                    startDate.toISOString(),
+                    endDate.toISOString(),
+                    totalAmount,
+                    totalCount,
+                    executedBy,
+                    documentIdList,
+                    monthlyTotals,
+                    categoryTotals,
+                    cardTotals,
+                    merchantTotals,
+                    existingReport?.hasReportSent || false
+                );
+
+                if (existingReport) {
+                    // 既存レポートを上書き
+                    await this.reportUseCase.updateYearlyReport(report, year);
+                    stats.updated++;
+                    logger.info(`年次レポート更新: ${year}`, this.serviceContext);
+                } else {
+                    // 新規作成
+                    await this.reportUseCase.createYearlyReport(report, year);
+                    stats.created++;
+                    logger.info(`年次レポート作成: ${year}`, this.serviceContext);
+                }
+            } catch (error) {
+                throw new AppError(
+                    `年次レポート再集計エラー: ${year}`,
+                    ErrorType.GENERAL,
+                    { year, documentCount: documents.length },
+                    error instanceof Error ? error : undefined
+                );
+            }
+        }
+
+        return stats;
+    }
+
+    /**
+     * 利用件数を数える（取消・返金は含めない）
+     */
+    private countUsages(documents: CardUsageDocument[]): number {
+        return documents.filter((doc) => doc.data.transaction_type !== 'refund').length;
+    }
+
+    /**
+     * 支出カテゴリ・カードごとの小計を集計する（取消・返金は負の金額として合計し、件数には含めない）
+     */
+    private sumSubtotals(
+        documents: CardUsageDocument[]
+    ): { categoryTotals: ReportSubtotals; cardTotals: ReportSubtotals } {
+        let categoryTotals: ReportSubtotals = {};
+        let cardTotals: ReportSubtotals = {};
+
+        for (const doc of documents) {
+            const count = doc.data.transaction_type === 'refund' ? 0 : 1;
+            categoryTotals = ReportBreakdownUtil.add(
+                categoryTotals,
+                ReportBreakdownUtil.categoryKeyOf(doc.data),
+                doc.data.amount,
+                count
+            );
+            cardTotals = ReportBreakdownUtil.add(
+                cardTotals,
+                ReportBreakdownUtil.cardKeyOf(doc.data),
+                doc.data.amount,
+                count
+            );
+        }
+
+        return { categoryTotals, cardTotals };
+    }
+
     /**
      * カード利用データを日付ごとにグループ化
      */
@@ -282,4 +423,19 @@ export class ReportRecalculationService {
 
         return grouped;
     }
+
+    /**
+     * カード利用データを年ごとにグループ化
+     */
+    private groupByYear(documents: CardUsageDocument[]): Map<string, CardUsageDocument[]> {
+        const grouped = new Map<string, CardUsageDocument[]>();
+
+        for (const doc of documents) {
+            const existing = grouped.get(doc.params.year) || [];
+            existing.push(doc);
+            grouped.set(doc.params.year, existing);
+        }
+
+        return grouped;
+    }
 }
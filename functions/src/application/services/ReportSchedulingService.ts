@@ -3,6 +3,14 @@ import { NotifyReportUseCase } from '../../../../shared/usecases/notification/No
 import { logger } from '../../../../shared/infrastructure/logging/Logger';
 import { DateUtil, DateInfo } from '../../../../shared/utils/DateUtil';
 import { ReportNotificationMapper } from '../../../../shared/infrastructure/mappers/ReportNotificationMapper';
+import { IConfigRepository } from '../../../../shared/domain/interfaces/database/repositories/IConfigRepository';
+import { Category } from '../../../../shared/domain/entities/Category';
+import { Budget } from '../../../../shared/domain/entities/Budget';
+import { MonthEndForecast } from '../../../../shared/domain/entities/Reports';
+import { YearlyReportUtil } from '../../../../shared/utils/YearlyReportUtil';
+import {
+    IMonthEndForecastUseCase,
+} from '../../../../shared/domain/interfaces/usecases/report/IMonthEndForecastUseCase';
 
 /**
  * レポートスケジューリングサービス
@@ -13,10 +21,14 @@ export class ReportSchedulingService {
      * コンストラクタ
      * @param reportUseCase レポートユースケース
      * @param notifyReportUseCase 通知レポートユースケース
+     * @param configRepository 設定情報リポジトリ（支出カテゴリ名・予算の表示に使用。省略時はカテゴリのIDを表示し、予算は表示しない）
+     * @param forecastUseCase 月末の見込みのユースケース（省略時は日次・週次レポートに月末の見込みを表示しない）
      */
     constructor(
         private readonly reportUseCase: FirestoreReportUseCase,
-        private readonly notifyReportUseCase: NotifyReportUseCase
+        private readonly notifyReportUseCase: NotifyReportUseCase,
+        private readonly configRepository?: IConfigRepository,
+        private readonly forecastUseCase?: IMonthEndForecastUseCase
     ) { }
 
     /**
@@ -60,7 +72,9 @@ export class ReportSchedulingService {
                         yesterdayInfo.year.toString(),
                         yesterdayInfo.month.toString(),
                         yesterdayInfo.day.toString(),
-                        monthToDateAmount
+                        monthToDateAmount,
+                        await this.getCategories(),
+                        await this.getForecast(yesterdayInfo)
                     );
 
                 await this.notifyReportUseCase.notifyDailyReport(dailyNotificationDTO);
@@ -124,7 +138,9 @@ export class ReportSchedulingService {
                         yesterdayInfo.year.toString(),
                         yesterdayInfo.month.toString(),
                         yesterdayInfo.term,
-                        monthToDateAmount
+                        monthToDateAmount,
+                        await this.getCategories(),
+                        await this.getForecast(yesterdayInfo)
                     );
 
                 await this.notifyReportUseCase.notifyWeeklyReport(weeklyNotificationDTO);
@@ -170,7 +186,9 @@ export class ReportSchedulingService {
                     .toMonthlyScheduledNotification(
                         monthlyReport,
                         yesterdayInfo.year.toString(),
-                        yesterdayInfo.month.toString()
+                        yesterdayInfo.month.toString(),
+                        await this.getCategories(),
+                        await this.getBudgets()
                     );
 
                 // マンスリーレポートには累計情報は不要（マンスリー自体が月の累計）
@@ -195,6 +213,58 @@ export class ReportSchedulingService {
         }
     }
 
+    /**
+     * 年間レポート送信処理
+     * 前年の年次レポートがあれば前年との比較を含める
+     * @param yesterdayInfo 昨日の日付情報（年の最終日）
+     */
+    async sendYearlyReport(yesterdayInfo: DateInfo): Promise<void> {
+        try {
+            const year = yesterdayInfo.year.toString();
+            const yearlyReport = await this.reportUseCase.getYearlyReport(year);
+
+            logger.info(
+                `年次レポート取得: ${yearlyReport.totalAmount}円, ` +
+                `件数: ${yearlyReport.totalCount}, hasReportSent: ${yearlyReport.hasReportSent}`,
+                'Report Scheduling Service'
+            );
+
+            // レポートが既に送信済みでない場合のみ送信
+            if (!yearlyReport.hasReportSent) {
+                // 前年の年次レポートを取得（ない場合は前年との比較なしで通知する）
+                const previousReport = await this.reportUseCase
+                    .getYearlyReport((yesterdayInfo.year - 1).toString())
+                    .catch(() => null);
+
+                const yearlyNotificationDTO = ReportNotificationMapper.toYearlyScheduledNotification(
+                    YearlyReportUtil.toSummary(
+                        yesterdayInfo.year,
+                        yearlyReport,
+                        previousReport,
+                        await this.getCategories()
+                    )
+                );
+
+                await this.notifyReportUseCase.notifyYearlyReport(yearlyNotificationDTO);
+
+                // 送信済みフラグを更新
+                await this.updateReportSentFlag('yearly', yesterdayInfo);
+
+                logger.info('年間レポートを送信しました', 'Report Scheduling Service');
+            } else {
+                logger.info(
+                    '年間レポートは送信済みのためスキップします',
+                    'Report Scheduling Service'
+                );
+            }
+        } catch (error) {
+            logger.warn(
+                '年次レポートが見つかりません。送信をスキップします',
+                'Report Scheduling Service'
+            );
+        }
+    }
+
     /**
      * 全体的なスケジュール処理実行
      * dailyReportSchedule関数から呼び出される統合メソッド
@@ -231,16 +301,88 @@ export class ReportSchedulingService {
             await this.sendMonthlyReport(yesterdayInfo);
         }
 
+        // 4. 年間レポート処理（年の最終日の場合、つまり1月1日の実行）
+        if (yesterdayInfo.month === 12 && yesterdayInfo.isLastDayOfMonth) {
+            await this.sendYearlyReport(yesterdayInfo);
+        }
+
         logger.info('定期レポート送信処理が完了しました', 'Report Scheduling Service');
     }
 
+    /**
+     * 支出カテゴリの一覧を取得
+     * 取得できない場合はカテゴリのIDを表示するため、レポートの送信は続行する
+     */
+    private async getCategories(): Promise<Category[] | undefined> {
+        if (!this.configRepository) {
+            return undefined;
+        }
+
+        try {
+            const config = await this.configRepository.getCategoryConfig();
+            return config.categories;
+        } catch (error) {
+            logger.warn(
+                '支出カテゴリの取得に失敗しました。カテゴリのIDで通知します',
+                'Report Scheduling Service'
+            );
+            return undefined;
+        }
+    }
+
+    /**
+     * 月末の利用額の見込みを取得
+     * 月の最終日は当月の合計が確定しているため見込みを求めない
+     * 取得できない場合は見込みを表示せずにレポートの送信を続行する
+     * @param dateInfo 日付情報（この日までの利用を実績とする）
+     */
+    private async getForecast(dateInfo: DateInfo): Promise<MonthEndForecast | undefined> {
+        if (!this.forecastUseCase || dateInfo.isLastDayOfMonth) {
+            return undefined;
+        }
+
+        try {
+            return await this.forecastUseCase.execute(
+                dateInfo.year.toString(),
+                dateInfo.month.toString(),
+                new Date(dateInfo.year, dateInfo.month - 1, dateInfo.day)
+            );
+        } catch (error) {
+            logger.warn(
+                '月末の見込みの取得に失敗しました。見込みを表示せずに通知します',
+                'Report Scheduling Service'
+            );
+            return undefined;
+        }
+    }
+
+    /**
+     * 予算の一覧を取得
+     * 取得できない場合は予算を表示せずにレポートの送信を続行する
+     */
+    private async getBudgets(): Promise<Budget[] | undefined> {
+        if (!this.configRepository) {
+            return undefined;
+        }
+
+        try {
+            return await this.configRepository.getBudgets();
+        } catch (error) {
+            logger.warn(
+                '予算の取得に失敗しました。予算を表示せずに通知します',
+                'Report Scheduling Service'
+            );
+            return undefined;
+        }
+    }
+
     /**
      * レポート送信済みフラグを更新
      * @param reportType レポートタイプ
      * @param dateInfo 日付情報
      */
     private async updateReportSentFlag(
-        reportType: 'daily' | 'weekly' | 'monthly',
+        reportType: 'daily' | 'weekly' | 'monthly' | 'yearly',
         dateInfo: DateInfo
     ): Promise<void> {
         let updateData: Record<string, boolean>;
@@ -287,6 +429,18 @@ export class ReportSchedulingService {
                     dateInfo.month.toString().padStart(2, '0')
                 );
                 break;
+
+            case 'yearly':
+                updateData = { hasReportSent: true };
+                updateBy = 'yearly-report-schedule';
+                await this.reportUseCase.updateYearlyReport(
+                    {
+                        ...updateData,
+                        lastUpdatedBy: updateBy,
+                    },
+                    dateInfo.year.toString()
+                );
+                break;
         }
     }
 }
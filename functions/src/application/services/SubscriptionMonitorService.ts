@@ -0,0 +1,90 @@
+import { NotifyReportUseCase } from '../../../../shared/usecases/notification/NotifyReportUseCase';
+import { logger } from '../../../../shared/infrastructure/logging/Logger';
+import { DateUtil } from '../../../../shared/utils/DateUtil';
+import { SubscriptionUtil } from '../../../../shared/utils/SubscriptionUtil';
+import { ReportNotificationMapper } from '../../../../shared/infrastructure/mappers/ReportNotificationMapper';
+import {
+    ISubscriptionRepository,
+} from '../../../../shared/domain/interfaces/database/repositories/ISubscriptionRepository';
+import { SubscriptionList } from '../../../../shared/domain/entities/Subscription';
+import { FirestoreDataExplorerService } from '../../infrastructure/services/FirestoreDataExplorerService';
+
+/**
+ * 定期的な支払いの監視サービス
+ * カード利用データの履歴から定期的な支払いを検出して一覧を更新し、前回の一覧からの変化をDiscordに通知する
+ * 1日1回の定期実行から呼び出されることを前提とする
+ */
+export class SubscriptionMonitorService {
+    private readonly serviceContext = 'Subscription Monitor Service';
+
+    /**
+     * コンストラクタ
+     * @param subscriptionRepository 定期的な支払いリポジトリ
+     * @param dataExplorerService カード利用データの探索サービス
+     * @param notifyReportUseCase 通知レポートユースケース
+     */
+    constructor(
+        private readonly subscriptionRepository: ISubscriptionRepository,
+        private readonly dataExplorerService: FirestoreDataExplorerService,
+        private readonly notifyReportUseCase: NotifyReportUseCase
+    ) { }
+
+    /**
+     * 定期的な支払いを検出して一覧を更新し、変化を通知する
+     * 初回（保存済みの一覧がない場合）は、既存の定期的な支払いをすべて新規として通知しないよう一覧の保存のみ行う
+     */
+    async monitorSubscriptions(): Promise<void> {
+        let previous: SubscriptionList | null;
+        try {
+            previous = await this.subscriptionRepository.getSubscriptions();
+        } catch (error) {
+            logger.warn('定期的な支払いの一覧の取得に失敗しました。検出をスキップします', this.serviceContext);
+            return;
+        }
+
+        // 日本時間の「今日」を取得
+        const now = DateUtil.getJSTDate();
+        const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+        try {
+            const documents = await this.dataExplorerService.exploreCardUsageData(
+                new Date(today.getFullYear(), today.getMonth() - SubscriptionUtil.LOOKBACK_MONTHS, today.getDate()),
+                new Date(today.getFullYear(), today.getMonth(), today.getDate(), 23, 59, 59, 999)
+            );
+            const subscriptions = SubscriptionUtil.detect(documents.map((document) => ({
+                ...document.data,
+                usedAt: document.data.datetime_of_use,
+            })), today, previous?.subscriptions);
+
+            const changes = previous ? SubscriptionUtil.diff(previous.subscriptions, subscriptions) : [];
+            for (const change of changes) {
+                try {
+                    await this.notifyReportUseCase.notifySubscriptionAlert(
+                        ReportNotificationMapper.toSubscriptionAlertNotification(change)
+                    );
+                } catch (error) {
+                    logger.warn(
+                        `定期的な支払いの通知に失敗しました: ${change.subscription.id} ` +
+                        `(${error instanceof Error ? error.message : String(error)})`,
+                        this.serviceContext
+                    );
+                }
+            }
+
+            await this.subscriptionRepository.saveSubscriptions({
+                subscriptions,
+                analyzedAt: new Date().toISOString(),
+            });
+
+            logger.info(
+                `定期的な支払いを更新しました: ${subscriptions.length}件（変化 ${changes.length}件）`,
+                this.serviceContext
+            );
+        } catch (error) {
+            logger.warn(
+                `定期的な支払いの検出に失敗しました (${error instanceof Error ? error.message : String(error)})`,
+                this.serviceContext
+            );
+        }
+    }
+}
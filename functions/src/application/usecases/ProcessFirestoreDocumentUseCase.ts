@@ -3,12 +3,23 @@ import { AppError, ErrorType } from '../../../../shared/errors/AppError';
 import { logger } from '../../../../shared/infrastructure/logging/Logger';
 import { ReportProcessingService } from '../services/ReportProcessingService';
 import { FirestoreDocumentCreatedEvent } from '../../domain/types/FirebaseFunctionTypes';
+import { CardUsageStatus, CardUsageTransactionType } from '../../../../shared/domain/entities/CardUsage';
 
 /**
  * カード利用データの型定義
  */
 interface CardUsageData {
     amount: number;
+    status?: CardUsageStatus;
+    // eslint-disable-next-line camelcase
+    transaction_type?: CardUsageTransactionType;
+    // eslint-disable-next-line camelcase
+    card_name?: string;
+    category?: string;
+    // eslint-disable-next-line camelcase
+    where_to_use?: string;
+    merchant?: string;
+    imported?: boolean;
     // 他の必要なプロパティがあれば追加
 }
 
@@ -61,6 +72,12 @@ export class ProcessFirestoreDocumentUseCase {
             throw new AppError('無効なデータ形式：amountが数値ではありません', ErrorType.VALIDATION);
         }
 
+        // 抽出結果の信頼度が低い確認待ちのデータは集計しない（確認後の再集計で反映される）
+        if (cardUsageData.status === 'pending_review') {
+            logger.warn(`確認待ちのカード利用情報のため集計をスキップします: ${path}`, 'Firestore Document UseCase');
+            return ResponseHelper.success('確認待ちのカード利用情報のため処理をスキップしました', {});
+        }
+
         logger.info('レポート処理を開始します', 'Firestore Document UseCase');
 
         // 1. デイリーレポート処理
@@ -75,11 +92,16 @@ export class ProcessFirestoreDocumentUseCase {
         logger.debug('マンスリーレポート処理中', 'Firestore Document UseCase');
         const monthlyReport = await this.reportProcessingService.processMonthlyReport(document, cardUsageData, params);
 
+        // 4. 年次レポート処理
+        logger.debug('年次レポート処理中', 'Firestore Document UseCase');
+        const yearlyReport = await this.reportProcessingService.processYearlyReport(document, cardUsageData, params);
+
         // 処理結果を返す
         return ResponseHelper.success('全てのレポート処理が完了しました', {
             dailyReport: dailyReport,
             weeklyReport: weeklyReport,
             monthlyReport: monthlyReport,
+            yearlyReport: yearlyReport,
         });
     }
 }
@@ -12,7 +12,7 @@ import { ResponseHelper, Response } from '../../../../shared/presentation/respon
 
 /**
  * レポート再集計ユースケース
- * Firestoreのdetailsデータを探索して、Daily/Weekly/Monthlyレポートを再生成する
+ * Firestoreのdetailsデータを探索して、Daily/Weekly/Monthly/Yearlyレポートを再生成する
  */
 export class ReportRecalculationUseCase {
     private readonly serviceContext = 'Report Recalculation UseCase';
@@ -33,8 +33,8 @@ export class ReportRecalculationUseCase {
             startTime,
             endTime: new Date(),
             totalCardUsageProcessed: 0,
-            reportsCreated: { daily: 0, weekly: 0, monthly: 0 },
-            reportsUpdated: { daily: 0, weekly: 0, monthly: 0 },
+            reportsCreated: { daily: 0, weekly: 0, monthly: 0, yearly: 0 },
+            reportsUpdated: { daily: 0, weekly: 0, monthly: 0, yearly: 0 },
             errors: [],
             success: false,
             executedBy: request.executedBy,
@@ -48,11 +48,18 @@ export class ReportRecalculationUseCase {
             logger.info(`ドライラン: ${result.dryRun}`, this.serviceContext);
 
             // 1. カード利用データを探索
-            const cardUsageDocuments = await this.dataExplorerService.exploreCardUsageData(
+            const exploredDocuments = await this.dataExplorerService.exploreCardUsageData(
                 request.startDate,
                 request.endDate
             );
 
+            // 抽出結果の信頼度が低い確認待ちのデータは集計しない
+            const cardUsageDocuments = exploredDocuments.filter((doc) => doc.data.status !== 'pending_review');
+            const pendingReviewCount = exploredDocuments.length - cardUsageDocuments.length;
+            if (pendingReviewCount > 0) {
+                logger.info(`確認待ちのカード利用データ${pendingReviewCount}件を集計対象から除外しました`, this.serviceContext);
+            }
+
             logger.info(`発見されたカード利用データ: ${cardUsageDocuments.length}件`, this.serviceContext);
             result.totalCardUsageProcessed = cardUsageDocuments.length;
 
@@ -103,6 +110,15 @@ export class ReportRecalculationUseCase {
                             result.reportsCreated.monthly = stats.created;
                             result.reportsUpdated.monthly = stats.updated;
                             break;
+
+                        case 'yearly':
+                            stats = await this.recalculationService.recalculateYearlyReports(
+                                await this.exploreWholeYears(request, cardUsageDocuments),
+                                request.executedBy
+                            );
+                            result.reportsCreated.yearly = stats.created;
+                            result.reportsUpdated.yearly = stats.updated;
+                            break;
                     }
 
                     logger.info(
@@ -127,9 +143,9 @@ export class ReportRecalculationUseCase {
             logger.info(`レポート再集計完了: ${duration}ms`, this.serviceContext);
             logger.info(`エラー: ${result.errors.length}件`, this.serviceContext);
             /* eslint-disable-next-line */
-            logger.info(`作成レポート - Daily: ${result.reportsCreated.daily}, Weekly: ${result.reportsCreated.weekly}, Monthly: ${result.reportsCreated.monthly}`, this.serviceContext);
+            logger.info(`作成レポート - Daily: ${result.reportsCreated.daily}, Weekly: ${result.reportsCreated.weekly}, Monthly: ${result.reportsCreated.monthly}, Yearly: ${result.reportsCreated.yearly}`, this.serviceContext);
             /* eslint-disable-next-line */
-            logger.info(`更新レポート - Daily: ${result.reportsUpdated.daily}, Weekly: ${result.reportsUpdated.weekly}, Monthly: ${result.reportsUpdated.monthly}`, this.serviceContext);
+            logger.info(`更新レポート - Daily: ${result.reportsUpdated.daily}, Weekly: ${result.reportsUpdated.weekly}, Monthly: ${result.reportsUpdated.monthly}, Yearly: ${result.reportsUpdated.yearly}`, this.serviceContext);
 
             if (result.success) {
                 return ResponseHelper.success('レポート再集計が完了しました', result);
@@ -152,6 +168,28 @@ export class ReportRecalculationUseCase {
         }
     }
 
+    /**
+     * 年次レポートの再集計に使用するカード利用データを取得
+     * 年次レポートは年ごとに上書きするため、期間が年の途中から・途中までの場合は対象の年のすべてのデータを探索し直す
+     */
+    private async exploreWholeYears(
+        request: ReportRecalculationRequest,
+        cardUsageDocuments: CardUsageDocument[]
+    ): Promise<CardUsageDocument[]> {
+        const yearStart = new Date(request.startDate.getFullYear(), 0, 1);
+        const yearEnd = new Date(request.endDate.getFullYear(), 11, 31);
+        if (request.startDate <= yearStart && request.endDate >= yearEnd) {
+            return cardUsageDocuments;
+        }
+
+        logger.info(
+            `年次レポートの再集計のため${yearStart.getFullYear()}年〜${yearEnd.getFullYear()}年のデータを探索します`,
+            this.serviceContext
+        );
+        const exploredDocuments = await this.dataExplorerService.exploreCardUsageData(yearStart, yearEnd);
+        return exploredDocuments.filter((doc) => doc.data.status !== 'pending_review');
+    }
+
     /**
      * ドライラン処理
      */
@@ -178,6 +216,7 @@ export class ReportRecalculationUseCase {
             daily: request.reportTypes.includes('daily') ? dateStats.size : 0,
             weekly: 0,
             monthly: 0,
+            yearly: 0,
         };
 
         if (request.reportTypes.includes('weekly')) {
@@ -196,8 +235,12 @@ export class ReportRecalculationUseCase {
             expectedProcessing.monthly = monthStats.size;
         }
 
+        if (request.reportTypes.includes('yearly')) {
+            expectedProcessing.yearly = new Set(cardUsageDocuments.map((doc) => doc.params.year)).size;
+        }
+
         /* eslint-disable-next-line */
-        logger.info(`処理予定 - Daily: ${expectedProcessing.daily}, Weekly: ${expectedProcessing.weekly}, Monthly: ${expectedProcessing.monthly}`, this.serviceContext);
+        logger.info(`処理予定 - Daily: ${expectedProcessing.daily}, Weekly: ${expectedProcessing.weekly}, Monthly: ${expectedProcessing.monthly}, Yearly: ${expectedProcessing.yearly}`, this.serviceContext);
 
         // 日付別詳細（上位10件）
         const sortedDates = Array.from(dateStats.entries())
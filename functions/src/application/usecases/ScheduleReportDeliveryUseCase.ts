@@ -2,6 +2,8 @@ import { ResponseHelper, Response } from '../../../../shared/presentation/respon
 import { AppError, ErrorType } from '../../../../shared/errors/AppError';
 import { logger } from '../../../../shared/infrastructure/logging/Logger';
 import { ReportSchedulingService } from '../services/ReportSchedulingService';
+import { BillingReminderService } from '../services/BillingReminderService';
+import { SubscriptionMonitorService } from '../services/SubscriptionMonitorService';
 import { ScheduleContext } from '../../domain/types/FirebaseFunctionTypes';
 
 /**
@@ -9,8 +11,16 @@ import { ScheduleContext } from '../../domain/types/FirebaseFunctionTypes';
  * 定期的なレポート配信のビジネスロジックを管理
  */
 export class ScheduleReportDeliveryUseCase {
+    /**
+     * コンストラクタ
+     * @param reportSchedulingService レポートスケジューリングサービス
+     * @param billingReminderService 支払日通知サービス（省略時は支払日を通知しない）
+     * @param subscriptionMonitorService 定期的な支払いの監視サービス（省略時は定期的な支払いを検出しない）
+     */
     constructor(
-        private readonly reportSchedulingService: ReportSchedulingService
+        private readonly reportSchedulingService: ReportSchedulingService,
+        private readonly billingReminderService?: BillingReminderService,
+        private readonly subscriptionMonitorService?: SubscriptionMonitorService
     ) { }
 
     /**
@@ -24,6 +34,12 @@ export class ScheduleReportDeliveryUseCase {
             // ReportSchedulingServiceの統合メソッドを呼び出し
             await this.reportSchedulingService.executeScheduledReports();
 
+            // 登録済みのカードの支払日を通知
+            await this.billingReminderService?.sendBillingReminders();
+
+            // 定期的な支払いを検出し、変化を通知
+            await this.subscriptionMonitorService?.monitorSubscriptions();
+
             return ResponseHelper.success('スケジュール配信処理が完了しました', {
                 timestamp: new Date().toISOString(),
             });
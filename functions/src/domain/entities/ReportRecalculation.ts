@@ -8,7 +8,7 @@ export interface ReportRecalculationRequest {
     /** 処理終了日 */
     endDate: Date;
     /** 再集計対象のレポートタイプ */
-    reportTypes: ('daily' | 'weekly' | 'monthly')[];
+    reportTypes: ('daily' | 'weekly' | 'monthly' | 'yearly')[];
     /** 実行者 */
     executedBy: string;
     /** ドライランかどうか */
@@ -30,12 +30,14 @@ export interface ReportRecalculationResult {
         daily: number;
         weekly: number;
         monthly: number;
+        yearly: number;
     };
     /** 更新されたレポート数 */
     reportsUpdated: {
         daily: number;
         weekly: number;
         monthly: number;
+        yearly: number;
     };
     /** エラー情報 */
     errors: ReportRecalculationError[];
@@ -1,10 +1,15 @@
 import { IDiscordNotifier } from '../../../../shared/domain/interfaces/discord/IDiscordNotifier';
 import { IConfigRepository } from '../../../../shared/domain/interfaces/database/repositories/IConfigRepository';
+import {
+    ISubscriptionRepository,
+} from '../../../../shared/domain/interfaces/database/repositories/ISubscriptionRepository';
 import { DiscordNotifier } from '../../../../shared/infrastructure/discord/DiscordNotifier';
 import { FirestoreReportRepository } from
     '../../../../shared/infrastructure/database/repositories/FirestoreReportRepository';
 import { FirestoreConfigRepository } from
     '../../../../shared/infrastructure/database/repositories/FirestoreConfigRepository';
+import { FirestoreSubscriptionRepository } from
+    '../../../../shared/infrastructure/database/repositories/FirestoreSubscriptionRepository';
 import { FirestoreReportUseCase } from '../../../../shared/usecases/database/FirestoreReportUseCase';
 import { NotifyReportUseCase } from '../../../../shared/usecases/notification/NotifyReportUseCase';
 import { Environment } from '../../../../shared/infrastructure/config/Environment';
@@ -20,6 +25,7 @@ export class DependencyContainer {
 
     private _reportRepository?: FirestoreReportRepository;
     private _configRepository?: IConfigRepository;
+    private _subscriptionRepository?: ISubscriptionRepository;
     private _discordNotifier?: IDiscordNotifier;
     private _reportUseCase?: FirestoreReportUseCase;
     private _notifyReportUseCase?: NotifyReportUseCase;
@@ -106,6 +112,17 @@ export class DependencyContainer {
         return this._configRepository;
     }
 
+    /**
+     * 定期的な支払いリポジトリを取得
+     * @returns ISubscriptionRepository
+     */
+    public get subscriptionRepository(): ISubscriptionRepository {
+        if (!this._subscriptionRepository) {
+            this._subscriptionRepository = new FirestoreSubscriptionRepository();
+        }
+        return this._subscriptionRepository;
+    }
+
     /**
      * レポート処理サービスを取得
      * @returns ReportProcessingService
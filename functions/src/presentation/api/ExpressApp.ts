@@ -49,7 +49,7 @@ export function createExpressApp(): express.Express {
      * リクエストボディ: {
      *   startDate: string,
      *   endDate: string,
-     *   reportTypes?: ['daily', 'weekly', 'monthly'],
+     *   reportTypes?: ['daily', 'weekly', 'monthly', 'yearly'],
      *   executedBy?: string,
      *   dryRun?: boolean
      * }
@@ -4,7 +4,10 @@ import { ScheduleReportDeliveryUseCase } from '../../application/usecases/Schedu
 import { ReportRecalculationUseCase } from '../../application/usecases/ReportRecalculationUseCase';
 import { ReportSchedulingService } from '../../application/services/ReportSchedulingService';
 import { ReportRecalculationService } from '../../application/services/ReportRecalculationService';
+import { BillingReminderService } from '../../application/services/BillingReminderService';
+import { SubscriptionMonitorService } from '../../application/services/SubscriptionMonitorService';
 import { FirestoreDataExplorerService } from '../../infrastructure/services/FirestoreDataExplorerService';
+import { MonthEndForecastUseCase } from '../../../../shared/usecases/report/MonthEndForecastUseCase';
 import { FirestoreDocumentCreatedHandler } from './FirestoreDocumentCreatedHandler';
 import { DailyReportScheduleHandler } from './DailyReportScheduleHandler';
 import { ReportRecalculationScheduleHandler } from './ReportRecalculationScheduleHandler';
@@ -62,9 +65,15 @@ export class EventHandlerFactory {
     createDailyReportScheduleHandler(): DailyReportScheduleHandler {
         const reportSchedulingService = new ReportSchedulingService(
             this.container.reportUseCase,
-            this.container.notifyReportUseCase
+            this.container.notifyReportUseCase,
+            this.container.configRepository,
+            this.createMonthEndForecastUseCase()
+        );
+        const scheduleUseCase = new ScheduleReportDeliveryUseCase(
+            reportSchedulingService,
+            this.createBillingReminderService(),
+            this.createSubscriptionMonitorService()
         );
-        const scheduleUseCase = new ScheduleReportDeliveryUseCase(reportSchedulingService);
         return new DailyReportScheduleHandler(scheduleUseCase);
     }
 
@@ -84,9 +93,15 @@ export class EventHandlerFactory {
     createDailyReportScheduleHttpHandler(): DailyReportScheduleHttpHandler {
         const reportSchedulingService = new ReportSchedulingService(
             this.container.reportUseCase,
-            this.container.notifyReportUseCase
+            this.container.notifyReportUseCase,
+            this.container.configRepository,
+            this.createMonthEndForecastUseCase()
+        );
+        const scheduleUseCase = new ScheduleReportDeliveryUseCase(
+            reportSchedulingService,
+            this.createBillingReminderService(),
+            this.createSubscriptionMonitorService()
         );
-        const scheduleUseCase = new ScheduleReportDeliveryUseCase(reportSchedulingService);
         return new DailyReportScheduleHttpHandler(scheduleUseCase);
     }
 
@@ -96,7 +111,9 @@ export class EventHandlerFactory {
     createSendWeeklyReportHttpHandler(): SendWeeklyReportHttpHandler {
         const reportSchedulingService = new ReportSchedulingService(
             this.container.reportUseCase,
-            this.container.notifyReportUseCase
+            this.container.notifyReportUseCase,
+            this.container.configRepository,
+            this.createMonthEndForecastUseCase()
         );
         return new SendWeeklyReportHttpHandler(reportSchedulingService);
     }
@@ -138,4 +155,36 @@ export class EventHandlerFactory {
         );
         return new ReportRecalculationScheduleHandler(recalculationUseCase);
     }
+
+    /**
+     * 支払日通知サービスを作成
+     */
+    private createBillingReminderService(): BillingReminderService {
+        return new BillingReminderService(
+            this.container.configRepository,
+            new FirestoreDataExplorerService(this.container.firestoreService),
+            this.container.notifyReportUseCase
+        );
+    }
+
+    /**
+     * 月末の見込みのユースケースを作成
+     */
+    private createMonthEndForecastUseCase(): MonthEndForecastUseCase {
+        return new MonthEndForecastUseCase(
+            this.container.reportRepository,
+            this.container.subscriptionRepository
+        );
+    }
+
+    /**
+     * 定期的な支払いの監視サービスを作成
+     */
+    private createSubscriptionMonitorService(): SubscriptionMonitorService {
+        return new SubscriptionMonitorService(
+            this.container.subscriptionRepository,
+            new FirestoreDataExplorerService(this.container.firestoreService),
+            this.container.notifyReportUseCase
+        );
+    }
 }
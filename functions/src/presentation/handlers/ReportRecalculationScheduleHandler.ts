@@ -36,6 +36,8 @@ export class ReportRecalculationScheduleHandler extends BaseEventHandler<Schedul
         const request: ReportRecalculationRequest = {
             startDate,
             endDate,
+            // 年次レポートは年全体の利用情報を読み直すため、定期実行では再集計しない
+            // （カード利用情報の保存時に更新し、必要な場合は再集計APIで集計し直す）
             reportTypes: ['daily', 'weekly', 'monthly'],
             executedBy: 'scheduled-task',
             dryRun: false,
@@ -24,7 +24,7 @@ export class ReportRecalculationHttpHandler extends BaseHttpHandler {
         const {
             startDate,
             endDate,
-            reportTypes = ['daily', 'weekly', 'monthly'],
+            reportTypes = ['daily', 'weekly', 'monthly', 'yearly'],
             executedBy = 'http-api',
             dryRun = false,
         } = req.body;
@@ -68,7 +68,7 @@ export class ReportRecalculationHttpHandler extends BaseHttpHandler {
         }
 
         // レポートタイプのバリデーション
-        const validReportTypes = ['daily', 'weekly', 'monthly'];
+        const validReportTypes = ['daily', 'weekly', 'monthly', 'yearly'];
         const invalidTypes = reportTypes.filter((type: string) => !validReportTypes.includes(type));
         if (invalidTypes.length > 0) {
             const errorResponse = ResponseHelper.validationError('無効なレポートタイプが含まれています', {
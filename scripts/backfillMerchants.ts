@@ -0,0 +1,102 @@
+#!/usr/bin/env npx ts-node
+
+/**
+ * 正規化した利用先の一括更新スクリプト
+ * 保存済みのカード利用情報の利用先を、現在の正規化とFirestoreの別名（config/merchant_aliases）で正規化し直す
+ * 正規化の導入前に保存した利用情報や、別名を変更した後の反映に使用する
+ *
+ * 使用例:
+ * npm run backfill:merchants -- 2025-01
+ * npm run backfill:merchants -- 2025-01 2025-06
+ * npm run backfill:merchants -- 2025-01 --dry-run
+ */
+
+import 'dotenv/config';
+import { DependencyContainer } from '@infrastructure/config/DependencyContainer';
+
+const YEAR_MONTH_PATTERN = /^(\d{4})-(\d{1,2})$/;
+
+function parseYearMonth(value: string) {
+    const match = value.match(YEAR_MONTH_PATTERN);
+    if (!match || Number(match[2]) < 1 || Number(match[2]) > 12) {
+        console.error(`❌ 年月はYYYY-MM形式で指定してください: ${value}`);
+        process.exit(1);
+    }
+    return { year: Number(match[1]), month: Number(match[2]) };
+}
+
+function parseArgs() {
+    const args = process.argv.slice(2);
+    const positional = args.filter(arg => !arg.startsWith('--'));
+
+    if (positional.length < 1) {
+        console.error('❌ 使用方法: npm run backfill:merchants -- <開始年月> [終了年月] [--dry-run]');
+        console.error('例: npm run backfill:merchants -- 2025-01 2025-06 --dry-run');
+        process.exit(1);
+    }
+
+    // 終了年月の省略時は当月まで
+    const now = new Date();
+    const from = parseYearMonth(positional[0]);
+    const to = positional[1] ? parseYearMonth(positional[1]) : { year: now.getFullYear(), month: now.getMonth() + 1 };
+
+    if (from.year * 12 + from.month > to.year * 12 + to.month) {
+        console.error('❌ 開始年月は終了年月以前を指定してください');
+        process.exit(1);
+    }
+
+    return { from, to, dryRun: args.includes('--dry-run') };
+}
+
+async function main() {
+    const options = parseArgs();
+
+    console.log('🏷️  正規化した利用先の一括更新スクリプト 開始');
+    console.log(`📅 期間: ${options.from.year}年${options.from.month}月 - ${options.to.year}年${options.to.month}月`);
+    console.log(`🔍 ドライラン: ${options.dryRun ? 'Yes（更新しません）' : 'No'}`);
+    console.log('');
+
+    try {
+        const container = new DependencyContainer();
+        await container.initialize();
+        const useCase = container.getBackfillMerchantUseCase();
+
+        let total = 0;
+        let changed = 0;
+
+        let { year, month } = options.from;
+        while (year * 12 + month <= options.to.year * 12 + options.to.month) {
+            const result = await useCase.execute(String(year), String(month), options.dryRun);
+            total += result.total;
+            changed += result.changes.length;
+
+            console.log(`📆 ${year}年${month}月: ${result.changes.length}件 / ${result.total}件`);
+            result.changes.forEach(change => {
+                console.log(`    ${change.whereToUse}: ${change.previous ?? '（未設定）'} → ${change.merchant}`);
+            });
+
+            if (month === 12) {
+                year++;
+                month = 1;
+            } else {
+                month++;
+            }
+        }
+
+        console.log('');
+        console.log(`✅ ${options.dryRun ? '確認' : '更新'}が完了しました: ${changed}件 / ${total}件`);
+        process.exit(0);
+
+    } catch (error) {
+        console.error('❌ 予期しないエラーが発生しました:', error);
+        process.exit(1);
+    }
+}
+
+// スクリプト実行
+if (require.main === module) {
+    main().catch((error) => {
+        console.error('❌ スクリプト実行エラー:', error);
+        process.exit(1);
+    });
+}
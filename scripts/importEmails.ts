@@ -0,0 +1,129 @@
+#!/usr/bin/env npx ts-node
+
+/**
+ * 過去のメール取り込みスクリプト
+ * Gmailなどからエクスポートした.emlファイル・mboxアーカイブのカード利用通知メールを取り込み、
+ * IMAPで受信したメールと同じ処理でカード利用情報を登録する（登録済みの利用明細はスキップする）
+ *
+ * 使用例:
+ * npm run import:emails -- ./exports/All\ mail.mbox
+ * npm run import:emails -- ./exports/mufg ./exports/smbc --verbose
+ */
+
+import 'dotenv/config';
+import * as fs from 'fs';
+import * as path from 'path';
+import { DependencyContainer } from '@infrastructure/config/DependencyContainer';
+import { EmailArchive, ImportedEmailResult } from '@domain/interfaces/usecases/email/IImportEmailsUseCase';
+
+/** 取り込み対象とするファイルの拡張子 */
+const ARCHIVE_EXTENSIONS = ['.eml', '.mbox'];
+
+function parseArgs() {
+    const args = process.argv.slice(2);
+    const paths = args.filter(arg => !arg.startsWith('--'));
+
+    if (paths.length === 0) {
+        console.error('❌ 使用方法: npm run import:emails -- <.emlファイル|mboxファイル|ディレクトリ>... [--verbose]');
+        console.error('例: npm run import:emails -- ./exports/mail.mbox ./exports/eml --verbose');
+        process.exit(1);
+    }
+
+    return {
+        paths,
+        verbose: args.includes('--verbose'),
+    };
+}
+
+/**
+ * 指定されたパスから取り込むファイルを集める（ディレクトリは再帰的に探索する）
+ */
+function collectFiles(target: string): string[] {
+    if (!fs.existsSync(target)) {
+        console.error(`❌ ファイルが見つかりません: ${target}`);
+        process.exit(1);
+    }
+
+    if (fs.statSync(target).isDirectory()) {
+        return fs.readdirSync(target)
+            .sort()
+            .flatMap(entry => {
+                const entryPath = path.join(target, entry);
+                if (fs.statSync(entryPath).isDirectory()) {
+                    return collectFiles(entryPath);
+                }
+                return ARCHIVE_EXTENSIONS.includes(path.extname(entry).toLowerCase()) ? [entryPath] : [];
+            });
+    }
+
+    // 直接指定されたファイルは拡張子に関わらず取り込む
+    return [target];
+}
+
+function printItem(item: ImportedEmailResult) {
+    const detail = item.reason ?? item.savedPaths?.join(', ') ?? '';
+    console.log(`    [${item.status}] ${item.source} ${item.subject ?? ''} (${item.receivedAt ?? '-'}) ${detail}`);
+}
+
+async function main() {
+    const options = parseArgs();
+    const files = options.paths.flatMap(collectFiles);
+
+    if (files.length === 0) {
+        console.error(`❌ 取り込むファイル（${ARCHIVE_EXTENSIONS.join(', ')}）が見つかりません。`);
+        process.exit(1);
+    }
+
+    console.log('📥 過去のメール取り込みスクリプト 開始');
+    console.log(`📂 対象ファイル: ${files.length}件`);
+    console.log('');
+
+    try {
+        const container = new DependencyContainer();
+        await container.initialize();
+
+        const archives: EmailArchive[] = files.map(file => ({
+            name: path.basename(file),
+            content: fs.readFileSync(file),
+        }));
+
+        console.log('⏳ 処理を開始します...');
+        const startTime = Date.now();
+
+        const result = await container.getImportEmailsUseCase().execute(archives);
+
+        const duration = Date.now() - startTime;
+
+        console.log('');
+        console.log('✅ 処理が完了しました');
+        console.log(`⏱️  処理時間: ${duration}ms`);
+        console.log('');
+        console.log('📊 処理結果:');
+        console.log(`  ✉️  メール: ${result.total}通`);
+        console.log(`  🆕 登録: ${result.created}通`);
+        console.log(`  ⏭️  スキップ: ${result.skipped}通`);
+        console.log(`  ❌ 失敗: ${result.failed}通`);
+
+        // 失敗したメールは常に表示し、すべての結果は--verbose指定時のみ表示する
+        const items = options.verbose ? result.items : result.items.filter(item => item.status === 'failed');
+        if (items.length > 0) {
+            console.log('');
+            console.log(options.verbose ? '📝 メールごとの結果:' : '📝 失敗したメール:');
+            items.forEach(printItem);
+        }
+
+        process.exit(result.failed > 0 ? 1 : 0);
+
+    } catch (error) {
+        console.error('❌ 予期しないエラーが発生しました:', error);
+        process.exit(1);
+    }
+}
+
+// スクリプト実行
+if (require.main === module) {
+    main().catch((error) => {
+        console.error('❌ スクリプト実行エラー:', error);
+        process.exit(1);
+    });
+}
@@ -0,0 +1,141 @@
+#!/usr/bin/env npx ts-node
+
+/**
+ * 利用明細CSV照合スクリプト
+ * カード会社のWebサイトからダウンロードした利用明細CSVを正として、
+ * メールから登録したカード利用情報の漏れ（未登録）・余分・相違を表示する
+ *
+ * 使用例:
+ * npm run reconcile:statement -- SMBC ./statements/202505.csv
+ * npm run reconcile:statement -- MUFG ./statements/202505.csv --card-name=デビット
+ * npm run reconcile:statement -- SMBC ./statements/202505.csv --create-missing
+ * npm run reconcile:statement -- SMBC ./statements/202505.csv --create-missing --create-card-name=三井住友カード（NL）
+ */
+
+import 'dotenv/config';
+import * as fs from 'fs';
+import { DependencyContainer } from '@infrastructure/config/DependencyContainer';
+import { ReconciledCardUsage } from '@domain/interfaces/usecases/statement/IReconcileStatementUseCase';
+import { StatementLine } from '@domain/interfaces/infrastructure/statement/IStatementParser';
+
+function parseArgs() {
+    const args = process.argv.slice(2);
+    const positional = args.filter(arg => !arg.startsWith('--'));
+
+    if (positional.length < 2) {
+        console.error('❌ 使用方法: npm run reconcile:statement -- <カード会社> <利用明細CSV> [オプション]');
+        console.error('例: npm run reconcile:statement -- SMBC ./statements/202505.csv --card-name=三井住友 --create-missing');
+        process.exit(1);
+    }
+
+    const options = {
+        cardCompany: positional[0].toUpperCase(),
+        file: positional[1],
+        cardName: undefined as string | undefined,
+        createMissing: args.includes('--create-missing'),
+        createCardName: undefined as string | undefined,
+    };
+
+    // card-nameオプションの解析
+    const cardNameArg = args.find(arg => arg.startsWith('--card-name='));
+    if (cardNameArg) {
+        options.cardName = cardNameArg.split('=')[1];
+    }
+
+    // create-card-nameオプションの解析
+    const createCardNameArg = args.find(arg => arg.startsWith('--create-card-name='));
+    if (createCardNameArg) {
+        options.createCardName = createCardNameArg.split('=')[1];
+    }
+
+    return options;
+}
+
+function formatLine(line: StatementLine) {
+    return `${line.date} ${line.amount.toLocaleString()}円 ${line.merchant}（${line.lineNumber}行目）`;
+}
+
+function formatUsage(usage: ReconciledCardUsage) {
+    return `${new Date(usage.datetime_of_use).toLocaleString('ja-JP')} ${usage.amount.toLocaleString()}円 ` +
+        `${usage.where_to_use} [${usage.card_name}] ${usage.path}`;
+}
+
+async function main() {
+    const options = parseArgs();
+
+    if (!fs.existsSync(options.file)) {
+        console.error(`❌ ファイルが見つかりません: ${options.file}`);
+        process.exit(1);
+    }
+
+    console.log('🧾 利用明細CSV照合スクリプト 開始');
+    console.log(`💳 カード会社: ${options.cardCompany}`);
+    console.log(`📄 利用明細: ${options.file}`);
+    console.log(`🔍 カード名: ${options.cardName ?? '（すべて）'}`);
+    console.log(`🆕 未登録の利用明細を登録: ${options.createMissing ? 'Yes' : 'No'}`);
+    console.log('');
+
+    try {
+        const container = new DependencyContainer();
+        await container.initialize();
+
+        const result = await container.getReconcileStatementUseCase().execute(
+            options.cardCompany,
+            fs.readFileSync(options.file),
+            {
+                cardName: options.cardName,
+                createMissing: options.createMissing,
+                createCardName: options.createCardName,
+            }
+        );
+
+        console.log('✅ 照合が完了しました');
+        console.log(`📅 期間: ${result.period.start} - ${result.period.end}`);
+        console.log('');
+        console.log('📊 照合結果:');
+        console.log(`  🧾 利用明細: ${result.total}件`);
+        console.log(`  ✅ 一致: ${result.matched}件`);
+        console.log(`  ❓ 未登録: ${result.missing.length}件${options.createMissing ? `（登録: ${result.created}件）` : ''}`);
+        console.log(`  ➕ 余分: ${result.extra.length}件`);
+        console.log(`  ⚠️  相違: ${result.mismatched.length}件`);
+
+        if (result.missing.length > 0) {
+            console.log('');
+            console.log('❓ 未登録の利用明細:');
+            result.missing.forEach(entry => {
+                const saved = entry.savedPath ? ` → ${entry.savedPath}` : '';
+                const duplicate = entry.duplicateOf ? `（重複の疑い: ${entry.duplicateOf}）` : '';
+                console.log(`    ${formatLine(entry.line)}${saved}${duplicate}`);
+            });
+        }
+
+        if (result.extra.length > 0) {
+            console.log('');
+            console.log('➕ 利用明細にないカード利用情報:');
+            result.extra.forEach(usage => console.log(`    ${formatUsage(usage)}`));
+        }
+
+        if (result.mismatched.length > 0) {
+            console.log('');
+            console.log('⚠️  相違のある利用明細:');
+            result.mismatched.forEach(entry => {
+                console.log(`    [${entry.differences.join(', ')}] ${formatLine(entry.line)}`);
+                console.log(`      ↔ ${formatUsage(entry.usage)}`);
+            });
+        }
+
+        process.exit(0);
+
+    } catch (error) {
+        console.error('❌ 予期しないエラーが発生しました:', error);
+        process.exit(1);
+    }
+}
+
+// スクリプト実行
+if (require.main === module) {
+    main().catch((error) => {
+        console.error('❌ スクリプト実行エラー:', error);
+        process.exit(1);
+    });
+}
@@ -1,3 +1,82 @@
+/**
+ * 支出カテゴリごとの内訳（レポート通知用）
+ */
+export interface ReportCategoryShareDTO {
+    // 支出カテゴリの表示名
+    name: string;
+
+    // 合計金額
+    amount: number;
+
+    // 合計金額に占める割合（%）
+    share: number;
+}
+
+/**
+ * 予算の利用状況（レポート通知用）
+ */
+export interface ReportBudgetDTO {
+    // 予算の表示名
+    name: string;
+
+    // 月の上限金額
+    limit: number;
+
+    // 当月の利用額
+    spent: number;
+
+    // 残りの金額（上限を超えた場合は負の値）
+    remaining: number;
+
+    // 上限に対する利用額の割合（%）
+    usage: number;
+}
+
+/**
+ * 利用先ごとの内訳（レポート通知用）
+ */
+export interface ReportMerchantShareDTO {
+    // 利用先
+    merchant: string;
+
+    // 合計金額
+    amount: number;
+
+    // 合計金額に占める割合（%）
+    share: number;
+}
+
+/**
+ * 前年との比較（レポート通知用）
+ */
+export interface ReportYearOverYearDTO {
+    // 前年の合計金額
+    previousTotalAmount: number;
+
+    // 前年からの増減額
+    difference: number;
+
+    // 前年からの増減率（%、前年の合計金額が0以下の場合はnull）
+    changeRate: number | null;
+}
+
+/**
+ * 月末の利用額の見込み（レポート通知用）
+ */
+export interface ReportForecastDTO {
+    // 月末の合計の見込み
+    projectedAmount: number;
+
+    // 見込みの下限
+    lowerBound: number;
+
+    // 見込みの上限
+    upperBound: number;
+
+    // 下限〜上限の信頼水準（%）
+    confidenceLevel: number;
+}
+
 /**
  * ウィークリーレポート通知用のデータモデル
  * カード利用通知とは異なり、週次集計情報を格納する
@@ -21,6 +100,12 @@ export interface WeeklyReportNotificationDTO {
     // 当月累計金額（オプショナル）
     monthToDateAmount?: number;
 
+    // 支出カテゴリの上位（任意、金額の大きい順）
+    topCategories?: ReportCategoryShareDTO[];
+
+    // 月末の利用額の見込み（任意）
+    forecast?: ReportForecastDTO;
+
     // 追加情報（任意）
     additionalInfo?: string;
 }
@@ -44,6 +129,12 @@ export interface DailyReportNotificationDTO {
     // 当月累計金額（オプショナル）
     monthToDateAmount?: number;
 
+    // 支出カテゴリの上位（任意、金額の大きい順）
+    topCategories?: ReportCategoryShareDTO[];
+
+    // 月末の利用額の見込み（任意）
+    forecast?: ReportForecastDTO;
+
     // 追加情報（任意）
     additionalInfo?: string;
 }
@@ -67,6 +158,104 @@ export interface MonthlyReportNotificationDTO {
     // アラートレベル（0: 通常、1: 4000円超過、2: 20000円超過、3: 40000円超過）
     alertLevel: number;
 
+    // 支出カテゴリの上位（任意、金額の大きい順）
+    topCategories?: ReportCategoryShareDTO[];
+
+    // 予算の利用状況（任意）
+    budgets?: ReportBudgetDTO[];
+
     // 追加情報（任意）
     additionalInfo?: string;
 }
+
+/**
+ * 年間レポート通知用のデータモデル
+ */
+export interface YearlyReportNotificationDTO {
+    // レポートタイトル（例: 2025年 年間レポート）
+    title: string;
+
+    // 対象期間（例: 2025/01/01 〜 2025/12/31）
+    period: string;
+
+    // 合計金額
+    totalAmount: number;
+
+    // 利用件数
+    totalCount: number;
+
+    // 月ごとの合計金額（1月〜12月）
+    monthlyAmounts: { month: number; amount: number }[];
+
+    // 支出カテゴリの上位（任意、金額の大きい順）
+    topCategories?: ReportCategoryShareDTO[];
+
+    // 利用先の上位（任意、金額の大きい順）
+    topMerchants?: ReportMerchantShareDTO[];
+
+    // 前年との比較（任意）
+    yearOverYear?: ReportYearOverYearDTO;
+}
+
+/**
+ * 支払日の通知用のデータモデル
+ * 登録済みのカードの請求サイクルで、支払日に請求される金額を格納する
+ */
+export interface BillingReminderNotificationDTO {
+    // 通知タイトル（例: 楽天カード 6月10日のお支払い）
+    title: string;
+
+    // カードの表示名
+    cardName: string;
+
+    // 支払日（例: 2025/06/10）
+    paymentDate: string;
+
+    // 支払日までの日数
+    daysUntilPayment: number;
+
+    // 利用期間（例: 2025/04/16 〜 2025/05/15）
+    period: string;
+
+    // 請求金額（取消・返金を差し引いた金額）
+    totalAmount: number;
+
+    // 利用件数
+    totalCount: number;
+
+    // 支出カテゴリの上位（任意、金額の大きい順）
+    topCategories?: ReportCategoryShareDTO[];
+}
+
+/**
+ * 定期的な支払いの変化の通知用のデータモデル
+ * 新たに検出した定期的な支払い、金額の変化、支払予定日を過ぎても支払いがないことを格納する
+ */
+export interface SubscriptionAlertNotificationDTO {
+    // 通知タイトル（例: 定期的な支払いの金額が変わりました）
+    title: string;
+
+    // 変化の種類（new: 新たに検出、price_changed: 金額の変化、missed: 支払いがない）
+    type: 'new' | 'price_changed' | 'missed';
+
+    // 利用先
+    merchant: string;
+
+    // カード名
+    cardName: string;
+
+    // 支払いの間隔（例: 毎月）
+    interval: string;
+
+    // 最後の支払いの金額
+    amount: number;
+
+    // 変わる前の金額（金額の変化の場合のみ）
+    previousAmount?: number;
+
+    // 最後の支払日（例: 2025/06/10）
+    lastChargedAt: string;
+
+    // 次回の支払予定日（例: 2025/07/10）
+    nextChargeDate: string;
+}
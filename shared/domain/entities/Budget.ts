@@ -0,0 +1,64 @@
+/**
+ * 予算のエンティティ
+ * Firestoreの設定（config/budgets）に、支出カテゴリまたはカードごとの月の予算を保存する
+ */
+
+/**
+ * 通知する割合が未指定の場合に使用する割合（%）
+ */
+export const DEFAULT_BUDGET_ALERT_PERCENTAGES = [50, 80, 100];
+
+/**
+ * 予算の対象
+ * category: 支出カテゴリ、card: カード
+ */
+export type BudgetTarget = 'category' | 'card';
+
+/**
+ * 月の予算
+ */
+export interface Budget {
+    /** 予算のID（保存時に採番する） */
+    id: string;
+    /** 表示名 */
+    name: string;
+    /** 予算の対象 */
+    target: BudgetTarget;
+    /** 対象の支出カテゴリのID、またはカード名 */
+    key: string;
+    /** 月の上限金額（円） */
+    limit: number;
+    /** 通知する割合（%、昇順。利用額が上限のこの割合に達したときに1度だけ通知する） */
+    alertPercentages: number[];
+}
+
+/**
+ * 予算の登録・更新の入力
+ * nameを省略した場合は支出カテゴリの表示名またはカード名、alertPercentagesを省略した場合は既定の割合を使用する
+ */
+export type BudgetInput = Omit<Budget, 'id' | 'name' | 'alertPercentages'> & {
+    name?: string;
+    alertPercentages?: number[];
+};
+
+/**
+ * 予算の設定（config/budgets）
+ */
+export interface BudgetConfig {
+    /** 予算の一覧 */
+    budgets: Budget[];
+}
+
+/**
+ * 予算の利用状況
+ */
+export interface BudgetStatus {
+    /** 予算 */
+    budget: Budget;
+    /** 当月の利用額（円。取消・返金を差し引いた金額） */
+    spent: number;
+    /** 残りの金額（円。上限を超えた場合は負の値） */
+    remaining: number;
+    /** 上限に対する利用額の割合（%、小数第1位まで） */
+    usage: number;
+}
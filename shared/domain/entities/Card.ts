@@ -0,0 +1,57 @@
+/**
+ * カードのエンティティ
+ * Firestoreの設定（config/cards）に、カード名（カード利用情報のcard_name）ごとの締め日・支払日を保存する
+ */
+
+/**
+ * 締め日・支払日に指定できる最大の日（この日は月末として扱う）
+ */
+export const END_OF_MONTH_DAY = 31;
+
+/**
+ * 支払月が未指定の場合に使用する、締め日から支払月までの月数（翌月払い）
+ */
+export const DEFAULT_PAYMENT_MONTH_OFFSET = 1;
+
+/**
+ * 支払日の通知が未指定の場合に使用する、支払日の何日前に通知するか
+ */
+export const DEFAULT_BILLING_REMINDER_DAYS_BEFORE = 3;
+
+/**
+ * 登録済みのカード
+ */
+export interface Card {
+    /** カード名（カード利用情報のcard_nameと一致するもの。登録のキー） */
+    cardName: string;
+    /** 表示名 */
+    displayName: string;
+    /** カード会社の識別子（例: SMBC） */
+    issuer: string;
+    /** 締め日（1〜31。月の日数を超える場合は月末） */
+    closingDay: number;
+    /** 支払日（1〜31。月の日数を超える場合は月末） */
+    paymentDay: number;
+    /** 締め日のある月から支払月までの月数（0: 当月払い、1: 翌月払い、2: 翌々月払い） */
+    paymentMonthOffset: number;
+    /** 支払日の何日前にDiscordに通知するか（0の場合は通知しない） */
+    reminderDaysBefore: number;
+}
+
+/**
+ * カードの登録・更新の入力
+ * displayNameを省略した場合はカード名、paymentMonthOffset・reminderDaysBeforeを省略した場合は既定値を使用する
+ */
+export type CardInput = Omit<Card, 'displayName' | 'paymentMonthOffset' | 'reminderDaysBefore'> & {
+    displayName?: string;
+    paymentMonthOffset?: number;
+    reminderDaysBefore?: number;
+};
+
+/**
+ * カードの設定（config/cards）
+ */
+export interface CardConfig {
+    /** 登録済みのカードの一覧 */
+    cards: Card[];
+}
@@ -1,5 +1,54 @@
 import { Timestamp } from 'firebase-admin/firestore';
 
+/**
+ * カード利用情報の状態
+ * - confirmed: 確定済み（レポートの集計対象）
+ * - pending_review: 抽出結果の信頼度が低く、確認待ち（レポートの集計対象外）
+ */
+export type CardUsageStatus = 'confirmed' | 'pending_review';
+
+/**
+ * カード利用情報の取引種別
+ * - usage: 利用（金額は正の値）
+ * - refund: 取消・返金（金額は負の値。レポートの合計から差し引かれる）
+ */
+export type CardUsageTransactionType = 'usage' | 'refund';
+
+/**
+ * カード利用情報のカテゴリの設定元
+ * - rule: 自動分類のルールで設定（ルールを再適用すると更新される）
+ * - default: どのルールにも一致しない、またはルールを取得できなかったため未分類とした（ルールを再適用すると更新される）
+ * - manual: 手動で設定（ルールを再適用しても変更しない）
+ */
+export type CardUsageCategorySource = 'rule' | 'default' | 'manual';
+
+/**
+ * 抽出結果の検証対象となる項目
+ */
+export type ExtractionField = 'card_name' | 'datetime_of_use' | 'amount' | 'where_to_use';
+
+/**
+ * 抽出結果の検証で見つかった問題
+ */
+export interface ExtractionIssue {
+    field: ExtractionField;
+    message: string;
+}
+
+/**
+ * 抽出結果の検証結果
+ */
+export interface ExtractionValidation {
+    // 全体の信頼度（0〜1。項目ごとの信頼度の最小値）
+    confidence: number;
+
+    // 項目ごとの信頼度（0〜1）
+    fields: Record<ExtractionField, number>;
+
+    // 見つかった問題
+    issues: ExtractionIssue[];
+}
+
 /**
  * カード利用情報を表すエンティティ
  */
@@ -10,12 +59,30 @@ export interface CardUsage {
     // 利用日時
     datetime_of_use: Timestamp;
 
-    // 利用金額
+    // 利用金額（円。取消・返金の場合は負の値）
     amount: number;
 
-    // 利用場所
+    // 外貨建ての場合の現地通貨（ISO 4217の通貨コード。例: USD）
+    original_currency?: string;
+
+    // 外貨建ての場合の現地通貨額
+    original_amount?: number;
+
+    // 外貨建ての場合の換算レート（現地通貨1単位あたりの円）
+    exchange_rate?: number;
+
+    // 利用場所（メールなどに記載された元の表記）
     where_to_use: string;
 
+    // 正規化した利用先（全角・半角や決済代行の接頭辞などの表記の揺れを除き、別名を統一したもの）
+    merchant?: string;
+
+    // 支出カテゴリのID（未設定の場合は未分類として扱う）
+    category?: string;
+
+    // カテゴリの設定元（未設定の場合はルールで設定したものとして扱う）
+    category_source?: CardUsageCategorySource;
+
     // メモ（オプション）
     memo?: string;
 
@@ -24,4 +91,28 @@ export interface CardUsage {
 
     // データ作成日時
     created_at: Timestamp;
+
+    // 状態（未設定の場合は確定済みとして扱う）
+    status?: CardUsageStatus;
+
+    // メールからの抽出結果の検証結果（メールから登録した場合のみ）
+    validation?: ExtractionValidation;
+
+    // 取引種別（未設定の場合は利用として扱う）
+    transaction_type?: CardUsageTransactionType;
+
+    // 取消・返金の対象となった元の利用情報のパス（特定できた場合のみ）
+    original_usage_path?: string;
+
+    // 重複の疑いがある利用情報のパス（保存時に検出した場合、または重複を統合した場合の統合先）
+    duplicate_of?: string;
+
+    // 元のメールのMessage-ID（メールから登録した場合のみ）
+    source_message_id?: string;
+
+    // 元のメール内の明細の位置（0から始まる。メールから登録した場合のみ）
+    source_item_index?: number;
+
+    // 過去のメールの取り込みで登録したかどうか（取り込みの場合は、しきい値・予算のアラートを送信しない）
+    imported?: boolean;
 }
@@ -0,0 +1,62 @@
+/**
+ * 支出カテゴリのエンティティ
+ * Firestoreの設定（config/categories）に、カテゴリの一覧と自動分類のルールを保存する
+ */
+
+/**
+ * どのルールにも一致しない場合のカテゴリのID
+ */
+export const UNCATEGORIZED_CATEGORY_ID = 'uncategorized';
+
+/**
+ * 支出カテゴリ
+ */
+export interface Category {
+    /** カテゴリのID（英小文字・数字・ハイフン・アンダースコア。カード利用情報のcategoryに保存する） */
+    id: string;
+    /** 表示名 */
+    name: string;
+}
+
+/**
+ * 自動分類のルール
+ * 指定した条件をすべて満たす場合にカテゴリを割り当てる（条件は1つ以上必要）
+ */
+export interface CategoryRule {
+    /** 割り当てるカテゴリのID */
+    category: string;
+    /** 正規化した利用先に一致する正規表現（大文字・小文字を区別しない） */
+    merchantPattern?: string;
+    /** カード名（部分一致） */
+    cardName?: string;
+    /** 金額の下限（円。この値を含む。取消・返金は金額の絶対値で比較する） */
+    minAmount?: number;
+    /** 金額の上限（円。この値を含む） */
+    maxAmount?: number;
+}
+
+/**
+ * 支出カテゴリの設定（config/categories）
+ */
+export interface CategoryConfig {
+    /** カテゴリの一覧 */
+    categories: Category[];
+    /** 自動分類のルール（先に一致したものを使用する） */
+    rules: CategoryRule[];
+}
+
+/**
+ * カテゴリの一覧が未設定の場合に使用するカテゴリ
+ */
+export const DEFAULT_CATEGORIES: Category[] = [
+    { id: 'groceries', name: '食料品' },
+    { id: 'dining', name: '外食' },
+    { id: 'daily_goods', name: '日用品' },
+    { id: 'transport', name: '交通' },
+    { id: 'utilities', name: '水道・光熱・通信' },
+    { id: 'subscriptions', name: 'サブスクリプション' },
+    { id: 'shopping', name: '買い物' },
+    { id: 'entertainment', name: '娯楽' },
+    { id: 'medical', name: '医療' },
+    { id: UNCATEGORIZED_CATEGORY_ID, name: '未分類' },
+];
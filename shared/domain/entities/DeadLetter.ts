@@ -0,0 +1,54 @@
+/**
+ * デッドレターの状態
+ * - pending: 未対応（再処理または破棄を待っている）
+ * - resolved: 再処理で保存済み
+ * - discarded: 破棄済み
+ */
+export type DeadLetterStatus = 'pending' | 'resolved' | 'discarded';
+
+/**
+ * デッドレターに記録するエラー情報
+ */
+export interface DeadLetterError {
+    message: string;
+    type: string;
+    details: unknown;
+}
+
+/**
+ * デッドレターエンティティ
+ * 解析・保存に失敗したメールを、後から再処理できるように元のメールごと保持する
+ */
+export interface DeadLetter {
+    id: string;
+    status: DeadLetterStatus;
+    /** 判定されたカード会社（判定前に失敗した場合はnull） */
+    cardCompany: string | null;
+    uid: string;
+    subject: string;
+    from: string;
+    /** メールの受信日時（ISOフォーマット） */
+    receivedAt: string;
+    /** 解析済みのメール本文 */
+    body: string;
+    /** Base64エンコードした元のメール（RFC 822）。取得できなかった場合は空文字 */
+    rawSource: string;
+    /** 最後に発生したエラー */
+    error: DeadLetterError;
+    /** 再処理を試みた回数 */
+    retryCount: number;
+    /** 再処理で保存されたカード利用情報のパス */
+    resolvedPaths: string[];
+    /** 作成日時（ISOフォーマット） */
+    createdAt: string;
+    /** 更新日時（ISOフォーマット） */
+    updatedAt: string;
+}
+
+/**
+ * デッドレターの登録内容
+ */
+export type DeadLetterInput = Pick<
+    DeadLetter,
+    'cardCompany' | 'uid' | 'subject' | 'from' | 'receivedAt' | 'body' | 'rawSource' | 'error'
+>;
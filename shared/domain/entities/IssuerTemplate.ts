@@ -0,0 +1,76 @@
+/**
+ * カード会社のメールテンプレートエンティティ
+ * Firestoreの設定（config/issuer_templates）に保存され、コードの変更なしにメール形式の変更へ対応する
+ */
+
+/**
+ * 抽出項目ごとの正規表現
+ * 各正規表現の1番目のキャプチャグループを値として使用する
+ */
+export interface IssuerTemplateFields {
+    /** カード名（省略時はdefaultCardNameを使用） */
+    cardName?: string;
+    /** 利用日時 */
+    datetime: string;
+    /** 利用金額 */
+    amount: string;
+    /** 利用先 */
+    whereToUse: string;
+}
+
+/**
+ * カード会社のメールテンプレート
+ */
+export interface IssuerTemplate {
+    /** カード会社の識別子（組み込みパーサーと同じ識別子の場合は置き換える） */
+    cardCompany: string;
+    /** 表示名 */
+    displayName: string;
+    /** 監視対象のメールボックス名 */
+    mailboxName: string;
+    /** バージョン番号（保存のたびに採番） */
+    version: number;
+    /** 送信元アドレスに含まれる文字列 */
+    senders: string[];
+    /** 件名に含まれるキーワード */
+    subjectKeywords: string[];
+    /** 本文に含まれるキーワード */
+    bodyKeywords: string[];
+    /** 抽出項目ごとの正規表現 */
+    fields: IssuerTemplateFields;
+    /** 複数件の利用明細を区切る見出しの正規表現（省略時は1通1件として扱う） */
+    usageBlockPattern?: string;
+    /** 利用日時の書式（例: "yyyy/MM/dd HH:mm", "yyyy年M月d日 HH:mm:ss"） */
+    dateFormat: string;
+    /** 利用金額のロケール（桁区切りと小数点の判定に使用、例: "ja-JP"） */
+    amountLocale: string;
+    /** カード名を取得できない場合の既定値 */
+    defaultCardName?: string;
+    /** 有効フラグ（falseの場合は組み込みパーサーを使用） */
+    enabled: boolean;
+    /** 作成日時（ISOフォーマット） */
+    createdAt: string;
+}
+
+/**
+ * 新しいバージョンとして保存するテンプレートの入力
+ */
+export type IssuerTemplateInput = Omit<IssuerTemplate, 'version' | 'createdAt'>;
+
+/**
+ * カード会社ごとのテンプレート履歴
+ */
+export interface IssuerTemplateHistory {
+    /** 現在有効なバージョン */
+    activeVersion: number;
+    /** 保存済みのバージョン（古い順） */
+    versions: IssuerTemplate[];
+}
+
+/**
+ * テンプレート設定（config/issuer_templates）
+ */
+export interface IssuerTemplateConfig {
+    /** カード会社の識別子ごとのテンプレート履歴 */
+    issuers: Record<string, IssuerTemplateHistory>;
+}
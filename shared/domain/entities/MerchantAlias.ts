@@ -0,0 +1,32 @@
+/**
+ * 利用先の別名エンティティ
+ * Firestoreの設定（config/merchant_aliases）に保存され、表記の異なる利用先を同じ利用先にまとめる
+ */
+
+/**
+ * 別名の一致方法
+ * - exact: 正規化した利用先が別名と一致する場合
+ * - prefix: 正規化した利用先が別名で始まる場合
+ */
+export type MerchantAliasMatch = 'exact' | 'prefix';
+
+/**
+ * 利用先の別名
+ * 別名と利用先は、正規化したうえで記号・空白を除いて比較する
+ */
+export interface MerchantAlias {
+    /** 別名（例: "AMAZON.CO.JP", "アマゾン"） */
+    alias: string;
+    /** 統一後の利用先（例: "Amazon"） */
+    canonical: string;
+    /** 一致方法（省略時はexact） */
+    match?: MerchantAliasMatch;
+}
+
+/**
+ * 利用先の別名の設定（config/merchant_aliases）
+ */
+export interface MerchantAliasConfig {
+    /** 別名の一覧（先に一致したものを使用する） */
+    aliases: MerchantAlias[];
+}
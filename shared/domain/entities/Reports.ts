@@ -1,5 +1,34 @@
 import { Timestamp, FieldValue } from 'firebase-admin/firestore';
 
+/**
+ * レポートの小計
+ */
+export interface ReportSubtotal {
+    // 合計金額（取消・返金は負の金額として合計する）
+    amount: number;
+    // 利用件数（取消・返金は含めない）
+    count: number;
+}
+
+/**
+ * キーごとの小計（支出カテゴリのIDまたはカード名をキーとする）
+ */
+export type ReportSubtotals = Record<string, ReportSubtotal>;
+
+/**
+ * 支出カテゴリごとの内訳（表示用）
+ */
+export interface ReportCategoryBreakdown {
+    // 支出カテゴリのID
+    category: string;
+    // 支出カテゴリの表示名（カテゴリが削除されている場合はID）
+    name: string;
+    amount: number;
+    count: number;
+    // 合計金額に占める割合（%、小数第1位まで）
+    share: number;
+}
+
 /**
  * 日次レポートエンティティ
  */
@@ -11,6 +40,8 @@ export interface DailyReport {
     documentIdList: string[];
     date: Timestamp;
     hasNotified: boolean;
+    categoryTotals?: ReportSubtotals; // 支出カテゴリごとの小計（導入前に作成したレポートには含まれない）
+    cardTotals?: ReportSubtotals; // カードごとの小計（導入前に作成したレポートには含まれない）
 }
 
 /**
@@ -28,6 +59,8 @@ export interface WeeklyReport {
     hasNotifiedLevel2: boolean;
     hasNotifiedLevel3: boolean;
     hasReportSent?: boolean; // 定期レポートとして送信済みかどうか
+    categoryTotals?: ReportSubtotals; // 支出カテゴリごとの小計（導入前に作成したレポートには含まれない）
+    cardTotals?: ReportSubtotals; // カードごとの小計（導入前に作成したレポートには含まれない）
 }
 
 /**
@@ -45,4 +78,128 @@ export interface MonthlyReport {
     hasNotifiedLevel2: boolean;
     hasNotifiedLevel3: boolean;
     hasReportSent?: boolean; // 定期レポートとして送信済みかどうか
+    categoryTotals?: ReportSubtotals; // 支出カテゴリごとの小計（導入前に作成したレポートには含まれない）
+    cardTotals?: ReportSubtotals; // カードごとの小計（導入前に作成したレポートには含まれない）
+    budgetNotifiedPercentages?: Record<string, number[]>; // 予算のIDごとの通知済みの割合（%）
+}
+
+/**
+ * 年次レポートエンティティ
+ * 月ごと・支出カテゴリごと・カードごと・利用先ごとの小計を持つ（上位の一覧や前年比は表示時に求める）
+ */
+export interface YearlyReport {
+    totalAmount: number;
+    totalCount: number;
+    lastUpdated: FieldValue;
+    lastUpdatedBy: string;
+    documentIdList: string[];
+    yearStartDate: Timestamp;
+    yearEndDate: Timestamp;
+    monthlyTotals: ReportSubtotals; // 月（01〜12）ごとの小計
+    categoryTotals: ReportSubtotals; // 支出カテゴリごとの小計
+    cardTotals: ReportSubtotals; // カードごとの小計
+    merchantTotals: ReportSubtotals; // 利用先ごとの小計
+    hasReportSent?: boolean; // 定期レポートとして送信済みかどうか
+}
+
+/**
+ * 利用先ごとの内訳（表示用）
+ */
+export interface ReportMerchantBreakdown {
+    // 利用先（正規化した利用先がない場合は元の表記）
+    merchant: string;
+    amount: number;
+    count: number;
+    // 合計金額に占める割合（%、小数第1位まで）
+    share: number;
+}
+
+/**
+ * 前年との比較（表示用）
+ */
+export interface ReportYearOverYear {
+    // 前年の合計金額
+    previousTotalAmount: number;
+    // 前年からの増減額
+    difference: number;
+    // 前年からの増減率（%、小数第1位まで。前年の合計金額が0以下の場合はnull）
+    changeRate: number | null;
+}
+
+/**
+ * 年次レポートの概要（表示用、保存しない）
+ */
+export interface YearlyReportSummary {
+    // 対象の年
+    year: number;
+    totalAmount: number;
+    totalCount: number;
+    // 月ごとの合計（1月〜12月、利用がない月は0）
+    months: { month: number; amount: number; count: number }[];
+    // 支出カテゴリごとの内訳（金額の大きい順の上位）
+    topCategories: ReportCategoryBreakdown[];
+    // 利用先ごとの内訳（金額の大きい順の上位）
+    topMerchants: ReportMerchantBreakdown[];
+    // 前年との比較（前年の年次レポートがない場合はnull）
+    yearOverYear: ReportYearOverYear | null;
+}
+
+/**
+ * 請求サイクルのレポート（表示用、保存しない）
+ * 支払日ごとに、締め日で区切った利用期間のカード利用を集計する
+ */
+export interface BillingCycleReport {
+    // カード名（カード利用情報のcard_name）
+    cardName: string;
+    // カードの表示名
+    displayName: string;
+    // カード会社の識別子
+    issuer: string;
+    // 請求サイクル（支払月、YYYY-MM）
+    cycle: string;
+    // 利用期間の開始日（前回の締め日の翌日、YYYY-MM-DD）
+    periodStart: string;
+    // 利用期間の終了日（締め日、YYYY-MM-DD）
+    periodEnd: string;
+    // 支払日（YYYY-MM-DD）
+    paymentDate: string;
+    // 請求予定の合計金額（取消・返金を差し引いた金額）
+    totalAmount: number;
+    totalCount: number;
+    // 支出カテゴリごとの小計
+    categoryTotals: ReportSubtotals;
+    documentIdList: string[];
+}
+
+/**
+ * 月末の利用額の見込み（表示用、保存しない）
+ * 当月の日ごとの利用額、直近の月の合計、検出済みの定期的な支払いから月末の合計を見積もる
+ */
+export interface MonthEndForecast {
+    // 対象の年
+    year: number;
+    // 対象の月（1〜12）
+    month: number;
+    // 実績とした最後の日（YYYY-MM-DD。対象の月が始まっていない場合は基準日）
+    asOf: string;
+    // 月の日数
+    daysInMonth: number;
+    // 実績とした日数
+    elapsedDays: number;
+    // 当月の利用額（実績、取消・返金を差し引いた金額）
+    monthToDateAmount: number;
+    // 月末の合計の見込み
+    projectedAmount: number;
+    // 見込みの下限
+    lowerBound: number;
+    // 見込みの上限
+    upperBound: number;
+    // 下限〜上限の信頼水準（%）
+    confidenceLevel: number;
+    // 残りの日に予定されている定期的な支払いの合計
+    upcomingSubscriptionAmount: number;
+    // 残りの日に見込む、定期的な支払いを除いた1日あたりの利用額
+    dailyAverage: number;
+    // 見積もりに使用した直近の月の数
+    recentMonthCount: number;
 }
@@ -0,0 +1,70 @@
+/**
+ * 定期的な支払い（サブスクリプション）のエンティティ
+ * 保存済みのカード利用情報の履歴から検出し、Firestore（reports/subscriptions）に一覧を保存する
+ */
+
+/**
+ * 支払いの間隔
+ * weekly: 毎週、monthly: 毎月
+ */
+export type SubscriptionInterval = 'weekly' | 'monthly';
+
+/**
+ * 定期的な支払いの状態
+ * active: 継続中、missed: 次回の支払予定日を過ぎても支払いがない
+ */
+export type SubscriptionStatus = 'active' | 'missed';
+
+/**
+ * 検出した定期的な支払い
+ */
+export interface Subscription {
+    /** 定期的な支払いのID（カード名と利用先から作成する） */
+    id: string;
+    /** 利用先（正規化した利用先、未設定の場合は元の表記） */
+    merchant: string;
+    /** カード名 */
+    cardName: string;
+    /** 支出カテゴリのID（最後の支払いのもの） */
+    category?: string;
+    /** 支払いの間隔 */
+    interval: SubscriptionInterval;
+    /** 最後の支払いの金額（円） */
+    amount: number;
+    /** 支払いの回数（検出に使用した期間内のもの） */
+    chargeCount: number;
+    /** 最後の支払日（YYYY-MM-DD） */
+    lastChargedAt: string;
+    /** 次回の支払予定日（YYYY-MM-DD） */
+    nextChargeDate: string;
+    /** 状態 */
+    status: SubscriptionStatus;
+}
+
+/**
+ * 定期的な支払いの一覧（reports/subscriptions）
+ */
+export interface SubscriptionList {
+    /** 検出した定期的な支払い */
+    subscriptions: Subscription[];
+    /** 検出した日時（ISO 8601） */
+    analyzedAt: string;
+}
+
+/**
+ * 定期的な支払いの変化の種類
+ * new: 新たに検出した、price_changed: 金額が変わった、missed: 支払予定日を過ぎても支払いがない
+ */
+export type SubscriptionChangeType = 'new' | 'price_changed' | 'missed';
+
+/**
+ * 前回の検出結果からの定期的な支払いの変化
+ */
+export interface SubscriptionChange {
+    /** 変化の種類 */
+    type: SubscriptionChangeType;
+    /** 今回の検出結果 */
+    subscription: Subscription;
+    /** 変わる前の金額（price_changedの場合のみ） */
+    previousAmount?: number;
+}
@@ -64,6 +64,22 @@ export class CardUsageFactory {
             memo: data.memo,
             is_active: data.is_active ?? true,
             created_at: data.created_at,
+            // 正規化した利用先・カテゴリ・外貨情報・状態・検証結果・取引種別・重複の疑い・元のメールは
+            // 保存されている場合のみ復元する（Firestoreはundefinedを保存できないため）
+            ...(data.merchant !== undefined && { merchant: data.merchant }),
+            ...(data.category !== undefined && { category: data.category }),
+            ...(data.category_source !== undefined && { category_source: data.category_source }),
+            ...(data.original_currency !== undefined && { original_currency: data.original_currency }),
+            ...(data.original_amount !== undefined && { original_amount: data.original_amount }),
+            ...(data.exchange_rate !== undefined && { exchange_rate: data.exchange_rate }),
+            ...(data.status !== undefined && { status: data.status }),
+            ...(data.validation !== undefined && { validation: data.validation }),
+            ...(data.transaction_type !== undefined && { transaction_type: data.transaction_type }),
+            ...(data.original_usage_path !== undefined && { original_usage_path: data.original_usage_path }),
+            ...(data.duplicate_of !== undefined && { duplicate_of: data.duplicate_of }),
+            ...(data.source_message_id !== undefined && { source_message_id: data.source_message_id }),
+            ...(data.source_item_index !== undefined && { source_item_index: data.source_item_index }),
+            ...(data.imported !== undefined && { imported: data.imported }),
         };
         /* eslint-enable camelcase */
     }
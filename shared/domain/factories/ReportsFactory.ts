@@ -1,4 +1,10 @@
-import { DailyReport, WeeklyReport, MonthlyReport } from '@shared/domain/entities/Reports';
+import {
+    DailyReport,
+    WeeklyReport,
+    MonthlyReport,
+    YearlyReport,
+    ReportSubtotals,
+} from '@shared/domain/entities/Reports';
 import { Timestamp, FieldValue } from 'firebase-admin/firestore';
 
 /**
@@ -13,6 +19,8 @@ export class DailyReportFactory {
      * @param lastUpdatedBy 最終更新者
      * @param documentIdList ドキュメントIDリスト
      * @param hasNotified 通知済みフラグ (デフォルトはfalse)
+     * @param categoryTotals 支出カテゴリごとの小計
+     * @param cardTotals カードごとの小計
      * @returns 新しいDailyReportエンティティ
      */
     static create(
@@ -21,7 +29,9 @@ export class DailyReportFactory {
         totalCount: number,
         lastUpdatedBy: string,
         documentIdList: string[] = [],
-        hasNotified = false
+        hasNotified = false,
+        categoryTotals: ReportSubtotals = {},
+        cardTotals: ReportSubtotals = {}
     ): DailyReport {
         return {
             totalAmount,
@@ -31,6 +41,8 @@ export class DailyReportFactory {
             documentIdList,
             date: date instanceof Timestamp ? date : Timestamp.fromDate(new Date(date)),
             hasNotified,
+            categoryTotals,
+            cardTotals,
         };
     }
 
@@ -55,6 +67,9 @@ export class DailyReportFactory {
             documentIdList: data.documentIdList,
             date: data.date,
             hasNotified: data.hasNotified,
+            // 小計は導入前に作成したレポートには含まれないため、存在する場合のみ復元する
+            ...(data.categoryTotals && { categoryTotals: data.categoryTotals }),
+            ...(data.cardTotals && { cardTotals: data.cardTotals }),
         };
     }
 
@@ -85,6 +100,8 @@ export class WeeklyReportFactory {
      * @param hasNotifiedLevel2 レベル2通知済みフラグ (デフォルトはfalse)
      * @param hasNotifiedLevel3 レベル3通知済みフラグ (デフォルトはfalse)
      * @param hasReportSent レポート送信済みフラグ (デフォルトはfalse)
+     * @param categoryTotals 支出カテゴリごとの小計
+     * @param cardTotals カードごとの小計
      * @returns 新しいWeeklyReportエンティティ
      */
     static create(
@@ -97,7 +114,9 @@ export class WeeklyReportFactory {
         hasNotifiedLevel1 = false,
         hasNotifiedLevel2 = false,
         hasNotifiedLevel3 = false,
-        hasReportSent = false
+        hasReportSent = false,
+        categoryTotals: ReportSubtotals = {},
+        cardTotals: ReportSubtotals = {}
     ): WeeklyReport {
         return {
             totalAmount,
@@ -113,6 +132,8 @@ export class WeeklyReportFactory {
             hasNotifiedLevel2,
             hasNotifiedLevel3,
             hasReportSent,
+            categoryTotals,
+            cardTotals,
         };
     }
 
@@ -144,6 +165,9 @@ export class WeeklyReportFactory {
             hasNotifiedLevel2: data.hasNotifiedLevel2,
             hasNotifiedLevel3: data.hasNotifiedLevel3,
             hasReportSent: data.hasReportSent || false,
+            // 小計は導入前に作成したレポートには含まれないため、存在する場合のみ復元する
+            ...(data.categoryTotals && { categoryTotals: data.categoryTotals }),
+            ...(data.cardTotals && { cardTotals: data.cardTotals }),
         };
     }
 
@@ -190,6 +214,8 @@ export class MonthlyReportFactory {
      * @param hasNotifiedLevel2 レベル2通知済みフラグ (デフォルトはfalse)
      * @param hasNotifiedLevel3 レベル3通知済みフラグ (デフォルトはfalse)
      * @param hasReportSent レポート送信済みフラグ (デフォルトはfalse)
+     * @param categoryTotals 支出カテゴリごとの小計
+     * @param cardTotals カードごとの小計
      * @returns 新しいMonthlyReportエンティティ
      */
     static create(
@@ -202,7 +228,9 @@ export class MonthlyReportFactory {
         hasNotifiedLevel1 = false,
         hasNotifiedLevel2 = false,
         hasNotifiedLevel3 = false,
-        hasReportSent = false
+        hasReportSent = false,
+        categoryTotals: ReportSubtotals = {},
+        cardTotals: ReportSubtotals = {}
     ): MonthlyReport {
         return {
             totalAmount,
@@ -218,6 +246,8 @@ export class MonthlyReportFactory {
             hasNotifiedLevel2,
             hasNotifiedLevel3,
             hasReportSent,
+            categoryTotals,
+            cardTotals,
         };
     }
 
@@ -249,6 +279,10 @@ export class MonthlyReportFactory {
             hasNotifiedLevel2: data.hasNotifiedLevel2,
             hasNotifiedLevel3: data.hasNotifiedLevel3,
             hasReportSent: data.hasReportSent || false,
+            // 小計は導入前に作成したレポートには含まれないため、存在する場合のみ復元する
+            ...(data.categoryTotals && { categoryTotals: data.categoryTotals }),
+            ...(data.cardTotals && { cardTotals: data.cardTotals }),
+            ...(data.budgetNotifiedPercentages && { budgetNotifiedPercentages: data.budgetNotifiedPercentages }),
         };
     }
 
@@ -278,3 +312,98 @@ export class MonthlyReportFactory {
         );
     }
 }
+
+/**
+ * YearlyReportエンティティを生成するファクトリークラス
+ */
+export class YearlyReportFactory {
+    /**
+     * 新しいYearlyReportエンティティを作成する
+     * @param yearStartDate 年開始日 (ISOフォーマット文字列またはTimestamp)
+     * @param yearEndDate 年終了日 (ISOフォーマット文字列またはTimestamp)
+     * @param totalAmount 総金額
+     * @param totalCount 総件数
+     * @param lastUpdatedBy 最終更新者
+     * @param documentIdList ドキュメントIDリスト
+     * @param monthlyTotals 月ごとの小計
+     * @param categoryTotals 支出カテゴリごとの小計
+     * @param cardTotals カードごとの小計
+     * @param merchantTotals 利用先ごとの小計
+     * @param hasReportSent レポート送信済みフラグ (デフォルトはfalse)
+     * @returns 新しいYearlyReportエンティティ
+     */
+    static create(
+        yearStartDate: string | Timestamp,
+        yearEndDate: string | Timestamp,
+        totalAmount: number,
+        totalCount: number,
+        lastUpdatedBy: string,
+        documentIdList: string[] = [],
+        monthlyTotals: ReportSubtotals = {},
+        categoryTotals: ReportSubtotals = {},
+        cardTotals: ReportSubtotals = {},
+        merchantTotals: ReportSubtotals = {},
+        hasReportSent = false
+    ): YearlyReport {
+        return {
+            totalAmount,
+            totalCount,
+            lastUpdated: FieldValue.serverTimestamp(),
+            lastUpdatedBy,
+            documentIdList,
+            yearStartDate: yearStartDate instanceof Timestamp ?
+                yearStartDate :
+                Timestamp.fromDate(new Date(yearStartDate)),
+            yearEndDate: yearEndDate instanceof Timestamp ? yearEndDate : Timestamp.fromDate(new Date(yearEndDate)),
+            monthlyTotals,
+            categoryTotals,
+            cardTotals,
+            merchantTotals,
+            hasReportSent,
+        };
+    }
+
+    /**
+     * 既存のデータからYearlyReportエンティティを復元する
+     * @param data 部分的なYearlyReportデータ
+     * @returns YearlyReportエンティティ
+     */
+    static reconstruct(data: Partial<YearlyReport> & {
+        totalAmount: number,
+        totalCount: number,
+        lastUpdatedBy: string,
+        documentIdList: string[],
+        yearStartDate: Timestamp,
+        yearEndDate: Timestamp
+    }): YearlyReport {
+        return {
+            totalAmount: data.totalAmount,
+            totalCount: data.totalCount,
+            lastUpdated: data.lastUpdated || FieldValue.serverTimestamp(),
+            lastUpdatedBy: data.lastUpdatedBy,
+            documentIdList: data.documentIdList,
+            yearStartDate: data.yearStartDate,
+            yearEndDate: data.yearEndDate,
+            monthlyTotals: data.monthlyTotals ?? {},
+            categoryTotals: data.categoryTotals ?? {},
+            cardTotals: data.cardTotals ?? {},
+            merchantTotals: data.merchantTotals ?? {},
+            hasReportSent: data.hasReportSent || false,
+        };
+    }
+
+    /**
+     * 空のYearlyReportエンティティを作成する（初期化用）
+     * @param yearStartDate 年開始日
+     * @param yearEndDate 年終了日
+     * @param lastUpdatedBy 作成者
+     * @returns 初期化されたYearlyReportエンティティ
+     */
+    static createEmpty(
+        yearStartDate: string | Timestamp,
+        yearEndDate: string | Timestamp,
+        lastUpdatedBy: string
+    ): YearlyReport {
+        return this.create(yearStartDate, yearEndDate, 0, 0, lastUpdatedBy);
+    }
+}
@@ -1,4 +1,9 @@
 import { ReportThresholds } from '@shared/domain/entities/ReportThresholds';
+import { IssuerTemplate, IssuerTemplateConfig, IssuerTemplateInput } from '@shared/domain/entities/IssuerTemplate';
+import { MerchantAlias } from '@shared/domain/entities/MerchantAlias';
+import { Category, CategoryConfig, CategoryRule } from '@shared/domain/entities/Category';
+import { Budget, BudgetInput } from '@shared/domain/entities/Budget';
+import { Card, CardInput } from '@shared/domain/entities/Card';
 
 /**
  * 設定情報リポジトリのインターフェース
@@ -9,4 +14,102 @@ export interface IConfigRepository {
      * @returns レポートしきい値設定
      */
     getReportThresholds(): Promise<ReportThresholds>;
+
+    /**
+     * 有効なカード会社テンプレートを取得する
+     * @returns カード会社ごとの現在有効なバージョンのテンプレート（無効化されたものを除く）
+     */
+    getIssuerTemplates(): Promise<IssuerTemplate[]>;
+
+    /**
+     * カード会社テンプレートの設定をバージョン履歴を含めて取得する
+     */
+    getIssuerTemplateConfig(): Promise<IssuerTemplateConfig>;
+
+    /**
+     * カード会社テンプレートを新しいバージョンとして保存し、有効化する
+     * @param template 保存するテンプレート
+     * @returns 保存されたテンプレート
+     */
+    saveIssuerTemplate(template: IssuerTemplateInput): Promise<IssuerTemplate>;
+
+    /**
+     * カード会社テンプレートを過去のバージョンに戻す
+     * @param cardCompany カード会社の識別子
+     * @param version 戻すバージョン（省略時は現在の1つ前のバージョン）
+     * @returns 有効化されたテンプレート
+     */
+    rollbackIssuerTemplate(cardCompany: string, version?: number): Promise<IssuerTemplate>;
+
+    /**
+     * 利用先の別名を取得する
+     * @returns 別名の一覧（未設定の場合は空配列）
+     */
+    getMerchantAliases(): Promise<MerchantAlias[]>;
+
+    /**
+     * 利用先の別名を保存する（既存の別名はすべて置き換える）
+     * @param aliases 別名の一覧
+     * @returns 保存された別名の一覧
+     */
+    saveMerchantAliases(aliases: MerchantAlias[]): Promise<MerchantAlias[]>;
+
+    /**
+     * 支出カテゴリの一覧と自動分類のルールを取得する
+     * @returns カテゴリの設定（カテゴリの一覧が未設定の場合は既定のカテゴリ。未分類のカテゴリは常に含む）
+     */
+    getCategoryConfig(): Promise<CategoryConfig>;
+
+    /**
+     * 支出カテゴリの一覧を保存する（既存の一覧はすべて置き換える）
+     * @param categories カテゴリの一覧
+     * @returns 保存されたカテゴリの設定
+     */
+    saveCategories(categories: Category[]): Promise<CategoryConfig>;
+
+    /**
+     * 自動分類のルールを保存する（既存のルールはすべて置き換える）
+     * @param rules ルールの一覧（先に一致したものを使用する）
+     * @returns 保存されたカテゴリの設定
+     */
+    saveCategoryRules(rules: CategoryRule[]): Promise<CategoryConfig>;
+
+    /**
+     * 予算の一覧を取得する
+     * @returns 予算の一覧（未設定の場合は空配列）
+     */
+    getBudgets(): Promise<Budget[]>;
+
+    /**
+     * 予算を登録または更新する
+     * @param input 予算の入力
+     * @param id 更新する予算のID（省略時は新規登録）
+     * @returns 保存された予算
+     */
+    saveBudget(input: BudgetInput, id?: string): Promise<Budget>;
+
+    /**
+     * 予算を削除する
+     * @param id 削除する予算のID
+     */
+    deleteBudget(id: string): Promise<void>;
+
+    /**
+     * 登録済みのカードの一覧を取得する
+     * @returns カードの一覧（未設定の場合は空配列）
+     */
+    getCards(): Promise<Card[]>;
+
+    /**
+     * カードを登録する（同じカード名のカードがある場合は置き換える）
+     * @param input カードの入力
+     * @returns 保存されたカード
+     */
+    saveCard(input: CardInput): Promise<Card>;
+
+    /**
+     * カードの登録を削除する
+     * @param cardName 削除するカードのカード名
+     */
+    deleteCard(cardName: string): Promise<void>;
 }
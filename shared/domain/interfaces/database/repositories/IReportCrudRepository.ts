@@ -1,4 +1,4 @@
-import { DailyReport, WeeklyReport, MonthlyReport } from '@shared/domain/entities/Reports';
+import { DailyReport, WeeklyReport, MonthlyReport, YearlyReport } from '@shared/domain/entities/Reports';
 
 /**
  * レポート情報のCRUD操作を提供するリポジトリインターフェース
@@ -52,6 +52,13 @@ export interface IReportCrudRepository {
      */
     getMonthlyWeeklyReports(year: string, month: string): Promise<WeeklyReport[]>;
 
+    /**
+     * 年次レポートを取得する
+     * @param year 年
+     * @returns 年次レポート情報
+     */
+    getYearlyReport(year: string): Promise<YearlyReport | null>;
+
     /**
      * 日次レポートを保存する
      * @param report 日次レポート情報
@@ -81,6 +88,14 @@ export interface IReportCrudRepository {
      */
     saveMonthlyReport(report: MonthlyReport, year: string, month: string): Promise<string>;
 
+    /**
+     * 年次レポートを保存する
+     * @param report 年次レポート情報
+     * @param year 年
+     * @returns 保存されたパス
+     */
+    saveYearlyReport(report: YearlyReport, year: string): Promise<string>;
+
     // Update Operations
     /**
      * 日次レポートを更新する
@@ -110,4 +125,12 @@ export interface IReportCrudRepository {
      * @returns 更新されたパス
      */
     updateMonthlyReport(report: Partial<MonthlyReport>, year: string, month: string): Promise<string>;
+
+    /**
+     * 年次レポートを更新する
+     * @param report 年次レポート情報
+     * @param year 年
+     * @returns 更新されたパス
+     */
+    updateYearlyReport(report: Partial<YearlyReport>, year: string): Promise<string>;
 }
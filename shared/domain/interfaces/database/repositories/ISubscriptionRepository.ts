@@ -0,0 +1,19 @@
+import { SubscriptionList } from '@shared/domain/entities/Subscription';
+
+/**
+ * 検出した定期的な支払いの一覧を保存するリポジトリインターフェース
+ * 接続の初期化は各メソッドの中で行う
+ */
+export interface ISubscriptionRepository {
+    /**
+     * 定期的な支払いの一覧を取得する
+     * @returns 定期的な支払いの一覧（まだ検出していない場合はnull）
+     */
+    getSubscriptions(): Promise<SubscriptionList | null>;
+
+    /**
+     * 定期的な支払いの一覧を保存する（前回の一覧は置き換える）
+     * @param list 定期的な支払いの一覧
+     */
+    saveSubscriptions(list: SubscriptionList): Promise<void>;
+}
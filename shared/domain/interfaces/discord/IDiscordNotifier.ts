@@ -1,8 +1,11 @@
 import { CardUsageNotificationDTO } from '@shared/domain/dto/CardUsageNotificationDTO';
 import {
+  BillingReminderNotificationDTO,
   DailyReportNotificationDTO,
   MonthlyReportNotificationDTO,
+  SubscriptionAlertNotificationDTO,
   WeeklyReportNotificationDTO,
+  YearlyReportNotificationDTO,
 } from '@shared/domain/dto/ReportNotificationDTOs';
 import { AppError } from '@shared/errors/AppError';
 
@@ -38,6 +41,27 @@ export interface IDiscordNotifier {
      */
     notifyMonthlyReport(data: MonthlyReportNotificationDTO): Promise<boolean>;
 
+    /**
+     * 年間レポートを通知する
+     * @param data 年間レポート情報
+     * @returns 通知の成功または失敗を表すブール値
+     */
+    notifyYearlyReport(data: YearlyReportNotificationDTO): Promise<boolean>;
+
+    /**
+     * カードの支払日の前に請求金額を通知する
+     * @param data 支払日の通知情報
+     * @returns 通知の成功または失敗を表すブール値
+     */
+    notifyBillingReminder(data: BillingReminderNotificationDTO): Promise<boolean>;
+
+    /**
+     * 定期的な支払いの変化を通知する
+     * @param data 定期的な支払いの変化の通知情報
+     * @returns 通知の成功または失敗を表すブール値
+     */
+    notifySubscriptionAlert(data: SubscriptionAlertNotificationDTO): Promise<boolean>;
+
     /**
      * エラー情報を通知する
      * @param error AppErrorオブジェクト
@@ -2,6 +2,9 @@ import {
   DailyReportNotificationDTO,
   WeeklyReportNotificationDTO,
   MonthlyReportNotificationDTO,
+  YearlyReportNotificationDTO,
+  BillingReminderNotificationDTO,
+  SubscriptionAlertNotificationDTO,
 } from '@shared/domain/dto/ReportNotificationDTOs';
 
 /**
@@ -25,4 +28,22 @@ export interface INotifyReportUseCase {
      * @param report マンスリーレポート通知DTO
      */
     notifyMonthlyReport(report: MonthlyReportNotificationDTO): Promise<void>;
+
+    /**
+     * 年間レポートをDiscordに通知する
+     * @param report 年間レポート通知DTO
+     */
+    notifyYearlyReport(report: YearlyReportNotificationDTO): Promise<void>;
+
+    /**
+     * カードの支払日の通知をDiscordに送信する
+     * @param reminder 支払日の通知DTO
+     */
+    notifyBillingReminder(reminder: BillingReminderNotificationDTO): Promise<void>;
+
+    /**
+     * 定期的な支払いの変化をDiscordに通知する
+     * @param alert 定期的な支払いの変化の通知DTO
+     */
+    notifySubscriptionAlert(alert: SubscriptionAlertNotificationDTO): Promise<void>;
 }
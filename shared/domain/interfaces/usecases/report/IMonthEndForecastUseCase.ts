@@ -0,0 +1,16 @@
+import { MonthEndForecast } from '@shared/domain/entities/Reports';
+
+/**
+ * 月末の利用額の見込みのユースケースインターフェース
+ * 当月の日次レポート、直近の月次レポート、検出済みの定期的な支払いから月末の合計を見積もる処理を定義
+ */
+export interface IMonthEndForecastUseCase {
+    /**
+     * 月末の利用額の見込みを求める
+     * @param year 年（YYYY）
+     * @param month 月（1〜12、ゼロ埋めの有無は問わない）
+     * @param asOf 基準日（この日までの利用を実績とする）
+     * @returns 月末の利用額の見込み
+     */
+    execute(year: string, month: string, asOf: Date): Promise<MonthEndForecast>;
+}
@@ -18,6 +18,32 @@ export class Environment {
     static readonly IMAP_SERVER = process.env.IMAP_SERVER || 'imap.gmail.com';
     static readonly IMAP_USER = process.env.IMAP_USER || '';
     static readonly IMAP_PASSWORD = process.env.IMAP_PASSWORD || '';
+    // OAuth2（XOAUTH2）で認証する場合の設定。リフレッシュトークンを設定した場合はIMAP_PASSWORDの代わりに使用する
+    static readonly IMAP_OAUTH_CLIENT_ID = process.env.IMAP_OAUTH_CLIENT_ID || '';
+    static readonly IMAP_OAUTH_CLIENT_SECRET = process.env.IMAP_OAUTH_CLIENT_SECRET || '';
+    static readonly IMAP_OAUTH_REFRESH_TOKEN = process.env.IMAP_OAUTH_REFRESH_TOKEN || '';
+    // IDLEによるプッシュ通知を使用するか（falseの場合はポーリングのみ）
+    static readonly IMAP_IDLE_ENABLED = process.env.IMAP_IDLE_ENABLED !== 'false';
+    // ポーリング間隔（ミリ秒）。IDLEモードではフォールバックとして動作する
+    static readonly IMAP_POLLING_INTERVAL = parseInt(process.env.IMAP_POLLING_INTERVAL || '60000', 10);
+
+    // 監視するIMAPアカウントの設定（JSON配列）。未設定の場合はIMAP_SERVER・IMAP_USER・IMAP_PASSWORDの1アカウントを監視する
+    static readonly IMAP_ACCOUNTS = process.env.IMAP_ACCOUNTS || '';
+
+    // メールの受信方法（imap: IMAPで監視、webhook: 受信Webhookのみ、both: 両方）
+    static readonly EMAIL_SOURCE = process.env.EMAIL_SOURCE || 'imap';
+    // 受信Webhookの署名検証に使用する共有シークレット
+    static readonly INBOUND_EMAIL_WEBHOOK_SECRET = process.env.INBOUND_EMAIL_WEBHOOK_SECRET || '';
+
+    // メール解析関連の設定
+    // 抽出結果の信頼度のしきい値（0〜1）。これ未満のカード利用情報は確認待ちとして保存する
+    static readonly EXTRACTION_CONFIDENCE_THRESHOLD = parseFloat(process.env.EXTRACTION_CONFIDENCE_THRESHOLD || '0.6');
+
+    // 重複検出の設定
+    // 重複の疑いがあるカード利用情報の扱い（flag: 重複の疑いを記録して保存、skip: 保存しない）
+    static readonly DUPLICATE_POLICY = process.env.DUPLICATE_POLICY || 'flag';
+    // 重複とみなす利用日時の差（分）
+    static readonly DUPLICATE_TIME_WINDOW_MINUTES = parseInt(process.env.DUPLICATE_TIME_WINDOW_MINUTES || '10', 10);
 
     // Discord関連の設定
     // 利用明細通知用のWebhook URL（メール受信時の通知）
@@ -60,7 +86,10 @@ export class Environment {
      * @returns 検証結果（成功の場合true）
      */
     static validate(): boolean {
-        const requiredVars = ['IMAP_SERVER', 'IMAP_USER', 'IMAP_PASSWORD'];
+        const requiredVars = [
+            ...this.getRequiredImapVars(),
+            ...(this.isWebhookSourceEnabled() ? ['INBOUND_EMAIL_WEBHOOK_SECRET'] : []),
+        ];
         const missingVars = requiredVars.filter((varName) => !process.env[varName]);
 
         if (missingVars.length > 0) {
@@ -92,6 +121,36 @@ export class Environment {
         return true;
     }
 
+    /**
+     * IMAPの接続に必要な環境変数を取得する
+     * IMAPで受信しない場合や、アカウントごとに設定する場合（IMAP_ACCOUNTS）は不要
+     * @returns 必須の環境変数名
+     */
+    private static getRequiredImapVars(): string[] {
+        if (!this.isImapSourceEnabled() || this.IMAP_ACCOUNTS) {
+            return [];
+        }
+        return this.IMAP_OAUTH_REFRESH_TOKEN ?
+            ['IMAP_SERVER', 'IMAP_USER', 'IMAP_OAUTH_CLIENT_ID', 'IMAP_OAUTH_CLIENT_SECRET'] :
+            ['IMAP_SERVER', 'IMAP_USER', 'IMAP_PASSWORD'];
+    }
+
+    /**
+     * IMAPによるメール監視が有効かどうか
+     * @returns EMAIL_SOURCEがwebhook以外の場合true
+     */
+    static isImapSourceEnabled(): boolean {
+        return this.EMAIL_SOURCE !== 'webhook';
+    }
+
+    /**
+     * 受信Webhookによるメールの受信が有効かどうか
+     * @returns EMAIL_SOURCEがwebhookまたはbothの場合true
+     */
+    static isWebhookSourceEnabled(): boolean {
+        return this.EMAIL_SOURCE === 'webhook' || this.EMAIL_SOURCE === 'both';
+    }
+
     /**
      * Discord WebhookのURLを検証する
      * @param webhookUrl 検証するWebhook URL
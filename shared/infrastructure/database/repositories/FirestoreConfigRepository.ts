@@ -1,5 +1,33 @@
+import { randomUUID } from 'crypto';
 import { Firestore } from 'firebase-admin/firestore';
 import { ReportThresholds } from '@shared/domain/entities/ReportThresholds';
+import {
+    IssuerTemplate,
+    IssuerTemplateConfig,
+    IssuerTemplateInput,
+} from '@shared/domain/entities/IssuerTemplate';
+import { MerchantAlias, MerchantAliasConfig } from '@shared/domain/entities/MerchantAlias';
+import {
+    Category,
+    CategoryConfig,
+    CategoryRule,
+    DEFAULT_CATEGORIES,
+    UNCATEGORIZED_CATEGORY_ID,
+} from '@shared/domain/entities/Category';
+import {
+    Budget,
+    BudgetConfig,
+    BudgetInput,
+    DEFAULT_BUDGET_ALERT_PERCENTAGES,
+} from '@shared/domain/entities/Budget';
+import {
+    Card,
+    CardConfig,
+    CardInput,
+    DEFAULT_BILLING_REMINDER_DAYS_BEFORE,
+    DEFAULT_PAYMENT_MONTH_OFFSET,
+    END_OF_MONTH_DAY,
+} from '@shared/domain/entities/Card';
 import { IConfigRepository } from '@shared/domain/interfaces/database/repositories/IConfigRepository';
 import { Environment } from '@shared/infrastructure/config/Environment';
 import { FirestoreService } from '@shared/infrastructure/database/FirestoreService';
@@ -16,6 +44,21 @@ export class FirestoreConfigRepository implements IConfigRepository {
     private thresholdsCache: ReportThresholds | null = null;
     private cacheTimestamp = 0;
     private readonly CACHE_TTL = 5 * 60 * 1000; // 5分間キャッシュ
+    private readonly ISSUER_TEMPLATES_PATH = 'config/issuer_templates';
+    private issuerTemplatesCache: IssuerTemplateConfig | null = null;
+    private issuerTemplatesCacheTimestamp = 0;
+    private readonly MERCHANT_ALIASES_PATH = 'config/merchant_aliases';
+    private merchantAliasesCache: MerchantAlias[] | null = null;
+    private merchantAliasesCacheTimestamp = 0;
+    private readonly CATEGORIES_PATH = 'config/categories';
+    private categoryConfigCache: CategoryConfig | null = null;
+    private categoryConfigCacheTimestamp = 0;
+    private readonly BUDGETS_PATH = 'config/budgets';
+    private budgetsCache: Budget[] | null = null;
+    private budgetsCacheTimestamp = 0;
+    private readonly CARDS_PATH = 'config/cards';
+    private cardsCache: Card[] | null = null;
+    private cardsCacheTimestamp = 0;
 
     constructor() {
         this.firestoreService = FirestoreService.getInstance();
@@ -115,6 +158,822 @@ export class FirestoreConfigRepository implements IConfigRepository {
         validateLevels(thresholds.monthly, 'monthly');
     }
 
+    /**
+     * 有効なカード会社テンプレートを取得する
+     * カード会社ごとに現在有効なバージョンを返し、無効化されたテンプレートは除外する
+     */
+    @ErrorHandler.errorDecorator('FirestoreConfigRepository', {
+        defaultMessage: 'カード会社テンプレートの取得に失敗しました',
+    })
+    async getIssuerTemplates(): Promise<IssuerTemplate[]> {
+        const config = await this.getIssuerTemplateConfig();
+
+        const templates: IssuerTemplate[] = [];
+        for (const [cardCompany, history] of Object.entries(config.issuers)) {
+            const active = history.versions.find((template) => template.version === history.activeVersion);
+            if (!active) {
+                logger.warn(
+                    `${cardCompany}の有効なバージョン(${history.activeVersion})が見つかりません`,
+                    this.serviceContext
+                );
+                continue;
+            }
+            if (active.enabled) {
+                templates.push(active);
+            }
+        }
+
+        return templates;
+    }
+
+    /**
+     * カード会社テンプレートの設定をバージョン履歴を含めて取得する
+     * キャッシュが有効な場合はキャッシュから返す
+     */
+    @ErrorHandler.errorDecorator('FirestoreConfigRepository', {
+        defaultMessage: 'カード会社テンプレート設定の取得に失敗しました',
+    })
+    async getIssuerTemplateConfig(): Promise<IssuerTemplateConfig> {
+        const now = Date.now();
+        if (this.issuerTemplatesCache && (now - this.issuerTemplatesCacheTimestamp) < this.CACHE_TTL) {
+            logger.info('キャッシュからカード会社テンプレートを取得しました', this.serviceContext);
+            return this.issuerTemplatesCache;
+        }
+
+        await this.initialize();
+
+        const configDoc = await this.firestoreService.getDocument<IssuerTemplateConfig>(this.ISSUER_TEMPLATES_PATH);
+        // テンプレートは任意設定のため、未設定の場合は空として扱う
+        const config: IssuerTemplateConfig = { issuers: configDoc?.issuers ?? {} };
+
+        this.issuerTemplatesCache = config;
+        this.issuerTemplatesCacheTimestamp = now;
+
+        logger.info('Firestoreからカード会社テンプレートを取得しました', this.serviceContext);
+        return config;
+    }
+
+    /**
+     * カード会社テンプレートを新しいバージョンとして保存し、有効化する
+     * @param template 保存するテンプレート
+     */
+    @ErrorHandler.errorDecorator('FirestoreConfigRepository', {
+        defaultMessage: 'カード会社テンプレートの保存に失敗しました',
+    })
+    async saveIssuerTemplate(template: IssuerTemplateInput): Promise<IssuerTemplate> {
+        this.validateIssuerTemplate(template);
+
+        this.clearIssuerTemplatesCache();
+        const config = await this.getIssuerTemplateConfig();
+        const history = config.issuers[template.cardCompany] ?? { activeVersion: 0, versions: [] };
+
+        const latestVersion = history.versions.reduce((max, saved) => Math.max(max, saved.version), 0);
+        const saved: IssuerTemplate = {
+            ...template,
+            version: latestVersion + 1,
+            createdAt: new Date().toISOString(),
+        };
+
+        const updated: IssuerTemplateConfig = {
+            issuers: {
+                ...config.issuers,
+                [template.cardCompany]: {
+                    activeVersion: saved.version,
+                    versions: [...history.versions, saved],
+                },
+            },
+        };
+
+        await this.firestoreService.saveDocument(this.ISSUER_TEMPLATES_PATH, updated);
+        this.clearIssuerTemplatesCache();
+
+        logger.info(
+            `${template.cardCompany}のテンプレートをバージョン${saved.version}として保存しました`,
+            this.serviceContext
+        );
+        return saved;
+    }
+
+    /**
+     * カード会社テンプレートを過去のバージョンに戻す
+     * @param cardCompany カード会社の識別子
+     * @param version 戻すバージョン（省略時は現在の1つ前のバージョン）
+     */
+    @ErrorHandler.errorDecorator('FirestoreConfigRepository', {
+        defaultMessage: 'カード会社テンプレートのロールバックに失敗しました',
+    })
+    async rollbackIssuerTemplate(cardCompany: string, version?: number): Promise<IssuerTemplate> {
+        this.clearIssuerTemplatesCache();
+        const config = await this.getIssuerTemplateConfig();
+        const history = config.issuers[cardCompany];
+
+        if (!history) {
+            throw new AppError(
+                `カード会社テンプレートが見つかりません: ${cardCompany}`,
+                ErrorType.NOT_FOUND,
+                { cardCompany }
+            );
+        }
+
+        // バージョン指定がない場合は、現在より古いバージョンのうち最新のものに戻す
+        const target = version !== undefined ?
+            history.versions.find((template) => template.version === version) :
+            history.versions
+                .filter((template) => template.version < history.activeVersion)
+                .sort((a, b) => b.version - a.version)[0];
+
+        if (!target) {
+            throw new AppError(
+                `ロールバック先のバージョンが見つかりません: ${cardCompany} (version: ${version ?? '直前'})`,
+                ErrorType.NOT_FOUND,
+                { cardCompany, version, activeVersion: history.activeVersion }
+            );
+        }
+
+        const updated: IssuerTemplateConfig = {
+            issuers: {
+                ...config.issuers,
+                [cardCompany]: { ...history, activeVersion: target.version },
+            },
+        };
+        await this.firestoreService.saveDocument(this.ISSUER_TEMPLATES_PATH, updated);
+        this.clearIssuerTemplatesCache();
+
+        logger.info(
+            `${cardCompany}のテンプレートをバージョン${history.activeVersion}から${target.version}に戻しました`,
+            this.serviceContext
+        );
+        return target;
+    }
+
+    /**
+     * カード会社テンプレートのバリデーション
+     */
+    private validateIssuerTemplate(template: IssuerTemplateInput): void {
+        if (!template.cardCompany || !template.mailboxName || !template.dateFormat || !template.amountLocale) {
+            throw new AppError(
+                'テンプレートにはcardCompany、mailboxName、dateFormat、amountLocaleが必要です',
+                ErrorType.VALIDATION,
+                { template }
+            );
+        }
+
+        if (!template.fields || !template.fields.datetime || !template.fields.amount || !template.fields.whereToUse) {
+            throw new AppError(
+                'テンプレートのfieldsにはdatetime、amount、whereToUseの正規表現が必要です',
+                ErrorType.VALIDATION,
+                { fields: template.fields }
+            );
+        }
+
+        if (!/yyyy/.test(template.dateFormat) || !/M/.test(template.dateFormat) || !/d/.test(template.dateFormat)) {
+            throw new AppError(
+                'dateFormatには年(yyyy)、月(M)、日(d)が必要です',
+                ErrorType.VALIDATION,
+                { dateFormat: template.dateFormat }
+            );
+        }
+
+        const patterns: Record<string, string | undefined> = {
+            ...template.fields,
+            usageBlockPattern: template.usageBlockPattern,
+        };
+        for (const [name, pattern] of Object.entries(patterns)) {
+            if (pattern === undefined) {
+                continue;
+            }
+            try {
+                new RegExp(pattern);
+            } catch (error) {
+                throw new AppError(
+                    `正規表現が不正です: ${name}`,
+                    ErrorType.VALIDATION,
+                    { name, pattern },
+                    error instanceof Error ? error : undefined
+                );
+            }
+        }
+    }
+
+    /**
+     * カード会社テンプレートのキャッシュをクリアする
+     */
+    private clearIssuerTemplatesCache(): void {
+        this.issuerTemplatesCache = null;
+        this.issuerTemplatesCacheTimestamp = 0;
+    }
+
+    /**
+     * 利用先の別名を取得する
+     * キャッシュが有効な場合はキャッシュから返す
+     */
+    @ErrorHandler.errorDecorator('FirestoreConfigRepository', {
+        defaultMessage: '利用先の別名の取得に失敗しました',
+    })
+    async getMerchantAliases(): Promise<MerchantAlias[]> {
+        const now = Date.now();
+        if (this.merchantAliasesCache && (now - this.merchantAliasesCacheTimestamp) < this.CACHE_TTL) {
+            return this.merchantAliasesCache;
+        }
+
+        await this.initialize();
+
+        const configDoc = await this.firestoreService.getDocument<MerchantAliasConfig>(this.MERCHANT_ALIASES_PATH);
+        // 別名は任意設定のため、未設定の場合は空として扱う
+        const aliases = configDoc?.aliases ?? [];
+
+        this.merchantAliasesCache = aliases;
+        this.merchantAliasesCacheTimestamp = now;
+
+        logger.info(`Firestoreから利用先の別名を取得しました: ${aliases.length}件`, this.serviceContext);
+        return aliases;
+    }
+
+    /**
+     * 利用先の別名を保存する（既存の別名はすべて置き換える）
+     * @param aliases 別名の一覧
+     */
+    @ErrorHandler.errorDecorator('FirestoreConfigRepository', {
+        defaultMessage: '利用先の別名の保存に失敗しました',
+    })
+    async saveMerchantAliases(aliases: MerchantAlias[]): Promise<MerchantAlias[]> {
+        this.validateMerchantAliases(aliases);
+
+        await this.initialize();
+
+        // Firestoreはundefinedを保存できないため、一致方法は指定された場合のみ保存する
+        const saved = aliases.map(({ alias, canonical, match }) => ({
+            alias: alias.trim(),
+            canonical: canonical.trim(),
+            ...(match !== undefined && { match }),
+        }));
+        const config: MerchantAliasConfig = { aliases: saved };
+        await this.firestoreService.saveDocument(this.MERCHANT_ALIASES_PATH, config);
+
+        this.merchantAliasesCache = null;
+        this.merchantAliasesCacheTimestamp = 0;
+
+        logger.info(`利用先の別名を保存しました: ${saved.length}件`, this.serviceContext);
+        return saved;
+    }
+
+    /**
+     * 利用先の別名のバリデーション
+     */
+    private validateMerchantAliases(aliases: MerchantAlias[]): void {
+        if (!Array.isArray(aliases)) {
+            throw new AppError('別名は配列で指定してください', ErrorType.VALIDATION, { aliases });
+        }
+
+        aliases.forEach((entry, index) => {
+            if (typeof entry?.alias !== 'string' || !entry.alias.trim() ||
+                typeof entry?.canonical !== 'string' || !entry.canonical.trim()) {
+                throw new AppError(
+                    '別名にはaliasとcanonicalが必要です',
+                    ErrorType.VALIDATION,
+                    { index, entry }
+                );
+            }
+
+            if (entry.match !== undefined && entry.match !== 'exact' && entry.match !== 'prefix') {
+                throw new AppError(
+                    'matchにはexactまたはprefixを指定してください',
+                    ErrorType.VALIDATION,
+                    { index, match: entry.match }
+                );
+            }
+        });
+    }
+
+    /**
+     * 支出カテゴリの一覧と自動分類のルールを取得する
+     * キャッシュが有効な場合はキャッシュから返す。カテゴリの一覧が未設定の場合は既定のカテゴリを返す
+     */
+    @ErrorHandler.errorDecorator('FirestoreConfigRepository', {
+        defaultMessage: '支出カテゴリの設定の取得に失敗しました',
+    })
+    async getCategoryConfig(): Promise<CategoryConfig> {
+        const now = Date.now();
+        if (this.categoryConfigCache && (now - this.categoryConfigCacheTimestamp) < this.CACHE_TTL) {
+            return this.categoryConfigCache;
+        }
+
+        await this.initialize();
+
+        const configDoc = await this.firestoreService.getDocument<Partial<CategoryConfig>>(this.CATEGORIES_PATH);
+        const config: CategoryConfig = {
+            categories: this.withUncategorized(configDoc?.categories ?? DEFAULT_CATEGORIES),
+            rules: configDoc?.rules ?? [],
+        };
+
+        this.categoryConfigCache = config;
+        this.categoryConfigCacheTimestamp = now;
+
+        logger.info(
+            `Firestoreから支出カテゴリの設定を取得しました: カテゴリ${config.categories.length}件、` +
+            `ルール${config.rules.length}件`,
+            this.serviceContext
+        );
+        return config;
+    }
+
+    /**
+     * 支出カテゴリの一覧を保存する（既存の一覧はすべて置き換える）
+     * 未分類のカテゴリは指定されていなくても一覧に含める
+     * @param categories カテゴリの一覧
+     */
+    @ErrorHandler.errorDecorator('FirestoreConfigRepository', {
+        defaultMessage: '支出カテゴリの保存に失敗しました',
+    })
+    async saveCategories(categories: Category[]): Promise<CategoryConfig> {
+        this.validateCategories(categories);
+
+        this.clearCategoryConfigCache();
+        const current = await this.getCategoryConfig();
+        const saved = this.withUncategorized(
+            categories.map(({ id, name }) => ({ id: id.trim(), name: name.trim() }))
+        );
+
+        // ルールで使用しているカテゴリは削除できない
+        const ids = new Set(saved.map((category) => category.id));
+        const inUse = current.rules.find((rule) => !ids.has(rule.category));
+        if (inUse) {
+            throw new AppError(
+                `ルールで使用しているカテゴリは削除できません: ${inUse.category}`,
+                ErrorType.VALIDATION,
+                { category: inUse.category }
+            );
+        }
+
+        // 予算の対象のカテゴリも削除できない
+        const budgetInUse = (await this.getBudgets())
+            .find((budget) => budget.target === 'category' && !ids.has(budget.key));
+        if (budgetInUse) {
+            throw new AppError(
+                `予算の対象のカテゴリは削除できません: ${budgetInUse.key}`,
+                ErrorType.VALIDATION,
+                { category: budgetInUse.key, budgetId: budgetInUse.id }
+            );
+        }
+
+        return this.saveCategoryConfig({ categories: saved, rules: current.rules });
+    }
+
+    /**
+     * 自動分類のルールを保存する（既存のルールはすべて置き換える）
+     * @param rules ルールの一覧（先に一致したものを使用する）
+     */
+    @ErrorHandler.errorDecorator('FirestoreConfigRepository', {
+        defaultMessage: '自動分類のルールの保存に失敗しました',
+    })
+    async saveCategoryRules(rules: CategoryRule[]): Promise<CategoryConfig> {
+        this.clearCategoryConfigCache();
+        const current = await this.getCategoryConfig();
+        this.validateCategoryRules(rules, current.categories);
+
+        // Firestoreはundefinedを保存できないため、条件は指定された場合のみ保存する
+        const saved = rules.map(({ category, merchantPattern, cardName, minAmount, maxAmount }) => ({
+            category: category.trim(),
+            ...(merchantPattern !== undefined && { merchantPattern }),
+            ...(cardName !== undefined && { cardName: cardName.trim() }),
+            ...(minAmount !== undefined && { minAmount }),
+            ...(maxAmount !== undefined && { maxAmount }),
+        }));
+
+        return this.saveCategoryConfig({ categories: current.categories, rules: saved });
+    }
+
+    /**
+     * 支出カテゴリの設定を保存し、キャッシュをクリアする
+     */
+    private async saveCategoryConfig(config: CategoryConfig): Promise<CategoryConfig> {
+        await this.initialize();
+        await this.firestoreService.saveDocument(this.CATEGORIES_PATH, config);
+        this.clearCategoryConfigCache();
+
+        logger.info(
+            `支出カテゴリの設定を保存しました: カテゴリ${config.categories.length}件、ルール${config.rules.length}件`,
+            this.serviceContext
+        );
+        return config;
+    }
+
+    /**
+     * 支出カテゴリの設定のキャッシュをクリアする
+     */
+    private clearCategoryConfigCache(): void {
+        this.categoryConfigCache = null;
+        this.categoryConfigCacheTimestamp = 0;
+    }
+
+    /**
+     * 未分類のカテゴリが含まれていない場合は末尾に追加する
+     */
+    private withUncategorized(categories: Category[]): Category[] {
+        if (categories.some((category) => category.id === UNCATEGORIZED_CATEGORY_ID)) {
+            return categories;
+        }
+        return [...categories, { id: UNCATEGORIZED_CATEGORY_ID, name: '未分類' }];
+    }
+
+    /**
+     * 支出カテゴリの一覧のバリデーション
+     */
+    private validateCategories(categories: Category[]): void {
+        if (!Array.isArray(categories)) {
+            throw new AppError('カテゴリは配列で指定してください', ErrorType.VALIDATION, { categories });
+        }
+
+        const ids = new Set<string>();
+        categories.forEach((entry, index) => {
+            if (typeof entry?.id !== 'string' || !/^[a-z0-9_-]+$/.test(entry.id.trim()) ||
+                typeof entry?.name !== 'string' || !entry.name.trim()) {
+                throw new AppError(
+                    'カテゴリにはid（英小文字・数字・ハイフン・アンダースコア）とnameが必要です',
+                    ErrorType.VALIDATION,
+                    { index, entry }
+                );
+            }
+
+            if (ids.has(entry.id.trim())) {
+                throw new AppError(`カテゴリのidが重複しています: ${entry.id}`, ErrorType.VALIDATION, { index, entry });
+            }
+            ids.add(entry.id.trim());
+        });
+    }
+
+    /**
+     * 自動分類のルールのバリデーション
+     */
+    private validateCategoryRules(rules: CategoryRule[], categories: Category[]): void {
+        if (!Array.isArray(rules)) {
+            throw new AppError('ルールは配列で指定してください', ErrorType.VALIDATION, { rules });
+        }
+
+        const ids = new Set(categories.map((category) => category.id));
+        rules.forEach((rule, index) => {
+            if (typeof rule?.category !== 'string' || !ids.has(rule.category.trim())) {
+                throw new AppError('ルールのcategoryには登録済みのカテゴリを指定してください', ErrorType.VALIDATION, {
+                    index,
+                    category: rule?.category,
+                });
+            }
+
+            const { merchantPattern, cardName, minAmount, maxAmount } = rule;
+            if (merchantPattern === undefined && cardName === undefined &&
+                minAmount === undefined && maxAmount === undefined) {
+                throw new AppError(
+                    'ルールにはmerchantPattern・cardName・minAmount・maxAmountのいずれかが必要です',
+                    ErrorType.VALIDATION,
+                    { index, rule }
+                );
+            }
+
+            if (merchantPattern !== undefined) {
+                if (typeof merchantPattern !== 'string' || !merchantPattern) {
+                    throw new AppError('merchantPatternは空でない文字列で指定してください', ErrorType.VALIDATION, {
+                        index,
+                        merchantPattern,
+                    });
+                }
+                try {
+                    new RegExp(merchantPattern, 'i');
+                } catch (error) {
+                    throw new AppError(
+                        'merchantPatternが正規表現として不正です',
+                        ErrorType.VALIDATION,
+                        { index, merchantPattern },
+                        error instanceof Error ? error : undefined
+                    );
+                }
+            }
+
+            if (cardName !== undefined && (typeof cardName !== 'string' || !cardName.trim())) {
+                throw new AppError('cardNameは空でない文字列で指定してください', ErrorType.VALIDATION, { index, cardName });
+            }
+
+            for (const [key, value] of [['minAmount', minAmount], ['maxAmount', maxAmount]] as const) {
+                if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+                    throw new AppError(`${key}は0以上の数値で指定してください`, ErrorType.VALIDATION, { index, [key]: value });
+                }
+            }
+
+            if (minAmount !== undefined && maxAmount !== undefined && minAmount > maxAmount) {
+                throw new AppError('minAmountはmaxAmount以下で指定してください', ErrorType.VALIDATION, {
+                    index,
+                    minAmount,
+                    maxAmount,
+                });
+            }
+        });
+    }
+
+    /**
+     * 予算の一覧を取得する
+     * キャッシュが有効な場合はキャッシュから返す
+     */
+    @ErrorHandler.errorDecorator('FirestoreConfigRepository', {
+        defaultMessage: '予算の取得に失敗しました',
+    })
+    async getBudgets(): Promise<Budget[]> {
+        const now = Date.now();
+        if (this.budgetsCache && (now - this.budgetsCacheTimestamp) < this.CACHE_TTL) {
+            return this.budgetsCache;
+        }
+
+        await this.initialize();
+
+        const configDoc = await this.firestoreService.getDocument<BudgetConfig>(this.BUDGETS_PATH);
+        // 予算は任意設定のため、未設定の場合は空として扱う
+        const budgets = configDoc?.budgets ?? [];
+
+        this.budgetsCache = budgets;
+        this.budgetsCacheTimestamp = now;
+
+        logger.info(`Firestoreから予算を取得しました: ${budgets.length}件`, this.serviceContext);
+        return budgets;
+    }
+
+    /**
+     * 予算を登録または更新する
+     * 支出カテゴリ・カードごとに予算は1つまで
+     * @param input 予算の入力
+     * @param id 更新する予算のID（省略時は新規登録）
+     */
+    @ErrorHandler.errorDecorator('FirestoreConfigRepository', {
+        defaultMessage: '予算の保存に失敗しました',
+    })
+    async saveBudget(input: BudgetInput, id?: string): Promise<Budget> {
+        this.clearBudgetsCache();
+        const budgets = await this.getBudgets();
+
+        if (id !== undefined && !budgets.some((budget) => budget.id === id)) {
+            throw new AppError(`予算が見つかりません: ${id}`, ErrorType.NOT_FOUND, { id });
+        }
+
+        const { categories } = await this.getCategoryConfig();
+        this.validateBudget(input, categories);
+
+        const key = input.key.trim();
+        const duplicate = budgets.find((budget) =>
+            budget.id !== id && budget.target === input.target && budget.key === key
+        );
+        if (duplicate) {
+            throw new AppError(`同じ対象の予算がすでに登録されています: ${key}`, ErrorType.VALIDATION, {
+                target: input.target,
+                key,
+                budgetId: duplicate.id,
+            });
+        }
+
+        // 表示名の省略時は、支出カテゴリの表示名またはカード名を使用する
+        const categoryName = input.target === 'category' ?
+            categories.find((category) => category.id === key)?.name :
+            undefined;
+        const saved: Budget = {
+            id: id ?? randomUUID(),
+            name: input.name?.trim() || categoryName || key,
+            target: input.target,
+            key,
+            limit: input.limit,
+            alertPercentages: [...new Set(input.alertPercentages ?? DEFAULT_BUDGET_ALERT_PERCENTAGES)]
+                .sort((a, b) => a - b),
+        };
+
+        await this.saveBudgetConfig(
+            id === undefined ?
+                [...budgets, saved] :
+                budgets.map((budget) => budget.id === id ? saved : budget)
+        );
+        return saved;
+    }
+
+    /**
+     * 予算を削除する
+     * @param id 削除する予算のID
+     */
+    @ErrorHandler.errorDecorator('FirestoreConfigRepository', {
+        defaultMessage: '予算の削除に失敗しました',
+    })
+    async deleteBudget(id: string): Promise<void> {
+        this.clearBudgetsCache();
+        const budgets = await this.getBudgets();
+
+        if (!budgets.some((budget) => budget.id === id)) {
+            throw new AppError(`予算が見つかりません: ${id}`, ErrorType.NOT_FOUND, { id });
+        }
+
+        await this.saveBudgetConfig(budgets.filter((budget) => budget.id !== id));
+    }
+
+    /**
+     * 予算の一覧を保存し、キャッシュをクリアする
+     */
+    private async saveBudgetConfig(budgets: Budget[]): Promise<void> {
+        await this.initialize();
+        const config: BudgetConfig = { budgets };
+        await this.firestoreService.saveDocument(this.BUDGETS_PATH, config);
+        this.clearBudgetsCache();
+
+        logger.info(`予算を保存しました: ${budgets.length}件`, this.serviceContext);
+    }
+
+    /**
+     * 予算のキャッシュをクリアする
+     */
+    private clearBudgetsCache(): void {
+        this.budgetsCache = null;
+        this.budgetsCacheTimestamp = 0;
+    }
+
+    /**
+     * 予算の入力のバリデーション
+     */
+    private validateBudget(input: BudgetInput, categories: Category[]): void {
+        if (input?.target !== 'category' && input?.target !== 'card') {
+            throw new AppError('targetはcategoryまたはcardで指定してください', ErrorType.VALIDATION, {
+                target: input?.target,
+            });
+        }
+
+        if (typeof input.key !== 'string' || !input.key.trim()) {
+            throw new AppError('keyは空でない文字列で指定してください', ErrorType.VALIDATION, { key: input.key });
+        }
+
+        if (input.target === 'category' && !categories.some((category) => category.id === input.key.trim())) {
+            throw new AppError('支出カテゴリの予算のkeyには登録済みのカテゴリを指定してください', ErrorType.VALIDATION, {
+                key: input.key,
+            });
+        }
+
+        if (input.name !== undefined && (typeof input.name !== 'string' || !input.name.trim())) {
+            throw new AppError('nameは空でない文字列で指定してください', ErrorType.VALIDATION, { name: input.name });
+        }
+
+        if (typeof input.limit !== 'number' || !Number.isFinite(input.limit) || input.limit <= 0) {
+            throw new AppError('limitは0より大きい数値で指定してください', ErrorType.VALIDATION, { limit: input.limit });
+        }
+
+        const { alertPercentages } = input;
+        if (alertPercentages !== undefined && (
+            !Array.isArray(alertPercentages) || alertPercentages.length === 0 ||
+            alertPercentages.some((percentage) =>
+                typeof percentage !== 'number' || !Number.isFinite(percentage) || percentage <= 0)
+        )) {
+            throw new AppError(
+                'alertPercentagesは0より大きい数値の配列（1件以上）で指定してください',
+                ErrorType.VALIDATION,
+                { alertPercentages }
+            );
+        }
+    }
+
+    /**
+     * 登録済みのカードの一覧を取得する
+     * キャッシュが有効な場合はキャッシュから返す
+     */
+    @ErrorHandler.errorDecorator('FirestoreConfigRepository', {
+        defaultMessage: 'カードの取得に失敗しました',
+    })
+    async getCards(): Promise<Card[]> {
+        const now = Date.now();
+        if (this.cardsCache && (now - this.cardsCacheTimestamp) < this.CACHE_TTL) {
+            return this.cardsCache;
+        }
+
+        await this.initialize();
+
+        const configDoc = await this.firestoreService.getDocument<CardConfig>(this.CARDS_PATH);
+        // カードの登録は任意のため、未設定の場合は空として扱う
+        const cards = configDoc?.cards ?? [];
+
+        this.cardsCache = cards;
+        this.cardsCacheTimestamp = now;
+
+        logger.info(`Firestoreからカードを取得しました: ${cards.length}件`, this.serviceContext);
+        return cards;
+    }
+
+    /**
+     * カードを登録する（同じカード名のカードがある場合は置き換える）
+     * @param input カードの入力
+     */
+    @ErrorHandler.errorDecorator('FirestoreConfigRepository', {
+        defaultMessage: 'カードの保存に失敗しました',
+    })
+    async saveCard(input: CardInput): Promise<Card> {
+        this.validateCard(input);
+
+        this.clearCardsCache();
+        const cards = await this.getCards();
+
+        const cardName = input.cardName.trim();
+        const saved: Card = {
+            cardName,
+            displayName: input.displayName?.trim() || cardName,
+            issuer: input.issuer.trim(),
+            closingDay: input.closingDay,
+            paymentDay: input.paymentDay,
+            paymentMonthOffset: input.paymentMonthOffset ?? DEFAULT_PAYMENT_MONTH_OFFSET,
+            reminderDaysBefore: input.reminderDaysBefore ?? DEFAULT_BILLING_REMINDER_DAYS_BEFORE,
+        };
+
+        await this.saveCardConfig(
+            cards.some((card) => card.cardName === cardName) ?
+                cards.map((card) => card.cardName === cardName ? saved : card) :
+                [...cards, saved]
+        );
+        return saved;
+    }
+
+    /**
+     * カードの登録を削除する
+     * @param cardName 削除するカードのカード名
+     */
+    @ErrorHandler.errorDecorator('FirestoreConfigRepository', {
+        defaultMessage: 'カードの削除に失敗しました',
+    })
+    async deleteCard(cardName: string): Promise<void> {
+        this.clearCardsCache();
+        const cards = await this.getCards();
+
+        if (!cards.some((card) => card.cardName === cardName)) {
+            throw new AppError(`カードが登録されていません: ${cardName}`, ErrorType.NOT_FOUND, { cardName });
+        }
+
+        await this.saveCardConfig(cards.filter((card) => card.cardName !== cardName));
+    }
+
+    /**
+     * 登録済みのカードの一覧を保存し、キャッシュをクリアする
+     */
+    private async saveCardConfig(cards: Card[]): Promise<void> {
+        await this.initialize();
+        const config: CardConfig = { cards };
+        await this.firestoreService.saveDocument(this.CARDS_PATH, config);
+        this.clearCardsCache();
+
+        logger.info(`カードを保存しました: ${cards.length}件`, this.serviceContext);
+    }
+
+    /**
+     * 登録済みのカードのキャッシュをクリアする
+     */
+    private clearCardsCache(): void {
+        this.cardsCache = null;
+        this.cardsCacheTimestamp = 0;
+    }
+
+    /**
+     * カードの入力のバリデーション
+     */
+    private validateCard(input: CardInput): void {
+        for (const key of ['cardName', 'issuer'] as const) {
+            if (typeof input?.[key] !== 'string' || !input[key].trim()) {
+                throw new AppError(`${key}は空でない文字列で指定してください`, ErrorType.VALIDATION, {
+                    [key]: input?.[key],
+                });
+            }
+        }
+
+        if (input.displayName !== undefined && (typeof input.displayName !== 'string' || !input.displayName.trim())) {
+            throw new AppError('displayNameは空でない文字列で指定してください', ErrorType.VALIDATION, {
+                displayName: input.displayName,
+            });
+        }
+
+        for (const key of ['closingDay', 'paymentDay'] as const) {
+            if (!Number.isInteger(input[key]) || input[key] < 1 || input[key] > END_OF_MONTH_DAY) {
+                throw new AppError(`${key}は1〜${END_OF_MONTH_DAY}の整数で指定してください`, ErrorType.VALIDATION, {
+                    [key]: input[key],
+                });
+            }
+        }
+
+        const { paymentMonthOffset, reminderDaysBefore } = input;
+        if (paymentMonthOffset !== undefined &&
+            (!Number.isInteger(paymentMonthOffset) || paymentMonthOffset < 0 || paymentMonthOffset > 3)) {
+            throw new AppError('paymentMonthOffsetは0〜3の整数で指定してください', ErrorType.VALIDATION, {
+                paymentMonthOffset,
+            });
+        }
+
+        // 締め日と同じ月に支払う場合は、支払日は締め日より後である必要がある
+        if (paymentMonthOffset === 0 && input.paymentDay <= input.closingDay) {
+            throw new AppError('締め日と同じ月に支払う場合はpaymentDayをclosingDayより後にしてください', ErrorType.VALIDATION, {
+                closingDay: input.closingDay,
+                paymentDay: input.paymentDay,
+            });
+        }
+
+        if (reminderDaysBefore !== undefined &&
+            (!Number.isInteger(reminderDaysBefore) || reminderDaysBefore < 0 || reminderDaysBefore > 28)) {
+            throw new AppError('reminderDaysBeforeは0〜28の整数で指定してください', ErrorType.VALIDATION, {
+                reminderDaysBefore,
+            });
+        }
+    }
+
     /**
      * キャッシュをクリアする（テスト用）
      */
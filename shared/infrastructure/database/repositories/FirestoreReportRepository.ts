@@ -1,5 +1,5 @@
 import { Firestore } from 'firebase-admin/firestore';
-import { DailyReport, WeeklyReport, MonthlyReport } from '@shared/domain/entities/Reports';
+import { DailyReport, WeeklyReport, MonthlyReport, YearlyReport } from '@shared/domain/entities/Reports';
 import { IReportCrudRepository } from '@shared/domain/interfaces/database/repositories/IReportCrudRepository';
 import { Environment } from '@shared/infrastructure/config/Environment';
 import { FirestoreService } from '@shared/infrastructure/database/FirestoreService';
@@ -154,6 +154,28 @@ export class FirestoreReportRepository implements IReportCrudRepository {
         return reports as WeeklyReport[];
     }
 
+    /**
+     * 年次レポートを取得する
+     */
+    @ErrorHandler.errorDecorator('FirestoreReportRepository', {
+        defaultMessage: '年次レポートの取得に失敗しました',
+    })
+    async getYearlyReport(year: string): Promise<YearlyReport | null> {
+        await this.initialize();
+
+        const yearlyReportPath = FirestorePathUtil.getYearlyReportPath(year);
+
+        // レポートデータを取得
+        const reportData = await this.firestoreService.getDocument<YearlyReport>(yearlyReportPath);
+
+        if (!reportData) {
+            logger.info(`年次レポートが見つかりません: ${year}年`, this.serviceContext);
+            return null;
+        }
+
+        return reportData;
+    }
+
     /**
      * 日次レポートを保存する
      */
@@ -205,6 +227,22 @@ export class FirestoreReportRepository implements IReportCrudRepository {
         return monthlyReportPath;
     }
 
+    /**
+     * 年次レポートを保存する
+     */
+    @ErrorHandler.errorDecorator('FirestoreReportRepository', {
+        defaultMessage: '年次レポートの保存に失敗しました',
+    })
+    async saveYearlyReport(report: YearlyReport, year: string): Promise<string> {
+        await this.initialize();
+
+        const yearlyReportPath = FirestorePathUtil.getYearlyReportPath(year);
+
+        await this.firestoreService.saveDocument(yearlyReportPath, report);
+        logger.info(`年次レポートをFirestoreに保存しました: ${yearlyReportPath}`, this.serviceContext);
+        return yearlyReportPath;
+    }
+
 
     // Update Operations
     /**
@@ -271,4 +309,23 @@ export class FirestoreReportRepository implements IReportCrudRepository {
         logger.info(`月次レポートを更新しました: ${documentPath}`, this.serviceContext);
         return documentPath;
     }
+
+    /**
+     * 年次レポートを更新する
+     */
+    @ErrorHandler.errorDecorator('FirestoreReportRepository', {
+        defaultMessage: '年次レポートの更新に失敗しました',
+    })
+    async updateYearlyReport(report: Partial<YearlyReport>, year: string): Promise<string> {
+        await this.initialize();
+
+        const documentPath = FirestorePathUtil.getYearlyReportPath(year);
+
+        logger.info(`年次レポート更新: ${documentPath}`, this.serviceContext);
+
+        await this.firestoreService.updateDocument(documentPath, report);
+
+        logger.info(`年次レポートを更新しました: ${documentPath}`, this.serviceContext);
+        return documentPath;
+    }
 }
@@ -0,0 +1,73 @@
+import { Firestore } from 'firebase-admin/firestore';
+import { SubscriptionList } from '@shared/domain/entities/Subscription';
+import { ISubscriptionRepository } from '@shared/domain/interfaces/database/repositories/ISubscriptionRepository';
+import { Environment } from '@shared/infrastructure/config/Environment';
+import { FirestoreService } from '@shared/infrastructure/database/FirestoreService';
+import { ErrorHandler } from '@shared/infrastructure/errors/ErrorHandler';
+import { logger } from '@shared/infrastructure/logging/Logger';
+
+/**
+ * Firestoreを使用した定期的な支払いリポジトリの実装
+ */
+export class FirestoreSubscriptionRepository implements ISubscriptionRepository {
+    private firestoreService: FirestoreService;
+    private readonly serviceContext = 'FirestoreSubscriptionRepository';
+    private readonly SUBSCRIPTIONS_PATH = 'reports/subscriptions';
+
+    constructor() {
+        this.firestoreService = FirestoreService.getInstance();
+    }
+
+    /**
+     * Firestoreへの接続を初期化する
+     */
+    @ErrorHandler.errorDecorator('FirestoreSubscriptionRepository', {
+        defaultMessage: 'Firestoreの初期化に失敗しました',
+    })
+    async initialize(): Promise<Firestore> {
+        // Cloud Functions環境の判定
+        const isCloudFunctions = Environment.isCloudFunctions();
+        this.firestoreService.setCloudFunctions(isCloudFunctions);
+
+        if (isCloudFunctions) {
+            // Cloud Functions環境ではサービスアカウントキーは不要
+            return await this.firestoreService.initialize();
+        } else {
+            // ローカル環境ではサービスアカウントキーが必要
+            const serviceAccountPath = Environment.getFirebaseAdminKeyPath();
+            return await this.firestoreService.initialize(serviceAccountPath);
+        }
+    }
+
+    /**
+     * 定期的な支払いの一覧を取得する
+     */
+    @ErrorHandler.errorDecorator('FirestoreSubscriptionRepository', {
+        defaultMessage: '定期的な支払いの取得に失敗しました',
+    })
+    async getSubscriptions(): Promise<SubscriptionList | null> {
+        await this.initialize();
+
+        const list = await this.firestoreService.getDocument<SubscriptionList>(this.SUBSCRIPTIONS_PATH);
+        if (!list) {
+            logger.info('定期的な支払いの一覧がまだありません', this.serviceContext);
+            return null;
+        }
+
+        return { ...list, subscriptions: list.subscriptions ?? [] };
+    }
+
+    /**
+     * 定期的な支払いの一覧を保存する
+     * @param list 定期的な支払いの一覧
+     */
+    @ErrorHandler.errorDecorator('FirestoreSubscriptionRepository', {
+        defaultMessage: '定期的な支払いの保存に失敗しました',
+    })
+    async saveSubscriptions(list: SubscriptionList): Promise<void> {
+        await this.initialize();
+        await this.firestoreService.saveDocument(this.SUBSCRIPTIONS_PATH, list);
+
+        logger.info(`定期的な支払いを保存しました: ${list.subscriptions.length}件`, this.serviceContext);
+    }
+}
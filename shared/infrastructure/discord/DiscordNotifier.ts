@@ -4,6 +4,14 @@ import {
     WeeklyReportNotificationDTO,
     DailyReportNotificationDTO,
     MonthlyReportNotificationDTO,
+    YearlyReportNotificationDTO,
+    ReportCategoryShareDTO,
+    ReportMerchantShareDTO,
+    ReportBudgetDTO,
+    ReportForecastDTO,
+    ReportYearOverYearDTO,
+    BillingReminderNotificationDTO,
+    SubscriptionAlertNotificationDTO,
 } from '@shared/domain/dto/ReportNotificationDTOs';
 import { logger } from '@shared/infrastructure/logging/Logger';
 import { AppError, ErrorType } from '@shared/errors/AppError';
@@ -166,11 +174,14 @@ export class DiscordNotifier implements IDiscordNotifier {
                 hour12: false,
             });
             const formattedAmount = data.amount.toLocaleString() + '円';
+            const isRefund = data.transaction_type === 'refund';
 
             const embeds = [
                 {
-                    title: '利用情報',
-                    description: `# ${formattedAmount}\nお支払いが完了しました\n-`,
+                    title: isRefund ? '取消・返金情報' : '利用情報',
+                    description: isRefund ?
+                        `# ${formattedAmount}\nご利用が取り消されました\n-` :
+                        `# ${formattedAmount}\nお支払いが完了しました\n-`,
                     color: 14805795,
                     fields: [
                         {
@@ -187,6 +198,11 @@ export class DiscordNotifier implements IDiscordNotifier {
                             name: 'カード名',
                             value: data.card_name || '不明',
                         },
+                        ...(data.original_currency && data.original_amount !== undefined ? [{
+                            name: '現地通貨額',
+                            value: this.formatForeignAmount(data),
+                            inline: false,
+                        }] : []),
                     ],
                 },
             ];
@@ -204,6 +220,92 @@ export class DiscordNotifier implements IDiscordNotifier {
         }
     }
 
+    /**
+     * 外貨建ての利用の現地通貨額を表示用に整形する（例: 12.34 USD（1 USD = 148.62円））
+     * @param data カード利用情報
+     */
+    private formatForeignAmount(data: CardUsageNotificationDTO): string {
+        const amount = `${data.original_amount?.toLocaleString()} ${data.original_currency}`;
+        if (data.exchange_rate === undefined) {
+            return amount;
+        }
+        return `${amount}（1 ${data.original_currency} = ${data.exchange_rate.toLocaleString()}円）`;
+    }
+
+    /**
+     * 支出カテゴリの上位を表示用に整形する（例: 1. 食料品 12,345円（42.5%））
+     * @param topCategories 支出カテゴリの上位（金額の大きい順）
+     */
+    private formatTopCategories(topCategories: ReportCategoryShareDTO[]): string {
+        return topCategories
+            .map((category, index) =>
+                `${index + 1}. ${category.name} ${category.amount.toLocaleString()}円（${category.share}%）`
+            )
+            .join('\n');
+    }
+
+    /**
+     * 利用先の上位を表示用に整形する（例: 1. Amazon 123,456円（12.3%））
+     * @param topMerchants 利用先の上位（金額の大きい順）
+     */
+    private formatTopMerchants(topMerchants: ReportMerchantShareDTO[]): string {
+        return topMerchants
+            .map((merchant, index) =>
+                `${index + 1}. ${merchant.merchant} ${merchant.amount.toLocaleString()}円（${merchant.share}%）`
+            )
+            .join('\n');
+    }
+
+    /**
+     * 月ごとの合計金額を表示用に整形する（例: 1月 12,345円）
+     * @param monthlyAmounts 月ごとの合計金額
+     */
+    private formatMonthlyAmounts(monthlyAmounts: { month: number; amount: number }[]): string {
+        return monthlyAmounts
+            .map(({ month, amount }) => `${month}月 ${amount.toLocaleString()}円`)
+            .join('\n');
+    }
+
+    /**
+     * 前年との比較を表示用に整形する（例: 前年 1,200,000円から +60,000円（+5%））
+     * 前年の合計金額が0以下の場合は増減率を表示しない
+     * @param yearOverYear 前年との比較
+     */
+    private formatYearOverYear(yearOverYear: ReportYearOverYearDTO): string {
+        const sign = (value: number) => value > 0 ? '+' : value < 0 ? '-' : '±';
+        const difference = `${sign(yearOverYear.difference)}${Math.abs(yearOverYear.difference).toLocaleString()}円`;
+        const changeRate = yearOverYear.changeRate === null ?
+            '' :
+            `（${sign(yearOverYear.changeRate)}${Math.abs(yearOverYear.changeRate)}%）`;
+        return `前年 ${yearOverYear.previousTotalAmount.toLocaleString()}円から ${difference}${changeRate}`;
+    }
+
+    /**
+     * 月末の見込みを表示用に整形する（例: 約85,000円（78,000〜92,000円、80%））
+     * @param forecast 月末の見込み
+     */
+    private formatForecast(forecast: ReportForecastDTO): string {
+        return `約${forecast.projectedAmount.toLocaleString()}円` +
+            `（${forecast.lowerBound.toLocaleString()}〜${forecast.upperBound.toLocaleString()}円、` +
+            `${forecast.confidenceLevel}%）`;
+    }
+
+    /**
+     * 予算の利用状況を表示用に整形する（例: 食料品 残り 6,000円 / 30,000円（80%使用））
+     * 上限を超えた場合は超過額を表示する
+     * @param budgets 予算の利用状況
+     */
+    private formatBudgets(budgets: ReportBudgetDTO[]): string {
+        return budgets
+            .map((budget) => {
+                const remaining = budget.remaining >= 0 ?
+                    `残り ${budget.remaining.toLocaleString()}円` :
+                    `${(-budget.remaining).toLocaleString()}円超過`;
+                return `${budget.name} ${remaining} / ${budget.limit.toLocaleString()}円（${budget.usage}%使用）`;
+            })
+            .join('\n');
+    }
+
     /**
      * Discord Webhookを使用してウィークリーレポートを通知する
      * @param data ウィークリーレポート情報
@@ -262,6 +364,24 @@ export class DiscordNotifier implements IDiscordNotifier {
                 },
             ];
 
+            // 支出カテゴリの上位があれば追加
+            if (data.topCategories?.length) {
+                embeds[0].fields.push({
+                    name: 'カテゴリ別（上位）',
+                    value: this.formatTopCategories(data.topCategories),
+                    inline: false,
+                });
+            }
+
+            // 月末の見込みがあれば追加
+            if (data.forecast) {
+                embeds[0].fields.push({
+                    name: '月末の見込み',
+                    value: this.formatForecast(data.forecast),
+                    inline: false,
+                });
+            }
+
             // 追加情報があれば追加
             if (data.additionalInfo) {
                 embeds[0].fields.push({
@@ -318,6 +438,24 @@ export class DiscordNotifier implements IDiscordNotifier {
                 },
             ];
 
+            // 支出カテゴリの上位があれば追加
+            if (data.topCategories?.length) {
+                embeds[0].fields.push({
+                    name: 'カテゴリ別（上位）',
+                    value: this.formatTopCategories(data.topCategories),
+                    inline: false,
+                });
+            }
+
+            // 月末の見込みがあれば追加
+            if (data.forecast) {
+                embeds[0].fields.push({
+                    name: '月末の見込み',
+                    value: this.formatForecast(data.forecast),
+                    inline: false,
+                });
+            }
+
             // 追加情報があれば追加
             if (data.additionalInfo) {
                 embeds[0].fields.push({
@@ -398,6 +536,24 @@ export class DiscordNotifier implements IDiscordNotifier {
                 },
             ];
 
+            // 支出カテゴリの上位があれば追加
+            if (data.topCategories?.length) {
+                embeds[0].fields.push({
+                    name: 'カテゴリ別（上位）',
+                    value: this.formatTopCategories(data.topCategories),
+                    inline: false,
+                });
+            }
+
+            // 予算の利用状況があれば追加
+            if (data.budgets?.length) {
+                embeds[0].fields.push({
+                    name: '予算',
+                    value: this.formatBudgets(data.budgets),
+                    inline: false,
+                });
+            }
+
             // 追加情報があれば追加
             if (data.additionalInfo) {
                 embeds[0].fields.push({
@@ -423,6 +579,215 @@ export class DiscordNotifier implements IDiscordNotifier {
         }
     }
 
+    /**
+     * Discord Webhookを使用して年間レポートを通知する
+     * 月次レポートと同じWebhookに送信する
+     * @param data 年間レポート情報
+     * @returns 通知の成功または失敗を表すブール値
+     */
+    async notifyYearlyReport(data: YearlyReportNotificationDTO): Promise<boolean> {
+        try {
+            const webhookUrl = this.getWebhookUrl(NotificationType.REPORT_MONTHLY);
+
+            const formattedAmount = data.totalAmount.toLocaleString() + '円';
+
+            const embeds = [
+                {
+                    title: `🎍 ${data.title}`,
+                    description: `# ${formattedAmount}\n年間利用合計額\n-`,
+                    color: 15844367, // 金色
+                    fields: [
+                        {
+                            name: '期間',
+                            value: data.period,
+                            inline: false,
+                        },
+                        {
+                            name: '利用件数',
+                            value: `${data.totalCount}件`,
+                            inline: false,
+                        },
+                        {
+                            name: '月別',
+                            value: this.formatMonthlyAmounts(data.monthlyAmounts),
+                            inline: false,
+                        },
+                    ],
+                },
+            ];
+
+            // 前年との比較があれば追加
+            if (data.yearOverYear) {
+                embeds[0].fields.push({
+                    name: '前年比',
+                    value: this.formatYearOverYear(data.yearOverYear),
+                    inline: false,
+                });
+            }
+
+            // 支出カテゴリの上位があれば追加
+            if (data.topCategories?.length) {
+                embeds[0].fields.push({
+                    name: 'カテゴリ別（上位）',
+                    value: this.formatTopCategories(data.topCategories),
+                    inline: false,
+                });
+            }
+
+            // 利用先の上位があれば追加
+            if (data.topMerchants?.length) {
+                embeds[0].fields.push({
+                    name: '利用先別（上位）',
+                    value: this.formatTopMerchants(data.topMerchants),
+                    inline: false,
+                });
+            }
+
+            return this._send(webhookUrl, embeds, '年間レポート');
+        } catch (error) {
+            const appError = new AppError(
+                '年間レポートの通知の送信中にエラーが発生しました',
+                ErrorType.DISCORD,
+                { reportType: 'yearly', title: data.title },
+                error instanceof Error ? error : undefined
+            );
+            logger.error(appError, this.serviceContext);
+            return false;
+        }
+    }
+
+    /**
+     * Discord Webhookを使用してカードの支払日の前に請求金額を通知する
+     * 月次レポートと同じWebhookに送信する
+     * @param data 支払日の通知情報
+     * @returns 通知の成功または失敗を表すブール値
+     */
+    async notifyBillingReminder(data: BillingReminderNotificationDTO): Promise<boolean> {
+        try {
+            const webhookUrl = this.getWebhookUrl(NotificationType.REPORT_MONTHLY);
+
+            const formattedAmount = data.totalAmount.toLocaleString() + '円';
+            const daysUntilPayment = data.daysUntilPayment > 0 ? `${data.daysUntilPayment}日後` : '本日';
+
+            const embeds = [
+                {
+                    title: `💳 ${data.title}`,
+                    description: `# ${formattedAmount}
+${daysUntilPayment}に引き落とされる金額
+-`,
+                    color: 15844367, // 金色
+                    fields: [
+                        {
+                            name: '支払日',
+                            value: data.paymentDate,
+                            inline: false,
+                        },
+                        {
+                            name: '利用期間',
+                            value: data.period,
+                            inline: false,
+                        },
+                        {
+                            name: '利用件数',
+                            value: `${data.totalCount}件`,
+                            inline: false,
+                        },
+                    ],
+                },
+            ];
+
+            // 支出カテゴリの上位があれば追加
+            if (data.topCategories?.length) {
+                embeds[0].fields.push({
+                    name: 'カテゴリ別（上位）',
+                    value: this.formatTopCategories(data.topCategories),
+                    inline: false,
+                });
+            }
+
+            return this._send(webhookUrl, embeds, '支払日の通知');
+        } catch (error) {
+            const appError = new AppError(
+                '支払日の通知の送信中にエラーが発生しました',
+                ErrorType.DISCORD,
+                { cardName: data.cardName, paymentDate: data.paymentDate },
+                error instanceof Error ? error : undefined
+            );
+            logger.error(appError, this.serviceContext);
+            return false;
+        }
+    }
+
+    /**
+     * Discord Webhookを使用して定期的な支払いの変化を通知する
+     * 月次アラートと同じWebhookに送信する
+     * @param data 定期的な支払いの変化の通知情報
+     * @returns 通知の成功または失敗を表すブール値
+     */
+    async notifySubscriptionAlert(data: SubscriptionAlertNotificationDTO): Promise<boolean> {
+        try {
+            const webhookUrl = this.getWebhookUrl(NotificationType.ALERT_MONTHLY);
+
+            let color: number;
+            let alertIcon: string;
+            let amountValue = `${data.amount.toLocaleString()}円`;
+
+            switch (data.type) {
+                case 'price_changed':
+                    color = 16766720; // オレンジ色
+                    alertIcon = '💱';
+                    if (data.previousAmount !== undefined) {
+                        amountValue = `${data.previousAmount.toLocaleString()}円 → ${amountValue}`;
+                    }
+                    break;
+                case 'missed':
+                    color = 15158332; // 赤色
+                    alertIcon = '⏰';
+                    break;
+                default:
+                    color = 3447003; // 青色
+                    alertIcon = '🔁';
+                    break;
+            }
+
+            const embeds = [
+                {
+                    title: `${alertIcon} ${data.title}`,
+                    description: `# ${data.merchant}\n${data.cardName}（${data.interval}）\n-`,
+                    color: color,
+                    fields: [
+                        {
+                            name: '金額',
+                            value: amountValue,
+                            inline: false,
+                        },
+                        {
+                            name: '最後の支払日',
+                            value: data.lastChargedAt,
+                            inline: false,
+                        },
+                        {
+                            name: '次回の支払予定日',
+                            value: data.nextChargeDate,
+                            inline: false,
+                        },
+                    ],
+                },
+            ];
+
+            return this._send(webhookUrl, embeds, '定期的な支払いの通知');
+        } catch (error) {
+            const appError = new AppError(
+                '定期的な支払いの通知の送信中にエラーが発生しました',
+                ErrorType.DISCORD,
+                { merchant: data.merchant, cardName: data.cardName, type: data.type },
+                error instanceof Error ? error : undefined
+            );
+            logger.error(appError, this.serviceContext);
+            return false;
+        }
+    }
+
     /**
      * Discord Webhookを使用してエラー情報を通知する
      * @param error AppErrorオブジェクト
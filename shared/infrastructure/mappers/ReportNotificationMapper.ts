@@ -1,10 +1,28 @@
-import { DailyReport, WeeklyReport, MonthlyReport } from '@shared/domain/entities/Reports';
 import {
+    DailyReport,
+    WeeklyReport,
+    MonthlyReport,
+    BillingCycleReport,
+    MonthEndForecast,
+    YearlyReportSummary,
+} from '@shared/domain/entities/Reports';
+import {
+    BillingReminderNotificationDTO,
     DailyReportNotificationDTO,
     WeeklyReportNotificationDTO,
     MonthlyReportNotificationDTO,
+    YearlyReportNotificationDTO,
+    ReportCategoryShareDTO,
+    ReportBudgetDTO,
+    ReportForecastDTO,
+    SubscriptionAlertNotificationDTO,
 } from '@shared/domain/dto/ReportNotificationDTOs';
+import { Category } from '@shared/domain/entities/Category';
+import { SubscriptionChange, SubscriptionChangeType } from '@shared/domain/entities/Subscription';
+import { Budget, BudgetStatus } from '@shared/domain/entities/Budget';
+import { BudgetUtil } from '@shared/utils/BudgetUtil';
 import { DateUtil } from '@shared/utils/DateUtil';
+import { ReportBreakdownUtil } from '@shared/utils/ReportBreakdownUtil';
 
 /**
  * アラートレベルの型定義（通知用DTOで使用）
@@ -16,19 +34,37 @@ type NotificationAlertLevel = 0 | 1 | 2 | 3;
  * レポートエンティティと通知用DTOの変換を行うマッパークラス
  */
 export class ReportNotificationMapper {
+    /**
+     * 定期レポートに表示する支出カテゴリの件数
+     */
+    private static readonly TOP_CATEGORY_LIMIT = 5;
+
+    /**
+     * 定期的な支払いの変化の種類ごとの通知タイトル
+     */
+    private static readonly SUBSCRIPTION_ALERT_TITLES: Record<SubscriptionChangeType, string> = {
+        new: '新しい定期的な支払いを検出しました',
+        price_changed: '定期的な支払いの金額が変わりました',
+        missed: '定期的な支払いが予定日を過ぎても確認できません',
+    };
+
     /**
      * DailyReportエンティティを通知用DTOに変換する
      * @param entity ドメインエンティティ
      * @param title 通知タイトル
      * @param additionalInfo 追加情報（任意）
      * @param monthToDateAmount 当月累計金額（任意）
+     * @param topCategories 支出カテゴリの上位（任意）
+     * @param forecast 月末の見込み（任意）
      * @returns 通知用DTO
      */
     static toDailyNotification(
         entity: DailyReport,
         title: string,
         additionalInfo?: string,
-        monthToDateAmount?: number
+        monthToDateAmount?: number,
+        topCategories?: ReportCategoryShareDTO[],
+        forecast?: ReportForecastDTO
     ): DailyReportNotificationDTO {
         return {
             title,
@@ -36,6 +72,8 @@ export class ReportNotificationMapper {
             totalAmount: entity.totalAmount,
             totalCount: entity.totalCount,
             monthToDateAmount,
+            topCategories,
+            forecast,
             additionalInfo,
         };
     }
@@ -47,6 +85,8 @@ export class ReportNotificationMapper {
      * @param alertLevel アラートレベル
      * @param additionalInfo 追加情報（任意）
      * @param monthToDateAmount 当月累計金額（任意）
+     * @param topCategories 支出カテゴリの上位（任意）
+     * @param forecast 月末の見込み（任意）
      * @returns 通知用DTO
      */
     static toWeeklyNotification(
@@ -54,7 +94,9 @@ export class ReportNotificationMapper {
         title: string,
         alertLevel: NotificationAlertLevel = 0,
         additionalInfo?: string,
-        monthToDateAmount?: number
+        monthToDateAmount?: number,
+        topCategories?: ReportCategoryShareDTO[],
+        forecast?: ReportForecastDTO
     ): WeeklyReportNotificationDTO {
         const period = DateUtil.formatDateRange(
             entity.termStartDate.toDate(),
@@ -69,6 +111,8 @@ export class ReportNotificationMapper {
             totalCount: entity.totalCount,
             alertLevel,
             monthToDateAmount,
+            topCategories,
+            forecast,
             additionalInfo,
         };
     }
@@ -79,13 +123,17 @@ export class ReportNotificationMapper {
      * @param title 通知タイトル
      * @param alertLevel アラートレベル
      * @param additionalInfo 追加情報（任意）
+     * @param topCategories 支出カテゴリの上位（任意）
+     * @param budgets 予算の利用状況（任意）
      * @returns 通知用DTO
      */
     static toMonthlyNotification(
         entity: MonthlyReport,
         title: string,
         alertLevel: NotificationAlertLevel = 0,
-        additionalInfo?: string
+        additionalInfo?: string,
+        topCategories?: ReportCategoryShareDTO[],
+        budgets?: ReportBudgetDTO[]
     ): MonthlyReportNotificationDTO {
         const period = DateUtil.formatDateRange(
             entity.monthStartDate.toDate(),
@@ -99,6 +147,8 @@ export class ReportNotificationMapper {
             totalAmount: entity.totalAmount,
             totalCount: entity.totalCount,
             alertLevel,
+            topCategories,
+            budgets,
             additionalInfo,
         };
     }
@@ -156,6 +206,37 @@ export class ReportNotificationMapper {
         return this.toMonthlyNotification(entity, title, alertLevel, additionalInfo);
     }
 
+    /**
+     * 予算のアラート通知用DTOを作成する
+     * アラートレベルは、通知する割合が100%以上の場合は3、80%以上の場合は2、それ未満の場合は1とする
+     * @param entity MonthlyReportエンティティ
+     * @param status 予算の利用状況
+     * @param percentage 達した割合（%）
+     * @param year 年
+     * @param month 月
+     * @returns 通知用DTO
+     */
+    static toBudgetAlertNotification(
+        entity: MonthlyReport,
+        status: BudgetStatus,
+        percentage: number,
+        year: string,
+        month: string
+    ): MonthlyReportNotificationDTO {
+        const alertLevel: NotificationAlertLevel = percentage >= 100 ? 3 : percentage >= 80 ? 2 : 1;
+        const title = `予算アラート (${percentage}%) - ${year}年${month}月 ${status.budget.name}`;
+        const additionalInfo = `予算 ${status.budget.limit.toLocaleString()}円 の${percentage}%に達しました`;
+
+        return this.toMonthlyNotification(
+            entity,
+            title,
+            alertLevel,
+            additionalInfo,
+            undefined,
+            [this.toBudgetDTO(status)]
+        );
+    }
+
     /**
      * 日次レポートの定期通知用DTOを作成する
      * @param entity DailyReportエンティティ
@@ -163,6 +244,8 @@ export class ReportNotificationMapper {
      * @param month 月
      * @param day 日
      * @param monthToDateAmount 当月累計金額（オプショナル）
+     * @param categories 支出カテゴリの一覧（オプショナル、カテゴリ名の表示に使用）
+     * @param forecast 月末の見込み（オプショナル）
      * @returns 通知用DTO
      */
     static toDailyScheduledNotification(
@@ -170,14 +253,23 @@ export class ReportNotificationMapper {
         year: string,
         month: string,
         day: string,
-        monthToDateAmount?: number
+        monthToDateAmount?: number,
+        categories?: Category[],
+        forecast?: MonthEndForecast
     ): DailyReportNotificationDTO {
         const title = `${year}年${month}月${day}日 デイリーレポート`;
         const additionalInfo = monthToDateAmount !== undefined
             ? `当月累計: ${monthToDateAmount.toLocaleString()}円`
             : undefined;
 
-        return this.toDailyNotification(entity, title, additionalInfo, monthToDateAmount);
+        return this.toDailyNotification(
+            entity,
+            title,
+            additionalInfo,
+            monthToDateAmount,
+            this.toTopCategories(entity, categories),
+            forecast && this.toForecastDTO(forecast)
+        );
     }
 
     /**
@@ -187,6 +279,8 @@ export class ReportNotificationMapper {
      * @param month 月
      * @param weekNumber 週番号
      * @param monthToDateAmount 当月累計金額（オプショナル）
+     * @param categories 支出カテゴリの一覧（オプショナル、カテゴリ名の表示に使用）
+     * @param forecast 月末の見込み（オプショナル）
      * @returns 通知用DTO
      */
     static toWeeklyScheduledNotification(
@@ -194,14 +288,24 @@ export class ReportNotificationMapper {
         year: string,
         month: string,
         weekNumber: number,
-        monthToDateAmount?: number
+        monthToDateAmount?: number,
+        categories?: Category[],
+        forecast?: MonthEndForecast
     ): WeeklyReportNotificationDTO {
         const title = `${year}年${month}月 第${weekNumber}週 ウィークリーレポート`;
         const additionalInfo = monthToDateAmount !== undefined
             ? `当月累計: ${monthToDateAmount.toLocaleString()}円`
             : undefined;
 
-        return this.toWeeklyNotification(entity, title, 0, additionalInfo, monthToDateAmount);
+        return this.toWeeklyNotification(
+            entity,
+            title,
+            0,
+            additionalInfo,
+            monthToDateAmount,
+            this.toTopCategories(entity, categories),
+            forecast && this.toForecastDTO(forecast)
+        );
     }
 
     /**
@@ -209,15 +313,146 @@ export class ReportNotificationMapper {
      * @param entity MonthlyReportエンティティ
      * @param year 年
      * @param month 月
+     * @param categories 支出カテゴリの一覧（オプショナル、カテゴリ名の表示に使用）
+     * @param budgets 予算の一覧（オプショナル、残りの予算の表示に使用）
      * @returns 通知用DTO
      */
     static toMonthlyScheduledNotification(
         entity: MonthlyReport,
         year: string,
-        month: string
+        month: string,
+        categories?: Category[],
+        budgets?: Budget[]
     ): MonthlyReportNotificationDTO {
         const title = `${year}年${month}月 マンスリーレポート`;
 
-        return this.toMonthlyNotification(entity, title);
+        return this.toMonthlyNotification(
+            entity,
+            title,
+            0,
+            undefined,
+            this.toTopCategories(entity, categories),
+            budgets?.length ? budgets.map((budget) => this.toBudgetDTO(BudgetUtil.toStatus(budget, entity))) : undefined
+        );
+    }
+
+    /**
+     * 年次レポートの概要から年間レポートの定期通知用DTOを作成する
+     * 利用額が0以下の支出カテゴリ・利用先は上位に含めない
+     * @param summary 年次レポートの概要
+     * @returns 通知用DTO
+     */
+    static toYearlyScheduledNotification(summary: YearlyReportSummary): YearlyReportNotificationDTO {
+        const topCategories = summary.topCategories
+            .filter((breakdown) => breakdown.amount > 0)
+            .map(({ name, amount, share }) => ({ name, amount, share }));
+        const topMerchants = summary.topMerchants
+            .filter((breakdown) => breakdown.amount > 0)
+            .map(({ merchant, amount, share }) => ({ merchant, amount, share }));
+
+        return {
+            title: `${summary.year}年 年間レポート`,
+            period: `${summary.year}/01/01 〜 ${summary.year}/12/31`,
+            totalAmount: summary.totalAmount,
+            totalCount: summary.totalCount,
+            monthlyAmounts: summary.months.map(({ month, amount }) => ({ month, amount })),
+            topCategories: topCategories.length > 0 ? topCategories : undefined,
+            topMerchants: topMerchants.length > 0 ? topMerchants : undefined,
+            yearOverYear: summary.yearOverYear ?? undefined,
+        };
+    }
+
+    /**
+     * 請求サイクルのレポートから支払日の通知用DTOを作成する
+     * @param report 請求サイクルのレポート
+     * @param daysUntilPayment 支払日までの日数
+     * @param categories 支出カテゴリの一覧（オプショナル、カテゴリ名の表示に使用）
+     * @returns 通知用DTO
+     */
+    static toBillingReminderNotification(
+        report: BillingCycleReport,
+        daysUntilPayment: number,
+        categories?: Category[]
+    ): BillingReminderNotificationDTO {
+        const [, month, day] = report.paymentDate.split('-').map(Number);
+        const toDisplayDate = (date: string) => date.replace(/-/g, '/');
+
+        return {
+            title: `${report.displayName} ${month}月${day}日のお支払い`,
+            cardName: report.displayName,
+            paymentDate: toDisplayDate(report.paymentDate),
+            daysUntilPayment,
+            period: `${toDisplayDate(report.periodStart)} 〜 ${toDisplayDate(report.periodEnd)}`,
+            totalAmount: report.totalAmount,
+            totalCount: report.totalCount,
+            topCategories: this.toTopCategories(report, categories),
+        };
+    }
+
+    /**
+     * 定期的な支払いの変化から通知用DTOを作成する
+     * @param change 定期的な支払いの変化
+     * @returns 通知用DTO
+     */
+    static toSubscriptionAlertNotification(change: SubscriptionChange): SubscriptionAlertNotificationDTO {
+        const { subscription } = change;
+        const toDisplayDate = (date: string) => date.replace(/-/g, '/');
+
+        return {
+            title: this.SUBSCRIPTION_ALERT_TITLES[change.type],
+            type: change.type,
+            merchant: subscription.merchant,
+            cardName: subscription.cardName,
+            interval: subscription.interval === 'weekly' ? '毎週' : '毎月',
+            amount: subscription.amount,
+            previousAmount: change.previousAmount,
+            lastChargedAt: toDisplayDate(subscription.lastChargedAt),
+            nextChargeDate: toDisplayDate(subscription.nextChargeDate),
+        };
+    }
+
+    /**
+     * 支出カテゴリごとの小計から、金額の大きい上位のカテゴリを作成する
+     * 小計を持たないレポート（導入前に作成したもの）や、支出がない場合はundefinedを返す
+     * @param entity レポートエンティティ
+     * @param categories 支出カテゴリの一覧（表示名がない場合はIDを表示する）
+     */
+    private static toTopCategories(
+        entity: DailyReport | WeeklyReport | MonthlyReport | BillingCycleReport,
+        categories?: Category[]
+    ): ReportCategoryShareDTO[] | undefined {
+        const topCategories = ReportBreakdownUtil.toCategoryBreakdown(entity, categories)
+            .filter((breakdown) => breakdown.amount > 0)
+            .slice(0, this.TOP_CATEGORY_LIMIT)
+            .map(({ name, amount, share }) => ({ name, amount, share }));
+
+        return topCategories.length > 0 ? topCategories : undefined;
+    }
+
+    /**
+     * 予算の利用状況を通知用DTOに変換する
+     * @param status 予算の利用状況
+     */
+    private static toBudgetDTO(status: BudgetStatus): ReportBudgetDTO {
+        return {
+            name: status.budget.name,
+            limit: status.budget.limit,
+            spent: status.spent,
+            remaining: status.remaining,
+            usage: status.usage,
+        };
+    }
+
+    /**
+     * 月末の見込みを通知用DTOに変換する
+     * @param forecast 月末の見込み
+     */
+    private static toForecastDTO(forecast: MonthEndForecast): ReportForecastDTO {
+        return {
+            projectedAmount: forecast.projectedAmount,
+            lowerBound: forecast.lowerBound,
+            upperBound: forecast.upperBound,
+            confidenceLevel: forecast.confidenceLevel,
+        };
     }
 }
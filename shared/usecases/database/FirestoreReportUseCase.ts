@@ -1,4 +1,4 @@
-import { DailyReport, WeeklyReport, MonthlyReport } from '@shared/domain/entities/Reports';
+import { DailyReport, WeeklyReport, MonthlyReport, YearlyReport } from '@shared/domain/entities/Reports';
 import { IReportCrudRepository } from '@shared/domain/interfaces/database/repositories/IReportCrudRepository';
 import { ErrorHandler } from '@shared/infrastructure/errors/ErrorHandler';
 import { logger } from '@shared/infrastructure/logging/Logger';
@@ -114,6 +114,26 @@ export class FirestoreReportUseCase {
         return reports;
     }
 
+    /**
+     * 年次レポートを取得する
+     * @param year 年
+     * @returns 年次レポート情報
+     */
+    @ErrorHandler.errorDecorator('ReportUseCase', {
+        defaultMessage: '年次レポートの取得に失敗しました',
+    })
+    async getYearlyReport(year: string): Promise<YearlyReport> {
+        logger.info(`年次レポート取得: ${year}年`, this.serviceContext);
+
+        const report = await this.reportRepository.getYearlyReport(year);
+
+        if (!report) {
+            throw new AppError(`${year}年のレポートが見つかりません`, ErrorType.NOT_FOUND);
+        }
+
+        return report;
+    }
+
     /**
      * レポート一覧を取得する（廃止予定）
      * @param type レポートタイプ
@@ -211,6 +231,24 @@ export class FirestoreReportUseCase {
         return path;
     }
 
+    /**
+     * 年次レポートを作成する
+     * @param reportData 年次レポートデータ
+     * @param year 年
+     * @returns 保存されたパス
+     */
+    @ErrorHandler.errorDecorator('ReportUseCase', {
+        defaultMessage: '年次レポートの作成に失敗しました',
+    })
+    async createYearlyReport(reportData: YearlyReport, year: string): Promise<string> {
+        logger.info(`年次レポート作成: ${year}年`, this.serviceContext);
+
+        const path = await this.reportRepository.saveYearlyReport(reportData, year);
+        logger.info(`年次レポートを作成しました: ${path}`, this.serviceContext);
+
+        return path;
+    }
+
     // Update Operations
     /**
      * 日次レポートを更新する
@@ -281,6 +319,24 @@ export class FirestoreReportUseCase {
         return path;
     }
 
+    /**
+     * 年次レポートを更新する
+     * @param reportData 年次レポートデータ
+     * @param year 年
+     * @returns 更新されたパス
+     */
+    @ErrorHandler.errorDecorator('ReportUseCase', {
+        defaultMessage: '年次レポートの更新に失敗しました',
+    })
+    async updateYearlyReport(reportData: Partial<YearlyReport>, year: string): Promise<string> {
+        logger.info(`年次レポート更新: ${year}年`, this.serviceContext);
+
+        const path = await this.reportRepository.updateYearlyReport(reportData, year);
+        logger.info(`年次レポートを更新しました: ${path}`, this.serviceContext);
+
+        return path;
+    }
+
     // プライベートメソッド
 
     /**
@@ -3,6 +3,9 @@ import {
   DailyReportNotificationDTO,
   WeeklyReportNotificationDTO,
   MonthlyReportNotificationDTO,
+  YearlyReportNotificationDTO,
+  BillingReminderNotificationDTO,
+  SubscriptionAlertNotificationDTO,
 } from '@shared/domain/dto/ReportNotificationDTOs';
 import { logger } from '@shared/infrastructure/logging/Logger';
 import { ErrorHandler } from '@shared/infrastructure/errors/ErrorHandler';
@@ -53,4 +56,43 @@ export class NotifyReportUseCase implements INotifyReportUseCase {
         await this.discordNotifier.notifyMonthlyReport(report);
         logger.info(`マンスリーレポートのDiscord通知を送信しました: ${report.title}`, this.serviceContext);
     }
+
+    /**
+     * 年間レポートをDiscordに通知する
+     */
+    @ErrorHandler.errorDecorator('NotifyReportUseCase', {
+        defaultMessage: '年間レポートのDiscord通知送信に失敗しました',
+        suppressNotification: true, // 通知エラーの通知は不要
+    })
+    async notifyYearlyReport(report: YearlyReportNotificationDTO): Promise<void> {
+        await this.discordNotifier.notifyYearlyReport(report);
+        logger.info(`年間レポートのDiscord通知を送信しました: ${report.title}`, this.serviceContext);
+    }
+
+    /**
+     * カードの支払日の通知をDiscordに送信する
+     */
+    @ErrorHandler.errorDecorator('NotifyReportUseCase', {
+        defaultMessage: '支払日のDiscord通知送信に失敗しました',
+        suppressNotification: true, // 通知エラーの通知は不要
+    })
+    async notifyBillingReminder(reminder: BillingReminderNotificationDTO): Promise<void> {
+        await this.discordNotifier.notifyBillingReminder(reminder);
+        logger.info(`支払日のDiscord通知を送信しました: ${reminder.title}`, this.serviceContext);
+    }
+
+    /**
+     * 定期的な支払いの変化をDiscordに通知する
+     */
+    @ErrorHandler.errorDecorator('NotifyReportUseCase', {
+        defaultMessage: '定期的な支払いのDiscord通知送信に失敗しました',
+        suppressNotification: true, // 通知エラーの通知は不要
+    })
+    async notifySubscriptionAlert(alert: SubscriptionAlertNotificationDTO): Promise<void> {
+        await this.discordNotifier.notifySubscriptionAlert(alert);
+        logger.info(
+            `定期的な支払いのDiscord通知を送信しました: ${alert.title} (${alert.merchant})`,
+            this.serviceContext
+        );
+    }
 }
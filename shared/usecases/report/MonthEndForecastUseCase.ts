@@ -0,0 +1,95 @@
+import { MonthEndForecast } from '@shared/domain/entities/Reports';
+import { Subscription } from '@shared/domain/entities/Subscription';
+import { IReportCrudRepository } from '@shared/domain/interfaces/database/repositories/IReportCrudRepository';
+import {
+    ISubscriptionRepository,
+} from '@shared/domain/interfaces/database/repositories/ISubscriptionRepository';
+import { IMonthEndForecastUseCase } from '@shared/domain/interfaces/usecases/report/IMonthEndForecastUseCase';
+import { AppError, ErrorType } from '@shared/errors/AppError';
+import { ErrorHandler } from '@shared/infrastructure/errors/ErrorHandler';
+import { logger } from '@shared/infrastructure/logging/Logger';
+import { ForecastUtil } from '@shared/utils/ForecastUtil';
+
+/**
+ * 月末の利用額の見込みのユースケース
+ * 直近の月次レポートや定期的な支払いがない場合は、ある情報だけで見積もる
+ */
+export class MonthEndForecastUseCase implements IMonthEndForecastUseCase {
+    private readonly serviceContext = 'MonthEndForecastUseCase';
+
+    /**
+     * コンストラクタ
+     * @param reportRepository レポートリポジトリ
+     * @param subscriptionRepository 定期的な支払いリポジトリ（省略時は定期的な支払いを考慮しない）
+     */
+    constructor(
+        private readonly reportRepository: IReportCrudRepository,
+        private readonly subscriptionRepository?: ISubscriptionRepository
+    ) { }
+
+    /**
+     * 月末の利用額の見込みを求める
+     */
+    @ErrorHandler.errorDecorator('MonthEndForecastUseCase', {
+        defaultMessage: '月末の見込みの計算に失敗しました',
+    })
+    async execute(year: string, month: string, asOf: Date): Promise<MonthEndForecast> {
+        const targetYear = /^\d{4}$/.test(year) ? Number(year) : NaN;
+        const targetMonth = /^\d{1,2}$/.test(month) ? Number(month) : NaN;
+        if (Number.isNaN(targetYear) || Number.isNaN(targetMonth) || targetMonth < 1 || targetMonth > 12) {
+            throw new AppError('年はYYYY、月は1〜12で指定してください', ErrorType.VALIDATION, { year, month });
+        }
+
+        const dailyReports = await this.reportRepository.getMonthlyDailyReports(
+            String(targetYear),
+            String(targetMonth).padStart(2, '0')
+        );
+        const dailyAmounts: Record<number, number> = {};
+        for (const report of dailyReports) {
+            const day = report.date.toDate().getDate();
+            dailyAmounts[day] = (dailyAmounts[day] ?? 0) + report.totalAmount;
+        }
+
+        const recentMonths: { totalAmount: number; days: number }[] = [];
+        for (let offset = 1; offset <= ForecastUtil.RECENT_MONTH_COUNT; offset++) {
+            const recent = new Date(targetYear, targetMonth - 1 - offset, 1);
+            const report = await this.reportRepository.getMonthlyReport(
+                String(recent.getFullYear()),
+                String(recent.getMonth() + 1).padStart(2, '0')
+            );
+            if (report) {
+                recentMonths.push({
+                    totalAmount: report.totalAmount,
+                    days: new Date(recent.getFullYear(), recent.getMonth() + 1, 0).getDate(),
+                });
+            }
+        }
+
+        return ForecastUtil.forecast({
+            year: targetYear,
+            month: targetMonth,
+            asOf,
+            dailyAmounts,
+            recentMonths,
+            subscriptions: await this.getSubscriptions(),
+        });
+    }
+
+    /**
+     * 検出済みの定期的な支払いを取得
+     * 取得できない場合は定期的な支払いを考慮せずに見積もる
+     */
+    private async getSubscriptions(): Promise<Subscription[]> {
+        if (!this.subscriptionRepository) {
+            return [];
+        }
+
+        try {
+            const list = await this.subscriptionRepository.getSubscriptions();
+            return list?.subscriptions ?? [];
+        } catch (error) {
+            logger.warn('定期的な支払いの取得に失敗しました。定期的な支払いを考慮せずに見積もります', this.serviceContext);
+            return [];
+        }
+    }
+}
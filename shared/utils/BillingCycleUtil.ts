@@ -0,0 +1,169 @@
+import { BillingCycleReport } from '@shared/domain/entities/Reports';
+import { Card } from '@shared/domain/entities/Card';
+import { CardUsageStatus, CardUsageTransactionType } from '@shared/domain/entities/CardUsage';
+import { ReportBreakdownUtil, ReportSubtotalSource } from '@shared/utils/ReportBreakdownUtil';
+
+/**
+ * 請求サイクル（支払日と、締め日で区切った利用期間）
+ */
+export interface BillingCycle {
+    // 請求サイクル（支払月、YYYY-MM）
+    cycle: string;
+    // 利用期間の開始日時（前回の締め日の翌日の0時）
+    periodStart: Date;
+    // 利用期間の終了日時（締め日の終わり）
+    periodEnd: Date;
+    // 支払日
+    paymentDate: Date;
+}
+
+/**
+ * 請求サイクルの集計の対象となるカード利用データ
+ */
+export interface BillingUsageSource extends ReportSubtotalSource {
+    // ドキュメントのパス
+    path: string;
+    // 利用日時
+    usedAt: Date;
+    // 取引種別（取消・返金は件数に含めない）
+    // eslint-disable-next-line camelcase
+    transaction_type?: CardUsageTransactionType;
+    // 有効かどうか（論理削除されたものは集計しない）
+    // eslint-disable-next-line camelcase
+    is_active?: boolean;
+    // 状態（確認待ちのものは集計しない）
+    status?: CardUsageStatus;
+}
+
+/**
+ * カードの締め日・支払日による請求サイクルのユーティリティ
+ * 支払日が土日祝日の場合の振替は考慮しない
+ */
+export class BillingCycleUtil {
+    private static readonly CYCLE_PATTERN = /^(\d{4})-(\d{2})$/;
+
+    /**
+     * 請求サイクルの文字列（YYYY-MM）を支払月に変換する
+     * @param cycle 請求サイクル
+     * @returns 支払月（形式が不正な場合はnull）
+     */
+    static parseCycle(cycle: string): { year: number; month: number } | null {
+        const match = typeof cycle === 'string' ? cycle.match(this.CYCLE_PATTERN) : null;
+        if (!match || Number(match[2]) < 1 || Number(match[2]) > 12) {
+            return null;
+        }
+        return { year: Number(match[1]), month: Number(match[2]) };
+    }
+
+    /**
+     * 支払月の請求サイクルを求める
+     * @param card 登録済みのカード
+     * @param year 支払月の年
+     * @param month 支払月の月（1〜12）
+     */
+    static getCycle(card: Card, year: number, month: number): BillingCycle {
+        const closingMonth = month - card.paymentMonthOffset;
+        const closingDate = this.dayOfMonth(year, closingMonth, card.closingDay);
+        const previousClosingDate = this.dayOfMonth(year, closingMonth - 1, card.closingDay);
+        const paymentDate = this.dayOfMonth(year, month, card.paymentDay);
+
+        return {
+            cycle: this.formatCycle(paymentDate),
+            periodStart: new Date(
+                previousClosingDate.getFullYear(),
+                previousClosingDate.getMonth(),
+                previousClosingDate.getDate() + 1
+            ),
+            periodEnd: new Date(
+                closingDate.getFullYear(),
+                closingDate.getMonth(),
+                closingDate.getDate(),
+                23, 59, 59, 999
+            ),
+            paymentDate,
+        };
+    }
+
+    /**
+     * 利用日時が含まれる請求サイクルを求める
+     * @param card 登録済みのカード
+     * @param date 利用日時
+     */
+    static cycleOf(card: Card, date: Date): BillingCycle {
+        const closingDate = this.dayOfMonth(date.getFullYear(), date.getMonth() + 1, card.closingDay);
+        // 締め日を過ぎた利用は翌月の締めになる
+        const closingMonth = date.getDate() > closingDate.getDate() ? date.getMonth() + 2 : date.getMonth() + 1;
+        return this.getCycle(card, date.getFullYear(), closingMonth + card.paymentMonthOffset);
+    }
+
+    /**
+     * 指定した日以降で最も近い支払日の請求サイクルを求める
+     * @param card 登録済みのカード
+     * @param date 基準日（この日が支払日の場合はその請求サイクル）
+     */
+    static nextCycle(card: Card, date: Date): BillingCycle {
+        const today = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+        const cycle = this.getCycle(card, date.getFullYear(), date.getMonth() + 1);
+        return cycle.paymentDate >= today ? cycle : this.getCycle(card, date.getFullYear(), date.getMonth() + 2);
+    }
+
+    /**
+     * 請求サイクルの利用期間に含まれるカードの利用を集計する
+     * @param card 登録済みのカード
+     * @param cycle 請求サイクル
+     * @param usages カード利用データ（他のカードや期間外の利用、論理削除・確認待ちのものは除く）
+     */
+    static summarize(card: Card, cycle: BillingCycle, usages: BillingUsageSource[]): BillingCycleReport {
+        const targets = usages.filter((usage) =>
+            ReportBreakdownUtil.cardKeyOf(usage) === card.cardName &&
+            usage.is_active !== false &&
+            usage.status !== 'pending_review' &&
+            usage.usedAt >= cycle.periodStart &&
+            usage.usedAt <= cycle.periodEnd
+        );
+
+        return {
+            cardName: card.cardName,
+            displayName: card.displayName,
+            issuer: card.issuer,
+            cycle: cycle.cycle,
+            periodStart: this.formatDate(cycle.periodStart),
+            periodEnd: this.formatDate(cycle.periodEnd),
+            paymentDate: this.formatDate(cycle.paymentDate),
+            totalAmount: targets.reduce((sum, usage) => sum + usage.amount, 0),
+            totalCount: targets.filter((usage) => usage.transaction_type !== 'refund').length,
+            categoryTotals: targets.reduce(
+                (totals, usage) => ReportBreakdownUtil.add(
+                    totals,
+                    ReportBreakdownUtil.categoryKeyOf(usage),
+                    usage.amount,
+                    usage.transaction_type === 'refund' ? 0 : 1
+                ),
+                {}
+            ),
+            documentIdList: targets.map((usage) => usage.path),
+        };
+    }
+
+    /**
+     * 指定した月の日付を求める（月の日数を超える日は月末、月は12を超えても翌年として扱う）
+     */
+    private static dayOfMonth(year: number, month: number, day: number): Date {
+        const lastDay = new Date(year, month, 0).getDate();
+        return new Date(year, month - 1, Math.min(day, lastDay));
+    }
+
+    /**
+     * 請求サイクルの文字列（YYYY-MM）に変換する
+     */
+    private static formatCycle(date: Date): string {
+        return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+    }
+
+    /**
+     * 日付の文字列（YYYY-MM-DD）に変換する
+     */
+    private static formatDate(date: Date): string {
+        return `${this.formatCycle(date)}-${String(date.getDate()).padStart(2, '0')}`;
+    }
+}
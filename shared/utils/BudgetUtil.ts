@@ -0,0 +1,46 @@
+import { Budget, BudgetStatus } from '@shared/domain/entities/Budget';
+import { ReportSubtotals } from '@shared/domain/entities/Reports';
+
+/**
+ * 予算の利用状況のユーティリティ
+ */
+export class BudgetUtil {
+    /**
+     * マンスリーレポートの小計から予算の利用状況を求める
+     * 小計を持たないレポート（導入前に作成したもの）や、対象の利用がない場合の利用額は0円とする
+     * @param budget 予算
+     * @param report 支出カテゴリ・カードごとの小計を含むマンスリーレポート
+     * @returns 予算の利用状況
+     */
+    static toStatus(
+        budget: Budget,
+        report: { categoryTotals?: ReportSubtotals; cardTotals?: ReportSubtotals }
+    ): BudgetStatus {
+        const subtotals = budget.target === 'category' ? report.categoryTotals : report.cardTotals;
+        const spent = subtotals?.[budget.key]?.amount ?? 0;
+
+        return {
+            budget,
+            spent,
+            remaining: budget.limit - spent,
+            usage: Math.round(spent / budget.limit * 1000) / 10,
+        };
+    }
+
+    /**
+     * 利用額が上限の指定した割合に達しているか
+     * @param status 予算の利用状況
+     * @param percentage 割合（%）
+     */
+    static hasReached(status: BudgetStatus, percentage: number): boolean {
+        return status.spent * 100 >= status.budget.limit * percentage;
+    }
+
+    /**
+     * 利用額が達している通知する割合の一覧（昇順）
+     * @param status 予算の利用状況
+     */
+    static reachedPercentages(status: BudgetStatus): number[] {
+        return status.budget.alertPercentages.filter((percentage) => this.hasReached(status, percentage));
+    }
+}
@@ -115,6 +115,17 @@ export class FirestorePathUtil {
     return `reports/monthly/${dateInfo.year}/${monthFormatted}`;
   }
 
+  /**
+   * 年次レポートのFirestoreパスを生成する
+   * ドキュメントのパスとするため、年のコレクションの下のsummaryドキュメントとする
+   * @param year 年
+   * @returns 年次レポートパス
+   */
+  static getYearlyReportPath(year: number | string): string {
+    const yearNum = typeof year === 'string' ? parseInt(year, 10) : year;
+    return `reports/yearly/${yearNum}/summary`;
+  }
+
   /**
    * カード利用詳細データのFirestoreパスを生成する（Dateオブジェクト版）
    * @param date 日付オブジェクト
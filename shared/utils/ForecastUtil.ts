@@ -0,0 +1,245 @@
+import { MonthEndForecast } from '@shared/domain/entities/Reports';
+import { Subscription } from '@shared/domain/entities/Subscription';
+
+/**
+ * 月末の見込みの計算に使用するデータ
+ */
+export interface ForecastInput {
+    // 対象の年
+    year: number;
+    // 対象の月（1〜12）
+    month: number;
+    // 基準日（この日までの利用を実績とする。対象の月より後の場合は月末まで）
+    asOf: Date;
+    // 当月の日ごとの利用額（日がキー）
+    dailyAmounts: Record<number, number>;
+    // 直近の月の合計と日数（対象の月を含まない）
+    recentMonths: { totalAmount: number; days: number }[];
+    // 検出済みの定期的な支払い
+    subscriptions: Subscription[];
+}
+
+/**
+ * 月末の利用額の見込みのユーティリティ
+ * 定期的な支払いは予定日に確実に発生するものとして扱い、それ以外の利用は1日あたりの平均から見積もる
+ * 1日あたりの平均は、月の前半ほど直近の月の平均を、後半ほど当月の平均を重く扱う
+ */
+export class ForecastUtil {
+    /**
+     * 下限〜上限の信頼水準（%）
+     */
+    static readonly CONFIDENCE_LEVEL = 80;
+
+    /**
+     * 見込みの算出に使用する直近の月の数
+     */
+    static readonly RECENT_MONTH_COUNT = 3;
+
+    // 信頼水準80%の正規分布の片側の係数
+    private static readonly Z_SCORE = 1.28;
+
+    // ばらつきを求められない場合に、残りの日の見込み額に対する幅とする割合
+    private static readonly FALLBACK_MARGIN_RATIO = 0.5;
+
+    /**
+     * 月末の利用額の見込みを求める
+     * @param input 見込みの計算に使用するデータ
+     * @returns 月末の利用額の見込み
+     */
+    static forecast(input: ForecastInput): MonthEndForecast {
+        const { year, month } = input;
+        const daysInMonth = new Date(year, month, 0).getDate();
+        const elapsedDays = this.elapsedDaysOf(year, month, input.asOf);
+        const remainingDays = daysInMonth - elapsedDays;
+
+        // 定期的な支払いの日ごとの金額（実績・予定）
+        const recurringByDay = this.recurringByDay(input.subscriptions, year, month);
+        const upcomingSubscriptionAmount = Object.keys(recurringByDay).map(Number)
+            .filter((day) => day > elapsedDays)
+            .reduce((sum, day) => sum + recurringByDay[day].upcoming, 0);
+
+        // 実績の日ごとの利用額（定期的な支払いを除いたもの）
+        const variableDaily = Array.from({ length: elapsedDays }, (_, index) => {
+            const day = index + 1;
+            return (input.dailyAmounts[day] ?? 0) - (recurringByDay[day]?.charged ?? 0);
+        });
+        const monthToDateAmount = Array.from({ length: elapsedDays }, (_, index) => index + 1)
+            .reduce((sum, day) => sum + (input.dailyAmounts[day] ?? 0), 0);
+
+        // 直近の月の1日あたりの利用額（定期的な支払いを除いたもの）
+        const recurringPerDay = this.recurringPerDay(input.subscriptions);
+        const recentRates = input.recentMonths
+            .filter((recent) => recent.days > 0)
+            .map((recent) => Math.max(0, recent.totalAmount / recent.days - recurringPerDay));
+
+        const currentRate = elapsedDays > 0 ?
+            Math.max(0, variableDaily.reduce((sum, amount) => sum + amount, 0) / elapsedDays) :
+            undefined;
+        const historicalRate = recentRates.length > 0 ? this.mean(recentRates) : undefined;
+        const dailyAverage = this.blend(currentRate, historicalRate, elapsedDays / daysInMonth);
+
+        const projectedAmount = Math.round(
+            monthToDateAmount + dailyAverage * remainingDays + upcomingSubscriptionAmount
+        );
+
+        // 見込みの幅（日ごとのばらつきと月ごとのばらつきの大きい方）
+        const margins: number[] = [];
+        if (variableDaily.length >= 2) {
+            margins.push(this.Z_SCORE * this.standardDeviation(variableDaily) * Math.sqrt(remainingDays));
+        }
+        if (recentRates.length >= 2) {
+            margins.push(this.Z_SCORE * this.standardDeviation(recentRates) * remainingDays);
+        }
+        const margin = Math.round(margins.length > 0 ?
+            Math.max(...margins) :
+            dailyAverage * remainingDays * this.FALLBACK_MARGIN_RATIO);
+
+        return {
+            year,
+            month,
+            asOf: this.formatDate(elapsedDays > 0 ? new Date(year, month - 1, elapsedDays) : input.asOf),
+            daysInMonth,
+            elapsedDays,
+            monthToDateAmount,
+            projectedAmount,
+            // 実績と予定されている定期的な支払いは確実に発生するものとして、下限はそれを下回らない
+            lowerBound: Math.max(monthToDateAmount + upcomingSubscriptionAmount, projectedAmount - margin),
+            upperBound: projectedAmount + margin,
+            confidenceLevel: this.CONFIDENCE_LEVEL,
+            upcomingSubscriptionAmount,
+            dailyAverage: Math.round(dailyAverage),
+            recentMonthCount: recentRates.length,
+        };
+    }
+
+    /**
+     * 基準日までに経過した対象の月の日数
+     */
+    private static elapsedDaysOf(year: number, month: number, asOf: Date): number {
+        const daysInMonth = new Date(year, month, 0).getDate();
+        const asOfMonth = asOf.getFullYear() * 12 + asOf.getMonth();
+        const targetMonth = year * 12 + month - 1;
+
+        if (asOfMonth < targetMonth) {
+            return 0;
+        }
+        return asOfMonth > targetMonth ? daysInMonth : asOf.getDate();
+    }
+
+    /**
+     * 対象の月の、定期的な支払いの日ごとの金額
+     * 最後の支払日以前は実績、次回の支払予定日以降は予定として扱う（未払いのものは予定に含めない）
+     */
+    private static recurringByDay(
+        subscriptions: Subscription[],
+        year: number,
+        month: number
+    ): Record<number, { charged: number; upcoming: number }> {
+        const result: Record<number, { charged: number; upcoming: number }> = {};
+        const add = (date: Date, amount: number, key: 'charged' | 'upcoming') => {
+            if (date.getFullYear() !== year || date.getMonth() !== month - 1) {
+                return;
+            }
+            const current = result[date.getDate()] ?? { charged: 0, upcoming: 0 };
+            result[date.getDate()] = { ...current, [key]: current[key] + amount };
+        };
+
+        for (const subscription of subscriptions) {
+            const last = this.parseDate(subscription.lastChargedAt);
+            const next = this.parseDate(subscription.nextChargeDate);
+            if (!last || !next) {
+                continue;
+            }
+            const step = subscription.interval === 'weekly' ? 7 : 0;
+
+            // 最後の支払日から月初までさかのぼる（毎月の場合は1回のみ）
+            for (let date = last; this.isOnOrAfterMonthStart(date, year, month); date = this.addDays(date, -step)) {
+                add(date, subscription.amount, 'charged');
+                if (step === 0) {
+                    break;
+                }
+            }
+
+            if (subscription.status !== 'active') {
+                continue;
+            }
+
+            // 次回の支払予定日から月末まで進める（毎月の場合は1回のみ）
+            for (let date = next; this.isOnOrBeforeMonthEnd(date, year, month); date = this.addDays(date, step)) {
+                add(date, subscription.amount, 'upcoming');
+                if (step === 0) {
+                    break;
+                }
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * 定期的な支払いの1日あたりの金額（継続中のもの）
+     */
+    private static recurringPerDay(subscriptions: Subscription[]): number {
+        return subscriptions
+            .filter((subscription) => subscription.status === 'active')
+            .reduce((sum, subscription) =>
+                sum + subscription.amount / (subscription.interval === 'weekly' ? 7 : 365 / 12), 0);
+    }
+
+    /**
+     * 当月の平均と直近の月の平均を、経過した割合で重み付けする
+     */
+    private static blend(current: number | undefined, historical: number | undefined, weight: number): number {
+        if (current === undefined) {
+            return historical ?? 0;
+        }
+        if (historical === undefined) {
+            return current;
+        }
+        return current * weight + historical * (1 - weight);
+    }
+
+    private static mean(values: number[]): number {
+        return values.reduce((sum, value) => sum + value, 0) / values.length;
+    }
+
+    /**
+     * 標本標準偏差
+     */
+    private static standardDeviation(values: number[]): number {
+        const mean = this.mean(values);
+        const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1);
+        return Math.sqrt(variance);
+    }
+
+    private static isOnOrAfterMonthStart(date: Date, year: number, month: number): boolean {
+        return date >= new Date(year, month - 1, 1);
+    }
+
+    private static isOnOrBeforeMonthEnd(date: Date, year: number, month: number): boolean {
+        return date < new Date(year, month, 1);
+    }
+
+    private static addDays(date: Date, days: number): Date {
+        return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+    }
+
+    /**
+     * 日付の文字列（YYYY-MM-DD）を日付に変換する
+     */
+    private static parseDate(value: string): Date | null {
+        const match = typeof value === 'string' ? value.match(/^(\d{4})-(\d{2})-(\d{2})$/) : null;
+        return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : null;
+    }
+
+    /**
+     * 日付の文字列（YYYY-MM-DD）に変換する
+     */
+    private static formatDate(date: Date): string {
+        return [
+            date.getFullYear(),
+            String(date.getMonth() + 1).padStart(2, '0'),
+            String(date.getDate()).padStart(2, '0'),
+        ].join('-');
+    }
+}
@@ -0,0 +1,122 @@
+import {
+    ReportCategoryBreakdown,
+    ReportMerchantBreakdown,
+    ReportSubtotals,
+} from '@shared/domain/entities/Reports';
+import { Category, UNCATEGORIZED_CATEGORY_ID } from '@shared/domain/entities/Category';
+
+/**
+ * 小計の対象となるカード利用データ
+ */
+export interface ReportSubtotalSource {
+    amount: number;
+    // eslint-disable-next-line camelcase
+    card_name?: string;
+    category?: string;
+    // 利用先（元の表記）
+    // eslint-disable-next-line camelcase
+    where_to_use?: string;
+    // 正規化した利用先
+    merchant?: string;
+}
+
+/**
+ * レポートの支出カテゴリ・カードごとの小計ユーティリティ
+ */
+export class ReportBreakdownUtil {
+    /**
+     * カード名がない場合の小計のキー
+     */
+    static readonly UNKNOWN_CARD = '不明';
+
+    /**
+     * 利用先がない場合の小計のキー
+     */
+    static readonly UNKNOWN_MERCHANT = '不明';
+
+    /**
+     * 小計にカード利用データを加算した新しい小計を返す
+     * @param subtotals 現在の小計（導入前に作成したレポートの場合はundefined）
+     * @param key 支出カテゴリのIDまたはカード名
+     * @param amount 加算する金額
+     * @param count 加算する件数
+     * @returns 加算後の小計
+     */
+    static add(subtotals: ReportSubtotals | undefined, key: string, amount: number, count: number): ReportSubtotals {
+        const current = subtotals?.[key] ?? { amount: 0, count: 0 };
+        return {
+            ...subtotals,
+            [key]: { amount: current.amount + amount, count: current.count + count },
+        };
+    }
+
+    /**
+     * カード利用データの支出カテゴリの小計のキー（未設定の場合は未分類）
+     */
+    static categoryKeyOf(data: ReportSubtotalSource): string {
+        return data.category || UNCATEGORIZED_CATEGORY_ID;
+    }
+
+    /**
+     * カード利用データのカードの小計のキー
+     */
+    static cardKeyOf(data: ReportSubtotalSource): string {
+        return data.card_name?.trim() || this.UNKNOWN_CARD;
+    }
+
+    /**
+     * カード利用データの利用先の小計のキー（正規化した利用先がない場合は元の表記）
+     */
+    static merchantKeyOf(data: ReportSubtotalSource): string {
+        return data.merchant?.trim() || data.where_to_use?.trim() || this.UNKNOWN_MERCHANT;
+    }
+
+    /**
+     * 支出カテゴリごとの小計を、金額の大きい順の内訳に変換する
+     * @param report 支出カテゴリごとの小計を含むレポート
+     * @param categories 支出カテゴリの一覧（表示名の解決に使用）
+     * @param limit 返す件数の上限（省略時はすべて）
+     * @returns 支出カテゴリごとの内訳
+     */
+    static toCategoryBreakdown(
+        report: { totalAmount: number; categoryTotals?: ReportSubtotals },
+        categories: Category[] = [],
+        limit?: number
+    ): ReportCategoryBreakdown[] {
+        const names = new Map(categories.map((category) => [category.id, category.name]));
+
+        const breakdown = Object.entries(report.categoryTotals ?? {})
+            .map(([category, subtotal]) => ({
+                category,
+                name: names.get(category) ?? category,
+                amount: subtotal.amount,
+                count: subtotal.count,
+                share: report.totalAmount > 0 ? Math.round(subtotal.amount / report.totalAmount * 1000) / 10 : 0,
+            }))
+            .sort((a, b) => b.amount - a.amount);
+
+        return limit === undefined ? breakdown : breakdown.slice(0, limit);
+    }
+
+    /**
+     * 利用先ごとの小計を、金額の大きい順の内訳に変換する
+     * @param report 利用先ごとの小計を含むレポート
+     * @param limit 返す件数の上限（省略時はすべて）
+     * @returns 利用先ごとの内訳
+     */
+    static toMerchantBreakdown(
+        report: { totalAmount: number; merchantTotals?: ReportSubtotals },
+        limit?: number
+    ): ReportMerchantBreakdown[] {
+        const breakdown = Object.entries(report.merchantTotals ?? {})
+            .map(([merchant, subtotal]) => ({
+                merchant,
+                amount: subtotal.amount,
+                count: subtotal.count,
+                share: report.totalAmount > 0 ? Math.round(subtotal.amount / report.totalAmount * 1000) / 10 : 0,
+            }))
+            .sort((a, b) => b.amount - a.amount);
+
+        return limit === undefined ? breakdown : breakdown.slice(0, limit);
+    }
+}
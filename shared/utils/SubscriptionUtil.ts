@@ -0,0 +1,291 @@
+import {
+    Subscription,
+    SubscriptionChange,
+    SubscriptionInterval,
+} from '@shared/domain/entities/Subscription';
+import { CardUsageStatus, CardUsageTransactionType } from '@shared/domain/entities/CardUsage';
+import { ReportBreakdownUtil, ReportSubtotalSource } from '@shared/utils/ReportBreakdownUtil';
+
+/**
+ * 定期的な支払いの検出の対象となるカード利用データ
+ */
+export interface SubscriptionUsageSource extends ReportSubtotalSource {
+    // 利用日時
+    usedAt: Date;
+    // 取引種別（取消・返金は支払いとして扱わない）
+    // eslint-disable-next-line camelcase
+    transaction_type?: CardUsageTransactionType;
+    // 有効かどうか（論理削除されたものは対象外）
+    // eslint-disable-next-line camelcase
+    is_active?: boolean;
+    // 状態（確認待ちのものは対象外）
+    status?: CardUsageStatus;
+}
+
+/**
+ * 支払いの間隔ごとの判定条件
+ */
+interface IntervalRule {
+    // 1回分の支払いの間隔の日数
+    cycleDays: number;
+    // 支払いの間隔（1回分の日数の整数倍）からのずれとして許容する日数
+    toleranceDays: number;
+    // 次回の支払予定日から未払いとみなすまでの猶予日数
+    graceDays: number;
+}
+
+/**
+ * 定期的な支払い（サブスクリプション）の検出ユーティリティ
+ * カード名と利用先が同じ支払いが、一定の間隔・ほぼ同じ金額で繰り返されているものを定期的な支払いとみなす
+ */
+export class SubscriptionUtil {
+    /**
+     * 検出に使用する履歴の月数
+     */
+    static readonly LOOKBACK_MONTHS = 6;
+
+    /**
+     * 定期的な支払いとみなす最小の支払いの回数
+     */
+    static readonly MIN_CHARGE_COUNT = 3;
+
+    /**
+     * 同じ支払いとみなす、連続する支払いの金額の差の割合
+     */
+    static readonly AMOUNT_TOLERANCE = 0.2;
+
+    /**
+     * 金額の変化として通知する、前回の検出結果からの金額の差の割合
+     */
+    static readonly PRICE_CHANGE_THRESHOLD = 0.05;
+
+    private static readonly INTERVAL_RULES: Record<SubscriptionInterval, IntervalRule> = {
+        weekly: { cycleDays: 7, toleranceDays: 1, graceDays: 3 },
+        monthly: { cycleDays: 30, toleranceDays: 5, graceDays: 7 },
+    };
+
+    private static readonly DAY_MILLISECONDS = 24 * 60 * 60 * 1000;
+
+    /**
+     * カード利用データの履歴から定期的な支払いを検出する
+     * 金額は、途中で1度だけ変わったもの（値上げなど）まで定期的な支払いとみなす
+     * 支払いのない回（未払いの月など）を挟んだ間隔は、間隔の整数倍であれば定期的な支払いの間隔とみなす
+     * @param usages カード利用データ（取消・返金、論理削除・確認待ちのものは除く）
+     * @param today 基準日（未払いの判定に使用）
+     * @param previous 前回の検出結果（検出済みのものは、支払いのない回を挟んだ後も検出し続ける）
+     * @returns 検出した定期的な支払い（カード名・利用先の順）
+     */
+    static detect(usages: SubscriptionUsageSource[], today: Date, previous: Subscription[] = []): Subscription[] {
+        const groups = new Map<string, SubscriptionUsageSource[]>();
+        for (const usage of usages) {
+            if (
+                usage.transaction_type === 'refund' ||
+                usage.is_active === false ||
+                usage.status === 'pending_review' ||
+                !(usage.amount > 0)
+            ) {
+                continue;
+            }
+            const merchant = this.merchantOf(usage);
+            if (!merchant) {
+                continue;
+            }
+            const id = this.idOf(ReportBreakdownUtil.cardKeyOf(usage), merchant);
+            groups.set(id, [...(groups.get(id) ?? []), usage]);
+        }
+
+        const previousById = new Map(previous.map((subscription) => [subscription.id, subscription]));
+        const subscriptions: Subscription[] = [];
+        for (const [id, group] of groups) {
+            const subscription = this.detectGroup(id, group, today, previousById.get(id)?.interval);
+            if (subscription) {
+                subscriptions.push(subscription);
+            }
+        }
+
+        return subscriptions.sort((a, b) =>
+            a.cardName.localeCompare(b.cardName) || a.merchant.localeCompare(b.merchant)
+        );
+    }
+
+    /**
+     * 前回の検出結果と今回の検出結果を比較し、通知する変化を求める
+     * 前回の検出結果にない未払いのものは、新たな定期的な支払いとしては扱わない
+     * @param previous 前回の検出結果
+     * @param current 今回の検出結果
+     * @returns 定期的な支払いの変化
+     */
+    static diff(previous: Subscription[], current: Subscription[]): SubscriptionChange[] {
+        const previousById = new Map(previous.map((subscription) => [subscription.id, subscription]));
+        const changes: SubscriptionChange[] = [];
+
+        for (const subscription of current) {
+            const before = previousById.get(subscription.id);
+            if (!before) {
+                if (subscription.status === 'active') {
+                    changes.push({ type: 'new', subscription });
+                }
+                continue;
+            }
+            if (subscription.status === 'missed' && before.status !== 'missed') {
+                changes.push({ type: 'missed', subscription });
+            }
+            if (this.isPriceChanged(before.amount, subscription.amount)) {
+                changes.push({ type: 'price_changed', subscription, previousAmount: before.amount });
+            }
+        }
+
+        return changes;
+    }
+
+    /**
+     * 定期的な支払いのIDを作成する
+     * @param cardName カード名
+     * @param merchant 利用先
+     */
+    static idOf(cardName: string, merchant: string): string {
+        return `${cardName}:${merchant}`;
+    }
+
+    /**
+     * 同じカード・利用先の支払いが定期的な支払いかを判定する
+     * 支払いのない回を挟まない間隔が（支払いの回数 - 1）回以上あるものを定期的な支払いとみなす
+     * 前回検出済みの間隔の場合は、支払いのない回を挟んだ後の支払いの回数が足りなくても検出し続ける
+     * @param knownInterval 前回の検出結果の支払いの間隔
+     */
+    private static detectGroup(
+        id: string,
+        group: SubscriptionUsageSource[],
+        today: Date,
+        knownInterval?: SubscriptionInterval
+    ): Subscription | null {
+        if (group.length < this.MIN_CHARGE_COUNT) {
+            return null;
+        }
+
+        const charges = [...group].sort((a, b) => a.usedAt.getTime() - b.usedAt.getTime());
+        const intervals = charges.slice(1)
+            .map((charge, index) => this.daysBetween(charges[index].usedAt, charge.usedAt));
+        const interval = (Object.keys(this.INTERVAL_RULES) as SubscriptionInterval[]).find((key) => {
+            const cycles = intervals.map((days) => this.cyclesOf(days, this.INTERVAL_RULES[key]));
+            if (cycles.some((count) => count === null)) {
+                return false;
+            }
+            return key === knownInterval ||
+                cycles.filter((count) => count === 1).length >= this.MIN_CHARGE_COUNT - 1;
+        });
+        if (!interval) {
+            return null;
+        }
+
+        const amountSteps = charges.slice(1)
+            .filter((charge, index) => !this.isSameAmount(charges[index].amount, charge.amount))
+            .length;
+        if (amountSteps > 1) {
+            return null;
+        }
+
+        const last = charges[charges.length - 1];
+        const nextChargeDate = this.nextChargeDateOf(last.usedAt, interval, this.billingDayOf(charges));
+        const deadline = new Date(
+            nextChargeDate.getFullYear(),
+            nextChargeDate.getMonth(),
+            nextChargeDate.getDate() + this.INTERVAL_RULES[interval].graceDays
+        );
+        const todayStart = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+
+        return {
+            id,
+            merchant: this.merchantOf(last),
+            cardName: ReportBreakdownUtil.cardKeyOf(last),
+            category: last.category,
+            interval,
+            amount: last.amount,
+            chargeCount: charges.length,
+            lastChargedAt: this.formatDate(last.usedAt),
+            nextChargeDate: this.formatDate(nextChargeDate),
+            status: todayStart > deadline ? 'missed' : 'active',
+        };
+    }
+
+    /**
+     * カード利用データの利用先（正規化した利用先がない場合は元の表記）
+     */
+    private static merchantOf(usage: SubscriptionUsageSource): string {
+        return usage.merchant?.trim() || usage.where_to_use?.trim() || '';
+    }
+
+    /**
+     * 間隔が支払い何回分にあたるか（1回分の日数の整数倍からのずれが許容範囲外の場合はnull）
+     */
+    private static cyclesOf(days: number, rule: IntervalRule): number | null {
+        const cycles = Math.round(days / rule.cycleDays);
+        return cycles >= 1 && Math.abs(days - cycles * rule.cycleDays) <= rule.toleranceDays ? cycles : null;
+    }
+
+    /**
+     * 毎月の支払いの本来の支払日（日）
+     * 月の日数に合わせて繰り上がった可能性のある月末の支払い（31日より短い月の末日）は、それより前の支払いの日と比べて大きい方を使う
+     * @param charges 支払い（日時の順）
+     */
+    private static billingDayOf(charges: SubscriptionUsageSource[]): number {
+        let day = 0;
+        for (let index = charges.length - 1; index >= 0; index--) {
+            const usedAt = charges[index].usedAt;
+            day = Math.max(day, usedAt.getDate());
+            const lastDay = new Date(usedAt.getFullYear(), usedAt.getMonth() + 1, 0).getDate();
+            if (usedAt.getDate() < lastDay || lastDay === 31) {
+                break;
+            }
+        }
+        return day;
+    }
+
+    /**
+     * 最後の支払日から次回の支払予定日を求める（毎月の場合、本来の支払日が月の日数を超える場合は月末）
+     * @param lastChargedAt 最後の支払日
+     * @param interval 支払いの間隔
+     * @param billingDay 毎月の支払いの本来の支払日（日）
+     */
+    private static nextChargeDateOf(lastChargedAt: Date, interval: SubscriptionInterval, billingDay: number): Date {
+        if (interval === 'weekly') {
+            return new Date(lastChargedAt.getFullYear(), lastChargedAt.getMonth(), lastChargedAt.getDate() + 7);
+        }
+        const lastDay = new Date(lastChargedAt.getFullYear(), lastChargedAt.getMonth() + 2, 0).getDate();
+        return new Date(lastChargedAt.getFullYear(), lastChargedAt.getMonth() + 1, Math.min(billingDay, lastDay));
+    }
+
+    /**
+     * 2つの日時の間の日数（日付単位）
+     */
+    private static daysBetween(from: Date, to: Date): number {
+        const start = Date.UTC(from.getFullYear(), from.getMonth(), from.getDate());
+        const end = Date.UTC(to.getFullYear(), to.getMonth(), to.getDate());
+        return Math.round((end - start) / this.DAY_MILLISECONDS);
+    }
+
+    /**
+     * 2つの金額を同じ支払いの金額とみなせるか
+     */
+    private static isSameAmount(a: number, b: number): boolean {
+        return Math.abs(a - b) <= Math.max(a, b) * this.AMOUNT_TOLERANCE;
+    }
+
+    /**
+     * 前回の検出結果から金額が変わったか
+     */
+    private static isPriceChanged(before: number, after: number): boolean {
+        return Math.abs(after - before) > before * this.PRICE_CHANGE_THRESHOLD;
+    }
+
+    /**
+     * 日付の文字列（YYYY-MM-DD）に変換する
+     */
+    private static formatDate(date: Date): string {
+        return [
+            date.getFullYear(),
+            String(date.getMonth() + 1).padStart(2, '0'),
+            String(date.getDate()).padStart(2, '0'),
+        ].join('-');
+    }
+}
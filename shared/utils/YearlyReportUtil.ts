@@ -0,0 +1,67 @@
+import {
+    ReportYearOverYear,
+    YearlyReport,
+    YearlyReportSummary,
+} from '@shared/domain/entities/Reports';
+import { Category } from '@shared/domain/entities/Category';
+import { ReportBreakdownUtil } from '@shared/utils/ReportBreakdownUtil';
+
+/**
+ * 年次レポートの概要のユーティリティ
+ * 年次レポートには小計のみを保存し、上位の一覧や前年比は表示時に求める
+ */
+export class YearlyReportUtil {
+    /**
+     * 概要に含める支出カテゴリ・利用先の件数
+     */
+    static readonly TOP_LIMIT = 5;
+
+    /**
+     * 年次レポートから概要を作成する
+     * @param year 対象の年
+     * @param report 年次レポート
+     * @param previousReport 前年の年次レポート（ない場合は前年との比較を含めない）
+     * @param categories 支出カテゴリの一覧（表示名の解決に使用）
+     * @returns 年次レポートの概要
+     */
+    static toSummary(
+        year: number,
+        report: YearlyReport,
+        previousReport: YearlyReport | null,
+        categories: Category[] = []
+    ): YearlyReportSummary {
+        const months = Array.from({ length: 12 }, (_, index) => {
+            const subtotal = report.monthlyTotals?.[String(index + 1).padStart(2, '0')];
+            return { month: index + 1, amount: subtotal?.amount ?? 0, count: subtotal?.count ?? 0 };
+        });
+
+        return {
+            year,
+            totalAmount: report.totalAmount,
+            totalCount: report.totalCount,
+            months,
+            topCategories: ReportBreakdownUtil.toCategoryBreakdown(report, categories, this.TOP_LIMIT),
+            topMerchants: ReportBreakdownUtil.toMerchantBreakdown(report, this.TOP_LIMIT),
+            yearOverYear: previousReport ? this.toYearOverYear(report, previousReport) : null,
+        };
+    }
+
+    /**
+     * 前年との比較を求める
+     * @param report 対象の年の年次レポート
+     * @param previousReport 前年の年次レポート
+     */
+    static toYearOverYear(
+        report: Pick<YearlyReport, 'totalAmount'>,
+        previousReport: Pick<YearlyReport, 'totalAmount'>
+    ): ReportYearOverYear {
+        const difference = report.totalAmount - previousReport.totalAmount;
+        return {
+            previousTotalAmount: previousReport.totalAmount,
+            difference,
+            changeRate: previousReport.totalAmount > 0 ?
+                Math.round(difference / previousReport.totalAmount * 1000) / 10 :
+                null,
+        };
+    }
+}
@@ -1,7 +1,15 @@
+/**
+ * カード会社の識別子
+ * 組み込みのカード会社を定数として定義する。
+ * 新しいカード会社はパーサーモジュール側で識別子を定義し、レジストリに登録することで追加できる。
+ */
+export const CardCompany = {
+    MUFG: 'MUFG', // 三菱UFJ銀行
+    SMBC: 'SMBC', // 三井住友カード
+} as const;
+
 /**
  * カード会社の種類
+ * パーサーの追加時に列挙の変更が不要となるよう、文字列として扱う
  */
-export enum CardCompany {
-    MUFG = 'MUFG', // 三菱UFJ銀行
-    SMBC = 'SMBC' // 三井住友カード
-}
+export type CardCompany = string;
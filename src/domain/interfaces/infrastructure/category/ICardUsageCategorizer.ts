@@ -0,0 +1,37 @@
+import { CardUsage } from '@shared/domain/entities/CardUsage';
+import { CategoryRule } from '@shared/domain/entities/Category';
+
+/**
+ * カード利用情報の自動分類を行うインターフェース
+ * 自動分類のルール（利用先の正規表現・カード名・金額の範囲）を順に評価し、支出カテゴリを求める処理を定義
+ */
+export interface ICardUsageCategorizer {
+    /**
+     * カード利用情報を分類する
+     * ルールを取得できない場合は未分類とする
+     * @param cardUsage カード利用情報
+     * @returns 支出カテゴリのID（どのルールにも一致しない場合は未分類）
+     */
+    categorize(cardUsage: CardUsage): Promise<string>;
+
+    /**
+     * 自動分類のルールを取得する
+     * 複数のカード利用情報をまとめて分類する場合に、ルールを1回だけ取得するために使用する
+     * @returns ルールの一覧（先に一致したものを使用する）
+     */
+    getRules(): Promise<CategoryRule[]>;
+
+    /**
+     * 指定したルールでカード利用情報を分類する
+     * @param cardUsage カード利用情報
+     * @param rules ルールの一覧
+     * @returns 支出カテゴリのID（どのルールにも一致しない場合は未分類）
+     */
+    match(cardUsage: CardUsage, rules: CategoryRule[]): string;
+
+    /**
+     * 支出カテゴリが登録済みかどうかを確認する
+     * @param categoryId 支出カテゴリのID
+     */
+    hasCategory(categoryId: string): Promise<boolean>;
+}
@@ -4,11 +4,26 @@
  */
 import { EmailController } from '@presentation/email/controllers/EmailController';
 import { ImapEmailService } from '@infrastructure/email/ImapEmailService';
+import { ICardIssuerParserRegistry } from '@domain/interfaces/infrastructure/email/ICardIssuerParserRegistry';
+import { IssuerTemplateLoader } from '@infrastructure/email/issuers/IssuerTemplateLoader';
+import {
+    IImapStateRepository,
+} from '@domain/interfaces/infrastructure/database/repositories/IImapStateRepository';
+import {
+    IDeadLetterRepository,
+} from '@domain/interfaces/infrastructure/database/repositories/IDeadLetterRepository';
+import { IConfigRepository } from '@shared/domain/interfaces/database/repositories/IConfigRepository';
 import { FirestoreCardUsageRepository } from '@infrastructure/database/repositories/FirestoreCardUsageRepository';
 import { DiscordNotifier } from '@shared/infrastructure/discord/DiscordNotifier';
 import { ProcessEmailUseCase } from '@usecase/email/ProcessEmailUseCase';
 import { IProcessCardCompanyEmailUseCase } from '@domain/interfaces/usecases/email/IProcessCardCompanyEmailUseCase';
 import { INotifyCardUsageUseCase } from '@domain/interfaces/usecases/notification/INotifyCardUsageUseCase';
+import { IDeadLetterUseCase } from '@domain/interfaces/usecases/email/IDeadLetterUseCase';
+import { IImportEmailsUseCase } from '@domain/interfaces/usecases/email/IImportEmailsUseCase';
+import { IPreviewEmailParseUseCase } from '@domain/interfaces/usecases/email/IPreviewEmailParseUseCase';
+import { IReconcileStatementUseCase } from '@domain/interfaces/usecases/statement/IReconcileStatementUseCase';
+import { IBackfillMerchantUseCase } from '@domain/interfaces/usecases/database/IBackfillMerchantUseCase';
+import { IApplyCategoryRulesUseCase } from '@domain/interfaces/usecases/category/IApplyCategoryRulesUseCase';
 
 export interface IDependencyContainer {
     /**
@@ -17,6 +32,21 @@ export interface IDependencyContainer {
      */
     initialize(): Promise<void>;
 
+    /**
+     * カード会社パーサーのレジストリを取得する
+     */
+    getCardIssuerParserRegistry(): ICardIssuerParserRegistry;
+
+    /**
+     * 設定情報リポジトリを取得する
+     */
+    getConfigRepository(): IConfigRepository;
+
+    /**
+     * カード会社テンプレートのローダーを取得する
+     */
+    getIssuerTemplateLoader(): IssuerTemplateLoader;
+
     /**
      * EmailControllerを取得する
      */
@@ -32,6 +62,36 @@ export interface IDependencyContainer {
      */
     getProcessCardCompanyEmailUseCase(): IProcessCardCompanyEmailUseCase;
 
+    /**
+     * DeadLetterUseCaseを取得する
+     */
+    getDeadLetterUseCase(): IDeadLetterUseCase;
+
+    /**
+     * ImportEmailsUseCaseを取得する
+     */
+    getImportEmailsUseCase(): IImportEmailsUseCase;
+
+    /**
+     * PreviewEmailParseUseCaseを取得する
+     */
+    getPreviewEmailParseUseCase(): IPreviewEmailParseUseCase;
+
+    /**
+     * ReconcileStatementUseCaseを取得する
+     */
+    getReconcileStatementUseCase(): IReconcileStatementUseCase;
+
+    /**
+     * BackfillMerchantUseCaseを取得する
+     */
+    getBackfillMerchantUseCase(): IBackfillMerchantUseCase;
+
+    /**
+     * ApplyCategoryRulesUseCaseを取得する
+     */
+    getApplyCategoryRulesUseCase(): IApplyCategoryRulesUseCase;
+
     /**
      * NotifyCardUsageUseCaseを取得する
      */
@@ -47,6 +107,16 @@ export interface IDependencyContainer {
      */
     getCardUsageRepository(): FirestoreCardUsageRepository;
 
+    /**
+     * IMAP処理状態のリポジトリを取得する
+     */
+    getImapStateRepository(): IImapStateRepository;
+
+    /**
+     * デッドレターのリポジトリを取得する
+     */
+    getDeadLetterRepository(): IDeadLetterRepository;
+
     /**
      * DiscordNotifierを取得する
      */
@@ -0,0 +1,38 @@
+/**
+ * 監視するIMAPアカウントの設定の読み込みを行うインターフェース
+ * アカウントごとの接続先・認証情報・監視するメールボックス・受け付けるカード会社を定義する
+ */
+import { CardCompany } from '@domain/enums/CardCompany';
+import { ImapMonitoringOptions } from '@infrastructure/email/ImapEmailService';
+import { IImapAccessTokenProvider } from '@domain/interfaces/infrastructure/email/IImapAccessTokenProvider';
+
+/**
+ * 監視するIMAPアカウント
+ */
+export interface ImapAccount {
+    /** アカウントの識別子（ステータスダッシュボードのサービス名に使用） */
+    id: string;
+    /** IMAPサーバー */
+    server: string;
+    /** ユーザー名 */
+    user: string;
+    /** パスワード（設定で参照した環境変数の値。OAuth2で認証する場合は空） */
+    password: string;
+    /** OAuth2（XOAUTH2）で認証する場合のアクセストークンの提供元 */
+    accessTokenProvider?: IImapAccessTokenProvider;
+    /** 受け付けるカード会社（これ以外のカード会社のメールは処理しない） */
+    issuers: CardCompany[];
+    /** 監視するメールボックス名 */
+    mailboxes: string[];
+    /** メール監視の設定 */
+    monitoringOptions: ImapMonitoringOptions;
+}
+
+export interface IImapAccountConfigLoader {
+    /**
+     * 監視するIMAPアカウントの設定を読み込む
+     * @returns 監視するIMAPアカウント
+     * @throws {AppError} 設定が不正な場合
+     */
+    load(): ImapAccount[];
+}
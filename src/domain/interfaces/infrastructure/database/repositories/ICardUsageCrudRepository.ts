@@ -43,6 +43,14 @@ export interface ICardUsageCrudRepository {
    */
   update(id: string, updateData: Partial<CardUsage>): Promise<(CardUsage & { id: string, path: string }) | null>;
 
+  /**
+   * パスを指定してカード利用情報を更新する
+   * IDによる更新と異なり、検索する期間に関わらず更新できる
+   * @param path カード利用情報のパス
+   * @param updateData 更新データ
+   */
+  updateByPath(path: string, updateData: Partial<CardUsage>): Promise<void>;
+
   /**
    * カード利用情報を論理削除する（is_activeをfalseに設定）
    * @param id カード利用情報のID
@@ -0,0 +1,34 @@
+import { DeadLetter, DeadLetterInput, DeadLetterStatus } from '@shared/domain/entities/DeadLetter';
+
+/**
+ * デッドレターのリポジトリインターフェース
+ * 解析・保存に失敗したメールの保存、取得、状態更新を行う
+ */
+export interface IDeadLetterRepository {
+  /**
+   * デッドレターを登録する
+   * @param input 登録内容
+   * @returns 登録されたデッドレター
+   */
+  save(input: DeadLetterInput): Promise<DeadLetter>;
+
+  /**
+   * IDによるデッドレターの取得
+   * @param id デッドレターのID
+   * @returns デッドレター（存在しない場合はnull）
+   */
+  getById(id: string): Promise<DeadLetter | null>;
+
+  /**
+   * デッドレターを新しい順に取得する
+   * @param status 絞り込む状態（省略時はすべて）
+   */
+  findAll(status?: DeadLetterStatus): Promise<DeadLetter[]>;
+
+  /**
+   * デッドレターを更新する
+   * @param id デッドレターのID
+   * @param data 更新する項目
+   */
+  update(id: string, data: Partial<Omit<DeadLetter, 'id'>>): Promise<void>;
+}
@@ -0,0 +1,31 @@
+/**
+ * メールボックスごとのIMAP処理状態
+ */
+export interface ImapMailboxState {
+  /** メールボックスのUIDVALIDITY（変わった場合はUIDが振り直されている） */
+  uidValidity: string;
+  /** 処理済みの最大UID */
+  lastUid: number;
+  /** 最終更新日時（ISOフォーマット） */
+  updatedAt: string;
+}
+
+/**
+ * IMAP処理状態のリポジトリインターフェース
+ * 再起動時にメールを重複処理・取りこぼししないよう、処理済みのUIDを永続化する
+ */
+export interface IImapStateRepository {
+  /**
+   * メールボックスの処理状態を取得する
+   * @param mailboxKey メールボックスを識別するキー（アカウントとメールボックス名）
+   * @returns 処理状態（未記録の場合はnull）
+   */
+  getMailboxState(mailboxKey: string): Promise<ImapMailboxState | null>;
+
+  /**
+   * メールボックスの処理状態を保存する
+   * @param mailboxKey メールボックスを識別するキー（アカウントとメールボックス名）
+   * @param state 処理状態
+   */
+  saveMailboxState(mailboxKey: string, state: ImapMailboxState): Promise<void>;
+}
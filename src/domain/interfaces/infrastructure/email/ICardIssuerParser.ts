@@ -0,0 +1,92 @@
+/**
+ * カード会社ごとのメール判定・抽出を担当するパーサーのインターフェース
+ * カード会社を追加する場合は、このインターフェースを実装したモジュールをレジストリに登録する
+ */
+import { CardCompany } from '@domain/enums/CardCompany';
+import { ParsedEmail } from '@infrastructure/email/EmailParser';
+import { CardUsage } from '@shared/domain/entities/CardUsage';
+
+/**
+ * カード会社の判定に使用するメールの項目
+ */
+export type DetectableEmail = Pick<ParsedEmail, 'subject' | 'from' | 'body'>;
+
+/**
+ * カード会社の判定ルール
+ * 送信元のいずれかに一致する、または件名と本文のキーワードが両方一致した場合に該当と判定する
+ */
+export interface CardIssuerDetectionRules {
+    /** 送信元アドレスに含まれる文字列 */
+    senders: string[];
+    /** 件名に含まれるキーワード */
+    subjectKeywords: string[];
+    /** 本文に含まれるキーワード */
+    bodyKeywords: string[];
+}
+
+/**
+ * カード会社の判定結果
+ */
+export interface CardIssuerDetectionResult {
+    /** 判定が成立したかどうか */
+    matched: boolean;
+    /** 判定が成立した根拠（送信元の一致、または件名と本文のキーワードの一致） */
+    matchedBy: 'sender' | 'keywords' | null;
+    /** 一致したルール（例: "sender:mufg.jp"） */
+    matchedRules: string[];
+}
+
+/**
+ * サンプルメールから期待される抽出結果
+ */
+/* eslint-disable camelcase */
+export interface CardIssuerSampleExpectation {
+    card_name: string;
+    amount: number;
+    where_to_use: string;
+}
+/* eslint-enable camelcase */
+
+/**
+ * パーサーの動作確認用サンプルメール
+ */
+export interface CardIssuerSampleFixture {
+    /** サンプルの説明 */
+    description: string;
+    /** サンプルメール */
+    email: DetectableEmail;
+    /** 期待される抽出結果（利用明細の順） */
+    expected: CardIssuerSampleExpectation[];
+}
+
+export interface ICardIssuerParser {
+    /** カード会社の識別子 */
+    readonly cardCompany: CardCompany;
+
+    /** 表示名 */
+    readonly displayName: string;
+
+    /** 監視対象のメールボックス名 */
+    readonly mailboxName: string;
+
+    /** 判定ルール */
+    readonly detectionRules: CardIssuerDetectionRules;
+
+    /** サンプルメール */
+    readonly sampleFixtures: CardIssuerSampleFixture[];
+
+    /**
+     * メールがこのカード会社のものかどうかを判定
+     * @param email 判定対象のメール
+     * @returns 判定結果
+     */
+    detect(email: DetectableEmail): CardIssuerDetectionResult;
+
+    /**
+     * メール本文からカード利用情報を抽出
+     * 1通に複数件の利用明細を含む場合は、明細ごとにカード利用情報を返す
+     * @param body メール本文
+     * @returns 抽出されたカード利用情報（最低1件）
+     */
+    extract(body: string): CardUsage[];
+}
@@ -0,0 +1,47 @@
+/**
+ * カード会社パーサーのレジストリのインターフェース
+ * 登録されたパーサーを識別子で引き当て、メールからカード会社を判定する
+ */
+import { CardCompany } from '@domain/enums/CardCompany';
+import { DetectableEmail, ICardIssuerParser } from '@domain/interfaces/infrastructure/email/ICardIssuerParser';
+
+export interface ICardIssuerParserRegistry {
+    /**
+     * パーサーを登録
+     * @param parser 登録するパーサー
+     */
+    register(parser: ICardIssuerParser): void;
+
+    /**
+     * パーサーを登録し、同じ識別子のパーサーが登録済みの場合は置き換える
+     * @param parser 登録するパーサー
+     * @returns 置き換えられたパーサー（新規登録の場合はundefined）
+     */
+    replace(parser: ICardIssuerParser): ICardIssuerParser | undefined;
+
+    /**
+     * パーサーの登録を解除
+     * @param cardCompany カード会社の識別子
+     */
+    unregister(cardCompany: CardCompany): void;
+
+    /**
+     * 識別子に対応するパーサーを取得
+     * @param cardCompany カード会社の識別子
+     * @returns パーサー（未登録の場合はundefined）
+     */
+    get(cardCompany: CardCompany): ICardIssuerParser | undefined;
+
+    /**
+     * 登録済みのパーサーを登録順に取得
+     */
+    getAll(): ICardIssuerParser[];
+
+    /**
+     * メールに該当するパーサーを判定
+     * 送信元が一致したパーサーを優先し、なければキーワードが一致したパーサーを登録順に選ぶ
+     * @param email 判定対象のメール
+     * @returns 該当したパーサー（該当なしの場合はnull）
+     */
+    detect(email: DetectableEmail): ICardIssuerParser | null;
+}
@@ -8,9 +8,18 @@ import { CardUsage } from '@shared/domain/entities/CardUsage';
 export interface ICardUsageExtractor {
     /**
      * メール本文からカード利用情報を抽出
+     * 複数件の利用明細を含む場合は先頭の明細を返す
      * @param body メール本文
      * @param cardCompany カード会社の種類
      * @returns 抽出されたカード利用情報
      */
     extractFromEmailBody(body: string, cardCompany: CardCompany): CardUsage;
+
+    /**
+     * メール本文からすべての利用明細のカード利用情報を抽出
+     * @param body メール本文
+     * @param cardCompany カード会社の種類
+     * @returns 抽出されたカード利用情報（最低1件）
+     */
+    extractAllFromEmailBody(body: string, cardCompany: CardCompany): CardUsage[];
 }
@@ -0,0 +1,15 @@
+/**
+ * 抽出したカード利用情報の検証を行うインターフェース
+ * 抽出結果をメール本文と照合し、項目ごとの信頼度と問題の一覧を算出する処理を定義
+ */
+import { CardUsage, ExtractionValidation } from '@shared/domain/entities/CardUsage';
+
+export interface ICardUsageValidator {
+    /**
+     * 抽出したカード利用情報をメール本文と照合して検証
+     * @param cardUsage 抽出したカード利用情報
+     * @param body 抽出元のメール本文
+     * @returns 項目ごとの信頼度と問題の一覧
+     */
+    validate(cardUsage: CardUsage, body: string): ExtractionValidation;
+}
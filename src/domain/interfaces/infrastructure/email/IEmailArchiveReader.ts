@@ -0,0 +1,15 @@
+/**
+ * エクスポートされたメールファイルの読み込みを行うインターフェース
+ * .emlファイルやmbox形式のアーカイブを、1通ずつの生のメールデータに分割する処理を定義
+ */
+import { RawEmailMessage } from '@infrastructure/email/ImapEmailClient';
+
+export interface IEmailArchiveReader {
+    /**
+     * メールファイルを読み込み、1通ずつの生のメールデータに分割
+     * @param content ファイルの内容
+     * @param name ファイル名（取り込み結果でメールを識別するために使用）
+     * @returns 生のメールデータの配列（ファイル内の順）
+     */
+    read(content: Buffer, name: string): RawEmailMessage[];
+}
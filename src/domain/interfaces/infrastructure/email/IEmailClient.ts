@@ -4,6 +4,7 @@
  */
 import { EventEmitter } from 'events';
 import { RawEmailMessage } from '@infrastructure/email/ImapEmailClient';
+import { IImapAccessTokenProvider } from '@domain/interfaces/infrastructure/email/IImapAccessTokenProvider';
 
 export interface IImapConnectionConfig {
     host: string;
@@ -11,10 +12,23 @@ export interface IImapConnectionConfig {
     secure: boolean;
     auth: {
         user: string;
-        pass: string;
+        /** パスワード（アプリパスワード） */
+        pass?: string;
+        /** OAuth2（XOAUTH2）で認証する場合のアクセストークンの提供元。指定した場合はパスワードを使用しない */
+        accessTokenProvider?: IImapAccessTokenProvider;
     };
 }
 
+/**
+ * メールボックスのUID情報
+ */
+export interface ImapMailboxStatus {
+    /** UIDVALIDITY（変わった場合はUIDが振り直されている） */
+    uidValidity: string;
+    /** 次に割り当てられるUID */
+    uidNext: number;
+}
+
 export interface IEmailClient extends EventEmitter {
     /**
      * メールサーバーに接続する
@@ -23,6 +37,19 @@ export interface IEmailClient extends EventEmitter {
      */
     connect(mailboxName?: string): Promise<any>;
 
+    /**
+     * 現在開いているメールボックスのUID情報を取得する
+     * @returns UID情報（未接続の場合はnull）
+     */
+    getMailboxStatus(): ImapMailboxStatus | null;
+
+    /**
+     * 指定したUIDより後に届いたメッセージを取得する
+     * @param lastUid 処理済みの最大UID
+     * @returns UIDの昇順の配列
+     */
+    fetchMessageUidsAfter(lastUid: number): Promise<string[]>;
+
     /**
      * 未読メッセージを取得する
      * @returns 未読メッセージのUID配列
@@ -49,6 +76,13 @@ export interface IEmailClient extends EventEmitter {
      */
     isActive(): boolean;
 
+    /**
+     * IDLEによる新着通知が有効かどうか確認
+     * 有効な場合、新着メールの到着時に`newMail`イベントを発火する
+     * @returns 有効であればtrue
+     */
+    isIdleActive(): boolean;
+
     /**
      * 接続を閉じる
      */
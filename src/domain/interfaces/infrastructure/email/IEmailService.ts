@@ -27,4 +27,15 @@ export interface IEmailService {
         emailContent: string,
         cardCompany?: CardCompany
     ): Promise<CardUsage>;
+
+    /**
+     * メール本文からすべての利用明細のカード利用情報を抽出する
+     * @param emailContent メール本文
+     * @param cardCompany カード会社の種類
+     * @returns カード利用情報（最低1件）
+     */
+    parseCardUsagesFromEmail(
+        emailContent: string,
+        cardCompany?: CardCompany
+    ): Promise<CardUsage[]>;
 }
@@ -0,0 +1,19 @@
+/**
+ * IMAPのOAuth2（XOAUTH2）認証に使用するアクセストークンの提供を行うインターフェース
+ * アクセストークンの取得・更新を抽象化し、テストでは固定のトークンを返す実装に差し替えられるようにする
+ */
+export interface IImapAccessTokenProvider {
+    /**
+     * 有効なアクセストークンを取得する
+     * 有効期限が近い場合は更新したアクセストークンを返す
+     * @returns アクセストークン
+     * @throws {AppError} アクセストークンを取得できない場合
+     */
+    getAccessToken(): Promise<string>;
+
+    /**
+     * 保持しているアクセストークンを破棄し、次回の取得時に更新させる
+     * IMAPサーバーで認証に失敗した場合に呼び出す
+     */
+    invalidate(): void;
+}
@@ -0,0 +1,24 @@
+/**
+ * 受信Webhookのリクエストボディの解析を行うインターフェース
+ * RFC 822形式のメールそのもの、またはSendGrid・Mailgun形式のフォームから元のメールを取り出す処理を定義
+ */
+
+/**
+ * 受信Webhookのリクエストボディの解析結果
+ */
+export interface InboundEmailPayload {
+    /** フォームのフィールド（フォーム形式でない場合は空） */
+    fields: Record<string, string>;
+    /** 元のメール（RFC 822）。メールを取り出せない場合はnull */
+    source: Buffer | null;
+}
+
+export interface IInboundEmailPayloadParser {
+    /**
+     * リクエストボディを解析し、元のメールを取り出す
+     * @param body リクエストボディ
+     * @param contentType リクエストのContent-Type
+     * @returns 解析結果
+     */
+    parse(body: Buffer, contentType: string): InboundEmailPayload;
+}
@@ -0,0 +1,25 @@
+/**
+ * 受信Webhookのリクエストの署名検証を行うインターフェース
+ * 共有シークレットによる署名で、転送元が正当であることを確認する処理を定義
+ */
+
+/**
+ * リクエストヘッダーで指定された署名
+ */
+export interface InboundEmailSignatureHeaders {
+    /** 署名（X-Inbound-Signature） */
+    signature?: string;
+    /** 署名時刻のUNIX秒（X-Inbound-Timestamp） */
+    timestamp?: string;
+}
+
+export interface IInboundEmailSignatureVerifier {
+    /**
+     * リクエストの署名を検証
+     * @param body リクエストボディ
+     * @param headers リクエストヘッダーで指定された署名
+     * @param fields フォームのフィールド（Mailgun形式の署名はフィールドで指定される）
+     * @returns 署名が正しい場合true
+     */
+    verify(body: Buffer, headers: InboundEmailSignatureHeaders, fields: Record<string, string>): boolean;
+}
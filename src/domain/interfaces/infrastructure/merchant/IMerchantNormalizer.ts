@@ -0,0 +1,12 @@
+/**
+ * 利用先の正規化を行うインターフェース
+ * 表記の揺れ（全角・半角、カナ、決済代行の接頭辞）を除き、別名を統一した利用先を求める処理を定義
+ */
+export interface IMerchantNormalizer {
+    /**
+     * 利用先を正規化する
+     * @param whereToUse メールなどに記載された元の利用先
+     * @returns 正規化した利用先（別名に一致した場合は統一後の利用先）
+     */
+    normalize(whereToUse: string): Promise<string>;
+}
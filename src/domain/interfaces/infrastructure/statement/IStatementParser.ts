@@ -0,0 +1,37 @@
+/**
+ * カード会社の利用明細CSVの解析を行うインターフェース
+ * Webサイトからダウンロードした利用明細CSVを、利用明細の行に変換する処理を定義
+ */
+import { CardCompany } from '@domain/enums/CardCompany';
+
+/**
+ * 利用明細CSVの1行分の利用明細
+ */
+export interface StatementLine {
+    /** CSV上の行番号（1始まり） */
+    lineNumber: number;
+
+    /** 利用日（YYYY-MM-DD） */
+    date: string;
+
+    /** 利用金額（円。取消・返金の場合は負の値） */
+    amount: number;
+
+    /** 利用先 */
+    merchant: string;
+}
+
+export interface IStatementParser {
+    /**
+     * 対応するカード会社
+     */
+    readonly cardCompany: CardCompany;
+
+    /**
+     * 利用明細CSVを解析
+     * 利用日または金額を読み取れない行（見出しや合計行など）は除く
+     * @param content CSVファイルの内容（Shift_JISまたはUTF-8）
+     * @returns 利用明細の配列（CSV上の順）
+     */
+    parse(content: Buffer): StatementLine[];
+}
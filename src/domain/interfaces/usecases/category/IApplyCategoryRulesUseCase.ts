@@ -0,0 +1,45 @@
+/**
+ * 自動分類のルールでカテゴリを更新したカード利用情報
+ */
+export interface CategoryRuleChange {
+  /** カード利用情報のパス */
+  path: string;
+  /** 元の利用先 */
+  whereToUse: string;
+  /** 更新前のカテゴリ（未設定の場合はundefined） */
+  previous?: string;
+  /** 更新後のカテゴリ */
+  category: string;
+}
+
+/**
+ * 自動分類のルールの再適用の結果
+ */
+export interface CategoryRuleApplyResult {
+  /** 対象期間の開始日（YYYY-MM-DD） */
+  from: string;
+  /** 対象期間の終了日（YYYY-MM-DD） */
+  to: string;
+  /** 対象期間のカード利用情報の件数 */
+  total: number;
+  /** 手動でカテゴリを設定しているため変更しなかった件数 */
+  skipped: number;
+  /** カテゴリが変わったカード利用情報（dryRunの場合は更新していない） */
+  changes: CategoryRuleChange[];
+}
+
+/**
+ * 自動分類のルールの再適用のユースケースインターフェース
+ * ルールを変更した後に、保存済みのカード利用情報のカテゴリをルールで割り当て直す処理を定義
+ */
+export interface IApplyCategoryRulesUseCase {
+  /**
+   * 指定された期間のカード利用情報に自動分類のルールを再適用する
+   * 手動でカテゴリを設定したカード利用情報は変更しない
+   * @param from 開始日（YYYY-MM-DD）
+   * @param to 終了日（YYYY-MM-DD。この日を含む）
+   * @param dryRun trueの場合は更新せずに結果のみを返す
+   * @returns 再適用の結果
+   */
+  execute(from: string, to: string, dryRun?: boolean): Promise<CategoryRuleApplyResult>;
+}
@@ -0,0 +1,40 @@
+/**
+ * 正規化した利用先を更新したカード利用情報
+ */
+export interface MerchantBackfillChange {
+  /** カード利用情報のパス */
+  path: string;
+  /** 元の利用先 */
+  whereToUse: string;
+  /** 更新前の正規化した利用先（未設定の場合はundefined） */
+  previous?: string;
+  /** 更新後の正規化した利用先 */
+  merchant: string;
+}
+
+/**
+ * 正規化した利用先の一括更新の結果
+ */
+export interface MerchantBackfillResult {
+  year: string;
+  month: string;
+  /** 対象のカード利用情報の件数 */
+  total: number;
+  /** 正規化した利用先が変わったカード利用情報（dryRunの場合は更新していない） */
+  changes: MerchantBackfillChange[];
+}
+
+/**
+ * 正規化した利用先の一括更新のユースケースインターフェース
+ * 正規化の導入前に保存された利用情報や、別名の変更を保存済みの利用情報に反映する処理を定義
+ */
+export interface IBackfillMerchantUseCase {
+  /**
+   * 指定された年月のカード利用情報の正規化した利用先を、現在の正規化と別名で更新する
+   * @param year 年
+   * @param month 月
+   * @param dryRun trueの場合は更新せずに結果のみを返す
+   * @returns 更新の結果
+   */
+  execute(year: string, month: string, dryRun?: boolean): Promise<MerchantBackfillResult>;
+}
@@ -0,0 +1,73 @@
+import { CardUsage } from '@shared/domain/entities/CardUsage';
+
+/**
+ * 保存済みのカード利用情報（IDとパス情報を含む）
+ */
+export type StoredCardUsage = CardUsage & { id: string, path: string };
+
+/**
+ * 保存前の重複チェックの結果
+ */
+export interface DuplicateCheckResult {
+  /** 保存するカード利用情報（重複の疑いがある場合はduplicate_ofを設定済み） */
+  cardUsage: CardUsage;
+  /** 重複の疑いがある保存済みのカード利用情報（ない場合はnull） */
+  duplicateOf: StoredCardUsage | null;
+  /** 保存せずにスキップするかどうか */
+  skip: boolean;
+}
+
+/**
+ * 重複の疑いがあるカード利用情報の組
+ */
+export interface DuplicateCardUsagePair {
+  /** 重複判定に使用したフィンガープリント（カード名・金額・利用先） */
+  fingerprint: string;
+  /** 先に利用された方のカード利用情報 */
+  original: StoredCardUsage;
+  /** 後に利用された方のカード利用情報 */
+  duplicate: StoredCardUsage;
+  /** 利用日時の差（分） */
+  minutesApart: number;
+}
+
+/**
+ * 重複の統合結果
+ */
+export interface MergeDuplicateResult {
+  /** 残したカード利用情報 */
+  kept: StoredCardUsage;
+  /** 論理削除したカード利用情報のIDとパス */
+  removed: { id: string, path: string };
+}
+
+/**
+ * カード利用情報の重複検出のユースケースインターフェース
+ * メールの再送や手動登録などで同じ利用が複数回登録されるのを検出・統合する処理を定義
+ */
+export interface ICardUsageDuplicateUseCase {
+  /**
+   * 保存前に、重複の疑いがある保存済みのカード利用情報を検索する
+   * カード名・金額・利用先が同じで、利用日時の差が一定時間内のものを重複の疑いとする
+   * @param cardUsage 保存するカード利用情報
+   * @returns 重複チェックの結果
+   */
+  check(cardUsage: CardUsage): Promise<DuplicateCheckResult>;
+
+  /**
+   * 指定された年月の、重複の疑いがあるカード利用情報の組を取得する
+   * @param year 年
+   * @param month 月
+   * @returns 重複の疑いがある組（利用日時の順）
+   */
+  getDuplicates(year: string, month: string): Promise<DuplicateCardUsagePair[]>;
+
+  /**
+   * 重複したカード利用情報を統合する
+   * 残す方に未設定のメモ・利用先を補い、もう一方を論理削除する
+   * @param keepId 残すカード利用情報のID
+   * @param duplicateId 論理削除するカード利用情報のID
+   * @returns 統合結果
+   */
+  merge(keepId: string, duplicateId: string): Promise<MergeDuplicateResult>;
+}
@@ -0,0 +1,52 @@
+import { CardCompany } from '@domain/enums/CardCompany';
+import { ParsedEmail } from '@infrastructure/email/EmailParser';
+import { ProcessedCardUsage } from '@domain/interfaces/usecases/email/IProcessEmailUseCase';
+import { DeadLetter, DeadLetterStatus } from '@shared/domain/entities/DeadLetter';
+
+/**
+ * デッドレターの再処理結果
+ */
+export interface DeadLetterRetryResult {
+  deadLetter: DeadLetter;
+  usageResults: ProcessedCardUsage[];
+}
+
+/**
+ * デッドレターのユースケースインターフェース
+ * 解析・保存に失敗したメールの登録、参照、再処理、破棄を定義
+ */
+export interface IDeadLetterUseCase {
+  /**
+   * 処理に失敗したメールをデッドレターとして登録し、Discordに通知する
+   * @param email 処理に失敗したメール
+   * @param cardCompany 判定されたカード会社
+   * @param error 発生したエラー
+   * @returns 登録されたデッドレター
+   */
+  record(email: ParsedEmail, cardCompany: CardCompany | null, error: unknown): Promise<DeadLetter>;
+
+  /**
+   * デッドレターを新しい順に取得する
+   * @param status 絞り込む状態（省略時はすべて）
+   */
+  getDeadLetters(status?: DeadLetterStatus): Promise<DeadLetter[]>;
+
+  /**
+   * デッドレターを取得する
+   * @param id デッドレターのID
+   */
+  getDeadLetter(id: string): Promise<DeadLetter>;
+
+  /**
+   * 現在のパーサーでデッドレターを再処理する
+   * 保存に成功した場合は利用通知を行い、デッドレターを解決済みにする
+   * @param id デッドレターのID
+   */
+  retry(id: string): Promise<DeadLetterRetryResult>;
+
+  /**
+   * デッドレターを破棄する
+   * @param id デッドレターのID
+   */
+  discard(id: string): Promise<DeadLetter>;
+}
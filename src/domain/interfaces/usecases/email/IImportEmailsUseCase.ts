@@ -0,0 +1,57 @@
+import { CardCompany } from '@domain/enums/CardCompany';
+
+/**
+ * 取り込むメールファイル（.emlまたはmbox）
+ */
+export interface EmailArchive {
+  name: string;
+  content: Buffer;
+}
+
+/**
+ * メール1通ごとの取り込み状態
+ * - created: カード利用情報を登録した（登録済みの明細を含む場合は、未登録の明細のみ登録した）
+ * - skipped: すべての明細が登録済み、またはカード会社を特定できないメールのため登録しなかった
+ * - failed: 解析・保存に失敗した（保存に失敗したメールはデッドレターに登録される）
+ */
+export type ImportedEmailStatus = 'created' | 'skipped' | 'failed';
+
+/**
+ * メール1通ごとの取り込み結果
+ */
+export interface ImportedEmailResult {
+  /** 取り込み元（「import:ファイル名#通番」） */
+  source: string;
+  subject?: string;
+  receivedAt?: string;
+  status: ImportedEmailStatus;
+  cardCompany: CardCompany | null;
+  reason?: string;
+  savedPaths?: string[];
+  deadLetterId?: string;
+}
+
+/**
+ * メールの取り込み結果
+ */
+export interface ImportEmailsResult {
+  total: number;
+  created: number;
+  skipped: number;
+  failed: number;
+  items: ImportedEmailResult[];
+}
+
+/**
+ * メール取り込みのユースケースインターフェース
+ * エクスポートされた過去のメールからカード利用情報を登録する処理を定義
+ */
+export interface IImportEmailsUseCase {
+  /**
+   * .emlファイルやmbox形式のアーカイブに含まれるメールを取り込む
+   * 登録済みの利用明細は明細ごとにスキップし、利用通知は行わない
+   * @param archives 取り込むメールファイル
+   * @returns 取り込み結果の集計とメールごとの結果
+   */
+  execute(archives: EmailArchive[]): Promise<ImportEmailsResult>;
+}
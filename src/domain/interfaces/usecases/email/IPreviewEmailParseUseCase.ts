@@ -0,0 +1,69 @@
+import { CardCompany } from '@domain/enums/CardCompany';
+import { CardIssuerDetectionResult } from '@domain/interfaces/infrastructure/email/ICardIssuerParser';
+import { CardUsageNotificationDTO } from '@shared/domain/dto/CardUsageNotificationDTO';
+import { CardUsageStatus, ExtractionValidation } from '@shared/domain/entities/CardUsage';
+
+/**
+ * 解析を試すメール
+ * 元のメール（RFC 822）か、メール本文のどちらかを指定する
+ */
+export interface PreviewEmailInput {
+  /** 元のメール（RFC 822） */
+  source?: Buffer;
+  /** メール本文（元のメールを指定しない場合） */
+  body?: string;
+  /** 件名（メール本文を指定した場合のカード会社判定に使用） */
+  subject?: string;
+  /** 送信元（メール本文を指定した場合のカード会社判定に使用） */
+  from?: string;
+  /** カード会社の指定（省略時はメールから判定する） */
+  cardCompany?: string;
+}
+
+/**
+ * カード会社ごとの判定結果
+ */
+export interface PreviewDetection extends CardIssuerDetectionResult {
+  cardCompany: CardCompany;
+}
+
+/**
+ * 抽出された利用明細ごとの結果
+ */
+export interface PreviewCardUsage {
+  usage: CardUsageNotificationDTO;
+  validation: ExtractionValidation;
+  /** 保存した場合の状態（信頼度がしきい値未満の場合はpending_review） */
+  status: CardUsageStatus;
+}
+
+/**
+ * 解析プレビューの結果
+ */
+export interface PreviewEmailParseResult {
+  subject: string;
+  from: string;
+  /** 解析に使用したカード会社（特定できない場合はnull） */
+  cardCompany: CardCompany | null;
+  /** カード会社の特定方法（指定・送信元・キーワード） */
+  resolvedBy: 'hint' | 'sender' | 'keywords' | null;
+  /** 判定ルールに一致したカード会社ごとの判定結果 */
+  detections: PreviewDetection[];
+  usages: PreviewCardUsage[];
+  /** 抽出に失敗した場合のエラーメッセージ */
+  error?: string;
+}
+
+/**
+ * 解析プレビューのユースケースインターフェース
+ * 保存や通知を行わずにメールの解析結果を確認する処理を定義
+ */
+export interface IPreviewEmailParseUseCase {
+  /**
+   * メールからカード会社を判定してカード利用情報を抽出し、検証結果とともに返す
+   * Firestoreへの保存やDiscordへの通知は行わない
+   * @param input 解析を試すメール
+   * @returns 判定結果と抽出結果
+   */
+  execute(input: PreviewEmailInput): Promise<PreviewEmailParseResult>;
+}
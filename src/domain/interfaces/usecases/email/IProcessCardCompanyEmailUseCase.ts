@@ -1,16 +1,18 @@
 import { CardCompany } from '@domain/enums/CardCompany';
 import { ParsedEmail } from '@infrastructure/email/EmailParser';
-import { CardUsageNotificationDTO } from '@shared/domain/dto/CardUsageNotificationDTO';
+import { ProcessedCardUsage, ProcessEmailOptions } from '@domain/interfaces/usecases/email/IProcessEmailUseCase';
 
 export interface IProcessCardCompanyEmailUseCase {
   /**
    * メールからカード会社情報を判定し、カード利用情報を処理する
+   * 1通に複数件の利用明細を含む場合、usageResultsに明細ごとの結果が格納される
+   * 抽出・保存に失敗した場合はデッドレターに登録され、deadLetterIdが格納される
+   * @param email 解析済みのメール
+   * @param options メール処理のオプション（過去のメールの取り込みの場合はimportedを指定する）
    */
-  execute(email: ParsedEmail): Promise<{
+  execute(email: ParsedEmail, options?: ProcessEmailOptions): Promise<{
     cardCompany: CardCompany | null;
-    usageResult?: {
-      usage: CardUsageNotificationDTO;
-      savedPath: string;
-    };
+    usageResults?: ProcessedCardUsage[];
+    deadLetterId?: string;
   }>;
 }
@@ -1,6 +1,22 @@
 import { CardUsageNotificationDTO } from '@shared/domain/dto/CardUsageNotificationDTO';
 import { CardCompany } from '@domain/enums/CardCompany';
 
+/**
+ * 保存済みのカード利用情報
+ */
+export interface ProcessedCardUsage {
+  usage: CardUsageNotificationDTO;
+  savedPath: string;
+}
+
+/**
+ * メール処理のオプション
+ */
+export interface ProcessEmailOptions {
+  // 過去のメールの取り込みかどうか（保存するカード利用情報にimportedを設定し、アラートの対象外とする）
+  imported?: boolean;
+}
+
 /**
  * メール処理のユースケースインターフェース
  * メール本文からカード利用情報を抽出・保存する責務を定義
@@ -8,14 +24,20 @@ import { CardCompany } from '@domain/enums/CardCompany';
 export interface IProcessEmailUseCase {
   /**
    * メール本文を処理してカード利用情報を抽出・保存する
+   * 1通に複数件の利用明細を含む場合は、明細ごとに保存する
+   * 登録済みの利用と重複するため保存しなかった明細は結果に含まない
    * @param emailBody メール本文
    * @param cardCompany カード会社の種類
-   * @returns 処理されたカード利用情報と保存パス
+   * @param messageId 元のメールのMessage-ID（同じメールの再送の判定に使用する）
+   * @param options メール処理のオプション
+   * @returns 処理されたカード利用情報と保存パス（明細の順）
    */
-  execute(emailBody: string, cardCompany: CardCompany): Promise<{
-    usage: CardUsageNotificationDTO,
-    savedPath: string
-  }>;
+  execute(
+    emailBody: string,
+    cardCompany: CardCompany,
+    messageId?: string,
+    options?: ProcessEmailOptions
+  ): Promise<ProcessedCardUsage[]>;
 
   /**
    * サンプルメールでのテスト実行
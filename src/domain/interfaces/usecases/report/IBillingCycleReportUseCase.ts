@@ -0,0 +1,15 @@
+import { BillingCycleReport } from '@shared/domain/entities/Reports';
+
+/**
+ * 請求サイクルのレポートのユースケースインターフェース
+ * 登録済みのカードの締め日・支払日から、支払日に請求される金額を集計する処理を定義
+ */
+export interface IBillingCycleReportUseCase {
+  /**
+   * カードの請求サイクルのレポートを作成する
+   * @param cardName 登録済みのカードのカード名
+   * @param cycle 請求サイクル（支払月、YYYY-MM）
+   * @returns 請求サイクルのレポート
+   */
+  execute(cardName: string, cycle: string): Promise<BillingCycleReport>;
+}
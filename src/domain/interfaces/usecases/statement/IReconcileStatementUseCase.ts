@@ -0,0 +1,92 @@
+import { CardCompany } from '@domain/enums/CardCompany';
+import { StatementLine } from '@domain/interfaces/infrastructure/statement/IStatementParser';
+
+/**
+ * 利用明細との照合に使用する登録済みのカード利用情報
+ */
+export interface ReconciledCardUsage {
+  id: string;
+  path: string;
+  card_name: string;
+  datetime_of_use: string;
+  amount: number;
+  where_to_use: string;
+}
+
+/**
+ * 利用明細と登録済みのカード利用情報で一致しなかった項目
+ */
+export type StatementDifference = 'date' | 'amount' | 'merchant';
+
+/**
+ * 一部の項目だけが一致した利用明細とカード利用情報の組
+ */
+export interface MismatchedStatementEntry {
+  line: StatementLine;
+  usage: ReconciledCardUsage;
+  differences: StatementDifference[];
+}
+
+/**
+ * 登録されていなかった利用明細
+ * 登録した場合は保存先のパスを、登録済みの利用と重複の疑いがある場合はそのパスを含む
+ */
+export interface MissingStatementEntry {
+  line: StatementLine;
+  savedPath?: string;
+  duplicateOf?: string;
+}
+
+/**
+ * 利用明細の照合オプション
+ */
+export interface ReconcileStatementOptions {
+  /** 照合するカード名（部分一致。省略時はすべてのカードの利用情報と照合する） */
+  cardName?: string;
+
+  /** 登録されていなかった利用明細をカード利用情報として登録するか */
+  createMissing?: boolean;
+
+  /**
+   * 登録するカード利用情報のカード名（完全一致で保存するカード名）
+   * 省略時は、利用明細と組み合わせた登録済みのカード利用情報で最も多いカード名を使用する
+   */
+  createCardName?: string;
+}
+
+/**
+ * 利用明細の照合結果
+ * - matched: 利用日・金額・利用先が一致した件数
+ * - missing: 利用明細にあり、カード利用情報が登録されていないもの
+ * - extra: カード利用情報が登録されているが、利用明細にないもの（利用明細の期間内のみ）
+ * - mismatched: 利用日・金額・利用先のうち一部だけが一致したもの
+ */
+export interface StatementReconciliationResult {
+  cardCompany: CardCompany;
+  period: { start: string; end: string };
+  total: number;
+  matched: number;
+  created: number;
+  missing: MissingStatementEntry[];
+  extra: ReconciledCardUsage[];
+  mismatched: MismatchedStatementEntry[];
+}
+
+/**
+ * 利用明細照合のユースケースインターフェース
+ * カード会社の利用明細CSVと、メールから登録したカード利用情報を照合する処理を定義
+ */
+export interface IReconcileStatementUseCase {
+  /**
+   * 利用明細CSVを登録済みのカード利用情報と照合する
+   * @param cardCompany 利用明細のカード会社
+   * @param content 利用明細CSVの内容
+   * @param options 照合オプション
+   * @returns 照合結果
+   */
+  execute(
+    cardCompany: CardCompany,
+    content: Buffer,
+    options?: ReconcileStatementOptions
+  ): Promise<StatementReconciliationResult>;
+}
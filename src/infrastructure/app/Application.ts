@@ -3,6 +3,7 @@ import { HttpAppConfig } from '@infrastructure/config/HttpAppConfig';
 import { DependencyContainer } from '@infrastructure/config/DependencyContainer';
 import { TestRunner } from '@infrastructure/test/TestRunner';
 import { logger } from '@shared/infrastructure/logging/Logger';
+import { Environment } from '@shared/infrastructure/config/Environment';
 import { CardCompany } from '@domain/enums/CardCompany';
 import { IApplication } from '@domain/interfaces/infrastructure/app/IApplication';
 import { ErrorHandler } from '@shared/infrastructure/errors/ErrorHandler';
@@ -72,11 +73,16 @@ export class Application implements IApplication {
     defaultMessage: '通常モードの実行に失敗しました',
   })
   public async runInNormalMode(): Promise<void> {
-    logger.info('メール監視モードで実行しています...', 'App');
-
-    // すべてのメールボックス（三菱UFJ銀行、三井住友カード）を監視
-    const emailController = this.dependencyContainer.getEmailController();
-    await emailController.startAllMonitoring();
+    if (Environment.isImapSourceEnabled()) {
+      logger.info('メール監視モードで実行しています...', 'App');
+
+      // すべてのメールボックス（三菱UFJ銀行、三井住友カード）を監視
+      const emailController = this.dependencyContainer.getEmailController();
+      await emailController.startAllMonitoring();
+    } else {
+      // メールは受信Webhookで受け取るため、IMAPの接続を維持しない
+      logger.info('IMAPによるメール監視は無効です。受信Webhookでメールを受け付けます', 'App');
+    }
 
     // プロセス終了時のクリーンアップ
     this.setupShutdownHooks();
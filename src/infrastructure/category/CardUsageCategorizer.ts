@@ -0,0 +1,86 @@
+import { ICardUsageCategorizer } from '@domain/interfaces/infrastructure/category/ICardUsageCategorizer';
+import { IConfigRepository } from '@shared/domain/interfaces/database/repositories/IConfigRepository';
+import { CardUsage } from '@shared/domain/entities/CardUsage';
+import { CategoryRule, DEFAULT_CATEGORIES, UNCATEGORIZED_CATEGORY_ID } from '@shared/domain/entities/Category';
+import { logger } from '@shared/infrastructure/logging/Logger';
+
+/**
+ * カード利用情報の自動分類を行うクラス
+ * Firestoreの自動分類のルール（config/categories）を順に評価し、最初に一致したルールのカテゴリを割り当てる
+ */
+export class CardUsageCategorizer implements ICardUsageCategorizer {
+  private readonly serviceContext = 'CardUsageCategorizer';
+
+  /**
+   * コンストラクタ
+   * @param configRepository 設定情報リポジトリ（省略時はルールを使用せず、既定のカテゴリのみとする）
+   */
+  constructor(private readonly configRepository?: IConfigRepository) { }
+
+  /**
+   * カード利用情報を分類する
+   * ルールを取得できない場合は、未分類としてカード利用情報の保存を継続する
+   */
+  async categorize(cardUsage: CardUsage): Promise<string> {
+    try {
+      return this.match(cardUsage, await this.getRules());
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn(`自動分類のルールを取得できなかったため、未分類とします: ${message}`, this.serviceContext);
+      return UNCATEGORIZED_CATEGORY_ID;
+    }
+  }
+
+  /**
+   * 自動分類のルールを取得する
+   */
+  async getRules(): Promise<CategoryRule[]> {
+    if (!this.configRepository) {
+      return [];
+    }
+    return (await this.configRepository.getCategoryConfig()).rules;
+  }
+
+  /**
+   * 指定したルールでカード利用情報を分類する（先に一致したルールを使用する）
+   */
+  match(cardUsage: CardUsage, rules: CategoryRule[]): string {
+    const rule = rules.find((candidate) => this.matchesRule(cardUsage, candidate));
+    return rule ? rule.category : UNCATEGORIZED_CATEGORY_ID;
+  }
+
+  /**
+   * 支出カテゴリが登録済みかどうかを確認する
+   */
+  async hasCategory(categoryId: string): Promise<boolean> {
+    const categories = this.configRepository ?
+      (await this.configRepository.getCategoryConfig()).categories :
+      DEFAULT_CATEGORIES;
+    return categories.some((category) => category.id === categoryId);
+  }
+
+  /**
+   * カード利用情報がルールの条件をすべて満たすかどうか
+   * 利用先は正規化した利用先（未設定の場合は元の利用先）、金額は取消・返金も絶対値で比較する
+   */
+  private matchesRule(cardUsage: CardUsage, rule: CategoryRule): boolean {
+    if (rule.merchantPattern !== undefined &&
+      !new RegExp(rule.merchantPattern, 'i').test(cardUsage.merchant ?? cardUsage.where_to_use ?? '')) {
+      return false;
+    }
+
+    if (rule.cardName !== undefined && !(cardUsage.card_name ?? '').includes(rule.cardName)) {
+      return false;
+    }
+
+    const amount = Math.abs(cardUsage.amount);
+    if (rule.minAmount !== undefined && amount < rule.minAmount) {
+      return false;
+    }
+    if (rule.maxAmount !== undefined && amount > rule.maxAmount) {
+      return false;
+    }
+
+    return true;
+  }
+}
@@ -1,14 +1,48 @@
 import { ImapEmailService } from '@infrastructure/email/ImapEmailService';
+import { CardIssuerParserRegistry } from '@infrastructure/email/issuers/CardIssuerParserRegistry';
+import { MufgIssuerParser } from '@infrastructure/email/issuers/MufgIssuerParser';
+import { SmbcIssuerParser } from '@infrastructure/email/issuers/SmbcIssuerParser';
+import { RakutenIssuerParser } from '@infrastructure/email/issuers/RakutenIssuerParser';
+import { JcbIssuerParser } from '@infrastructure/email/issuers/JcbIssuerParser';
+import { AeonIssuerParser } from '@infrastructure/email/issuers/AeonIssuerParser';
+import { EposIssuerParser } from '@infrastructure/email/issuers/EposIssuerParser';
+import { IssuerTemplateLoader } from '@infrastructure/email/issuers/IssuerTemplateLoader';
+import { FirestoreConfigRepository } from '@shared/infrastructure/database/repositories/FirestoreConfigRepository';
+import { ErrorHandler } from '@shared/infrastructure/errors/ErrorHandler';
 import { FirestoreCardUsageRepository } from '@infrastructure/database/repositories/FirestoreCardUsageRepository';
+import { FirestoreImapStateRepository } from '@infrastructure/database/repositories/FirestoreImapStateRepository';
+import { FirestoreDeadLetterRepository } from '@infrastructure/database/repositories/FirestoreDeadLetterRepository';
 import { DiscordNotifier } from '@shared/infrastructure/discord/DiscordNotifier';
 import { ProcessEmailUseCase } from '@usecase/email/ProcessEmailUseCase';
 import { ProcessCardCompanyEmailUseCase } from '@usecase/email/ProcessCardCompanyEmailUseCase';
+import { DeadLetterUseCase } from '@usecase/email/DeadLetterUseCase';
+import { ImportEmailsUseCase } from '@usecase/email/ImportEmailsUseCase';
+import { PreviewEmailParseUseCase } from '@usecase/email/PreviewEmailParseUseCase';
+import { ReconcileStatementUseCase } from '@usecase/statement/ReconcileStatementUseCase';
+import { CardUsageDuplicateUseCase } from '@usecase/database/CardUsageDuplicateUseCase';
+import { BackfillMerchantUseCase } from '@usecase/database/BackfillMerchantUseCase';
+import { CardUsageValidator } from '@infrastructure/email/CardUsageValidator';
+import { MerchantNormalizer } from '@infrastructure/merchant/MerchantNormalizer';
+import { CardUsageCategorizer } from '@infrastructure/category/CardUsageCategorizer';
+import { ApplyCategoryRulesUseCase } from '@usecase/category/ApplyCategoryRulesUseCase';
+import {
+  MUFG_STATEMENT_COLUMNS,
+  SMBC_STATEMENT_COLUMNS,
+  StatementCsvParser,
+} from '@infrastructure/statement/StatementCsvParser';
 import { NotifyCardUsageUseCase } from '@usecase/notification/NotifyCardUsageUseCase';
 import { EmailController } from '@presentation/email/controllers/EmailController';
 import { Environment } from '@shared/infrastructure/config/Environment';
 import { logger } from '@shared/infrastructure/logging/Logger';
 import { IProcessCardCompanyEmailUseCase } from '@domain/interfaces/usecases/email/IProcessCardCompanyEmailUseCase';
 import { INotifyCardUsageUseCase } from '@domain/interfaces/usecases/notification/INotifyCardUsageUseCase';
+import { IDeadLetterUseCase } from '@domain/interfaces/usecases/email/IDeadLetterUseCase';
+import { IImportEmailsUseCase } from '@domain/interfaces/usecases/email/IImportEmailsUseCase';
+import { IPreviewEmailParseUseCase } from '@domain/interfaces/usecases/email/IPreviewEmailParseUseCase';
+import { IReconcileStatementUseCase } from '@domain/interfaces/usecases/statement/IReconcileStatementUseCase';
+import { IBackfillMerchantUseCase } from '@domain/interfaces/usecases/database/IBackfillMerchantUseCase';
+import { IApplyCategoryRulesUseCase } from '@domain/interfaces/usecases/category/IApplyCategoryRulesUseCase';
+import { CardCompany } from '@domain/enums/CardCompany';
 import { IDependencyContainer } from '@domain/interfaces/infrastructure/config/IDependencyContainer';
 
 /**
@@ -16,11 +50,24 @@ import { IDependencyContainer } from '@domain/interfaces/infrastructure/config/I
  * 各サービス、リポジトリ、ユースケース、コントローラーの初期化と提供を担当
  */
 export class DependencyContainer implements IDependencyContainer {
+  private cardIssuerParserRegistry: CardIssuerParserRegistry;
+  private configRepository: FirestoreConfigRepository;
+  private issuerTemplateLoader: IssuerTemplateLoader;
+  private merchantNormalizer: MerchantNormalizer;
+  private cardUsageCategorizer: CardUsageCategorizer;
   private emailService: ImapEmailService;
   private cardUsageRepository: FirestoreCardUsageRepository;
+  private imapStateRepository: FirestoreImapStateRepository;
+  private deadLetterRepository: FirestoreDeadLetterRepository;
   private discordNotifier: DiscordNotifier;
   private processEmailUseCase: ProcessEmailUseCase;
   private processCardCompanyEmailUseCase: ProcessCardCompanyEmailUseCase;
+  private deadLetterUseCase: DeadLetterUseCase;
+  private importEmailsUseCase: ImportEmailsUseCase;
+  private previewEmailParseUseCase: PreviewEmailParseUseCase;
+  private reconcileStatementUseCase: ReconcileStatementUseCase;
+  private backfillMerchantUseCase: BackfillMerchantUseCase;
+  private applyCategoryRulesUseCase: ApplyCategoryRulesUseCase;
   private notifyCardUsageUseCase: NotifyCardUsageUseCase;
   private cardUsage;
   private emailController: EmailController;
@@ -39,21 +86,61 @@ export class DependencyContainer implements IDependencyContainer {
     // loggerにDiscordNotifierを設定
     logger.setDiscordNotifier(this.discordNotifier);
 
+    // カード会社パーサーの登録（カード会社を追加する場合はここにパーサーを登録する）
+    this.cardIssuerParserRegistry = new CardIssuerParserRegistry();
+    this.cardIssuerParserRegistry.register(new MufgIssuerParser());
+    this.cardIssuerParserRegistry.register(new SmbcIssuerParser());
+    this.cardIssuerParserRegistry.register(new RakutenIssuerParser());
+    this.cardIssuerParserRegistry.register(new JcbIssuerParser());
+    this.cardIssuerParserRegistry.register(new AeonIssuerParser());
+    this.cardIssuerParserRegistry.register(new EposIssuerParser());
+
+    // Firestoreのカード会社テンプレートを反映（組み込みパーサーより優先）
+    this.configRepository = new FirestoreConfigRepository();
+    this.issuerTemplateLoader = new IssuerTemplateLoader(this.configRepository, this.cardIssuerParserRegistry);
+    try {
+      const count = await this.issuerTemplateLoader.load();
+      logger.updateServiceStatus('IssuerTemplateLoader', 'online', `テンプレート${count}件を反映`);
+    } catch (error) {
+      // テンプレートを読み込めない場合も組み込みパーサーで処理を継続する
+      await ErrorHandler.handle(error, 'DependencyContainer', {
+        defaultMessage: 'カード会社テンプレートを読み込めませんでした。組み込みパーサーのみで起動します',
+        suppressNotification: true,
+      });
+      logger.updateServiceStatus('IssuerTemplateLoader', 'error', 'テンプレートの読み込みに失敗');
+    }
+
+    // 利用先の正規化（Firestoreの別名を使用する）
+    this.merchantNormalizer = new MerchantNormalizer(this.configRepository);
+
+    // カード利用情報の自動分類（Firestoreのルールを使用する）
+    this.cardUsageCategorizer = new CardUsageCategorizer(this.configRepository);
+
     // インフラストラクチャレイヤーの初期化
+    this.imapStateRepository = new FirestoreImapStateRepository();
     this.emailService = new ImapEmailService(
       Environment.IMAP_SERVER,
       Environment.IMAP_USER,
-      Environment.IMAP_PASSWORD
+      Environment.IMAP_PASSWORD,
+      this.cardIssuerParserRegistry,
+      this.imapStateRepository
     );
 
     this.cardUsageRepository = new FirestoreCardUsageRepository();
     await this.cardUsageRepository.initialize();
     logger.updateServiceStatus('FirestoreRepository', 'online', '初期化完了');
 
+    this.deadLetterRepository = new FirestoreDeadLetterRepository();
+
     // ユースケースレイヤーの初期化
     this.processEmailUseCase = new ProcessEmailUseCase(
       this.emailService,
-      this.cardUsageRepository
+      this.cardUsageRepository,
+      new CardUsageValidator(),
+      Environment.EXTRACTION_CONFIDENCE_THRESHOLD,
+      new CardUsageDuplicateUseCase(this.cardUsageRepository),
+      this.merchantNormalizer,
+      this.cardUsageCategorizer
     );
     logger.updateServiceStatus('ProcessEmailUseCase', 'online', '初期化完了');
 
@@ -61,19 +148,83 @@ export class DependencyContainer implements IDependencyContainer {
     this.notifyCardUsageUseCase = new NotifyCardUsageUseCase(this.discordNotifier);
     logger.updateServiceStatus('NotifyCardUsageUseCase', 'online', '初期化完了');
 
+    this.deadLetterUseCase = new DeadLetterUseCase(
+      this.deadLetterRepository,
+      this.processEmailUseCase,
+      this.notifyCardUsageUseCase,
+      this.cardIssuerParserRegistry
+    );
+    logger.updateServiceStatus('DeadLetterUseCase', 'online', '初期化完了');
+
     this.processCardCompanyEmailUseCase = new ProcessCardCompanyEmailUseCase(
-      this.processEmailUseCase
+      this.processEmailUseCase,
+      this.cardIssuerParserRegistry,
+      this.deadLetterUseCase
     );
     logger.updateServiceStatus('ProcessCardCompanyEmailUseCase', 'online', '初期化完了');
 
+    this.importEmailsUseCase = new ImportEmailsUseCase(
+      this.processCardCompanyEmailUseCase,
+      this.cardIssuerParserRegistry
+    );
+    logger.updateServiceStatus('ImportEmailsUseCase', 'online', '初期化完了');
+
+    this.previewEmailParseUseCase = new PreviewEmailParseUseCase(this.cardIssuerParserRegistry);
+    logger.updateServiceStatus('PreviewEmailParseUseCase', 'online', '初期化完了');
+
+    // 利用明細CSVのパーサーの登録（カード会社ごとの列の対応を指定する）
+    this.reconcileStatementUseCase = new ReconcileStatementUseCase(
+      [
+        new StatementCsvParser(CardCompany.MUFG, MUFG_STATEMENT_COLUMNS),
+        new StatementCsvParser(CardCompany.SMBC, SMBC_STATEMENT_COLUMNS),
+      ],
+      this.cardUsageRepository,
+      this.merchantNormalizer,
+      this.cardUsageCategorizer,
+      new CardUsageDuplicateUseCase(this.cardUsageRepository)
+    );
+    logger.updateServiceStatus('ReconcileStatementUseCase', 'online', '初期化完了');
+
+    this.backfillMerchantUseCase = new BackfillMerchantUseCase(this.cardUsageRepository, this.merchantNormalizer);
+    logger.updateServiceStatus('BackfillMerchantUseCase', 'online', '初期化完了');
+
+    this.applyCategoryRulesUseCase = new ApplyCategoryRulesUseCase(
+      this.cardUsageRepository,
+      this.cardUsageCategorizer
+    );
+    logger.updateServiceStatus('ApplyCategoryRulesUseCase', 'online', '初期化完了');
+
     // コントローラーの初期化
     this.emailController = new EmailController(
       this.processCardCompanyEmailUseCase,
-      this.notifyCardUsageUseCase
+      this.notifyCardUsageUseCase,
+      this.cardIssuerParserRegistry,
+      this.imapStateRepository
     );
     logger.updateServiceStatus('EmailController', 'online', '初期化完了');
   }
 
+  /**
+   * CardIssuerParserRegistryを取得
+   */
+  public getCardIssuerParserRegistry(): CardIssuerParserRegistry {
+    return this.cardIssuerParserRegistry;
+  }
+
+  /**
+   * FirestoreConfigRepositoryを取得
+   */
+  public getConfigRepository(): FirestoreConfigRepository {
+    return this.configRepository;
+  }
+
+  /**
+   * IssuerTemplateLoaderを取得
+   */
+  public getIssuerTemplateLoader(): IssuerTemplateLoader {
+    return this.issuerTemplateLoader;
+  }
+
   /**
    * EmailControllerを取得
    */
@@ -95,6 +246,48 @@ export class DependencyContainer implements IDependencyContainer {
     return this.processCardCompanyEmailUseCase;
   }
 
+  /**
+   * DeadLetterUseCaseを取得
+   */
+  public getDeadLetterUseCase(): IDeadLetterUseCase {
+    return this.deadLetterUseCase;
+  }
+
+  /**
+   * ImportEmailsUseCaseを取得
+   */
+  public getImportEmailsUseCase(): IImportEmailsUseCase {
+    return this.importEmailsUseCase;
+  }
+
+  /**
+   * PreviewEmailParseUseCaseを取得
+   */
+  public getPreviewEmailParseUseCase(): IPreviewEmailParseUseCase {
+    return this.previewEmailParseUseCase;
+  }
+
+  /**
+   * ReconcileStatementUseCaseを取得
+   */
+  public getReconcileStatementUseCase(): IReconcileStatementUseCase {
+    return this.reconcileStatementUseCase;
+  }
+
+  /**
+   * BackfillMerchantUseCaseを取得
+   */
+  public getBackfillMerchantUseCase(): IBackfillMerchantUseCase {
+    return this.backfillMerchantUseCase;
+  }
+
+  /**
+   * ApplyCategoryRulesUseCaseを取得
+   */
+  public getApplyCategoryRulesUseCase(): IApplyCategoryRulesUseCase {
+    return this.applyCategoryRulesUseCase;
+  }
+
   /**
    * NotifyCardUsageUseCaseを取得
    */
@@ -109,6 +302,20 @@ export class DependencyContainer implements IDependencyContainer {
     return this.emailService;
   }
 
+  /**
+   * FirestoreImapStateRepositoryを取得
+   */
+  public getImapStateRepository(): FirestoreImapStateRepository {
+    return this.imapStateRepository;
+  }
+
+  /**
+   * FirestoreDeadLetterRepositoryを取得
+   */
+  public getDeadLetterRepository(): FirestoreDeadLetterRepository {
+    return this.deadLetterRepository;
+  }
+
   /**
    * FirestoreCardUsageRepositoryを取得
    */
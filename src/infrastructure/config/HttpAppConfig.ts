@@ -3,15 +3,39 @@ import { MonitoringRoutes } from '@presentation/api/routes/MonitoringRoutes';
 import { ServiceRoutes } from '@presentation/api/routes/ServiceRoutes';
 import { CardUsageRoutes } from '@presentation/api/routes/CardUsageRoutes';
 import { ReportsRoutes } from '@presentation/api/routes/ReportsRoutes';
+import { IssuerTemplateRoutes } from '@presentation/api/routes/IssuerTemplateRoutes';
+import { DeadLetterRoutes } from '@presentation/api/routes/DeadLetterRoutes';
+import { ImportRoutes } from '@presentation/api/routes/ImportRoutes';
+import { InboundEmailRoutes } from '@presentation/api/routes/InboundEmailRoutes';
+import { ParseRoutes } from '@presentation/api/routes/ParseRoutes';
+import { MerchantAliasRoutes } from '@presentation/api/routes/MerchantAliasRoutes';
+import { CategoryRoutes } from '@presentation/api/routes/CategoryRoutes';
+import { BudgetRoutes } from '@presentation/api/routes/BudgetRoutes';
+import { CardRoutes } from '@presentation/api/routes/CardRoutes';
+import { SubscriptionRoutes } from '@presentation/api/routes/SubscriptionRoutes';
 import { ServiceController } from '@presentation/api/controllers/ServiceController';
 import { CardUsageController } from '@presentation/api/controllers/CardUsageController';
 import { ReportController } from '@presentation/api/controllers/ReportController';
+import { IssuerTemplateController } from '@presentation/api/controllers/IssuerTemplateController';
+import { DeadLetterController } from '@presentation/api/controllers/DeadLetterController';
+import { ImportController } from '@presentation/api/controllers/ImportController';
+import { InboundEmailController } from '@presentation/api/controllers/InboundEmailController';
+import { ParseController } from '@presentation/api/controllers/ParseController';
+import { MerchantAliasController } from '@presentation/api/controllers/MerchantAliasController';
+import { CategoryController } from '@presentation/api/controllers/CategoryController';
+import { BudgetController } from '@presentation/api/controllers/BudgetController';
+import { CardController } from '@presentation/api/controllers/CardController';
+import { SubscriptionController } from '@presentation/api/controllers/SubscriptionController';
 import { logger } from '@shared/infrastructure/logging/Logger';
+import { Environment } from '@shared/infrastructure/config/Environment';
 import { EmailController } from '@presentation/email/controllers/EmailController';
 import { IHttpAppConfig } from '@domain/interfaces/infrastructure/config/IHttpAppConfig';
 import { IDependencyContainer } from '@domain/interfaces/infrastructure/config/IDependencyContainer';
 import { ResponseHelper } from '@shared/presentation/responses/ResponseHelper';
 
+/** 受信WebhookのAPIのパス */
+const INBOUND_EMAIL_PATH = '/api/inbound';
+
 /**
  * アプリケーション設定を管理するクラス
  * サーバー設定、ミドルウェア設定、ルート設定を担当
@@ -21,6 +45,15 @@ export class HttpAppConfig implements IHttpAppConfig {
   private port: number;
   private cardUsageController: CardUsageController | null = null;
   private reportController: ReportController;
+  private issuerTemplateController: IssuerTemplateController | null = null;
+  private deadLetterController: DeadLetterController | null = null;
+  private importController: ImportController | null = null;
+  private parseController: ParseController | null = null;
+  private merchantAliasController: MerchantAliasController | null = null;
+  private categoryController: CategoryController | null = null;
+  private budgetController: BudgetController | null = null;
+  private cardController: CardController | null = null;
+  private subscriptionController: SubscriptionController;
 
   constructor() {
     // Express.jsサーバーの初期化
@@ -29,6 +62,8 @@ export class HttpAppConfig implements IHttpAppConfig {
 
     // ReportControllerは依存関係がないので初期化
     this.reportController = new ReportController();
+    // SubscriptionControllerも依存関係がないので初期化
+    this.subscriptionController = new SubscriptionController();
 
     // 基本ミドルウェアを設定
     this.setupMiddleware();
@@ -52,7 +87,15 @@ export class HttpAppConfig implements IHttpAppConfig {
     });
 
     // JSONボディパーサーを追加 - APIリクエストでJSONを処理するため
-    this.app.use(express.json());
+    // 受信Webhookは署名の検証にリクエストボディのバイト列が必要なため、解析せずにルーターで受け取る
+    const jsonParser = express.json();
+    this.app.use((req, res, next) => {
+      if (req.path.startsWith(INBOUND_EMAIL_PATH)) {
+        next();
+        return;
+      }
+      jsonParser(req, res, next);
+    });
 
     // ヘルスチェックエンドポイント（認証不要）
     this.app.get('/health', (req, res) => {
@@ -111,6 +154,121 @@ export class HttpAppConfig implements IHttpAppConfig {
     logger.updateServiceStatus('ReportAPI', 'online', 'レポートAPI有効');
   }
 
+  /**
+   * カード会社テンプレートAPIルートを設定
+   */
+  public setupIssuerTemplateRoutes(): void {
+    if (!this.issuerTemplateController) {
+      throw new Error('IssuerTemplateController が初期化されていません。initializeControllersを先に呼び出してください。');
+    }
+    const issuerTemplateRoutes = new IssuerTemplateRoutes(this.issuerTemplateController);
+    this.app.use('/api/issuer-templates', issuerTemplateRoutes.getRouter());
+    logger.updateServiceStatus('IssuerTemplateAPI', 'online', 'カード会社テンプレートAPI有効');
+  }
+
+  /**
+   * デッドレターAPIルートを設定
+   */
+  public setupDeadLetterRoutes(): void {
+    if (!this.deadLetterController) {
+      throw new Error('DeadLetterController が初期化されていません。initializeControllersを先に呼び出してください。');
+    }
+    const deadLetterRoutes = new DeadLetterRoutes(this.deadLetterController);
+    this.app.use('/api/dead-letters', deadLetterRoutes.getRouter());
+    logger.updateServiceStatus('DeadLetterAPI', 'online', 'デッドレターAPI有効');
+  }
+
+  /**
+   * データ取り込みAPIルートを設定
+   */
+  public setupImportRoutes(): void {
+    if (!this.importController) {
+      throw new Error('ImportController が初期化されていません。initializeControllersを先に呼び出してください。');
+    }
+    const importRoutes = new ImportRoutes(this.importController);
+    this.app.use('/api/imports', importRoutes.getRouter());
+    logger.updateServiceStatus('ImportAPI', 'online', 'データ取り込みAPI有効');
+  }
+
+  /**
+   * メール解析APIルートを設定
+   */
+  public setupParseRoutes(): void {
+    if (!this.parseController) {
+      throw new Error('ParseController が初期化されていません。initializeControllersを先に呼び出してください。');
+    }
+    const parseRoutes = new ParseRoutes(this.parseController);
+    this.app.use('/api/parse', parseRoutes.getRouter());
+    logger.updateServiceStatus('ParseAPI', 'online', 'メール解析API有効');
+  }
+
+  /**
+   * 利用先の別名APIルートを設定
+   */
+  public setupMerchantAliasRoutes(): void {
+    if (!this.merchantAliasController) {
+      throw new Error('MerchantAliasController が初期化されていません。initializeControllersを先に呼び出してください。');
+    }
+    const merchantAliasRoutes = new MerchantAliasRoutes(this.merchantAliasController);
+    this.app.use('/api/merchant-aliases', merchantAliasRoutes.getRouter());
+    logger.updateServiceStatus('MerchantAliasAPI', 'online', '利用先の別名API有効');
+  }
+
+  /**
+   * 支出カテゴリAPIルートを設定
+   */
+  public setupCategoryRoutes(): void {
+    if (!this.categoryController) {
+      throw new Error('CategoryController が初期化されていません。initializeControllersを先に呼び出してください。');
+    }
+    const categoryRoutes = new CategoryRoutes(this.categoryController);
+    this.app.use('/api/categories', categoryRoutes.getRouter());
+    logger.updateServiceStatus('CategoryAPI', 'online', '支出カテゴリAPI有効');
+  }
+
+  /**
+   * 予算APIルートを設定
+   */
+  public setupBudgetRoutes(): void {
+    if (!this.budgetController) {
+      throw new Error('BudgetController が初期化されていません。initializeControllersを先に呼び出してください。');
+    }
+    const budgetRoutes = new BudgetRoutes(this.budgetController);
+    this.app.use('/api/budgets', budgetRoutes.getRouter());
+    logger.updateServiceStatus('BudgetAPI', 'online', '予算API有効');
+  }
+
+  /**
+   * カードAPIルートを設定
+   */
+  public setupCardRoutes(): void {
+    if (!this.cardController) {
+      throw new Error('CardController が初期化されていません。initializeControllersを先に呼び出してください。');
+    }
+    const cardRoutes = new CardRoutes(this.cardController);
+    this.app.use('/api/cards', cardRoutes.getRouter());
+    logger.updateServiceStatus('CardAPI', 'online', 'カードAPI有効');
+  }
+
+  /**
+   * 定期的な支払いAPIルートを設定
+   */
+  public setupSubscriptionRoutes(): void {
+    const subscriptionRoutes = new SubscriptionRoutes(this.subscriptionController);
+    this.app.use('/api/subscriptions', subscriptionRoutes.getRouter());
+    logger.updateServiceStatus('SubscriptionAPI', 'online', '定期的な支払いAPI有効');
+  }
+
+  /**
+   * 受信WebhookのAPIルートを設定
+   * @param emailController 受信したメールを処理するメールコントローラー
+   */
+  public setupInboundEmailRoutes(emailController: EmailController): void {
+    const inboundEmailRoutes = new InboundEmailRoutes(new InboundEmailController(emailController));
+    this.app.use(INBOUND_EMAIL_PATH, inboundEmailRoutes.getRouter());
+    logger.updateServiceStatus('InboundEmailAPI', 'online', '受信Webhook API有効');
+  }
+
   /**
    * すべてのAPIルートを一括設定
    */
@@ -118,6 +276,20 @@ export class HttpAppConfig implements IHttpAppConfig {
     this.setupServiceRoutes(emailController);
     this.setupCardUsageRoutes();
     this.setupReportRoutes();
+    this.setupIssuerTemplateRoutes();
+    this.setupDeadLetterRoutes();
+    this.setupImportRoutes();
+    this.setupParseRoutes();
+    this.setupMerchantAliasRoutes();
+    this.setupCategoryRoutes();
+    this.setupBudgetRoutes();
+    this.setupCardRoutes();
+    this.setupSubscriptionRoutes();
+
+    // 受信Webhookはメールの受信方法に含まれる場合のみ公開する
+    if (Environment.isWebhookSourceEnabled()) {
+      this.setupInboundEmailRoutes(emailController);
+    }
 
     // 404ハンドラー
     this.app.use('*', (req, res) => {
@@ -165,5 +337,38 @@ export class HttpAppConfig implements IHttpAppConfig {
   public initializeControllers(dependencyContainer: IDependencyContainer): void {
     this.cardUsageController = new CardUsageController(dependencyContainer.getDiscordNotifier());
     logger.updateServiceStatus('CardUsageController', 'online', '依存性注入で初期化完了');
+
+    this.issuerTemplateController = new IssuerTemplateController(
+      dependencyContainer.getConfigRepository(),
+      dependencyContainer.getIssuerTemplateLoader()
+    );
+    logger.updateServiceStatus('IssuerTemplateController', 'online', '依存性注入で初期化完了');
+
+    this.deadLetterController = new DeadLetterController(dependencyContainer.getDeadLetterUseCase());
+    logger.updateServiceStatus('DeadLetterController', 'online', '依存性注入で初期化完了');
+
+    this.importController = new ImportController(
+      dependencyContainer.getImportEmailsUseCase(),
+      dependencyContainer.getReconcileStatementUseCase()
+    );
+    logger.updateServiceStatus('ImportController', 'online', '依存性注入で初期化完了');
+
+    this.parseController = new ParseController(dependencyContainer.getPreviewEmailParseUseCase());
+    logger.updateServiceStatus('ParseController', 'online', '依存性注入で初期化完了');
+
+    this.merchantAliasController = new MerchantAliasController(dependencyContainer.getConfigRepository());
+    logger.updateServiceStatus('MerchantAliasController', 'online', '依存性注入で初期化完了');
+
+    this.categoryController = new CategoryController(
+      dependencyContainer.getConfigRepository(),
+      dependencyContainer.getApplyCategoryRulesUseCase()
+    );
+    logger.updateServiceStatus('CategoryController', 'online', '依存性注入で初期化完了');
+
+    this.budgetController = new BudgetController(dependencyContainer.getConfigRepository());
+    logger.updateServiceStatus('BudgetController', 'online', '依存性注入で初期化完了');
+
+    this.cardController = new CardController(dependencyContainer.getConfigRepository());
+    logger.updateServiceStatus('CardController', 'online', '依存性注入で初期化完了');
   }
 }
@@ -0,0 +1,241 @@
+import { Environment } from '@shared/infrastructure/config/Environment';
+import { AppError, ErrorType } from '@shared/errors/AppError';
+import { CardCompany } from '@domain/enums/CardCompany';
+import { ICardIssuerParserRegistry } from '@domain/interfaces/infrastructure/email/ICardIssuerParserRegistry';
+import {
+  IImapAccountConfigLoader,
+  ImapAccount,
+} from '@domain/interfaces/infrastructure/config/IImapAccountConfigLoader';
+import { IImapAccessTokenProvider } from '@domain/interfaces/infrastructure/email/IImapAccessTokenProvider';
+import { GoogleOAuth2TokenProvider } from '@infrastructure/email/GoogleOAuth2TokenProvider';
+
+/**
+ * リフレッシュトークンからアクセストークンの提供元を作成する関数
+ */
+export type ImapAccessTokenProviderFactory = (refreshToken: string) => IImapAccessTokenProvider;
+
+/**
+ * IMAP_OAUTH_CLIENT_ID・IMAP_OAUTH_CLIENT_SECRETのOAuth2クライアントで、Googleのアクセストークンの提供元を作成する
+ */
+const createGoogleTokenProvider: ImapAccessTokenProviderFactory = (refreshToken) => {
+  if (!Environment.IMAP_OAUTH_CLIENT_ID || !Environment.IMAP_OAUTH_CLIENT_SECRET) {
+    throw new AppError(
+      'OAuth2で認証するには、IMAP_OAUTH_CLIENT_IDとIMAP_OAUTH_CLIENT_SECRETを設定してください',
+      ErrorType.CONFIGURATION
+    );
+  }
+  return new GoogleOAuth2TokenProvider({
+    clientId: Environment.IMAP_OAUTH_CLIENT_ID,
+    clientSecret: Environment.IMAP_OAUTH_CLIENT_SECRET,
+    refreshToken,
+  });
+};
+
+/** IMAP_ACCOUNTSが未設定の場合のアカウントの識別子 */
+const DEFAULT_ACCOUNT_ID = 'default';
+
+/**
+ * IMAP_ACCOUNTSに記述するアカウントの設定
+ */
+interface ImapAccountSetting {
+  id?: unknown;
+  server?: unknown;
+  user?: unknown;
+  /** パスワードを格納した環境変数の名前（パスワードそのものは設定に記述しない） */
+  passwordEnv?: unknown;
+  /** OAuth2で認証する場合、リフレッシュトークンを格納した環境変数の名前（指定した場合はpasswordEnvは不要） */
+  refreshTokenEnv?: unknown;
+  /** 受け付けるカード会社（省略時は登録済みのすべてのカード会社） */
+  issuers?: unknown;
+  /** カード会社ごとのメールボックス名（省略時はパーサーの既定のメールボックス名） */
+  mailboxes?: unknown;
+  idle?: unknown;
+  pollingInterval?: unknown;
+}
+
+/**
+ * 監視するIMAPアカウントの設定を読み込むクラス
+ * IMAP_ACCOUNTS（JSON配列）が設定されている場合はアカウントごとの設定を、
+ * 未設定の場合はIMAP_SERVER・IMAP_USER・IMAP_PASSWORDの1アカウントを、登録済みのすべてのカード会社で監視する
+ */
+export class ImapAccountConfigLoader implements IImapAccountConfigLoader {
+  /**
+   * コンストラクタ
+   * @param parserRegistry カード会社パーサーのレジストリ（既定のメールボックス名の取得に使用）
+   * @param accountsJson アカウントの設定（JSON配列）
+   * @param env パスワード・リフレッシュトークンを参照する環境変数
+   * @param createTokenProvider OAuth2で認証する場合のアクセストークンの提供元を作成する関数
+   */
+  constructor(
+    private readonly parserRegistry: ICardIssuerParserRegistry,
+    private readonly accountsJson: string = Environment.IMAP_ACCOUNTS,
+    private readonly env: NodeJS.ProcessEnv = process.env,
+    private readonly createTokenProvider: ImapAccessTokenProviderFactory = createGoogleTokenProvider
+  ) { }
+
+  /**
+   * 監視するIMAPアカウントの設定を読み込む
+   * @returns 監視するIMAPアカウント
+   * @throws {AppError} 設定が不正な場合
+   */
+  load(): ImapAccount[] {
+    if (!this.accountsJson) {
+      const issuers = this.parserRegistry.getAll().map((parser) => parser.cardCompany);
+      return [{
+        id: DEFAULT_ACCOUNT_ID,
+        server: Environment.IMAP_SERVER,
+        user: Environment.IMAP_USER,
+        ...(Environment.IMAP_OAUTH_REFRESH_TOKEN ?
+          { password: '', accessTokenProvider: this.createTokenProvider(Environment.IMAP_OAUTH_REFRESH_TOKEN) } :
+          { password: Environment.IMAP_PASSWORD }),
+        issuers,
+        mailboxes: this.resolveMailboxes(issuers, {}),
+        monitoringOptions: {
+          idle: Environment.IMAP_IDLE_ENABLED,
+          pollingInterval: Environment.IMAP_POLLING_INTERVAL,
+        },
+      }];
+    }
+
+    let settings: unknown;
+    try {
+      settings = JSON.parse(this.accountsJson);
+    } catch (error) {
+      throw this.configError('IMAP_ACCOUNTSをJSONとして解析できません', {}, error);
+    }
+    if (!Array.isArray(settings) || settings.length === 0) {
+      throw this.configError('IMAP_ACCOUNTSには1件以上のアカウントを配列で指定してください');
+    }
+
+    const accounts = settings.map((setting, index) => this.toAccount(setting ?? {}, index));
+
+    const ids = accounts.map((account) => account.id);
+    const duplicated = ids.filter((id, index) => ids.indexOf(id) !== index);
+    if (duplicated.length > 0) {
+      throw this.configError(`IMAP_ACCOUNTSのidが重複しています: ${[...new Set(duplicated)].join(', ')}`);
+    }
+
+    return accounts;
+  }
+
+  /**
+   * アカウントの設定を検証し、監視するIMAPアカウントに変換
+   * @param setting アカウントの設定
+   * @param index 設定内の位置（エラーメッセージに使用）
+   */
+  private toAccount(setting: ImapAccountSetting, index: number): ImapAccount {
+    const label = `IMAP_ACCOUNTS[${index}]`;
+
+    if (typeof setting.id !== 'string' || !setting.id) {
+      throw this.configError(`${label}: idを指定してください`);
+    }
+    if (typeof setting.user !== 'string' || !setting.user) {
+      throw this.configError(`${label}: userを指定してください`, { id: setting.id });
+    }
+    const credential = this.resolveCredential(setting, label);
+    const issuers = this.resolveIssuers(setting.issuers, label);
+    const mailboxes = setting.mailboxes ?? {};
+    if (!this.isStringRecord(mailboxes)) {
+      throw this.configError(`${label}: mailboxesにはカード会社ごとのメールボックス名を指定してください`, {
+        id: setting.id,
+      });
+    }
+
+    return {
+      id: setting.id,
+      server: typeof setting.server === 'string' && setting.server ? setting.server : Environment.IMAP_SERVER,
+      user: setting.user,
+      ...credential,
+      issuers,
+      mailboxes: this.resolveMailboxes(issuers, mailboxes),
+      monitoringOptions: {
+        idle: typeof setting.idle === 'boolean' ? setting.idle : Environment.IMAP_IDLE_ENABLED,
+        pollingInterval: typeof setting.pollingInterval === 'number' && setting.pollingInterval > 0 ?
+          setting.pollingInterval :
+          Environment.IMAP_POLLING_INTERVAL,
+      },
+    };
+  }
+
+  /**
+   * 認証情報を取得（refreshTokenEnvを指定した場合はOAuth2、それ以外はパスワードで認証する）
+   * @param setting アカウントの設定
+   * @param label エラーメッセージに使用するアカウントの表記
+   */
+  private resolveCredential(
+    setting: ImapAccountSetting,
+    label: string
+  ): Pick<ImapAccount, 'password' | 'accessTokenProvider'> {
+    const details = { id: setting.id };
+
+    if (setting.refreshTokenEnv !== undefined) {
+      if (typeof setting.refreshTokenEnv !== 'string' || !setting.refreshTokenEnv) {
+        throw this.configError(`${label}: refreshTokenEnvにリフレッシュトークンを格納した環境変数の名前を指定してください`, details);
+      }
+      const refreshToken = this.env[setting.refreshTokenEnv];
+      if (!refreshToken) {
+        throw this.configError(`${label}: 環境変数 ${setting.refreshTokenEnv} が設定されていません`, details);
+      }
+      return { password: '', accessTokenProvider: this.createTokenProvider(refreshToken) };
+    }
+
+    if (typeof setting.passwordEnv !== 'string' || !setting.passwordEnv) {
+      throw this.configError(`${label}: passwordEnvにパスワードを格納した環境変数の名前を指定してください`, details);
+    }
+    const password = this.env[setting.passwordEnv];
+    if (!password) {
+      throw this.configError(`${label}: 環境変数 ${setting.passwordEnv} が設定されていません`, details);
+    }
+    return { password };
+  }
+
+  /**
+   * 受け付けるカード会社を検証（省略時は登録済みのすべてのカード会社）
+   * @param issuers 設定されたカード会社
+   * @param label エラーメッセージに使用するアカウントの表記
+   */
+  private resolveIssuers(issuers: unknown, label: string): CardCompany[] {
+    if (issuers === undefined) {
+      return this.parserRegistry.getAll().map((parser) => parser.cardCompany);
+    }
+    if (!Array.isArray(issuers) || issuers.length === 0 || !issuers.every((issuer) => typeof issuer === 'string')) {
+      throw this.configError(`${label}: issuersにはカード会社の識別子を1件以上の配列で指定してください`);
+    }
+
+    const unknownIssuers = issuers.filter((issuer) => !this.parserRegistry.get(issuer));
+    if (unknownIssuers.length > 0) {
+      throw this.configError(`${label}: 登録されていないカード会社です: ${unknownIssuers.join(', ')}`);
+    }
+    return issuers;
+  }
+
+  /**
+   * 受け付けるカード会社のメールボックス名を取得（複数のカード会社で同じメールボックスの場合は1つにまとめる）
+   * @param issuers 受け付けるカード会社
+   * @param mailboxes 設定されたカード会社ごとのメールボックス名
+   */
+  private resolveMailboxes(issuers: CardCompany[], mailboxes: Record<string, string>): string[] {
+    const names = issuers.map((issuer) => mailboxes[issuer] || this.parserRegistry.get(issuer)?.mailboxName || '');
+    return [...new Set(names.filter((name) => name))];
+  }
+
+  /**
+   * 値が文字列を値に持つオブジェクトかどうか
+   */
+  private isStringRecord(value: unknown): value is Record<string, string> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+      Object.values(value).every((item) => typeof item === 'string');
+  }
+
+  /**
+   * 設定エラーを作成
+   */
+  private configError(message: string, details: Record<string, unknown> = {}, error?: unknown): AppError {
+    return new AppError(
+      message,
+      ErrorType.CONFIGURATION,
+      details,
+      error instanceof Error ? error : undefined
+    );
+  }
+}
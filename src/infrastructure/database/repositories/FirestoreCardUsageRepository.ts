@@ -243,6 +243,19 @@ export class FirestoreCardUsageRepository implements ICardUsageCrudRepository {
     };
   }
 
+  /**
+   * パスを指定してカード利用情報を更新する
+   * @param path カード利用情報のパス
+   * @param updateData 更新データ
+   */
+  @ErrorHandler.errorDecorator('FirestoreCardUsageRepository', {
+    defaultMessage: 'カード利用情報の更新に失敗しました',
+  })
+  async updateByPath(path: string, updateData: Partial<CardUsage>): Promise<void> {
+    await this.initialize();
+    await this.firestoreService.updateDocument(path, updateData);
+  }
+
   /**
    * カード利用情報を論理削除する（is_activeをfalseに設定）
    * @param id カード利用情報のID
@@ -0,0 +1,116 @@
+import { randomUUID } from 'crypto';
+import { Firestore } from 'firebase-admin/firestore';
+import { DeadLetter, DeadLetterInput, DeadLetterStatus } from '@shared/domain/entities/DeadLetter';
+import {
+  IDeadLetterRepository,
+} from '@domain/interfaces/infrastructure/database/repositories/IDeadLetterRepository';
+import { Environment } from '@shared/infrastructure/config/Environment';
+import { FirestoreService } from '@shared/infrastructure/database/FirestoreService';
+import { ErrorHandler } from '@shared/infrastructure/errors/ErrorHandler';
+import { logger } from '@shared/infrastructure/logging/Logger';
+
+/**
+ * Firestoreを使用したデッドレターリポジトリの実装
+ * `dead_letters/{id}` に保存する
+ */
+export class FirestoreDeadLetterRepository implements IDeadLetterRepository {
+  private firestoreService: FirestoreService;
+  private readonly serviceContext = 'FirestoreDeadLetterRepository';
+  private readonly COLLECTION_PATH = 'dead_letters';
+
+  constructor() {
+    this.firestoreService = FirestoreService.getInstance();
+  }
+
+  /**
+   * Firestoreへの接続を初期化する
+   */
+  @ErrorHandler.errorDecorator('FirestoreDeadLetterRepository', {
+    defaultMessage: 'Firestoreの初期化に失敗しました',
+  })
+  async initialize(): Promise<Firestore> {
+    // Cloud Functions環境の判定
+    const isCloudFunctions = Environment.isCloudFunctions();
+    this.firestoreService.setCloudFunctions(isCloudFunctions);
+
+    if (isCloudFunctions) {
+      // Cloud Functions環境ではサービスアカウントキーは不要
+      return await this.firestoreService.initialize();
+    } else {
+      // ローカル環境ではサービスアカウントキーが必要
+      const serviceAccountPath = Environment.getFirebaseAdminKeyPath();
+      return await this.firestoreService.initialize(serviceAccountPath);
+    }
+  }
+
+  /**
+   * デッドレターを登録する
+   * @param input 登録内容
+   * @returns 登録されたデッドレター
+   */
+  @ErrorHandler.errorDecorator('FirestoreDeadLetterRepository', {
+    defaultMessage: 'デッドレターの保存に失敗しました',
+  })
+  async save(input: DeadLetterInput): Promise<DeadLetter> {
+    await this.initialize();
+
+    const now = new Date().toISOString();
+    const deadLetter: DeadLetter = {
+      ...input,
+      id: randomUUID(),
+      status: 'pending',
+      retryCount: 0,
+      resolvedPaths: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.firestoreService.saveDocument(`${this.COLLECTION_PATH}/${deadLetter.id}`, deadLetter);
+    logger.info(`デッドレターを保存しました: ${deadLetter.id}`, this.serviceContext);
+    return deadLetter;
+  }
+
+  /**
+   * IDによるデッドレターの取得
+   * @param id デッドレターのID
+   */
+  @ErrorHandler.errorDecorator('FirestoreDeadLetterRepository', {
+    defaultMessage: 'デッドレターの取得に失敗しました',
+  })
+  async getById(id: string): Promise<DeadLetter | null> {
+    await this.initialize();
+    return this.firestoreService.getDocument<DeadLetter>(`${this.COLLECTION_PATH}/${id}`);
+  }
+
+  /**
+   * デッドレターを新しい順に取得する
+   * 複合インデックスを不要にするため、並び替えはメモリ上で行う
+   * @param status 絞り込む状態（省略時はすべて）
+   */
+  @ErrorHandler.errorDecorator('FirestoreDeadLetterRepository', {
+    defaultMessage: 'デッドレター一覧の取得に失敗しました',
+  })
+  async findAll(status?: DeadLetterStatus): Promise<DeadLetter[]> {
+    await this.initialize();
+
+    const deadLetters = await this.firestoreService.query<DeadLetter>(
+      this.COLLECTION_PATH,
+      (collection) => status ? collection.where('status', '==', status) : collection
+    );
+
+    return deadLetters.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * デッドレターを更新する
+   * @param id デッドレターのID
+   * @param data 更新する項目
+   */
+  @ErrorHandler.errorDecorator('FirestoreDeadLetterRepository', {
+    defaultMessage: 'デッドレターの更新に失敗しました',
+  })
+  async update(id: string, data: Partial<Omit<DeadLetter, 'id'>>): Promise<void> {
+    await this.initialize();
+    await this.firestoreService.updateDocument(`${this.COLLECTION_PATH}/${id}`, data);
+  }
+}
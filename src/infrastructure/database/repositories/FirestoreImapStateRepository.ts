@@ -0,0 +1,79 @@
+import { Firestore } from 'firebase-admin/firestore';
+import {
+  IImapStateRepository,
+  ImapMailboxState,
+} from '@domain/interfaces/infrastructure/database/repositories/IImapStateRepository';
+import { Environment } from '@shared/infrastructure/config/Environment';
+import { FirestoreService } from '@shared/infrastructure/database/FirestoreService';
+import { ErrorHandler } from '@shared/infrastructure/errors/ErrorHandler';
+import { logger } from '@shared/infrastructure/logging/Logger';
+
+/**
+ * Firestoreを使用したIMAP処理状態リポジトリの実装
+ * メールボックスごとに `system/imap_state/mailboxes/{mailboxKey}` へ保存する
+ */
+export class FirestoreImapStateRepository implements IImapStateRepository {
+  private firestoreService: FirestoreService;
+  private readonly serviceContext = 'FirestoreImapStateRepository';
+  private readonly STATE_COLLECTION_PATH = 'system/imap_state/mailboxes';
+
+  constructor() {
+    this.firestoreService = FirestoreService.getInstance();
+  }
+
+  /**
+   * Firestoreへの接続を初期化する
+   */
+  @ErrorHandler.errorDecorator('FirestoreImapStateRepository', {
+    defaultMessage: 'Firestoreの初期化に失敗しました',
+  })
+  async initialize(): Promise<Firestore> {
+    // Cloud Functions環境の判定
+    const isCloudFunctions = Environment.isCloudFunctions();
+    this.firestoreService.setCloudFunctions(isCloudFunctions);
+
+    if (isCloudFunctions) {
+      // Cloud Functions環境ではサービスアカウントキーは不要
+      return await this.firestoreService.initialize();
+    } else {
+      // ローカル環境ではサービスアカウントキーが必要
+      const serviceAccountPath = Environment.getFirebaseAdminKeyPath();
+      return await this.firestoreService.initialize(serviceAccountPath);
+    }
+  }
+
+  /**
+   * メールボックスの処理状態を取得する
+   * @param mailboxKey メールボックスを識別するキー
+   * @returns 処理状態（未記録の場合はnull）
+   */
+  @ErrorHandler.errorDecorator('FirestoreImapStateRepository', {
+    defaultMessage: 'IMAP処理状態の取得に失敗しました',
+  })
+  async getMailboxState(mailboxKey: string): Promise<ImapMailboxState | null> {
+    await this.initialize();
+    return this.firestoreService.getDocument<ImapMailboxState>(this.getPath(mailboxKey));
+  }
+
+  /**
+   * メールボックスの処理状態を保存する
+   * @param mailboxKey メールボックスを識別するキー
+   * @param state 処理状態
+   */
+  @ErrorHandler.errorDecorator('FirestoreImapStateRepository', {
+    defaultMessage: 'IMAP処理状態の保存に失敗しました',
+  })
+  async saveMailboxState(mailboxKey: string, state: ImapMailboxState): Promise<void> {
+    await this.initialize();
+    await this.firestoreService.saveDocument(this.getPath(mailboxKey), state);
+    logger.debug(`IMAP処理状態を保存しました: ${mailboxKey} (lastUid=${state.lastUid})`, this.serviceContext);
+  }
+
+  /**
+   * メールボックスのキーからドキュメントパスを生成
+   * メールボックス名の「/」などはドキュメントIDに使えないためエンコードする
+   */
+  private getPath(mailboxKey: string): string {
+    return `${this.STATE_COLLECTION_PATH}/${encodeURIComponent(mailboxKey)}`;
+  }
+}
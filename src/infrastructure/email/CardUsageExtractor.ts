@@ -1,202 +1,58 @@
 import { logger } from '@shared/infrastructure/logging/Logger';
 import { AppError, ErrorType } from '@shared/errors/AppError';
 import { ICardUsageExtractor } from '@domain/interfaces/infrastructure/email/ICardUsageExtractor';
+import { ICardIssuerParserRegistry } from '@domain/interfaces/infrastructure/email/ICardIssuerParserRegistry';
 import { CardCompany } from '@domain/enums/CardCompany';
 import { CardUsage } from '@shared/domain/entities/CardUsage';
-import { CardUsageFactory } from '@shared/domain/factories/CardUsageFactory';
 
 /**
  * カード利用情報の抽出を専門に行うクラス
- * メール本文からカード会社固有の形式でカード利用情報を抽出する
+ * レジストリに登録されたカード会社のパーサーへ抽出処理を委譲する
  */
 export class CardUsageExtractor implements ICardUsageExtractor {
   private readonly serviceContext: string;
 
-  constructor() {
+  /**
+   * @param parserRegistry カード会社パーサーのレジストリ
+   */
+  constructor(private readonly parserRegistry: ICardIssuerParserRegistry) {
     this.serviceContext = 'CardUsageExtractor';
   }
 
   /**
    * メール本文からカード利用情報を抽出
+   * 複数件の利用明細を含む場合は先頭の明細を返す
    * @param body メール本文
    * @param cardCompany カード会社の種類
    * @returns 抽出されたカード利用情報
    */
   extractFromEmailBody(body: string, cardCompany: CardCompany): CardUsage {
-    const context = `${this.serviceContext}:${cardCompany}`;
-    logger.info(`${cardCompany}のカード利用情報を抽出します`, context);
-
-    switch (cardCompany) {
-      case CardCompany.MUFG:
-        return this.parseMufgEmail(body, context);
-      case CardCompany.SMBC:
-        return this.parseSmbcEmail(body, context);
-      default: {
-        const appError = new AppError(
-          `未対応のカード会社: ${cardCompany}`,
-          ErrorType.VALIDATION,
-          { cardCompany },
-        );
-        logger.error(appError, context);
-        throw appError;
-      }
-    }
+    return this.extractAllFromEmailBody(body, cardCompany)[0];
   }
 
   /**
-   * 三菱UFJ銀行のメールからカード利用情報を抽出
+   * メール本文からすべての利用明細のカード利用情報を抽出
    * @param body メール本文
-   * @returns 抽出されたカード利用情報
+   * @param cardCompany カード会社の種類
+   * @returns 抽出されたカード利用情報（最低1件）
    */
-  private parseMufgEmail(body: string, context: string): CardUsage {
-    // 正規表現パターン - 新しいメール形式に対応
-    const cardNameMatch = body.match(/カード名称\s*：\s*(.+?)(?=\s*\n)/);
-    const dateMatch = body.match(/【ご利用日時\(日本時間\)】\s*([\d年月日 :]+)/);
-    const amountMatch = body.match(/【ご利用金額】\s*([\d,]+)円/);
-    const whereToUseMatch = body.match(/【ご利用先】\s*([^\n]+)/);
-
-    /* eslint-disable camelcase */
-    // データを抽出・整形
-    const datetime_of_use = dateMatch?.[1]?.trim() || '';
-    const amountStr = amountMatch?.[1]?.replace(/,/g, '') || '0';
-    const card_name = cardNameMatch?.[1]?.trim() || '';
-    const where_to_use = whereToUseMatch?.[1]?.trim() || '';
-
-    // 抽出結果をログ出力
-    logger.debug('抽出データ（MUFG）:', context);
-    logger.debug(JSON.stringify({
-      card_name,
-      datetime_of_use,
-      amount: parseInt(amountStr, 10),
-      where_to_use,
-    }), context);
-
-    // 日付文字列をISOフォーマットに変換
-    try {
-      const isoDate = new Date(datetime_of_use.replace(/年|月/g, '-').replace('日', '')).toISOString();
-      logger.debug('変換後日時: ' + isoDate, context);
-
-      // CardUsageエンティティを生成
-      return CardUsageFactory.create(
-        card_name,
-        isoDate,
-        parseInt(amountStr, 10),
-        where_to_use,
-      );
-    } catch (error) {
-      logger.warn('日付変換に失敗しました。現在時刻を使用します', context);
-      logger.debug(String(error), context);
+  extractAllFromEmailBody(body: string, cardCompany: CardCompany): CardUsage[] {
+    const context = `${this.serviceContext}:${cardCompany}`;
+    logger.info(`${cardCompany}のカード利用情報を抽出します`, context);
 
-      // 日付変換に失敗した場合は現在時刻を使用
-      return CardUsageFactory.create(
-        card_name,
-        new Date().toISOString(),
-        parseInt(amountStr, 10),
-        where_to_use,
+    const parser = this.parserRegistry.get(cardCompany);
+    if (!parser) {
+      const appError = new AppError(
+        `未対応のカード会社: ${cardCompany}`,
+        ErrorType.VALIDATION,
+        { cardCompany },
       );
+      logger.error(appError, context);
+      throw appError;
     }
-    /* eslint-enable camelcase */
-  }
-
-  /**
-   * 三井住友カードのメールからカード利用情報を抽出
-   * @param body メール本文
-   * @returns 抽出されたカード利用情報
-   */
-  private parseSmbcEmail(body: string, context: string): CardUsage {
-    logger.debug('三井住友カードのメール本文解析', context);
 
-    // 三井住友カードのメール形式に合わせたパターン抽出
-    const cardNameMatch = body.match(/(.+のカード) 様/);
-
-    // 日付のマッチングを緩和する - 日付とそれ以降の情報を別々に抽出
-    const dateMatch = body.match(/ご利用日時：(\d{4}\/\d{2}\/\d{2} \d{2}:\d{2})/);
-
-    // 日付部分を除いた残りの情報から利用場所と金額を抽出
-    // 最も単純なケース：「ご利用日時：...カフェ 1,234円」
-    const usageInfoMatch = body.match(/ご利用日時：[^\n]*? ([^\d\n][^\d\n]*?) ([\d,]+)円/);
-
-    // 不正な日付形式の場合、第二の方法を試す
-    // 「ご利用日時：不正な日付 スーパーマーケット 2,468円」のようなケースを処理
-    const alternativeUsageInfoMatch = !usageInfoMatch ?
-      body.match(/ご利用日時：[^\n]*?([^ \d][^0-9]*) ([\d,]+)円/) : null;
-
-    // 利用場所がない場合のケース:「ご利用日時：2025/05/10 15:30 2,468円」
-    const amountOnlyMatch = (!usageInfoMatch && !alternativeUsageInfoMatch) ?
-      body.match(/ご利用日時：[^\n]*?([\d,]+)円/) : null;
-
-    /* eslint-disable camelcase */
-    // データを抽出・整形
-    const datetime_of_use = dateMatch?.[1]?.trim() || '';
-    const card_name = cardNameMatch?.[1]?.trim() || '三井住友カード';
-
-    // 利用場所の抽出 - メインの正規表現またはバックアップの正規表現から取得
-    let where_to_use = '不明';
-
-    if (usageInfoMatch && usageInfoMatch[1]?.trim()) {
-      where_to_use = usageInfoMatch[1].trim();
-    } else if (alternativeUsageInfoMatch && alternativeUsageInfoMatch[1]) {
-      // 全体を利用場所として使用（trim()を別行に分けてカバレッジを向上）
-      const value = alternativeUsageInfoMatch[1];
-      where_to_use = value.trim();
-    }
-
-    // 金額からカンマを削除して整数に変換
-    // 複数のマッチングパターンから金額を取得
-    let amountStr = '0';
-
-    // 明示的に分岐してカバレッジを確保
-    const hasUsageInfoMatch = !!(usageInfoMatch && usageInfoMatch[2]);
-    const hasAlternativeMatch = !!(alternativeUsageInfoMatch && alternativeUsageInfoMatch[2]);
-    const hasAmountOnlyMatch = !!(amountOnlyMatch && amountOnlyMatch[1]);
-
-    // 分岐を明示的に行い、各条件の実行をより確実にカバー
-    if (hasUsageInfoMatch) {
-      amountStr = usageInfoMatch[2].replace(/,/g, '');
-    } else if (hasAlternativeMatch) {
-      amountStr = alternativeUsageInfoMatch[2].replace(/,/g, '');
-    } else if (hasAmountOnlyMatch) {
-      // 別行に分けてカバレッジを確実に
-      const value = amountOnlyMatch[1];
-      amountStr = value.replace(/,/g, '');
-    }
-
-    // 抽出結果をログ出力
-    logger.debug('抽出データ（SMBC）:', context);
-    logger.debug(JSON.stringify({
-      card_name,
-      datetime_of_use,
-      amount: parseInt(amountStr, 10),
-      where_to_use,
-    }), context);
-
-    try {
-      // 日付が正常な形式であればISOフォーマットに変換
-      const isoDate = datetime_of_use ?
-        new Date(datetime_of_use.replace(/\//g, '-')).toISOString() :
-        new Date().toISOString();
-
-      logger.debug('変換後日時（SMBC）: ' + isoDate, context);
-
-      // CardUsageエンティティを生成
-      return CardUsageFactory.create(
-        card_name,
-        isoDate,
-        parseInt(amountStr, 10),
-        where_to_use,
-      );
-    } catch (error) {
-      logger.warn('日付変換に失敗しました。現在時刻を使用します', context);
-      logger.debug(String(error), context);
-
-      // 日付変換に失敗した場合は現在時刻を使用
-      return CardUsageFactory.create(
-        card_name,
-        new Date().toISOString(),
-        parseInt(amountStr, 10),
-        where_to_use,
-      );
-    }
-    /* eslint-enable camelcase */
+    const usages = parser.extract(body);
+    logger.info(`${usages.length}件のカード利用情報を抽出しました`, context);
+    return usages;
   }
 }
@@ -0,0 +1,123 @@
+import { ICardUsageValidator } from '@domain/interfaces/infrastructure/email/ICardUsageValidator';
+import {
+  CardUsage,
+  ExtractionField,
+  ExtractionIssue,
+  ExtractionValidation,
+} from '@shared/domain/entities/CardUsage';
+
+/** 日本時間のオフセット（ミリ秒） */
+const JST_OFFSET_MS = 9 * 60 * 60 * 1000;
+
+/** パーサーが利用先を抽出できなかった場合に設定する値 */
+const UNKNOWN_WHERE_TO_USE = '不明';
+
+/**
+ * 抽出したカード利用情報の検証を行うクラス
+ * パーサーは抽出に失敗した項目を既定値（現在時刻、0円、「不明」など）で補完するため、
+ * 抽出結果がメール本文に実際に含まれているかを照合して項目ごとの信頼度を算出する
+ */
+export class CardUsageValidator implements ICardUsageValidator {
+  /**
+   * 抽出したカード利用情報をメール本文と照合して検証
+   * 全体の信頼度は項目ごとの信頼度の最小値とする
+   * @param cardUsage 抽出したカード利用情報
+   * @param body 抽出元のメール本文
+   */
+  validate(cardUsage: CardUsage, body: string): ExtractionValidation {
+    const normalizedBody = body.normalize('NFKC');
+    const issues: ExtractionIssue[] = [];
+
+    const check = (field: ExtractionField, [score, message]: [number, string | null]): number => {
+      if (message) {
+        issues.push({ field, message });
+      }
+      return score;
+    };
+
+    /* eslint-disable camelcase */
+    const fields: Record<ExtractionField, number> = {
+      card_name: check('card_name', this.checkCardName(cardUsage.card_name, normalizedBody)),
+      datetime_of_use: check('datetime_of_use', this.checkDatetime(cardUsage, normalizedBody)),
+      amount: check('amount', this.checkAmount(cardUsage, normalizedBody)),
+      where_to_use: check('where_to_use', this.checkWhereToUse(cardUsage.where_to_use, normalizedBody)),
+    };
+    /* eslint-enable camelcase */
+
+    return {
+      confidence: Math.min(...Object.values(fields)),
+      fields,
+      issues,
+    };
+  }
+
+  /**
+   * カード名の検証
+   * 本文にない場合はカード会社の既定名で補完されたとみなす
+   */
+  private checkCardName(cardName: string, body: string): [number, string | null] {
+    if (!cardName || cardName.trim() === '') {
+      return [0, 'カード名を取得できませんでした'];
+    }
+    if (!body.includes(cardName.normalize('NFKC').trim())) {
+      return [0.7, 'カード名が本文に見つかりません（既定のカード名で補完された可能性があります）'];
+    }
+    return [1, null];
+  }
+
+  /**
+   * 利用日時の検証
+   * 日付（日本時間）が本文にない場合は、現在時刻で補完されたとみなす
+   */
+  private checkDatetime(cardUsage: CardUsage, body: string): [number, string | null] {
+    const date = cardUsage.datetime_of_use?.toDate?.();
+    if (!date || isNaN(date.getTime())) {
+      return [0, '利用日時を取得できませんでした'];
+    }
+
+    const jst = new Date(date.getTime() + JST_OFFSET_MS);
+    const year = jst.getUTCFullYear();
+    const month = jst.getUTCMonth() + 1;
+    const day = jst.getUTCDate();
+
+    if (new RegExp(`${year}\\D{1,3}0?${month}\\D{1,3}0?${day}(?!\\d)`).test(body)) {
+      return [1, null];
+    }
+    if (new RegExp(`(?<!\\d)0?${month}\\D{1,3}0?${day}(?!\\d)`).test(body)) {
+      return [0.8, '利用日時の年が本文に見つかりません'];
+    }
+    return [0.2, '利用日時が本文に見つかりません（現在時刻で補完された可能性があります）'];
+  }
+
+  /**
+   * 利用金額の検証
+   * 利用は正の値、取消・返金は負の値であることを確認し、絶対値を本文と照合する
+   * 区切り文字の違いを吸収するため、本文中の数値から区切り文字を除いて照合する
+   */
+  private checkAmount(cardUsage: CardUsage, body: string): [number, string | null] {
+    const { amount } = cardUsage;
+    const isRefund = cardUsage.transaction_type === 'refund';
+    if (!Number.isFinite(amount) || amount === 0 || (isRefund ? amount > 0 : amount < 0)) {
+      return [0, '利用金額を取得できませんでした'];
+    }
+
+    const numbers = body.match(/\d[\d,.']*\d|\d/g) || [];
+    if (!numbers.some((value) => value.replace(/\D/g, '') === String(Math.abs(amount)))) {
+      return [0.3, '利用金額が本文に見つかりません'];
+    }
+    return [1, null];
+  }
+
+  /**
+   * 利用先の検証
+   */
+  private checkWhereToUse(whereToUse: string, body: string): [number, string | null] {
+    if (!whereToUse || whereToUse.trim() === '' || whereToUse === UNKNOWN_WHERE_TO_USE) {
+      return [0.3, '利用先を取得できませんでした'];
+    }
+    if (!body.includes(whereToUse.normalize('NFKC').trim())) {
+      return [0.5, '利用先が本文に見つかりません'];
+    }
+    return [1, null];
+  }
+}
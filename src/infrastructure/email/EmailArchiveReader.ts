@@ -0,0 +1,66 @@
+import { RawEmailMessage } from '@infrastructure/email/ImapEmailClient';
+import { IEmailArchiveReader } from '@domain/interfaces/infrastructure/email/IEmailArchiveReader';
+
+/** mboxのメッセージ区切り行 */
+const MBOX_SEPARATOR = /^From /;
+
+/** mboxで本文中の「From 」行をエスケープした行（mboxrd形式） */
+const ESCAPED_FROM_LINE = /^>(>*From )/;
+
+/**
+ * エクスポートされたメールファイルの読み込みを行うクラス
+ * 先頭が「From 」で始まるファイルはmbox形式のアーカイブ、それ以外は1通の.emlファイルとして扱う
+ */
+export class EmailArchiveReader implements IEmailArchiveReader {
+  /**
+   * メールファイルを読み込み、1通ずつの生のメールデータに分割
+   * UIDには「import:ファイル名」（mboxの場合は「#通番」を付加）を設定する
+   * @param content ファイルの内容
+   * @param name ファイル名
+   * @returns 生のメールデータの配列（ファイル内の順）
+   */
+  read(content: Buffer, name: string): RawEmailMessage[] {
+    // 文字コードに関わらずバイト列をそのまま保持するためlatin1で扱う
+    const text = content.toString('latin1');
+
+    if (!MBOX_SEPARATOR.test(text)) {
+      return text.trim() ? [{ uid: `import:${name}`, source: content }] : [];
+    }
+
+    return this.splitMbox(text).map((message, index) => ({
+      uid: `import:${name}#${index + 1}`,
+      source: Buffer.from(message, 'latin1'),
+    }));
+  }
+
+  /**
+   * mbox形式のアーカイブをメッセージごとに分割
+   * 区切り行は取り除き、本文中でエスケープされた「From 」行は元に戻す
+   * @param text アーカイブの内容
+   * @returns メッセージの配列（空のメッセージは除く）
+   */
+  private splitMbox(text: string): string[] {
+    const messages: string[] = [];
+    let lines: string[] = [];
+
+    const flush = (): void => {
+      const message = lines.join('\n');
+      if (message.trim()) {
+        messages.push(message);
+      }
+      lines = [];
+    };
+
+    // CRLFの場合も行末の\rはそのまま保持される
+    for (const line of text.split('\n')) {
+      if (MBOX_SEPARATOR.test(line)) {
+        flush();
+        continue;
+      }
+      lines.push(line.replace(ESCAPED_FROM_LINE, '$1'));
+    }
+    flush();
+
+    return messages;
+  }
+}
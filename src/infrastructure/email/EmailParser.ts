@@ -14,6 +14,10 @@ export interface ParsedEmail {
   body: string;
   date: Date;
   uid: string;
+  /** Message-ID。同じメールの再送の判定に使用する */
+  messageId?: string;
+  /** 元のメール（RFC 822）。デッドレターへの保存や再処理に使用する */
+  source?: Buffer;
 }
 
 /**
@@ -53,6 +57,8 @@ export class EmailParser implements IEmailParser {
         body,
         date: parsed.date || new Date(),
         uid: rawMessage.uid,
+        messageId: parsed.messageId,
+        source: rawMessage.source,
       };
     } catch (error) {
       const appError = new AppError(
@@ -0,0 +1,105 @@
+import axios, { isAxiosError } from 'axios';
+import { logger } from '@shared/infrastructure/logging/Logger';
+import { AppError, ErrorType } from '@shared/errors/AppError';
+import { IImapAccessTokenProvider } from '@domain/interfaces/infrastructure/email/IImapAccessTokenProvider';
+
+/** Googleのトークンエンドポイント */
+const GOOGLE_TOKEN_ENDPOINT = 'https://oauth2.googleapis.com/token';
+
+/** 有効期限のこの時間（ミリ秒）前にアクセストークンを更新する */
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+/**
+ * OAuth2クライアントの認証情報
+ */
+export interface OAuth2Credentials {
+  clientId: string;
+  clientSecret: string;
+  refreshToken: string;
+}
+
+/**
+ * リフレッシュトークンを使用して、GmailのIMAPに接続するためのアクセストークンを提供するクラス
+ * アクセストークンは有効期限の5分前まで再利用し、それ以降は更新する
+ */
+export class GoogleOAuth2TokenProvider implements IImapAccessTokenProvider {
+  private readonly serviceContext = 'GoogleOAuth2TokenProvider';
+  private accessToken: string | null = null;
+  private expiresAt = 0;
+  // 同時に要求された場合に更新を1回にまとめるため、実行中の更新を保持する
+  private pendingRefresh: Promise<string> | null = null;
+
+  /**
+   * コンストラクタ
+   * @param credentials OAuth2クライアントの認証情報
+   * @param tokenEndpoint トークンエンドポイント
+   * @param now 現在時刻（ミリ秒）を返す関数
+   */
+  constructor(
+    private readonly credentials: OAuth2Credentials,
+    private readonly tokenEndpoint: string = GOOGLE_TOKEN_ENDPOINT,
+    private readonly now: () => number = () => Date.now()
+  ) { }
+
+  /**
+   * 有効なアクセストークンを取得する
+   * @returns アクセストークン
+   * @throws {AppError} アクセストークンを更新できない場合
+   */
+  async getAccessToken(): Promise<string> {
+    if (this.accessToken && this.now() < this.expiresAt - REFRESH_MARGIN_MS) {
+      return this.accessToken;
+    }
+
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = this.refresh().finally(() => {
+        this.pendingRefresh = null;
+      });
+    }
+    return this.pendingRefresh;
+  }
+
+  /**
+   * 保持しているアクセストークンを破棄する
+   */
+  invalidate(): void {
+    this.accessToken = null;
+    this.expiresAt = 0;
+  }
+
+  /**
+   * リフレッシュトークンでアクセストークンを更新する
+   */
+  private async refresh(): Promise<string> {
+    try {
+      const response = await axios.post(
+        this.tokenEndpoint,
+        new URLSearchParams({
+          grant_type: 'refresh_token',
+          client_id: this.credentials.clientId,
+          client_secret: this.credentials.clientSecret,
+          refresh_token: this.credentials.refreshToken,
+        }).toString(),
+        { headers: { 'Content-Type': 'application/x-www-form-urlencoded' } }
+      );
+
+      const { access_token: accessToken, expires_in: expiresIn } = response.data ?? {};
+      if (typeof accessToken !== 'string' || !accessToken) {
+        throw new Error('レスポンスにアクセストークンが含まれていません');
+      }
+
+      this.accessToken = accessToken;
+      this.expiresAt = this.now() + (Number(expiresIn) || 0) * 1000;
+      logger.debug('アクセストークンを更新しました', this.serviceContext);
+      return accessToken;
+    } catch (error) {
+      this.invalidate();
+      throw new AppError(
+        'OAuth2のアクセストークンを更新できませんでした',
+        ErrorType.AUTHENTICATION,
+        { tokenEndpoint: this.tokenEndpoint, response: isAxiosError(error) ? error.response?.data : undefined },
+        error instanceof Error ? error : new Error(String(error))
+      );
+    }
+  }
+}
@@ -3,7 +3,11 @@ import { logger } from '@shared/infrastructure/logging/Logger';
 import { AppError, ErrorType } from '@shared/errors/AppError';
 import { ErrorHandler } from '@shared/infrastructure/errors/ErrorHandler';
 import { EventEmitter } from 'events';
-import { IEmailClient, IImapConnectionConfig } from '@domain/interfaces/infrastructure/email/IEmailClient';
+import {
+  IEmailClient,
+  IImapConnectionConfig,
+  ImapMailboxStatus,
+} from '@domain/interfaces/infrastructure/email/IEmailClient';
 
 /**
  * IMAP接続管理のための型定義
@@ -12,10 +16,8 @@ export interface ImapConnectionConfig extends IImapConnectionConfig {
   host: string;
   port: number;
   secure: boolean;
-  auth: {
-    user: string;
-    pass: string;
-  };
+  /** IDLEによる新着通知を使用するか（デフォルト: true） */
+  idle?: boolean;
 }
 
 /**
@@ -64,12 +66,11 @@ export class ImapEmailClient extends EventEmitter implements IEmailClient {
         host: this.config.host,
         port: this.config.port,
         secure: this.config.secure,
-        auth: {
-          user: this.config.auth.user,
-          pass: this.config.auth.pass,
-        },
+        auth: await this.createAuth(),
         logger: false,
         emitLogs: false,
+        // IDLEを使用しない場合は自動IDLEを無効化する
+        disableAutoIdle: this.config.idle === false,
       });
 
       // エラーイベントをキャッチして、未処理のエラーを防ぐ
@@ -97,6 +98,14 @@ export class ImapEmailClient extends EventEmitter implements IEmailClient {
         this.scheduleReconnect(this.currentMailbox || mailboxName, context);
       });
 
+      // IDLE中に新着メールが届いた場合は通知する（件数が増えた場合のみ）
+      this.client.on('exists', (data) => {
+        if (data.count > data.prevCount) {
+          logger.info(`新着メールを検知しました: ${data.path} (${data.prevCount} → ${data.count})`, context);
+          this.emit('newMail', data.path);
+        }
+      });
+
       // サーバーに接続
       await this.client.connect();
       logger.info('IMAPサーバーに接続しました', context);
@@ -137,6 +146,12 @@ export class ImapEmailClient extends EventEmitter implements IEmailClient {
         { suppressNotification: true } // 初期接続エラーは通知しない
       );
 
+      // 認証に失敗した場合は、再接続時に更新したアクセストークンで認証する
+      if ((error as { authenticationFailed?: boolean })?.authenticationFailed && this.config.auth.accessTokenProvider) {
+        logger.warn('認証に失敗したため、アクセストークンを更新して再接続します', context);
+        this.config.auth.accessTokenProvider.invalidate();
+      }
+
       this.isConnected = false;
       logger.updateServiceStatus(context, 'error', `接続エラー: ${error instanceof Error ? error.message : String(error)}`);
       this.scheduleReconnect(mailboxName, context);
@@ -144,6 +159,19 @@ export class ImapEmailClient extends EventEmitter implements IEmailClient {
     }
   }
 
+  /**
+   * ImapFlowの認証情報を作成
+   * アクセストークンの提供元が指定されている場合はOAuth2（XOAUTH2）、それ以外はパスワードで認証する
+   * 接続のたびに取得するため、有効期限の近いアクセストークンは再接続時に更新される
+   */
+  private async createAuth(): Promise<{ user: string; pass?: string; accessToken?: string }> {
+    const { user, pass, accessTokenProvider } = this.config.auth;
+    if (accessTokenProvider) {
+      return { user, accessToken: await accessTokenProvider.getAccessToken() };
+    }
+    return { user, pass };
+  }
+
   /**
    * 指定された名前のメールボックスが利用可能かどうか確認し、パスを返す
    * @param mailboxes メールボックスの一覧
@@ -182,9 +210,76 @@ export class ImapEmailClient extends EventEmitter implements IEmailClient {
     return null;
   }
 
+  /**
+   * 現在開いているメールボックスのUID情報を取得する
+   * @returns UIDVALIDITYと次に割り当てられるUID（未接続の場合はnull）
+   */
+  getMailboxStatus(): ImapMailboxStatus | null {
+    if (!this.client || !this.isConnected || !this.client.mailbox) return null;
+
+    return {
+      uidValidity: this.client.mailbox.uidValidity.toString(),
+      uidNext: this.client.mailbox.uidNext,
+    };
+  }
+
+  /**
+   * 指定したUIDより後に届いたメッセージのUIDを取得する
+   * 既読・未読に関わらず取得するため、他のクライアントで先に開かれたメールも対象となる
+   * @param lastUid 処理済みの最大UID
+   * @returns UIDの昇順の配列
+   */
+  @ErrorHandler.errorDecorator('fetchMessageUidsAfter', {
+    suppressNotification: true, // 頻繁に発生する可能性がある
+    rethrow: false, // falseにして内部でハンドリング
+  })
+  async fetchMessageUidsAfter(lastUid: number): Promise<string[]> {
+    const context = `${this.serviceContext}:${this.currentMailbox}`;
+    if (!this.client || !this.isConnected) return [];
+
+    try {
+      const messages = await this.client.search({ uid: `${lastUid + 1}:*` }, { uid: true });
+
+      if (!messages || !Array.isArray(messages)) {
+        return [];
+      }
+
+      // 「n:*」は該当がない場合も最新のメッセージを返すため、処理済みのUIDを除外する
+      const uids = messages
+        .filter((uid) => uid > lastUid)
+        .sort((a, b) => a - b);
+
+      logger.info(`新着メール検索結果: ${uids.length} 件 (UID > ${lastUid})`, context);
+      return uids.map((uid) => uid.toString());
+    } catch (error) {
+      const appError = new AppError(
+        '新着メール取得中にエラーが発生しました',
+        ErrorType.EMAIL,
+        { lastUid },
+        error instanceof Error ? error : new Error(String(error))
+      );
+      logger.error(appError, context);
+
+      // 接続エラーの場合は接続状態を更新
+      if (error instanceof Error && (
+        (error as any).code === 'NoConnection' ||
+        error.message.includes('Connection not available')
+      )) {
+        this.isConnected = false;
+        logger.updateServiceStatus(context, 'error', '接続が切断されました');
+        this.emit('connectionLost', this.currentMailbox);
+
+        // 明示的に再接続プロセスを開始
+        this.scheduleReconnect(this.currentMailbox || 'INBOX', context);
+      }
+
+      return [];
+    }
+  }
+
   /**
    * 未読メッセージを取得する
-   * @returns 未読メッセージの配列
+   * @returns 未読メッセージのUIDの配列
    */
   @ErrorHandler.errorDecorator('fetchUnseenMessages', {
     suppressNotification: true, // 頻繁に発生する可能性がある
@@ -196,7 +291,7 @@ export class ImapEmailClient extends EventEmitter implements IEmailClient {
 
     try {
       // 未読メールを検索 (UNSEEN検索フラグを使用)
-      const messages = await this.client.search({ seen: false });
+      const messages = await this.client.search({ seen: false }, { uid: true });
 
       // messagesがfalseまたはnullの場合（検索結果がない場合）は空配列を返す
       if (!messages || !Array.isArray(messages)) {
@@ -247,7 +342,7 @@ export class ImapEmailClient extends EventEmitter implements IEmailClient {
 
     try {
       // メッセージ全体を取得
-      const message = await this.client.fetchOne(uid, { source: true });
+      const message = await this.client.fetchOne(uid, { source: true }, { uid: true });
       if (!message || !message.source) {
         const appError = new AppError(
           `メッセージの取得に失敗しました: ${uid}`,
@@ -302,7 +397,7 @@ export class ImapEmailClient extends EventEmitter implements IEmailClient {
 
     try {
       // メッセージに既読フラグを設定
-      await this.client.messageFlagsAdd(uid, ['\\Seen']);
+      await this.client.messageFlagsAdd(uid, ['\\Seen'], { uid: true });
       logger.info(`メール処理完了 UID=${uid} (既読にマークしました)`, context);
       return true;
     } catch (error) {
@@ -464,6 +559,15 @@ export class ImapEmailClient extends EventEmitter implements IEmailClient {
     return this.isConnected;
   }
 
+  /**
+   * IDLEによる新着通知が有効かどうか確認
+   * 設定で無効化されている場合や、サーバーがIDLEに対応していない場合はfalse
+   */
+  isIdleActive(): boolean {
+    if (!this.client || !this.isConnected || this.config.idle === false) return false;
+    return this.client.capabilities.has('IDLE');
+  }
+
   /**
    * 接続を閉じる
    */
@@ -484,8 +588,9 @@ export class ImapEmailClient extends EventEmitter implements IEmailClient {
 
     if (this.client) {
       try {
-        // エラーイベントリスナーを削除
+        // イベントリスナーを削除
         this.client.removeAllListeners('error');
+        this.client.removeAllListeners('exists');
 
         // 接続が既にない場合はlogoutをスキップ
         if (this.isConnected) {
@@ -4,11 +4,28 @@ import { AppError, ErrorType } from '@shared/errors/AppError';
 import { ImapEmailClient, ImapConnectionConfig } from '@infrastructure/email/ImapEmailClient';
 import { EmailParser, ParsedEmail } from '@infrastructure/email/EmailParser';
 import { CardUsageExtractor } from '@infrastructure/email/CardUsageExtractor';
+import { CardIssuerParserRegistry } from '@infrastructure/email/issuers/CardIssuerParserRegistry';
+import { ICardIssuerParserRegistry } from '@domain/interfaces/infrastructure/email/ICardIssuerParserRegistry';
+import {
+  IImapStateRepository,
+} from '@domain/interfaces/infrastructure/database/repositories/IImapStateRepository';
+import { FirestoreImapStateRepository } from '@infrastructure/database/repositories/FirestoreImapStateRepository';
 import { IEmailService } from '@domain/interfaces/infrastructure/email/IEmailService';
+import { IImapAccessTokenProvider } from '@domain/interfaces/infrastructure/email/IImapAccessTokenProvider';
 import { CardCompany } from '@domain/enums/CardCompany';
 import { CardUsage } from '@shared/domain/entities/CardUsage';
 import { ErrorHandler } from '@shared/infrastructure/errors/ErrorHandler';
 
+/**
+ * メール監視の設定
+ */
+export interface ImapMonitoringOptions {
+  /** IDLEによるプッシュ通知を使用するか */
+  idle: boolean;
+  /** ポーリング間隔（ミリ秒）。IDLEモードではフォールバックとして動作する */
+  pollingInterval: number;
+}
+
 /**
  * IMAP接続とメール処理のサービス
  * メール監視、メール解析、カード利用情報抽出のフローを調整
@@ -18,8 +35,11 @@ export class ImapEmailService implements IEmailService {
   private emailParser: EmailParser;
   private cardUsageExtractor: CardUsageExtractor;
   private pollingTimer: NodeJS.Timeout | null = null;
-  private processedUids = new Set<string>();
   private isMonitoring = false;
+  // ポーリングの多重実行を防ぐフラグ
+  private isPolling = false;
+  // 実行中に新着の確認を要求された場合、完了後に再実行するフラグ
+  private isPollRequested = false;
   private readonly serviceContext: string;
 
   // 再接続のために最後の接続情報を保持
@@ -30,14 +50,25 @@ export class ImapEmailService implements IEmailService {
    * インスタンスを初期化
    * @param server IMAPサーバー
    * @param user ユーザー名
-   * @param password パスワード
+   * @param credential パスワード、またはOAuth2（XOAUTH2）で認証する場合のアクセストークンの提供元
+   * @param parserRegistry カード会社パーサーのレジストリ
+   * @param imapStateRepository 処理済みUIDを永続化するリポジトリ
+   * @param monitoringOptions メール監視の設定
+   * @param serviceName ステータスダッシュボードに表示するサービス名
    */
   constructor(
     private readonly server: string = Environment.IMAP_SERVER,
     private readonly user: string = Environment.IMAP_USER,
-    private readonly password: string = Environment.IMAP_PASSWORD
+    private readonly credential: string | IImapAccessTokenProvider = Environment.IMAP_PASSWORD,
+    parserRegistry: ICardIssuerParserRegistry = new CardIssuerParserRegistry(),
+    private readonly imapStateRepository: IImapStateRepository = new FirestoreImapStateRepository(),
+    private readonly monitoringOptions: ImapMonitoringOptions = {
+      idle: Environment.IMAP_IDLE_ENABLED,
+      pollingInterval: Environment.IMAP_POLLING_INTERVAL,
+    },
+    serviceName = 'ImapEmailService'
   ) {
-    this.serviceContext = 'ImapEmailService';
+    this.serviceContext = serviceName;
     logger.updateServiceStatus(this.serviceContext, 'offline', '初期化済み');
 
     // 依存オブジェクトの初期化
@@ -45,15 +76,15 @@ export class ImapEmailService implements IEmailService {
       host: this.server,
       port: 993,
       secure: true,
-      auth: {
-        user: this.user,
-        pass: this.password,
-      },
+      auth: typeof this.credential === 'string' ?
+        { user: this.user, pass: this.credential } :
+        { user: this.user, accessTokenProvider: this.credential },
+      idle: this.monitoringOptions.idle,
     };
 
     this.imapClient = new ImapEmailClient(config);
     this.emailParser = new EmailParser();
-    this.cardUsageExtractor = new CardUsageExtractor();
+    this.cardUsageExtractor = new CardUsageExtractor(parserRegistry);
 
     // 接続イベントの監視
     this.imapClient.on('connectionLost', (mailboxName) => {
@@ -76,6 +107,22 @@ export class ImapEmailService implements IEmailService {
       logger.info(`IMAPクライアントの自動再接続プロセスが開始されるのを待機しています: ${mailboxName}`, this.serviceContext);
     });
 
+    // IDLEで新着メールを検知したら即時に取得する
+    this.imapClient.on('newMail', (mailboxName) => {
+      if (!this.isMonitoring || !this._lastCallback || !this._lastConnectedMailbox) return;
+
+      const context = `${this.serviceContext}:${this._lastConnectedMailbox}`;
+      this.pollForNewMessages(this._lastCallback, context).catch((error) => {
+        const appError = new AppError(
+          '新着メールの取得中にエラーが発生しました',
+          ErrorType.EMAIL,
+          { mailboxName },
+          error instanceof Error ? error : new Error(String(error))
+        );
+        logger.error(appError, context);
+      });
+    });
+
     this.imapClient.on('reconnected', (mailboxName) => {
       logger.info(`再接続に成功しました: ${mailboxName}`, this.serviceContext);
 
@@ -142,7 +189,18 @@ export class ImapEmailService implements IEmailService {
     if (this.isMonitoring) return;
 
     this.isMonitoring = true;
-    logger.info('メールポーリング監視を開始します（IDLEモードなし）', context);
+
+    const intervalSeconds = Math.round(this.monitoringOptions.pollingInterval / 1000);
+    if (this.imapClient.isIdleActive()) {
+      logger.info(`IDLEモードでメール監視を開始します（${intervalSeconds}秒間隔のポーリングをフォールバックとして併用）`, context);
+      logger.updateServiceStatus(this.serviceContext, 'online', `IDLEモード（フォールバック: ${intervalSeconds}秒間隔のポーリング）`);
+    } else {
+      if (this.monitoringOptions.idle) {
+        logger.warn('サーバーがIDLEに対応していないため、ポーリングで監視します', context);
+      }
+      logger.info(`メールポーリング監視を開始します（${intervalSeconds}秒間隔）`, context);
+      logger.updateServiceStatus(this.serviceContext, 'online', `ポーリングモード（${intervalSeconds}秒間隔）`);
+    }
 
     // 初回は即時実行
     this.pollForNewMessages(callback, context).catch((error) => {
@@ -160,16 +218,16 @@ export class ImapEmailService implements IEmailService {
   }
 
   /**
-   * ポーリングによる未読メール取得 (1分間隔)
+   * ポーリングによる新着メール取得（IDLEモードではフォールバック）
    */
   private setupPolling(callback: (email: ParsedEmail) => Promise<void>, context: string): void {
     if (this.pollingTimer) clearInterval(this.pollingTimer);
 
-    // 1分間隔で未読メッセージをチェック
+    // 設定された間隔で新着メッセージをチェック
     this.pollingTimer = setInterval(async () => {
       if (this.imapClient.isActive()) {
         try {
-          logger.info('ポーリング: 未読メールを確認しています', context);
+          logger.info('ポーリング: 新着メールを確認しています', context);
           await this.pollForNewMessages(callback, context);
         } catch (error) {
           const appError = new AppError(
@@ -181,46 +239,147 @@ export class ImapEmailService implements IEmailService {
           logger.error(appError, context);
         }
       }
-    }, 1 * 60 * 1000); // 1分ごと
+    }, this.monitoringOptions.pollingInterval);
   }
 
   /**
-   * 未読メッセージを取得して処理する
+   * 新着メッセージを確認する
+   * 実行中に呼ばれた場合（IDLEの通知とポーリングの重複など）は、完了後にもう一度確認する
    */
   private async pollForNewMessages(callback: (email: ParsedEmail) => Promise<void>, context: string): Promise<void> {
-    // 未読メールのUID一覧を取得
-    const messageUids = await this.imapClient.fetchUnseenMessages();
+    if (this.isPolling) {
+      logger.debug('前回のメール確認が実行中のため、完了後に再確認します', context);
+      this.isPollRequested = true;
+      return;
+    }
+
+    this.isPolling = true;
+    try {
+      do {
+        this.isPollRequested = false;
+        await this.processNewMessages(callback, context);
+      } while (this.isPollRequested && this.isMonitoring);
+    } finally {
+      this.isPolling = false;
+      this.isPollRequested = false;
+    }
+  }
+
+  /**
+   * 前回処理したUIDより後のメッセージを取得して処理する
+   * 処理済みのUIDはメールボックスごとに永続化し、既読フラグには依存しない
+   */
+  private async processNewMessages(callback: (email: ParsedEmail) => Promise<void>, context: string): Promise<void> {
+    const mailboxStatus = this.imapClient.getMailboxStatus();
+    if (!mailboxStatus || !this._lastConnectedMailbox) return;
+
+    const mailboxKey = `${this.user}:${this._lastConnectedMailbox}`;
+    const state = await this.imapStateRepository.getMailboxState(mailboxKey);
+
+    if (state && state.uidValidity === mailboxStatus.uidValidity) {
+      await this.processMessagesAfter(state.lastUid, mailboxKey, mailboxStatus.uidValidity, callback, context);
+      return;
+    }
+
+    if (state) {
+      logger.warn(
+        `UIDVALIDITYが変わったため、未読メールから処理し直します (${state.uidValidity} → ${mailboxStatus.uidValidity})`,
+        context
+      );
+    }
+
+    // 処理状態がない場合は未読メールを処理し、その後はUIDで新着を追跡する
+    const processedUid = await this.processUnseenMessages(callback, context);
+    if (processedUid === null) return;
+
+    await this.imapStateRepository.saveMailboxState(mailboxKey, {
+      uidValidity: mailboxStatus.uidValidity,
+      lastUid: Math.max(mailboxStatus.uidNext - 1, processedUid),
+      updatedAt: new Date().toISOString(),
+    });
+    logger.info(`UIDによる新着メールの追跡を開始しました: ${mailboxKey}`, context);
+  }
+
+  /**
+   * 処理済みのUIDより後のメッセージを順に処理し、1件ごとに処理状態を保存する
+   */
+  private async processMessagesAfter(
+    lastUid: number,
+    mailboxKey: string,
+    uidValidity: string,
+    callback: (email: ParsedEmail) => Promise<void>,
+    context: string
+  ): Promise<void> {
+    const messageUids = await this.imapClient.fetchMessageUidsAfter(lastUid);
 
     for (const uid of messageUids) {
-      if (this.processedUids.has(uid)) continue;
+      // 取得できない場合は接続の問題とみなし、次回のポーリングで再試行する
+      const processed = await this.processMessage(uid, callback, context);
+      if (!processed) break;
+
+      await this.imapStateRepository.saveMailboxState(mailboxKey, {
+        uidValidity,
+        lastUid: Number(uid),
+        updatedAt: new Date().toISOString(),
+      });
+    }
+  }
 
-      try {
-        // メッセージ本文を取得
-        const rawMessage = await this.imapClient.fetchMessage(uid);
-        if (!rawMessage) continue;
+  /**
+   * 未読メッセージを処理する（処理状態が未記録の場合のみ）
+   * @returns 処理した最大のUID（メッセージを取得できなかった場合はnull）
+   */
+  private async processUnseenMessages(
+    callback: (email: ParsedEmail) => Promise<void>,
+    context: string
+  ): Promise<number | null> {
+    const messageUids = await this.imapClient.fetchUnseenMessages();
+
+    let maxUid = 0;
+    for (const uid of messageUids) {
+      const processed = await this.processMessage(uid, callback, context);
+      if (!processed) return null;
 
-        // メールのパース
-        const parsedEmail = await this.emailParser.parseEmail(rawMessage);
-        if (parsedEmail) {
-          // コールバックで処理を実行
-          await callback(parsedEmail);
+      maxUid = Math.max(maxUid, Number(uid));
+    }
+    return maxUid;
+  }
 
-          // 処理済みとしてマーク
-          this.processedUids.add(uid);
+  /**
+   * 1件のメッセージを取得してコールバックで処理する
+   * コールバックが失敗したメッセージはエラーを記録して処理済みとし、未読のまま残す
+   * @returns メッセージを取得できた場合はtrue
+   */
+  private async processMessage(
+    uid: string,
+    callback: (email: ParsedEmail) => Promise<void>,
+    context: string
+  ): Promise<boolean> {
+    // メッセージ本文を取得
+    const rawMessage = await this.imapClient.fetchMessage(uid);
+    if (!rawMessage) return false;
 
-          // メッセージを既読にマーク
-          await this.imapClient.markAsSeen(uid);
-        }
-      } catch (error) {
-        const appError = new AppError(
-          `メール処理失敗 UID=${uid}`,
-          ErrorType.EMAIL,
-          { uid },
-          error instanceof Error ? error : new Error(String(error))
-        );
-        logger.error(appError, context);
+    try {
+      // メールのパース
+      const parsedEmail = await this.emailParser.parseEmail(rawMessage);
+      if (parsedEmail) {
+        // コールバックで処理を実行
+        await callback(parsedEmail);
+
+        // メッセージを既読にマーク
+        await this.imapClient.markAsSeen(uid);
       }
+    } catch (error) {
+      const appError = new AppError(
+        `メール処理失敗 UID=${uid}`,
+        ErrorType.EMAIL,
+        { uid },
+        error instanceof Error ? error : new Error(String(error))
+      );
+      logger.error(appError, context);
     }
+
+    return true;
   }
 
   /**
@@ -238,6 +397,23 @@ export class ImapEmailService implements IEmailService {
     return this.cardUsageExtractor.extractFromEmailBody(emailContent, cardCompany);
   }
 
+  /**
+   * メールからすべての利用明細のカード利用情報を抽出
+   * @param emailContent メール本文
+   * @param cardCompany カード会社の種類
+   * @returns 抽出されたカード利用情報（最低1件）
+   */
+  @ErrorHandler.errorDecorator('ImapEmailService', {
+    defaultMessage: 'メールからカード利用情報の抽出に失敗しました',
+    rethrow: true,
+  })
+  async parseCardUsagesFromEmail(
+    emailContent: string,
+    cardCompany: CardCompany = CardCompany.MUFG
+  ): Promise<CardUsage[]> {
+    return this.cardUsageExtractor.extractAllFromEmailBody(emailContent, cardCompany);
+  }
+
   /**
    * 接続を閉じる
    */
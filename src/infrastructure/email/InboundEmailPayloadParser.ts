@@ -0,0 +1,123 @@
+import {
+  IInboundEmailPayloadParser,
+  InboundEmailPayload,
+} from '@domain/interfaces/infrastructure/email/IInboundEmailPayloadParser';
+
+/** 元のメール（RFC 822）がそのまま格納されるフィールド（SendGridの「email」、Mailgunの「body-mime」） */
+const RAW_MESSAGE_FIELDS = ['email', 'body-mime'];
+
+/** マルチパートの各パートのヘッダーと本文の区切り */
+const PART_HEADER_END = '\r\n\r\n';
+
+/**
+ * 受信Webhookのリクエストボディの解析を行うクラス
+ * multipart/form-data・application/x-www-form-urlencoded の場合はSendGrid・Mailgun形式のフォーム、
+ * それ以外の場合はRFC 822形式のメールそのものとして扱う
+ */
+export class InboundEmailPayloadParser implements IInboundEmailPayloadParser {
+  /**
+   * リクエストボディを解析し、元のメールを取り出す
+   * フォームに元のメールが含まれない場合は、差出人・件名・本文のフィールドからメールを組み立てる
+   * @param body リクエストボディ
+   * @param contentType リクエストのContent-Type
+   * @returns 解析結果
+   */
+  parse(body: Buffer, contentType: string): InboundEmailPayload {
+    const mediaType = contentType.split(';')[0].trim().toLowerCase();
+
+    if (mediaType === 'multipart/form-data') {
+      const boundary = /boundary="?([^";]+)"?/i.exec(contentType)?.[1];
+      return boundary ? this.fromParts(this.parseMultipart(body, boundary)) : { fields: {}, source: null };
+    }
+
+    if (mediaType === 'application/x-www-form-urlencoded') {
+      const parts: Record<string, Buffer> = {};
+      for (const [name, value] of new URLSearchParams(body.toString('utf8'))) {
+        parts[name] = Buffer.from(value, 'utf8');
+      }
+      return this.fromParts(parts);
+    }
+
+    return { fields: {}, source: body.length > 0 ? body : null };
+  }
+
+  /**
+   * multipart/form-data を名前ごとのバイト列に分割（添付ファイルのパートは除く）
+   * @param body リクエストボディ
+   * @param boundary パートの区切り文字列
+   */
+  private parseMultipart(body: Buffer, boundary: string): Record<string, Buffer> {
+    const parts: Record<string, Buffer> = {};
+    const delimiter = Buffer.from(`--${boundary}`);
+
+    let start = body.indexOf(delimiter);
+    while (start !== -1) {
+      const next = body.indexOf(delimiter, start + delimiter.length);
+      if (next === -1) break;
+
+      const part = body.subarray(start + delimiter.length, next);
+      const headerEnd = part.indexOf(PART_HEADER_END);
+      if (headerEnd !== -1) {
+        const headers = part.subarray(0, headerEnd).toString('utf8');
+        const name = /\bname="([^"]*)"/i.exec(headers)?.[1];
+        if (name && !/\bfilename=/i.test(headers)) {
+          // 末尾の改行は次の区切りの一部
+          parts[name] = part.subarray(headerEnd + PART_HEADER_END.length, part.length - 2);
+        }
+      }
+      start = next;
+    }
+
+    return parts;
+  }
+
+  /**
+   * フォームのフィールドから解析結果を作成
+   * @param parts 名前ごとのバイト列
+   */
+  private fromParts(parts: Record<string, Buffer>): InboundEmailPayload {
+    const fields: Record<string, string> = {};
+    for (const [name, value] of Object.entries(parts)) {
+      fields[name] = value.toString('utf8');
+    }
+
+    // 元のメールは文字コードを変えずにバイト列のまま使用する
+    const rawField = RAW_MESSAGE_FIELDS.find((name) => parts[name]?.length);
+    return { fields, source: rawField ? parts[rawField] : this.composeMessage(fields) };
+  }
+
+  /**
+   * 差出人・件名・本文のフィールドからRFC 822形式のメールを組み立てる
+   * @param fields フォームのフィールド
+   * @returns 組み立てたメール（本文がない場合はnull）
+   */
+  private composeMessage(fields: Record<string, string>): Buffer | null {
+    const html = fields.html || fields['body-html'];
+    const content = html || fields.text || fields['body-plain'];
+    if (!content) {
+      return null;
+    }
+
+    const date = fields.Date || this.findHeader(fields.headers, 'Date');
+    const lines = [
+      `From: ${fields.from || fields.sender || ''}`,
+      `Subject: =?UTF-8?B?${Buffer.from(fields.subject || '', 'utf8').toString('base64')}?=`,
+      ...(date ? [`Date: ${date}`] : []),
+      'MIME-Version: 1.0',
+      `Content-Type: ${html ? 'text/html' : 'text/plain'}; charset=UTF-8`,
+      'Content-Transfer-Encoding: base64',
+      '',
+      Buffer.from(content, 'utf8').toString('base64').replace(/.{76}/g, '$&\r\n'),
+    ];
+    return Buffer.from(lines.join('\r\n'), 'utf8');
+  }
+
+  /**
+   * ヘッダーの文字列（SendGridの「headers」フィールド）から指定したヘッダーの値を取得
+   * @param headers ヘッダーの文字列
+   * @param name ヘッダー名
+   */
+  private findHeader(headers: string | undefined, name: string): string | undefined {
+    return headers ? new RegExp(`^${name}:[ \\t]*(.+?)\\r?$`, 'im').exec(headers)?.[1] : undefined;
+  }
+}
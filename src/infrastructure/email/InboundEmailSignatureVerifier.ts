@@ -0,0 +1,102 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import {
+  IInboundEmailSignatureVerifier,
+  InboundEmailSignatureHeaders,
+} from '@domain/interfaces/infrastructure/email/IInboundEmailSignatureVerifier';
+
+/** 署名時刻の許容誤差（秒）。これより古い署名はリプレイとみなして拒否する */
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+/**
+ * 受信Webhookのリクエストの署名検証を行うクラス
+ * 次のいずれかの方式で、共有シークレットによるHMAC-SHA256の署名を検証する
+ * - ヘッダー方式: X-Inbound-Signature に「X-Inbound-Timestampの値.リクエストボディ」の署名（16進数）を指定
+ * - Mailgun方式: フォームの timestamp・token・signature フィールド（「timestamp + token」の署名）
+ *
+ * Mailgun方式の署名はリクエストボディを含まないため、署名時刻の許容範囲内に同じtokenを再利用したリクエストは
+ * 本文を差し替えたリプレイとみなして拒否する
+ */
+export class InboundEmailSignatureVerifier implements IInboundEmailSignatureVerifier {
+  /** 使用済みのtokenと、リプレイを拒否する期限（ミリ秒） */
+  private readonly usedTokens = new Map<string, number>();
+
+  /**
+   * コンストラクタ
+   * @param secret 共有シークレット（未設定の場合はすべてのリクエストを拒否する）
+   * @param toleranceSeconds 署名時刻の許容誤差（秒）
+   * @param now 現在時刻（ミリ秒）を返す関数
+   */
+  constructor(
+    private readonly secret: string,
+    private readonly toleranceSeconds: number = DEFAULT_TOLERANCE_SECONDS,
+    private readonly now: () => number = () => Date.now()
+  ) { }
+
+  /**
+   * リクエストの署名を検証
+   * @param body リクエストボディ
+   * @param headers リクエストヘッダーで指定された署名
+   * @param fields フォームのフィールド
+   * @returns 署名が正しい場合true
+   */
+  verify(body: Buffer, headers: InboundEmailSignatureHeaders, fields: Record<string, string>): boolean {
+    if (!this.secret) {
+      return false;
+    }
+
+    if (headers.signature && headers.timestamp) {
+      return this.isFresh(headers.timestamp) &&
+        this.matches(Buffer.concat([Buffer.from(`${headers.timestamp}.`), body]), headers.signature);
+    }
+
+    if (fields.signature && fields.timestamp && fields.token) {
+      return this.isFresh(fields.timestamp) &&
+        this.matches(Buffer.from(`${fields.timestamp}${fields.token}`), fields.signature) &&
+        this.useToken(fields.token, fields.timestamp);
+    }
+
+    return false;
+  }
+
+  /**
+   * 署名時刻が許容範囲内かどうか
+   * @param timestamp 署名時刻のUNIX秒
+   */
+  private isFresh(timestamp: string): boolean {
+    const seconds = Number(timestamp);
+    return Number.isFinite(seconds) && Math.abs(this.now() / 1000 - seconds) <= this.toleranceSeconds;
+  }
+
+  /**
+   * tokenを使用済みとして記録する
+   * 署名時刻が許容範囲外になったtokenは署名の検証で拒否されるため、それまでの間だけ記録する
+   * @param token Mailgun方式のtoken
+   * @param timestamp 署名時刻のUNIX秒
+   * @returns 未使用のtokenの場合true
+   */
+  private useToken(token: string, timestamp: string): boolean {
+    const now = this.now();
+    for (const [usedToken, expiresAt] of this.usedTokens) {
+      if (expiresAt < now) {
+        this.usedTokens.delete(usedToken);
+      }
+    }
+
+    if (this.usedTokens.has(token)) {
+      return false;
+    }
+    this.usedTokens.set(token, (Number(timestamp) + this.toleranceSeconds) * 1000);
+    return true;
+  }
+
+  /**
+   * 署名が一致するかどうか（タイミング攻撃を避けるため定数時間で比較する）
+   * @param payload 署名対象のデータ
+   * @param signature 指定された署名（16進数。「sha256=」の接頭辞を許容する）
+   */
+  private matches(payload: Buffer, signature: string): boolean {
+    const expected = createHmac('sha256', this.secret).update(payload).digest();
+    const actual = Buffer.from(signature.replace(/^sha256=/, ''), 'hex');
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  }
+}
@@ -0,0 +1,134 @@
+import { logger } from '@shared/infrastructure/logging/Logger';
+import {
+  CardIssuerDetectionRules,
+  CardIssuerSampleFixture,
+} from '@domain/interfaces/infrastructure/email/ICardIssuerParser';
+import { CardUsage } from '@shared/domain/entities/CardUsage';
+import { CardUsageFactory } from '@shared/domain/factories/CardUsageFactory';
+import { BaseCardIssuerParser } from '@infrastructure/email/issuers/BaseCardIssuerParser';
+
+/**
+ * イオンカードのメールパーサー
+ * 「ご利用速報」は1通に複数件の利用明細を含むため、「ご利用日」で始まるブロックごとに抽出する
+ */
+export class AeonIssuerParser extends BaseCardIssuerParser {
+  readonly cardCompany = 'AEON';
+  readonly displayName = 'イオンカード';
+  readonly mailboxName = 'イオンカード';
+  private readonly serviceContext = 'AeonIssuerParser';
+  private readonly defaultCardName = 'イオンカード';
+
+  readonly detectionRules: CardIssuerDetectionRules = {
+    senders: ['aeon.co.jp', 'aeoncredit.co.jp'],
+    subjectKeywords: ['イオンカード', 'ご利用速報'],
+    bodyKeywords: ['イオンカード', 'AEON'],
+  };
+
+  readonly sampleFixtures: CardIssuerSampleFixture[] = [
+    {
+      description: 'ご利用速報（複数件）',
+      email: {
+        subject: '【イオンカード】カードご利用速報',
+        from: 'info@aeon.co.jp',
+        body: [
+          'イオンカードをご利用いただき、ありがとうございます。',
+          '',
+          'ご利用カード：イオンカードセレクト',
+          '',
+          'ご利用日：2025/05/10',
+          'ご利用先：イオンスタイル',
+          'ご利用金額：3,210円',
+          '',
+          'ご利用日：2025/05/11',
+          'ご利用先：ミニストップ',
+          'ご利用金額：298円',
+          '',
+        ].join('\n'),
+      },
+      expected: [
+        {
+          /* eslint-disable camelcase */
+          card_name: 'イオンカードセレクト',
+          amount: 3210,
+          where_to_use: 'イオンスタイル',
+          /* eslint-enable camelcase */
+        },
+        {
+          /* eslint-disable camelcase */
+          card_name: 'イオンカードセレクト',
+          amount: 298,
+          where_to_use: 'ミニストップ',
+          /* eslint-enable camelcase */
+        },
+      ],
+    },
+  ];
+
+  /**
+   * イオンカードのメールからすべての利用明細を抽出
+   * @param body メール本文
+   * @returns 抽出されたカード利用情報（最低1件）
+   */
+  extract(body: string): CardUsage[] {
+    const context = this.serviceContext;
+    logger.debug('イオンカードのメール本文解析', context);
+
+    /* eslint-disable camelcase */
+    const cardNameMatch = body.match(/ご利用カード\s*[：:]\s*([^\n]+)/);
+    const card_name = cardNameMatch?.[1]?.trim() || this.defaultCardName;
+
+    const blocks = this.splitIntoBlocks(body, /ご利用日\s*[：:]/);
+
+    if (blocks.length === 0) {
+      logger.warn('利用明細が見つかりませんでした。本文全体から抽出します', context);
+      return [this.parseBlock(body, card_name, context)];
+    }
+
+    logger.debug(`利用明細: ${blocks.length}件`, context);
+    return blocks.map((block) => this.parseBlock(block, card_name, context));
+    /* eslint-enable camelcase */
+  }
+
+  /**
+   * 1件分の利用明細からカード利用情報を生成
+   * @param block 利用明細のテキスト
+   * @param card_name カード名
+   * @param context ログのコンテキスト
+   */
+  // eslint-disable-next-line camelcase
+  private parseBlock(block: string, card_name: string, context: string): CardUsage {
+    const dateMatch = block.match(/ご利用日\s*[：:]\s*(\d{4})\/(\d{1,2})\/(\d{1,2})/);
+    const whereToUseMatch = block.match(/ご利用先\s*[：:]\s*([^\n]+)/);
+    const amountMatch = block.match(/ご利用金額\s*[：:]\s*([\d,]+)\s*円/);
+
+    /* eslint-disable camelcase */
+    const where_to_use = whereToUseMatch?.[1]?.trim() || '不明';
+    const amount = this.parseAmount(amountMatch?.[1] || '0');
+
+    // 利用日は日付のみのため、日本時間の0時として扱う
+    let isoDate: string;
+    if (dateMatch) {
+      const [, year, month, day] = dateMatch;
+      isoDate = this.toJstIsoString(year, month, day);
+    } else {
+      logger.warn('利用日を取得できませんでした。現在時刻を使用します', context);
+      isoDate = new Date().toISOString();
+    }
+
+    logger.debug('抽出データ（イオンカード）:', context);
+    logger.debug(JSON.stringify({
+      card_name,
+      datetime_of_use: isoDate,
+      amount,
+      where_to_use,
+    }), context);
+
+    return CardUsageFactory.create(
+      card_name,
+      isoDate,
+      amount,
+      where_to_use,
+    );
+    /* eslint-enable camelcase */
+  }
+}
@@ -0,0 +1,157 @@
+import { CardCompany } from '@domain/enums/CardCompany';
+import {
+  CardIssuerDetectionResult,
+  CardIssuerDetectionRules,
+  CardIssuerSampleFixture,
+  DetectableEmail,
+  ICardIssuerParser,
+} from '@domain/interfaces/infrastructure/email/ICardIssuerParser';
+import { CardUsage } from '@shared/domain/entities/CardUsage';
+
+/**
+ * カード会社パーサーの基底クラス
+ * 判定ルールに基づくメール判定を共通化し、抽出処理はサブクラスで実装する
+ */
+export abstract class BaseCardIssuerParser implements ICardIssuerParser {
+  abstract readonly cardCompany: CardCompany;
+  abstract readonly displayName: string;
+  abstract readonly mailboxName: string;
+  abstract readonly detectionRules: CardIssuerDetectionRules;
+  abstract readonly sampleFixtures: CardIssuerSampleFixture[];
+
+  /**
+   * メール本文からカード利用情報を抽出
+   * 1通に複数件の利用明細を含む場合は、明細ごとにカード利用情報を返す
+   * @param body メール本文
+   * @returns 抽出されたカード利用情報（最低1件）
+   */
+  abstract extract(body: string): CardUsage[];
+
+  /**
+   * 判定ルールに基づいてメールを判定
+   * 送信元のいずれかに一致する、または件名と本文のキーワードが両方一致した場合に該当とする
+   * @param email 判定対象のメール
+   */
+  detect(email: DetectableEmail): CardIssuerDetectionResult {
+    const { senders, subjectKeywords, bodyKeywords } = this.detectionRules;
+
+    const matchedSenders = senders.filter((sender) => email.from.includes(sender));
+    const matchedSubjects = subjectKeywords.filter((keyword) => email.subject.includes(keyword));
+    const matchedBodies = bodyKeywords.filter((keyword) => email.body.includes(keyword));
+
+    const matchedRules = [
+      ...matchedSenders.map((sender) => `sender:${sender}`),
+      ...matchedSubjects.map((keyword) => `subject:${keyword}`),
+      ...matchedBodies.map((keyword) => `body:${keyword}`),
+    ];
+
+    const fromCheck = matchedSenders.length > 0;
+    const subjectCheck = matchedSubjects.length > 0;
+    const bodyCheck = matchedBodies.length > 0;
+
+    let matchedBy: CardIssuerDetectionResult['matchedBy'] = null;
+    if (fromCheck) {
+      matchedBy = 'sender';
+    } else if (subjectCheck && bodyCheck) {
+      matchedBy = 'keywords';
+    }
+
+    return {
+      matched: matchedBy !== null,
+      matchedBy,
+      matchedRules,
+    };
+  }
+
+  /**
+   * 取消・返金のお知らせかどうかを判定
+   * 本文に取消・返金を示す語句が含まれる場合に該当とする
+   * @param body メール本文（または明細ブロック）
+   */
+  protected isRefundNotice(body: string): boolean {
+    return /取消|取り消し|返金|返品/.test(body);
+  }
+
+  /**
+   * カード利用情報を取消・返金として扱う
+   * 金額は本文の符号に関わらず負の値とする
+   * @param cardUsage 抽出したカード利用情報
+   * @returns 取消・返金のカード利用情報
+   */
+  protected toRefund(cardUsage: CardUsage): CardUsage {
+    /* eslint-disable camelcase */
+    return {
+      ...cardUsage,
+      amount: -Math.abs(cardUsage.amount),
+      transaction_type: 'refund',
+    };
+    /* eslint-enable camelcase */
+  }
+
+  /**
+   * 外貨建ての利用情報（現地通貨額・換算レート）を抽出
+   * 「現地通貨額：12.34 USD」「【現地通貨額】 USD 12.34」「換算レート：1USD=148.620円」などの形式に対応する
+   * @param body メール本文（または明細ブロック）
+   * @returns 外貨建ての情報（現地通貨額の記載がない場合は空のオブジェクト）
+   */
+  protected parseForeignCurrency(
+    body: string
+  ): Pick<CardUsage, 'original_currency' | 'original_amount' | 'exchange_rate'> {
+    const normalized = body.normalize('NFKC');
+    const number = '([\\d,]+(?:\\.\\d+)?)';
+    const amountMatch = normalized.match(
+      new RegExp(`現地通貨額\\s*[】:]?\\s*(?:([A-Z]{3})\\s*${number}|${number}\\s*([A-Z]{3}))`)
+    );
+    if (!amountMatch) {
+      return {};
+    }
+
+    const rateMatch = normalized.match(
+      new RegExp(`換算レート\\s*[】:]?\\s*(?:1\\s*[A-Z]{3}\\s*=\\s*)?${number}`)
+    );
+    const toNumber = (value: string): number => parseFloat(value.replace(/,/g, ''));
+
+    /* eslint-disable camelcase */
+    return {
+      original_currency: amountMatch[1] ?? amountMatch[4],
+      original_amount: toNumber(amountMatch[2] ?? amountMatch[3]),
+      ...(rateMatch && { exchange_rate: toNumber(rateMatch[1]) }),
+    };
+    /* eslint-enable camelcase */
+  }
+
+  /**
+   * 金額文字列を数値に変換
+   * @param amountStr カンマ区切りを含む金額文字列
+   */
+  protected parseAmount(amountStr: string): number {
+    return parseInt(amountStr.replace(/,/g, ''), 10);
+  }
+
+  /**
+   * 本文を利用明細ごとのブロックに分割
+   * 見出しに一致する位置から次の見出しの直前までを1件のブロックとする
+   * @param body メール本文
+   * @param heading 明細の先頭を示す見出し（先頭一致で判定する）
+   * @returns 明細ブロック（見出しが見つからない場合は空配列）
+   */
+  protected splitIntoBlocks(body: string, heading: RegExp): string[] {
+    const lookahead = new RegExp(`(?=${heading.source})`);
+    const startsWith = new RegExp(`^${heading.source}`);
+    return body.split(lookahead).filter((block) => startsWith.test(block));
+  }
+
+  /**
+   * 日本時間の日付・時刻をISOフォーマットに変換
+   * @param year 年
+   * @param month 月
+   * @param day 日
+   * @param time 時刻（HH:mm または HH:mm:ss 形式、省略時は0時）
+   */
+  protected toJstIsoString(year: string, month: string, day: string, time = '00:00'): string {
+    const [hour, minute, second = '0'] = time.split(':');
+    const date = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+    const clock = [hour, minute, second].map((value) => value.padStart(2, '0')).join(':');
+    return new Date(`${date}T${clock}+09:00`).toISOString();
+  }
+}
@@ -0,0 +1,101 @@
+import { logger } from '@shared/infrastructure/logging/Logger';
+import { AppError, ErrorType } from '@shared/errors/AppError';
+import { CardCompany } from '@domain/enums/CardCompany';
+import { DetectableEmail, ICardIssuerParser } from '@domain/interfaces/infrastructure/email/ICardIssuerParser';
+import { ICardIssuerParserRegistry } from '@domain/interfaces/infrastructure/email/ICardIssuerParserRegistry';
+
+/**
+ * カード会社パーサーのレジストリ
+ * 起動時にDependencyContainerからパーサーを登録し、判定・抽出・監視対象の決定に利用する
+ */
+export class CardIssuerParserRegistry implements ICardIssuerParserRegistry {
+  private readonly parsers = new Map<CardCompany, ICardIssuerParser>();
+  private readonly serviceContext = 'CardIssuerParserRegistry';
+
+  /**
+   * パーサーを登録
+   * @param parser 登録するパーサー
+   * @throws {AppError} 同じ識別子のパーサーが既に登録されている場合
+   */
+  register(parser: ICardIssuerParser): void {
+    if (this.parsers.has(parser.cardCompany)) {
+      throw new AppError(
+        `カード会社のパーサーが既に登録されています: ${parser.cardCompany}`,
+        ErrorType.DUPLICATE,
+        { cardCompany: parser.cardCompany },
+      );
+    }
+
+    this.parsers.set(parser.cardCompany, parser);
+    logger.debug(`${parser.cardCompany}のパーサーを登録しました`, this.serviceContext);
+  }
+
+  /**
+   * パーサーを登録し、同じ識別子のパーサーが登録済みの場合は置き換える
+   * 置き換えた場合も判定の優先順（登録順）は維持される
+   * @param parser 登録するパーサー
+   * @returns 置き換えられたパーサー（新規登録の場合はundefined）
+   */
+  replace(parser: ICardIssuerParser): ICardIssuerParser | undefined {
+    const previous = this.parsers.get(parser.cardCompany);
+    this.parsers.set(parser.cardCompany, parser);
+    logger.debug(
+      `${parser.cardCompany}のパーサーを${previous ? '置き換えました' : '登録しました'}`,
+      this.serviceContext,
+    );
+    return previous;
+  }
+
+  /**
+   * パーサーの登録を解除
+   * @param cardCompany カード会社の識別子
+   */
+  unregister(cardCompany: CardCompany): void {
+    if (this.parsers.delete(cardCompany)) {
+      logger.debug(`${cardCompany}のパーサーの登録を解除しました`, this.serviceContext);
+    }
+  }
+
+  /**
+   * 識別子に対応するパーサーを取得
+   * @param cardCompany カード会社の識別子
+   */
+  get(cardCompany: CardCompany): ICardIssuerParser | undefined {
+    return this.parsers.get(cardCompany);
+  }
+
+  /**
+   * 登録済みのパーサーを登録順に取得
+   */
+  getAll(): ICardIssuerParser[] {
+    return Array.from(this.parsers.values());
+  }
+
+  /**
+   * メールに該当するパーサーを判定
+   * 送信元が一致したパーサーを優先し、なければキーワードが一致したパーサーを登録順に選ぶ
+   * @param email 判定対象のメール
+   */
+  detect(email: DetectableEmail): ICardIssuerParser | null {
+    let keywordMatched: ICardIssuerParser | null = null;
+
+    for (const parser of this.parsers.values()) {
+      const result = parser.detect(email);
+      if (result.matchedBy === 'sender') {
+        logger.debug(
+          `${parser.cardCompany}と判定しました: ${result.matchedRules.join(', ')}`,
+          this.serviceContext,
+        );
+        return parser;
+      }
+      if (result.matchedBy === 'keywords' && !keywordMatched) {
+        keywordMatched = parser;
+      }
+    }
+
+    if (keywordMatched) {
+      logger.debug(`${keywordMatched.cardCompany}と判定しました（キーワード一致）`, this.serviceContext);
+    }
+    return keywordMatched;
+  }
+}
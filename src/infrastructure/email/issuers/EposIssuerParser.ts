@@ -0,0 +1,121 @@
+import { logger } from '@shared/infrastructure/logging/Logger';
+import {
+  CardIssuerDetectionRules,
+  CardIssuerSampleFixture,
+} from '@domain/interfaces/infrastructure/email/ICardIssuerParser';
+import { CardUsage } from '@shared/domain/entities/CardUsage';
+import { CardUsageFactory } from '@shared/domain/factories/CardUsageFactory';
+import { BaseCardIssuerParser } from '@infrastructure/email/issuers/BaseCardIssuerParser';
+
+/**
+ * エポスカードのメールパーサー
+ * 「カードご利用のお知らせ」は複数件の利用明細を含むことがあるため、
+ * 「ご利用日時」で始まるブロックごとに抽出する
+ */
+export class EposIssuerParser extends BaseCardIssuerParser {
+  readonly cardCompany = 'EPOS';
+  readonly displayName = 'エポスカード';
+  readonly mailboxName = 'エポスカード';
+  private readonly serviceContext = 'EposIssuerParser';
+  private readonly defaultCardName = 'エポスカード';
+
+  readonly detectionRules: CardIssuerDetectionRules = {
+    senders: ['eposcard.co.jp'],
+    subjectKeywords: ['エポス'],
+    bodyKeywords: ['エポスカード', 'EPOS'],
+  };
+
+  readonly sampleFixtures: CardIssuerSampleFixture[] = [
+    {
+      description: 'カードご利用のお知らせ',
+      email: {
+        subject: '【エポスカード】カードご利用のお知らせ',
+        from: 'info@01.eposcard.co.jp',
+        body: [
+          'エポスカードをご利用いただきありがとうございます。',
+          '',
+          'ご利用日時：2025年05月10日 15:30',
+          'ご利用場所：マルイ新宿',
+          'ご利用金額：5,000円',
+          '',
+        ].join('\n'),
+      },
+      expected: [
+        {
+          /* eslint-disable camelcase */
+          card_name: 'エポスカード',
+          amount: 5000,
+          where_to_use: 'マルイ新宿',
+          /* eslint-enable camelcase */
+        },
+      ],
+    },
+  ];
+
+  /**
+   * エポスカードのメールからすべての利用明細を抽出
+   * @param body メール本文
+   * @returns 抽出されたカード利用情報（最低1件）
+   */
+  extract(body: string): CardUsage[] {
+    const context = this.serviceContext;
+    logger.debug('エポスカードのメール本文解析', context);
+
+    /* eslint-disable camelcase */
+    const cardNameMatch = body.match(/ご利用カード\s*[：:]\s*([^\n]+)/);
+    const card_name = cardNameMatch?.[1]?.trim() || this.defaultCardName;
+
+    const blocks = this.splitIntoBlocks(body, /ご利用日時\s*[：:]/);
+
+    if (blocks.length === 0) {
+      logger.warn('利用明細が見つかりませんでした。本文全体から抽出します', context);
+      return [this.parseBlock(body, card_name, context)];
+    }
+
+    logger.debug(`利用明細: ${blocks.length}件`, context);
+    return blocks.map((block) => this.parseBlock(block, card_name, context));
+    /* eslint-enable camelcase */
+  }
+
+  /**
+   * 1件分の利用明細からカード利用情報を生成
+   * @param block 利用明細のテキスト
+   * @param card_name カード名
+   * @param context ログのコンテキスト
+   */
+  // eslint-disable-next-line camelcase
+  private parseBlock(block: string, card_name: string, context: string): CardUsage {
+    const dateMatch = block.match(/ご利用日時\s*[：:]\s*(\d{4})[年/](\d{1,2})[月/](\d{1,2})日?\s*(\d{1,2}:\d{2})?/);
+    const whereToUseMatch = block.match(/ご利用(?:場所|先)\s*[：:]\s*([^\n]+)/);
+    const amountMatch = block.match(/ご利用金額\s*[：:]\s*([\d,]+)\s*円/);
+
+    /* eslint-disable camelcase */
+    const where_to_use = whereToUseMatch?.[1]?.trim() || '不明';
+    const amount = this.parseAmount(amountMatch?.[1] || '0');
+
+    let isoDate: string;
+    if (dateMatch) {
+      const [, year, month, day, time] = dateMatch;
+      isoDate = this.toJstIsoString(year, month, day, time);
+    } else {
+      logger.warn('利用日時を取得できませんでした。現在時刻を使用します', context);
+      isoDate = new Date().toISOString();
+    }
+
+    logger.debug('抽出データ（エポスカード）:', context);
+    logger.debug(JSON.stringify({
+      card_name,
+      datetime_of_use: isoDate,
+      amount,
+      where_to_use,
+    }), context);
+
+    return CardUsageFactory.create(
+      card_name,
+      isoDate,
+      amount,
+      where_to_use,
+    );
+    /* eslint-enable camelcase */
+  }
+}
@@ -0,0 +1,83 @@
+import { logger } from '@shared/infrastructure/logging/Logger';
+import { ErrorHandler } from '@shared/infrastructure/errors/ErrorHandler';
+import { IConfigRepository } from '@shared/domain/interfaces/database/repositories/IConfigRepository';
+import { CardCompany } from '@domain/enums/CardCompany';
+import { ICardIssuerParser } from '@domain/interfaces/infrastructure/email/ICardIssuerParser';
+import { ICardIssuerParserRegistry } from '@domain/interfaces/infrastructure/email/ICardIssuerParserRegistry';
+import { TemplateIssuerParser } from '@infrastructure/email/issuers/TemplateIssuerParser';
+
+/**
+ * Firestoreのカード会社テンプレートを読み込み、レジストリに反映するクラス
+ * 組み込みパーサーと同じ識別子のテンプレートは組み込みパーサーを置き換え、
+ * テンプレートが無効化された場合は組み込みパーサーに戻す
+ */
+export class IssuerTemplateLoader {
+  private readonly serviceContext = 'IssuerTemplateLoader';
+  // テンプレートで置き換えた組み込みパーサー
+  private readonly builtInParsers = new Map<CardCompany, ICardIssuerParser>();
+  // 現在レジストリに反映しているテンプレートの識別子
+  private appliedTemplates = new Set<CardCompany>();
+
+  constructor(
+    private readonly configRepository: IConfigRepository,
+    private readonly parserRegistry: ICardIssuerParserRegistry
+  ) { }
+
+  /**
+   * テンプレートを読み込んでレジストリに反映する
+   * 不正なテンプレートはスキップし、既存のパーサーを維持する
+   * @returns 反映したテンプレートの件数
+   */
+  @ErrorHandler.errorDecorator('IssuerTemplateLoader', {
+    defaultMessage: 'カード会社テンプレートの読み込みに失敗しました',
+  })
+  async load(): Promise<number> {
+    const templates = await this.configRepository.getIssuerTemplates();
+    const applied = new Set<CardCompany>();
+
+    for (const template of templates) {
+      try {
+        const parser = new TemplateIssuerParser(template);
+        const previous = this.parserRegistry.replace(parser);
+
+        if (previous && !(previous instanceof TemplateIssuerParser)) {
+          this.builtInParsers.set(previous.cardCompany, previous);
+        }
+        applied.add(template.cardCompany);
+
+        logger.info(
+          `${template.cardCompany}のテンプレート（バージョン${template.version}）を反映しました`,
+          this.serviceContext
+        );
+      } catch (error) {
+        // 不正なテンプレートは反映せず、既存のパーサーで処理を継続する
+        await ErrorHandler.handle(error, this.serviceContext, {
+          defaultMessage: `${template.cardCompany}のテンプレートを反映できませんでした`,
+          additionalInfo: { cardCompany: template.cardCompany, version: template.version },
+        });
+        if (this.appliedTemplates.has(template.cardCompany)) {
+          applied.add(template.cardCompany);
+        }
+      }
+    }
+
+    // 無効化・削除されたテンプレートは組み込みパーサーに戻す
+    for (const cardCompany of this.appliedTemplates) {
+      if (applied.has(cardCompany)) {
+        continue;
+      }
+
+      const builtIn = this.builtInParsers.get(cardCompany);
+      if (builtIn) {
+        this.parserRegistry.replace(builtIn);
+        logger.info(`${cardCompany}を組み込みパーサーに戻しました`, this.serviceContext);
+      } else {
+        this.parserRegistry.unregister(cardCompany);
+        logger.info(`${cardCompany}のテンプレートパーサーの登録を解除しました`, this.serviceContext);
+      }
+    }
+
+    this.appliedTemplates = applied;
+    return applied.size;
+  }
+}
@@ -0,0 +1,134 @@
+import { logger } from '@shared/infrastructure/logging/Logger';
+import {
+  CardIssuerDetectionRules,
+  CardIssuerSampleFixture,
+} from '@domain/interfaces/infrastructure/email/ICardIssuerParser';
+import { CardUsage } from '@shared/domain/entities/CardUsage';
+import { CardUsageFactory } from '@shared/domain/factories/CardUsageFactory';
+import { BaseCardIssuerParser } from '@infrastructure/email/issuers/BaseCardIssuerParser';
+
+/**
+ * JCBカード（MyJCB 利用通知）のメールパーサー
+ * 速報メールは1通に複数件の利用明細を含むため、「【ご利用日時」で始まるブロックごとに抽出する
+ */
+export class JcbIssuerParser extends BaseCardIssuerParser {
+  readonly cardCompany = 'JCB';
+  readonly displayName = 'JCBカード';
+  readonly mailboxName = 'JCBカード';
+  private readonly serviceContext = 'JcbIssuerParser';
+  private readonly defaultCardName = 'JCBカード';
+
+  readonly detectionRules: CardIssuerDetectionRules = {
+    senders: ['qa.jcb.co.jp', 'jcb.co.jp'],
+    subjectKeywords: ['JCB'],
+    bodyKeywords: ['JCB', 'MyJCB'],
+  };
+
+  readonly sampleFixtures: CardIssuerSampleFixture[] = [
+    {
+      description: 'ショッピングご利用のお知らせ（複数件）',
+      email: {
+        subject: 'JCBカード／ショッピングご利用のお知らせ',
+        from: 'mail@qa.jcb.co.jp',
+        body: [
+          'JCBカードをご利用いただきありがとうございます。',
+          'MyJCBにご登録のカードのご利用がありましたのでお知らせします。',
+          '',
+          '【ご利用カード】ＪＣＢカードＷ',
+          '',
+          '【ご利用日時(日本時間)】2025/05/10 15:30',
+          '【ご利用金額】1,234円',
+          '【ご利用先】ＡＭＡＺＯＮ．ＣＯ．ＪＰ',
+          '',
+          '【ご利用日時(日本時間)】2025/05/10 18:05',
+          '【ご利用金額】560円',
+          '【ご利用先】スターバックス',
+          '',
+        ].join('\n'),
+      },
+      expected: [
+        {
+          /* eslint-disable camelcase */
+          card_name: 'ＪＣＢカードＷ',
+          amount: 1234,
+          where_to_use: 'ＡＭＡＺＯＮ．ＣＯ．ＪＰ',
+          /* eslint-enable camelcase */
+        },
+        {
+          /* eslint-disable camelcase */
+          card_name: 'ＪＣＢカードＷ',
+          amount: 560,
+          where_to_use: 'スターバックス',
+          /* eslint-enable camelcase */
+        },
+      ],
+    },
+  ];
+
+  /**
+   * JCBカードのメールからすべての利用明細を抽出
+   * @param body メール本文
+   * @returns 抽出されたカード利用情報（最低1件）
+   */
+  extract(body: string): CardUsage[] {
+    const context = this.serviceContext;
+    logger.debug('JCBカードのメール本文解析', context);
+
+    /* eslint-disable camelcase */
+    const cardNameMatch = body.match(/【ご利用カード】\s*([^\n]+)/);
+    const card_name = cardNameMatch?.[1]?.trim() || this.defaultCardName;
+
+    const blocks = this.splitIntoBlocks(body, /【ご利用日時/);
+
+    if (blocks.length === 0) {
+      logger.warn('利用明細が見つかりませんでした。本文全体から抽出します', context);
+      return [this.parseBlock(body, card_name, context)];
+    }
+
+    logger.debug(`利用明細: ${blocks.length}件`, context);
+    return blocks.map((block) => this.parseBlock(block, card_name, context));
+    /* eslint-enable camelcase */
+  }
+
+  /**
+   * 1件分の利用明細からカード利用情報を生成
+   * @param block 利用明細のテキスト
+   * @param card_name カード名
+   * @param context ログのコンテキスト
+   */
+  // eslint-disable-next-line camelcase
+  private parseBlock(block: string, card_name: string, context: string): CardUsage {
+    const dateMatch = block.match(/【ご利用日時[^】]*】\s*(\d{4})\/(\d{1,2})\/(\d{1,2})\s*(\d{1,2}:\d{2})?/);
+    const amountMatch = block.match(/【ご利用金額】\s*([\d,]+)\s*円/);
+    const whereToUseMatch = block.match(/【ご利用先】\s*([^\n]+)/);
+
+    /* eslint-disable camelcase */
+    const where_to_use = whereToUseMatch?.[1]?.trim() || '不明';
+    const amount = this.parseAmount(amountMatch?.[1] || '0');
+
+    let isoDate: string;
+    if (dateMatch) {
+      const [, year, month, day, time] = dateMatch;
+      isoDate = this.toJstIsoString(year, month, day, time);
+    } else {
+      logger.warn('利用日時を取得できませんでした。現在時刻を使用します', context);
+      isoDate = new Date().toISOString();
+    }
+
+    logger.debug('抽出データ（JCB）:', context);
+    logger.debug(JSON.stringify({
+      card_name,
+      datetime_of_use: isoDate,
+      amount,
+      where_to_use,
+    }), context);
+
+    return CardUsageFactory.create(
+      card_name,
+      isoDate,
+      amount,
+      where_to_use,
+    );
+    /* eslint-enable camelcase */
+  }
+}
@@ -0,0 +1,149 @@
+import { logger } from '@shared/infrastructure/logging/Logger';
+import { CardCompany } from '@domain/enums/CardCompany';
+import {
+  CardIssuerDetectionRules,
+  CardIssuerSampleFixture,
+} from '@domain/interfaces/infrastructure/email/ICardIssuerParser';
+import { CardUsage } from '@shared/domain/entities/CardUsage';
+import { CardUsageFactory } from '@shared/domain/factories/CardUsageFactory';
+import { BaseCardIssuerParser } from '@infrastructure/email/issuers/BaseCardIssuerParser';
+
+/**
+ * 三菱UFJ銀行（デビットカード）のメールパーサー
+ */
+export class MufgIssuerParser extends BaseCardIssuerParser {
+  readonly cardCompany = CardCompany.MUFG;
+  readonly displayName = '三菱UFJ銀行';
+  readonly mailboxName = '三菱東京UFJ銀行';
+  private readonly serviceContext = 'MufgIssuerParser';
+
+  readonly detectionRules: CardIssuerDetectionRules = {
+    senders: ['mufg.jp', 'bk.mufg.jp'],
+    subjectKeywords: ['UFJ', '利用'],
+    bodyKeywords: ['三菱', 'UFJ', 'デビット'],
+  };
+
+  readonly sampleFixtures: CardIssuerSampleFixture[] = [
+    {
+      description: 'デビットカード取引確認メール',
+      email: {
+        subject: 'デビットカード利用のお知らせ',
+        from: 'notification@bk.mufg.jp',
+        body: [
+          'カード名称：Ｄ　三菱ＵＦＪ－ＪＣＢデビット',
+          'デビットカード取引確認メール',
+          '',
+          '【ご利用日時(日本時間)】 2025年5月10日 15:30:00',
+          '【ご利用金額】 1,500円',
+          '【ご利用先】 コンビニエンスストア東京',
+          '【カード番号末尾4桁】 1234',
+          '',
+        ].join('\n'),
+      },
+      expected: [
+        {
+          /* eslint-disable camelcase */
+          card_name: 'Ｄ　三菱ＵＦＪ－ＪＣＢデビット',
+          amount: 1500,
+          where_to_use: 'コンビニエンスストア東京',
+          /* eslint-enable camelcase */
+        },
+      ],
+    },
+    {
+      description: 'デビットカード取引取消確認メール',
+      email: {
+        subject: 'デビットカード利用取消のお知らせ',
+        from: 'notification@bk.mufg.jp',
+        body: [
+          'カード名称：Ｄ　三菱ＵＦＪ－ＪＣＢデビット',
+          'デビットカード取引取消確認メール',
+          '',
+          '【ご利用取消日時(日本時間)】 2025年5月12日 10:05:00',
+          '【ご利用取消金額】 1,500円',
+          '【ご利用先】 コンビニエンスストア東京',
+          '【カード番号末尾4桁】 1234',
+          '',
+        ].join('\n'),
+      },
+      expected: [
+        {
+          /* eslint-disable camelcase */
+          card_name: 'Ｄ　三菱ＵＦＪ－ＪＣＢデビット',
+          amount: -1500,
+          where_to_use: 'コンビニエンスストア東京',
+          /* eslint-enable camelcase */
+        },
+      ],
+    },
+  ];
+
+  /**
+   * 三菱UFJ銀行のメールからカード利用情報を抽出
+   * 1通につき1件の利用明細のみを含む
+   * 取引取消のメールの場合は、金額を負の値とした取消・返金として返す
+   * 外貨建ての利用の場合は、現地通貨額と換算レートもあわせて返す（金額は円）
+   * @param body メール本文
+   * @returns 抽出されたカード利用情報
+   */
+  extract(body: string): CardUsage[] {
+    const cardUsage = { ...this.parseUsage(body), ...this.parseForeignCurrency(body) };
+    return [this.isRefundNotice(body) ? this.toRefund(cardUsage) : cardUsage];
+  }
+
+  /**
+   * メール本文から1件分のカード利用情報を生成
+   * @param body メール本文
+   */
+  private parseUsage(body: string): CardUsage {
+    const context = this.serviceContext;
+
+    // 正規表現パターン - 新しいメール形式に対応
+    const cardNameMatch = body.match(/カード名称\s*：\s*(.+?)(?=\s*\n)/);
+    const dateMatch = body.match(/【ご利用(?:取消)?日時\(日本時間\)】\s*([\d年月日 :]+)/);
+    const amountMatch = body.match(/【ご利用(?:取消)?金額】\s*[-−▲]?([\d,]+)円/);
+    const whereToUseMatch = body.match(/【ご利用先】\s*([^\n]+)/);
+
+    /* eslint-disable camelcase */
+    // データを抽出・整形
+    const datetime_of_use = dateMatch?.[1]?.trim() || '';
+    const amount = this.parseAmount(amountMatch?.[1] || '0');
+    const card_name = cardNameMatch?.[1]?.trim() || '';
+    const where_to_use = whereToUseMatch?.[1]?.trim() || '';
+
+    // 抽出結果をログ出力
+    logger.debug('抽出データ（MUFG）:', context);
+    logger.debug(JSON.stringify({
+      card_name,
+      datetime_of_use,
+      amount,
+      where_to_use,
+    }), context);
+
+    // 日付文字列をISOフォーマットに変換
+    try {
+      const isoDate = new Date(datetime_of_use.replace(/年|月/g, '-').replace('日', '')).toISOString();
+      logger.debug('変換後日時: ' + isoDate, context);
+
+      // CardUsageエンティティを生成
+      return CardUsageFactory.create(
+        card_name,
+        isoDate,
+        amount,
+        where_to_use,
+      );
+    } catch (error) {
+      logger.warn('日付変換に失敗しました。現在時刻を使用します', context);
+      logger.debug(String(error), context);
+
+      // 日付変換に失敗した場合は現在時刻を使用
+      return CardUsageFactory.create(
+        card_name,
+        new Date().toISOString(),
+        amount,
+        where_to_use,
+      );
+    }
+    /* eslint-enable camelcase */
+  }
+}
@@ -0,0 +1,175 @@
+import { logger } from '@shared/infrastructure/logging/Logger';
+import {
+  CardIssuerDetectionRules,
+  CardIssuerSampleFixture,
+} from '@domain/interfaces/infrastructure/email/ICardIssuerParser';
+import { CardUsage } from '@shared/domain/entities/CardUsage';
+import { CardUsageFactory } from '@shared/domain/factories/CardUsageFactory';
+import { BaseCardIssuerParser } from '@infrastructure/email/issuers/BaseCardIssuerParser';
+
+/**
+ * 楽天カードのメールパーサー
+ * 「カード利用お知らせメール」は1通に複数件の利用明細を含むことがあるため、
+ * 「■利用日」で始まるブロックごとに利用情報を抽出する
+ */
+export class RakutenIssuerParser extends BaseCardIssuerParser {
+  readonly cardCompany = 'RAKUTEN';
+  readonly displayName = '楽天カード';
+  readonly mailboxName = '楽天カード';
+  private readonly serviceContext = 'RakutenIssuerParser';
+  private readonly defaultCardName = '楽天カード';
+
+  readonly detectionRules: CardIssuerDetectionRules = {
+    senders: ['rakuten-card.co.jp'],
+    subjectKeywords: ['楽天カード', 'カード利用のお知らせ', 'カード利用お知らせ'],
+    bodyKeywords: ['楽天カード'],
+  };
+
+  readonly sampleFixtures: CardIssuerSampleFixture[] = [
+    {
+      description: 'カード利用お知らせメール',
+      email: {
+        subject: 'カード利用のお知らせ(本人ご利用分)',
+        from: 'info@mail.rakuten-card.co.jp',
+        body: [
+          '楽天カードをご利用いただき誠にありがとうございます。',
+          'お客様のカードご利用内容をお知らせいたします。',
+          '',
+          '■カード名称：楽天カード（Visa）',
+          '',
+          '<<ご利用内容>>',
+          '■利用日: 2025/05/10',
+          '■利用先: セブン－イレブン',
+          '■利用者: 本人',
+          '■支払方法: 1回',
+          '■利用金額: 1,280 円',
+          '■支払月: 2025/06',
+          '',
+        ].join('\n'),
+      },
+      expected: [
+        {
+          /* eslint-disable camelcase */
+          card_name: '楽天カード（Visa）',
+          amount: 1280,
+          where_to_use: 'セブン－イレブン',
+          /* eslint-enable camelcase */
+        },
+      ],
+    },
+    {
+      description: '複数件の利用明細を含むカード利用お知らせメール',
+      email: {
+        subject: 'カード利用のお知らせ(本人ご利用分)',
+        from: 'info@mail.rakuten-card.co.jp',
+        body: [
+          '楽天カードをご利用いただき誠にありがとうございます。',
+          'お客様のカードご利用内容をお知らせいたします。',
+          '',
+          '■カード名称：楽天カード（Visa）',
+          '',
+          '<<ご利用内容>>',
+          '■利用日: 2025/05/10',
+          '■利用先: セブン－イレブン',
+          '■利用者: 本人',
+          '■支払方法: 1回',
+          '■利用金額: 1,280 円',
+          '■支払月: 2025/06',
+          '',
+          '■利用日: 2025/05/11',
+          '■利用先: AMAZON.CO.JP',
+          '■利用者: 本人',
+          '■支払方法: 1回',
+          '■利用金額: 12,345 円',
+          '■支払月: 2025/06',
+          '',
+        ].join('\n'),
+      },
+      expected: [
+        {
+          /* eslint-disable camelcase */
+          card_name: '楽天カード（Visa）',
+          amount: 1280,
+          where_to_use: 'セブン－イレブン',
+          /* eslint-enable camelcase */
+        },
+        {
+          /* eslint-disable camelcase */
+          card_name: '楽天カード（Visa）',
+          amount: 12345,
+          where_to_use: 'AMAZON.CO.JP',
+          /* eslint-enable camelcase */
+        },
+      ],
+    },
+  ];
+
+  /**
+   * 楽天カードのメールからすべての利用明細を抽出
+   * @param body メール本文
+   * @returns 抽出されたカード利用情報（最低1件）
+   */
+  extract(body: string): CardUsage[] {
+    const context = this.serviceContext;
+    logger.debug('楽天カードのメール本文解析', context);
+
+    /* eslint-disable camelcase */
+    const cardNameMatch = body.match(/■カード名称\s*[：:]\s*([^\n]+)/);
+    const card_name = cardNameMatch?.[1]?.trim() || this.defaultCardName;
+
+    // 「■利用日」から次の「■利用日」までを1件の明細として扱う
+    const blocks = this.splitIntoBlocks(body, /■利用日\s*[：:]/);
+
+    if (blocks.length === 0) {
+      logger.warn('利用明細が見つかりませんでした。本文全体から抽出します', context);
+      return [this.parseBlock(body, card_name, context)];
+    }
+
+    logger.debug(`利用明細: ${blocks.length}件`, context);
+    return blocks.map((block) => this.parseBlock(block, card_name, context));
+    /* eslint-enable camelcase */
+  }
+
+  /**
+   * 1件分の利用明細からカード利用情報を生成
+   * @param block 利用明細のテキスト
+   * @param card_name カード名
+   * @param context ログのコンテキスト
+   */
+  // eslint-disable-next-line camelcase
+  private parseBlock(block: string, card_name: string, context: string): CardUsage {
+    const dateMatch = block.match(/■利用日\s*[：:]\s*(\d{4})\/(\d{1,2})\/(\d{1,2})/);
+    const whereToUseMatch = block.match(/■利用先\s*[：:]\s*([^\n]+)/);
+    const amountMatch = block.match(/■利用金額\s*[：:]\s*([\d,]+)\s*円/);
+
+    /* eslint-disable camelcase */
+    const where_to_use = whereToUseMatch?.[1]?.trim() || '不明';
+    const amount = this.parseAmount(amountMatch?.[1] || '0');
+
+    // 利用日は日付のみのため、日本時間の0時として扱う
+    let isoDate: string;
+    if (dateMatch) {
+      const [, year, month, day] = dateMatch;
+      isoDate = this.toJstIsoString(year, month, day);
+    } else {
+      logger.warn('利用日を取得できませんでした。現在時刻を使用します', context);
+      isoDate = new Date().toISOString();
+    }
+
+    logger.debug('抽出データ（楽天カード）:', context);
+    logger.debug(JSON.stringify({
+      card_name,
+      datetime_of_use: isoDate,
+      amount,
+      where_to_use,
+    }), context);
+
+    return CardUsageFactory.create(
+      card_name,
+      isoDate,
+      amount,
+      where_to_use,
+    );
+    /* eslint-enable camelcase */
+  }
+}
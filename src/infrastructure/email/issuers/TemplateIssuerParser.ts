@@ -0,0 +1,253 @@
+import { logger } from '@shared/infrastructure/logging/Logger';
+import { AppError, ErrorType } from '@shared/errors/AppError';
+import {
+  CardIssuerDetectionRules,
+  CardIssuerSampleFixture,
+} from '@domain/interfaces/infrastructure/email/ICardIssuerParser';
+import { IssuerTemplate } from '@shared/domain/entities/IssuerTemplate';
+import { CardUsage } from '@shared/domain/entities/CardUsage';
+import { CardUsageFactory } from '@shared/domain/factories/CardUsageFactory';
+import { BaseCardIssuerParser } from '@infrastructure/email/issuers/BaseCardIssuerParser';
+
+/**
+ * 日時の構成要素
+ */
+type DatePart = 'year' | 'month' | 'day' | 'hour' | 'minute' | 'second';
+
+/**
+ * 日時書式のトークンと、抽出結果の項目の対応
+ */
+const DATE_FORMAT_TOKENS: Record<string, { pattern: string; part: DatePart }> = {
+  yyyy: { pattern: '(\\d{4})', part: 'year' },
+  MM: { pattern: '(\\d{2})', part: 'month' },
+  M: { pattern: '(\\d{1,2})', part: 'month' },
+  dd: { pattern: '(\\d{2})', part: 'day' },
+  d: { pattern: '(\\d{1,2})', part: 'day' },
+  HH: { pattern: '(\\d{2})', part: 'hour' },
+  H: { pattern: '(\\d{1,2})', part: 'hour' },
+  mm: { pattern: '(\\d{2})', part: 'minute' },
+  ss: { pattern: '(\\d{2})', part: 'second' },
+};
+
+/**
+ * Firestoreのテンプレート設定に基づいてメールを判定・抽出する汎用パーサー
+ * 正規表現・日時書式・金額のロケールをテンプレートから読み込むため、形式変更にコードの変更が不要となる
+ */
+export class TemplateIssuerParser extends BaseCardIssuerParser {
+  readonly cardCompany: string;
+  readonly displayName: string;
+  readonly mailboxName: string;
+  readonly detectionRules: CardIssuerDetectionRules;
+  readonly sampleFixtures: CardIssuerSampleFixture[] = [];
+  private readonly serviceContext: string;
+
+  private readonly fieldPatterns: {
+    cardName?: RegExp;
+    datetime: RegExp;
+    amount: RegExp;
+    whereToUse: RegExp;
+  };
+  private readonly usageBlockPattern?: RegExp;
+  private readonly datePattern: RegExp;
+  private readonly dateParts: DatePart[];
+  private readonly groupSeparator: string;
+  private readonly decimalSeparator: string;
+
+  /**
+   * @param template カード会社のテンプレート
+   * @throws {AppError} テンプレートの正規表現または書式が不正な場合
+   */
+  constructor(readonly template: IssuerTemplate) {
+    super();
+    this.cardCompany = template.cardCompany;
+    this.displayName = template.displayName;
+    this.mailboxName = template.mailboxName;
+    this.serviceContext = `TemplateIssuerParser:${template.cardCompany}@v${template.version}`;
+    this.detectionRules = {
+      senders: template.senders ?? [],
+      subjectKeywords: template.subjectKeywords ?? [],
+      bodyKeywords: template.bodyKeywords ?? [],
+    };
+
+    try {
+      this.fieldPatterns = {
+        cardName: template.fields.cardName ? new RegExp(template.fields.cardName) : undefined,
+        datetime: new RegExp(template.fields.datetime),
+        amount: new RegExp(template.fields.amount),
+        whereToUse: new RegExp(template.fields.whereToUse),
+      };
+      this.usageBlockPattern = template.usageBlockPattern ? new RegExp(template.usageBlockPattern) : undefined;
+    } catch (error) {
+      throw new AppError(
+        `テンプレートの正規表現が不正です: ${template.cardCompany} (version: ${template.version})`,
+        ErrorType.VALIDATION,
+        { cardCompany: template.cardCompany, version: template.version },
+        error instanceof Error ? error : undefined,
+      );
+    }
+
+    const { pattern, parts } = this.compileDateFormat(template.dateFormat);
+    this.datePattern = pattern;
+    this.dateParts = parts;
+
+    const separators = this.resolveSeparators(template.amountLocale);
+    this.groupSeparator = separators.group;
+    this.decimalSeparator = separators.decimal;
+  }
+
+  /**
+   * テンプレートに基づいてすべての利用明細を抽出
+   * @param body メール本文
+   * @returns 抽出されたカード利用情報（最低1件）
+   */
+  extract(body: string): CardUsage[] {
+    const context = this.serviceContext;
+    logger.debug('テンプレートによるメール本文解析', context);
+
+    /* eslint-disable camelcase */
+    const cardNameMatch = this.fieldPatterns.cardName ? body.match(this.fieldPatterns.cardName) : null;
+    const card_name = cardNameMatch?.[1]?.trim() || this.template.defaultCardName || this.displayName;
+
+    const blocks = this.usageBlockPattern ? this.splitIntoBlocks(body, this.usageBlockPattern) : [];
+
+    if (blocks.length === 0) {
+      return [this.parseBlock(body, card_name, context)];
+    }
+
+    logger.debug(`利用明細: ${blocks.length}件`, context);
+    return blocks.map((block) => this.parseBlock(block, card_name, context));
+    /* eslint-enable camelcase */
+  }
+
+  /**
+   * 1件分の利用明細からカード利用情報を生成
+   * @param block 利用明細のテキスト
+   * @param card_name カード名
+   * @param context ログのコンテキスト
+   */
+  // eslint-disable-next-line camelcase
+  private parseBlock(block: string, card_name: string, context: string): CardUsage {
+    const datetimeMatch = block.match(this.fieldPatterns.datetime);
+    const amountMatch = block.match(this.fieldPatterns.amount);
+    const whereToUseMatch = block.match(this.fieldPatterns.whereToUse);
+
+    /* eslint-disable camelcase */
+    const where_to_use = whereToUseMatch?.[1]?.trim() || '不明';
+    const amount = this.parseLocalizedAmount(amountMatch?.[1] || '0');
+
+    let isoDate = datetimeMatch?.[1] ? this.parseDatetime(datetimeMatch[1].trim()) : null;
+    if (!isoDate) {
+      logger.warn('利用日時を取得できませんでした。現在時刻を使用します', context);
+      isoDate = new Date().toISOString();
+    }
+
+    logger.debug('抽出データ（テンプレート）:', context);
+    logger.debug(JSON.stringify({
+      card_name,
+      datetime_of_use: isoDate,
+      amount,
+      where_to_use,
+    }), context);
+
+    return CardUsageFactory.create(
+      card_name,
+      isoDate,
+      amount,
+      where_to_use,
+    );
+    /* eslint-enable camelcase */
+  }
+
+  /**
+   * 日時書式を正規表現に変換
+   * @param dateFormat 日時書式（例: "yyyy/MM/dd HH:mm"）
+   */
+  private compileDateFormat(dateFormat: string): {
+    pattern: RegExp;
+    parts: DatePart[];
+  } {
+    const parts: DatePart[] = [];
+    const tokenPattern = /yyyy|MM|M|dd|d|HH|H|mm|ss/g;
+
+    let source = '';
+    let lastIndex = 0;
+    for (const match of dateFormat.matchAll(tokenPattern)) {
+      source += this.escapeLiteral(dateFormat.slice(lastIndex, match.index));
+      const token = DATE_FORMAT_TOKENS[match[0]];
+      source += token.pattern;
+      parts.push(token.part);
+      lastIndex = (match.index ?? 0) + match[0].length;
+    }
+    source += this.escapeLiteral(dateFormat.slice(lastIndex));
+
+    return { pattern: new RegExp(`^${source}`), parts };
+  }
+
+  /**
+   * 書式中の文字列リテラルを正規表現用にエスケープ（空白は任意長の空白として扱う）
+   */
+  private escapeLiteral(literal: string): string {
+    return literal
+      .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+      .replace(/\s+/g, '\\s*');
+  }
+
+  /**
+   * 日時文字列を日本時間として解釈し、ISOフォーマットに変換
+   * @param value 日時文字列
+   * @returns ISOフォーマットの日時（書式に一致しない場合はnull）
+   */
+  private parseDatetime(value: string): string | null {
+    const match = value.match(this.datePattern);
+    if (!match) {
+      return null;
+    }
+
+    const values: Record<string, string> = { hour: '0', minute: '0', second: '0' };
+    this.dateParts.forEach((part, index) => {
+      values[part] = match[index + 1];
+    });
+
+    try {
+      const time = `${values.hour}:${values.minute}:${values.second}`;
+      return this.toJstIsoString(values.year, values.month, values.day, time);
+    } catch (error) {
+      logger.debug(String(error), this.serviceContext);
+      return null;
+    }
+  }
+
+  /**
+   * ロケールに応じた金額文字列を数値に変換（円未満は四捨五入）
+   * @param amountStr 金額文字列
+   */
+  private parseLocalizedAmount(amountStr: string): number {
+    const normalized = amountStr
+      .split(this.groupSeparator).join('')
+      .replace(/\s/g, '')
+      .replace(this.decimalSeparator, '.');
+    const amount = Math.round(parseFloat(normalized));
+    return Number.isNaN(amount) ? 0 : amount;
+  }
+
+  /**
+   * ロケールの桁区切り文字と小数点を取得
+   * @param locale ロケール（例: "ja-JP"）
+   */
+  private resolveSeparators(locale: string): { group: string; decimal: string } {
+    try {
+      const parts = new Intl.NumberFormat(locale).formatToParts(1234567.5);
+      return {
+        group: parts.find((part) => part.type === 'group')?.value ?? ',',
+        decimal: parts.find((part) => part.type === 'decimal')?.value ?? '.',
+      };
+    } catch (error) {
+      throw new AppError(
+        `金額のロケールが不正です: ${locale}`,
+        ErrorType.VALIDATION,
+        { cardCompany: this.cardCompany, locale },
+        error instanceof Error ? error : undefined,
+      );
+    }
+  }
+}
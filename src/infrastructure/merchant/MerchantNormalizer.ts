@@ -0,0 +1,107 @@
+import { IMerchantNormalizer } from '@domain/interfaces/infrastructure/merchant/IMerchantNormalizer';
+import { IConfigRepository } from '@shared/domain/interfaces/database/repositories/IConfigRepository';
+import { MerchantAlias } from '@shared/domain/entities/MerchantAlias';
+import { logger } from '@shared/infrastructure/logging/Logger';
+
+/**
+ * 決済代行・コード決済の接頭辞（NFKC正規化・大文字化した利用先に適用する）
+ * 例: "PAYPAL *STEAM" → "STEAM"、"楽天ペイ ファミリーマート" → "ファミリーマート"
+ */
+const PAYMENT_PROCESSOR_PREFIXES = [
+  /^(?:PAYPAL|SQ|SP|TST|IZ|STRIPE|2CO\.COM)\s*\*\s*/,
+  /^(?:PAYPAY|楽天ペイ|AU ?PAY|D払い|メルペイ)(?:\s*[*/:]\s*|\s+)/,
+];
+
+/** 別名との比較で無視する文字 */
+const KEY_IGNORED_CHARACTERS = /[\s\-・.,'"()*/]/g;
+
+/** ひらがなとカタカナのコードポイントの差 */
+const HIRAGANA_TO_KATAKANA_OFFSET = 0x60;
+
+/**
+ * 利用先の正規化を行うクラス
+ * 全角英数字を半角に、半角カナを全角にそろえ、決済代行の接頭辞を除いたうえで、
+ * Firestoreの別名（config/merchant_aliases）に一致する場合は統一後の利用先に置き換える
+ */
+export class MerchantNormalizer implements IMerchantNormalizer {
+  private readonly serviceContext = 'MerchantNormalizer';
+
+  /**
+   * コンストラクタ
+   * @param configRepository 設定情報リポジトリ（省略時は別名を使用しない）
+   */
+  constructor(private readonly configRepository?: IConfigRepository) { }
+
+  /**
+   * 利用先を正規化する
+   * 別名を取得できない場合は、別名を使用せずに正規化する
+   * @param whereToUse メールなどに記載された元の利用先
+   */
+  async normalize(whereToUse: string): Promise<string> {
+    const normalized = this.cleanse(whereToUse);
+    if (!normalized) {
+      return normalized;
+    }
+
+    const alias = this.findAlias(normalized, await this.getAliases());
+    return alias ? alias.canonical : normalized;
+  }
+
+  /**
+   * 表記の揺れを除く
+   * NFKC正規化で全角英数字・記号を半角に、半角カナを全角にそろえ、英字を大文字にする
+   */
+  private cleanse(value: string): string {
+    const normalized = (value ?? '').normalize('NFKC').toUpperCase().replace(/\s+/g, ' ').trim();
+
+    for (const prefix of PAYMENT_PROCESSOR_PREFIXES) {
+      const stripped = normalized.replace(prefix, '');
+      if (stripped !== normalized && stripped.trim()) {
+        return stripped.trim();
+      }
+    }
+    return normalized;
+  }
+
+  /**
+   * 正規化した利用先に一致する別名を取得する（先に一致したものを使用する）
+   */
+  private findAlias(normalized: string, aliases: MerchantAlias[]): MerchantAlias | undefined {
+    const key = this.toKey(normalized);
+
+    return aliases.find((alias) => {
+      const aliasKey = this.toKey(this.cleanse(alias.alias));
+      if (!aliasKey) {
+        return false;
+      }
+      return alias.match === 'prefix' ? key.startsWith(aliasKey) : key === aliasKey;
+    });
+  }
+
+  /**
+   * 別名との比較に使用するキー
+   * 記号・空白を除き、ひらがなをカタカナにそろえる
+   */
+  private toKey(normalized: string): string {
+    return normalized
+      .replace(KEY_IGNORED_CHARACTERS, '')
+      .replace(/[ぁ-ゖ]/g, (char) => String.fromCharCode(char.charCodeAt(0) + HIRAGANA_TO_KATAKANA_OFFSET));
+  }
+
+  /**
+   * 別名を取得する
+   */
+  private async getAliases(): Promise<MerchantAlias[]> {
+    if (!this.configRepository) {
+      return [];
+    }
+
+    try {
+      return await this.configRepository.getMerchantAliases();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn(`利用先の別名を取得できなかったため、別名を使用せずに正規化します: ${message}`, this.serviceContext);
+      return [];
+    }
+  }
+}
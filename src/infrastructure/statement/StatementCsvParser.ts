@@ -0,0 +1,203 @@
+import * as Encoding from 'encoding-japanese';
+import { CardCompany } from '@domain/enums/CardCompany';
+import { IStatementParser, StatementLine } from '@domain/interfaces/infrastructure/statement/IStatementParser';
+
+/**
+ * 利用明細CSVの列の指定
+ * 見出し名の候補（いずれかに一致する列）、または見出し行がない場合の列番号（0始まり）
+ */
+export type StatementColumn = string[] | number;
+
+/**
+ * 利用明細CSVの列の対応
+ */
+export interface StatementColumnMapping {
+  date: StatementColumn;
+  merchant: StatementColumn;
+  amount: StatementColumn;
+}
+
+/**
+ * 三菱UFJ銀行の利用明細CSVの列の対応（デビットの利用明細、または入出金明細）
+ */
+export const MUFG_STATEMENT_COLUMNS: StatementColumnMapping = {
+  date: ['ご利用日', '利用日', '日付'],
+  merchant: ['ご利用先', 'ご利用店名', '利用店名', '摘要内容'],
+  amount: ['ご利用金額', '利用金額', '支払い金額', 'お支払い金額'],
+};
+
+/**
+ * 三井住友カードの利用明細CSVの列の対応（Vpassの明細CSVは見出し行がない）
+ */
+export const SMBC_STATEMENT_COLUMNS: StatementColumnMapping = {
+  date: 0,
+  merchant: 1,
+  amount: 2,
+};
+
+/** 利用日の形式（2025/05/10、2025-05-10、2025年5月10日など） */
+const DATE_PATTERN = /^(\d{4})[/\-.年](\d{1,2})[/\-.月](\d{1,2})日?/;
+
+/** 負の金額を表す記号 */
+const NEGATIVE_SIGN_PATTERN = /^[-−▲△]/;
+
+/**
+ * カード会社の利用明細CSVの解析を行うクラス
+ * 列の対応はカード会社ごとに指定し、Shift_JIS・UTF-8のどちらのCSVも扱う
+ */
+export class StatementCsvParser implements IStatementParser {
+  /**
+   * コンストラクタ
+   * @param cardCompany 対応するカード会社
+   * @param mapping 利用明細CSVの列の対応
+   */
+  constructor(
+    readonly cardCompany: CardCompany,
+    private readonly mapping: StatementColumnMapping
+  ) { }
+
+  /**
+   * 利用明細CSVを解析
+   * 見出し名で列を指定した場合は、すべての列の見出しを含む行より後を利用明細として扱う
+   * 利用日または金額を読み取れない行（見出しや合計行など）は除く
+   * @param content CSVファイルの内容（Shift_JISまたはUTF-8）
+   * @returns 利用明細の配列（CSV上の順）
+   */
+  parse(content: Buffer): StatementLine[] {
+    const rows = this.parseCsv(this.decode(content));
+
+    let columns = this.resolveColumnIndexes([]);
+    let startIndex = 0;
+    if (!columns) {
+      const headerIndex = rows.findIndex((row) => this.resolveColumnIndexes(row) !== null);
+      if (headerIndex < 0) {
+        return [];
+      }
+      columns = this.resolveColumnIndexes(rows[headerIndex]) as Record<keyof StatementColumnMapping, number>;
+      startIndex = headerIndex + 1;
+    }
+
+    const lines: StatementLine[] = [];
+    for (let index = startIndex; index < rows.length; index++) {
+      const row = rows[index];
+      const date = this.parseDate(row[columns.date]);
+      const amount = this.parseAmount(row[columns.amount]);
+      if (date === null || amount === null) {
+        continue;
+      }
+
+      lines.push({
+        lineNumber: index + 1,
+        date,
+        amount,
+        merchant: (row[columns.merchant] ?? '').normalize('NFKC').trim(),
+      });
+    }
+    return lines;
+  }
+
+  /**
+   * CSVファイルの内容を文字列に変換する（UTF-8以外はShift_JISとして扱う）
+   */
+  private decode(content: Buffer): string {
+    const encoding = Encoding.detect(content);
+    if (encoding === 'UTF8' || encoding === 'ASCII') {
+      return content.toString('utf8').replace(/^\uFEFF/, '');
+    }
+    return Encoding.convert(content, { to: 'UNICODE', from: 'SJIS', type: 'string' });
+  }
+
+  /**
+   * CSVを行・列に分割する（ダブルクォートで囲まれた値の区切り文字・改行、""のエスケープに対応）
+   */
+  private parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let value = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (quoted) {
+        if (char === '"' && text[i + 1] === '"') {
+          value += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          value += char;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        quoted = true;
+      } else if (char === ',') {
+        row.push(value);
+        value = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') {
+          i++;
+        }
+        row.push(value);
+        rows.push(row);
+        row = [];
+        value = '';
+      } else {
+        value += char;
+      }
+    }
+
+    if (value !== '' || row.length > 0) {
+      row.push(value);
+      rows.push(row);
+    }
+    return rows;
+  }
+
+  /**
+   * 列の対応から列番号を求める
+   * 見出し名で指定した列が見出し行に含まれない場合はnullを返す
+   * @param header 見出し行の候補
+   */
+  private resolveColumnIndexes(header: string[]): Record<keyof StatementColumnMapping, number> | null {
+    const normalizedHeader = header.map((cell) => cell.normalize('NFKC').trim());
+    const resolve = (column: StatementColumn): number =>
+      typeof column === 'number' ? column : normalizedHeader.findIndex((cell) => column.includes(cell));
+
+    const columns = {
+      date: resolve(this.mapping.date),
+      merchant: resolve(this.mapping.merchant),
+      amount: resolve(this.mapping.amount),
+    };
+    return Object.values(columns).every((index) => index >= 0) ? columns : null;
+  }
+
+  /**
+   * 利用日をYYYY-MM-DD形式に変換する
+   */
+  private parseDate(value: string | undefined): string | null {
+    const match = (value ?? '').normalize('NFKC').trim().match(DATE_PATTERN);
+    if (!match) {
+      return null;
+    }
+
+    const [, year, month, day] = match;
+    return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  }
+
+  /**
+   * 金額を数値に変換する（カンマ・円記号を除き、▲などの記号は負の値として扱う）
+   */
+  private parseAmount(value: string | undefined): number | null {
+    const normalized = (value ?? '').normalize('NFKC').replace(/[,\s円¥￥]/g, '');
+    const digits = normalized.replace(NEGATIVE_SIGN_PATTERN, '');
+    if (!/^\d+$/.test(digits)) {
+      return null;
+    }
+
+    const amount = parseInt(digits, 10);
+    return NEGATIVE_SIGN_PATTERN.test(normalized) ? -amount : amount;
+  }
+}
@@ -0,0 +1,89 @@
+import { Request, Response } from 'express';
+import { ResponseHelper } from '@shared/presentation/responses/ResponseHelper';
+import { ErrorHandler } from '@shared/infrastructure/errors/ErrorHandler';
+import { IConfigRepository } from '@shared/domain/interfaces/database/repositories/IConfigRepository';
+import { BudgetInput } from '@shared/domain/entities/Budget';
+
+/**
+ * 支出カテゴリ・カードごとの月の予算を操作するためのコントローラークラス
+ * 予算のアラートは、以降に保存するカード利用情報によるマンスリーレポートの更新時に判定される
+ */
+export class BudgetController {
+    /**
+     * コンストラクタ
+     * @param configRepository 設定情報リポジトリ
+     */
+    constructor(private readonly configRepository: IConfigRepository) { }
+
+    /**
+     * 予算の一覧を取得
+     */
+    public getBudgets = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const budgets = await this.configRepository.getBudgets();
+
+            const response = ResponseHelper.success('予算を取得しました', budgets);
+            res.status(response.status).json(response);
+        } catch (error) {
+            const appError = await ErrorHandler.handle(error, 'BudgetController.getBudgets');
+            const errorResponse = ResponseHelper.fromAppError(appError);
+            res.status(errorResponse.status).json(errorResponse);
+        }
+    };
+
+    /**
+     * 予算を登録
+     */
+    public createBudget = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const budget = await this.configRepository.saveBudget(this.toInput(req.body));
+
+            const response = ResponseHelper.success('予算を登録しました', budget);
+            res.status(response.status).json(response);
+        } catch (error) {
+            const appError = await ErrorHandler.handle(error, 'BudgetController.createBudget');
+            const errorResponse = ResponseHelper.fromAppError(appError);
+            res.status(errorResponse.status).json(errorResponse);
+        }
+    };
+
+    /**
+     * 予算を更新
+     */
+    public updateBudget = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const budget = await this.configRepository.saveBudget(this.toInput(req.body), req.params.id);
+
+            const response = ResponseHelper.success('予算を更新しました', budget);
+            res.status(response.status).json(response);
+        } catch (error) {
+            const appError = await ErrorHandler.handle(error, 'BudgetController.updateBudget');
+            const errorResponse = ResponseHelper.fromAppError(appError);
+            res.status(errorResponse.status).json(errorResponse);
+        }
+    };
+
+    /**
+     * 予算を削除
+     */
+    public deleteBudget = async (req: Request, res: Response): Promise<void> => {
+        try {
+            await this.configRepository.deleteBudget(req.params.id);
+
+            const response = ResponseHelper.success('予算を削除しました', { id: req.params.id });
+            res.status(response.status).json(response);
+        } catch (error) {
+            const appError = await ErrorHandler.handle(error, 'BudgetController.deleteBudget');
+            const errorResponse = ResponseHelper.fromAppError(appError);
+            res.status(errorResponse.status).json(errorResponse);
+        }
+    };
+
+    /**
+     * リクエストボディから予算の入力を取り出す（値のバリデーションはリポジトリで行う）
+     */
+    private toInput(body: Partial<BudgetInput> | undefined): BudgetInput {
+        const { name, target, key, limit, alertPercentages } = body ?? {};
+        return { name, target, key, limit, alertPercentages } as BudgetInput;
+    }
+}
@@ -0,0 +1,81 @@
+import { Request, Response } from 'express';
+import { ResponseHelper } from '@shared/presentation/responses/ResponseHelper';
+import { ErrorHandler } from '@shared/infrastructure/errors/ErrorHandler';
+import { IConfigRepository } from '@shared/domain/interfaces/database/repositories/IConfigRepository';
+import { CardInput } from '@shared/domain/entities/Card';
+
+/**
+ * 登録済みのカード（締め日・支払日）を操作するためのコントローラークラス
+ * カードはカード利用情報のcard_nameをキーに登録し、請求サイクルのレポートと支払日の通知に使用する
+ */
+export class CardController {
+    /**
+     * コンストラクタ
+     * @param configRepository 設定情報リポジトリ
+     */
+    constructor(private readonly configRepository: IConfigRepository) { }
+
+    /**
+     * 登録済みのカードの一覧を取得
+     */
+    public getCards = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const cards = await this.configRepository.getCards();
+
+            const response = ResponseHelper.success('カードを取得しました', cards);
+            res.status(response.status).json(response);
+        } catch (error) {
+            const appError = await ErrorHandler.handle(error, 'CardController.getCards');
+            const errorResponse = ResponseHelper.fromAppError(appError);
+            res.status(errorResponse.status).json(errorResponse);
+        }
+    };
+
+    /**
+     * カードを登録・更新
+     */
+    public saveCard = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const card = await this.configRepository.saveCard(this.toInput(req.params.cardName, req.body));
+
+            const response = ResponseHelper.success('カードを保存しました', card);
+            res.status(response.status).json(response);
+        } catch (error) {
+            const appError = await ErrorHandler.handle(error, 'CardController.saveCard');
+            const errorResponse = ResponseHelper.fromAppError(appError);
+            res.status(errorResponse.status).json(errorResponse);
+        }
+    };
+
+    /**
+     * カードの登録を削除
+     */
+    public deleteCard = async (req: Request, res: Response): Promise<void> => {
+        try {
+            await this.configRepository.deleteCard(req.params.cardName);
+
+            const response = ResponseHelper.success('カードを削除しました', { cardName: req.params.cardName });
+            res.status(response.status).json(response);
+        } catch (error) {
+            const appError = await ErrorHandler.handle(error, 'CardController.deleteCard');
+            const errorResponse = ResponseHelper.fromAppError(appError);
+            res.status(errorResponse.status).json(errorResponse);
+        }
+    };
+
+    /**
+     * リクエストボディからカードの入力を取り出す（値のバリデーションはリポジトリで行う）
+     */
+    private toInput(cardName: string, body: Partial<CardInput> | undefined): CardInput {
+        const { displayName, issuer, closingDay, paymentDay, paymentMonthOffset, reminderDaysBefore } = body ?? {};
+        return {
+            cardName,
+            displayName,
+            issuer,
+            closingDay,
+            paymentDay,
+            paymentMonthOffset,
+            reminderDaysBefore,
+        } as CardInput;
+    }
+}
@@ -4,12 +4,18 @@ import { DiscordNotifier } from '@shared/infrastructure/discord/DiscordNotifier'
 import { ErrorHandler } from '@shared/infrastructure/errors/ErrorHandler';
 import { FirestoreCardUsageRepository } from '@infrastructure/database/repositories/FirestoreCardUsageRepository';
 import { FirestoreCardUsageUseCase } from '@usecase/database/FirestoreCardUsageUseCase';
+import { CardUsageDuplicateUseCase } from '@usecase/database/CardUsageDuplicateUseCase';
+import { MerchantNormalizer } from '@infrastructure/merchant/MerchantNormalizer';
+import { CardUsageCategorizer } from '@infrastructure/category/CardUsageCategorizer';
+import { FirestoreConfigRepository } from '@shared/infrastructure/database/repositories/FirestoreConfigRepository';
+import { CardUsageStatus } from '@shared/domain/entities/CardUsage';
 
 /**
  * カード利用データを操作するためのコントローラークラス
  */
 export class CardUsageController {
     private cardUsageUseCase: FirestoreCardUsageUseCase;
+    private duplicateUseCase: CardUsageDuplicateUseCase;
 
     /**
      * コンストラクタ
@@ -17,7 +23,15 @@ export class CardUsageController {
      */
     constructor(discordNotifier: DiscordNotifier) {
         const cardUsageRepository = new FirestoreCardUsageRepository();
-        this.cardUsageUseCase = new FirestoreCardUsageUseCase(cardUsageRepository, discordNotifier);
+        const configRepository = new FirestoreConfigRepository();
+        this.duplicateUseCase = new CardUsageDuplicateUseCase(cardUsageRepository);
+        this.cardUsageUseCase = new FirestoreCardUsageUseCase(
+            cardUsageRepository,
+            discordNotifier,
+            this.duplicateUseCase,
+            new MerchantNormalizer(configRepository),
+            new CardUsageCategorizer(configRepository)
+        );
     }
 
     /**
@@ -27,8 +41,9 @@ export class CardUsageController {
         try {
             const year = req.query.year as string;
             const month = req.query.month as string;
+            const status = req.query.status as CardUsageStatus | undefined;
 
-            const usages = await this.cardUsageUseCase.getCardUsagesByYearMonth(year, month);
+            const usages = await this.cardUsageUseCase.getCardUsagesByYearMonth(year, month, status);
 
             const response = ResponseHelper.success('カード利用情報の取得に成功しました', usages);
             res.status(response.status).json(response);
@@ -67,8 +82,9 @@ export class CardUsageController {
             const response = ResponseHelper.createResponse(201, true, 'カード利用情報の作成に成功しました', result);
             res.status(response.status).json(response);
         } catch (error) {
-            const response = await ErrorHandler.handle(error, 'CardUsageController.createCardUsage');
-            res.status(500).json(ResponseHelper.fromAppError(response));
+            const appError = await ErrorHandler.handle(error, 'CardUsageController.createCardUsage');
+            const errorResponse = ResponseHelper.fromAppError(appError);
+            res.status(errorResponse.status).json(errorResponse);
         }
     };
 
@@ -106,4 +122,41 @@ export class CardUsageController {
             res.status(500).json(ResponseHelper.fromAppError(response));
         }
     };
+
+    /**
+     * 重複の疑いがあるカード利用情報の組を取得する
+     */
+    public getDuplicates = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const year = req.query.year as string;
+            const month = req.query.month as string;
+
+            const pairs = await this.duplicateUseCase.getDuplicates(year, month);
+
+            const response = ResponseHelper.success('重複の疑いがあるカード利用情報を取得しました', pairs);
+            res.status(response.status).json(response);
+        } catch (error) {
+            const appError = await ErrorHandler.handle(error, 'CardUsageController.getDuplicates');
+            const errorResponse = ResponseHelper.fromAppError(appError);
+            res.status(errorResponse.status).json(errorResponse);
+        }
+    };
+
+    /**
+     * 重複したカード利用情報を統合する（keepIdを残し、duplicateIdを論理削除する）
+     */
+    public mergeDuplicates = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const { keepId, duplicateId } = req.body ?? {};
+
+            const result = await this.duplicateUseCase.merge(keepId, duplicateId);
+
+            const response = ResponseHelper.success('重複したカード利用情報を統合しました', result);
+            res.status(response.status).json(response);
+        } catch (error) {
+            const appError = await ErrorHandler.handle(error, 'CardUsageController.mergeDuplicates');
+            const errorResponse = ResponseHelper.fromAppError(appError);
+            res.status(errorResponse.status).json(errorResponse);
+        }
+    };
 }
@@ -0,0 +1,86 @@
+import { Request, Response } from 'express';
+import { ResponseHelper } from '@shared/presentation/responses/ResponseHelper';
+import { ErrorHandler } from '@shared/infrastructure/errors/ErrorHandler';
+import { IConfigRepository } from '@shared/domain/interfaces/database/repositories/IConfigRepository';
+import { IApplyCategoryRulesUseCase } from '@domain/interfaces/usecases/category/IApplyCategoryRulesUseCase';
+
+/**
+ * 支出カテゴリと自動分類のルールを操作するためのコントローラークラス
+ * 保存したルールは以降に保存するカード利用情報から反映される（保存済みの利用情報には再適用で反映する）
+ */
+export class CategoryController {
+    /**
+     * コンストラクタ
+     * @param configRepository 設定情報リポジトリ
+     * @param applyCategoryRulesUseCase 自動分類のルールの再適用のユースケース
+     */
+    constructor(
+        private readonly configRepository: IConfigRepository,
+        private readonly applyCategoryRulesUseCase: IApplyCategoryRulesUseCase
+    ) { }
+
+    /**
+     * カテゴリの一覧と自動分類のルールを取得
+     */
+    public getCategories = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const config = await this.configRepository.getCategoryConfig();
+
+            const response = ResponseHelper.success('支出カテゴリを取得しました', config);
+            res.status(response.status).json(response);
+        } catch (error) {
+            const appError = await ErrorHandler.handle(error, 'CategoryController.getCategories');
+            const errorResponse = ResponseHelper.fromAppError(appError);
+            res.status(errorResponse.status).json(errorResponse);
+        }
+    };
+
+    /**
+     * カテゴリの一覧を保存（既存の一覧はすべて置き換える）
+     */
+    public saveCategories = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const config = await this.configRepository.saveCategories(req.body?.categories);
+
+            const response = ResponseHelper.success('支出カテゴリを保存しました', config);
+            res.status(response.status).json(response);
+        } catch (error) {
+            const appError = await ErrorHandler.handle(error, 'CategoryController.saveCategories');
+            const errorResponse = ResponseHelper.fromAppError(appError);
+            res.status(errorResponse.status).json(errorResponse);
+        }
+    };
+
+    /**
+     * 自動分類のルールを保存（既存のルールはすべて置き換える）
+     */
+    public saveRules = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const config = await this.configRepository.saveCategoryRules(req.body?.rules);
+
+            const response = ResponseHelper.success('自動分類のルールを保存しました', config);
+            res.status(response.status).json(response);
+        } catch (error) {
+            const appError = await ErrorHandler.handle(error, 'CategoryController.saveRules');
+            const errorResponse = ResponseHelper.fromAppError(appError);
+            res.status(errorResponse.status).json(errorResponse);
+        }
+    };
+
+    /**
+     * 指定された期間のカード利用情報に自動分類のルールを再適用
+     */
+    public applyRules = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const { from, to, dryRun } = req.body ?? {};
+            const result = await this.applyCategoryRulesUseCase.execute(from, to, dryRun === true);
+
+            const response = ResponseHelper.success('自動分類のルールを再適用しました', result);
+            res.status(response.status).json(response);
+        } catch (error) {
+            const appError = await ErrorHandler.handle(error, 'CategoryController.applyRules');
+            const errorResponse = ResponseHelper.fromAppError(appError);
+            res.status(errorResponse.status).json(errorResponse);
+        }
+    };
+}
@@ -0,0 +1,93 @@
+import { Request, Response } from 'express';
+import { ResponseHelper } from '@shared/presentation/responses/ResponseHelper';
+import { ErrorHandler } from '@shared/infrastructure/errors/ErrorHandler';
+import { IDeadLetterUseCase } from '@domain/interfaces/usecases/email/IDeadLetterUseCase';
+import { DeadLetterStatus } from '@shared/domain/entities/DeadLetter';
+
+const DEAD_LETTER_STATUSES: DeadLetterStatus[] = ['pending', 'resolved', 'discarded'];
+
+/**
+ * デッドレターを操作するためのコントローラークラス
+ * 解析・保存に失敗したメールの一覧・詳細取得、再処理、破棄を提供する
+ */
+export class DeadLetterController {
+    /**
+     * コンストラクタ
+     * @param deadLetterUseCase デッドレターのユースケース
+     */
+    constructor(private readonly deadLetterUseCase: IDeadLetterUseCase) { }
+
+    /**
+     * デッドレター一覧を取得（statusクエリで絞り込み可能）
+     */
+    public getDeadLetters = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const status = req.query.status as DeadLetterStatus | undefined;
+
+            if (status !== undefined && !DEAD_LETTER_STATUSES.includes(status)) {
+                const response = ResponseHelper.validationError(
+                    `statusは${DEAD_LETTER_STATUSES.join(', ')}のいずれかを指定してください`
+                );
+                res.status(response.status).json(response);
+                return;
+            }
+
+            const deadLetters = await this.deadLetterUseCase.getDeadLetters(status);
+
+            const response = ResponseHelper.success('デッドレター一覧を取得しました', deadLetters);
+            res.status(response.status).json(response);
+        } catch (error) {
+            const appError = await ErrorHandler.handle(error, 'DeadLetterController.getDeadLetters');
+            const errorResponse = ResponseHelper.fromAppError(appError);
+            res.status(errorResponse.status).json(errorResponse);
+        }
+    };
+
+    /**
+     * デッドレターの詳細を取得
+     */
+    public getDeadLetterById = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const deadLetter = await this.deadLetterUseCase.getDeadLetter(req.params.id);
+
+            const response = ResponseHelper.success('デッドレターを取得しました', deadLetter);
+            res.status(response.status).json(response);
+        } catch (error) {
+            const appError = await ErrorHandler.handle(error, 'DeadLetterController.getDeadLetterById');
+            const errorResponse = ResponseHelper.fromAppError(appError);
+            res.status(errorResponse.status).json(errorResponse);
+        }
+    };
+
+    /**
+     * 現在のパーサーでデッドレターを再処理
+     */
+    public retryDeadLetter = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const result = await this.deadLetterUseCase.retry(req.params.id);
+
+            const response = ResponseHelper.success('デッドレターを再処理しました', result);
+            res.status(response.status).json(response);
+        } catch (error) {
+            const appError = await ErrorHandler.handle(error, 'DeadLetterController.retryDeadLetter');
+            const errorResponse = ResponseHelper.fromAppError(appError);
+            res.status(errorResponse.status).json(errorResponse);
+        }
+    };
+
+    /**
+     * デッドレターを破棄
+     */
+    public discardDeadLetter = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const deadLetter = await this.deadLetterUseCase.discard(req.params.id);
+
+            const response = ResponseHelper.success('デッドレターを破棄しました', deadLetter);
+            res.status(response.status).json(response);
+        } catch (error) {
+            const appError = await ErrorHandler.handle(error, 'DeadLetterController.discardDeadLetter');
+            const errorResponse = ResponseHelper.fromAppError(appError);
+            res.status(errorResponse.status).json(errorResponse);
+        }
+    };
+}
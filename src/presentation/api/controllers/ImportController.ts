@@ -0,0 +1,82 @@
+import { Request, Response } from 'express';
+import { ResponseHelper } from '@shared/presentation/responses/ResponseHelper';
+import { ErrorHandler } from '@shared/infrastructure/errors/ErrorHandler';
+import { IImportEmailsUseCase } from '@domain/interfaces/usecases/email/IImportEmailsUseCase';
+import { IReconcileStatementUseCase } from '@domain/interfaces/usecases/statement/IReconcileStatementUseCase';
+
+/**
+ * データ取り込みのためのコントローラークラス
+ * エクスポートされた過去のメール（.eml・mbox）からのカード利用情報の登録と、利用明細CSVとの照合を提供する
+ */
+export class ImportController {
+    /**
+     * コンストラクタ
+     * @param importEmailsUseCase メール取り込みのユースケース
+     * @param reconcileStatementUseCase 利用明細照合のユースケース
+     */
+    constructor(
+        private readonly importEmailsUseCase: IImportEmailsUseCase,
+        private readonly reconcileStatementUseCase: IReconcileStatementUseCase
+    ) { }
+
+    /**
+     * リクエストボディの.emlファイルまたはmboxアーカイブを取り込む（filenameクエリで名前を指定可能）
+     */
+    public importEmails = async (req: Request, res: Response): Promise<void> => {
+        try {
+            if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+                const response = ResponseHelper.validationError(
+                    '.emlファイルまたはmboxアーカイブをリクエストボディに指定してください'
+                );
+                res.status(response.status).json(response);
+                return;
+            }
+
+            const filename = typeof req.query.filename === 'string' && req.query.filename ?
+                req.query.filename :
+                'upload';
+            const result = await this.importEmailsUseCase.execute([{ name: filename, content: req.body }]);
+
+            const response = ResponseHelper.success('メールの取り込みが完了しました', result);
+            res.status(response.status).json(response);
+        } catch (error) {
+            const appError = await ErrorHandler.handle(error, 'ImportController.importEmails');
+            const errorResponse = ResponseHelper.fromAppError(appError);
+            res.status(errorResponse.status).json(errorResponse);
+        }
+    };
+
+    /**
+     * リクエストボディの利用明細CSVを登録済みのカード利用情報と照合する
+     * cardNameクエリで照合するカード名を絞り込み、createMissing=trueで未登録の利用明細を登録する
+     * createCardNameクエリで登録するカード利用情報のカード名を指定できる
+     */
+    public reconcileStatement = async (req: Request, res: Response): Promise<void> => {
+        try {
+            if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+                const response = ResponseHelper.validationError('利用明細CSVをリクエストボディに指定してください');
+                res.status(response.status).json(response);
+                return;
+            }
+
+            const cardName = typeof req.query.cardName === 'string' && req.query.cardName ?
+                req.query.cardName :
+                undefined;
+            const createCardName = typeof req.query.createCardName === 'string' && req.query.createCardName ?
+                req.query.createCardName :
+                undefined;
+            const result = await this.reconcileStatementUseCase.execute(req.params.cardCompany, req.body, {
+                cardName,
+                createMissing: req.query.createMissing === 'true',
+                createCardName,
+            });
+
+            const response = ResponseHelper.success('利用明細を照合しました', result);
+            res.status(response.status).json(response);
+        } catch (error) {
+            const appError = await ErrorHandler.handle(error, 'ImportController.reconcileStatement');
+            const errorResponse = ResponseHelper.fromAppError(appError);
+            res.status(errorResponse.status).json(errorResponse);
+        }
+    };
+}
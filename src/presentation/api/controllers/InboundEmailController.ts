@@ -0,0 +1,79 @@
+import { Request, Response } from 'express';
+import { ResponseHelper } from '@shared/presentation/responses/ResponseHelper';
+import { ErrorHandler } from '@shared/infrastructure/errors/ErrorHandler';
+import { Environment } from '@shared/infrastructure/config/Environment';
+import { logger } from '@shared/infrastructure/logging/Logger';
+import { EmailController } from '@presentation/email/controllers/EmailController';
+import { EmailParser } from '@infrastructure/email/EmailParser';
+import { InboundEmailPayloadParser } from '@infrastructure/email/InboundEmailPayloadParser';
+import { InboundEmailSignatureVerifier } from '@infrastructure/email/InboundEmailSignatureVerifier';
+import { IEmailParser } from '@domain/interfaces/infrastructure/email/IEmailParser';
+import { IInboundEmailPayloadParser } from '@domain/interfaces/infrastructure/email/IInboundEmailPayloadParser';
+import { IInboundEmailSignatureVerifier } from '@domain/interfaces/infrastructure/email/IInboundEmailSignatureVerifier';
+
+/**
+ * 受信Webhookのためのコントローラークラス
+ * メールサービスから転送されたメールを受け取り、IMAPで受信したメールと同様に処理する
+ */
+export class InboundEmailController {
+    private readonly serviceContext = 'InboundEmailController';
+
+    /**
+     * コンストラクタ
+     * @param emailController 受信したメールを処理するメールコントローラー
+     * @param signatureVerifier リクエストの署名検証
+     * @param payloadParser リクエストボディの解析
+     * @param emailParser メール解析
+     */
+    constructor(
+        private readonly emailController: EmailController,
+        private readonly signatureVerifier: IInboundEmailSignatureVerifier =
+        new InboundEmailSignatureVerifier(Environment.INBOUND_EMAIL_WEBHOOK_SECRET),
+        private readonly payloadParser: IInboundEmailPayloadParser = new InboundEmailPayloadParser(),
+        private readonly emailParser: IEmailParser = new EmailParser()
+    ) { }
+
+    /**
+     * 転送されたメールを受信して処理する
+     * リクエストボディにはRFC 822形式のメール、またはSendGrid・Mailgun形式のフォームを指定する
+     */
+    public receiveEmail = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const body = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+            const payload = this.payloadParser.parse(body, req.get('content-type') || '');
+
+            const verified = this.signatureVerifier.verify(body, {
+                signature: req.get('x-inbound-signature'),
+                timestamp: req.get('x-inbound-timestamp'),
+            }, payload.fields);
+            if (!verified) {
+                logger.warn('署名を検証できないリクエストを拒否しました', this.serviceContext);
+                const response = ResponseHelper.unauthorized('署名が無効です');
+                res.status(response.status).json(response);
+                return;
+            }
+
+            if (!payload.source) {
+                const response = ResponseHelper.validationError('メールをリクエストボディに指定してください');
+                res.status(response.status).json(response);
+                return;
+            }
+
+            const email = await this.emailParser.parseEmail({ uid: `webhook:${Date.now()}`, source: payload.source });
+            if (!email) {
+                const response = ResponseHelper.validationError('メールを解析できませんでした');
+                res.status(response.status).json(response);
+                return;
+            }
+
+            await this.emailController.processReceivedEmail(email, this.serviceContext);
+
+            const response = ResponseHelper.success('メールを受信しました', { uid: email.uid, subject: email.subject });
+            res.status(response.status).json(response);
+        } catch (error) {
+            const appError = await ErrorHandler.handle(error, 'InboundEmailController.receiveEmail');
+            const errorResponse = ResponseHelper.fromAppError(appError);
+            res.status(errorResponse.status).json(errorResponse);
+        }
+    };
+}
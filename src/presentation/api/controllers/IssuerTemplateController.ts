@@ -0,0 +1,80 @@
+import { Request, Response } from 'express';
+import { ResponseHelper } from '@shared/presentation/responses/ResponseHelper';
+import { ErrorHandler } from '@shared/infrastructure/errors/ErrorHandler';
+import { IConfigRepository } from '@shared/domain/interfaces/database/repositories/IConfigRepository';
+import { IssuerTemplateLoader } from '@infrastructure/email/issuers/IssuerTemplateLoader';
+
+/**
+ * カード会社テンプレートを操作するためのコントローラークラス
+ * テンプレートの保存・ロールバック後は、稼働中のパーサーに即時反映する
+ */
+export class IssuerTemplateController {
+    /**
+     * コンストラクタ
+     * @param configRepository 設定情報リポジトリ
+     * @param issuerTemplateLoader テンプレートのローダー
+     */
+    constructor(
+        private readonly configRepository: IConfigRepository,
+        private readonly issuerTemplateLoader: IssuerTemplateLoader
+    ) { }
+
+    /**
+     * テンプレートをバージョン履歴を含めて取得
+     */
+    public getTemplates = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const config = await this.configRepository.getIssuerTemplateConfig();
+
+            const response = ResponseHelper.success('カード会社テンプレートを取得しました', config);
+            res.status(response.status).json(response);
+        } catch (error) {
+            const appError = await ErrorHandler.handle(error, 'IssuerTemplateController.getTemplates');
+            const errorResponse = ResponseHelper.fromAppError(appError);
+            res.status(errorResponse.status).json(errorResponse);
+        }
+    };
+
+    /**
+     * テンプレートを新しいバージョンとして保存
+     */
+    public saveTemplate = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const saved = await this.configRepository.saveIssuerTemplate(req.body);
+            await this.issuerTemplateLoader.load();
+
+            const response = ResponseHelper.createResponse(201, true, 'カード会社テンプレートを保存しました', saved);
+            res.status(response.status).json(response);
+        } catch (error) {
+            const appError = await ErrorHandler.handle(error, 'IssuerTemplateController.saveTemplate');
+            const errorResponse = ResponseHelper.fromAppError(appError);
+            res.status(errorResponse.status).json(errorResponse);
+        }
+    };
+
+    /**
+     * テンプレートを過去のバージョンに戻す
+     */
+    public rollbackTemplate = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const { cardCompany } = req.params;
+            const version = req.body?.version !== undefined ? Number(req.body.version) : undefined;
+
+            if (version !== undefined && !Number.isInteger(version)) {
+                const response = ResponseHelper.validationError('versionは整数で指定してください');
+                res.status(response.status).json(response);
+                return;
+            }
+
+            const template = await this.configRepository.rollbackIssuerTemplate(cardCompany, version);
+            await this.issuerTemplateLoader.load();
+
+            const response = ResponseHelper.success('カード会社テンプレートをロールバックしました', template);
+            res.status(response.status).json(response);
+        } catch (error) {
+            const appError = await ErrorHandler.handle(error, 'IssuerTemplateController.rollbackTemplate');
+            const errorResponse = ResponseHelper.fromAppError(appError);
+            res.status(errorResponse.status).json(errorResponse);
+        }
+    };
+}
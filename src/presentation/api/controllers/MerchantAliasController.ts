@@ -0,0 +1,50 @@
+import { Request, Response } from 'express';
+import { ResponseHelper } from '@shared/presentation/responses/ResponseHelper';
+import { ErrorHandler } from '@shared/infrastructure/errors/ErrorHandler';
+import { IConfigRepository } from '@shared/domain/interfaces/database/repositories/IConfigRepository';
+
+/**
+ * 利用先の別名を操作するためのコントローラークラス
+ * 保存した別名は以降に保存するカード利用情報から反映される（保存済みの利用情報にはbackfill:merchantsで反映する）
+ */
+export class MerchantAliasController {
+    /**
+     * コンストラクタ
+     * @param configRepository 設定情報リポジトリ
+     */
+    constructor(
+        private readonly configRepository: IConfigRepository
+    ) { }
+
+    /**
+     * 別名の一覧を取得
+     */
+    public getAliases = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const aliases = await this.configRepository.getMerchantAliases();
+
+            const response = ResponseHelper.success('利用先の別名を取得しました', { aliases });
+            res.status(response.status).json(response);
+        } catch (error) {
+            const appError = await ErrorHandler.handle(error, 'MerchantAliasController.getAliases');
+            const errorResponse = ResponseHelper.fromAppError(appError);
+            res.status(errorResponse.status).json(errorResponse);
+        }
+    };
+
+    /**
+     * 別名の一覧を保存（既存の別名はすべて置き換える）
+     */
+    public saveAliases = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const aliases = await this.configRepository.saveMerchantAliases(req.body?.aliases);
+
+            const response = ResponseHelper.success('利用先の別名を保存しました', { aliases });
+            res.status(response.status).json(response);
+        } catch (error) {
+            const appError = await ErrorHandler.handle(error, 'MerchantAliasController.saveAliases');
+            const errorResponse = ResponseHelper.fromAppError(appError);
+            res.status(errorResponse.status).json(errorResponse);
+        }
+    };
+}
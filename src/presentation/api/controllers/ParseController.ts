@@ -0,0 +1,79 @@
+import { Request, Response } from 'express';
+import { ResponseHelper } from '@shared/presentation/responses/ResponseHelper';
+import { ErrorHandler } from '@shared/infrastructure/errors/ErrorHandler';
+import {
+    IPreviewEmailParseUseCase,
+    PreviewEmailInput,
+} from '@domain/interfaces/usecases/email/IPreviewEmailParseUseCase';
+
+/**
+ * メール解析のためのコントローラークラス
+ * 保存や通知を行わずにメールの解析結果を確認する機能を提供する
+ */
+export class ParseController {
+    /**
+     * コンストラクタ
+     * @param previewEmailParseUseCase 解析プレビューのユースケース
+     */
+    constructor(private readonly previewEmailParseUseCase: IPreviewEmailParseUseCase) { }
+
+    /**
+     * メールの解析結果をプレビューする
+     * 元のメール（RFC 822）をそのままリクエストボディに指定するか、JSONでbody・subject・fromを指定する
+     * カード会社はcardCompanyクエリ（JSONの場合はcardCompanyフィールドも可）で指定できる
+     */
+    public preview = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const input = this.toInput(req);
+            if (!input) {
+                const response = ResponseHelper.validationError(
+                    '元のメールをリクエストボディに指定するか、JSONでメール本文（body）を指定してください'
+                );
+                res.status(response.status).json(response);
+                return;
+            }
+
+            const result = await this.previewEmailParseUseCase.execute(input);
+
+            const response = ResponseHelper.success('メールの解析結果を取得しました（保存は行っていません）', result);
+            res.status(response.status).json(response);
+        } catch (error) {
+            // プレビューの失敗は利用者への応答で伝わるため、Discordには通知しない
+            const appError = await ErrorHandler.handle(error, 'ParseController.preview', {
+                suppressNotification: true,
+            });
+            const errorResponse = ResponseHelper.fromAppError(appError);
+            res.status(errorResponse.status).json(errorResponse);
+        }
+    };
+
+    /**
+     * リクエストから解析を試すメールを取得する
+     * @param req リクエスト
+     * @returns 解析を試すメール（指定がない場合はnull）
+     */
+    private toInput(req: Request): PreviewEmailInput | null {
+        const queryCardCompany = typeof req.query.cardCompany === 'string' && req.query.cardCompany ?
+            req.query.cardCompany :
+            undefined;
+
+        if (Buffer.isBuffer(req.body)) {
+            return req.body.length > 0 ? { source: req.body, cardCompany: queryCardCompany } : null;
+        }
+
+        const body = req.body as Record<string, unknown> | undefined;
+        if (!body || typeof body.body !== 'string' || !body.body) {
+            return null;
+        }
+
+        const optionalString = (value: unknown): string | undefined => typeof value === 'string' && value ?
+            value :
+            undefined;
+        return {
+            body: body.body,
+            subject: optionalString(body.subject),
+            from: optionalString(body.from),
+            cardCompany: queryCardCompany ?? optionalString(body.cardCompany),
+        };
+    }
+}
@@ -3,12 +3,37 @@ import { ResponseHelper } from '@shared/presentation/responses/ResponseHelper';
 import { ErrorHandler } from '@shared/infrastructure/errors/ErrorHandler';
 import { FirestoreReportRepository } from '@shared/infrastructure/database/repositories/FirestoreReportRepository';
 import { FirestoreReportUseCase } from '@shared/usecases/database/FirestoreReportUseCase';
+import { FirestoreConfigRepository } from '@shared/infrastructure/database/repositories/FirestoreConfigRepository';
+import { IConfigRepository } from '@shared/domain/interfaces/database/repositories/IConfigRepository';
+import { Category } from '@shared/domain/entities/Category';
+import { ReportCategoryBreakdown, ReportSubtotals } from '@shared/domain/entities/Reports';
+import { ReportBreakdownUtil } from '@shared/utils/ReportBreakdownUtil';
+import { YearlyReportUtil } from '@shared/utils/YearlyReportUtil';
+import { AppError, ErrorType } from '@shared/errors/AppError';
+import { logger } from '@shared/infrastructure/logging/Logger';
+import { FirestoreCardUsageRepository } from '@infrastructure/database/repositories/FirestoreCardUsageRepository';
+import { BillingCycleReportUseCase } from '@usecase/report/BillingCycleReportUseCase';
+import { IBillingCycleReportUseCase } from '@domain/interfaces/usecases/report/IBillingCycleReportUseCase';
+import { FirestoreSubscriptionRepository } from
+    '@shared/infrastructure/database/repositories/FirestoreSubscriptionRepository';
+import { MonthEndForecastUseCase } from '@shared/usecases/report/MonthEndForecastUseCase';
+import { IMonthEndForecastUseCase } from '@shared/domain/interfaces/usecases/report/IMonthEndForecastUseCase';
+import { DateUtil } from '@shared/utils/DateUtil';
+
+/**
+ * 支出カテゴリごとの小計を持つレポート
+ */
+type ReportWithSubtotals = { totalAmount: number; categoryTotals?: ReportSubtotals };
 
 /**
  * レポートデータを操作するためのコントローラークラス
+ * レスポンスのレポートには、支出カテゴリごとの内訳（categoryBreakdown）を金額の大きい順に含める
  */
 export class ReportController {
     private reportUseCase: FirestoreReportUseCase;
+    private configRepository: IConfigRepository;
+    private billingCycleReportUseCase: IBillingCycleReportUseCase;
+    private monthEndForecastUseCase: IMonthEndForecastUseCase;
 
     /**
      * コンストラクタ
@@ -16,6 +41,15 @@ export class ReportController {
     constructor() {
         const reportRepository = new FirestoreReportRepository();
         this.reportUseCase = new FirestoreReportUseCase(reportRepository);
+        this.configRepository = new FirestoreConfigRepository();
+        this.billingCycleReportUseCase = new BillingCycleReportUseCase(
+            new FirestoreCardUsageRepository(),
+            this.configRepository
+        );
+        this.monthEndForecastUseCase = new MonthEndForecastUseCase(
+            reportRepository,
+            new FirestoreSubscriptionRepository()
+        );
     }
 
     /**
@@ -25,7 +59,9 @@ export class ReportController {
         try {
             const { year, month, day } = req.params;
 
-            const report = await this.reportUseCase.getDailyReport(year, month, day);
+            const report = await this.withCategoryBreakdown(
+                await this.reportUseCase.getDailyReport(year, month, day)
+            );
 
             const response = ResponseHelper.success('日次レポートを取得しました', report);
             res.status(response.status).json(response);
@@ -43,7 +79,9 @@ export class ReportController {
         try {
             const { year, month } = req.params;
 
-            const report = await this.reportUseCase.getMonthlyReport(year, month);
+            const report = await this.withCategoryBreakdown(
+                await this.reportUseCase.getMonthlyReport(year, month)
+            );
 
             const response = ResponseHelper.success('月次レポートを取得しました', report);
             res.status(response.status).json(response);
@@ -61,7 +99,9 @@ export class ReportController {
         try {
             const { year, month, term } = req.params;
 
-            const report = await this.reportUseCase.getWeeklyReport(year, month, term);
+            const report = await this.withCategoryBreakdown(
+                await this.reportUseCase.getWeeklyReport(year, month, term)
+            );
 
             const response = ResponseHelper.success('週次レポートを取得しました', report);
             res.status(response.status).json(response);
@@ -72,6 +112,39 @@ export class ReportController {
         }
     };
 
+    /**
+     * 年次レポート取得
+     * 月ごとの合計、支出カテゴリ・利用先の上位、前年との比較を概要（summary）として含める
+     */
+    public getYearlyReport = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const { year } = req.params;
+            if (!/^\d{4}$/.test(year)) {
+                throw new AppError('年はYYYYで指定してください', ErrorType.VALIDATION, { year });
+            }
+
+            const yearlyReport = await this.reportUseCase.getYearlyReport(year);
+            // 前年の年次レポートがない場合は前年との比較を含めない
+            const previousReport = await this.reportUseCase
+                .getYearlyReport(String(Number(year) - 1))
+                .catch(() => null);
+            const categories = await this.getCategories();
+
+            const report = {
+                ...yearlyReport,
+                categoryBreakdown: ReportBreakdownUtil.toCategoryBreakdown(yearlyReport, categories),
+                summary: YearlyReportUtil.toSummary(Number(year), yearlyReport, previousReport, categories),
+            };
+
+            const response = ResponseHelper.success('年次レポートを取得しました', report);
+            res.status(response.status).json(response);
+        } catch (error) {
+            const appError = await ErrorHandler.handle(error, 'ReportController.getYearlyReport');
+            const errorResponse = ResponseHelper.fromAppError(appError);
+            res.status(errorResponse.status).json(errorResponse);
+        }
+    };
+
     /**
      * 月内の全日次レポート取得
      */
@@ -79,7 +152,9 @@ export class ReportController {
         try {
             const { year, month } = req.params;
 
-            const reports = await this.reportUseCase.getMonthlyDailyReports(year, month);
+            const reports = await this.withCategoryBreakdowns(
+                await this.reportUseCase.getMonthlyDailyReports(year, month)
+            );
 
             const response = ResponseHelper.success('月内日次レポート一覧を取得しました', reports);
             res.status(response.status).json(response);
@@ -97,7 +172,9 @@ export class ReportController {
         try {
             const { year, month } = req.params;
 
-            const reports = await this.reportUseCase.getMonthlyWeeklyReports(year, month);
+            const reports = await this.withCategoryBreakdowns(
+                await this.reportUseCase.getMonthlyWeeklyReports(year, month)
+            );
 
             const response = ResponseHelper.success('月内週次レポート一覧を取得しました', reports);
             res.status(response.status).json(response);
@@ -107,4 +184,79 @@ export class ReportController {
             res.status(errorResponse.status).json(errorResponse);
         }
     };
+
+    /**
+     * 請求サイクルのレポート取得（カードの支払月に請求される金額）
+     */
+    public getBillingCycleReport = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const { card, cycle } = req.params;
+
+            const report = await this.withCategoryBreakdown(
+                await this.billingCycleReportUseCase.execute(card, cycle)
+            );
+
+            const response = ResponseHelper.success('請求サイクルのレポートを取得しました', report);
+            res.status(response.status).json(response);
+        } catch (error) {
+            const appError = await ErrorHandler.handle(error, 'ReportController.getBillingCycleReport');
+            const errorResponse = ResponseHelper.fromAppError(appError);
+            res.status(errorResponse.status).json(errorResponse);
+        }
+    };
+
+    /**
+     * 月末の利用額の見込み取得（日本時間の今日までの利用を実績とする）
+     */
+    public getMonthEndForecast = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const { year, month } = req.params;
+
+            const forecast = await this.monthEndForecastUseCase.execute(year, month, DateUtil.getJSTDate());
+
+            const response = ResponseHelper.success('月末の見込みを取得しました', forecast);
+            res.status(response.status).json(response);
+        } catch (error) {
+            const appError = await ErrorHandler.handle(error, 'ReportController.getMonthEndForecast');
+            const errorResponse = ResponseHelper.fromAppError(appError);
+            res.status(errorResponse.status).json(errorResponse);
+        }
+    };
+
+    /**
+     * レポートに支出カテゴリごとの内訳を加える
+     */
+    private async withCategoryBreakdown<T extends ReportWithSubtotals>(
+        report: T
+    ): Promise<T & { categoryBreakdown: ReportCategoryBreakdown[] }> {
+        const [result] = await this.withCategoryBreakdowns([report]);
+        return result;
+    }
+
+    /**
+     * 複数のレポートに支出カテゴリごとの内訳を加える
+     */
+    private async withCategoryBreakdowns<T extends ReportWithSubtotals>(
+        reports: T[]
+    ): Promise<(T & { categoryBreakdown: ReportCategoryBreakdown[] })[]> {
+        const categories = await this.getCategories();
+        return reports.map((report) => ({
+            ...report,
+            categoryBreakdown: ReportBreakdownUtil.toCategoryBreakdown(report, categories),
+        }));
+    }
+
+    /**
+     * 支出カテゴリの一覧を取得（取得できない場合は内訳にカテゴリのIDを表示する）
+     */
+    private async getCategories(): Promise<Category[]> {
+        try {
+            const config = await this.configRepository.getCategoryConfig();
+            return config.categories;
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            logger.warn(`支出カテゴリを取得できなかったため、内訳にはカテゴリのIDを表示します: ${message}`, 'ReportController');
+            return [];
+        }
+    }
 }
@@ -0,0 +1,37 @@
+import { Request, Response } from 'express';
+import { ResponseHelper } from '@shared/presentation/responses/ResponseHelper';
+import { ErrorHandler } from '@shared/infrastructure/errors/ErrorHandler';
+import { FirestoreSubscriptionRepository } from
+    '@shared/infrastructure/database/repositories/FirestoreSubscriptionRepository';
+
+/**
+ * 定期的な支払い（サブスクリプション）を参照するためのコントローラークラス
+ * 一覧はFirebase Functionsの定期実行で検出・更新され、このAPIは参照のみを行う
+ */
+export class SubscriptionController {
+    private subscriptionRepository: FirestoreSubscriptionRepository;
+
+    constructor() {
+        this.subscriptionRepository = new FirestoreSubscriptionRepository();
+    }
+
+    /**
+     * 検出済みの定期的な支払いの一覧を取得
+     * まだ検出していない場合は空の一覧を返す
+     */
+    public getSubscriptions = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const list = await this.subscriptionRepository.getSubscriptions();
+
+            const response = ResponseHelper.success(
+                '定期的な支払いを取得しました',
+                list ?? { subscriptions: [], analyzedAt: null }
+            );
+            res.status(response.status).json(response);
+        } catch (error) {
+            const appError = await ErrorHandler.handle(error, 'SubscriptionController.getSubscriptions');
+            const errorResponse = ResponseHelper.fromAppError(appError);
+            res.status(errorResponse.status).json(errorResponse);
+        }
+    };
+}
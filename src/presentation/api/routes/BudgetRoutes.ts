@@ -0,0 +1,40 @@
+import { Router } from 'express';
+import { BudgetController } from '@presentation/api/controllers/BudgetController';
+import { authMiddleware } from '@shared/presentation/middlewares/AuthMiddleware';
+
+/**
+ * 予算ルーター
+ * 支出カテゴリ・カードごとの月の予算の登録・更新・削除に関するAPIエンドポイント
+ */
+export class BudgetRoutes {
+    private router: Router;
+    private budgetController: BudgetController;
+
+    constructor(budgetController: BudgetController) {
+        // eslint-disable-next-line new-cap
+        this.router = Router();
+        this.budgetController = budgetController;
+        this.initializeRoutes();
+    }
+
+    private initializeRoutes(): void {
+        // すべてのエンドポイントに認証ミドルウェアを適用
+        this.router.use(authMiddleware);
+
+        // 予算の一覧を取得
+        this.router.get('/', this.budgetController.getBudgets);
+
+        // 予算を登録
+        this.router.post('/', this.budgetController.createBudget);
+
+        // 予算を更新
+        this.router.put('/:id', this.budgetController.updateBudget);
+
+        // 予算を削除
+        this.router.delete('/:id', this.budgetController.deleteBudget);
+    }
+
+    public getRouter(): Router {
+        return this.router;
+    }
+}
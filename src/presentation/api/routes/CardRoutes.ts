@@ -0,0 +1,37 @@
+import { Router } from 'express';
+import { CardController } from '@presentation/api/controllers/CardController';
+import { authMiddleware } from '@shared/presentation/middlewares/AuthMiddleware';
+
+/**
+ * カードルーター
+ * カードの締め日・支払日の登録・更新・削除に関するAPIエンドポイント
+ */
+export class CardRoutes {
+    private router: Router;
+    private cardController: CardController;
+
+    constructor(cardController: CardController) {
+        // eslint-disable-next-line new-cap
+        this.router = Router();
+        this.cardController = cardController;
+        this.initializeRoutes();
+    }
+
+    private initializeRoutes(): void {
+        // すべてのエンドポイントに認証ミドルウェアを適用
+        this.router.use(authMiddleware);
+
+        // 登録済みのカードの一覧を取得
+        this.router.get('/', this.cardController.getCards);
+
+        // カードを登録・更新（カード名がキー）
+        this.router.put('/:cardName', this.cardController.saveCard);
+
+        // カードの登録を削除
+        this.router.delete('/:cardName', this.cardController.deleteCard);
+    }
+
+    public getRouter(): Router {
+        return this.router;
+    }
+}
@@ -24,6 +24,10 @@ export class CardUsageRoutes {
         // カード利用明細一覧取得
         this.router.get('/', this.cardUsageController.getCardUsagesByDate);
 
+        // 重複の疑いがあるカード利用明細の取得・統合（/:idより先に定義する）
+        this.router.get('/duplicates', this.cardUsageController.getDuplicates);
+        this.router.post('/duplicates/merge', this.cardUsageController.mergeDuplicates);
+
         // 特定のカード利用明細取得
         this.router.get('/:id', this.cardUsageController.getCardUsageById);
 
@@ -0,0 +1,40 @@
+import { Router } from 'express';
+import { CategoryController } from '@presentation/api/controllers/CategoryController';
+import { authMiddleware } from '@shared/presentation/middlewares/AuthMiddleware';
+
+/**
+ * 支出カテゴリルーター
+ * 支出カテゴリと自動分類のルールの設定、ルールの再適用に関するAPIエンドポイント
+ */
+export class CategoryRoutes {
+    private router: Router;
+    private categoryController: CategoryController;
+
+    constructor(categoryController: CategoryController) {
+        // eslint-disable-next-line new-cap
+        this.router = Router();
+        this.categoryController = categoryController;
+        this.initializeRoutes();
+    }
+
+    private initializeRoutes(): void {
+        // すべてのエンドポイントに認証ミドルウェアを適用
+        this.router.use(authMiddleware);
+
+        // カテゴリの一覧と自動分類のルールを取得
+        this.router.get('/', this.categoryController.getCategories);
+
+        // カテゴリの一覧を保存（既存の一覧はすべて置き換える）
+        this.router.put('/', this.categoryController.saveCategories);
+
+        // 自動分類のルールを保存（既存のルールはすべて置き換える）
+        this.router.put('/rules', this.categoryController.saveRules);
+
+        // 指定された期間のカード利用情報に自動分類のルールを再適用
+        this.router.post('/rules/apply', this.categoryController.applyRules);
+    }
+
+    public getRouter(): Router {
+        return this.router;
+    }
+}
@@ -0,0 +1,40 @@
+import { Router } from 'express';
+import { DeadLetterController } from '@presentation/api/controllers/DeadLetterController';
+import { authMiddleware } from '@shared/presentation/middlewares/AuthMiddleware';
+
+/**
+ * デッドレタールーター
+ * 解析・保存に失敗したメールに関するAPIエンドポイント
+ */
+export class DeadLetterRoutes {
+    private router: Router;
+    private deadLetterController: DeadLetterController;
+
+    constructor(deadLetterController: DeadLetterController) {
+        // eslint-disable-next-line new-cap
+        this.router = Router();
+        this.deadLetterController = deadLetterController;
+        this.initializeRoutes();
+    }
+
+    private initializeRoutes(): void {
+        // すべてのエンドポイントに認証ミドルウェアを適用
+        this.router.use(authMiddleware);
+
+        // デッドレター一覧取得
+        this.router.get('/', this.deadLetterController.getDeadLetters);
+
+        // デッドレター詳細取得
+        this.router.get('/:id', this.deadLetterController.getDeadLetterById);
+
+        // 現在のパーサーで再処理
+        this.router.post('/:id/retry', this.deadLetterController.retryDeadLetter);
+
+        // デッドレターを破棄
+        this.router.delete('/:id', this.deadLetterController.discardDeadLetter);
+    }
+
+    public getRouter(): Router {
+        return this.router;
+    }
+}
@@ -0,0 +1,54 @@
+import express, { Router } from 'express';
+import { ImportController } from '@presentation/api/controllers/ImportController';
+import { authMiddleware } from '@shared/presentation/middlewares/AuthMiddleware';
+
+/** 取り込みを受け付けるメールファイルのContent-Type */
+const EMAIL_CONTENT_TYPES = ['message/rfc822', 'application/mbox', 'application/octet-stream', 'text/plain'];
+
+/** 取り込むメールファイルの上限サイズ */
+const EMAIL_UPLOAD_LIMIT = '50mb';
+
+/** 照合を受け付ける利用明細CSVのContent-Type */
+const STATEMENT_CONTENT_TYPES = ['text/csv', 'application/octet-stream', 'text/plain'];
+
+/** 照合する利用明細CSVの上限サイズ */
+const STATEMENT_UPLOAD_LIMIT = '5mb';
+
+/**
+ * データ取り込みルーター
+ * 過去のデータを取り込むためのAPIエンドポイント
+ */
+export class ImportRoutes {
+    private router: Router;
+    private importController: ImportController;
+
+    constructor(importController: ImportController) {
+        // eslint-disable-next-line new-cap
+        this.router = Router();
+        this.importController = importController;
+        this.initializeRoutes();
+    }
+
+    private initializeRoutes(): void {
+        // すべてのエンドポイントに認証ミドルウェアを適用
+        this.router.use(authMiddleware);
+
+        // .eml・mboxからカード利用情報を取り込む（ファイルの内容をそのままリクエストボディに指定する）
+        this.router.post(
+            '/emails',
+            express.raw({ type: EMAIL_CONTENT_TYPES, limit: EMAIL_UPLOAD_LIMIT }),
+            this.importController.importEmails
+        );
+
+        // 利用明細CSVを登録済みのカード利用情報と照合する（CSVの内容をそのままリクエストボディに指定する）
+        this.router.post(
+            '/statements/:cardCompany',
+            express.raw({ type: STATEMENT_CONTENT_TYPES, limit: STATEMENT_UPLOAD_LIMIT }),
+            this.importController.reconcileStatement
+        );
+    }
+
+    public getRouter(): Router {
+        return this.router;
+    }
+}
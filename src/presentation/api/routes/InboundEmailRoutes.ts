@@ -0,0 +1,35 @@
+import express, { Router } from 'express';
+import { InboundEmailController } from '@presentation/api/controllers/InboundEmailController';
+
+/** 受信するメールの上限サイズ（添付ファイルを含む） */
+const INBOUND_EMAIL_LIMIT = '25mb';
+
+/**
+ * 受信Webhookルーター
+ * メールサービスから転送されたメールを受け付けるAPIエンドポイント
+ */
+export class InboundEmailRoutes {
+    private router: Router;
+    private inboundEmailController: InboundEmailController;
+
+    constructor(inboundEmailController: InboundEmailController) {
+        // eslint-disable-next-line new-cap
+        this.router = Router();
+        this.inboundEmailController = inboundEmailController;
+        this.initializeRoutes();
+    }
+
+    private initializeRoutes(): void {
+        // 転送元はFirebaseの認証トークンを送れないため、認証ミドルウェアの代わりにコントローラーで署名を検証する
+        // 署名の検証にはリクエストボディのバイト列が必要なため、Content-Typeに関わらずそのまま受け取る
+        this.router.post(
+            '/emails',
+            express.raw({ type: () => true, limit: INBOUND_EMAIL_LIMIT }),
+            this.inboundEmailController.receiveEmail
+        );
+    }
+
+    public getRouter(): Router {
+        return this.router;
+    }
+}
@@ -0,0 +1,37 @@
+import { Router } from 'express';
+import { IssuerTemplateController } from '@presentation/api/controllers/IssuerTemplateController';
+import { authMiddleware } from '@shared/presentation/middlewares/AuthMiddleware';
+
+/**
+ * カード会社テンプレートルーター
+ * メール形式のテンプレート設定に関するAPIエンドポイント
+ */
+export class IssuerTemplateRoutes {
+    private router: Router;
+    private issuerTemplateController: IssuerTemplateController;
+
+    constructor(issuerTemplateController: IssuerTemplateController) {
+        // eslint-disable-next-line new-cap
+        this.router = Router();
+        this.issuerTemplateController = issuerTemplateController;
+        this.initializeRoutes();
+    }
+
+    private initializeRoutes(): void {
+        // すべてのエンドポイントに認証ミドルウェアを適用
+        this.router.use(authMiddleware);
+
+        // テンプレート一覧取得（バージョン履歴を含む）
+        this.router.get('/', this.issuerTemplateController.getTemplates);
+
+        // テンプレートを新しいバージョンとして保存
+        this.router.post('/', this.issuerTemplateController.saveTemplate);
+
+        // テンプレートを過去のバージョンに戻す
+        this.router.post('/:cardCompany/rollback', this.issuerTemplateController.rollbackTemplate);
+    }
+
+    public getRouter(): Router {
+        return this.router;
+    }
+}
@@ -0,0 +1,34 @@
+import { Router } from 'express';
+import { MerchantAliasController } from '@presentation/api/controllers/MerchantAliasController';
+import { authMiddleware } from '@shared/presentation/middlewares/AuthMiddleware';
+
+/**
+ * 利用先の別名ルーター
+ * 利用先の正規化に使用する別名の設定に関するAPIエンドポイント
+ */
+export class MerchantAliasRoutes {
+    private router: Router;
+    private merchantAliasController: MerchantAliasController;
+
+    constructor(merchantAliasController: MerchantAliasController) {
+        // eslint-disable-next-line new-cap
+        this.router = Router();
+        this.merchantAliasController = merchantAliasController;
+        this.initializeRoutes();
+    }
+
+    private initializeRoutes(): void {
+        // すべてのエンドポイントに認証ミドルウェアを適用
+        this.router.use(authMiddleware);
+
+        // 別名の一覧取得
+        this.router.get('/', this.merchantAliasController.getAliases);
+
+        // 別名の一覧を保存（既存の別名はすべて置き換える）
+        this.router.put('/', this.merchantAliasController.saveAliases);
+    }
+
+    public getRouter(): Router {
+        return this.router;
+    }
+}
@@ -0,0 +1,41 @@
+import express, { Router } from 'express';
+import { ParseController } from '@presentation/api/controllers/ParseController';
+import { authMiddleware } from '@shared/presentation/middlewares/AuthMiddleware';
+
+/** 解析を試す元のメールのContent-Type（JSONは共通のボディパーサーで処理する） */
+const EMAIL_CONTENT_TYPES = ['message/rfc822', 'application/octet-stream', 'text/plain'];
+
+/** 解析を試す元のメールの上限サイズ */
+const EMAIL_UPLOAD_LIMIT = '10mb';
+
+/**
+ * メール解析ルーター
+ * 保存や通知を行わずにメールの解析結果を確認するためのAPIエンドポイント
+ */
+export class ParseRoutes {
+    private router: Router;
+    private parseController: ParseController;
+
+    constructor(parseController: ParseController) {
+        // eslint-disable-next-line new-cap
+        this.router = Router();
+        this.parseController = parseController;
+        this.initializeRoutes();
+    }
+
+    private initializeRoutes(): void {
+        // すべてのエンドポイントに認証ミドルウェアを適用
+        this.router.use(authMiddleware);
+
+        // メールの解析結果をプレビューする（Firestoreへの保存・Discordへの通知は行わない）
+        this.router.post(
+            '/preview',
+            express.raw({ type: EMAIL_CONTENT_TYPES, limit: EMAIL_UPLOAD_LIMIT }),
+            this.parseController.preview
+        );
+    }
+
+    public getRouter(): Router {
+        return this.router;
+    }
+}
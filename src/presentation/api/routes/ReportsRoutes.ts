@@ -45,6 +45,21 @@ export class ReportsRoutes {
          * 月次レポート取得 API
          */
         this.router.get('/monthly/:year/:month', this.reportController.getMonthlyReport);
+
+        /**
+         * 年次レポート取得 API
+         */
+        this.router.get('/yearly/:year', this.reportController.getYearlyReport);
+
+        /**
+         * 請求サイクルのレポート取得 API (カードの支払月)
+         */
+        this.router.get('/billing/:card/:cycle', this.reportController.getBillingCycleReport);
+
+        /**
+         * 月末の利用額の見込み取得 API
+         */
+        this.router.get('/forecast/:year/:month', this.reportController.getMonthEndForecast);
     }
 
     public getRouter(): Router {
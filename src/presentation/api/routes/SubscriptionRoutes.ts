@@ -0,0 +1,31 @@
+import { Router } from 'express';
+import { SubscriptionController } from '@presentation/api/controllers/SubscriptionController';
+import { authMiddleware } from '@shared/presentation/middlewares/AuthMiddleware';
+
+/**
+ * 定期的な支払いルーター
+ * 検出済みの定期的な支払い（サブスクリプション）の参照に関するAPIエンドポイント
+ */
+export class SubscriptionRoutes {
+    private router: Router;
+    private subscriptionController: SubscriptionController;
+
+    constructor(subscriptionController: SubscriptionController) {
+        // eslint-disable-next-line new-cap
+        this.router = Router();
+        this.subscriptionController = subscriptionController;
+        this.initializeRoutes();
+    }
+
+    private initializeRoutes(): void {
+        // すべてのエンドポイントに認証ミドルウェアを適用
+        this.router.use(authMiddleware);
+
+        // 検出済みの定期的な支払いの一覧を取得
+        this.router.get('/', this.subscriptionController.getSubscriptions);
+    }
+
+    public getRouter(): Router {
+        return this.router;
+    }
+}
@@ -1,6 +1,5 @@
 import { ImapEmailService } from '../../../infrastructure/email/ImapEmailService';
 import { ParsedEmail } from '../../../infrastructure/email/EmailParser';
-import { Environment } from '../../../../shared/infrastructure/config/Environment';
 import { logger } from '../../../../shared/infrastructure/logging/Logger';
 import { AppError, ErrorType } from '@shared/errors/AppError';
 import { ErrorHandler } from '../../../../shared/infrastructure/errors/ErrorHandler';
@@ -8,18 +7,20 @@ import {
   IProcessCardCompanyEmailUseCase,
 } from '../../../domain/interfaces/usecases/email/IProcessCardCompanyEmailUseCase';
 import { INotifyCardUsageUseCase } from '../../../domain/interfaces/usecases/notification/INotifyCardUsageUseCase';
-import { CardCompany } from '@domain/enums/CardCompany';
+import { ICardIssuerParserRegistry } from '@domain/interfaces/infrastructure/email/ICardIssuerParserRegistry';
+import {
+  IImapStateRepository,
+} from '@domain/interfaces/infrastructure/database/repositories/IImapStateRepository';
+import {
+  IImapAccountConfigLoader,
+  ImapAccount,
+} from '@domain/interfaces/infrastructure/config/IImapAccountConfigLoader';
+import { ImapAccountConfigLoader } from '@infrastructure/config/ImapAccountConfigLoader';
 
 /**
  * メール処理のコントローラー
  */
 export class EmailController {
-  // メールボックス設定
-  private readonly mailboxes = {
-    [CardCompany.MUFG]: '三菱東京UFJ銀行',
-    [CardCompany.SMBC]: '三井住友カード',
-  };
-
   // メールサービスのインスタンス
   private emailServices: Record<string, ImapEmailService> = {};
   private readonly serviceContext = 'EmailController';
@@ -31,7 +32,10 @@ export class EmailController {
    */
   constructor(
     private readonly processCardCompanyEmailUseCase: IProcessCardCompanyEmailUseCase,
-    private readonly notifyCardUsageUseCase: INotifyCardUsageUseCase
+    private readonly notifyCardUsageUseCase: INotifyCardUsageUseCase,
+    private readonly parserRegistry: ICardIssuerParserRegistry,
+    private readonly imapStateRepository: IImapStateRepository,
+    private readonly imapAccountConfigLoader: IImapAccountConfigLoader = new ImapAccountConfigLoader(parserRegistry)
   ) {
     logger.updateServiceStatus(this.serviceContext, 'offline', '初期化済み');
   }
@@ -44,7 +48,8 @@ export class EmailController {
   }
 
   /**
-   * すべてのメールボックスの監視を開始
+   * すべてのアカウントのメールボックスの監視を開始
+   * アカウント・メールボックスごとに別々のIMAP接続で監視する
    */
   @ErrorHandler.errorDecorator('EmailController', {
     defaultMessage: 'メールボックス監視の開始に失敗しました',
@@ -52,27 +57,35 @@ export class EmailController {
   async startAllMonitoring(): Promise<void> {
     logger.info('全メールボックスの監視を開始します...', this.serviceContext);
 
-    // カード会社ごとに別々のインスタンスを作成して監視
-    for (const [cardCompany, mailboxName] of Object.entries(this.mailboxes)) {
-      try {
-        // 各メールボックス用のImapEmailServiceインスタンスを作成
-        const mailboxService = new ImapEmailService(
-          Environment.IMAP_SERVER,
-          Environment.IMAP_USER,
-          Environment.IMAP_PASSWORD
-        );
-
-        // インスタンスを保存
-        this.emailServices[cardCompany] = mailboxService;
-
-        // 監視を開始
-        await this.startMonitoringForMailbox(mailboxName, cardCompany as CardCompany, mailboxService);
-      } catch (error) {
-        // 個別のメールボックスのエラーは全体の処理を止めない
-        await ErrorHandler.handle(error, this.serviceContext, {
-          defaultMessage: `${cardCompany}のメールボックス監視の開始に失敗しました`,
-          additionalInfo: { cardCompany, mailboxName },
-        });
+    const accounts = this.imapAccountConfigLoader.load();
+
+    for (const account of accounts) {
+      for (const mailboxName of account.mailboxes) {
+        const serviceKey = `${account.id}:${mailboxName}`;
+        try {
+          // メールボックスごとにImapEmailServiceインスタンスを作成
+          const mailboxService = new ImapEmailService(
+            account.server,
+            account.user,
+            account.accessTokenProvider ?? account.password,
+            this.parserRegistry,
+            this.imapStateRepository,
+            account.monitoringOptions,
+            `ImapEmailService:${serviceKey}`
+          );
+
+          // インスタンスを保存
+          this.emailServices[serviceKey] = mailboxService;
+
+          // 監視を開始
+          await this.startMonitoringForMailbox(account, mailboxName, mailboxService);
+        } catch (error) {
+          // 個別のメールボックスのエラーは全体の処理を止めない
+          await ErrorHandler.handle(error, this.serviceContext, {
+            defaultMessage: `${account.id}のメールボックス "${mailboxName}" の監視の開始に失敗しました`,
+            additionalInfo: { accountId: account.id, mailboxName },
+          });
+        }
       }
     }
 
@@ -81,9 +94,9 @@ export class EmailController {
 
     // 監視開始のログをDiscordに通知
     logger.info(
-      `メールボックス監視を開始しました。監視対象: ${Object.entries(this.mailboxes)
-        .map(([company, box]) => `${company}: ${box}`)
-        .join(', ')}`,
+      `メールボックス監視を開始しました。監視対象: ${accounts
+        .map((account) => `${account.id}: ${account.mailboxes.join(', ')}`)
+        .join(' / ')}`,
       this.serviceContext,
       {
         notify: true,
@@ -94,30 +107,37 @@ export class EmailController {
 
   /**
    * 特定のメールボックスの監視を開始
+   * アカウントで受け付けないカード会社のメールは処理しない
    */
   @ErrorHandler.errorDecorator('EmailController', {
     defaultMessage: 'メールボックスへの接続に失敗しました',
   })
   private async startMonitoringForMailbox(
+    account: ImapAccount,
     mailboxName: string,
-    cardCompany: CardCompany,
     emailService: ImapEmailService
   ): Promise<void> {
-    const context = `${this.serviceContext}:${cardCompany}`;
-    logger.info(`${cardCompany}のメールボックス "${mailboxName}" の監視を開始します`, context);
+    const context = `${this.serviceContext}:${account.id}`;
+    logger.info(`${account.id}のメールボックス "${mailboxName}" の監視を開始します`, context);
 
     await emailService.connect(mailboxName, async (email: ParsedEmail) => {
+      const parser = this.parserRegistry.detect(email);
+      if (parser && !account.issuers.includes(parser.cardCompany)) {
+        logger.info(`${account.id}で受け付けないカード会社のメールのため処理しません: ${parser.cardCompany}`, context);
+        return;
+      }
       await this.processReceivedEmail(email, context);
     });
   }
 
   /**
    * 受信したメールを処理
+   * IMAPの監視と受信Webhookのどちらで受信したメールも、このメソッドで処理する
    */
   @ErrorHandler.errorDecorator('EmailController', {
     defaultMessage: 'メール処理中にエラーが発生しました',
   })
-  private async processReceivedEmail(email: ParsedEmail, context: string): Promise<void> {
+  public async processReceivedEmail(email: ParsedEmail, context: string): Promise<void> {
     logger.info(`新しいメールを受信しました: ${email.subject}`, context);
     logger.debug(`送信者: ${email.from}`, context);
     logger.debug(`本文サンプル: ${email.body.substring(0, 100)}...`, context);
@@ -125,9 +145,14 @@ export class EmailController {
     // ユースケースにメール処理を委譲
     const result = await this.processCardCompanyEmailUseCase.execute(email);
 
-    if (result.cardCompany && result.usageResult) {
-      // カード利用情報が取得できた場合は通知
-      await this.notifyCardUsageUseCase.notifyUsage(result.usageResult.usage);
+    if (result.deadLetterId) {
+      // 抽出・保存に失敗したメールはデッドレターに登録済み（通知もデッドレター側で行う）
+      logger.warn(`メールをデッドレターに登録しました: ${result.deadLetterId}`, context);
+    } else if (result.cardCompany && result.usageResults) {
+      // カード利用情報が取得できた場合は明細ごとに通知
+      for (const usageResult of result.usageResults) {
+        await this.notifyCardUsageUseCase.notifyUsage(usageResult.usage);
+      }
     } else {
       // カード会社を特定できなかった場合
       const warnAppError = new AppError(
@@ -0,0 +1,112 @@
+import {
+  ICardUsageCrudRepository,
+} from '@domain/interfaces/infrastructure/database/repositories/ICardUsageCrudRepository';
+import { ICardUsageCategorizer } from '@domain/interfaces/infrastructure/category/ICardUsageCategorizer';
+import {
+  CategoryRuleApplyResult,
+  CategoryRuleChange,
+  IApplyCategoryRulesUseCase,
+} from '@domain/interfaces/usecases/category/IApplyCategoryRulesUseCase';
+import { UNCATEGORIZED_CATEGORY_ID } from '@shared/domain/entities/Category';
+import { AppError, ErrorType } from '@shared/errors/AppError';
+import { ErrorHandler } from '@shared/infrastructure/errors/ErrorHandler';
+import { logger } from '@shared/infrastructure/logging/Logger';
+
+/** 日付の形式（YYYY-MM-DD） */
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * 自動分類のルールの再適用のユースケース
+ * 指定された期間のカード利用情報のカテゴリを現在のルールで割り当て直し、変わったものだけを更新する
+ */
+export class ApplyCategoryRulesUseCase implements IApplyCategoryRulesUseCase {
+  private readonly serviceContext = 'ApplyCategoryRulesUseCase';
+
+  /**
+   * コンストラクタ
+   * @param cardUsageRepository カード利用情報リポジトリ
+   * @param categorizer カード利用情報の自動分類
+   */
+  constructor(
+    private readonly cardUsageRepository: ICardUsageCrudRepository,
+    private readonly categorizer: ICardUsageCategorizer
+  ) { }
+
+  /**
+   * 指定された期間のカード利用情報に自動分類のルールを再適用する
+   * 論理削除されたカード利用情報も対象とする（復元した場合にカテゴリが古くならないよう）
+   */
+  @ErrorHandler.errorDecorator('ApplyCategoryRulesUseCase', {
+    defaultMessage: '自動分類のルールの再適用に失敗しました',
+  })
+  async execute(from: string, to: string, dryRun = false): Promise<CategoryRuleApplyResult> {
+    const start = this.parseDate(from, 'from');
+    const end = this.parseDate(to, 'to');
+    if (start > end) {
+      throw new AppError('fromはto以前の日付を指定してください', ErrorType.VALIDATION, { from, to });
+    }
+    end.setHours(23, 59, 59, 999);
+
+    // ルールは期間全体で同じものを使用する（取得できない場合は未分類で上書きしないようエラーとする）
+    const rules = await this.categorizer.getRules();
+
+    const changes: CategoryRuleChange[] = [];
+    let total = 0;
+    let skipped = 0;
+
+    const month = new Date(start.getFullYear(), start.getMonth(), 1);
+    while (month <= end) {
+      const usages = await this.cardUsageRepository.getByYearMonth(
+        String(month.getFullYear()),
+        String(month.getMonth() + 1)
+      );
+
+      for (const usage of usages) {
+        const usedAt = usage.datetime_of_use.toDate();
+        if (usedAt < start || usedAt > end) {
+          continue;
+        }
+        total++;
+
+        if (usage.category_source === 'manual') {
+          skipped++;
+          continue;
+        }
+
+        const category = this.categorizer.match(usage, rules);
+        const source = category === UNCATEGORIZED_CATEGORY_ID ? 'default' : 'rule';
+        if (category === usage.category && usage.category_source === source) {
+          continue;
+        }
+
+        if (!dryRun) {
+          // eslint-disable-next-line camelcase
+          await this.cardUsageRepository.updateByPath(usage.path, { category, category_source: source });
+        }
+        changes.push({ path: usage.path, whereToUse: usage.where_to_use, previous: usage.category, category });
+      }
+
+      month.setMonth(month.getMonth() + 1);
+    }
+
+    logger.info(
+      `${from}〜${to}のカード利用情報に自動分類のルールを${dryRun ? '確認' : '再適用'}しました: ` +
+      `${changes.length}件 / ${total}件（手動で設定: ${skipped}件）`,
+      this.serviceContext
+    );
+    return { from, to, total, skipped, changes };
+  }
+
+  /**
+   * YYYY-MM-DD形式の日付を解析する（ローカル時刻の0時）
+   */
+  private parseDate(value: string, name: string): Date {
+    const match = typeof value === 'string' ? value.match(DATE_PATTERN) : null;
+    const date = match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : null;
+
+    if (!match || !date || date.getDate() !== Number(match[3]) || date.getMonth() !== Number(match[2]) - 1) {
+      throw new AppError(`${name}はYYYY-MM-DD形式の日付で指定してください`, ErrorType.VALIDATION, { [name]: value });
+    }
+    return date;
+  }
+}
@@ -0,0 +1,65 @@
+import {
+  ICardUsageCrudRepository,
+} from '@domain/interfaces/infrastructure/database/repositories/ICardUsageCrudRepository';
+import { IMerchantNormalizer } from '@domain/interfaces/infrastructure/merchant/IMerchantNormalizer';
+import {
+  IBackfillMerchantUseCase,
+  MerchantBackfillChange,
+  MerchantBackfillResult,
+} from '@domain/interfaces/usecases/database/IBackfillMerchantUseCase';
+import { AppError, ErrorType } from '@shared/errors/AppError';
+import { ErrorHandler } from '@shared/infrastructure/errors/ErrorHandler';
+import { logger } from '@shared/infrastructure/logging/Logger';
+
+/**
+ * 正規化した利用先の一括更新のユースケース
+ * 保存済みのカード利用情報の利用先を現在の正規化と別名で正規化し直し、変わったものだけを更新する
+ */
+export class BackfillMerchantUseCase implements IBackfillMerchantUseCase {
+  private readonly serviceContext = 'BackfillMerchantUseCase';
+
+  /**
+   * コンストラクタ
+   * @param cardUsageRepository カード利用情報リポジトリ
+   * @param merchantNormalizer 利用先の正規化
+   */
+  constructor(
+    private readonly cardUsageRepository: ICardUsageCrudRepository,
+    private readonly merchantNormalizer: IMerchantNormalizer
+  ) { }
+
+  /**
+   * 指定された年月のカード利用情報の正規化した利用先を更新する
+   * 論理削除されたカード利用情報も対象とする（復元した場合に正規化した利用先が古くならないよう）
+   */
+  @ErrorHandler.errorDecorator('BackfillMerchantUseCase', {
+    defaultMessage: '正規化した利用先の一括更新に失敗しました',
+  })
+  async execute(year: string, month: string, dryRun = false): Promise<MerchantBackfillResult> {
+    if (!year || !month) {
+      throw new AppError('年と月のパラメータが必要です', ErrorType.VALIDATION);
+    }
+
+    const usages = await this.cardUsageRepository.getByYearMonth(year, month);
+    const changes: MerchantBackfillChange[] = [];
+
+    for (const usage of usages) {
+      const merchant = await this.merchantNormalizer.normalize(usage.where_to_use);
+      if (merchant === usage.merchant) {
+        continue;
+      }
+
+      if (!dryRun) {
+        await this.cardUsageRepository.updateByPath(usage.path, { merchant });
+      }
+      changes.push({ path: usage.path, whereToUse: usage.where_to_use, previous: usage.merchant, merchant });
+    }
+
+    logger.info(
+      `${year}年${month}月の正規化した利用先を${dryRun ? '確認' : '更新'}しました: ` +
+      `${changes.length}件 / ${usages.length}件`,
+      this.serviceContext
+    );
+    return { year, month, total: usages.length, changes };
+  }
+}
@@ -0,0 +1,256 @@
+import { CardUsage } from '@shared/domain/entities/CardUsage';
+import {
+  ICardUsageCrudRepository,
+} from '@domain/interfaces/infrastructure/database/repositories/ICardUsageCrudRepository';
+import {
+  DuplicateCardUsagePair,
+  DuplicateCheckResult,
+  ICardUsageDuplicateUseCase,
+  MergeDuplicateResult,
+  StoredCardUsage,
+} from '@domain/interfaces/usecases/database/ICardUsageDuplicateUseCase';
+import { AppError, ErrorType } from '@shared/errors/AppError';
+import { Environment } from '@shared/infrastructure/config/Environment';
+import { logger } from '@shared/infrastructure/logging/Logger';
+
+/** フィンガープリントの比較で無視する文字（NFKC正規化後） */
+const FINGERPRINT_IGNORED_CHARACTERS = /[\s\-・.,'"()*/]/g;
+
+/** 1分あたりのミリ秒 */
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * カード利用情報の重複検出のユースケース
+ * 同じ利用がメールの再送・手動登録・取り込みなど複数の経路から登録されるのを、
+ * カード名・金額・利用先のフィンガープリントと利用日時の近さで検出する
+ */
+export class CardUsageDuplicateUseCase implements ICardUsageDuplicateUseCase {
+  private readonly serviceContext = 'CardUsageDuplicateUseCase';
+
+  /**
+   * コンストラクタ
+   * @param cardUsageRepository カード利用情報リポジトリ
+   * @param policy 重複の疑いがある場合の扱い（flag: 記録して保存、skip: 保存しない）
+   * @param timeWindowMinutes 重複とみなす利用日時の差（分）
+   */
+  constructor(
+    private readonly cardUsageRepository: ICardUsageCrudRepository,
+    private readonly policy: string = Environment.DUPLICATE_POLICY,
+    private readonly timeWindowMinutes: number = Environment.DUPLICATE_TIME_WINDOW_MINUTES
+  ) { }
+
+  /**
+   * 保存前に、重複の疑いがある保存済みのカード利用情報を検索する
+   * 同じメール（Message-ID）の同じ明細の再送は確実に同じ利用のため、設定によらずスキップする
+   * 同じメール内の同じ内容の明細（まとめて通知されたものなど）は別の利用のため、設定に従う
+   * 検索に失敗した場合は、保存を妨げないよう重複なしとして扱う
+   */
+  async check(cardUsage: CardUsage): Promise<DuplicateCheckResult> {
+    const usedAt = cardUsage.datetime_of_use.toDate();
+
+    let candidates: StoredCardUsage[];
+    try {
+      candidates = await this.getActiveUsagesAround(usedAt);
+    } catch (error) {
+      logger.warn(
+        `重複の検索に失敗したため、確認せずに保存します: ${error instanceof Error ? error.message : String(error)}`,
+        this.serviceContext
+      );
+      return { cardUsage, duplicateOf: null, skip: false };
+    }
+
+    const redelivered = this.findRedelivered(cardUsage, candidates);
+    if (redelivered) {
+      logger.info(`同じメールの再送のため保存しません: ${redelivered.path}`, this.serviceContext);
+      return { cardUsage, duplicateOf: redelivered, skip: true };
+    }
+
+    const duplicateOf = this.findNearestDuplicate(cardUsage, candidates);
+    if (!duplicateOf) {
+      return { cardUsage, duplicateOf: null, skip: false };
+    }
+
+    if (this.policy === 'skip') {
+      logger.info(`登録済みのカード利用情報と重複するため保存しません: ${duplicateOf.path}`, this.serviceContext);
+      return { cardUsage, duplicateOf, skip: true };
+    }
+
+    logger.warn(
+      `重複の疑いがあるカード利用情報を保存します（${duplicateOf.path}）\n` +
+      `- ${cardUsage.card_name} / ${cardUsage.amount}円 / ${cardUsage.where_to_use}`,
+      this.serviceContext,
+      {
+        notify: true,
+        title: '👥 重複の疑いがあるカード利用',
+      }
+    );
+    // eslint-disable-next-line camelcase
+    return { cardUsage: { ...cardUsage, duplicate_of: duplicateOf.path }, duplicateOf, skip: false };
+  }
+
+  /**
+   * 指定された年月の、重複の疑いがあるカード利用情報の組を取得する
+   * フィンガープリントが同じで利用日時が近いものに加え、保存時に重複の疑いを記録したものを含める
+   */
+  async getDuplicates(year: string, month: string): Promise<DuplicateCardUsagePair[]> {
+    if (!year || !month) {
+      throw new AppError('年と月のパラメータが必要です', ErrorType.VALIDATION);
+    }
+
+    const usages = (await this.cardUsageRepository.getByYearMonth(year, month))
+      .filter((usage) => usage.is_active !== false)
+      .sort((a, b) => this.timeOf(a) - this.timeOf(b));
+
+    const pairs = new Map<string, DuplicateCardUsagePair>();
+    const addPair = (original: StoredCardUsage, duplicate: StoredCardUsage): void => {
+      const key = [original.path, duplicate.path].sort().join('|');
+      if (!pairs.has(key)) {
+        pairs.set(key, {
+          fingerprint: this.toFingerprint(duplicate),
+          original,
+          duplicate,
+          minutesApart: Math.round(Math.abs(this.timeOf(duplicate) - this.timeOf(original)) / MINUTE_MS),
+        });
+      }
+    };
+
+    // フィンガープリントが同じで利用日時が近いもの（利用日時の順に隣り合うものを組にする）
+    const groups = new Map<string, StoredCardUsage[]>();
+    for (const usage of usages) {
+      const fingerprint = this.toFingerprint(usage);
+      groups.set(fingerprint, [...(groups.get(fingerprint) ?? []), usage]);
+    }
+    for (const group of groups.values()) {
+      for (let i = 1; i < group.length; i++) {
+        if (this.isWithinWindow(group[i - 1], group[i])) {
+          addPair(group[i - 1], group[i]);
+        }
+      }
+    }
+
+    // 保存時に重複の疑いを記録したもの（登録後に内容が編集された場合も含める）
+    const byPath = new Map(usages.map((usage) => [usage.path, usage]));
+    for (const usage of usages) {
+      const original = usage.duplicate_of ? byPath.get(usage.duplicate_of) : undefined;
+      if (original) {
+        addPair(original, usage);
+      }
+    }
+
+    return [...pairs.values()].sort((a, b) => this.timeOf(a.duplicate) - this.timeOf(b.duplicate));
+  }
+
+  /**
+   * 重複したカード利用情報を統合する
+   * 残す方に未設定のメモ・利用先を補い、もう一方は統合先を記録して論理削除する
+   */
+  async merge(keepId: string, duplicateId: string): Promise<MergeDuplicateResult> {
+    if (!keepId || !duplicateId) {
+      throw new AppError('残すIDと削除するIDが必要です', ErrorType.VALIDATION);
+    }
+    if (keepId === duplicateId) {
+      throw new AppError('残すIDと削除するIDには異なるIDを指定してください', ErrorType.VALIDATION, { keepId });
+    }
+
+    const kept = await this.cardUsageRepository.getById(keepId);
+    const duplicate = await this.cardUsageRepository.getById(duplicateId);
+    if (!kept || !duplicate) {
+      throw new AppError('指定されたIDのカード利用情報が見つかりません', ErrorType.NOT_FOUND, {
+        keepId: kept ? undefined : keepId,
+        duplicateId: duplicate ? undefined : duplicateId,
+      });
+    }
+    if (duplicate.is_active === false) {
+      throw new AppError('削除するカード利用情報はすでに削除されています', ErrorType.VALIDATION, { duplicateId });
+    }
+
+    const supplements: Partial<CardUsage> = {};
+    if (!kept.memo && duplicate.memo) {
+      supplements.memo = duplicate.memo;
+    }
+    if (!kept.where_to_use && duplicate.where_to_use) {
+      // eslint-disable-next-line camelcase
+      supplements.where_to_use = duplicate.where_to_use;
+    }
+    const merged = Object.keys(supplements).length > 0 ?
+      await this.cardUsageRepository.update(keepId, supplements) :
+      kept;
+    if (!merged) {
+      throw new AppError('指定されたIDのカード利用情報が見つかりません', ErrorType.NOT_FOUND, { keepId });
+    }
+
+    // eslint-disable-next-line camelcase
+    await this.cardUsageRepository.update(duplicateId, { is_active: false, duplicate_of: kept.path });
+    logger.info(`重複したカード利用情報を統合しました: ${duplicate.path} → ${kept.path}`, this.serviceContext);
+
+    return { kept: merged, removed: { id: duplicateId, path: duplicate.path } };
+  }
+
+  /**
+   * 利用日時の前後の、重複判定の対象となる保存済みのカード利用情報を取得する
+   * 重複とみなす時間が月をまたぐ場合は、両方の月を検索する
+   */
+  private async getActiveUsagesAround(usedAt: Date): Promise<StoredCardUsage[]> {
+    const window = this.timeWindowMinutes * MINUTE_MS;
+    const months = new Map<string, { year: string, month: string }>();
+    for (const date of [new Date(usedAt.getTime() - window), usedAt, new Date(usedAt.getTime() + window)]) {
+      const year = String(date.getFullYear());
+      const month = String(date.getMonth() + 1);
+      months.set(`${year}-${month}`, { year, month });
+    }
+
+    const usages = await Promise.all(
+      [...months.values()].map(({ year, month }) => this.cardUsageRepository.getByYearMonth(year, month))
+    );
+    return usages.flat().filter((usage) => usage.is_active !== false);
+  }
+
+  /**
+   * 同じメール（Message-ID）の同じ明細から登録済みのものを取得する
+   */
+  private findRedelivered(cardUsage: CardUsage, candidates: StoredCardUsage[]): StoredCardUsage | null {
+    if (!cardUsage.source_message_id) {
+      return null;
+    }
+    return candidates.find((usage) =>
+      usage.source_message_id === cardUsage.source_message_id &&
+      usage.source_item_index === cardUsage.source_item_index
+    ) ?? null;
+  }
+
+  /**
+   * 重複の疑いがあるもののうち、利用日時が最も近いものを取得する
+   */
+  private findNearestDuplicate(cardUsage: CardUsage, candidates: StoredCardUsage[]): StoredCardUsage | null {
+    const fingerprint = this.toFingerprint(cardUsage);
+    const distance = (usage: StoredCardUsage): number => Math.abs(this.timeOf(usage) - this.timeOf(cardUsage));
+
+    return candidates
+      .filter((usage) => this.toFingerprint(usage) === fingerprint && this.isWithinWindow(usage, cardUsage))
+      .sort((a, b) => distance(a) - distance(b))[0] ?? null;
+  }
+
+  /**
+   * 重複判定に使用するフィンガープリント（カード名・金額・利用先）
+   * カード名と利用先は表記の揺れ（全角・半角、大文字・小文字、記号、空白）を吸収する
+   */
+  private toFingerprint(cardUsage: CardUsage): string {
+    const normalize = (value: string | undefined): string =>
+      (value ?? '').normalize('NFKC').toUpperCase().replace(FINGERPRINT_IGNORED_CHARACTERS, '');
+    return `${normalize(cardUsage.card_name)}|${cardUsage.amount}|${normalize(cardUsage.where_to_use)}`;
+  }
+
+  /**
+   * 利用日時の差が重複とみなす時間内かを判定する
+   */
+  private isWithinWindow(a: CardUsage, b: CardUsage): boolean {
+    return Math.abs(this.timeOf(a) - this.timeOf(b)) <= this.timeWindowMinutes * MINUTE_MS;
+  }
+
+  /**
+   * 利用日時（ミリ秒）
+   */
+  private timeOf(cardUsage: CardUsage): number {
+    return cardUsage.datetime_of_use.toDate().getTime();
+  }
+}
@@ -1,4 +1,4 @@
-import { CardUsage } from '@shared/domain/entities/CardUsage';
+import { CardUsage, CardUsageStatus, CardUsageTransactionType } from '@shared/domain/entities/CardUsage';
 import {
   ICardUsageCrudRepository,
 } from '@domain/interfaces/infrastructure/database/repositories/ICardUsageCrudRepository';
@@ -6,6 +6,18 @@ import { AppError, ErrorType } from '@shared/errors/AppError';
 import { Timestamp } from 'firebase-admin/firestore';
 import { DiscordNotifier } from '@shared/infrastructure/discord/DiscordNotifier';
 import { CardUsageMapper } from '@shared/infrastructure/mappers/CardUsageMapper';
+import { ICardUsageDuplicateUseCase } from '@domain/interfaces/usecases/database/ICardUsageDuplicateUseCase';
+import { CardUsageDuplicateUseCase } from '@usecase/database/CardUsageDuplicateUseCase';
+import { IMerchantNormalizer } from '@domain/interfaces/infrastructure/merchant/IMerchantNormalizer';
+import { MerchantNormalizer } from '@infrastructure/merchant/MerchantNormalizer';
+import { ICardUsageCategorizer } from '@domain/interfaces/infrastructure/category/ICardUsageCategorizer';
+import { CardUsageCategorizer } from '@infrastructure/category/CardUsageCategorizer';
+import { UNCATEGORIZED_CATEGORY_ID } from '@shared/domain/entities/Category';
+
+const CARD_USAGE_STATUSES: CardUsageStatus[] = ['confirmed', 'pending_review'];
+const CARD_USAGE_TRANSACTION_TYPES: CardUsageTransactionType[] = ['usage', 'refund'];
+
+type ForeignCurrencyFields = Pick<CardUsage, 'original_currency' | 'original_amount' | 'exchange_rate'>;
 
 /**
  * Firestoreを使用したカード利用情報のユースケース
@@ -14,21 +26,36 @@ import { CardUsageMapper } from '@shared/infrastructure/mappers/CardUsageMapper'
 export class FirestoreCardUsageUseCase {
     constructor(
         private cardUsageRepository: ICardUsageCrudRepository,
-        private discordNotifier: DiscordNotifier
+        private discordNotifier: DiscordNotifier,
+        private duplicateUseCase: ICardUsageDuplicateUseCase = new CardUsageDuplicateUseCase(cardUsageRepository),
+        private merchantNormalizer: IMerchantNormalizer = new MerchantNormalizer(),
+        private categorizer: ICardUsageCategorizer = new CardUsageCategorizer()
     ) { }
 
     /**
      * 指定された年月のカード利用情報を取得する
      * @param year 年
      * @param month 月
+     * @param status 絞り込む状態（省略時はすべて。状態が未設定のデータは確定済みとして扱う）
      * @returns カード利用情報の配列
      */
-    async getCardUsagesByYearMonth(year: string, month: string): Promise<(CardUsage & { id: string, path: string })[]> {
+    async getCardUsagesByYearMonth(
+        year: string,
+        month: string,
+        status?: CardUsageStatus
+    ): Promise<(CardUsage & { id: string, path: string })[]> {
         if (!year || !month) {
             throw new AppError('年と月のパラメータが必要です', ErrorType.VALIDATION);
         }
+        if (status !== undefined) {
+            this.assertStatus(status);
+        }
 
-        return await this.cardUsageRepository.getByYearMonth(year, month);
+        const cardUsages = await this.cardUsageRepository.getByYearMonth(year, month);
+        if (status === undefined) {
+            return cardUsages;
+        }
+        return cardUsages.filter((cardUsage) => (cardUsage.status || 'confirmed') === status);
     }
 
     /**
@@ -51,6 +78,11 @@ export class FirestoreCardUsageUseCase {
 
     /**
      * カード利用情報を作成する
+     * 取引種別に取消・返金（refund）を指定した場合、金額は負の値として保存する
+     * 外貨建ての場合は、円の金額に加えて現地通貨・現地通貨額・換算レートを指定できる
+     * 登録済みの利用と重複する場合は、設定に応じて重複の疑いを記録して保存するか、DUPLICATEエラーとする
+     * 利用先は指定された表記のまま保存し、正規化した利用先をあわせて保存する
+     * 支出カテゴリを指定した場合は手動で設定したものとして保存し、省略した場合は自動分類のルールで割り当てる
      * @param cardUsageData カード利用情報
      * @returns 作成されたカード利用情報
      */
@@ -59,6 +91,9 @@ export class FirestoreCardUsageUseCase {
         if (!cardUsageData || !cardUsageData.datetime_of_use || !cardUsageData.amount || !cardUsageData.card_name) {
             throw new AppError('必須フィールドが不足しています', ErrorType.VALIDATION);
         }
+        if (cardUsageData.transaction_type !== undefined) {
+            this.assertTransactionType(cardUsageData.transaction_type);
+        }
 
         /* eslint-disable camelcase */
         // 日付文字列をタイムスタンプに変換
@@ -91,22 +126,47 @@ export class FirestoreCardUsageUseCase {
         const created_at = Timestamp.now();
 
         // 保存用のCardUsageオブジェクトを作成
+        const transaction_type: CardUsageTransactionType | undefined = cardUsageData.transaction_type;
+        const amount = Number(cardUsageData.amount);
+        const where_to_use: string = cardUsageData.where_to_use || '';
         const cardUsage: CardUsage = {
             card_name: cardUsageData.card_name,
             datetime_of_use: datetime_of_use,
-            amount: Number(cardUsageData.amount),
-            where_to_use: cardUsageData.where_to_use || '',
+            amount: transaction_type === 'refund' ? -Math.abs(amount) : amount,
+            where_to_use,
+            merchant: await this.merchantNormalizer.normalize(where_to_use),
             memo: cardUsageData.memo || '',
             is_active: cardUsageData.is_active !== undefined ? cardUsageData.is_active : true,
             created_at: created_at,
+            ...this.toForeignCurrencyFields(cardUsageData),
+            ...(transaction_type !== undefined && { transaction_type }),
+            ...(cardUsageData.original_usage_path && { original_usage_path: cardUsageData.original_usage_path }),
         };
         /* eslint-enable camelcase */
 
+        if (cardUsageData.category !== undefined) {
+            await this.assertCategory(cardUsageData.category);
+            cardUsage.category = cardUsageData.category;
+            cardUsage.category_source = 'manual';
+        } else {
+            cardUsage.category = await this.categorizer.categorize(cardUsage);
+            cardUsage.category_source = cardUsage.category === UNCATEGORIZED_CATEGORY_ID ? 'default' : 'rule';
+        }
+
+        // 登録済みの利用との重複を確認
+        const duplicateCheck = await this.duplicateUseCase.check(cardUsage);
+        if (duplicateCheck.skip) {
+            throw new AppError('重複の疑いがあるカード利用情報が登録済みです', ErrorType.DUPLICATE, {
+                duplicateOf: duplicateCheck.duplicateOf?.path,
+            });
+        }
+
         // リポジトリ経由で保存
-        const savedPath = await this.cardUsageRepository.save(cardUsage);
+        const savedCardUsage = duplicateCheck.cardUsage;
+        const savedPath = await this.cardUsageRepository.save(savedCardUsage);
 
         // Discord通知
-        await this.discordNotifier.notifyCardUsage(CardUsageMapper.toNotification(cardUsage));
+        await this.discordNotifier.notifyCardUsage(CardUsageMapper.toNotification(savedCardUsage));
 
         /* eslint-disable camelcase */
         // 作成日時のタイムスタンプをIDとして使用
@@ -114,7 +174,7 @@ export class FirestoreCardUsageUseCase {
         /* eslint-enable camelcase */
 
         return {
-            ...cardUsage,
+            ...savedCardUsage,
             id: id,
             path: savedPath,
         };
@@ -122,6 +182,8 @@ export class FirestoreCardUsageUseCase {
 
     /**
      * カード利用情報を更新する
+     * 支出カテゴリを指定した場合は手動で設定したものとし、自動分類のルールを再適用しても変更しない
+     * 支出カテゴリにnullを指定した場合は、手動の設定を解除して自動分類のルールで割り当て直す
      * @param id カード利用情報のID
      * @param updateData 更新データ
      * @returns 更新されたカード利用情報
@@ -142,8 +204,10 @@ export class FirestoreCardUsageUseCase {
             updateFields.amount = Number(updateData.amount);
         }
 
+        // 利用先を変更する場合は、正規化した利用先もあわせて更新する
         if (updateData.where_to_use !== undefined) {
             updateFields.where_to_use = updateData.where_to_use;
+            updateFields.merchant = await this.merchantNormalizer.normalize(updateData.where_to_use);
         }
 
         if (updateData.memo !== undefined) {
@@ -154,6 +218,24 @@ export class FirestoreCardUsageUseCase {
             updateFields.is_active = updateData.is_active;
         }
 
+        Object.assign(updateFields, this.toForeignCurrencyFields(updateData));
+
+        // 確認待ちのデータを確定する場合はconfirmedを指定する（レポートには次回の再集計で反映される）
+        if (updateData.status !== undefined) {
+            this.assertStatus(updateData.status);
+            updateFields.status = updateData.status;
+        }
+
+        if (updateData.category === null) {
+            const current = await this.getCardUsageById(id);
+            updateFields.category = await this.categorizer.categorize({ ...current, ...updateFields });
+            updateFields.category_source = updateFields.category === UNCATEGORIZED_CATEGORY_ID ? 'default' : 'rule';
+        } else if (updateData.category !== undefined) {
+            await this.assertCategory(updateData.category);
+            updateFields.category = updateData.category;
+            updateFields.category_source = 'manual';
+        }
+
         const updatedCardUsage = await this.cardUsageRepository.update(id, updateFields);
         if (!updatedCardUsage) {
             throw new AppError('指定されたIDのカード利用情報が見つかりません', ErrorType.NOT_FOUND);
@@ -179,4 +261,76 @@ export class FirestoreCardUsageUseCase {
 
         return result;
     }
+
+    /**
+     * 外貨建ての情報を検証して取り出す
+     * 指定されていない項目は含めない
+     * @param data 作成・更新データ
+     * @returns 外貨建ての情報
+     */
+    private toForeignCurrencyFields(data: Record<string, unknown>): ForeignCurrencyFields {
+        const fields: ForeignCurrencyFields = {};
+
+        if (data.original_currency !== undefined) {
+            if (typeof data.original_currency !== 'string' || !/^[A-Z]{3}$/.test(data.original_currency)) {
+                throw new AppError(
+                    'original_currencyは3文字の通貨コード（例: USD）を指定してください',
+                    ErrorType.VALIDATION,
+                    { original_currency: data.original_currency }
+                );
+            }
+            fields.original_currency = data.original_currency;
+        }
+
+        for (const key of ['original_amount', 'exchange_rate'] as const) {
+            if (data[key] === undefined) {
+                continue;
+            }
+            const value = Number(data[key]);
+            if (!Number.isFinite(value) || value <= 0) {
+                throw new AppError(`${key}は正の数値を指定してください`, ErrorType.VALIDATION, { [key]: data[key] });
+            }
+            fields[key] = value;
+        }
+
+        return fields;
+    }
+
+    /**
+     * 取引種別の値を検証する
+     * @param transactionType 取引種別
+     */
+    private assertTransactionType(transactionType: unknown): asserts transactionType is CardUsageTransactionType {
+        if (!CARD_USAGE_TRANSACTION_TYPES.includes(transactionType as CardUsageTransactionType)) {
+            throw new AppError(
+                `transaction_typeは${CARD_USAGE_TRANSACTION_TYPES.join(', ')}のいずれかを指定してください`,
+                ErrorType.VALIDATION,
+                { transaction_type: transactionType }
+            );
+        }
+    }
+
+    /**
+     * 支出カテゴリが登録済みであることを検証する
+     * @param category 支出カテゴリのID
+     */
+    private async assertCategory(category: unknown): Promise<void> {
+        if (typeof category !== 'string' || !(await this.categorizer.hasCategory(category))) {
+            throw new AppError('categoryには登録済みのカテゴリを指定してください', ErrorType.VALIDATION, { category });
+        }
+    }
+
+    /**
+     * 状態の値を検証する
+     * @param status 状態
+     */
+    private assertStatus(status: unknown): asserts status is CardUsageStatus {
+        if (!CARD_USAGE_STATUSES.includes(status as CardUsageStatus)) {
+            throw new AppError(
+                `statusは${CARD_USAGE_STATUSES.join(', ')}のいずれかを指定してください`,
+                ErrorType.VALIDATION,
+                { status }
+            );
+        }
+    }
 }
@@ -0,0 +1,242 @@
+import { CardCompany } from '@domain/enums/CardCompany';
+import { EmailParser, ParsedEmail } from '@infrastructure/email/EmailParser';
+import { IEmailParser } from '@domain/interfaces/infrastructure/email/IEmailParser';
+import { ICardIssuerParserRegistry } from '@domain/interfaces/infrastructure/email/ICardIssuerParserRegistry';
+import {
+  IDeadLetterRepository,
+} from '@domain/interfaces/infrastructure/database/repositories/IDeadLetterRepository';
+import { DeadLetterRetryResult, IDeadLetterUseCase } from '@domain/interfaces/usecases/email/IDeadLetterUseCase';
+import { IProcessEmailUseCase, ProcessedCardUsage } from '@domain/interfaces/usecases/email/IProcessEmailUseCase';
+import { INotifyCardUsageUseCase } from '@domain/interfaces/usecases/notification/INotifyCardUsageUseCase';
+import { DeadLetter, DeadLetterError, DeadLetterStatus } from '@shared/domain/entities/DeadLetter';
+import { AppError, ErrorType } from '@shared/errors/AppError';
+import { ErrorHandler } from '@shared/infrastructure/errors/ErrorHandler';
+import { logger } from '@shared/infrastructure/logging/Logger';
+
+/**
+ * デッドレターのユースケース
+ * 解析・保存に失敗したメールを元のメールごと保持し、後から再処理または破棄できるようにする
+ */
+export class DeadLetterUseCase implements IDeadLetterUseCase {
+  private readonly serviceContext = 'DeadLetterUseCase';
+
+  /**
+   * コンストラクタ
+   * @param deadLetterRepository デッドレターリポジトリ
+   * @param processEmailUseCase メール処理のユースケース（再処理に使用）
+   * @param notifyCardUsageUseCase カード利用通知のユースケース
+   * @param parserRegistry カード会社パーサーのレジストリ（再処理時のカード会社判定に使用）
+   * @param emailParser メールパーサー（元のメールの再解析に使用）
+   */
+  constructor(
+    private readonly deadLetterRepository: IDeadLetterRepository,
+    private readonly processEmailUseCase: IProcessEmailUseCase,
+    private readonly notifyCardUsageUseCase: INotifyCardUsageUseCase,
+    private readonly parserRegistry: ICardIssuerParserRegistry,
+    private readonly emailParser: IEmailParser = new EmailParser()
+  ) { }
+
+  /**
+   * 処理に失敗したメールをデッドレターとして登録し、Discordに通知する
+   */
+  @ErrorHandler.errorDecorator('DeadLetterUseCase', {
+    defaultMessage: 'デッドレターの登録に失敗しました',
+  })
+  async record(email: ParsedEmail, cardCompany: CardCompany | null, error: unknown): Promise<DeadLetter> {
+    const deadLetter = await this.deadLetterRepository.save({
+      cardCompany,
+      uid: email.uid,
+      subject: email.subject,
+      from: email.from,
+      receivedAt: email.date.toISOString(),
+      body: email.body,
+      rawSource: email.source ? email.source.toString('base64') : '',
+      error: this.toDeadLetterError(error),
+    });
+
+    logger.warn(
+      '処理できなかったメールをデッドレターに登録しました\n' +
+      `ID: ${deadLetter.id}\n` +
+      `カード会社: ${cardCompany ?? '不明'}\n` +
+      `件名: ${email.subject}\n` +
+      `エラー: ${deadLetter.error.message}`,
+      this.serviceContext,
+      {
+        notify: true,
+        title: '📮 デッドレター登録',
+      }
+    );
+
+    return deadLetter;
+  }
+
+  /**
+   * デッドレターを新しい順に取得する
+   */
+  @ErrorHandler.errorDecorator('DeadLetterUseCase', {
+    defaultMessage: 'デッドレター一覧の取得に失敗しました',
+  })
+  async getDeadLetters(status?: DeadLetterStatus): Promise<DeadLetter[]> {
+    return this.deadLetterRepository.findAll(status);
+  }
+
+  /**
+   * デッドレターを取得する
+   */
+  @ErrorHandler.errorDecorator('DeadLetterUseCase', {
+    defaultMessage: 'デッドレターの取得に失敗しました',
+  })
+  async getDeadLetter(id: string): Promise<DeadLetter> {
+    const deadLetter = await this.deadLetterRepository.getById(id);
+    if (!deadLetter) {
+      throw new AppError(`デッドレターが見つかりません: ${id}`, ErrorType.NOT_FOUND, { id });
+    }
+    return deadLetter;
+  }
+
+  /**
+   * 現在のパーサーでデッドレターを再処理する
+   * 元のメールを再解析してカード会社を判定し直し、判定できない場合は登録時のカード会社を使用する
+   */
+  @ErrorHandler.errorDecorator('DeadLetterUseCase', {
+    defaultMessage: 'デッドレターの再処理に失敗しました',
+  })
+  async retry(id: string): Promise<DeadLetterRetryResult> {
+    const deadLetter = await this.getPendingDeadLetter(id);
+    const email = await this.restoreEmail(deadLetter);
+
+    const detectedParser = this.parserRegistry.detect(email);
+    const cardCompany = detectedParser ? detectedParser.cardCompany : deadLetter.cardCompany;
+
+    let usageResults: ProcessedCardUsage[];
+    try {
+      if (!cardCompany) {
+        throw new AppError(
+          'カード会社を特定できませんでした',
+          ErrorType.VALIDATION,
+          { id, subject: email.subject, from: email.from }
+        );
+      }
+      usageResults = await this.processEmailUseCase.execute(email.body, cardCompany, email.messageId);
+    } catch (error) {
+      return this.markRetryFailed(deadLetter, error);
+    }
+
+    for (const usageResult of usageResults) {
+      await this.notifyCardUsageUseCase.notifyUsage(usageResult.usage);
+    }
+
+    const resolved: DeadLetter = {
+      ...deadLetter,
+      status: 'resolved',
+      cardCompany,
+      retryCount: deadLetter.retryCount + 1,
+      resolvedPaths: usageResults.map((usageResult) => usageResult.savedPath),
+      updatedAt: new Date().toISOString(),
+    };
+    await this.deadLetterRepository.update(id, {
+      status: resolved.status,
+      cardCompany: resolved.cardCompany,
+      retryCount: resolved.retryCount,
+      resolvedPaths: resolved.resolvedPaths,
+      updatedAt: resolved.updatedAt,
+    });
+    logger.info(`デッドレターを再処理しました: ${id}`, this.serviceContext);
+
+    return { deadLetter: resolved, usageResults };
+  }
+
+  /**
+   * デッドレターを破棄する
+   */
+  @ErrorHandler.errorDecorator('DeadLetterUseCase', {
+    defaultMessage: 'デッドレターの破棄に失敗しました',
+  })
+  async discard(id: string): Promise<DeadLetter> {
+    const deadLetter = await this.getPendingDeadLetter(id);
+
+    const discarded: DeadLetter = {
+      ...deadLetter,
+      status: 'discarded',
+      updatedAt: new Date().toISOString(),
+    };
+    await this.deadLetterRepository.update(id, {
+      status: discarded.status,
+      updatedAt: discarded.updatedAt,
+    });
+    logger.info(`デッドレターを破棄しました: ${id}`, this.serviceContext);
+
+    return discarded;
+  }
+
+  /**
+   * 未対応のデッドレターを取得する
+   * 解決済み・破棄済みのデッドレターは再処理・破棄の対象外とする
+   */
+  private async getPendingDeadLetter(id: string): Promise<DeadLetter> {
+    const deadLetter = await this.getDeadLetter(id);
+    if (deadLetter.status !== 'pending') {
+      throw new AppError(
+        `デッドレターは既に${deadLetter.status === 'resolved' ? '解決' : '破棄'}されています: ${id}`,
+        ErrorType.VALIDATION,
+        { id, status: deadLetter.status }
+      );
+    }
+    return deadLetter;
+  }
+
+  /**
+   * デッドレターからメールを復元する
+   * 元のメールを保持していない、または再解析できない場合は登録時の解析結果を使用する
+   */
+  private async restoreEmail(deadLetter: DeadLetter): Promise<ParsedEmail> {
+    if (deadLetter.rawSource) {
+      const parsed = await this.emailParser.parseEmail({
+        uid: deadLetter.uid,
+        source: Buffer.from(deadLetter.rawSource, 'base64'),
+      });
+      if (parsed) {
+        return parsed;
+      }
+    }
+
+    return {
+      subject: deadLetter.subject,
+      from: deadLetter.from,
+      body: deadLetter.body,
+      date: new Date(deadLetter.receivedAt),
+      uid: deadLetter.uid,
+    };
+  }
+
+  /**
+   * 再処理の失敗を記録してエラーを再スローする
+   */
+  private async markRetryFailed(deadLetter: DeadLetter, error: unknown): Promise<never> {
+    await this.deadLetterRepository.update(deadLetter.id, {
+      error: this.toDeadLetterError(error),
+      retryCount: deadLetter.retryCount + 1,
+      updatedAt: new Date().toISOString(),
+    });
+    throw error;
+  }
+
+  /**
+   * エラーをデッドレターに保存できる形式に変換する
+   * Firestoreはundefinedを保存できないため、詳細情報はJSONとして扱える値に限定する
+   */
+  private toDeadLetterError(error: unknown): DeadLetterError {
+    if (error instanceof AppError) {
+      return {
+        message: error.message,
+        type: error.type,
+        details: error.details === undefined ? null : JSON.parse(JSON.stringify(error.details)),
+      };
+    }
+    return {
+      message: error instanceof Error ? error.message : String(error),
+      type: ErrorType.GENERAL,
+      details: null,
+    };
+  }
+}
@@ -0,0 +1,124 @@
+import { CardCompany } from '@domain/enums/CardCompany';
+import { EmailParser } from '@infrastructure/email/EmailParser';
+import { RawEmailMessage } from '@infrastructure/email/ImapEmailClient';
+import { EmailArchiveReader } from '@infrastructure/email/EmailArchiveReader';
+import { IEmailParser } from '@domain/interfaces/infrastructure/email/IEmailParser';
+import { IEmailArchiveReader } from '@domain/interfaces/infrastructure/email/IEmailArchiveReader';
+import { ICardIssuerParserRegistry } from '@domain/interfaces/infrastructure/email/ICardIssuerParserRegistry';
+import { IProcessCardCompanyEmailUseCase } from '@domain/interfaces/usecases/email/IProcessCardCompanyEmailUseCase';
+import {
+  EmailArchive,
+  IImportEmailsUseCase,
+  ImportEmailsResult,
+  ImportedEmailResult,
+  ImportedEmailStatus,
+} from '@domain/interfaces/usecases/email/IImportEmailsUseCase';
+import { ErrorHandler } from '@shared/infrastructure/errors/ErrorHandler';
+import { logger } from '@shared/infrastructure/logging/Logger';
+
+/**
+ * メール取り込みのユースケース
+ * エクスポートされた過去のメールを、IMAPで受信したメールと同じ処理でカード利用情報として登録する
+ */
+export class ImportEmailsUseCase implements IImportEmailsUseCase {
+  private readonly serviceContext = 'ImportEmailsUseCase';
+
+  /**
+   * コンストラクタ
+   * @param processCardCompanyEmailUseCase カード会社判定とカード利用情報の処理を行うユースケース
+   * @param parserRegistry カード会社パーサーのレジストリ（カード会社を特定できないメールの判定に使用）
+   * @param emailParser メールパーサー
+   * @param archiveReader メールファイルの読み込み
+   */
+  constructor(
+    private readonly processCardCompanyEmailUseCase: IProcessCardCompanyEmailUseCase,
+    private readonly parserRegistry: ICardIssuerParserRegistry,
+    private readonly emailParser: IEmailParser = new EmailParser(),
+    private readonly archiveReader: IEmailArchiveReader = new EmailArchiveReader()
+  ) { }
+
+  /**
+   * .emlファイルやmbox形式のアーカイブに含まれるメールを取り込む
+   * 登録済みの利用明細は明細ごとにスキップし（保存時の重複の確認による）、利用通知は行わない
+   * 登録したカード利用情報にはimportedを設定し、しきい値・予算のアラートの対象外とする
+   */
+  @ErrorHandler.errorDecorator('ImportEmailsUseCase', {
+    defaultMessage: 'メールの取り込みに失敗しました',
+  })
+  async execute(archives: EmailArchive[]): Promise<ImportEmailsResult> {
+    const items: ImportedEmailResult[] = [];
+
+    for (const archive of archives) {
+      const messages = this.archiveReader.read(archive.content, archive.name);
+      logger.info(`${archive.name}から${messages.length}通のメールを取り込みます`, this.serviceContext);
+
+      for (const message of messages) {
+        items.push(await this.importMessage(message));
+      }
+    }
+
+    const count = (status: ImportedEmailStatus): number => items.filter((item) => item.status === status).length;
+    const result: ImportEmailsResult = {
+      total: items.length,
+      created: count('created'),
+      skipped: count('skipped'),
+      failed: count('failed'),
+      items,
+    };
+
+    logger.info(
+      `メールの取り込みが完了しました: 登録${result.created}件 / スキップ${result.skipped}件 / 失敗${result.failed}件`,
+      this.serviceContext
+    );
+    return result;
+  }
+
+  /**
+   * メール1通を取り込む
+   * 登録済みかどうかは明細ごとに保存時の重複の確認で判定するため、一部の明細のみ登録済みのメールも未登録の明細を登録する
+   * 同じメール（Message-ID）の同じ明細は、重複の設定によらず登録しない
+   * @param message 生のメールデータ
+   */
+  private async importMessage(message: RawEmailMessage): Promise<ImportedEmailResult> {
+    const email = await this.emailParser.parseEmail(message);
+    if (!email) {
+      return { source: message.uid, status: 'failed', cardCompany: null, reason: 'メールを解析できませんでした' };
+    }
+
+    const base = { source: message.uid, subject: email.subject, receivedAt: email.date.toISOString() };
+
+    const parser = this.parserRegistry.detect(email);
+    if (!parser) {
+      return { ...base, status: 'skipped', cardCompany: null, reason: 'カード会社を特定できないメールです' };
+    }
+
+    try {
+      const result = await this.processCardCompanyEmailUseCase.execute(email, { imported: true });
+      const cardCompany: CardCompany | null = result.cardCompany;
+
+      if (result.deadLetterId) {
+        return {
+          ...base,
+          status: 'failed',
+          cardCompany,
+          reason: 'カード利用情報を保存できなかったため、デッドレターに登録しました',
+          deadLetterId: result.deadLetterId,
+        };
+      }
+
+      const savedPaths = (result.usageResults ?? []).map((usageResult) => usageResult.savedPath);
+      if (savedPaths.length === 0) {
+        return { ...base, status: 'skipped', cardCompany, reason: '登録済みの利用明細と重複するため登録しませんでした' };
+      }
+
+      return { ...base, status: 'created', cardCompany, savedPaths };
+    } catch (error) {
+      return {
+        ...base,
+        status: 'failed',
+        cardCompany: parser.cardCompany,
+        reason: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+}
@@ -0,0 +1,145 @@
+import { CardCompany } from '@domain/enums/CardCompany';
+import { EmailParser } from '@infrastructure/email/EmailParser';
+import { CardUsageValidator } from '@infrastructure/email/CardUsageValidator';
+import { IEmailParser } from '@domain/interfaces/infrastructure/email/IEmailParser';
+import { ICardUsageValidator } from '@domain/interfaces/infrastructure/email/ICardUsageValidator';
+import { DetectableEmail, ICardIssuerParser } from '@domain/interfaces/infrastructure/email/ICardIssuerParser';
+import { ICardIssuerParserRegistry } from '@domain/interfaces/infrastructure/email/ICardIssuerParserRegistry';
+import {
+  IPreviewEmailParseUseCase,
+  PreviewCardUsage,
+  PreviewDetection,
+  PreviewEmailInput,
+  PreviewEmailParseResult,
+} from '@domain/interfaces/usecases/email/IPreviewEmailParseUseCase';
+import { CardUsageMapper } from '@shared/infrastructure/mappers/CardUsageMapper';
+import { AppError, ErrorType } from '@shared/errors/AppError';
+import { ErrorHandler } from '@shared/infrastructure/errors/ErrorHandler';
+import { Environment } from '@shared/infrastructure/config/Environment';
+import { logger } from '@shared/infrastructure/logging/Logger';
+
+/**
+ * 解析プレビューのユースケース
+ * 新しい形式のメールを本番環境で安全に試せるよう、保存や通知を行わずに判定・抽出・検証の結果を返す
+ */
+export class PreviewEmailParseUseCase implements IPreviewEmailParseUseCase {
+  private readonly serviceContext = 'PreviewEmailParseUseCase';
+
+  /**
+   * コンストラクタ
+   * @param parserRegistry カード会社パーサーのレジストリ
+   * @param cardUsageValidator 抽出結果の検証
+   * @param confidenceThreshold 確認待ちとする信頼度のしきい値
+   * @param emailParser メールパーサー
+   */
+  constructor(
+    private readonly parserRegistry: ICardIssuerParserRegistry,
+    private readonly cardUsageValidator: ICardUsageValidator = new CardUsageValidator(),
+    private readonly confidenceThreshold: number = Environment.EXTRACTION_CONFIDENCE_THRESHOLD,
+    private readonly emailParser: IEmailParser = new EmailParser()
+  ) { }
+
+  /**
+   * メールからカード会社を判定してカード利用情報を抽出し、検証結果とともに返す
+   * 抽出に失敗した場合もエラーにはせず、エラーメッセージを結果に含める
+   */
+  @ErrorHandler.errorDecorator('PreviewEmailParseUseCase', {
+    defaultMessage: 'メールの解析プレビューに失敗しました',
+    suppressNotification: true,
+  })
+  async execute(input: PreviewEmailInput): Promise<PreviewEmailParseResult> {
+    const email = await this.resolveEmail(input);
+    const detections = this.detectAll(email);
+    const { parser, resolvedBy } = this.resolveParser(email, input.cardCompany);
+
+    const result: PreviewEmailParseResult = {
+      subject: email.subject,
+      from: email.from,
+      cardCompany: parser?.cardCompany ?? null,
+      resolvedBy,
+      detections,
+      usages: [],
+    };
+
+    if (!parser) {
+      logger.info('カード会社を特定できませんでした', this.serviceContext);
+      return result;
+    }
+
+    try {
+      result.usages = parser.extract(email.body).map((cardUsage): PreviewCardUsage => {
+        const validation = this.cardUsageValidator.validate(cardUsage, email.body);
+        return {
+          usage: CardUsageMapper.toNotification(cardUsage),
+          validation,
+          status: validation.confidence < this.confidenceThreshold ? 'pending_review' : 'confirmed',
+        };
+      });
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : String(error);
+    }
+
+    logger.info(
+      `${parser.cardCompany}として解析しました: ${result.usages.length}件` +
+      (result.error ? `（抽出失敗: ${result.error}）` : ''),
+      this.serviceContext
+    );
+    return result;
+  }
+
+  /**
+   * 解析対象のメールを取得する
+   * 元のメールが指定された場合はパースし、なければ指定された本文・件名・送信元を使用する
+   * @param input 解析を試すメール
+   */
+  private async resolveEmail(input: PreviewEmailInput): Promise<DetectableEmail> {
+    if (input.source) {
+      const email = await this.emailParser.parseEmail({ uid: 'preview', source: input.source });
+      if (!email) {
+        throw new AppError('メールを解析できませんでした', ErrorType.VALIDATION);
+      }
+      return email;
+    }
+
+    if (!input.body) {
+      throw new AppError('元のメールまたはメール本文を指定してください', ErrorType.VALIDATION);
+    }
+
+    return { subject: input.subject ?? '', from: input.from ?? '', body: input.body };
+  }
+
+  /**
+   * 判定ルールに一致したカード会社ごとの判定結果を取得する
+   * @param email 判定対象のメール
+   */
+  private detectAll(email: DetectableEmail): PreviewDetection[] {
+    return this.parserRegistry.getAll()
+      .map((parser): PreviewDetection => ({ cardCompany: parser.cardCompany, ...parser.detect(email) }))
+      .filter((detection) => detection.matchedRules.length > 0);
+  }
+
+  /**
+   * 解析に使用するパーサーを決定する
+   * カード会社が指定された場合はそのパーサーを使用し、なければレジストリの判定に従う
+   * @param email 判定対象のメール
+   * @param cardCompany カード会社の指定
+   */
+  private resolveParser(
+    email: DetectableEmail,
+    cardCompany?: string
+  ): { parser: ICardIssuerParser | null; resolvedBy: PreviewEmailParseResult['resolvedBy'] } {
+    if (cardCompany) {
+      const parser = this.parserRegistry.get(cardCompany as CardCompany);
+      if (!parser) {
+        throw new AppError(`未対応のカード会社です: ${cardCompany}`, ErrorType.VALIDATION, {
+          cardCompany,
+          supported: this.parserRegistry.getAll().map((registered) => registered.cardCompany),
+        });
+      }
+      return { parser, resolvedBy: 'hint' };
+    }
+
+    const parser = this.parserRegistry.detect(email);
+    return { parser, resolvedBy: parser ? parser.detect(email).matchedBy : null };
+  }
+}
@@ -4,7 +4,9 @@ import { IProcessCardCompanyEmailUseCase } from '@domain/interfaces/usecases/ema
 import { ProcessEmailUseCase } from '@usecase/email/ProcessEmailUseCase';
 import { logger } from '@shared/infrastructure/logging/Logger';
 import { ErrorHandler } from '@shared/infrastructure/errors/ErrorHandler';
-import { CardUsageNotificationDTO } from '@shared/domain/dto/CardUsageNotificationDTO';
+import { ProcessedCardUsage, ProcessEmailOptions } from '@domain/interfaces/usecases/email/IProcessEmailUseCase';
+import { ICardIssuerParserRegistry } from '@domain/interfaces/infrastructure/email/ICardIssuerParserRegistry';
+import { IDeadLetterUseCase } from '@domain/interfaces/usecases/email/IDeadLetterUseCase';
 
 /**
  * メールからカード会社を判定し、カード利用情報を処理するユースケース
@@ -13,21 +15,24 @@ export class ProcessCardCompanyEmailUseCase implements IProcessCardCompanyEmailU
   private readonly serviceContext = 'ProcessCardCompanyEmailUseCase';
 
   constructor(
-    private readonly processEmailUseCase: ProcessEmailUseCase
+    private readonly processEmailUseCase: ProcessEmailUseCase,
+    private readonly parserRegistry: ICardIssuerParserRegistry,
+    private readonly deadLetterUseCase: IDeadLetterUseCase
   ) { }
 
   /**
    * メールからカード会社を判定し、カード利用情報を処理する
+   * 抽出・保存に失敗したメールはデッドレターに登録し、deadLetterIdを返す
+   * @param email 解析済みのメール
+   * @param options メール処理のオプション
    */
   @ErrorHandler.errorDecorator('ProcessCardCompanyEmailUseCase', {
     defaultMessage: 'カード利用情報の処理中にエラーが発生しました',
   })
-  async execute(email: ParsedEmail): Promise<{
+  async execute(email: ParsedEmail, options: ProcessEmailOptions = {}): Promise<{
     cardCompany: CardCompany | null;
-    usageResult?: {
-      usage: CardUsageNotificationDTO;
-      savedPath: string;
-    };
+    usageResults?: ProcessedCardUsage[];
+    deadLetterId?: string;
   }> {
     logger.info(`メール処理を開始します: ${email.subject}`, this.serviceContext);
 
@@ -41,48 +46,32 @@ export class ProcessCardCompanyEmailUseCase implements IProcessCardCompanyEmailU
 
     logger.info(`${detectedCardCompany}のメールを検出しました`, this.serviceContext);
 
-    // メール本文からカード利用情報を抽出して保存
-    const result = await this.processEmailUseCase.execute(email.body, detectedCardCompany);
+    // メール本文からカード利用情報を抽出して保存（複数件の利用明細は明細ごとに保存される）
+    let results: ProcessedCardUsage[];
+    try {
+      results = await this.processEmailUseCase.execute(email.body, detectedCardCompany, email.messageId, options);
+    } catch (error) {
+      // メールを失わないよう、元のメールごとデッドレターに登録する
+      const deadLetter = await this.deadLetterUseCase.record(email, detectedCardCompany, error);
+      return {
+        cardCompany: detectedCardCompany,
+        usageResults: [],
+        deadLetterId: deadLetter.id,
+      };
+    }
 
     return {
       cardCompany: detectedCardCompany,
-      usageResult: result,
+      usageResults: results,
     };
   }
 
   /**
    * カード会社を判定
+   * レジストリに登録されたパーサーの判定ルールを登録順に評価する
    */
   private detectCardCompany(email: ParsedEmail): CardCompany | null {
-    if (this.isMufgEmail(email)) {
-      return CardCompany.MUFG;
-    } else if (this.isSmbcEmail(email)) {
-      return CardCompany.SMBC;
-    }
-    return null;
-  }
-
-  /**
-   * 三菱UFJ銀行のメールかどうかを判定
-   */
-  private isMufgEmail(email: ParsedEmail): boolean {
-    const fromCheck = email.from.includes('mufg.jp') || email.from.includes('bk.mufg.jp');
-    const subjectCheck = email.subject.includes('UFJ') || email.subject.includes('利用');
-    const bodyCheck = email.body.includes('三菱') || email.body.includes('UFJ') || email.body.includes('デビット');
-
-    return fromCheck || (subjectCheck && bodyCheck);
-  }
-
-  /**
-   * 三井住友カードのメールかどうかを判定
-   */
-  private isSmbcEmail(email: ParsedEmail): boolean {
-    const fromCheck = email.from.includes('vpass.ne.jp') ||
-      email.from.includes('smbc-card.com') ||
-      email.from.includes('smbc.co.jp');
-    const subjectCheck = email.subject.includes('三井住友') || email.subject.includes('利用');
-    const bodyCheck = email.body.includes('三井住友') || email.body.includes('SMBC') || email.body.includes('クレジット');
-
-    return fromCheck || (subjectCheck && bodyCheck);
+    const parser = this.parserRegistry.detect(email);
+    return parser ? parser.cardCompany : null;
   }
 }
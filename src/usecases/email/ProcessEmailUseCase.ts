@@ -2,12 +2,28 @@ import { CardUsageNotificationDTO } from '@shared/domain/dto/CardUsageNotificati
 import {
   ICardUsageCrudRepository,
 } from '@domain/interfaces/infrastructure/database/repositories/ICardUsageCrudRepository';
-import { IProcessEmailUseCase } from '@domain/interfaces/usecases/email/IProcessEmailUseCase';
+import {
+  IProcessEmailUseCase,
+  ProcessedCardUsage,
+  ProcessEmailOptions,
+} from '@domain/interfaces/usecases/email/IProcessEmailUseCase';
 import { ImapEmailService } from '@infrastructure/email/ImapEmailService';
 import { logger } from '@shared/infrastructure/logging/Logger';
 import { ErrorHandler } from '@shared/infrastructure/errors/ErrorHandler';
 import { CardCompany } from '@domain/enums/CardCompany';
 import { CardUsageMapper } from '@shared/infrastructure/mappers/CardUsageMapper';
+import { CardUsage, ExtractionValidation } from '@shared/domain/entities/CardUsage';
+import { AppError, ErrorType } from '@shared/errors/AppError';
+import { ICardUsageValidator } from '@domain/interfaces/infrastructure/email/ICardUsageValidator';
+import { CardUsageValidator } from '@infrastructure/email/CardUsageValidator';
+import { Environment } from '@shared/infrastructure/config/Environment';
+import { ICardUsageDuplicateUseCase } from '@domain/interfaces/usecases/database/ICardUsageDuplicateUseCase';
+import { CardUsageDuplicateUseCase } from '@usecase/database/CardUsageDuplicateUseCase';
+import { IMerchantNormalizer } from '@domain/interfaces/infrastructure/merchant/IMerchantNormalizer';
+import { MerchantNormalizer } from '@infrastructure/merchant/MerchantNormalizer';
+import { ICardUsageCategorizer } from '@domain/interfaces/infrastructure/category/ICardUsageCategorizer';
+import { CardUsageCategorizer } from '@infrastructure/category/CardUsageCategorizer';
+import { UNCATEGORIZED_CATEGORY_ID } from '@shared/domain/entities/Category';
 
 /**
  * メール処理のユースケース
@@ -19,19 +35,40 @@ export class ProcessEmailUseCase implements IProcessEmailUseCase {
    * コンストラクタ
    * @param emailService メールサービス
    * @param cardUsageRepository カード利用情報リポジトリ
+   * @param cardUsageValidator 抽出結果の検証
+   * @param confidenceThreshold 確認待ちとする信頼度のしきい値
+   * @param duplicateUseCase 重複検出のユースケース
+   * @param merchantNormalizer 利用先の正規化
+   * @param categorizer カード利用情報の自動分類
    */
   constructor(
     private readonly emailService: ImapEmailService,
-    private readonly cardUsageRepository: ICardUsageCrudRepository
+    private readonly cardUsageRepository: ICardUsageCrudRepository,
+    private readonly cardUsageValidator: ICardUsageValidator = new CardUsageValidator(),
+    private readonly confidenceThreshold: number = Environment.EXTRACTION_CONFIDENCE_THRESHOLD,
+    private readonly duplicateUseCase: ICardUsageDuplicateUseCase = new CardUsageDuplicateUseCase(cardUsageRepository),
+    private readonly merchantNormalizer: IMerchantNormalizer = new MerchantNormalizer(),
+    private readonly categorizer: ICardUsageCategorizer = new CardUsageCategorizer()
   ) {
     logger.updateServiceStatus(this.serviceContext, 'online', '初期化完了');
   }
 
   /**
    * メール本文を処理してカード利用情報を抽出・保存する
+   * 1通に複数件の利用明細を含む場合は、明細ごとに保存する
+   * 抽出結果が不完全な明細を含む場合は、1件も保存せずにエラーとする
+   * 信頼度がしきい値未満の明細は確認待ち（pending_review）として保存する
+   * 取消・返金の明細は、特定できた場合に元の利用情報と関連付けて保存する
+   * 利用先は元の表記のまま保存し、正規化した利用先をあわせて保存する
+   * 支出カテゴリは自動分類のルールで割り当てる
+   * 登録済みの利用と重複する明細は、設定に応じて重複の疑いを記録して保存するか、保存せずにスキップする
+   * 同じメールの再送を判定できるよう、元のメールのMessage-IDと明細の位置をあわせて保存する
+   * 過去のメールの取り込みの場合は、アラートの対象外となるようimportedを設定して保存する
    * @param emailBody メール本文
    * @param cardCompany カード会社の種類
-   * @returns 処理されたカード利用情報と保存パス
+   * @param messageId 元のメールのMessage-ID
+   * @param options メール処理のオプション
+   * @returns 処理されたカード利用情報と保存パス（明細の順。スキップした明細は含まない）
    */
   @ErrorHandler.errorDecorator('ProcessEmailUseCase', {
     defaultMessage: 'メール処理中にエラーが発生しました',
@@ -39,20 +76,199 @@ export class ProcessEmailUseCase implements IProcessEmailUseCase {
   async execute(
     emailBody: string,
     cardCompany: CardCompany = CardCompany.MUFG,
-  ): Promise<{ usage: CardUsageNotificationDTO, savedPath: string }> {
+    messageId?: string,
+    options: ProcessEmailOptions = {},
+  ): Promise<ProcessedCardUsage[]> {
     logger.info(`${cardCompany}のメール本文の解析を開始します...`, this.serviceContext);
 
     // メール本文からカード利用情報を抽出
-    const cardUsage = await this.emailService.parseCardUsageFromEmail(emailBody, cardCompany);
-    logger.debug(`パース結果: ${JSON.stringify(cardUsage)}`, this.serviceContext);
+    const cardUsages = await this.emailService.parseCardUsagesFromEmail(emailBody, cardCompany);
+    logger.debug(`パース結果: ${JSON.stringify(cardUsages)}`, this.serviceContext);
 
-    // リポジトリを通じてFirestoreに保存
-    const savedPath = await this.cardUsageRepository.save(cardUsage);
-    logger.info(`カード利用情報を保存しました: ${savedPath}`, this.serviceContext);
+    // 保存前にすべての明細を検証（一部だけ保存されるのを防ぐ）
+    const validations = cardUsages.map((cardUsage, index) => {
+      const validation = this.cardUsageValidator.validate(cardUsage, emailBody);
+      this.assertExtracted(cardUsage, validation, cardCompany, index);
+      return validation;
+    });
 
-    // 処理したカード利用情報と保存パスを返す
-    const usage = CardUsageMapper.toNotification(cardUsage);
-    return { usage, savedPath };
+    const results: ProcessedCardUsage[] = [];
+    for (const [index, extractedCardUsage] of cardUsages.entries()) {
+      const categorized = await this.categorize(await this.normalizeMerchant(
+        await this.linkOriginalUsage(this.applySource(
+          this.applyValidation(extractedCardUsage, validations[index]), messageId, index, options
+        ))
+      ));
+      const duplicateCheck = await this.duplicateUseCase.check(categorized);
+      if (duplicateCheck.skip) {
+        continue;
+      }
+      const cardUsage = duplicateCheck.cardUsage;
+
+      // リポジトリを通じてFirestoreに保存
+      const savedPath = await this.cardUsageRepository.save(cardUsage);
+      logger.info(`カード利用情報を保存しました: ${savedPath}`, this.serviceContext);
+
+      // 処理したカード利用情報と保存パスを保持
+      const usage = CardUsageMapper.toNotification(cardUsage);
+      results.push({ usage, savedPath });
+    }
+
+    return results;
+  }
+
+  /**
+   * 抽出に失敗した項目がないことを確認する
+   * 金額が0またはカード名が空の場合は、確認待ちにもできないため抽出失敗とする
+   * @param cardUsage カード利用情報
+   * @param validation 抽出結果の検証結果
+   * @param cardCompany カード会社の種類
+   * @param index 明細の位置
+   */
+  private assertExtracted(
+    cardUsage: CardUsage,
+    validation: ExtractionValidation,
+    cardCompany: CardCompany,
+    index: number
+  ): void {
+    const invalidFields = (['amount', 'card_name'] as const).filter((field) => validation.fields[field] === 0);
+
+    if (invalidFields.length > 0) {
+      throw new AppError(
+        `カード利用情報の抽出結果が不完全です: ${invalidFields.join(', ')}`,
+        ErrorType.VALIDATION,
+        { cardCompany, index, invalidFields, amount: cardUsage.amount, card_name: cardUsage.card_name }
+      );
+    }
+  }
+
+  /**
+   * 検証結果を設定したカード利用情報を返す
+   * 信頼度がしきい値未満の場合は確認待ちとし、レポートの集計対象から外す
+   * @param cardUsage カード利用情報
+   * @param validation 抽出結果の検証結果
+   * @returns 状態と検証結果を設定したカード利用情報
+   */
+  private applyValidation(cardUsage: CardUsage, validation: ExtractionValidation): CardUsage {
+    const status = validation.confidence < this.confidenceThreshold ? 'pending_review' : 'confirmed';
+
+    if (status === 'pending_review') {
+      logger.warn(
+        `抽出結果の信頼度が低いため、確認待ちとして保存します（信頼度: ${validation.confidence}）\n` +
+        validation.issues.map((issue) => `- ${issue.field}: ${issue.message}`).join('\n'),
+        this.serviceContext,
+        {
+          notify: true,
+          title: '🔍 確認待ちのカード利用',
+        }
+      );
+    }
+
+    return { ...cardUsage, status, validation };
+  }
+
+  /**
+   * 元のメールのMessage-IDと明細の位置、取り込みかどうかを設定したカード利用情報を返す
+   * Message-IDがない場合は設定しない（Firestoreはundefinedを保存できないため）
+   * @param cardUsage カード利用情報
+   * @param messageId 元のメールのMessage-ID
+   * @param index 明細の位置
+   * @param options メール処理のオプション
+   * @returns 元のメールを設定したカード利用情報
+   */
+  private applySource(
+    cardUsage: CardUsage,
+    messageId: string | undefined,
+    index: number,
+    options: ProcessEmailOptions
+  ): CardUsage {
+    const source = options.imported ? { ...cardUsage, imported: true } : cardUsage;
+    if (!messageId) {
+      return source;
+    }
+    // eslint-disable-next-line camelcase
+    return { ...source, source_message_id: messageId, source_item_index: index };
+  }
+
+  /**
+   * 正規化した利用先を設定したカード利用情報を返す
+   * @param cardUsage カード利用情報
+   * @returns 正規化した利用先を設定したカード利用情報
+   */
+  private async normalizeMerchant(cardUsage: CardUsage): Promise<CardUsage> {
+    return { ...cardUsage, merchant: await this.merchantNormalizer.normalize(cardUsage.where_to_use) };
+  }
+
+  /**
+   * 自動分類のルールで支出カテゴリを設定したカード利用情報を返す
+   * 正規化した利用先をルールの評価に使用するため、利用先の正規化の後に行う
+   * どのルールにも一致せず未分類とした場合は、設定元をdefaultとする
+   * @param cardUsage カード利用情報
+   * @returns 支出カテゴリを設定したカード利用情報
+   */
+  private async categorize(cardUsage: CardUsage): Promise<CardUsage> {
+    const category = await this.categorizer.categorize(cardUsage);
+    /* eslint-disable camelcase */
+    return {
+      ...cardUsage,
+      category,
+      category_source: category === UNCATEGORIZED_CATEGORY_ID ? 'default' : 'rule',
+    };
+    /* eslint-enable camelcase */
+  }
+
+  /**
+   * 取消・返金の対象となった元の利用情報を関連付ける
+   * 取消・返金と同じ月と前月の利用情報から、カード名と利用先が一致し、取消・返金より前の利用を候補とする
+   * 金額が一致する利用を優先し、ない場合は取消・返金額以上の利用（一部返金）から最も新しいものを選ぶ
+   * 元の利用情報を特定できない場合や検索に失敗した場合は、関連付けずにそのまま返す
+   * @param cardUsage カード利用情報
+   * @returns 元の利用情報のパスを設定したカード利用情報
+   */
+  private async linkOriginalUsage(cardUsage: CardUsage): Promise<CardUsage> {
+    if (cardUsage.transaction_type !== 'refund') {
+      return cardUsage;
+    }
+
+    try {
+      const refundedAt = cardUsage.datetime_of_use.toDate();
+      const months = [0, 1].map((offset) => new Date(refundedAt.getFullYear(), refundedAt.getMonth() - offset, 1));
+      const usages = (await Promise.all(months.map((month) => this.cardUsageRepository.getByYearMonth(
+        String(month.getFullYear()),
+        String(month.getMonth() + 1)
+      )))).flat();
+
+      // 他の取消・返金ですでに関連付けられている利用は除く
+      const linkedPaths = new Set(usages.map((usage) => usage.original_usage_path).filter(Boolean));
+      const refundAmount = Math.abs(cardUsage.amount);
+      const candidates = usages
+        .filter((usage) =>
+          usage.transaction_type !== 'refund' &&
+          usage.is_active !== false &&
+          !linkedPaths.has(usage.path) &&
+          usage.card_name === cardUsage.card_name &&
+          usage.where_to_use === cardUsage.where_to_use &&
+          usage.amount >= refundAmount &&
+          usage.datetime_of_use.toDate().getTime() <= refundedAt.getTime()
+        )
+        .sort((a, b) => b.datetime_of_use.toDate().getTime() - a.datetime_of_use.toDate().getTime());
+      const original = candidates.find((usage) => usage.amount === refundAmount) ?? candidates[0];
+
+      if (!original) {
+        logger.info('取消・返金の対象となった元の利用情報が見つかりませんでした', this.serviceContext);
+        return cardUsage;
+      }
+
+      logger.info(`取消・返金を元の利用情報に関連付けます: ${original.path}`, this.serviceContext);
+      // eslint-disable-next-line camelcase
+      return { ...cardUsage, original_usage_path: original.path };
+    } catch (error) {
+      logger.warn(
+        `元の利用情報の検索に失敗したため、関連付けずに保存します: ${error instanceof Error ? error.message : String(error)}`,
+        this.serviceContext
+      );
+      return cardUsage;
+    }
   }
 
   /**
@@ -71,8 +287,12 @@ export class ProcessEmailUseCase implements IProcessEmailUseCase {
     logger.info(`テストモードで${cardCompany}のメール処理を実行します`, this.serviceContext);
 
     // メール本文からカード利用情報を抽出
-    const cardUsage = await this.emailService.parseCardUsageFromEmail(emailBody, cardCompany);
-    logger.debug(`テストパース結果: ${JSON.stringify(cardUsage)}`, this.serviceContext);
+    const extractedCardUsage = await this.emailService.parseCardUsageFromEmail(emailBody, cardCompany);
+    logger.debug(`テストパース結果: ${JSON.stringify(extractedCardUsage)}`, this.serviceContext);
+    const cardUsage = this.applyValidation(
+      extractedCardUsage,
+      this.cardUsageValidator.validate(extractedCardUsage, emailBody)
+    );
 
     // リポジトリを通じてFirestoreに保存
     const savedPath = await this.cardUsageRepository.save(cardUsage);
@@ -0,0 +1,62 @@
+import {
+  ICardUsageCrudRepository,
+} from '@domain/interfaces/infrastructure/database/repositories/ICardUsageCrudRepository';
+import { IBillingCycleReportUseCase } from '@domain/interfaces/usecases/report/IBillingCycleReportUseCase';
+import { IConfigRepository } from '@shared/domain/interfaces/database/repositories/IConfigRepository';
+import { BillingCycleReport } from '@shared/domain/entities/Reports';
+import { AppError, ErrorType } from '@shared/errors/AppError';
+import { ErrorHandler } from '@shared/infrastructure/errors/ErrorHandler';
+import { BillingCycleUtil, BillingUsageSource } from '@shared/utils/BillingCycleUtil';
+
+/**
+ * 請求サイクルのレポートのユースケース
+ * 利用期間が月をまたぐため、期間に含まれる月のカード利用情報を取得して集計する
+ */
+export class BillingCycleReportUseCase implements IBillingCycleReportUseCase {
+  /**
+   * コンストラクタ
+   * @param cardUsageRepository カード利用情報リポジトリ
+   * @param configRepository 設定リポジトリ（登録済みのカードの取得に使用）
+   */
+  constructor(
+    private readonly cardUsageRepository: ICardUsageCrudRepository,
+    private readonly configRepository: IConfigRepository
+  ) { }
+
+  /**
+   * カードの請求サイクルのレポートを作成する
+   */
+  @ErrorHandler.errorDecorator('BillingCycleReportUseCase', {
+    defaultMessage: '請求サイクルのレポートの作成に失敗しました',
+  })
+  async execute(cardName: string, cycle: string): Promise<BillingCycleReport> {
+    const paymentMonth = BillingCycleUtil.parseCycle(cycle);
+    if (!paymentMonth) {
+      throw new AppError('cycleはYYYY-MMの形式で指定してください', ErrorType.VALIDATION, { cycle });
+    }
+
+    const cards = await this.configRepository.getCards();
+    const card = cards.find((registered) => registered.cardName === cardName);
+    if (!card) {
+      throw new AppError(`カードが登録されていません: ${cardName}`, ErrorType.NOT_FOUND, { cardName });
+    }
+
+    const billingCycle = BillingCycleUtil.getCycle(card, paymentMonth.year, paymentMonth.month);
+
+    const usages: BillingUsageSource[] = [];
+    for (let month = new Date(billingCycle.periodStart.getFullYear(), billingCycle.periodStart.getMonth(), 1);
+      month <= billingCycle.periodEnd;
+      month = new Date(month.getFullYear(), month.getMonth() + 1, 1)) {
+      const monthlyUsages = await this.cardUsageRepository.getByYearMonth(
+        String(month.getFullYear()),
+        String(month.getMonth() + 1)
+      );
+      usages.push(...monthlyUsages.map((usage) => ({
+        ...usage,
+        usedAt: usage.datetime_of_use.toDate(),
+      })));
+    }
+
+    return BillingCycleUtil.summarize(card, billingCycle, usages);
+  }
+}
@@ -0,0 +1,355 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import { CardCompany } from '@domain/enums/CardCompany';
+import { IStatementParser, StatementLine } from '@domain/interfaces/infrastructure/statement/IStatementParser';
+import {
+  ICardUsageCrudRepository,
+} from '@domain/interfaces/infrastructure/database/repositories/ICardUsageCrudRepository';
+import {
+  IReconcileStatementUseCase,
+  MismatchedStatementEntry,
+  MissingStatementEntry,
+  ReconcileStatementOptions,
+  ReconciledCardUsage,
+  StatementDifference,
+  StatementReconciliationResult,
+} from '@domain/interfaces/usecases/statement/IReconcileStatementUseCase';
+import { IMerchantNormalizer } from '@domain/interfaces/infrastructure/merchant/IMerchantNormalizer';
+import { MerchantNormalizer } from '@infrastructure/merchant/MerchantNormalizer';
+import { ICardUsageCategorizer } from '@domain/interfaces/infrastructure/category/ICardUsageCategorizer';
+import { CardUsageCategorizer } from '@infrastructure/category/CardUsageCategorizer';
+import { ICardUsageDuplicateUseCase } from '@domain/interfaces/usecases/database/ICardUsageDuplicateUseCase';
+import { CardUsageDuplicateUseCase } from '@usecase/database/CardUsageDuplicateUseCase';
+import { CardUsage } from '@shared/domain/entities/CardUsage';
+import { UNCATEGORIZED_CATEGORY_ID } from '@shared/domain/entities/Category';
+import { AppError, ErrorType } from '@shared/errors/AppError';
+import { ErrorHandler } from '@shared/infrastructure/errors/ErrorHandler';
+import { logger } from '@shared/infrastructure/logging/Logger';
+
+type StoredCardUsage = CardUsage & { id: string, path: string };
+
+/** 利用日が異なる場合に同じ利用とみなす日数（利用明細の日付は売上確定日となる場合がある） */
+const DATE_TOLERANCE_DAYS = 3;
+
+/** 利用先が一致するとみなす共通部分の最小文字数 */
+const MERCHANT_MIN_COMMON_LENGTH = 4;
+
+/** 利用先の比較で無視する文字 */
+const MERCHANT_IGNORED_CHARACTERS = /[\s\-－ー―・.,'"()（）*＊/／]/g;
+
+/** 利用明細から登録したカード利用情報のメモ */
+const CREATED_MEMO = '利用明細CSVから登録';
+
+/** 1日あたりのミリ秒 */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 利用明細照合のユースケース
+ * カード会社の利用明細CSVを正として、メールから登録したカード利用情報の漏れ・余分・相違を検出する
+ */
+export class ReconcileStatementUseCase implements IReconcileStatementUseCase {
+  private readonly serviceContext = 'ReconcileStatementUseCase';
+
+  /**
+   * コンストラクタ
+   * @param statementParsers カード会社ごとの利用明細CSVのパーサー
+   * @param cardUsageRepository カード利用情報リポジトリ
+   * @param merchantNormalizer 利用先の正規化
+   * @param categorizer カード利用情報の自動分類
+   * @param duplicateUseCase 重複検出のユースケース
+   */
+  constructor(
+    private readonly statementParsers: IStatementParser[],
+    private readonly cardUsageRepository: ICardUsageCrudRepository,
+    private readonly merchantNormalizer: IMerchantNormalizer = new MerchantNormalizer(),
+    private readonly categorizer: ICardUsageCategorizer = new CardUsageCategorizer(),
+    private readonly duplicateUseCase: ICardUsageDuplicateUseCase = new CardUsageDuplicateUseCase(cardUsageRepository)
+  ) { }
+
+  /**
+   * 利用明細CSVを登録済みのカード利用情報と照合する
+   * 利用日・金額・利用先がすべて一致するものを優先して組み合わせ、
+   * 残りは利用日と金額、利用日と利用先、金額と利用先（利用日の差が3日以内）の順に相違として組み合わせる
+   */
+  @ErrorHandler.errorDecorator('ReconcileStatementUseCase', {
+    defaultMessage: '利用明細の照合に失敗しました',
+  })
+  async execute(
+    cardCompany: CardCompany,
+    content: Buffer,
+    options: ReconcileStatementOptions = {}
+  ): Promise<StatementReconciliationResult> {
+    const parser = this.statementParsers.find((statementParser) => statementParser.cardCompany === cardCompany);
+    if (!parser) {
+      throw new AppError(
+        `利用明細CSVの取り込みに対応していないカード会社です: ${cardCompany}`,
+        ErrorType.VALIDATION,
+        { cardCompany, supported: this.statementParsers.map((statementParser) => statementParser.cardCompany) }
+      );
+    }
+
+    const lines = parser.parse(content);
+    if (lines.length === 0) {
+      throw new AppError('利用明細CSVから利用明細を読み取れませんでした', ErrorType.VALIDATION, { cardCompany });
+    }
+
+    const dates = lines.map((line) => line.date).sort();
+    const period = { start: dates[0], end: dates[dates.length - 1] };
+    const usages = await this.getStoredUsages(period, options.cardName);
+
+    const unmatchedLines = new Set(lines);
+    const unmatchedUsages = new Set(usages);
+    const pairedUsages: StoredCardUsage[] = [];
+    const mismatched: MismatchedStatementEntry[] = [];
+    let matched = 0;
+
+    const pair = (
+      differences: StatementDifference[],
+      isPair: (line: StatementLine, usage: StoredCardUsage) => boolean
+    ): void => {
+      for (const line of lines) {
+        if (!unmatchedLines.has(line)) {
+          continue;
+        }
+        const usage = [...unmatchedUsages].find((candidate) => isPair(line, candidate));
+        if (!usage) {
+          continue;
+        }
+
+        unmatchedLines.delete(line);
+        unmatchedUsages.delete(usage);
+        pairedUsages.push(usage);
+        if (differences.length === 0) {
+          matched++;
+        } else {
+          mismatched.push({ line, usage: this.toReconciledUsage(usage), differences });
+        }
+      }
+    };
+
+    const sameDate = (line: StatementLine, usage: StoredCardUsage): boolean => this.daysBetween(line, usage) === 0;
+    const sameAmount = (line: StatementLine, usage: StoredCardUsage): boolean => line.amount === usage.amount;
+    const sameMerchant = (line: StatementLine, usage: StoredCardUsage): boolean =>
+      this.isSameMerchant(line.merchant, usage.where_to_use);
+
+    pair([], (line, usage) => sameDate(line, usage) && sameAmount(line, usage) && sameMerchant(line, usage));
+    pair(['merchant'], (line, usage) => sameDate(line, usage) && sameAmount(line, usage));
+    pair(['amount'], (line, usage) => sameDate(line, usage) && sameMerchant(line, usage));
+    pair(['date'], (line, usage) =>
+      this.daysBetween(line, usage) <= DATE_TOLERANCE_DAYS && sameAmount(line, usage) && sameMerchant(line, usage));
+
+    const missing: MissingStatementEntry[] = [];
+    const createCardName = options.createMissing && unmatchedLines.size > 0 ?
+      this.resolveCreateCardName(cardCompany, pairedUsages, options.createCardName) :
+      undefined;
+    for (const line of unmatchedLines) {
+      missing.push(createCardName ? await this.createUsage(line, createCardName) : { line });
+    }
+
+    // 照合の対象期間外（利用日の差を許容するために取得した前後の日）の利用情報は余分として扱わない
+    const extra = [...unmatchedUsages]
+      .filter((usage) => {
+        const date = this.toDateString(usage.datetime_of_use.toDate());
+        return date >= period.start && date <= period.end;
+      })
+      .map((usage) => this.toReconciledUsage(usage));
+
+    const result: StatementReconciliationResult = {
+      cardCompany,
+      period,
+      total: lines.length,
+      matched,
+      created: missing.filter((entry) => entry.savedPath !== undefined).length,
+      missing,
+      extra,
+      mismatched,
+    };
+
+    logger.info(
+      `利用明細を照合しました (${cardCompany} ${period.start}〜${period.end}): ` +
+      `一致${matched}件 / 未登録${missing.length}件 / 余分${extra.length}件 / 相違${mismatched.length}件`,
+      this.serviceContext
+    );
+    return result;
+  }
+
+  /**
+   * 照合対象のカード利用情報を取得する
+   * 利用日の差を許容するため、利用明細の期間の前後を含む月を検索し、論理削除されたものは除く
+   * @param period 利用明細の期間
+   * @param cardName 照合するカード名（部分一致）
+   */
+  private async getStoredUsages(
+    period: { start: string; end: string },
+    cardName?: string
+  ): Promise<StoredCardUsage[]> {
+    const from = this.toLocalDate(period.start, -DATE_TOLERANCE_DAYS);
+    const to = this.toLocalDate(period.end, DATE_TOLERANCE_DAYS);
+
+    const usages: StoredCardUsage[] = [];
+    for (let month = new Date(from.getFullYear(), from.getMonth(), 1); month <= to;
+      month = new Date(month.getFullYear(), month.getMonth() + 1, 1)) {
+      usages.push(...await this.cardUsageRepository.getByYearMonth(
+        String(month.getFullYear()),
+        String(month.getMonth() + 1)
+      ));
+    }
+
+    const normalizedCardName = cardName?.normalize('NFKC');
+    return usages.filter((usage) =>
+      usage.is_active !== false &&
+      (!normalizedCardName || usage.card_name.normalize('NFKC').includes(normalizedCardName))
+    );
+  }
+
+  /**
+   * 登録するカード利用情報のカード名を決める
+   * 指定がない場合は、メールなどから登録したものとレポート・予算・請求サイクルでカードが一致するよう、
+   * 利用明細と組み合わせた登録済みのカード利用情報で最も多いカード名を使用する
+   * @param cardCompany 利用明細のカード会社
+   * @param pairedUsages 利用明細と組み合わせた登録済みのカード利用情報
+   * @param createCardName 指定されたカード名
+   */
+  private resolveCreateCardName(
+    cardCompany: CardCompany,
+    pairedUsages: StoredCardUsage[],
+    createCardName?: string
+  ): string {
+    if (createCardName) {
+      return createCardName;
+    }
+
+    const counts = new Map<string, number>();
+    for (const usage of pairedUsages) {
+      counts.set(usage.card_name, (counts.get(usage.card_name) ?? 0) + 1);
+    }
+    const [cardName] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0] ?? [];
+    if (!cardName) {
+      throw new AppError(
+        '登録するカード名を特定できません。登録するカード名を指定してください',
+        ErrorType.VALIDATION,
+        { cardCompany }
+      );
+    }
+    return cardName;
+  }
+
+  /**
+   * 登録されていなかった利用明細をカード利用情報として登録する
+   * 利用時刻は不明なため利用日の0時とする
+   * 支出カテゴリは、メールから登録する場合と同じく正規化した利用先を使用して自動分類のルールで割り当てる
+   * 登録済みの利用と重複する明細は、設定に応じて重複の疑いを記録して保存するか、保存せずにスキップする
+   * @param line 利用明細
+   * @param cardName カード名
+   * @returns 登録されていなかった利用明細（保存した場合は保存先のパス、重複の疑いがある場合はそのパスを含む）
+   */
+  private async createUsage(line: StatementLine, cardName: string): Promise<MissingStatementEntry> {
+    const usedAt = this.toLocalDate(line.date);
+
+    /* eslint-disable camelcase */
+    const cardUsage: CardUsage = {
+      card_name: cardName,
+      datetime_of_use: Timestamp.fromDate(usedAt),
+      amount: line.amount,
+      where_to_use: line.merchant,
+      merchant: await this.merchantNormalizer.normalize(line.merchant),
+      memo: CREATED_MEMO,
+      is_active: true,
+      created_at: Timestamp.now(),
+      status: 'confirmed',
+      transaction_type: line.amount < 0 ? 'refund' : 'usage',
+    };
+    cardUsage.category = await this.categorizer.categorize(cardUsage);
+    cardUsage.category_source = cardUsage.category === UNCATEGORIZED_CATEGORY_ID ? 'default' : 'rule';
+    /* eslint-enable camelcase */
+
+    const duplicateCheck = await this.duplicateUseCase.check(cardUsage);
+    const duplicateOf = duplicateCheck.duplicateOf?.path;
+    if (duplicateCheck.skip) {
+      return { line, duplicateOf };
+    }
+
+    const savedPath = await this.cardUsageRepository.save(duplicateCheck.cardUsage);
+    logger.info(`利用明細から未登録のカード利用情報を登録しました: ${savedPath}`, this.serviceContext);
+    return duplicateOf ? { line, savedPath, duplicateOf } : { line, savedPath };
+  }
+
+  /**
+   * 利用先が同じかを判定する
+   * 表記の揺れを吸収するため、正規化した一方が他方を含む場合、または一定の長さの共通部分がある場合に同じとみなす
+   */
+  private isSameMerchant(a: string, b: string): boolean {
+    const normalize = (value: string): string =>
+      value.normalize('NFKC').toUpperCase().replace(MERCHANT_IGNORED_CHARACTERS, '');
+    const left = normalize(a);
+    const right = normalize(b);
+    if (!left || !right) {
+      return false;
+    }
+    if (left.includes(right) || right.includes(left)) {
+      return true;
+    }
+    return this.longestCommonLength(left, right) >= MERCHANT_MIN_COMMON_LENGTH;
+  }
+
+  /**
+   * 2つの文字列の最長共通部分文字列の長さ
+   */
+  private longestCommonLength(a: string, b: string): number {
+    let longest = 0;
+    let previous = new Array<number>(b.length + 1).fill(0);
+    for (let i = 1; i <= a.length; i++) {
+      const current = new Array<number>(b.length + 1).fill(0);
+      for (let j = 1; j <= b.length; j++) {
+        if (a[i - 1] === b[j - 1]) {
+          current[j] = previous[j - 1] + 1;
+          longest = Math.max(longest, current[j]);
+        }
+      }
+      previous = current;
+    }
+    return longest;
+  }
+
+  /**
+   * 利用明細の利用日とカード利用情報の利用日の差（日数）
+   */
+  private daysBetween(line: StatementLine, usage: StoredCardUsage): number {
+    const usageDate = this.toLocalDate(this.toDateString(usage.datetime_of_use.toDate()));
+    return Math.round(Math.abs(usageDate.getTime() - this.toLocalDate(line.date).getTime()) / DAY_MS);
+  }
+
+  /**
+   * YYYY-MM-DD形式の日付をローカル時刻の0時に変換する
+   * @param date YYYY-MM-DD形式の日付
+   * @param offsetDays ずらす日数
+   */
+  private toLocalDate(date: string, offsetDays = 0): Date {
+    const [year, month, day] = date.split('-').map(Number);
+    return new Date(year, month - 1, day + offsetDays);
+  }
+
+  /**
+   * 日時をローカル時刻のYYYY-MM-DD形式に変換する
+   */
+  private toDateString(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+
+  /**
+   * 照合結果に含めるカード利用情報に変換する
+   */
+  private toReconciledUsage(usage: StoredCardUsage): ReconciledCardUsage {
+    /* eslint-disable camelcase */
+    return {
+      id: usage.id,
+      path: usage.path,
+      card_name: usage.card_name,
+      datetime_of_use: usage.datetime_of_use.toDate().toISOString(),
+      amount: usage.amount,
+      where_to_use: usage.where_to_use,
+    };
+    /* eslint-enable camelcase */
+  }
+}
@@ -0,0 +1,78 @@
+import request from 'supertest';
+import { createHmac } from 'crypto';
+import { HttpAppConfig } from '../../../../src/infrastructure/config/HttpAppConfig';
+import { EmailController } from '../../../../src/presentation/email/controllers/EmailController';
+import { Environment } from '../../../../shared/infrastructure/config/Environment';
+
+// 依存関係のないコントローラーもFirestoreに接続するためモック化
+jest.mock('../../../../src/presentation/api/controllers/ReportController');
+jest.mock('../../../../src/presentation/api/controllers/SubscriptionController');
+jest.mock('../../../../src/presentation/email/controllers/EmailController');
+
+// Loggerをモック化
+jest.mock('../../../../shared/infrastructure/logging/Logger', () => ({
+    logger: {
+        info: jest.fn(),
+        debug: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        logAppError: jest.fn(),
+        updateServiceStatus: jest.fn()
+    }
+}));
+
+const SECRET = 'test-secret';
+
+const sign = (timestamp: string, body: string): string =>
+    createHmac('sha256', SECRET).update(`${timestamp}.${body}`).digest('hex');
+
+describe('受信WebhookのHTTP統合テスト', () => {
+    let httpAppConfig: HttpAppConfig;
+    let mockEmailController: jest.Mocked<EmailController>;
+    const originalSecret = Environment.INBOUND_EMAIL_WEBHOOK_SECRET;
+
+    beforeEach(() => {
+        (Environment as any).INBOUND_EMAIL_WEBHOOK_SECRET = SECRET;
+        mockEmailController = {
+            processReceivedEmail: jest.fn().mockResolvedValue(undefined)
+        } as unknown as jest.Mocked<EmailController>;
+
+        httpAppConfig = new HttpAppConfig();
+        httpAppConfig.setupInboundEmailRoutes(mockEmailController);
+    });
+
+    afterEach(() => {
+        (Environment as any).INBOUND_EMAIL_WEBHOOK_SECRET = originalSecret;
+        jest.clearAllMocks();
+    });
+
+    test('POST /api/inbound/emails: JSONのリクエストボディもバイト列のまま署名を検証すること', async () => {
+        const body = JSON.stringify({ subject: 'カード利用のお知らせ', text: 'ご利用金額 1,000円' });
+        const timestamp = String(Math.floor(Date.now() / 1000));
+
+        const response = await request(httpAppConfig.getApp())
+            .post('/api/inbound/emails')
+            .set('Content-Type', 'application/json')
+            .set('X-Inbound-Timestamp', timestamp)
+            .set('X-Inbound-Signature', sign(timestamp, body))
+            .send(body);
+
+        expect(response.status).toBe(200);
+        expect(mockEmailController.processReceivedEmail).toHaveBeenCalled();
+    });
+
+    test('POST /api/inbound/emails: 署名が一致しない場合は401を返すこと', async () => {
+        const body = JSON.stringify({ subject: 'カード利用のお知らせ' });
+        const timestamp = String(Math.floor(Date.now() / 1000));
+
+        const response = await request(httpAppConfig.getApp())
+            .post('/api/inbound/emails')
+            .set('Content-Type', 'application/json')
+            .set('X-Inbound-Timestamp', timestamp)
+            .set('X-Inbound-Signature', sign(timestamp, '{}'))
+            .send(body);
+
+        expect(response.status).toBe(401);
+        expect(mockEmailController.processReceivedEmail).not.toHaveBeenCalled();
+    });
+});
@@ -1,5 +1,5 @@
 import { FieldValue, Timestamp } from 'firebase-admin/firestore';
-import { DailyReport, WeeklyReport, MonthlyReport } from '../../../shared/domain/entities/Reports';
+import { DailyReport, WeeklyReport, MonthlyReport, YearlyReport } from '../../../shared/domain/entities/Reports';
 import { IReportCrudRepository } from '../../../shared/domain/interfaces/database/repositories/IReportCrudRepository';
 
 /**
@@ -10,6 +10,7 @@ export class MockReportRepository implements IReportCrudRepository {
     private dailyReports: Map<string, DailyReport> = new Map();
     private weeklyReports: Map<string, WeeklyReport> = new Map();
     private monthlyReports: Map<string, MonthlyReport> = new Map();
+    private yearlyReports: Map<string, YearlyReport> = new Map();
     private initialized = false;
 
     async initialize(): Promise<any> {
@@ -65,6 +66,17 @@ export class MockReportRepository implements IReportCrudRepository {
         return this.monthlyReports.get(key) || null;
     }
 
+    /**
+     * 年次レポートを取得する
+     */
+    async getYearlyReport(year: string): Promise<YearlyReport | null> {
+        if (!this.initialized) {
+            throw new Error('Repository not initialized');
+        }
+
+        return this.yearlyReports.get(year) || null;
+    }
+
     /**
      * 週次レポートを取得する
      */
@@ -151,6 +163,18 @@ export class MockReportRepository implements IReportCrudRepository {
         return path;
     }
 
+    /**
+     * 年次レポートを保存する
+     */
+    async saveYearlyReport(report: YearlyReport, year: string): Promise<string> {
+        if (!this.initialized) {
+            throw new Error('Repository not initialized');
+        }
+
+        this.yearlyReports.set(year, report);
+        return `reports/yearly/${year}/summary`;
+    }
+
     /**
      * 日次レポートを更新する
      */
@@ -211,6 +235,24 @@ export class MockReportRepository implements IReportCrudRepository {
         return `reports/${year}/${month}/monthly`;
     }
 
+    /**
+     * 年次レポートを更新する
+     */
+    async updateYearlyReport(report: Partial<YearlyReport>, year: string): Promise<string> {
+        if (!this.initialized) {
+            throw new Error('Repository not initialized');
+        }
+
+        const existing = this.yearlyReports.get(year);
+
+        if (!existing) {
+            throw new Error('Report not found');
+        }
+
+        this.yearlyReports.set(year, { ...existing, ...report });
+        return `reports/yearly/${year}/summary`;
+    }
+
     // テスト用のヘルパーメソッド
 
     /**
@@ -220,6 +262,7 @@ export class MockReportRepository implements IReportCrudRepository {
         this.dailyReports.clear();
         this.weeklyReports.clear();
         this.monthlyReports.clear();
+        this.yearlyReports.clear();
     }
 
     /**
@@ -0,0 +1,134 @@
+import { BillingReminderService } from '../../../../../../functions/src/application/services/BillingReminderService';
+import { FirestoreDataExplorerService } from '../../../../../../functions/src/infrastructure/services/FirestoreDataExplorerService';
+import { NotifyReportUseCase } from '../../../../../../shared/usecases/notification/NotifyReportUseCase';
+import { IConfigRepository } from '../../../../../../shared/domain/interfaces/database/repositories/IConfigRepository';
+import { Card } from '../../../../../../shared/domain/entities/Card';
+import { DateUtil } from '../../../../../../shared/utils/DateUtil';
+
+// DateUtilをモック（日本時間の「今日」を固定する）
+jest.mock('../../../../../../shared/utils/DateUtil', () => ({
+    DateUtil: {
+        getJSTDate: jest.fn(),
+    },
+}));
+
+// Loggerをモック化
+jest.mock('../../../../../../shared/infrastructure/logging/Logger', () => ({
+    logger: {
+        info: jest.fn(),
+        debug: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+    }
+}));
+
+describe('BillingReminderService', () => {
+    // 15日締め・翌月10日払い、3日前に通知
+    const card: Card = {
+        cardName: '楽天カード',
+        displayName: '楽天',
+        issuer: 'Rakuten',
+        closingDay: 15,
+        paymentDay: 10,
+        paymentMonthOffset: 1,
+        reminderDaysBefore: 3,
+    };
+
+    let service: BillingReminderService;
+    let mockConfigRepository: { getCards: jest.Mock; getCategoryConfig: jest.Mock };
+    let mockDataExplorerService: { exploreCardUsageData: jest.Mock };
+    let mockNotifyReportUseCase: { notifyBillingReminder: jest.Mock };
+
+    const createDocument = (path: string, usedAt: Date, amount: number, cardName = '楽天カード') => ({
+        path,
+        data: { amount, datetime_of_use: usedAt, card_name: cardName, category: 'groceries' },
+        params: { year: '2025', month: '5', term: 'term1', day: '1', timestamp: '0' },
+    });
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+
+        (DateUtil.getJSTDate as jest.Mock).mockReturnValue(new Date(2025, 5, 7, 9, 0));
+
+        mockConfigRepository = {
+            getCards: jest.fn().mockResolvedValue([card]),
+            getCategoryConfig: jest.fn().mockResolvedValue({
+                categories: [{ id: 'groceries', name: '食料品' }],
+                rules: [],
+            }),
+        };
+        mockDataExplorerService = {
+            exploreCardUsageData: jest.fn().mockResolvedValue([
+                createDocument('a', new Date(2025, 3, 20), 3000),
+                createDocument('b', new Date(2025, 4, 10), 2000),
+                createDocument('c', new Date(2025, 4, 10), 5000, 'SMBC'),
+            ]),
+        };
+        mockNotifyReportUseCase = { notifyBillingReminder: jest.fn().mockResolvedValue(undefined) };
+
+        service = new BillingReminderService(
+            mockConfigRepository as unknown as IConfigRepository,
+            mockDataExplorerService as unknown as FirestoreDataExplorerService,
+            mockNotifyReportUseCase as unknown as NotifyReportUseCase
+        );
+    });
+
+    it('支払日の指定日数前の場合、利用期間のカードの利用を集計して通知すること', async () => {
+        await service.sendBillingReminders();
+
+        expect(mockDataExplorerService.exploreCardUsageData).toHaveBeenCalledWith(
+            new Date(2025, 3, 16),
+            new Date(2025, 4, 15, 23, 59, 59, 999)
+        );
+        expect(mockNotifyReportUseCase.notifyBillingReminder).toHaveBeenCalledWith({
+            title: '楽天 6月10日のお支払い',
+            cardName: '楽天',
+            paymentDate: '2025/06/10',
+            daysUntilPayment: 3,
+            period: '2025/04/16 〜 2025/05/15',
+            totalAmount: 5000,
+            totalCount: 2,
+            topCategories: [{ name: '食料品', amount: 5000, share: 100 }],
+        });
+    });
+
+    it('通知日でない場合は通知しないこと', async () => {
+        (DateUtil.getJSTDate as jest.Mock).mockReturnValue(new Date(2025, 5, 8, 9, 0));
+
+        await service.sendBillingReminders();
+
+        expect(mockDataExplorerService.exploreCardUsageData).not.toHaveBeenCalled();
+        expect(mockNotifyReportUseCase.notifyBillingReminder).not.toHaveBeenCalled();
+    });
+
+    it('通知日数が0のカードは通知しないこと', async () => {
+        mockConfigRepository.getCards.mockResolvedValue([{ ...card, reminderDaysBefore: 0 }]);
+        (DateUtil.getJSTDate as jest.Mock).mockReturnValue(new Date(2025, 5, 10, 9, 0));
+
+        await service.sendBillingReminders();
+
+        expect(mockNotifyReportUseCase.notifyBillingReminder).not.toHaveBeenCalled();
+    });
+
+    it('カードの通知に失敗しても他のカードの通知を続行すること', async () => {
+        const otherCard: Card = { ...card, cardName: 'SMBC', displayName: 'SMBC' };
+        mockConfigRepository.getCards.mockResolvedValue([card, otherCard]);
+        mockDataExplorerService.exploreCardUsageData
+            .mockRejectedValueOnce(new Error('探索エラー'))
+            .mockResolvedValueOnce([]);
+
+        await service.sendBillingReminders();
+
+        expect(mockNotifyReportUseCase.notifyBillingReminder).toHaveBeenCalledTimes(1);
+        expect(mockNotifyReportUseCase.notifyBillingReminder).toHaveBeenCalledWith(
+            expect.objectContaining({ cardName: 'SMBC', totalAmount: 0 })
+        );
+    });
+
+    it('カードを取得できない場合は通知をスキップすること', async () => {
+        mockConfigRepository.getCards.mockRejectedValue(new Error('取得エラー'));
+
+        await expect(service.sendBillingReminders()).resolves.toBeUndefined();
+        expect(mockNotifyReportUseCase.notifyBillingReminder).not.toHaveBeenCalled();
+    });
+});
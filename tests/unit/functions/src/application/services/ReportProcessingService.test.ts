@@ -2,7 +2,12 @@ import { ReportProcessingService } from '../../../../../../functions/src/applica
 import { IDiscordNotifier } from '../../../../../../shared/domain/interfaces/discord/IDiscordNotifier';
 import { IConfigRepository } from '../../../../../../shared/domain/interfaces/database/repositories/IConfigRepository';
 import { FirestoreReportUseCase } from '../../../../../../shared/usecases/database/FirestoreReportUseCase';
-import { DailyReport, WeeklyReport, MonthlyReport } from '../../../../../../shared/domain/entities/Reports';
+import {
+    DailyReport,
+    WeeklyReport,
+    MonthlyReport,
+    YearlyReport,
+} from '../../../../../../shared/domain/entities/Reports';
 import { ReportThresholds } from '../../../../../../shared/domain/entities/ReportThresholds';
 
 // Mocks
@@ -24,12 +29,30 @@ const mockDiscordNotifier: jest.Mocked<IDiscordNotifier> = {
     notifyDailyReport: jest.fn(),
     notifyWeeklyReport: jest.fn(),
     notifyMonthlyReport: jest.fn(),
+    notifyYearlyReport: jest.fn(),
+    notifyBillingReminder: jest.fn(),
+    notifySubscriptionAlert: jest.fn(),
     notifyError: jest.fn(),
     notifyLogging: jest.fn(),
 };
 
 const mockConfigRepository: jest.Mocked<IConfigRepository> = {
     getReportThresholds: jest.fn().mockResolvedValue(mockThresholds),
+    getIssuerTemplates: jest.fn(),
+    getIssuerTemplateConfig: jest.fn(),
+    saveIssuerTemplate: jest.fn(),
+    rollbackIssuerTemplate: jest.fn(),
+    getMerchantAliases: jest.fn(),
+    saveMerchantAliases: jest.fn(),
+    getCategoryConfig: jest.fn(),
+    saveCategories: jest.fn(),
+    saveCategoryRules: jest.fn(),
+    getBudgets: jest.fn().mockResolvedValue([]),
+    saveBudget: jest.fn(),
+    deleteBudget: jest.fn(),
+    getCards: jest.fn(),
+    saveCard: jest.fn(),
+    deleteCard: jest.fn(),
 };
 
 const mockReportUseCase: jest.Mocked<FirestoreReportUseCase> = {
@@ -42,6 +65,9 @@ const mockReportUseCase: jest.Mocked<FirestoreReportUseCase> = {
     getMonthlyReport: jest.fn(),
     createMonthlyReport: jest.fn(),
     updateMonthlyReport: jest.fn(),
+    getYearlyReport: jest.fn(),
+    createYearlyReport: jest.fn(),
+    updateYearlyReport: jest.fn(),
 } as any; // Firebase Functions の型チェックを回避
 
 // Mock Firebase Functions DocumentSnapshot
@@ -175,6 +201,71 @@ describe('ReportProcessingService', () => {
         });
     });
 
+    describe('processYearlyReport', () => {
+        const params = { year: '2024', month: '3', day: '15' };
+
+        it('既存の年次レポートが存在しない場合、月・利用先ごとの小計とともに新規作成する', async () => {
+            // Given
+            mockReportUseCase.getYearlyReport.mockRejectedValue(new Error('Not found'));
+
+            // When
+            const result = await service.processYearlyReport(
+                mockDocument,
+                { amount: 1200, card_name: '楽天カード', category: 'groceries', where_to_use: 'ｲｵﾝ', merchant: 'イオン' },
+                params
+            );
+
+            // Then
+            expect(mockReportUseCase.getYearlyReport).toHaveBeenCalledWith('2024');
+            expect(mockReportUseCase.createYearlyReport).toHaveBeenCalledWith(result, '2024');
+            expect(result.totalAmount).toBe(1200);
+            expect(result.totalCount).toBe(1);
+            expect(result.monthlyTotals).toEqual({ '03': { amount: 1200, count: 1 } });
+            expect(result.categoryTotals).toEqual({ groceries: { amount: 1200, count: 1 } });
+            expect(result.cardTotals).toEqual({ '楽天カード': { amount: 1200, count: 1 } });
+            expect(result.merchantTotals).toEqual({ 'イオン': { amount: 1200, count: 1 } });
+            expect(result.hasReportSent).toBe(false);
+        });
+
+        it('既存の年次レポートが存在する場合、小計に加算して更新し、アラートは送信しない', async () => {
+            // Given
+            const existingReport = {
+                totalAmount: 5000,
+                totalCount: 2,
+                documentIdList: ['existing-doc'],
+                monthlyTotals: { '01': { amount: 5000, count: 2 } },
+                categoryTotals: { groceries: { amount: 5000, count: 2 } },
+                cardTotals: { '楽天カード': { amount: 5000, count: 2 } },
+                merchantTotals: { 'イオン': { amount: 5000, count: 2 } },
+                hasReportSent: false,
+            } as unknown as YearlyReport;
+            mockReportUseCase.getYearlyReport.mockResolvedValue(existingReport);
+
+            // When
+            const result = await service.processYearlyReport(
+                mockDocument,
+                { amount: -1000, transaction_type: 'refund', card_name: '楽天カード', where_to_use: 'AMAZON.CO.JP' },
+                params
+            );
+
+            // Then
+            expect(mockReportUseCase.updateYearlyReport).toHaveBeenCalledWith(result, '2024');
+            expect(result.totalAmount).toBe(4000);
+            expect(result.totalCount).toBe(2);
+            expect(result.documentIdList).toEqual(['existing-doc', mockDocument.ref.path]);
+            expect(result.monthlyTotals).toEqual({
+                '01': { amount: 5000, count: 2 },
+                '03': { amount: -1000, count: 0 },
+            });
+            expect(result.merchantTotals).toEqual({
+                'イオン': { amount: 5000, count: 2 },
+                'AMAZON.CO.JP': { amount: -1000, count: 0 },
+            });
+            expect(mockDiscordNotifier.notifyMonthlyReport).not.toHaveBeenCalled();
+            expect(mockConfigRepository.getReportThresholds).not.toHaveBeenCalled();
+        });
+    });
+
     describe('アラートしきい値チェック - ウィークリー', () => {
         const params = { year: '2024', month: '1', day: '7' };
 
@@ -293,6 +384,21 @@ describe('ReportProcessingService', () => {
             // Then
             expect(mockDiscordNotifier.notifyWeeklyReport).not.toHaveBeenCalled();
         });
+
+        it('過去のメールの取り込みの場合、しきい値を超えても通知せずフラグも更新しない', async () => {
+            // Given: 初期状態で6000円（LEVEL2: 5000円を超過）
+            const data = { amount: 6000, imported: true };
+            mockReportUseCase.getWeeklyReport.mockRejectedValue(new Error('Not found'));
+
+            // When
+            const result = await service.processWeeklyReport(mockDocument, data, params);
+
+            // Then
+            expect(result.totalAmount).toBe(6000);
+            expect(mockReportUseCase.createWeeklyReport).toHaveBeenCalled();
+            expect(mockReportUseCase.updateWeeklyReport).not.toHaveBeenCalled();
+            expect(mockDiscordNotifier.notifyWeeklyReport).not.toHaveBeenCalled();
+        });
     });
 
     describe('アラートしきい値チェック - マンスリー', () => {
@@ -412,6 +518,306 @@ describe('ReportProcessingService', () => {
             // Then
             expect(mockDiscordNotifier.notifyMonthlyReport).not.toHaveBeenCalled();
         });
+
+        it('過去のメールの取り込みの場合、しきい値を超えても通知せずフラグも更新しない', async () => {
+            // Given: 初期状態で3000円、+2000円で5000円（LEVEL1: 4000円を超過）
+            const existingReport = {
+                totalAmount: 3000,
+                totalCount: 2,
+                documentIdList: ['existing-doc'],
+                hasNotifiedLevel1: false,
+                hasNotifiedLevel2: false,
+                hasNotifiedLevel3: false,
+            } as MonthlyReport;
+            const data = { amount: 2000, imported: true };
+            mockReportUseCase.getMonthlyReport.mockResolvedValue(existingReport);
+
+            // When
+            await service.processMonthlyReport(mockDocument, data, params);
+
+            // Then
+            expect(mockReportUseCase.updateMonthlyReport).toHaveBeenCalledTimes(1);
+            expect(mockReportUseCase.updateMonthlyReport.mock.calls[0][0]).toEqual(expect.objectContaining({
+                totalAmount: 5000,
+                hasNotifiedLevel1: false,
+            }));
+            expect(mockDiscordNotifier.notifyMonthlyReport).not.toHaveBeenCalled();
+        });
     });
-});
 
+    describe('取消・返金', () => {
+        const params = { year: '2024', month: '1', day: '7' };
+        const refund = { amount: -3000, transaction_type: 'refund' as const };
+
+        it('デイリーレポートの合計金額から差し引き、利用件数には含めない', async () => {
+            // Given
+            const existingReport = {
+                totalAmount: 5000,
+                totalCount: 2,
+                documentIdList: ['existing-doc'],
+            } as DailyReport;
+            mockReportUseCase.getDailyReport.mockResolvedValue(existingReport);
+
+            // When
+            const result = await service.processDailyReport(mockDocument, refund, params);
+
+            // Then
+            expect(result.totalAmount).toBe(2000);
+            expect(result.totalCount).toBe(2);
+            expect(result.documentIdList).toContain(mockDocument.ref.path);
+        });
+
+        it('レポートが存在しない場合は負の合計金額・利用件数0で新規作成する', async () => {
+            // Given
+            mockReportUseCase.getDailyReport.mockRejectedValue(new Error('Not found'));
+
+            // When
+            const result = await service.processDailyReport(mockDocument, refund, params);
+
+            // Then
+            expect(result.totalAmount).toBe(-3000);
+            expect(result.totalCount).toBe(0);
+        });
+
+        it('しきい値を下回ったレベルの通知済みフラグを戻し、通知は送信しない', async () => {
+            // Given: LEVEL2通知済み、現在6000円から3000円の返金（合計3000円、LEVEL1以上LEVEL2未満）
+            const existingReport = {
+                totalAmount: 6000,
+                totalCount: 3,
+                documentIdList: ['existing-doc'],
+                hasNotifiedLevel1: true,
+                hasNotifiedLevel2: true,
+                hasNotifiedLevel3: false,
+            } as WeeklyReport;
+            mockReportUseCase.getWeeklyReport.mockResolvedValue(existingReport);
+
+            // When
+            const result = await service.processWeeklyReport(mockDocument, refund, params);
+
+            // Then
+            expect(result.totalAmount).toBe(3000);
+            expect(result.totalCount).toBe(3);
+            expect(mockDiscordNotifier.notifyWeeklyReport).not.toHaveBeenCalled();
+            const flagUpdateCall = mockReportUseCase.updateWeeklyReport.mock.calls[1];
+            expect(flagUpdateCall[0]).toEqual({
+                hasNotifiedLevel1: true,
+                hasNotifiedLevel2: false,
+                hasNotifiedLevel3: false,
+            });
+        });
+
+        it('通知済みフラグを戻した後、再びしきい値を超えた場合は改めて通知する', async () => {
+            // Given: 返金でLEVEL1未満に戻った月次レポート（フラグは戻し済み）に利用を追加
+            const existingReport = {
+                totalAmount: 3000,
+                totalCount: 2,
+                documentIdList: ['existing-doc'],
+                hasNotifiedLevel1: false,
+                hasNotifiedLevel2: false,
+                hasNotifiedLevel3: false,
+                monthStartDate: { toDate: () => new Date('2024-01-01') },
+                monthEndDate: { toDate: () => new Date('2024-01-31') },
+            } as any;
+            mockReportUseCase.getMonthlyReport.mockResolvedValue(existingReport);
+            mockDiscordNotifier.notifyMonthlyReport.mockResolvedValue(true);
+
+            // When
+            await service.processMonthlyReport(mockDocument, { amount: 2000 }, params);
+
+            // Then
+            expect(mockDiscordNotifier.notifyMonthlyReport).toHaveBeenCalled();
+        });
+    });
+
+    describe('支出カテゴリ・カードごとの小計', () => {
+        const params = { year: '2024', month: '1', day: '1' };
+
+        it('レポートが存在しない場合はカード利用データの小計で新規作成する', async () => {
+            // Given
+            mockReportUseCase.getDailyReport.mockRejectedValue(new Error('Not found'));
+
+            // When
+            const result = await service.processDailyReport(
+                mockDocument,
+                { amount: 1000, card_name: '楽天カード', category: 'groceries' },
+                params
+            );
+
+            // Then
+            expect(result.categoryTotals).toEqual({ groceries: { amount: 1000, count: 1 } });
+            expect(result.cardTotals).toEqual({ '楽天カード': { amount: 1000, count: 1 } });
+        });
+
+        it('既存の小計に加算し、カテゴリが未設定の場合は未分類に加算する', async () => {
+            // Given
+            const existingReport = {
+                totalAmount: 3000,
+                totalCount: 2,
+                documentIdList: ['existing-doc'],
+                hasNotifiedLevel1: false,
+                hasNotifiedLevel2: false,
+                hasNotifiedLevel3: false,
+                categoryTotals: { uncategorized: { amount: 3000, count: 2 } },
+                cardTotals: { '楽天カード': { amount: 3000, count: 2 } },
+                monthStartDate: { toDate: () => new Date('2024-01-01') },
+                monthEndDate: { toDate: () => new Date('2024-01-31') },
+            } as any;
+            mockReportUseCase.getMonthlyReport.mockResolvedValue(existingReport);
+
+            // When
+            const result = await service.processMonthlyReport(
+                mockDocument,
+                { amount: 500, card_name: 'JCBカード' },
+                params
+            );
+
+            // Then
+            expect(result.categoryTotals).toEqual({ uncategorized: { amount: 3500, count: 3 } });
+            expect(result.cardTotals).toEqual({
+                '楽天カード': { amount: 3000, count: 2 },
+                'JCBカード': { amount: 500, count: 1 },
+            });
+        });
+
+        it('小計を持たない既存のレポートは今回のカード利用データから集計を始める', async () => {
+            // Given
+            const existingReport = {
+                totalAmount: 500,
+                totalCount: 1,
+                documentIdList: ['existing-doc'],
+            } as DailyReport;
+            mockReportUseCase.getDailyReport.mockResolvedValue(existingReport);
+
+            // When
+            const result = await service.processDailyReport(
+                mockDocument,
+                { amount: -300, transaction_type: 'refund', card_name: '楽天カード', category: 'dining' },
+                params
+            );
+
+            // Then
+            expect(result.categoryTotals).toEqual({ dining: { amount: -300, count: 0 } });
+            expect(mockReportUseCase.updateDailyReport).toHaveBeenCalledWith(
+                expect.objectContaining({ cardTotals: { '楽天カード': { amount: -300, count: 0 } } }),
+                '2024',
+                '01',
+                '01'
+            );
+        });
+    });
+
+    describe('予算のアラート', () => {
+        const params = { year: '2024', month: '1' };
+        const budget = {
+            id: 'budget-1',
+            name: '食料品',
+            target: 'category' as const,
+            key: 'groceries',
+            limit: 30000,
+            alertPercentages: [50, 80, 100],
+        };
+
+        // 月のしきい値はすべて通知済みとし、予算のアラートのみを確認する
+        const createExistingReport = (groceries: number, budgetNotifiedPercentages?: Record<string, number[]>) => ({
+            totalAmount: 50000,
+            totalCount: 10,
+            documentIdList: ['existing-doc'],
+            hasNotifiedLevel1: true,
+            hasNotifiedLevel2: true,
+            hasNotifiedLevel3: true,
+            categoryTotals: { groceries: { amount: groceries, count: 5 } },
+            cardTotals: { '楽天カード': { amount: 50000, count: 10 } },
+            monthStartDate: { toDate: () => new Date('2024-01-01') },
+            monthEndDate: { toDate: () => new Date('2024-01-31') },
+            ...(budgetNotifiedPercentages && { budgetNotifiedPercentages }),
+        }) as any;
+
+        // 予算の通知済みの割合の更新内容を取得する
+        const budgetUpdates = () => mockReportUseCase.updateMonthlyReport.mock.calls
+            .filter(([data]) => Object.keys(data).length === 1 && 'budgetNotifiedPercentages' in data)
+            .map(([data]) => data.budgetNotifiedPercentages);
+
+        it('複数の割合に同時に達した場合は最も高い割合のみ通知し、達した割合をすべて通知済みにする', async () => {
+            // Given: 20000円から+5000円で25000円（予算30000円の約83%）
+            mockConfigRepository.getBudgets.mockResolvedValueOnce([budget]);
+            mockReportUseCase.getMonthlyReport.mockResolvedValue(createExistingReport(20000));
+
+            // When
+            await service.processMonthlyReport(mockDocument, { amount: 5000, category: 'groceries' }, params);
+
+            // Then
+            expect(mockDiscordNotifier.notifyMonthlyReport).toHaveBeenCalledTimes(1);
+            expect(mockDiscordNotifier.notifyMonthlyReport).toHaveBeenCalledWith(expect.objectContaining({
+                title: '予算アラート (80%) - 2024年1月 食料品',
+                alertLevel: 2,
+                budgets: [{ name: '食料品', limit: 30000, spent: 25000, remaining: 5000, usage: 83.3 }],
+            }));
+            expect(budgetUpdates()).toEqual([{ 'budget-1': [50, 80] }]);
+        });
+
+        it('通知済みの割合は再び通知しない', async () => {
+            // Given
+            mockConfigRepository.getBudgets.mockResolvedValueOnce([budget]);
+            mockReportUseCase.getMonthlyReport.mockResolvedValue(
+                createExistingReport(25000, { 'budget-1': [50, 80] })
+            );
+
+            // When
+            await service.processMonthlyReport(mockDocument, { amount: 1000, category: 'groceries' }, params);
+
+            // Then
+            expect(mockDiscordNotifier.notifyMonthlyReport).not.toHaveBeenCalled();
+            expect(budgetUpdates()).toEqual([]);
+        });
+
+        it('取消・返金で下回った割合と削除された予算は通知済みから外す', async () => {
+            // Given: 25000円から-2000円で23000円（約77%）
+            mockConfigRepository.getBudgets.mockResolvedValueOnce([budget]);
+            mockReportUseCase.getMonthlyReport.mockResolvedValue(
+                createExistingReport(25000, { 'budget-1': [50, 80], 'deleted-budget': [50] })
+            );
+
+            // When
+            await service.processMonthlyReport(
+                mockDocument,
+                { amount: -2000, transaction_type: 'refund', category: 'groceries' },
+                params
+            );
+
+            // Then
+            expect(mockDiscordNotifier.notifyMonthlyReport).not.toHaveBeenCalled();
+            expect(budgetUpdates()).toEqual([{ 'budget-1': [50] }]);
+        });
+
+        it('過去のメールの取り込みの場合は、予算に達してもレポートの更新のみ行い通知しない', async () => {
+            // Given: 20000円から+5000円で25000円（予算30000円の約83%）
+            mockReportUseCase.getMonthlyReport.mockResolvedValue(createExistingReport(20000));
+
+            // When
+            const result = await service.processMonthlyReport(
+                mockDocument,
+                { amount: 5000, category: 'groceries', imported: true },
+                params
+            );
+
+            // Then
+            expect(result.totalAmount).toBe(55000);
+            expect(mockConfigRepository.getBudgets).not.toHaveBeenCalled();
+            expect(mockDiscordNotifier.notifyMonthlyReport).not.toHaveBeenCalled();
+            expect(budgetUpdates()).toEqual([]);
+        });
+
+        it('予算を取得できない場合もレポートの処理を続行する', async () => {
+            // Given
+            mockConfigRepository.getBudgets.mockRejectedValueOnce(new Error('取得エラー'));
+            mockReportUseCase.getMonthlyReport.mockResolvedValue(createExistingReport(20000));
+
+            // When
+            const result = await service.processMonthlyReport(mockDocument, { amount: 5000, category: 'groceries' }, params);
+
+            // Then
+            expect(result.totalAmount).toBe(55000);
+            expect(mockDiscordNotifier.notifyMonthlyReport).not.toHaveBeenCalled();
+        });
+    });
+});
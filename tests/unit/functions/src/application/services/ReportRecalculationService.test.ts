@@ -1,7 +1,7 @@
 import { ReportRecalculationService } from '../../../../../../functions/src/application/services/ReportRecalculationService';
 import { FirestoreReportUseCase } from '../../../../../../shared/usecases/database/FirestoreReportUseCase';
 import { CardUsageDocument } from '../../../../../../functions/src/domain/entities/ReportRecalculation';
-import { DailyReport, WeeklyReport, MonthlyReport } from '../../../../../../shared/domain/entities/Reports';
+import { DailyReport, WeeklyReport, MonthlyReport, YearlyReport } from '../../../../../../shared/domain/entities/Reports';
 
 // Mock FirestoreReportUseCase
 const mockReportUseCase: jest.Mocked<FirestoreReportUseCase> = {
@@ -14,6 +14,9 @@ const mockReportUseCase: jest.Mocked<FirestoreReportUseCase> = {
     getMonthlyReport: jest.fn(),
     createMonthlyReport: jest.fn(),
     updateMonthlyReport: jest.fn(),
+    getYearlyReport: jest.fn(),
+    createYearlyReport: jest.fn(),
+    updateYearlyReport: jest.fn(),
 } as any;
 
 describe('ReportRecalculationService', () => {
@@ -93,6 +96,26 @@ describe('ReportRecalculationService', () => {
             expect(report.documentIdList).toHaveLength(2);
         });
 
+        it('取消・返金は合計金額から差し引き、利用件数には含めない', async () => {
+            // Given
+            mockReportUseCase.getDailyReport.mockRejectedValue(new Error('Not found'));
+            const refundDocument: CardUsageDocument = {
+                path: 'details/2024/term1/01/1234567890126',
+                data: { amount: -1000, datetime_of_use: new Date('2024-01-01'), transaction_type: 'refund' },
+                params: { year: '2024', month: '1', term: 'term1', day: '1', timestamp: '1234567890126' },
+            };
+
+            // When
+            await service.recalculateDailyReports([...cardUsageDocuments, refundDocument], 'test-user');
+
+            // Then
+            const call = mockReportUseCase.createDailyReport.mock.calls.find((c) => c[1] === '2024' && c[2] === '01' && c[3] === '01');
+            const report = call![0];
+            expect(report.totalAmount).toBe(2000); // 1000 + 2000 - 1000
+            expect(report.totalCount).toBe(2);
+            expect(report.documentIdList).toHaveLength(3);
+        });
+
         it('既存のhasNotifiedフラグを保持する', async () => {
             // Given
             const existingReport: DailyReport = {
@@ -322,4 +345,158 @@ describe('ReportRecalculationService', () => {
             expect(call[0].hasNotifiedLevel3).toBe(true);
         });
     });
+
+    describe('recalculateYearlyReports', () => {
+        const cardUsageDocuments: CardUsageDocument[] = [
+            {
+                path: 'details/2024/01/term1/05/1',
+                data: {
+                    amount: 1000,
+                    datetime_of_use: new Date('2024-01-05'),
+                    card_name: '楽天カード',
+                    category: 'groceries',
+                    where_to_use: 'ｲｵﾝ',
+                    merchant: 'イオン',
+                },
+                params: { year: '2024', month: '1', term: 'term1', day: '5', timestamp: '1' },
+            },
+            {
+                path: 'details/2024/03/term2/10/2',
+                data: { amount: 2000, datetime_of_use: new Date('2024-03-10'), where_to_use: 'AMAZON.CO.JP' },
+                params: { year: '2024', month: '3', term: 'term2', day: '10', timestamp: '2' },
+            },
+            {
+                path: 'details/2024/03/term3/15/3',
+                data: {
+                    amount: -500,
+                    datetime_of_use: new Date('2024-03-15'),
+                    merchant: 'イオン',
+                    transaction_type: 'refund',
+                },
+                params: { year: '2024', month: '3', term: 'term3', day: '15', timestamp: '3' },
+            },
+            {
+                path: 'details/2025/01/term1/02/4',
+                data: { amount: 3000, datetime_of_use: new Date('2025-01-02') },
+                params: { year: '2025', month: '1', term: 'term1', day: '2', timestamp: '4' },
+            },
+        ];
+
+        it('既存レポートがない場合、年ごとに新規レポートを作成する', async () => {
+            // Given
+            mockReportUseCase.getYearlyReport.mockRejectedValue(new Error('Not found'));
+
+            // When
+            const result = await service.recalculateYearlyReports(cardUsageDocuments, 'test-user');
+
+            // Then
+            expect(mockReportUseCase.createYearlyReport).toHaveBeenCalledTimes(2); // 2024 and 2025
+            expect(result.created).toBe(2);
+            expect(result.updated).toBe(0);
+        });
+
+        it('月ごと・支出カテゴリごと・カードごと・利用先ごとの小計を集計する', async () => {
+            // Given
+            mockReportUseCase.getYearlyReport.mockRejectedValue(new Error('Not found'));
+
+            // When
+            await service.recalculateYearlyReports(cardUsageDocuments, 'test-user');
+
+            // Then
+            const call = mockReportUseCase.createYearlyReport.mock.calls.find((c) => c[1] === '2024');
+            expect(call).toBeDefined();
+            const report = call![0];
+            expect(report.totalAmount).toBe(2500);
+            expect(report.totalCount).toBe(2);
+            expect(report.documentIdList).toHaveLength(3);
+            expect(report.monthlyTotals).toEqual({
+                '01': { amount: 1000, count: 1 },
+                '03': { amount: 1500, count: 1 },
+            });
+            expect(report.categoryTotals).toEqual({
+                groceries: { amount: 1000, count: 1 },
+                uncategorized: { amount: 1500, count: 1 },
+            });
+            expect(report.cardTotals).toEqual({
+                '楽天カード': { amount: 1000, count: 1 },
+                '不明': { amount: 1500, count: 1 },
+            });
+            expect(report.merchantTotals).toEqual({
+                'イオン': { amount: 500, count: 1 },
+                'AMAZON.CO.JP': { amount: 2000, count: 1 },
+            });
+        });
+
+        it('既存レポートがある場合、送信済みフラグを保持して更新する', async () => {
+            // Given
+            const existingReport: YearlyReport = {
+                yearStartDate: { toDate: () => new Date('2024-01-01') },
+                yearEndDate: { toDate: () => new Date('2024-12-31') },
+                totalAmount: 500,
+                totalCount: 1,
+                documentIdList: ['old-doc'],
+                hasReportSent: true,
+                lastUpdatedBy: 'old-user',
+            } as any;
+            mockReportUseCase.getYearlyReport.mockResolvedValue(existingReport);
+
+            // When
+            const result = await service.recalculateYearlyReports(cardUsageDocuments, 'test-user');
+
+            // Then
+            expect(result.updated).toBe(2);
+            const call = mockReportUseCase.updateYearlyReport.mock.calls[0];
+            expect(call[0].hasReportSent).toBe(true);
+            expect(call[0].lastUpdatedBy).toBe('test-user');
+        });
+    });
+
+    describe('支出カテゴリ・カードごとの小計', () => {
+        it('カード利用データから支出カテゴリ・カードごとの小計を集計する', async () => {
+            // Given
+            const documents: CardUsageDocument[] = [
+                {
+                    path: 'details/2024/01/term1/01/1',
+                    data: {
+                        amount: 1000,
+                        datetime_of_use: new Date('2024-01-01'),
+                        card_name: '楽天カード',
+                        category: 'groceries',
+                    },
+                    params: { year: '2024', month: '1', term: 'term1', day: '1', timestamp: '1' },
+                },
+                {
+                    path: 'details/2024/01/term1/02/2',
+                    data: { amount: 2000, datetime_of_use: new Date('2024-01-02'), card_name: 'JCBカード' },
+                    params: { year: '2024', month: '1', term: 'term1', day: '2', timestamp: '2' },
+                },
+                {
+                    path: 'details/2024/01/term1/03/3',
+                    data: {
+                        amount: -400,
+                        datetime_of_use: new Date('2024-01-03'),
+                        card_name: '楽天カード',
+                        category: 'groceries',
+                        transaction_type: 'refund',
+                    },
+                    params: { year: '2024', month: '1', term: 'term1', day: '3', timestamp: '3' },
+                },
+            ];
+            mockReportUseCase.getMonthlyReport.mockRejectedValue(new Error('Not found'));
+
+            // When
+            await service.recalculateMonthlyReports(documents, 'test-user');
+
+            // Then
+            const report = mockReportUseCase.createMonthlyReport.mock.calls[0][0];
+            expect(report.categoryTotals).toEqual({
+                groceries: { amount: 600, count: 1 },
+                uncategorized: { amount: 2000, count: 1 },
+            });
+            expect(report.cardTotals).toEqual({
+                '楽天カード': { amount: 600, count: 1 },
+                'JCBカード': { amount: 2000, count: 1 },
+            });
+        });
+    });
 });
@@ -2,7 +2,18 @@ import { ReportSchedulingService } from '../../../../../../functions/src/applica
 import { FirestoreReportUseCase } from '../../../../../../shared/usecases/database/FirestoreReportUseCase';
 import { NotifyReportUseCase } from '../../../../../../shared/usecases/notification/NotifyReportUseCase';
 import { DateInfo } from '../../../../../../shared/utils/DateUtil';
-import { DailyReport, WeeklyReport, MonthlyReport } from '../../../../../../shared/domain/entities/Reports';
+import {
+    DailyReport,
+    WeeklyReport,
+    MonthlyReport,
+    YearlyReport,
+    MonthEndForecast,
+} from '../../../../../../shared/domain/entities/Reports';
+import { IConfigRepository } from '../../../../../../shared/domain/interfaces/database/repositories/IConfigRepository';
+import { ReportNotificationMapper } from '../../../../../../shared/infrastructure/mappers/ReportNotificationMapper';
+import {
+    IMonthEndForecastUseCase,
+} from '../../../../../../shared/domain/interfaces/usecases/report/IMonthEndForecastUseCase';
 
 // ReportNotificationMapperをモック
 jest.mock('../../../../../../shared/infrastructure/mappers/ReportNotificationMapper', () => ({
@@ -19,6 +30,9 @@ jest.mock('../../../../../../shared/infrastructure/mappers/ReportNotificationMap
             title: 'Mock Monthly Report',
             additionalInfo: '',
         }),
+        toYearlyScheduledNotification: jest.fn().mockReturnValue({
+            title: 'Mock Yearly Report',
+        }),
     },
 }));
 
@@ -59,6 +73,8 @@ const mockReportUseCase: jest.Mocked<FirestoreReportUseCase> = {
     updateWeeklyReport: jest.fn(),
     getMonthlyReport: jest.fn(),
     updateMonthlyReport: jest.fn(),
+    getYearlyReport: jest.fn(),
+    updateYearlyReport: jest.fn(),
     createDailyReport: jest.fn(),
     createWeeklyReport: jest.fn(),
     createMonthlyReport: jest.fn(),
@@ -68,6 +84,7 @@ const mockNotifyReportUseCase: jest.Mocked<NotifyReportUseCase> = {
     notifyDailyReport: jest.fn(),
     notifyWeeklyReport: jest.fn(),
     notifyMonthlyReport: jest.fn(),
+    notifyYearlyReport: jest.fn(),
 } as any;
 
 // Mock 日付情報
@@ -85,6 +102,17 @@ const mockDateInfo: DateInfo = {
     isLastDayOfMonth: false,
 };
 
+// Mock 月末の見込み
+const mockForecast = {
+    year: 2024,
+    month: 1,
+    asOf: '2024-01-15',
+    projectedAmount: 90000,
+    lowerBound: 80000,
+    upperBound: 100000,
+    confidenceLevel: 80,
+} as MonthEndForecast;
+
 describe('ReportSchedulingService', () => {
     let service: ReportSchedulingService;
 
@@ -150,6 +178,90 @@ describe('ReportSchedulingService', () => {
             expect(mockNotifyReportUseCase.notifyDailyReport).not.toHaveBeenCalled();
             expect(mockReportUseCase.updateDailyReport).not.toHaveBeenCalled();
         });
+
+        it('月末の見込みのユースケースがある場合、前日までの実績から求めた見込みを渡して通知を作成する', async () => {
+            // Given
+            const mockForecastUseCase: jest.Mocked<IMonthEndForecastUseCase> = {
+                execute: jest.fn().mockResolvedValue(mockForecast),
+            };
+            service = new ReportSchedulingService(
+                mockReportUseCase,
+                mockNotifyReportUseCase,
+                undefined,
+                mockForecastUseCase
+            );
+            const dailyReport = { totalAmount: 1500, totalCount: 3, hasNotified: false } as DailyReport;
+            mockReportUseCase.getDailyReport.mockResolvedValue(dailyReport);
+            mockReportUseCase.getMonthlyReport.mockResolvedValue({ totalAmount: 45000 } as MonthlyReport);
+
+            // When
+            await service.sendDailyReport(mockDateInfo);
+
+            // Then
+            expect(mockForecastUseCase.execute).toHaveBeenCalledWith('2024', '1', new Date(2024, 0, 15));
+            expect(ReportNotificationMapper.toDailyScheduledNotification).toHaveBeenCalledWith(
+                dailyReport,
+                '2024',
+                '1',
+                '15',
+                45000,
+                undefined,
+                mockForecast
+            );
+        });
+
+        it('月末の見込みを取得できない場合も、見込みなしで送信する', async () => {
+            // Given
+            const mockForecastUseCase: jest.Mocked<IMonthEndForecastUseCase> = {
+                execute: jest.fn().mockRejectedValue(new Error('取得エラー')),
+            };
+            service = new ReportSchedulingService(
+                mockReportUseCase,
+                mockNotifyReportUseCase,
+                undefined,
+                mockForecastUseCase
+            );
+            const dailyReport = { totalAmount: 1500, totalCount: 3, hasNotified: false } as DailyReport;
+            mockReportUseCase.getDailyReport.mockResolvedValue(dailyReport);
+            mockReportUseCase.getMonthlyReport.mockResolvedValue({ totalAmount: 45000 } as MonthlyReport);
+
+            // When
+            await service.sendDailyReport(mockDateInfo);
+
+            // Then
+            expect(ReportNotificationMapper.toDailyScheduledNotification).toHaveBeenCalledWith(
+                dailyReport,
+                '2024',
+                '1',
+                '15',
+                45000,
+                undefined,
+                undefined
+            );
+            expect(mockNotifyReportUseCase.notifyDailyReport).toHaveBeenCalled();
+        });
+
+        it('月の最終日は月末の見込みを求めない', async () => {
+            // Given
+            const mockForecastUseCase: jest.Mocked<IMonthEndForecastUseCase> = {
+                execute: jest.fn().mockResolvedValue(mockForecast),
+            };
+            service = new ReportSchedulingService(
+                mockReportUseCase,
+                mockNotifyReportUseCase,
+                undefined,
+                mockForecastUseCase
+            );
+            mockReportUseCase.getDailyReport.mockResolvedValue({ hasNotified: false } as DailyReport);
+            mockReportUseCase.getMonthlyReport.mockResolvedValue({ totalAmount: 45000 } as MonthlyReport);
+
+            // When
+            await service.sendDailyReport({ ...mockDateInfo, day: 31, isLastDayOfMonth: true });
+
+            // Then
+            expect(mockForecastUseCase.execute).not.toHaveBeenCalled();
+            expect(mockNotifyReportUseCase.notifyDailyReport).toHaveBeenCalled();
+        });
     });
 
     describe('sendWeeklyReport', () => {
@@ -196,6 +308,36 @@ describe('ReportSchedulingService', () => {
             expect(mockNotifyReportUseCase.notifyWeeklyReport).not.toHaveBeenCalled();
             expect(mockReportUseCase.updateWeeklyReport).not.toHaveBeenCalled();
         });
+
+        it('月末の見込みのユースケースがある場合、見込みを渡して通知を作成する', async () => {
+            // Given
+            const mockForecastUseCase: jest.Mocked<IMonthEndForecastUseCase> = {
+                execute: jest.fn().mockResolvedValue(mockForecast),
+            };
+            service = new ReportSchedulingService(
+                mockReportUseCase,
+                mockNotifyReportUseCase,
+                undefined,
+                mockForecastUseCase
+            );
+            const weeklyReport = { totalAmount: 10000, totalCount: 10, hasReportSent: false } as WeeklyReport;
+            mockReportUseCase.getWeeklyReport.mockResolvedValue(weeklyReport);
+            mockReportUseCase.getMonthlyReport.mockResolvedValue({ totalAmount: 45000 } as MonthlyReport);
+
+            // When
+            await service.sendWeeklyReport(mockDateInfo);
+
+            // Then
+            expect(ReportNotificationMapper.toWeeklyScheduledNotification).toHaveBeenCalledWith(
+                weeklyReport,
+                '2024',
+                '1',
+                3,
+                45000,
+                undefined,
+                mockForecast
+            );
+        });
     });
 
     describe('sendMonthlyReport', () => {
@@ -219,6 +361,71 @@ describe('ReportSchedulingService', () => {
             expect(mockReportUseCase.updateMonthlyReport).toHaveBeenCalled();
         });
 
+        it('設定情報リポジトリがある場合、支出カテゴリと予算の一覧を渡して通知を作成する', async () => {
+            // Given
+            const categories = [{ id: 'groceries', name: '食料品' }];
+            const budgets = [{
+                id: 'budget-1',
+                name: '食料品',
+                target: 'category',
+                key: 'groceries',
+                limit: 30000,
+                alertPercentages: [50, 80, 100],
+            }];
+            const mockConfigRepository = {
+                getCategoryConfig: jest.fn().mockResolvedValue({ categories, rules: [] }),
+                getBudgets: jest.fn().mockResolvedValue(budgets),
+            } as unknown as IConfigRepository;
+            service = new ReportSchedulingService(mockReportUseCase, mockNotifyReportUseCase, mockConfigRepository);
+            const monthlyReport = {
+                totalAmount: 40000,
+                totalCount: 30,
+                hasReportSent: false,
+            } as MonthlyReport;
+            mockReportUseCase.getMonthlyReport.mockResolvedValue(monthlyReport);
+
+            // When
+            await service.sendMonthlyReport(mockDateInfo);
+
+            // Then
+            expect(ReportNotificationMapper.toMonthlyScheduledNotification).toHaveBeenCalledWith(
+                monthlyReport,
+                '2024',
+                '1',
+                categories,
+                budgets
+            );
+            expect(mockNotifyReportUseCase.notifyMonthlyReport).toHaveBeenCalled();
+        });
+
+        it('支出カテゴリと予算の一覧を取得できない場合も、一覧なしで送信する', async () => {
+            // Given
+            const mockConfigRepository = {
+                getCategoryConfig: jest.fn().mockRejectedValue(new Error('取得エラー')),
+                getBudgets: jest.fn().mockRejectedValue(new Error('取得エラー')),
+            } as unknown as IConfigRepository;
+            service = new ReportSchedulingService(mockReportUseCase, mockNotifyReportUseCase, mockConfigRepository);
+            const monthlyReport = {
+                totalAmount: 40000,
+                totalCount: 30,
+                hasReportSent: false,
+            } as MonthlyReport;
+            mockReportUseCase.getMonthlyReport.mockResolvedValue(monthlyReport);
+
+            // When
+            await service.sendMonthlyReport(mockDateInfo);
+
+            // Then
+            expect(ReportNotificationMapper.toMonthlyScheduledNotification).toHaveBeenCalledWith(
+                monthlyReport,
+                '2024',
+                '1',
+                undefined,
+                undefined
+            );
+            expect(mockNotifyReportUseCase.notifyMonthlyReport).toHaveBeenCalled();
+        });
+
         it('マンスリーレポートが送信済みの場合、送信処理をスキップする', async () => {
             // Given
             const monthlyReport = {
@@ -238,6 +445,82 @@ describe('ReportSchedulingService', () => {
         });
     });
 
+    describe('sendYearlyReport', () => {
+        const yearEndInfo: DateInfo = {
+            ...mockDateInfo,
+            date: new Date('2024-12-31'),
+            month: 12,
+            day: 31,
+            isLastDayOfTerm: true,
+            isLastDayOfMonth: true,
+        };
+
+        it('年次レポートが存在し未送信の場合、前年との比較を含めて送信する', async () => {
+            // Given
+            const yearlyReport = {
+                totalAmount: 1100000,
+                totalCount: 400,
+                monthlyTotals: { '12': { amount: 100000, count: 30 } },
+                hasReportSent: false,
+            } as unknown as YearlyReport;
+            const previousReport = { totalAmount: 1000000, totalCount: 380 } as YearlyReport;
+            mockReportUseCase.getYearlyReport.mockImplementation(async (year) =>
+                year === '2024' ? yearlyReport : previousReport
+            );
+
+            // When
+            await service.sendYearlyReport(yearEndInfo);
+
+            // Then
+            expect(mockReportUseCase.getYearlyReport).toHaveBeenCalledWith('2024');
+            expect(mockReportUseCase.getYearlyReport).toHaveBeenCalledWith('2023');
+            expect(ReportNotificationMapper.toYearlyScheduledNotification).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    year: 2024,
+                    totalAmount: 1100000,
+                    yearOverYear: { previousTotalAmount: 1000000, difference: 100000, changeRate: 10 },
+                })
+            );
+            expect(mockNotifyReportUseCase.notifyYearlyReport).toHaveBeenCalled();
+            expect(mockReportUseCase.updateYearlyReport).toHaveBeenCalledWith(
+                { hasReportSent: true, lastUpdatedBy: 'yearly-report-schedule' },
+                '2024'
+            );
+        });
+
+        it('前年の年次レポートがない場合、前年との比較なしで送信する', async () => {
+            // Given
+            mockReportUseCase.getYearlyReport
+                .mockResolvedValueOnce({ totalAmount: 1100000, totalCount: 400, hasReportSent: false } as YearlyReport)
+                .mockRejectedValueOnce(new Error('Not found'));
+
+            // When
+            await service.sendYearlyReport(yearEndInfo);
+
+            // Then
+            expect(ReportNotificationMapper.toYearlyScheduledNotification).toHaveBeenCalledWith(
+                expect.objectContaining({ yearOverYear: null })
+            );
+            expect(mockNotifyReportUseCase.notifyYearlyReport).toHaveBeenCalled();
+        });
+
+        it('年次レポートが送信済みの場合、送信処理をスキップする', async () => {
+            // Given
+            mockReportUseCase.getYearlyReport.mockResolvedValue({
+                totalAmount: 1100000,
+                totalCount: 400,
+                hasReportSent: true,
+            } as YearlyReport);
+
+            // When
+            await service.sendYearlyReport(yearEndInfo);
+
+            // Then
+            expect(mockNotifyReportUseCase.notifyYearlyReport).not.toHaveBeenCalled();
+            expect(mockReportUseCase.updateYearlyReport).not.toHaveBeenCalled();
+        });
+    });
+
     describe('executeScheduledReports', () => {
         it('通常の日に日次レポートのみ送信する', async () => {
             // Given
@@ -257,6 +540,7 @@ describe('ReportSchedulingService', () => {
             expect(mockNotifyReportUseCase.notifyDailyReport).toHaveBeenCalled();
             expect(mockNotifyReportUseCase.notifyWeeklyReport).not.toHaveBeenCalled();
             expect(mockNotifyReportUseCase.notifyMonthlyReport).not.toHaveBeenCalled();
+            expect(mockNotifyReportUseCase.notifyYearlyReport).not.toHaveBeenCalled();
         });
     });
 });
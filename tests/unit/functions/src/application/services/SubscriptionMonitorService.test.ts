@@ -0,0 +1,176 @@
+import { SubscriptionMonitorService } from '../../../../../../functions/src/application/services/SubscriptionMonitorService';
+import { FirestoreDataExplorerService } from '../../../../../../functions/src/infrastructure/services/FirestoreDataExplorerService';
+import { NotifyReportUseCase } from '../../../../../../shared/usecases/notification/NotifyReportUseCase';
+import { ISubscriptionRepository } from '../../../../../../shared/domain/interfaces/database/repositories/ISubscriptionRepository';
+import { Subscription } from '../../../../../../shared/domain/entities/Subscription';
+import { DateUtil } from '../../../../../../shared/utils/DateUtil';
+
+// DateUtilをモック（日本時間の「今日」を固定する）
+jest.mock('../../../../../../shared/utils/DateUtil', () => ({
+    DateUtil: {
+        getJSTDate: jest.fn(),
+    },
+}));
+
+// Loggerをモック化
+jest.mock('../../../../../../shared/infrastructure/logging/Logger', () => ({
+    logger: {
+        info: jest.fn(),
+        debug: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+    }
+}));
+
+describe('SubscriptionMonitorService', () => {
+    const subscription: Subscription = {
+        id: '楽天カード:NETFLIX',
+        merchant: 'NETFLIX',
+        cardName: '楽天カード',
+        category: 'subscriptions',
+        interval: 'monthly',
+        amount: 1490,
+        chargeCount: 3,
+        lastChargedAt: '2025-06-10',
+        nextChargeDate: '2025-07-10',
+        status: 'active',
+    };
+
+    let service: SubscriptionMonitorService;
+    let mockSubscriptionRepository: jest.Mocked<ISubscriptionRepository>;
+    let mockDataExplorerService: { exploreCardUsageData: jest.Mock };
+    let mockNotifyReportUseCase: { notifySubscriptionAlert: jest.Mock };
+
+    const createDocument = (path: string, usedAt: Date, amount: number) => ({
+        path,
+        data: {
+            amount,
+            datetime_of_use: usedAt,
+            card_name: '楽天カード',
+            where_to_use: 'NETFLIX.COM',
+            merchant: 'NETFLIX',
+            category: 'subscriptions',
+        },
+        params: { year: '2025', month: '6', term: 'term2', day: '10', timestamp: '0' },
+    });
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+
+        (DateUtil.getJSTDate as jest.Mock).mockReturnValue(new Date(2025, 5, 15, 9, 0));
+
+        mockSubscriptionRepository = {
+            getSubscriptions: jest.fn().mockResolvedValue({ subscriptions: [], analyzedAt: '2025-06-14T00:00:00.000Z' }),
+            saveSubscriptions: jest.fn().mockResolvedValue(undefined),
+        };
+        mockDataExplorerService = {
+            exploreCardUsageData: jest.fn().mockResolvedValue([
+                createDocument('a', new Date(2025, 3, 10), 1490),
+                createDocument('b', new Date(2025, 4, 10), 1490),
+                createDocument('c', new Date(2025, 5, 10), 1490),
+            ]),
+        };
+        mockNotifyReportUseCase = { notifySubscriptionAlert: jest.fn().mockResolvedValue(undefined) };
+
+        service = new SubscriptionMonitorService(
+            mockSubscriptionRepository,
+            mockDataExplorerService as unknown as FirestoreDataExplorerService,
+            mockNotifyReportUseCase as unknown as NotifyReportUseCase
+        );
+    });
+
+    it('過去6か月のカードの利用から定期的な支払いを検出して保存すること', async () => {
+        await service.monitorSubscriptions();
+
+        expect(mockDataExplorerService.exploreCardUsageData).toHaveBeenCalledWith(
+            new Date(2024, 11, 15),
+            new Date(2025, 5, 15, 23, 59, 59, 999)
+        );
+        expect(mockSubscriptionRepository.saveSubscriptions).toHaveBeenCalledWith({
+            subscriptions: [subscription],
+            analyzedAt: expect.any(String),
+        });
+    });
+
+    it('新たに検出した定期的な支払いを通知すること', async () => {
+        await service.monitorSubscriptions();
+
+        expect(mockNotifyReportUseCase.notifySubscriptionAlert).toHaveBeenCalledWith(expect.objectContaining({
+            type: 'new',
+            title: '新しい定期的な支払いを検出しました',
+            merchant: 'NETFLIX',
+            nextChargeDate: '2025/07/10',
+        }));
+    });
+
+    it('前回検出済みのものは、支払いのない月の後に再開した場合も一覧に残すこと', async () => {
+        mockSubscriptionRepository.getSubscriptions.mockResolvedValue({
+            subscriptions: [subscription],
+            analyzedAt: '2025-06-14T00:00:00.000Z',
+        });
+        // 4月の支払いがない
+        mockDataExplorerService.exploreCardUsageData.mockResolvedValue([
+            createDocument('a', new Date(2025, 2, 10), 1490),
+            createDocument('b', new Date(2025, 4, 10), 1490),
+            createDocument('c', new Date(2025, 5, 10), 1490),
+        ]);
+
+        await service.monitorSubscriptions();
+
+        expect(mockSubscriptionRepository.saveSubscriptions).toHaveBeenCalledWith({
+            subscriptions: [subscription],
+            analyzedAt: expect.any(String),
+        });
+        expect(mockNotifyReportUseCase.notifySubscriptionAlert).not.toHaveBeenCalled();
+    });
+
+    it('前回から金額が変わった場合は変わる前の金額とともに通知すること', async () => {
+        mockSubscriptionRepository.getSubscriptions.mockResolvedValue({
+            subscriptions: [{ ...subscription, amount: 1290 }],
+            analyzedAt: '2025-06-14T00:00:00.000Z',
+        });
+
+        await service.monitorSubscriptions();
+
+        expect(mockNotifyReportUseCase.notifySubscriptionAlert).toHaveBeenCalledTimes(1);
+        expect(mockNotifyReportUseCase.notifySubscriptionAlert).toHaveBeenCalledWith(expect.objectContaining({
+            type: 'price_changed',
+            amount: 1490,
+            previousAmount: 1290,
+        }));
+    });
+
+    it('初回（保存済みの一覧がない場合）は通知せずに一覧を保存すること', async () => {
+        mockSubscriptionRepository.getSubscriptions.mockResolvedValue(null);
+
+        await service.monitorSubscriptions();
+
+        expect(mockNotifyReportUseCase.notifySubscriptionAlert).not.toHaveBeenCalled();
+        expect(mockSubscriptionRepository.saveSubscriptions).toHaveBeenCalledTimes(1);
+    });
+
+    it('通知に失敗しても一覧を保存すること', async () => {
+        mockNotifyReportUseCase.notifySubscriptionAlert.mockRejectedValue(new Error('通知エラー'));
+
+        await service.monitorSubscriptions();
+
+        expect(mockSubscriptionRepository.saveSubscriptions).toHaveBeenCalledTimes(1);
+    });
+
+    it('一覧の取得に失敗した場合は検出をスキップし、例外をスローしないこと', async () => {
+        mockSubscriptionRepository.getSubscriptions.mockRejectedValue(new Error('取得エラー'));
+
+        await expect(service.monitorSubscriptions()).resolves.toBeUndefined();
+
+        expect(mockDataExplorerService.exploreCardUsageData).not.toHaveBeenCalled();
+        expect(mockSubscriptionRepository.saveSubscriptions).not.toHaveBeenCalled();
+    });
+
+    it('カードの利用の探索に失敗した場合は一覧を保存せず、例外をスローしないこと', async () => {
+        mockDataExplorerService.exploreCardUsageData.mockRejectedValue(new Error('探索エラー'));
+
+        await expect(service.monitorSubscriptions()).resolves.toBeUndefined();
+
+        expect(mockSubscriptionRepository.saveSubscriptions).not.toHaveBeenCalled();
+    });
+});
@@ -1,7 +1,7 @@
 import { ProcessFirestoreDocumentUseCase } from '../../../../../../functions/src/application/usecases/ProcessFirestoreDocumentUseCase';
 import { ReportProcessingService } from '../../../../../../functions/src/application/services/ReportProcessingService';
 import { FirestoreDocumentCreatedEvent } from '../../../../../../functions/src/domain/types/FirebaseFunctionTypes';
-import { DailyReport, WeeklyReport, MonthlyReport } from '../../../../../../shared/domain/entities/Reports';
+import { DailyReport, WeeklyReport, MonthlyReport, YearlyReport } from '../../../../../../shared/domain/entities/Reports';
 import { AppError, ErrorType } from '../../../../../../shared/errors/AppError';
 
 // Mocks
@@ -9,6 +9,7 @@ const mockReportProcessingService: jest.Mocked<ReportProcessingService> = {
     processDailyReport: jest.fn(),
     processWeeklyReport: jest.fn(),
     processMonthlyReport: jest.fn(),
+    processYearlyReport: jest.fn(),
 } as any;
 
 // Mock Firebase Functions DocumentSnapshot
@@ -44,10 +45,12 @@ describe('ProcessFirestoreDocumentUseCase', () => {
             const mockDailyReport = { totalAmount: 1500 } as DailyReport;
             const mockWeeklyReport = { totalAmount: 5000 } as WeeklyReport;
             const mockMonthlyReport = { totalAmount: 20000 } as MonthlyReport;
+            const mockYearlyReport = { totalAmount: 240000 } as YearlyReport;
 
             mockReportProcessingService.processDailyReport.mockResolvedValue(mockDailyReport);
             mockReportProcessingService.processWeeklyReport.mockResolvedValue(mockWeeklyReport);
             mockReportProcessingService.processMonthlyReport.mockResolvedValue(mockMonthlyReport);
+            mockReportProcessingService.processYearlyReport.mockResolvedValue(mockYearlyReport);
 
             // When
             const result = await useCase.execute(mockEvent);
@@ -68,11 +71,17 @@ describe('ProcessFirestoreDocumentUseCase', () => {
                 cardUsageData,
                 mockEvent.params
             );
+            expect(mockReportProcessingService.processYearlyReport).toHaveBeenCalledWith(
+                expect.anything(),
+                cardUsageData,
+                mockEvent.params
+            );
             expect(result.success).toBe(true);
             expect(result.message).toBe('全てのレポート処理が完了しました');
             expect(result.data?.dailyReport).toBe(mockDailyReport);
             expect(result.data?.weeklyReport).toBe(mockWeeklyReport);
             expect(result.data?.monthlyReport).toBe(mockMonthlyReport);
+            expect(result.data?.yearlyReport).toBe(mockYearlyReport);
         });
 
         it('レポートドキュメントパスの場合は処理をスキップする', async () => {
@@ -96,10 +105,28 @@ describe('ProcessFirestoreDocumentUseCase', () => {
             expect(mockReportProcessingService.processDailyReport).not.toHaveBeenCalled();
             expect(mockReportProcessingService.processWeeklyReport).not.toHaveBeenCalled();
             expect(mockReportProcessingService.processMonthlyReport).not.toHaveBeenCalled();
+            expect(mockReportProcessingService.processYearlyReport).not.toHaveBeenCalled();
             expect(result.success).toBe(true);
             expect(result.message).toBe('レポートドキュメントのため処理をスキップしました');
         });
 
+        it('確認待ちのカード利用データの場合は処理をスキップする', async () => {
+            // Given
+            const cardUsageData = { amount: 1500, status: 'pending_review' };
+            const mockEvent = createMockEvent(cardUsageData);
+
+            // When
+            const result = await useCase.execute(mockEvent);
+
+            // Then
+            expect(mockReportProcessingService.processDailyReport).not.toHaveBeenCalled();
+            expect(mockReportProcessingService.processWeeklyReport).not.toHaveBeenCalled();
+            expect(mockReportProcessingService.processMonthlyReport).not.toHaveBeenCalled();
+            expect(mockReportProcessingService.processYearlyReport).not.toHaveBeenCalled();
+            expect(result.success).toBe(true);
+            expect(result.message).toBe('確認待ちのカード利用情報のため処理をスキップしました');
+        });
+
         it('ドキュメントが存在しない場合はエラーを投げる', async () => {
             // Given
             const mockEvent = createMockEvent(null);
@@ -185,10 +212,12 @@ describe('ProcessFirestoreDocumentUseCase', () => {
             const mockDailyReport = { totalAmount: 2000 } as DailyReport;
             const mockWeeklyReport = { totalAmount: 8000 } as WeeklyReport;
             const mockMonthlyReport = { totalAmount: 35000 } as MonthlyReport;
+            const mockYearlyReport = { totalAmount: 420000 } as YearlyReport;
 
             mockReportProcessingService.processDailyReport.mockResolvedValue(mockDailyReport);
             mockReportProcessingService.processWeeklyReport.mockResolvedValue(mockWeeklyReport);
             mockReportProcessingService.processMonthlyReport.mockResolvedValue(mockMonthlyReport);
+            mockReportProcessingService.processYearlyReport.mockResolvedValue(mockYearlyReport);
 
             // When
             const result = await useCase.execute(mockEvent);
@@ -199,6 +228,7 @@ describe('ProcessFirestoreDocumentUseCase', () => {
             expect(mockReportProcessingService.processDailyReport).toHaveBeenCalled();
             expect(mockReportProcessingService.processWeeklyReport).toHaveBeenCalled();
             expect(mockReportProcessingService.processMonthlyReport).toHaveBeenCalled();
+            expect(mockReportProcessingService.processYearlyReport).toHaveBeenCalled();
             expect(result.success).toBe(true);
         });
     });
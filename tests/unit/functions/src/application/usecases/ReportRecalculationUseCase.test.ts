@@ -27,6 +27,7 @@ const mockRecalculationService: jest.Mocked<ReportRecalculationService> = {
     recalculateDailyReports: jest.fn(),
     recalculateWeeklyReports: jest.fn(),
     recalculateMonthlyReports: jest.fn(),
+    recalculateYearlyReports: jest.fn(),
 } as any;
 
 describe('ReportRecalculationUseCase', () => {
@@ -110,6 +111,29 @@ describe('ReportRecalculationUseCase', () => {
             expect(mockRecalculationService.recalculateMonthlyReports).not.toHaveBeenCalled();
         });
 
+        it('確認待ちのカード利用データは再集計の対象から除外する', async () => {
+            // Given
+            const pendingReviewDocument: CardUsageDocument = {
+                path: 'details/2024/term1/03/1234567890125',
+                data: { amount: 3000, datetime_of_use: new Date('2024-01-03'), status: 'pending_review' },
+                params: { year: '2024', month: '1', term: 'term1', day: '3', timestamp: '1234567890125' },
+            };
+            mockDataExplorerService.exploreCardUsageData.mockResolvedValue([...cardUsageDocuments, pendingReviewDocument]);
+            mockRecalculationService.recalculateDailyReports.mockResolvedValue({ created: 2, updated: 0 });
+            const dailyOnlyRequest = { ...request, reportTypes: ['daily'] as ('daily' | 'weekly' | 'monthly')[] };
+
+            // When
+            const result = await useCase.execute(dailyOnlyRequest);
+
+            // Then
+            expect(result.success).toBe(true);
+            expect(result.data?.totalCardUsageProcessed).toBe(2);
+            expect(mockRecalculationService.recalculateDailyReports).toHaveBeenCalledWith(
+                cardUsageDocuments,
+                'test-user'
+            );
+        });
+
         it('ウィークリーレポートのみを再集計する', async () => {
             // Given
             mockDataExplorerService.exploreCardUsageData.mockResolvedValue(cardUsageDocuments);
@@ -148,6 +172,43 @@ describe('ReportRecalculationUseCase', () => {
             expect(mockRecalculationService.recalculateWeeklyReports).not.toHaveBeenCalled();
         });
 
+        it('年次レポートは対象の年全体のデータを探索して再集計する', async () => {
+            // Given
+            const wholeYearDocuments: CardUsageDocument[] = [
+                ...cardUsageDocuments,
+                {
+                    path: 'details/2024/06/term2/10/1234567890125',
+                    data: { amount: 3000, datetime_of_use: new Date('2024-06-10') },
+                    params: { year: '2024', month: '6', term: 'term2', day: '10', timestamp: '1234567890125' },
+                },
+                {
+                    path: 'details/2024/07/term1/01/1234567890126',
+                    data: { amount: 4000, datetime_of_use: new Date('2024-07-01'), status: 'pending_review' },
+                    params: { year: '2024', month: '7', term: 'term1', day: '1', timestamp: '1234567890126' },
+                },
+            ];
+            mockDataExplorerService.exploreCardUsageData
+                .mockResolvedValueOnce(cardUsageDocuments)
+                .mockResolvedValueOnce(wholeYearDocuments);
+            mockRecalculationService.recalculateYearlyReports.mockResolvedValue({ created: 0, updated: 1 });
+            const yearlyOnlyRequest: ReportRecalculationRequest = { ...request, reportTypes: ['yearly'] };
+
+            // When
+            const result = await useCase.execute(yearlyOnlyRequest);
+
+            // Then
+            expect(result.success).toBe(true);
+            expect(mockDataExplorerService.exploreCardUsageData).toHaveBeenLastCalledWith(
+                new Date(2024, 0, 1),
+                new Date(2024, 11, 31)
+            );
+            expect(mockRecalculationService.recalculateYearlyReports).toHaveBeenCalledWith(
+                wholeYearDocuments.slice(0, 3),
+                'test-user'
+            );
+            expect((result.data as any).reportsUpdated.yearly).toBe(1);
+        });
+
         it('全てのレポートタイプを再集計する', async () => {
             // Given
             mockDataExplorerService.exploreCardUsageData.mockResolvedValue(cardUsageDocuments);
@@ -1,5 +1,7 @@
 import { ScheduleReportDeliveryUseCase } from '../../../../../../functions/src/application/usecases/ScheduleReportDeliveryUseCase';
 import { ReportSchedulingService } from '../../../../../../functions/src/application/services/ReportSchedulingService';
+import { BillingReminderService } from '../../../../../../functions/src/application/services/BillingReminderService';
+import { SubscriptionMonitorService } from '../../../../../../functions/src/application/services/SubscriptionMonitorService';
 import { ScheduleContext } from '../../../../../../functions/src/domain/types/FirebaseFunctionTypes';
 import { AppError, ErrorType } from '../../../../../../shared/errors/AppError';
 
@@ -27,6 +29,47 @@ describe('ScheduleReportDeliveryUseCase', () => {
     });
 
     describe('execute', () => {
+        it('支払日通知サービスがある場合、定期レポートの後に支払日を通知する', async () => {
+            // Given
+            const mockBillingReminderService = {
+                sendBillingReminders: jest.fn().mockResolvedValue(undefined),
+            } as unknown as jest.Mocked<BillingReminderService>;
+            const useCaseWithReminder = new ScheduleReportDeliveryUseCase(
+                mockReportSchedulingService,
+                mockBillingReminderService
+            );
+            mockReportSchedulingService.executeScheduledReports.mockResolvedValue(undefined);
+
+            // When
+            const result = await useCaseWithReminder.execute(createMockScheduleContext());
+
+            // Then
+            expect(mockReportSchedulingService.executeScheduledReports).toHaveBeenCalledTimes(1);
+            expect(mockBillingReminderService.sendBillingReminders).toHaveBeenCalledTimes(1);
+            expect(result.success).toBe(true);
+        });
+
+        it('定期的な支払いの監視サービスがある場合、定期レポートの後に定期的な支払いを検出する', async () => {
+            // Given
+            const mockSubscriptionMonitorService = {
+                monitorSubscriptions: jest.fn().mockResolvedValue(undefined),
+            } as unknown as jest.Mocked<SubscriptionMonitorService>;
+            const useCaseWithMonitor = new ScheduleReportDeliveryUseCase(
+                mockReportSchedulingService,
+                undefined,
+                mockSubscriptionMonitorService
+            );
+            mockReportSchedulingService.executeScheduledReports.mockResolvedValue(undefined);
+
+            // When
+            const result = await useCaseWithMonitor.execute(createMockScheduleContext());
+
+            // Then
+            expect(mockReportSchedulingService.executeScheduledReports).toHaveBeenCalledTimes(1);
+            expect(mockSubscriptionMonitorService.monitorSubscriptions).toHaveBeenCalledTimes(1);
+            expect(result.success).toBe(true);
+        });
+
         it('正常なスケジュール配信処理を実行する', async () => {
             // Given
             const mockContext = createMockScheduleContext();
@@ -432,6 +432,182 @@ describe('CardUsageFactory', () => {
             // Timestamp.fromDateは呼ばれていないことを確認（復元時は既存のTimestampを使用）
             expect(Timestamp.fromDate).not.toHaveBeenCalled();
         });
+
+        it('状態と検証結果が保存されている場合は保持されること', () => {
+            // Arrange
+            const testDate = new Date('2025-05-24T12:00:00Z');
+
+            const mockTimestamp = {
+                toDate: () => testDate,
+                seconds: Math.floor(testDate.getTime() / 1000),
+                nanoseconds: 0,
+            } as Timestamp;
+
+            const validation = {
+                confidence: 0.3,
+                fields: { card_name: 1, datetime_of_use: 1, amount: 1, where_to_use: 0.3 },
+                issues: [{ field: 'where_to_use' as const, message: '利用先を取得できませんでした' }],
+            };
+
+            const data = {
+                card_name: '確認待ちテストカード',
+                datetime_of_use: mockTimestamp,
+                amount: 1200,
+                where_to_use: '不明',
+                created_at: mockTimestamp,
+                status: 'pending_review' as const,
+                validation,
+            };
+
+            // Act
+            const result = CardUsageFactory.reconstruct(data);
+
+            // Assert
+            expect(result.status).toBe('pending_review');
+            expect(result.validation).toEqual(validation);
+        });
+
+        it('取消・返金の取引種別と元の利用情報のパスが保持されること', () => {
+            // Arrange
+            const testDate = new Date('2025-05-24T12:00:00Z');
+
+            const mockTimestamp = {
+                toDate: () => testDate,
+                seconds: Math.floor(testDate.getTime() / 1000),
+                nanoseconds: 0,
+            } as Timestamp;
+
+            const data = {
+                card_name: '返金テストカード',
+                datetime_of_use: mockTimestamp,
+                amount: -1200,
+                where_to_use: 'テストストア',
+                created_at: mockTimestamp,
+                transaction_type: 'refund' as const,
+                original_usage_path: 'details/2025/05/term4/20/1747700000000',
+            };
+
+            // Act
+            const result = CardUsageFactory.reconstruct(data);
+
+            // Assert
+            expect(result.amount).toBe(-1200);
+            expect(result.transaction_type).toBe('refund');
+            expect(result.original_usage_path).toBe(data.original_usage_path);
+        });
+
+        it('重複の疑いがある利用情報のパスが保持されること', () => {
+            // Arrange
+            const testDate = new Date('2025-05-24T12:00:00Z');
+
+            const mockTimestamp = {
+                toDate: () => testDate,
+                seconds: Math.floor(testDate.getTime() / 1000),
+                nanoseconds: 0,
+            } as Timestamp;
+
+            const data = {
+                card_name: '重複テストカード',
+                datetime_of_use: mockTimestamp,
+                amount: 1200,
+                where_to_use: 'テストストア',
+                created_at: mockTimestamp,
+                duplicate_of: 'details/2025/05/term4/24/1748087900000',
+            };
+
+            // Act
+            const result = CardUsageFactory.reconstruct(data);
+
+            // Assert
+            expect(result.duplicate_of).toBe(data.duplicate_of);
+        });
+
+        it('正規化した利用先が保持されること', () => {
+            // Arrange
+            const testDate = new Date('2025-05-24T12:00:00Z');
+
+            const mockTimestamp = {
+                toDate: () => testDate,
+                seconds: Math.floor(testDate.getTime() / 1000),
+                nanoseconds: 0,
+            } as Timestamp;
+
+            const data = {
+                card_name: '正規化テストカード',
+                datetime_of_use: mockTimestamp,
+                amount: 1200,
+                where_to_use: 'ＡＭＡＺＯＮ．ＣＯ．ＪＰ',
+                merchant: 'Amazon',
+                created_at: mockTimestamp,
+            };
+
+            // Act
+            const result = CardUsageFactory.reconstruct(data);
+
+            // Assert
+            expect(result.where_to_use).toBe('ＡＭＡＺＯＮ．ＣＯ．ＪＰ');
+            expect(result.merchant).toBe('Amazon');
+        });
+
+        it('カテゴリとその設定元が保持されること', () => {
+            // Arrange
+            const testDate = new Date('2025-05-24T12:00:00Z');
+
+            const mockTimestamp = {
+                toDate: () => testDate,
+                seconds: Math.floor(testDate.getTime() / 1000),
+                nanoseconds: 0,
+            } as Timestamp;
+
+            const data = {
+                card_name: 'カテゴリテストカード',
+                datetime_of_use: mockTimestamp,
+                amount: 1200,
+                where_to_use: 'NETFLIX.COM',
+                category: 'subscriptions',
+                category_source: 'manual' as const,
+                created_at: mockTimestamp,
+            };
+
+            // Act
+            const result = CardUsageFactory.reconstruct(data);
+
+            // Assert
+            expect(result.category).toBe('subscriptions');
+            expect(result.category_source).toBe('manual');
+        });
+
+        it('状態と検証結果が保存されていない場合はプロパティ自体を持たないこと', () => {
+            // Arrange
+            const testDate = new Date('2025-05-24T12:00:00Z');
+
+            const mockTimestamp = {
+                toDate: () => testDate,
+                seconds: Math.floor(testDate.getTime() / 1000),
+                nanoseconds: 0,
+            } as Timestamp;
+
+            const data = {
+                card_name: '既存データテストカード',
+                datetime_of_use: mockTimestamp,
+                amount: 1200,
+                where_to_use: 'テストストア',
+                created_at: mockTimestamp,
+            };
+
+            // Act
+            const result = CardUsageFactory.reconstruct(data);
+
+            // Assert
+            expect(result).not.toHaveProperty('status');
+            expect(result).not.toHaveProperty('validation');
+            expect(result).not.toHaveProperty('transaction_type');
+            expect(result).not.toHaveProperty('original_usage_path');
+            expect(result).not.toHaveProperty('duplicate_of');
+            expect(result).not.toHaveProperty('merchant');
+            expect(result).not.toHaveProperty('category');
+            expect(result).not.toHaveProperty('category_source');
+        });
     });
 
     describe('createとreconstructの組み合わせテスト', () => {
@@ -1,4 +1,9 @@
-import { DailyReportFactory, WeeklyReportFactory, MonthlyReportFactory } from '../../../../../shared/domain/factories/ReportsFactory';
+import {
+    DailyReportFactory,
+    WeeklyReportFactory,
+    MonthlyReportFactory,
+    YearlyReportFactory,
+} from '../../../../../shared/domain/factories/ReportsFactory';
 import { Timestamp, FieldValue } from 'firebase-admin/firestore';
 
 // firebase-adminのモック
@@ -155,6 +160,30 @@ describe('ReportsFactory', () => {
                 expect(result.lastUpdated).toBe('SERVER_TIMESTAMP');
                 expect(FieldValue.serverTimestamp).toHaveBeenCalled();
             });
+
+            it('支出カテゴリ・カードごとの小計は存在する場合のみ復元すること', () => {
+                // Arrange
+                const base = {
+                    totalAmount: 3000,
+                    totalCount: 2,
+                    lastUpdatedBy: 'system',
+                    documentIdList: ['doc1', 'doc2'],
+                    date: { toDate: () => new Date('2025-05-26T00:00:00.000Z') } as Timestamp,
+                    hasNotified: false,
+                };
+                const categoryTotals = { groceries: { amount: 3000, count: 2 } };
+                const cardTotals = { '楽天カード': { amount: 3000, count: 2 } };
+
+                // Act
+                const withSubtotals = DailyReportFactory.reconstruct({ ...base, categoryTotals, cardTotals });
+                const withoutSubtotals = DailyReportFactory.reconstruct(base);
+
+                // Assert
+                expect(withSubtotals.categoryTotals).toBe(categoryTotals);
+                expect(withSubtotals.cardTotals).toBe(cardTotals);
+                expect(withoutSubtotals).not.toHaveProperty('categoryTotals');
+                expect(withoutSubtotals).not.toHaveProperty('cardTotals');
+            });
         });
 
         describe('createEmpty', () => {
@@ -527,4 +556,93 @@ describe('ReportsFactory', () => {
             });
         });
     });
+
+    describe('YearlyReportFactory', () => {
+        describe('create', () => {
+            it('必須パラメータでYearlyReportエンティティを作成できること', () => {
+                // Act
+                const result = YearlyReportFactory.create('2025-01-01', '2025-12-31', 1200000, 400, 'yearly-user');
+
+                // Assert
+                expect(result.totalAmount).toBe(1200000);
+                expect(result.totalCount).toBe(400);
+                expect(result.lastUpdatedBy).toBe('yearly-user');
+                expect(result.documentIdList).toEqual([]);
+                expect(result.monthlyTotals).toEqual({});
+                expect(result.categoryTotals).toEqual({});
+                expect(result.cardTotals).toEqual({});
+                expect(result.merchantTotals).toEqual({});
+                expect(result.hasReportSent).toBe(false);
+                expect(Timestamp.fromDate).toHaveBeenCalledWith(new Date('2025-01-01'));
+                expect(Timestamp.fromDate).toHaveBeenCalledWith(new Date('2025-12-31'));
+            });
+
+            it('全パラメータでYearlyReportエンティティを作成できること', () => {
+                // Arrange
+                const monthlyTotals = { '01': { amount: 1000, count: 1 } };
+                const merchantTotals = { 'イオン': { amount: 1000, count: 1 } };
+
+                // Act
+                const result = YearlyReportFactory.create(
+                    '2025-01-01',
+                    '2025-12-31',
+                    1000,
+                    1,
+                    'yearly-admin',
+                    ['y1'],
+                    monthlyTotals,
+                    { groceries: { amount: 1000, count: 1 } },
+                    { '楽天カード': { amount: 1000, count: 1 } },
+                    merchantTotals,
+                    true
+                );
+
+                // Assert
+                expect(result.documentIdList).toEqual(['y1']);
+                expect(result.monthlyTotals).toBe(monthlyTotals);
+                expect(result.merchantTotals).toBe(merchantTotals);
+                expect(result.hasReportSent).toBe(true);
+            });
+        });
+
+        describe('reconstruct', () => {
+            it('小計と送信済みフラグが未定義の場合は空の小計とfalseが設定されること', () => {
+                // Arrange
+                const startDate = new Date('2025-01-01T00:00:00.000Z');
+                const endDate = new Date('2025-12-31T00:00:00.000Z');
+                const data = {
+                    totalAmount: 5000,
+                    totalCount: 2,
+                    lastUpdatedBy: 'yearly-restore',
+                    documentIdList: ['yr1', 'yr2'],
+                    yearStartDate: { toDate: () => startDate } as Timestamp,
+                    yearEndDate: { toDate: () => endDate } as Timestamp,
+                };
+
+                // Act
+                const result = YearlyReportFactory.reconstruct(data);
+
+                // Assert
+                expect(result.totalAmount).toBe(data.totalAmount);
+                expect(result.yearStartDate).toBe(data.yearStartDate);
+                expect(result.yearEndDate).toBe(data.yearEndDate);
+                expect(result.monthlyTotals).toEqual({});
+                expect(result.merchantTotals).toEqual({});
+                expect(result.hasReportSent).toBe(false);
+            });
+        });
+
+        describe('createEmpty', () => {
+            it('空のYearlyReportエンティティを作成できること', () => {
+                // Act
+                const result = YearlyReportFactory.createEmpty('2025-01-01', '2025-12-31', 'yearly-empty');
+
+                // Assert
+                expect(result.totalAmount).toBe(0);
+                expect(result.totalCount).toBe(0);
+                expect(result.lastUpdatedBy).toBe('yearly-empty');
+                expect(result.hasReportSent).toBe(false);
+            });
+        });
+    });
 });
@@ -130,6 +130,53 @@ describe('Environment', () => {
             );
         });
 
+        it('受信Webhookのみの場合はIMAP設定の代わりにWebhookのシークレットを必須とすること', () => {
+            process.env.EMAIL_SOURCE = 'webhook';
+            delete process.env.IMAP_USER;
+            delete process.env.IMAP_PASSWORD;
+            delete process.env.INBOUND_EMAIL_WEBHOOK_SECRET;
+
+            jest.resetModules();
+            const { Environment: ReloadedEnvironment } = require('../../../../../shared/infrastructure/config/Environment');
+            const { logger: reloadedLogger } = require('../../../../../shared/infrastructure/logging/Logger');
+
+            expect(ReloadedEnvironment.isImapSourceEnabled()).toBe(false);
+            expect(ReloadedEnvironment.isWebhookSourceEnabled()).toBe(true);
+            expect(ReloadedEnvironment.validate()).toBe(false);
+            expect(reloadedLogger.warn).toHaveBeenCalledWith(
+                '必須環境変数が設定されていません: INBOUND_EMAIL_WEBHOOK_SECRET',
+                'Environment'
+            );
+        });
+
+        it('IMAP_ACCOUNTSでアカウントを設定する場合はIMAP_USER・IMAP_PASSWORDを必須としないこと', () => {
+            process.env.IMAP_ACCOUNTS = '[{"id":"father","user":"father@example.com","passwordEnv":"IMAP_PASSWORD_FATHER"}]';
+            delete process.env.IMAP_USER;
+            delete process.env.IMAP_PASSWORD;
+
+            jest.resetModules();
+            const { Environment: ReloadedEnvironment } = require('../../../../../shared/infrastructure/config/Environment');
+
+            expect(ReloadedEnvironment.validate()).toBe(true);
+        });
+
+        it('OAuth2で認証する場合はIMAP_PASSWORDの代わりにOAuth2クライアントの設定を必須とすること', () => {
+            process.env.IMAP_OAUTH_REFRESH_TOKEN = 'refresh-token';
+            delete process.env.IMAP_PASSWORD;
+            delete process.env.IMAP_OAUTH_CLIENT_SECRET;
+            process.env.IMAP_OAUTH_CLIENT_ID = 'client-id';
+
+            jest.resetModules();
+            const { Environment: ReloadedEnvironment } = require('../../../../../shared/infrastructure/config/Environment');
+            const { logger: reloadedLogger } = require('../../../../../shared/infrastructure/logging/Logger');
+
+            expect(ReloadedEnvironment.validate()).toBe(false);
+            expect(reloadedLogger.warn).toHaveBeenCalledWith(
+                '必須環境変数が設定されていません: IMAP_OAUTH_CLIENT_SECRET',
+                'Environment'
+            );
+        });
+
         it('ローカル環境でFirebaseキーファイルが存在しない場合は警告を出すこと', () => {
             // ローカル環境に設定
             delete process.env.FUNCTIONS_EMULATOR;
@@ -4,6 +4,8 @@ import { ReportThresholds } from '../../../../../../shared/domain/entities/Repor
 import { FirestoreService } from '../../../../../../shared/infrastructure/database/FirestoreService';
 import { Environment } from '../../../../../../shared/infrastructure/config/Environment';
 import { AppError, ErrorType } from '../../../../../../shared/errors/AppError';
+import { IssuerTemplate, IssuerTemplateInput } from '../../../../../../shared/domain/entities/IssuerTemplate';
+import { DEFAULT_CATEGORIES } from '../../../../../../shared/domain/entities/Category';
 
 // モック
 jest.mock('../../../../../../shared/infrastructure/database/FirestoreService');
@@ -45,6 +47,7 @@ describe('FirestoreConfigRepository', () => {
             initialize: jest.fn().mockResolvedValue({} as Firestore),
             getDocument: jest.fn(),
             setCloudFunctions: jest.fn(),
+            saveDocument: jest.fn().mockResolvedValue(undefined),
         } as any;
 
         (FirestoreService.getInstance as jest.Mock).mockReturnValue(mockFirestoreService);
@@ -161,6 +164,508 @@ describe('FirestoreConfigRepository', () => {
         });
     });
 
+    describe('カード会社テンプレート', () => {
+        const templateInput: IssuerTemplateInput = {
+            cardCompany: 'MUFG',
+            displayName: '三菱UFJ銀行',
+            mailboxName: '三菱東京UFJ銀行',
+            senders: ['mufg.jp'],
+            subjectKeywords: ['利用'],
+            bodyKeywords: ['デビット'],
+            fields: {
+                datetime: '【ご利用日時\\(日本時間\\)】\\s*([\\d年月日 :]+)',
+                amount: '【ご利用金額】\\s*([\\d,]+)円',
+                whereToUse: '【ご利用先】\\s*([^\\n]+)',
+            },
+            dateFormat: 'yyyy年M月d日 HH:mm:ss',
+            amountLocale: 'ja-JP',
+            enabled: true,
+        };
+
+        const savedTemplate = (version: number, enabled = true): IssuerTemplate => ({
+            ...templateInput,
+            version,
+            enabled,
+            createdAt: '2025-01-01T00:00:00.000Z',
+        });
+
+        describe('getIssuerTemplates', () => {
+            it('正常系: 有効なバージョンのテンプレートのみ取得できること', async () => {
+                mockFirestoreService.getDocument.mockResolvedValue({
+                    issuers: {
+                        MUFG: { activeVersion: 2, versions: [savedTemplate(1), savedTemplate(2)] },
+                        SMBC: {
+                            activeVersion: 1,
+                            versions: [{ ...savedTemplate(1, false), cardCompany: 'SMBC' }],
+                        },
+                    },
+                });
+
+                const result = await repository.getIssuerTemplates();
+
+                expect(result).toEqual([savedTemplate(2)]);
+                expect(mockFirestoreService.getDocument).toHaveBeenCalledWith('config/issuer_templates');
+            });
+
+            it('正常系: ドキュメントが存在しない場合は空配列を返すこと', async () => {
+                mockFirestoreService.getDocument.mockResolvedValue(null);
+
+                const result = await repository.getIssuerTemplates();
+
+                expect(result).toEqual([]);
+            });
+        });
+
+        describe('saveIssuerTemplate', () => {
+            it('正常系: 新しいバージョンとして保存され、有効化されること', async () => {
+                mockFirestoreService.getDocument.mockResolvedValue({
+                    issuers: { MUFG: { activeVersion: 1, versions: [savedTemplate(1)] } },
+                });
+
+                const result = await repository.saveIssuerTemplate(templateInput);
+
+                expect(result.version).toBe(2);
+                expect(mockFirestoreService.saveDocument).toHaveBeenCalledWith(
+                    'config/issuer_templates',
+                    {
+                        issuers: {
+                            MUFG: {
+                                activeVersion: 2,
+                                versions: [savedTemplate(1), expect.objectContaining({ version: 2 })],
+                            },
+                        },
+                    }
+                );
+            });
+
+            it('異常系: 正規表現が不正な場合はバリデーションエラーになること', async () => {
+                const invalid = { ...templateInput, fields: { ...templateInput.fields, amount: '([' } };
+
+                await expect(repository.saveIssuerTemplate(invalid)).rejects.toMatchObject({
+                    type: ErrorType.VALIDATION,
+                });
+                expect(mockFirestoreService.saveDocument).not.toHaveBeenCalled();
+            });
+
+            it('異常系: 日時書式に年月日が含まれない場合はバリデーションエラーになること', async () => {
+                const invalid = { ...templateInput, dateFormat: 'HH:mm' };
+
+                await expect(repository.saveIssuerTemplate(invalid)).rejects.toMatchObject({
+                    type: ErrorType.VALIDATION,
+                });
+            });
+        });
+
+        describe('rollbackIssuerTemplate', () => {
+            beforeEach(() => {
+                mockFirestoreService.getDocument.mockResolvedValue({
+                    issuers: {
+                        MUFG: { activeVersion: 3, versions: [savedTemplate(1), savedTemplate(2), savedTemplate(3)] },
+                    },
+                });
+            });
+
+            it('正常系: バージョン省略時は直前のバージョンに戻ること', async () => {
+                const result = await repository.rollbackIssuerTemplate('MUFG');
+
+                expect(result.version).toBe(2);
+                expect(mockFirestoreService.saveDocument).toHaveBeenCalledWith(
+                    'config/issuer_templates',
+                    expect.objectContaining({
+                        issuers: { MUFG: expect.objectContaining({ activeVersion: 2 }) },
+                    })
+                );
+            });
+
+            it('正常系: 指定したバージョンに戻ること', async () => {
+                const result = await repository.rollbackIssuerTemplate('MUFG', 1);
+
+                expect(result.version).toBe(1);
+            });
+
+            it('異常系: 存在しないバージョンの場合はNOT_FOUNDになること', async () => {
+                await expect(repository.rollbackIssuerTemplate('MUFG', 9)).rejects.toMatchObject({
+                    type: ErrorType.NOT_FOUND,
+                });
+                expect(mockFirestoreService.saveDocument).not.toHaveBeenCalled();
+            });
+
+            it('異常系: テンプレートが存在しないカード会社の場合はNOT_FOUNDになること', async () => {
+                await expect(repository.rollbackIssuerTemplate('UNKNOWN')).rejects.toMatchObject({
+                    type: ErrorType.NOT_FOUND,
+                });
+            });
+        });
+    });
+
+    describe('利用先の別名', () => {
+        describe('getMerchantAliases', () => {
+            it('正常系: 別名の一覧を取得し、キャッシュが有効な間は再取得しないこと', async () => {
+                const aliases = [{ alias: 'AMAZON.CO.JP', canonical: 'Amazon' }];
+                mockFirestoreService.getDocument.mockResolvedValue({ aliases });
+
+                expect(await repository.getMerchantAliases()).toEqual(aliases);
+                expect(await repository.getMerchantAliases()).toEqual(aliases);
+
+                expect(mockFirestoreService.getDocument).toHaveBeenCalledTimes(1);
+                expect(mockFirestoreService.getDocument).toHaveBeenCalledWith('config/merchant_aliases');
+            });
+
+            it('正常系: ドキュメントが存在しない場合は空配列を返すこと', async () => {
+                mockFirestoreService.getDocument.mockResolvedValue(null);
+
+                expect(await repository.getMerchantAliases()).toEqual([]);
+            });
+        });
+
+        describe('saveMerchantAliases', () => {
+            it('正常系: 前後の空白を除いて保存し、キャッシュをクリアすること', async () => {
+                mockFirestoreService.getDocument.mockResolvedValue({ aliases: [] });
+                await repository.getMerchantAliases();
+
+                const result = await repository.saveMerchantAliases([
+                    { alias: ' AMAZON.CO.JP ', canonical: 'Amazon ' },
+                    { alias: 'セブン-イレブン', canonical: 'セブン-イレブン', match: 'prefix' },
+                ]);
+
+                const expected = [
+                    { alias: 'AMAZON.CO.JP', canonical: 'Amazon' },
+                    { alias: 'セブン-イレブン', canonical: 'セブン-イレブン', match: 'prefix' },
+                ];
+                expect(result).toEqual(expected);
+                expect(mockFirestoreService.saveDocument).toHaveBeenCalledWith(
+                    'config/merchant_aliases',
+                    { aliases: expected }
+                );
+
+                await repository.getMerchantAliases();
+                expect(mockFirestoreService.getDocument).toHaveBeenCalledTimes(2);
+            });
+
+            it.each([
+                ['配列でない場合', { alias: 'AMAZON', canonical: 'Amazon' }],
+                ['統一後の利用先がない場合', [{ alias: 'AMAZON', canonical: ' ' }]],
+                ['一致方法が不正な場合', [{ alias: 'AMAZON', canonical: 'Amazon', match: 'suffix' }]],
+            ])('異常系: %sはバリデーションエラーになること', async (_, aliases) => {
+                await expect(repository.saveMerchantAliases(aliases as any)).rejects.toMatchObject({
+                    type: ErrorType.VALIDATION,
+                });
+                expect(mockFirestoreService.saveDocument).not.toHaveBeenCalled();
+            });
+        });
+    });
+
+    describe('支出カテゴリ', () => {
+        const categories = [
+            { id: 'groceries', name: '食料品' },
+            { id: 'uncategorized', name: '未分類' },
+        ];
+
+        describe('getCategoryConfig', () => {
+            it('正常系: ドキュメントが存在しない場合は既定のカテゴリとルールなしを返すこと', async () => {
+                mockFirestoreService.getDocument.mockResolvedValue(null);
+
+                const result = await repository.getCategoryConfig();
+
+                expect(result).toEqual({ categories: DEFAULT_CATEGORIES, rules: [] });
+                expect(mockFirestoreService.getDocument).toHaveBeenCalledWith('config/categories');
+            });
+
+            it('正常系: 未分類のカテゴリが含まれていない場合は追加し、キャッシュが有効な間は再取得しないこと', async () => {
+                mockFirestoreService.getDocument.mockResolvedValue({
+                    categories: [{ id: 'groceries', name: '食料品' }],
+                });
+
+                expect(await repository.getCategoryConfig()).toEqual({ categories, rules: [] });
+                await repository.getCategoryConfig();
+
+                expect(mockFirestoreService.getDocument).toHaveBeenCalledTimes(1);
+            });
+        });
+
+        describe('saveCategories', () => {
+            it('正常系: 前後の空白を除き、未分類のカテゴリを含めて保存すること', async () => {
+                mockFirestoreService.getDocument.mockResolvedValue(null);
+
+                const result = await repository.saveCategories([{ id: ' groceries ', name: '食料品 ' }]);
+
+                expect(result).toEqual({ categories, rules: [] });
+                expect(mockFirestoreService.saveDocument).toHaveBeenCalledWith('config/categories', result);
+            });
+
+            it('異常系: ルールで使用しているカテゴリを削除する場合はバリデーションエラーになること', async () => {
+                mockFirestoreService.getDocument.mockResolvedValue({
+                    categories,
+                    rules: [{ category: 'groceries', merchantPattern: 'イオン' }],
+                });
+
+                await expect(repository.saveCategories([{ id: 'dining', name: '外食' }])).rejects.toMatchObject({
+                    type: ErrorType.VALIDATION,
+                });
+                expect(mockFirestoreService.saveDocument).not.toHaveBeenCalled();
+            });
+
+            it.each([
+                ['配列でない場合', { id: 'groceries', name: '食料品' }],
+                ['idが不正な場合', [{ id: '食料品', name: '食料品' }]],
+                ['idが重複している場合', [{ id: 'groceries', name: '食料品' }, { id: 'groceries', name: 'スーパー' }]],
+            ])('異常系: %sはバリデーションエラーになること', async (_, entries) => {
+                await expect(repository.saveCategories(entries as any)).rejects.toMatchObject({
+                    type: ErrorType.VALIDATION,
+                });
+                expect(mockFirestoreService.saveDocument).not.toHaveBeenCalled();
+            });
+        });
+
+        describe('saveCategoryRules', () => {
+            beforeEach(() => {
+                mockFirestoreService.getDocument.mockResolvedValue({ categories, rules: [] });
+            });
+
+            it('正常系: 指定された条件のみを保存すること', async () => {
+                const result = await repository.saveCategoryRules([
+                    { category: 'groceries', merchantPattern: 'イオン|ライフ', cardName: undefined },
+                    { category: 'groceries', cardName: ' 楽天カード ', minAmount: 0, maxAmount: 3000 },
+                ]);
+
+                const expected = {
+                    categories,
+                    rules: [
+                        { category: 'groceries', merchantPattern: 'イオン|ライフ' },
+                        { category: 'groceries', cardName: '楽天カード', minAmount: 0, maxAmount: 3000 },
+                    ],
+                };
+                expect(result).toEqual(expected);
+                expect(mockFirestoreService.saveDocument).toHaveBeenCalledWith('config/categories', expected);
+            });
+
+            it.each([
+                ['登録されていないカテゴリの場合', [{ category: 'dining', merchantPattern: 'すき家' }]],
+                ['条件がない場合', [{ category: 'groceries' }]],
+                ['正規表現が不正な場合', [{ category: 'groceries', merchantPattern: '(イオン' }]],
+                ['金額の下限が上限より大きい場合', [{ category: 'groceries', minAmount: 5000, maxAmount: 1000 }]],
+            ])('異常系: %sはバリデーションエラーになること', async (_, rules) => {
+                await expect(repository.saveCategoryRules(rules as any)).rejects.toMatchObject({
+                    type: ErrorType.VALIDATION,
+                });
+                expect(mockFirestoreService.saveDocument).not.toHaveBeenCalled();
+            });
+        });
+    });
+
+    describe('予算', () => {
+        const categories = [
+            { id: 'groceries', name: '食料品' },
+            { id: 'dining', name: '外食' },
+            { id: 'uncategorized', name: '未分類' },
+        ];
+        const budget = {
+            id: 'budget-1',
+            name: '食料品',
+            target: 'category',
+            key: 'groceries',
+            limit: 30000,
+            alertPercentages: [50, 80, 100],
+        };
+
+        // 設定のパスごとにドキュメントを返す
+        const mockConfigDocuments = (documents: Record<string, unknown>) => {
+            mockFirestoreService.getDocument.mockImplementation(async (path: string) => documents[path] ?? null);
+        };
+
+        beforeEach(() => {
+            mockConfigDocuments({
+                'config/categories': { categories, rules: [] },
+                'config/budgets': { budgets: [budget] },
+            });
+        });
+
+        describe('getBudgets', () => {
+            it('正常系: ドキュメントが存在しない場合は空配列を返すこと', async () => {
+                mockConfigDocuments({});
+
+                expect(await repository.getBudgets()).toEqual([]);
+                expect(mockFirestoreService.getDocument).toHaveBeenCalledWith('config/budgets');
+            });
+
+            it('正常系: キャッシュが有効な間は再取得しないこと', async () => {
+                expect(await repository.getBudgets()).toEqual([budget]);
+                await repository.getBudgets();
+
+                expect(mockFirestoreService.getDocument).toHaveBeenCalledTimes(1);
+            });
+        });
+
+        describe('saveBudget', () => {
+            it('正常系: IDを採番し、表示名と通知する割合の省略時は既定値で登録すること', async () => {
+                const result = await repository.saveBudget({ target: 'category', key: ' dining ', limit: 20000 });
+
+                expect(result).toEqual({
+                    id: expect.any(String),
+                    name: '外食',
+                    target: 'category',
+                    key: 'dining',
+                    limit: 20000,
+                    alertPercentages: [50, 80, 100],
+                });
+                expect(mockFirestoreService.saveDocument).toHaveBeenCalledWith('config/budgets', {
+                    budgets: [budget, result],
+                });
+            });
+
+            it('正常系: 指定されたIDの予算を置き換え、通知する割合は重複を除いて昇順にすること', async () => {
+                const result = await repository.saveBudget(
+                    { name: 'メインカード', target: 'card', key: 'テストカード', limit: 100000, alertPercentages: [90, 50, 90] },
+                    'budget-1'
+                );
+
+                expect(result).toEqual({
+                    id: 'budget-1',
+                    name: 'メインカード',
+                    target: 'card',
+                    key: 'テストカード',
+                    limit: 100000,
+                    alertPercentages: [50, 90],
+                });
+                expect(mockFirestoreService.saveDocument).toHaveBeenCalledWith('config/budgets', { budgets: [result] });
+            });
+
+            it('異常系: 存在しないIDを指定した場合はNOT_FOUNDエラーになること', async () => {
+                await expect(repository.saveBudget({ target: 'card', key: 'テストカード', limit: 1000 }, 'unknown'))
+                    .rejects.toMatchObject({ type: ErrorType.NOT_FOUND });
+                expect(mockFirestoreService.saveDocument).not.toHaveBeenCalled();
+            });
+
+            it.each([
+                ['targetが不正な場合', { target: 'merchant', key: 'groceries', limit: 1000 }],
+                ['keyが空の場合', { target: 'card', key: ' ', limit: 1000 }],
+                ['未登録のカテゴリを指定した場合', { target: 'category', key: 'unknown', limit: 1000 }],
+                ['limitが0以下の場合', { target: 'category', key: 'dining', limit: 0 }],
+                ['通知する割合が空の場合', { target: 'category', key: 'dining', limit: 1000, alertPercentages: [] }],
+                ['通知する割合が0以下の場合', { target: 'category', key: 'dining', limit: 1000, alertPercentages: [0] }],
+                ['同じ対象の予算がある場合', { target: 'category', key: 'groceries', limit: 1000 }],
+            ])('異常系: %sはバリデーションエラーになること', async (_, input) => {
+                await expect(repository.saveBudget(input as any)).rejects.toMatchObject({
+                    type: ErrorType.VALIDATION,
+                });
+                expect(mockFirestoreService.saveDocument).not.toHaveBeenCalled();
+            });
+        });
+
+        describe('deleteBudget', () => {
+            it('正常系: 指定されたIDの予算を削除すること', async () => {
+                await repository.deleteBudget('budget-1');
+
+                expect(mockFirestoreService.saveDocument).toHaveBeenCalledWith('config/budgets', { budgets: [] });
+            });
+
+            it('異常系: 存在しないIDを指定した場合はNOT_FOUNDエラーになること', async () => {
+                await expect(repository.deleteBudget('unknown')).rejects.toMatchObject({ type: ErrorType.NOT_FOUND });
+                expect(mockFirestoreService.saveDocument).not.toHaveBeenCalled();
+            });
+        });
+
+        it('異常系: 予算の対象のカテゴリは削除できないこと', async () => {
+            await expect(repository.saveCategories([{ id: 'dining', name: '外食' }])).rejects.toMatchObject({
+                type: ErrorType.VALIDATION,
+            });
+            expect(mockFirestoreService.saveDocument).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('カード', () => {
+        const card = {
+            cardName: '楽天カード',
+            displayName: '楽天',
+            issuer: 'Rakuten',
+            closingDay: 15,
+            paymentDay: 10,
+            paymentMonthOffset: 1,
+            reminderDaysBefore: 3,
+        };
+
+        beforeEach(() => {
+            mockFirestoreService.getDocument.mockImplementation(async (path: string) =>
+                path === 'config/cards' ? { cards: [card] } : null
+            );
+        });
+
+        describe('getCards', () => {
+            it('正常系: ドキュメントが存在しない場合は空配列を返すこと', async () => {
+                mockFirestoreService.getDocument.mockResolvedValue(null);
+
+                expect(await repository.getCards()).toEqual([]);
+                expect(mockFirestoreService.getDocument).toHaveBeenCalledWith('config/cards');
+            });
+
+            it('正常系: キャッシュが有効な間は再取得しないこと', async () => {
+                expect(await repository.getCards()).toEqual([card]);
+                await repository.getCards();
+
+                expect(mockFirestoreService.getDocument).toHaveBeenCalledTimes(1);
+            });
+        });
+
+        describe('saveCard', () => {
+            it('正常系: 表示名・支払月・通知日の省略時は既定値で登録すること', async () => {
+                const result = await repository.saveCard({
+                    cardName: ' SMBC ',
+                    issuer: 'SMBC',
+                    closingDay: 31,
+                    paymentDay: 26,
+                });
+
+                expect(result).toEqual({
+                    cardName: 'SMBC',
+                    displayName: 'SMBC',
+                    issuer: 'SMBC',
+                    closingDay: 31,
+                    paymentDay: 26,
+                    paymentMonthOffset: 1,
+                    reminderDaysBefore: 3,
+                });
+                expect(mockFirestoreService.saveDocument).toHaveBeenCalledWith('config/cards', {
+                    cards: [card, result],
+                });
+            });
+
+            it('正常系: 同じカード名のカードは置き換えること', async () => {
+                const result = await repository.saveCard({ ...card, paymentDay: 27, reminderDaysBefore: 0 });
+
+                expect(result).toEqual({ ...card, paymentDay: 27, reminderDaysBefore: 0 });
+                expect(mockFirestoreService.saveDocument).toHaveBeenCalledWith('config/cards', { cards: [result] });
+            });
+
+            it.each([
+                ['カード名が空の場合', { ...card, cardName: ' ' }],
+                ['issuerがない場合', { ...card, issuer: undefined }],
+                ['締め日が範囲外の場合', { ...card, closingDay: 0 }],
+                ['支払日が整数でない場合', { ...card, paymentDay: 10.5 }],
+                ['支払月が範囲外の場合', { ...card, paymentMonthOffset: 4 }],
+                ['当月払いで支払日が締め日以前の場合', { ...card, paymentMonthOffset: 0 }],
+                ['通知日が負の場合', { ...card, reminderDaysBefore: -1 }],
+            ])('異常系: %sはバリデーションエラーになること', async (_, input) => {
+                await expect(repository.saveCard(input as any)).rejects.toMatchObject({
+                    type: ErrorType.VALIDATION,
+                });
+                expect(mockFirestoreService.saveDocument).not.toHaveBeenCalled();
+            });
+        });
+
+        describe('deleteCard', () => {
+            it('正常系: 指定されたカード名の登録を削除すること', async () => {
+                await repository.deleteCard('楽天カード');
+
+                expect(mockFirestoreService.saveDocument).toHaveBeenCalledWith('config/cards', { cards: [] });
+            });
+
+            it('異常系: 登録されていないカード名を指定した場合はNOT_FOUNDエラーになること', async () => {
+                await expect(repository.deleteCard('未登録カード')).rejects.toMatchObject({ type: ErrorType.NOT_FOUND });
+                expect(mockFirestoreService.saveDocument).not.toHaveBeenCalled();
+            });
+        });
+    });
+
     describe('initialize', () => {
         it('Cloud Functions環境では初期化できること', async () => {
             // Arrange
@@ -1,6 +1,6 @@
 import { Firestore } from 'firebase-admin/firestore';
 import { FirestoreReportRepository } from '../../../../../../shared/infrastructure/database/repositories/FirestoreReportRepository';
-import { DailyReport, WeeklyReport, MonthlyReport } from '../../../../../../shared/domain/entities/Reports';
+import { DailyReport, WeeklyReport, MonthlyReport, YearlyReport } from '../../../../../../shared/domain/entities/Reports';
 import { FirestoreService } from '../../../../../../shared/infrastructure/database/FirestoreService';
 import { Environment } from '../../../../../../shared/infrastructure/config/Environment';
 import { FirestorePathUtil } from '../../../../../../shared/utils/FirestorePathUtil';
@@ -36,7 +36,8 @@ describe('FirestoreReportRepository', () => {
         path: 'details/2024/06/term3/15/1718445000000',
         weeklyReportPath: 'reports/weekly/2024-06/term3',
         dailyReportPath: 'reports/daily/2024-06/15',
-        monthlyReportPath: 'reports/monthly/2024/06'
+        monthlyReportPath: 'reports/monthly/2024/06',
+        yearlyReportPath: 'reports/yearly/2024/summary'
     };
 
     const sampleDailyReport: DailyReport = {
@@ -102,6 +103,7 @@ describe('FirestoreReportRepository', () => {
         (FirestorePathUtil.getDailyReportPath as jest.Mock).mockReturnValue(testPathInfo.dailyReportPath);
         (FirestorePathUtil.getWeeklyReportPath as jest.Mock).mockReturnValue(testPathInfo.weeklyReportPath);
         (FirestorePathUtil.getMonthlyReportPath as jest.Mock).mockReturnValue(testPathInfo.monthlyReportPath);
+        (FirestorePathUtil.getYearlyReportPath as jest.Mock).mockReturnValue(testPathInfo.yearlyReportPath);
 
         repository = new FirestoreReportRepository();
     });
@@ -302,4 +304,53 @@ describe('FirestoreReportRepository', () => {
             expect(result).toBe(testPathInfo.monthlyReportPath);
         });
     });
+
+    describe('年次レポート', () => {
+        const sampleYearlyReport: YearlyReport = {
+            totalAmount: 1200000,
+            totalCount: 400,
+            lastUpdated: testFieldValue,
+            lastUpdatedBy: 'system',
+            documentIdList: [],
+            yearStartDate: testTimestamp,
+            yearEndDate: testTimestamp,
+            monthlyTotals: { '06': { amount: 100000, count: 30 } },
+            categoryTotals: {},
+            cardTotals: {},
+            merchantTotals: {},
+            hasReportSent: false
+        };
+
+        test('正常系: 年次レポートが正常に取得されること', async () => {
+            mockFirestoreService.getDocument.mockResolvedValueOnce(sampleYearlyReport);
+
+            const result = await repository.getYearlyReport('2024');
+
+            expect(FirestorePathUtil.getYearlyReportPath).toHaveBeenCalledWith('2024');
+            expect(mockFirestoreService.getDocument).toHaveBeenCalledWith(testPathInfo.yearlyReportPath);
+            expect(result).toEqual(sampleYearlyReport);
+        });
+
+        test('正常系: 年次レポートが正常に保存されること', async () => {
+            const result = await repository.saveYearlyReport(sampleYearlyReport, '2024');
+
+            expect(mockFirestoreService.saveDocument).toHaveBeenCalledWith(
+                testPathInfo.yearlyReportPath,
+                sampleYearlyReport
+            );
+            expect(result).toBe(testPathInfo.yearlyReportPath);
+        });
+
+        test('正常系: 年次レポートが正常に更新されること', async () => {
+            const partialReport = { hasReportSent: true };
+
+            const result = await repository.updateYearlyReport(partialReport, '2024');
+
+            expect(mockFirestoreService.updateDocument).toHaveBeenCalledWith(
+                testPathInfo.yearlyReportPath,
+                partialReport
+            );
+            expect(result).toBe(testPathInfo.yearlyReportPath);
+        });
+    });
 });
@@ -0,0 +1,101 @@
+import { Firestore } from 'firebase-admin/firestore';
+import { FirestoreSubscriptionRepository } from '../../../../../../shared/infrastructure/database/repositories/FirestoreSubscriptionRepository';
+import { FirestoreService } from '../../../../../../shared/infrastructure/database/FirestoreService';
+import { Environment } from '../../../../../../shared/infrastructure/config/Environment';
+import { SubscriptionList } from '../../../../../../shared/domain/entities/Subscription';
+
+// モック
+jest.mock('../../../../../../shared/infrastructure/database/FirestoreService');
+jest.mock('../../../../../../shared/infrastructure/config/Environment');
+
+// Loggerをモック化
+jest.mock('../../../../../../shared/infrastructure/logging/Logger', () => ({
+    logger: {
+        info: jest.fn(),
+        debug: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+    }
+}));
+
+describe('FirestoreSubscriptionRepository', () => {
+    let repository: FirestoreSubscriptionRepository;
+    let mockFirestoreService: jest.Mocked<FirestoreService>;
+
+    const list: SubscriptionList = {
+        subscriptions: [{
+            id: '楽天カード:NETFLIX',
+            merchant: 'NETFLIX',
+            cardName: '楽天カード',
+            interval: 'monthly',
+            amount: 1590,
+            chargeCount: 4,
+            lastChargedAt: '2025-06-10',
+            nextChargeDate: '2025-07-10',
+            status: 'active',
+        }],
+        analyzedAt: '2025-06-11T00:00:00.000Z',
+    };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+
+        // FirestoreServiceのモック
+        mockFirestoreService = {
+            getInstance: jest.fn(),
+            initialize: jest.fn().mockResolvedValue({} as Firestore),
+            getDocument: jest.fn(),
+            setCloudFunctions: jest.fn(),
+            saveDocument: jest.fn().mockResolvedValue(undefined),
+        } as any;
+
+        (FirestoreService.getInstance as jest.Mock).mockReturnValue(mockFirestoreService);
+        (Environment.isCloudFunctions as jest.Mock).mockReturnValue(false);
+        (Environment.getFirebaseAdminKeyPath as jest.Mock).mockReturnValue('/path/to/key.json');
+
+        repository = new FirestoreSubscriptionRepository();
+    });
+
+    describe('getSubscriptions', () => {
+        it('reports/subscriptionsから定期的な支払いの一覧を取得できること', async () => {
+            mockFirestoreService.getDocument.mockResolvedValue(list);
+
+            const result = await repository.getSubscriptions();
+
+            expect(result).toEqual(list);
+            expect(mockFirestoreService.initialize).toHaveBeenCalledWith('/path/to/key.json');
+            expect(mockFirestoreService.getDocument).toHaveBeenCalledWith('reports/subscriptions');
+        });
+
+        it('まだ検出していない場合はnullを返すこと', async () => {
+            mockFirestoreService.getDocument.mockResolvedValue(null);
+
+            await expect(repository.getSubscriptions()).resolves.toBeNull();
+        });
+
+        it('一覧が欠けているドキュメントは空の一覧として扱うこと', async () => {
+            mockFirestoreService.getDocument.mockResolvedValue({ analyzedAt: list.analyzedAt });
+
+            const result = await repository.getSubscriptions();
+
+            expect(result).toEqual({ subscriptions: [], analyzedAt: list.analyzedAt });
+        });
+    });
+
+    describe('saveSubscriptions', () => {
+        it('reports/subscriptionsに一覧を保存すること', async () => {
+            await repository.saveSubscriptions(list);
+
+            expect(mockFirestoreService.saveDocument).toHaveBeenCalledWith('reports/subscriptions', list);
+        });
+
+        it('Cloud Functions環境ではサービスアカウントキーなしで初期化すること', async () => {
+            (Environment.isCloudFunctions as jest.Mock).mockReturnValue(true);
+
+            await repository.saveSubscriptions(list);
+
+            expect(mockFirestoreService.setCloudFunctions).toHaveBeenCalledWith(true);
+            expect(mockFirestoreService.initialize).toHaveBeenCalledWith();
+        });
+    });
+});
@@ -5,6 +5,9 @@ import {
     WeeklyReportNotificationDTO,
     DailyReportNotificationDTO,
     MonthlyReportNotificationDTO,
+    YearlyReportNotificationDTO,
+    BillingReminderNotificationDTO,
+    SubscriptionAlertNotificationDTO,
 } from '../../../../../shared/domain/dto/ReportNotificationDTOs';
 import { logger } from '../../../../../shared/infrastructure/logging/Logger';
 import { AppError, ErrorType } from '../../../../../shared/errors/AppError';
@@ -166,6 +169,67 @@ describe('DiscordNotifier', () => {
             expect(postData.embeds[0].description).toContain('1,000円');
         });
 
+        it('外貨建ての利用の場合、現地通貨額と換算レートを表示すること', async () => {
+            const notifier = createDiscordNotifier();
+            (mockedAxios.post as jest.Mock).mockResolvedValueOnce({ status: 204 });
+
+            const cardUsageData: CardUsageNotificationDTO = {
+                card_name: 'テストカード',
+                where_to_use: 'AMAZON.COM',
+                amount: 1834,
+                datetime_of_use: new Date('2023-01-01T10:00:00').toISOString(),
+                original_currency: 'USD',
+                original_amount: 12.34,
+                exchange_rate: 148.62,
+            };
+
+            await notifier.notifyCardUsage(cardUsageData);
+
+            const postData = (mockedAxios.post as jest.Mock).mock.calls[0][1] as any;
+            expect(postData.embeds[0].description).toContain('1,834円');
+            expect(postData.embeds[0].fields).toContainEqual({
+                name: '現地通貨額',
+                value: '12.34 USD（1 USD = 148.62円）',
+                inline: false,
+            });
+        });
+
+        it('円建ての利用の場合、現地通貨額を表示しないこと', async () => {
+            const notifier = createDiscordNotifier();
+            (mockedAxios.post as jest.Mock).mockResolvedValueOnce({ status: 204 });
+
+            await notifier.notifyCardUsage({
+                card_name: 'テストカード',
+                where_to_use: 'テスト店舗',
+                amount: 1000,
+                datetime_of_use: new Date('2023-01-01T10:00:00').toISOString(),
+            });
+
+            const postData = (mockedAxios.post as jest.Mock).mock.calls[0][1] as any;
+            expect(postData.embeds[0].fields.map((field: any) => field.name)).not.toContain('現地通貨額');
+        });
+
+        it('取消・返金の場合は取消として通知すること', async () => {
+            const notifier = createDiscordNotifier();
+            (mockedAxios.post as jest.Mock).mockResolvedValueOnce({ status: 204 });
+
+            const cardUsageData: CardUsageNotificationDTO = {
+                card_name: 'テストカード',
+                where_to_use: 'テスト店舗',
+                amount: -1000,
+                datetime_of_use: new Date('2023-01-01T10:00:00').toISOString(),
+                transaction_type: 'refund',
+            };
+
+            const result = await notifier.notifyCardUsage(cardUsageData);
+
+            expect(result).toBe(true);
+            const postData = (mockedAxios.post as jest.Mock).mock.calls[0][1] as any;
+            expect(postData.embeds[0].title).toBe('取消・返金情報');
+            expect(postData.embeds[0].description).toContain('-1,000円');
+            expect(postData.embeds[0].description).toContain('ご利用が取り消されました');
+        });
+
         it('例外発生時にエラー処理されること', async () => {
             const notifier = createDiscordNotifier();
 
@@ -308,6 +372,29 @@ describe('DiscordNotifier', () => {
             expect(postData.embeds[0].color).toBe(15158332);
         });
 
+        it('月末の見込みがある場合、見込みの金額と幅を表示すること', async () => {
+            const notifier = createDiscordNotifier();
+            (mockedAxios.post as jest.Mock).mockResolvedValueOnce({ status: 204 });
+
+            const reportData: WeeklyReportNotificationDTO = {
+                title: 'ウィークリーレポート',
+                period: '2023/01/08 - 2023/01/14',
+                totalAmount: 15000,
+                totalCount: 8,
+                alertLevel: 0,
+                forecast: { projectedAmount: 120000, lowerBound: 101000, upperBound: 139000, confidenceLevel: 80 },
+            };
+
+            await notifier.notifyWeeklyReport(reportData);
+
+            const postData = (mockedAxios.post as jest.Mock).mock.calls[0][1] as any;
+            expect(postData.embeds[0].fields).toContainEqual({
+                name: '月末の見込み',
+                value: '約120,000円（101,000〜139,000円、80%）',
+                inline: false,
+            });
+        });
+
         it('例外発生時にエラー処理されること', async () => {
             const notifier = createDiscordNotifier();
             mockedAxios.post.mockRejectedValueOnce(new Error('送信エラー'));
@@ -351,6 +438,56 @@ describe('DiscordNotifier', () => {
             expect(postData.embeds[0].description).toContain('2,000円');
         });
 
+        it('支出カテゴリの上位がある場合、金額と構成比を表示すること', async () => {
+            const notifier = createDiscordNotifier();
+            (mockedAxios.post as jest.Mock).mockResolvedValueOnce({ status: 204 });
+
+            const reportData: DailyReportNotificationDTO = {
+                title: 'デイリーレポート',
+                date: '2023/01/01',
+                totalAmount: 12000,
+                totalCount: 3,
+                topCategories: [
+                    { name: '食料品', amount: 9000, share: 75 },
+                    { name: '外食', amount: 3000, share: 25 },
+                ],
+            };
+
+            await notifier.notifyDailyReport(reportData);
+
+            const postData = (mockedAxios.post as jest.Mock).mock.calls[0][1] as any;
+            expect(postData.embeds[0].fields).toContainEqual({
+                name: 'カテゴリ別（上位）',
+                value: '1. 食料品 9,000円（75%）\n2. 外食 3,000円（25%）',
+                inline: false,
+            });
+        });
+
+        it('月末の見込みがある場合、見込みの金額と幅を補足情報の前に表示すること', async () => {
+            const notifier = createDiscordNotifier();
+            (mockedAxios.post as jest.Mock).mockResolvedValueOnce({ status: 204 });
+
+            const reportData: DailyReportNotificationDTO = {
+                title: 'デイリーレポート',
+                date: '2023/01/20',
+                totalAmount: 3000,
+                totalCount: 2,
+                forecast: { projectedAmount: 85000, lowerBound: 78000, upperBound: 92000, confidenceLevel: 80 },
+                additionalInfo: '当月累計: 60,000円',
+            };
+
+            await notifier.notifyDailyReport(reportData);
+
+            const postData = (mockedAxios.post as jest.Mock).mock.calls[0][1] as any;
+            const names = postData.embeds[0].fields.map((field: any) => field.name);
+            expect(postData.embeds[0].fields).toContainEqual({
+                name: '月末の見込み',
+                value: '約85,000円（78,000〜92,000円、80%）',
+                inline: false,
+            });
+            expect(names.indexOf('月末の見込み')).toBe(names.indexOf('補足情報') - 1);
+        });
+
         it('例外発生時にエラー処理されること', async () => {
             const notifier = createDiscordNotifier();
             mockedAxios.post.mockRejectedValueOnce(new Error('送信エラー'));
@@ -482,6 +619,201 @@ describe('DiscordNotifier', () => {
             expect(result).toBe(false);
             expect(logger.error).toHaveBeenCalled();
         });
+
+        it('予算の利用状況がある場合、残りの金額または超過額を表示すること', async () => {
+            const notifier = createDiscordNotifier();
+            (mockedAxios.post as jest.Mock).mockResolvedValueOnce({ status: 204 });
+
+            const reportData: MonthlyReportNotificationDTO = {
+                title: 'マンスリーレポート',
+                period: '2023/01',
+                totalAmount: 50000,
+                totalCount: 20,
+                alertLevel: 0,
+                budgets: [
+                    { name: '食料品', limit: 30000, spent: 24000, remaining: 6000, usage: 80 },
+                    { name: '外食', limit: 10000, spent: 12500, remaining: -2500, usage: 125 },
+                ],
+            };
+
+            await notifier.notifyMonthlyReport(reportData);
+
+            const postData = (mockedAxios.post as jest.Mock).mock.calls[0][1] as any;
+            expect(postData.embeds[0].fields).toContainEqual({
+                name: '予算',
+                value: '食料品 残り 6,000円 / 30,000円（80%使用）\n外食 2,500円超過 / 10,000円（125%使用）',
+                inline: false,
+            });
+        });
+    });
+
+    describe('notifyYearlyReport', () => {
+        const report: YearlyReportNotificationDTO = {
+            title: '2025年 年間レポート',
+            period: '2025/01/01 〜 2025/12/31',
+            totalAmount: 1260000,
+            totalCount: 480,
+            monthlyAmounts: [{ month: 1, amount: 100000 }, { month: 2, amount: 120000 }],
+            topCategories: [{ name: '食料品', amount: 400000, share: 31.7 }],
+            topMerchants: [{ merchant: 'イオン', amount: 200000, share: 15.9 }],
+            yearOverYear: { previousTotalAmount: 1200000, difference: 60000, changeRate: 5 },
+        };
+
+        it('月次レポートのWebhookに月別の利用額・前年比・上位の一覧を送信できること', async () => {
+            const notifier = createDiscordNotifier();
+            (mockedAxios.post as jest.Mock).mockResolvedValueOnce({ status: 204 });
+
+            const result = await notifier.notifyYearlyReport(report);
+
+            expect(result).toBe(true);
+            const postCall = (mockedAxios.post as jest.Mock).mock.calls[0];
+            expect(postCall[0]).toBe('https://discord.com/api/webhooks/report-monthly');
+            const postData = postCall[1] as any;
+            expect(postData.embeds[0].title).toContain('2025年 年間レポート');
+            expect(postData.embeds[0].description).toBe('# 1,260,000円\n年間利用合計額\n-');
+            expect(postData.embeds[0].fields).toEqual([
+                { name: '期間', value: '2025/01/01 〜 2025/12/31', inline: false },
+                { name: '利用件数', value: '480件', inline: false },
+                { name: '月別', value: '1月 100,000円\n2月 120,000円', inline: false },
+                { name: '前年比', value: '前年 1,200,000円から +60,000円（+5%）', inline: false },
+                { name: 'カテゴリ別（上位）', value: '1. 食料品 400,000円（31.7%）', inline: false },
+                { name: '利用先別（上位）', value: '1. イオン 200,000円（15.9%）', inline: false },
+            ]);
+        });
+
+        it('前年の合計金額が0以下の場合は増減率を表示しないこと', async () => {
+            const notifier = createDiscordNotifier();
+            (mockedAxios.post as jest.Mock).mockResolvedValueOnce({ status: 204 });
+
+            await notifier.notifyYearlyReport({
+                ...report,
+                yearOverYear: { previousTotalAmount: 0, difference: -1000, changeRate: null },
+            });
+
+            const postData = (mockedAxios.post as jest.Mock).mock.calls[0][1] as any;
+            expect(postData.embeds[0].fields).toContainEqual({
+                name: '前年比',
+                value: '前年 0円から -1,000円',
+                inline: false,
+            });
+        });
+
+        it('例外発生時にエラー処理されること', async () => {
+            const notifier = createDiscordNotifier();
+            mockedAxios.post.mockRejectedValueOnce(new Error('送信エラー'));
+
+            const result = await notifier.notifyYearlyReport(report);
+
+            expect(result).toBe(false);
+            expect(logger.error).toHaveBeenCalled();
+        });
+    });
+
+    describe('notifyBillingReminder', () => {
+        const reminder: BillingReminderNotificationDTO = {
+            title: '楽天 6月10日のお支払い',
+            cardName: '楽天',
+            paymentDate: '2025/06/10',
+            daysUntilPayment: 3,
+            period: '2025/04/16 〜 2025/05/15',
+            totalAmount: 45000,
+            totalCount: 12,
+            topCategories: [{ name: '食料品', amount: 30000, share: 66.7 }],
+        };
+
+        it('月次レポートのWebhookに請求金額と利用期間を送信できること', async () => {
+            const notifier = createDiscordNotifier();
+            (mockedAxios.post as jest.Mock).mockResolvedValueOnce({ status: 204 });
+
+            const result = await notifier.notifyBillingReminder(reminder);
+
+            expect(result).toBe(true);
+            const postCall = (mockedAxios.post as jest.Mock).mock.calls[0];
+            expect(postCall[0]).toBe('https://discord.com/api/webhooks/report-monthly');
+            const postData = postCall[1] as any;
+            expect(postData.embeds[0].title).toContain('楽天 6月10日のお支払い');
+            expect(postData.embeds[0].description).toBe('# 45,000円\n3日後に引き落とされる金額\n-');
+            expect(postData.embeds[0].fields).toEqual([
+                { name: '支払日', value: '2025/06/10', inline: false },
+                { name: '利用期間', value: '2025/04/16 〜 2025/05/15', inline: false },
+                { name: '利用件数', value: '12件', inline: false },
+                { name: 'カテゴリ別（上位）', value: '1. 食料品 30,000円（66.7%）', inline: false },
+            ]);
+        });
+
+        it('支払日当日の場合は本日と表示すること', async () => {
+            const notifier = createDiscordNotifier();
+            (mockedAxios.post as jest.Mock).mockResolvedValueOnce({ status: 204 });
+
+            await notifier.notifyBillingReminder({ ...reminder, daysUntilPayment: 0 });
+
+            const postData = (mockedAxios.post as jest.Mock).mock.calls[0][1] as any;
+            expect(postData.embeds[0].description).toContain('本日に引き落とされる金額');
+        });
+
+        it('例外発生時にエラー処理されること', async () => {
+            const notifier = createDiscordNotifier();
+            mockedAxios.post.mockRejectedValueOnce(new Error('送信エラー'));
+
+            const result = await notifier.notifyBillingReminder(reminder);
+
+            expect(result).toBe(false);
+            expect(logger.error).toHaveBeenCalled();
+        });
+    });
+
+    describe('notifySubscriptionAlert', () => {
+        const alert: SubscriptionAlertNotificationDTO = {
+            title: '定期的な支払いの金額が変わりました',
+            type: 'price_changed',
+            merchant: 'NETFLIX',
+            cardName: '楽天',
+            interval: '毎月',
+            amount: 1590,
+            previousAmount: 1490,
+            lastChargedAt: '2025/06/10',
+            nextChargeDate: '2025/07/10',
+        };
+
+        it('月次アラートのWebhookに変わる前後の金額を送信できること', async () => {
+            const notifier = createDiscordNotifier();
+            (mockedAxios.post as jest.Mock).mockResolvedValueOnce({ status: 204 });
+
+            const result = await notifier.notifySubscriptionAlert(alert);
+
+            expect(result).toBe(true);
+            const postCall = (mockedAxios.post as jest.Mock).mock.calls[0];
+            expect(postCall[0]).toBe('https://discord.com/api/webhooks/alert-monthly');
+            const postData = postCall[1] as any;
+            expect(postData.embeds[0].title).toContain('定期的な支払いの金額が変わりました');
+            expect(postData.embeds[0].description).toBe('# NETFLIX\n楽天（毎月）\n-');
+            expect(postData.embeds[0].fields).toEqual([
+                { name: '金額', value: '1,490円 → 1,590円', inline: false },
+                { name: '最後の支払日', value: '2025/06/10', inline: false },
+                { name: '次回の支払予定日', value: '2025/07/10', inline: false },
+            ]);
+        });
+
+        it('支払いがない場合は最後の金額のみを赤色で送信すること', async () => {
+            const notifier = createDiscordNotifier();
+            (mockedAxios.post as jest.Mock).mockResolvedValueOnce({ status: 204 });
+
+            await notifier.notifySubscriptionAlert({ ...alert, type: 'missed', previousAmount: undefined });
+
+            const postData = (mockedAxios.post as jest.Mock).mock.calls[0][1] as any;
+            expect(postData.embeds[0].color).toBe(15158332);
+            expect(postData.embeds[0].fields[0]).toEqual({ name: '金額', value: '1,590円', inline: false });
+        });
+
+        it('例外発生時にエラー処理されること', async () => {
+            const notifier = createDiscordNotifier();
+            mockedAxios.post.mockRejectedValueOnce(new Error('送信エラー'));
+
+            const result = await notifier.notifySubscriptionAlert(alert);
+
+            expect(result).toBe(false);
+            expect(logger.error).toHaveBeenCalled();
+        });
     });
 
     describe('notifyError', () => {
@@ -1,7 +1,15 @@
 import { ReportNotificationMapper } from '../../../../../shared/infrastructure/mappers/ReportNotificationMapper';
-import { DailyReport, WeeklyReport, MonthlyReport } from '../../../../../shared/domain/entities/Reports';
+import {
+    DailyReport,
+    WeeklyReport,
+    MonthlyReport,
+    BillingCycleReport,
+    MonthEndForecast,
+    YearlyReportSummary,
+} from '../../../../../shared/domain/entities/Reports';
 import { Timestamp, FieldValue } from 'firebase-admin/firestore';
 import { DateUtil } from '../../../../../shared/utils/DateUtil';
+import { Subscription } from '../../../../../shared/domain/entities/Subscription';
 
 // firebase-adminのTimestampをモック
 jest.mock('firebase-admin/firestore', () => ({
@@ -645,4 +653,370 @@ describe('ReportNotificationMapper', () => {
             });
         });
     });
+
+    describe('支出カテゴリの上位', () => {
+        const createMonthlyReport = (overrides: Partial<MonthlyReport> = {}): MonthlyReport => ({
+            monthStartDate: { toDate: () => new Date('2025-05-01T00:00:00Z') } as Timestamp,
+            monthEndDate: { toDate: () => new Date('2025-05-31T23:59:59Z') } as Timestamp,
+            totalAmount: 10000,
+            totalCount: 10,
+            documentIdList: [],
+            lastUpdated: mockFieldValue,
+            lastUpdatedBy: 'system',
+            hasNotifiedLevel1: false,
+            hasNotifiedLevel2: false,
+            hasNotifiedLevel3: false,
+            ...overrides,
+        });
+
+        it('金額の大きい上位5件のカテゴリを表示名・金額・構成比で含めること', () => {
+            // Arrange
+            const monthlyReport = createMonthlyReport({
+                categoryTotals: {
+                    dining: { amount: 1500, count: 2 },
+                    groceries: { amount: 4000, count: 4 },
+                    transport: { amount: 1000, count: 1 },
+                    medical: { amount: 800, count: 1 },
+                    shopping: { amount: 2000, count: 1 },
+                    daily_goods: { amount: 700, count: 1 },
+                    entertainment: { amount: -200, count: 0 },
+                },
+            });
+            const categories = [
+                { id: 'groceries', name: '食料品' },
+                { id: 'dining', name: '外食' },
+                { id: 'shopping', name: '買い物' },
+                { id: 'transport', name: '交通' },
+            ];
+
+            // Act
+            const result = ReportNotificationMapper.toMonthlyScheduledNotification(
+                monthlyReport,
+                '2025',
+                '5',
+                categories
+            );
+
+            // Assert
+            expect(result.topCategories).toEqual([
+                { name: '食料品', amount: 4000, share: 40 },
+                { name: '買い物', amount: 2000, share: 20 },
+                { name: '外食', amount: 1500, share: 15 },
+                { name: '交通', amount: 1000, share: 10 },
+                { name: 'medical', amount: 800, share: 8 },
+            ]);
+        });
+
+        it('小計を持たないレポートの場合は含めないこと', () => {
+            // Act
+            const result = ReportNotificationMapper.toMonthlyScheduledNotification(createMonthlyReport(), '2025', '5');
+
+            // Assert
+            expect(result.topCategories).toBeUndefined();
+        });
+
+        it('アラート通知には含めないこと', () => {
+            // Arrange
+            const monthlyReport = createMonthlyReport({
+                categoryTotals: { groceries: { amount: 10000, count: 10 } },
+            });
+
+            // Act
+            const result = ReportNotificationMapper.toMonthlyAlertNotification(monthlyReport, 1, '2025', '5', 4000);
+
+            // Assert
+            expect(result.topCategories).toBeUndefined();
+        });
+    });
+
+    describe('予算', () => {
+        const budget = {
+            id: 'budget-1',
+            name: '食料品',
+            target: 'category' as const,
+            key: 'groceries',
+            limit: 30000,
+            alertPercentages: [50, 80, 100],
+        };
+        const monthlyReport: MonthlyReport = {
+            monthStartDate: { toDate: () => new Date('2025-05-01T00:00:00Z') } as Timestamp,
+            monthEndDate: { toDate: () => new Date('2025-05-31T23:59:59Z') } as Timestamp,
+            totalAmount: 50000,
+            totalCount: 10,
+            documentIdList: [],
+            lastUpdated: mockFieldValue,
+            lastUpdatedBy: 'system',
+            hasNotifiedLevel1: false,
+            hasNotifiedLevel2: false,
+            hasNotifiedLevel3: false,
+            categoryTotals: { groceries: { amount: 33000, count: 8 } },
+            cardTotals: { '楽天カード': { amount: 50000, count: 10 } },
+        };
+
+        it('定期通知には予算ごとの利用額と残りの金額を含めること', () => {
+            // Act
+            const result = ReportNotificationMapper.toMonthlyScheduledNotification(
+                monthlyReport,
+                '2025',
+                '5',
+                undefined,
+                [
+                    budget,
+                    { ...budget, id: 'budget-2', name: '楽天カード', target: 'card', key: '楽天カード', limit: 100000 },
+                    { ...budget, id: 'budget-3', name: '外食', key: 'dining', limit: 10000 },
+                ]
+            );
+
+            // Assert
+            expect(result.budgets).toEqual([
+                { name: '食料品', limit: 30000, spent: 33000, remaining: -3000, usage: 110 },
+                { name: '楽天カード', limit: 100000, spent: 50000, remaining: 50000, usage: 50 },
+                { name: '外食', limit: 10000, spent: 0, remaining: 10000, usage: 0 },
+            ]);
+        });
+
+        it('予算がない場合は含めないこと', () => {
+            // Act
+            const result = ReportNotificationMapper.toMonthlyScheduledNotification(monthlyReport, '2025', '5', [], []);
+
+            // Assert
+            expect(result.budgets).toBeUndefined();
+        });
+
+        it.each([
+            [50, 1],
+            [80, 2],
+            [100, 3],
+        ])('アラート通知は達した割合が%i%%の場合にアラートレベル%iとすること', (percentage, alertLevel) => {
+            // Act
+            const result = ReportNotificationMapper.toBudgetAlertNotification(
+                monthlyReport,
+                { budget, spent: 33000, remaining: -3000, usage: 110 },
+                percentage,
+                '2025',
+                '5'
+            );
+
+            // Assert
+            expect(result).toMatchObject({
+                title: `予算アラート (${percentage}%) - 2025年5月 食料品`,
+                alertLevel,
+                additionalInfo: `予算 30,000円 の${percentage}%に達しました`,
+                budgets: [{ name: '食料品', limit: 30000, spent: 33000, remaining: -3000, usage: 110 }],
+            });
+        });
+    });
+
+    describe('支払日の通知', () => {
+        const report: BillingCycleReport = {
+            cardName: '楽天カード',
+            displayName: '楽天',
+            issuer: 'Rakuten',
+            cycle: '2025-06',
+            periodStart: '2025-04-16',
+            periodEnd: '2025-05-15',
+            paymentDate: '2025-06-10',
+            totalAmount: 40000,
+            totalCount: 5,
+            categoryTotals: {
+                groceries: { amount: 30000, count: 4 },
+                dining: { amount: 10000, count: 1 },
+            },
+            documentIdList: [],
+        };
+
+        it('支払日・利用期間を表示用に整形し、支出カテゴリの上位を含めること', () => {
+            // Act
+            const result = ReportNotificationMapper.toBillingReminderNotification(report, 3, [
+                { id: 'groceries', name: '食料品' },
+            ]);
+
+            // Assert
+            expect(result).toEqual({
+                title: '楽天 6月10日のお支払い',
+                cardName: '楽天',
+                paymentDate: '2025/06/10',
+                daysUntilPayment: 3,
+                period: '2025/04/16 〜 2025/05/15',
+                totalAmount: 40000,
+                totalCount: 5,
+                topCategories: [
+                    { name: '食料品', amount: 30000, share: 75 },
+                    { name: 'dining', amount: 10000, share: 25 },
+                ],
+            });
+        });
+    });
+
+    describe('定期的な支払いの通知', () => {
+        const subscription: Subscription = {
+            id: '楽天カード:NETFLIX',
+            merchant: 'NETFLIX',
+            cardName: '楽天カード',
+            category: 'subscriptions',
+            interval: 'monthly',
+            amount: 1590,
+            chargeCount: 4,
+            lastChargedAt: '2025-06-10',
+            nextChargeDate: '2025-07-10',
+            status: 'active',
+        };
+
+        it('金額の変化の場合は変わる前の金額を含め、日付を表示用に整形すること', () => {
+            // Act
+            const result = ReportNotificationMapper.toSubscriptionAlertNotification({
+                type: 'price_changed',
+                subscription,
+                previousAmount: 1490,
+            });
+
+            // Assert
+            expect(result).toEqual({
+                title: '定期的な支払いの金額が変わりました',
+                type: 'price_changed',
+                merchant: 'NETFLIX',
+                cardName: '楽天カード',
+                interval: '毎月',
+                amount: 1590,
+                previousAmount: 1490,
+                lastChargedAt: '2025/06/10',
+                nextChargeDate: '2025/07/10',
+            });
+        });
+
+        it('変化の種類ごとにタイトルと支払いの間隔を設定すること', () => {
+            // Act
+            const created = ReportNotificationMapper.toSubscriptionAlertNotification({
+                type: 'new',
+                subscription: { ...subscription, interval: 'weekly' },
+            });
+            const missed = ReportNotificationMapper.toSubscriptionAlertNotification({ type: 'missed', subscription });
+
+            // Assert
+            expect(created.title).toBe('新しい定期的な支払いを検出しました');
+            expect(created.interval).toBe('毎週');
+            expect(created.previousAmount).toBeUndefined();
+            expect(missed.title).toBe('定期的な支払いが予定日を過ぎても確認できません');
+        });
+    });
+
+    describe('月末の見込み', () => {
+        const forecast: MonthEndForecast = {
+            year: 2025,
+            month: 5,
+            asOf: '2025-05-20',
+            daysInMonth: 31,
+            elapsedDays: 20,
+            monthToDateAmount: 60000,
+            projectedAmount: 93000,
+            lowerBound: 85000,
+            upperBound: 101000,
+            confidenceLevel: 80,
+            upcomingSubscriptionAmount: 1490,
+            dailyAverage: 2864,
+            recentMonthCount: 3,
+        };
+        const expected = { projectedAmount: 93000, lowerBound: 85000, upperBound: 101000, confidenceLevel: 80 };
+
+        it('日次・週次の定期通知には見込みの金額と幅を含めること', () => {
+            // Arrange
+            const dailyReport: DailyReport = {
+                date: { toDate: () => new Date('2025-05-20T00:00:00Z') } as Timestamp,
+                totalAmount: 3000,
+                totalCount: 2,
+                documentIdList: [],
+                lastUpdated: mockFieldValue,
+                lastUpdatedBy: 'system',
+                hasNotified: false,
+            };
+            const weeklyReport: WeeklyReport = {
+                termStartDate: { toDate: () => new Date('2025-05-18T00:00:00Z') } as Timestamp,
+                termEndDate: { toDate: () => new Date('2025-05-24T23:59:59Z') } as Timestamp,
+                totalAmount: 15000,
+                totalCount: 8,
+                documentIdList: [],
+                lastUpdated: mockFieldValue,
+                lastUpdatedBy: 'system',
+                hasNotifiedLevel1: false,
+                hasNotifiedLevel2: false,
+                hasNotifiedLevel3: false,
+            };
+
+            // Act
+            const daily = ReportNotificationMapper.toDailyScheduledNotification(
+                dailyReport, '2025', '5', '20', 60000, undefined, forecast
+            );
+            const weekly = ReportNotificationMapper.toWeeklyScheduledNotification(
+                weeklyReport, '2025', '5', 4, 60000, undefined, forecast
+            );
+
+            // Assert
+            expect(daily.forecast).toEqual(expected);
+            expect(weekly.forecast).toEqual(expected);
+        });
+
+        it('見込みが指定されない場合は含めないこと', () => {
+            // Arrange
+            const dailyReport: DailyReport = {
+                date: { toDate: () => new Date('2025-05-31T00:00:00Z') } as Timestamp,
+                totalAmount: 3000,
+                totalCount: 2,
+                documentIdList: [],
+                lastUpdated: mockFieldValue,
+                lastUpdatedBy: 'system',
+                hasNotified: false,
+            };
+
+            // Act
+            const result = ReportNotificationMapper.toDailyScheduledNotification(dailyReport, '2025', '5', '31', 90000);
+
+            // Assert
+            expect(result.forecast).toBeUndefined();
+        });
+    });
+
+    describe('年間レポート', () => {
+        const summary: YearlyReportSummary = {
+            year: 2025,
+            totalAmount: 1100000,
+            totalCount: 400,
+            months: Array.from({ length: 12 }, (_, index) => ({ month: index + 1, amount: 90000, count: 30 })),
+            topCategories: [
+                { category: 'groceries', name: '食料品', amount: 500000, count: 200, share: 45.5 },
+                { category: 'refund', name: 'refund', amount: -1000, count: 0, share: 0 },
+            ],
+            topMerchants: [{ merchant: 'イオン', amount: 300000, count: 100, share: 27.3 }],
+            yearOverYear: { previousTotalAmount: 1000000, difference: 100000, changeRate: 10 },
+        };
+
+        it('タイトル・期間を設定し、月別の利用額・上位の一覧・前年比を含めること', () => {
+            // Act
+            const result = ReportNotificationMapper.toYearlyScheduledNotification(summary);
+
+            // Assert
+            expect(result.title).toBe('2025年 年間レポート');
+            expect(result.period).toBe('2025/01/01 〜 2025/12/31');
+            expect(result.totalAmount).toBe(1100000);
+            expect(result.monthlyAmounts).toHaveLength(12);
+            expect(result.monthlyAmounts[0]).toEqual({ month: 1, amount: 90000 });
+            expect(result.topCategories).toEqual([{ name: '食料品', amount: 500000, share: 45.5 }]);
+            expect(result.topMerchants).toEqual([{ merchant: 'イオン', amount: 300000, share: 27.3 }]);
+            expect(result.yearOverYear).toEqual(summary.yearOverYear);
+        });
+
+        it('上位の一覧が空で前年のレポートがない場合は含めないこと', () => {
+            // Act
+            const result = ReportNotificationMapper.toYearlyScheduledNotification({
+                ...summary,
+                topCategories: [],
+                topMerchants: [],
+                yearOverYear: null,
+            });
+
+            // Assert
+            expect(result.topCategories).toBeUndefined();
+            expect(result.topMerchants).toBeUndefined();
+            expect(result.yearOverYear).toBeUndefined();
+        });
+    });
 });
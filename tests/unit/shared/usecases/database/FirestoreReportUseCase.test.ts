@@ -1,6 +1,6 @@
 import { FirestoreReportUseCase } from '../../../../../shared/usecases/database/FirestoreReportUseCase';
 import { IReportCrudRepository } from '../../../../../shared/domain/interfaces/database/repositories/IReportCrudRepository';
-import { DailyReport, WeeklyReport, MonthlyReport } from '../../../../../shared/domain/entities/Reports';
+import { DailyReport, WeeklyReport, MonthlyReport, YearlyReport } from '../../../../../shared/domain/entities/Reports';
 import { AppError, ErrorType } from '../../../../../shared/errors/AppError';
 import * as admin from 'firebase-admin';
 
@@ -76,6 +76,21 @@ describe('FirestoreReportUseCase', () => {
         hasReportSent: false
     };
 
+    const sampleYearlyReport: YearlyReport = {
+        totalAmount: 1200000,
+        totalCount: 600,
+        lastUpdated: testFieldValue,
+        lastUpdatedBy: 'system',
+        documentIdList: ['doc1', 'doc2', 'doc3'],
+        yearStartDate: testTimestamp,
+        yearEndDate: testTimestamp,
+        monthlyTotals: { '06': { amount: 1200000, count: 600 } },
+        categoryTotals: {},
+        cardTotals: {},
+        merchantTotals: {},
+        hasReportSent: false
+    };
+
     beforeEach(() => {
         jest.clearAllMocks();
 
@@ -92,7 +107,10 @@ describe('FirestoreReportUseCase', () => {
             saveMonthlyReport: jest.fn(),
             updateDailyReport: jest.fn(),
             updateWeeklyReport: jest.fn(),
-            updateMonthlyReport: jest.fn()
+            updateMonthlyReport: jest.fn(),
+            getYearlyReport: jest.fn(),
+            saveYearlyReport: jest.fn(),
+            updateYearlyReport: jest.fn()
         };
 
         reportUseCase = new FirestoreReportUseCase(mockReportRepository);
@@ -157,6 +175,31 @@ describe('FirestoreReportUseCase', () => {
         });
     });
 
+    describe('getYearlyReport', () => {
+        test('正常系: 年次レポートが正常に取得されること', async () => {
+            // モックの設定
+            mockReportRepository.getYearlyReport.mockResolvedValueOnce(sampleYearlyReport);
+
+            // 実行
+            const result = await reportUseCase.getYearlyReport('2024');
+
+            // 検証
+            expect(mockReportRepository.getYearlyReport).toHaveBeenCalledWith('2024');
+            expect(result).toEqual(sampleYearlyReport);
+        });
+
+        test('異常系: レポートが見つからない場合、AppErrorがスローされること', async () => {
+            // モックの設定
+            mockReportRepository.getYearlyReport.mockResolvedValue(null);
+
+            // 実行と検証
+            await expect(reportUseCase.getYearlyReport('2024'))
+                .rejects.toThrow(AppError);
+            await expect(reportUseCase.getYearlyReport('2024'))
+                .rejects.toThrow('2024年のレポートが見つかりません');
+        });
+    });
+
     describe('getWeeklyReport', () => {
         test('正常系: 週次レポートが正常に取得されること', async () => {
             // モックの設定
@@ -356,4 +399,36 @@ describe('FirestoreReportUseCase', () => {
                 .rejects.toThrow('保存エラー');
         });
     });
+
+    describe('createYearlyReport', () => {
+        test('正常系: 年次レポートが正常に作成されること', async () => {
+            const expectedPath = 'reports/yearly/2024/summary';
+
+            // モックの設定
+            mockReportRepository.saveYearlyReport.mockResolvedValueOnce(expectedPath);
+
+            // 実行
+            const result = await reportUseCase.createYearlyReport(sampleYearlyReport, '2024');
+
+            // 検証
+            expect(mockReportRepository.saveYearlyReport).toHaveBeenCalledWith(sampleYearlyReport, '2024');
+            expect(result).toBe(expectedPath);
+        });
+    });
+
+    describe('updateYearlyReport', () => {
+        test('正常系: 年次レポートが正常に更新されること', async () => {
+            const expectedPath = 'reports/yearly/2024/summary';
+
+            // モックの設定
+            mockReportRepository.updateYearlyReport.mockResolvedValueOnce(expectedPath);
+
+            // 実行
+            const result = await reportUseCase.updateYearlyReport({ hasReportSent: true }, '2024');
+
+            // 検証
+            expect(mockReportRepository.updateYearlyReport).toHaveBeenCalledWith({ hasReportSent: true }, '2024');
+            expect(result).toBe(expectedPath);
+        });
+    });
 });
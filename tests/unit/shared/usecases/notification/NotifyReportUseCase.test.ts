@@ -67,6 +67,9 @@ describe('NotifyReportUseCase', () => {
             notifyDailyReport: jest.fn(),
             notifyWeeklyReport: jest.fn(),
             notifyMonthlyReport: jest.fn(),
+            notifyYearlyReport: jest.fn(),
+            notifyBillingReminder: jest.fn(),
+            notifySubscriptionAlert: jest.fn(),
             notifyError: jest.fn(),
             notifyLogging: jest.fn()
         };
@@ -149,6 +152,91 @@ describe('NotifyReportUseCase', () => {
         });
     });
 
+    describe('notifyYearlyReport', () => {
+        const sampleYearlyReport = {
+            title: '2025年 年間レポート',
+            period: '2025/01/01 〜 2025/12/31',
+            totalAmount: 1260000,
+            totalCount: 480,
+            monthlyAmounts: Array.from({ length: 12 }, (_, index) => ({ month: index + 1, amount: 105000 })),
+            yearOverYear: { previousTotalAmount: 1200000, difference: 60000, changeRate: 5 }
+        };
+
+        test('正常系: 年間レポートが正常に通知されること', async () => {
+            mockDiscordNotifier.notifyYearlyReport.mockResolvedValueOnce(true);
+
+            await notifyReportUseCase.notifyYearlyReport(sampleYearlyReport);
+
+            expect(mockDiscordNotifier.notifyYearlyReport).toHaveBeenCalledWith(sampleYearlyReport);
+            expect(mockDiscordNotifier.notifyYearlyReport).toHaveBeenCalledTimes(1);
+        });
+
+        test('異常系: Discord通知でエラーが発生した場合、エラーがスローされること', async () => {
+            mockDiscordNotifier.notifyYearlyReport.mockRejectedValueOnce(new Error('サーバーエラー'));
+
+            await expect(notifyReportUseCase.notifyYearlyReport(sampleYearlyReport))
+                .rejects.toThrow('サーバーエラー');
+        });
+    });
+
+    describe('notifyBillingReminder', () => {
+        const sampleBillingReminder = {
+            title: '楽天 6月10日のお支払い',
+            cardName: '楽天',
+            paymentDate: '2025/06/10',
+            daysUntilPayment: 3,
+            period: '2025/04/16 〜 2025/05/15',
+            totalAmount: 45000,
+            totalCount: 12
+        };
+
+        test('正常系: 支払日の通知が正常に送信されること', async () => {
+            mockDiscordNotifier.notifyBillingReminder.mockResolvedValueOnce(true);
+
+            await notifyReportUseCase.notifyBillingReminder(sampleBillingReminder);
+
+            expect(mockDiscordNotifier.notifyBillingReminder).toHaveBeenCalledWith(sampleBillingReminder);
+            expect(mockDiscordNotifier.notifyBillingReminder).toHaveBeenCalledTimes(1);
+        });
+
+        test('異常系: Discord通知でエラーが発生した場合、エラーがスローされること', async () => {
+            mockDiscordNotifier.notifyBillingReminder.mockRejectedValueOnce(new Error('サーバーエラー'));
+
+            await expect(notifyReportUseCase.notifyBillingReminder(sampleBillingReminder))
+                .rejects.toThrow('サーバーエラー');
+        });
+    });
+
+    describe('notifySubscriptionAlert', () => {
+        const sampleSubscriptionAlert = {
+            title: '定期的な支払いの金額が変わりました',
+            type: 'price_changed' as const,
+            merchant: 'NETFLIX',
+            cardName: '楽天',
+            interval: '毎月',
+            amount: 1590,
+            previousAmount: 1490,
+            lastChargedAt: '2025/06/10',
+            nextChargeDate: '2025/07/10'
+        };
+
+        test('正常系: 定期的な支払いの変化の通知が正常に送信されること', async () => {
+            mockDiscordNotifier.notifySubscriptionAlert.mockResolvedValueOnce(true);
+
+            await notifyReportUseCase.notifySubscriptionAlert(sampleSubscriptionAlert);
+
+            expect(mockDiscordNotifier.notifySubscriptionAlert).toHaveBeenCalledWith(sampleSubscriptionAlert);
+            expect(mockDiscordNotifier.notifySubscriptionAlert).toHaveBeenCalledTimes(1);
+        });
+
+        test('異常系: Discord通知でエラーが発生した場合、エラーがスローされること', async () => {
+            mockDiscordNotifier.notifySubscriptionAlert.mockRejectedValueOnce(new Error('サーバーエラー'));
+
+            await expect(notifyReportUseCase.notifySubscriptionAlert(sampleSubscriptionAlert))
+                .rejects.toThrow('サーバーエラー');
+        });
+    });
+
     describe('通知内容の検証', () => {
         test('デイリーレポート通知のデータ構造が正しいこと', () => {
             expect(sampleDailyReportNotification).toHaveProperty('title');
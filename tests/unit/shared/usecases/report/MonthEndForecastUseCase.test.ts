@@ -0,0 +1,163 @@
+import { MonthEndForecastUseCase } from '../../../../../shared/usecases/report/MonthEndForecastUseCase';
+import { IReportCrudRepository } from '../../../../../shared/domain/interfaces/database/repositories/IReportCrudRepository';
+import {
+    ISubscriptionRepository,
+} from '../../../../../shared/domain/interfaces/database/repositories/ISubscriptionRepository';
+import { DailyReport, MonthlyReport } from '../../../../../shared/domain/entities/Reports';
+import { Subscription } from '../../../../../shared/domain/entities/Subscription';
+import { AppError } from '../../../../../shared/errors/AppError';
+import { logger } from '../../../../../shared/infrastructure/logging/Logger';
+import * as admin from 'firebase-admin';
+
+// Loggerをモック化
+jest.mock('../../../../../shared/infrastructure/logging/Logger', () => ({
+    logger: {
+        info: jest.fn(),
+        debug: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        logAppError: jest.fn(),
+        updateServiceStatus: jest.fn()
+    }
+}));
+
+// ErrorHandlerをモック化
+jest.mock('../../../../../shared/infrastructure/errors/ErrorHandler', () => ({
+    ErrorHandler: {
+        errorDecorator: () => () => (
+            _target: any,
+            _propertyKey: string | symbol,
+            descriptor: PropertyDescriptor
+        ) => descriptor,
+        handle: jest.fn(),
+        extractErrorInfoFromArgs: jest.fn()
+    }
+}));
+
+describe('MonthEndForecastUseCase', () => {
+    let useCase: MonthEndForecastUseCase;
+    let mockReportRepository: jest.Mocked<IReportCrudRepository>;
+    let mockSubscriptionRepository: jest.Mocked<ISubscriptionRepository>;
+
+    const dailyReport = (day: number, totalAmount: number): DailyReport => ({
+        totalAmount,
+        totalCount: 1,
+        lastUpdated: admin.firestore.FieldValue.serverTimestamp(),
+        lastUpdatedBy: 'system',
+        documentIdList: [],
+        date: admin.firestore.Timestamp.fromDate(new Date(2025, 5, day)),
+        hasNotified: false,
+    });
+
+    const monthlyReport = (totalAmount: number): MonthlyReport => ({
+        totalAmount,
+        totalCount: 10,
+        lastUpdated: admin.firestore.FieldValue.serverTimestamp(),
+        lastUpdatedBy: 'system',
+        documentIdList: [],
+        monthStartDate: admin.firestore.Timestamp.fromDate(new Date(2025, 4, 1)),
+        monthEndDate: admin.firestore.Timestamp.fromDate(new Date(2025, 4, 31)),
+        hasNotifiedLevel1: false,
+        hasNotifiedLevel2: false,
+        hasNotifiedLevel3: false,
+        hasReportSent: true,
+    });
+
+    const subscription: Subscription = {
+        id: '楽天カード:NETFLIX',
+        merchant: 'NETFLIX',
+        cardName: '楽天カード',
+        interval: 'monthly',
+        amount: 1490,
+        chargeCount: 4,
+        lastChargedAt: '2025-05-25',
+        nextChargeDate: '2025-06-25',
+        status: 'active',
+    };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+
+        mockReportRepository = {
+            getDailyReport: jest.fn(),
+            saveDailyReport: jest.fn(),
+            updateDailyReport: jest.fn(),
+            getMonthlyDailyReports: jest.fn().mockResolvedValue(
+                Array.from({ length: 10 }, (_, index) => dailyReport(index + 1, 1000))
+            ),
+            getWeeklyReport: jest.fn(),
+            saveWeeklyReport: jest.fn(),
+            updateWeeklyReport: jest.fn(),
+            getMonthlyWeeklyReports: jest.fn(),
+            getMonthlyReport: jest.fn().mockResolvedValue(null),
+            saveMonthlyReport: jest.fn(),
+            updateMonthlyReport: jest.fn(),
+        } as unknown as jest.Mocked<IReportCrudRepository>;
+
+        mockSubscriptionRepository = {
+            getSubscriptions: jest.fn().mockResolvedValue({
+                subscriptions: [subscription],
+                analyzedAt: '2025-06-10T00:00:00.000Z',
+            }),
+            saveSubscriptions: jest.fn(),
+        };
+
+        useCase = new MonthEndForecastUseCase(mockReportRepository, mockSubscriptionRepository);
+    });
+
+    test('正常系: 当月の日次レポートと定期的な支払いから月末の見込みを求めること', async () => {
+        const result = await useCase.execute('2025', '6', new Date(2025, 5, 10));
+
+        expect(mockReportRepository.getMonthlyDailyReports).toHaveBeenCalledWith('2025', '06');
+        expect(result.monthToDateAmount).toBe(10000);
+        expect(result.upcomingSubscriptionAmount).toBe(1490);
+        expect(result.projectedAmount).toBe(31490);
+    });
+
+    test('正常系: 直近3か月の月次レポートを取得し、ないものは除くこと', async () => {
+        mockReportRepository.getMonthlyReport.mockImplementation(async (_year, month) =>
+            month === '05' ? monthlyReport(62000) : null
+        );
+
+        const result = await useCase.execute('2025', '06', new Date(2025, 5, 10));
+
+        expect(mockReportRepository.getMonthlyReport).toHaveBeenCalledWith('2025', '05');
+        expect(mockReportRepository.getMonthlyReport).toHaveBeenCalledWith('2025', '04');
+        expect(mockReportRepository.getMonthlyReport).toHaveBeenCalledWith('2025', '03');
+        expect(result.recentMonthCount).toBe(1);
+    });
+
+    test('正常系: 1月の直近の月は前年の月次レポートを取得すること', async () => {
+        mockReportRepository.getMonthlyDailyReports.mockResolvedValue([]);
+
+        await useCase.execute('2025', '1', new Date(2025, 0, 10));
+
+        expect(mockReportRepository.getMonthlyReport).toHaveBeenCalledWith('2024', '12');
+        expect(mockReportRepository.getMonthlyReport).toHaveBeenCalledWith('2024', '10');
+    });
+
+    test('正常系: 定期的な支払いを取得できない場合は考慮せずに見積もること', async () => {
+        mockSubscriptionRepository.getSubscriptions.mockRejectedValue(new Error('Firestore error'));
+
+        const result = await useCase.execute('2025', '6', new Date(2025, 5, 10));
+
+        expect(result.upcomingSubscriptionAmount).toBe(0);
+        expect(result.projectedAmount).toBe(30000);
+        expect(logger.warn).toHaveBeenCalled();
+    });
+
+    test('正常系: 定期的な支払いのリポジトリがない場合は考慮せずに見積もること', async () => {
+        useCase = new MonthEndForecastUseCase(mockReportRepository);
+
+        const result = await useCase.execute('2025', '6', new Date(2025, 5, 10));
+
+        expect(result.upcomingSubscriptionAmount).toBe(0);
+    });
+
+    test('異常系: 年月の形式が正しくない場合はエラーをスローすること', async () => {
+        await expect(useCase.execute('25', '6', new Date(2025, 5, 10))).rejects.toThrow(AppError);
+        await expect(useCase.execute('2025', '13', new Date(2025, 5, 10))).rejects.toThrow(AppError);
+        await expect(useCase.execute('2025', 'x', new Date(2025, 5, 10))).rejects.toThrow(AppError);
+        expect(mockReportRepository.getMonthlyDailyReports).not.toHaveBeenCalled();
+    });
+});
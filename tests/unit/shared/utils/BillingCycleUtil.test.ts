@@ -0,0 +1,122 @@
+import { BillingCycleUtil, BillingUsageSource } from '../../../../shared/utils/BillingCycleUtil';
+import { Card } from '../../../../shared/domain/entities/Card';
+
+describe('BillingCycleUtil', () => {
+    // 15日締め・翌月10日払い
+    const card: Card = {
+        cardName: '楽天カード',
+        displayName: '楽天',
+        issuer: 'Rakuten',
+        closingDay: 15,
+        paymentDay: 10,
+        paymentMonthOffset: 1,
+        reminderDaysBefore: 3,
+    };
+    // 月末締め・翌月27日払い
+    const endOfMonthCard: Card = { ...card, cardName: 'SMBC', closingDay: 31, paymentDay: 27 };
+
+    describe('parseCycle', () => {
+        test('正常系: YYYY-MMの形式を支払月に変換すること', () => {
+            expect(BillingCycleUtil.parseCycle('2025-06')).toEqual({ year: 2025, month: 6 });
+        });
+
+        test('異常系: 形式が不正な場合や月が範囲外の場合はnullを返すこと', () => {
+            expect(BillingCycleUtil.parseCycle('2025-6')).toBeNull();
+            expect(BillingCycleUtil.parseCycle('2025-13')).toBeNull();
+            expect(BillingCycleUtil.parseCycle('2025-00')).toBeNull();
+            expect(BillingCycleUtil.parseCycle('202506')).toBeNull();
+        });
+    });
+
+    describe('getCycle', () => {
+        test('正常系: 前月の締め日の翌日から当月の締め日までの利用を支払月に請求すること', () => {
+            const cycle = BillingCycleUtil.getCycle(card, 2025, 6);
+
+            expect(cycle.cycle).toBe('2025-06');
+            expect(cycle.periodStart).toEqual(new Date(2025, 3, 16));
+            expect(cycle.periodEnd).toEqual(new Date(2025, 4, 15, 23, 59, 59, 999));
+            expect(cycle.paymentDate).toEqual(new Date(2025, 5, 10));
+        });
+
+        test('正常系: 月末締めの場合は月の日数に合わせて締め日を月末とすること', () => {
+            const cycle = BillingCycleUtil.getCycle(endOfMonthCard, 2025, 3);
+
+            expect(cycle.periodStart).toEqual(new Date(2025, 1, 1));
+            expect(cycle.periodEnd).toEqual(new Date(2025, 1, 28, 23, 59, 59, 999));
+            expect(cycle.paymentDate).toEqual(new Date(2025, 2, 27));
+        });
+
+        test('正常系: 年をまたぐ請求サイクルを求めること', () => {
+            const cycle = BillingCycleUtil.getCycle(card, 2025, 1);
+
+            expect(cycle.periodStart).toEqual(new Date(2024, 10, 16));
+            expect(cycle.periodEnd).toEqual(new Date(2024, 11, 15, 23, 59, 59, 999));
+        });
+    });
+
+    describe('cycleOf', () => {
+        test('正常系: 締め日までの利用は当月の締め、締め日を過ぎた利用は翌月の締めになること', () => {
+            expect(BillingCycleUtil.cycleOf(card, new Date(2025, 4, 15, 23, 0)).cycle).toBe('2025-06');
+            expect(BillingCycleUtil.cycleOf(card, new Date(2025, 4, 16, 0, 0)).cycle).toBe('2025-07');
+            expect(BillingCycleUtil.cycleOf(card, new Date(2025, 11, 20)).cycle).toBe('2026-02');
+        });
+    });
+
+    describe('nextCycle', () => {
+        test('正常系: 当月の支払日以前の場合は当月、過ぎている場合は翌月の請求サイクルを返すこと', () => {
+            expect(BillingCycleUtil.nextCycle(card, new Date(2025, 5, 10, 12, 0)).cycle).toBe('2025-06');
+            expect(BillingCycleUtil.nextCycle(card, new Date(2025, 5, 11)).cycle).toBe('2025-07');
+        });
+    });
+
+    describe('summarize', () => {
+        const cycle = BillingCycleUtil.getCycle(card, 2025, 6);
+        const createUsage = (path: string, usedAt: Date, overrides: Partial<BillingUsageSource> = {}) => ({
+            path,
+            usedAt,
+            amount: 1000,
+            card_name: '楽天カード',
+            category: 'groceries',
+            ...overrides,
+        });
+
+        test('正常系: 利用期間内の対象カードの利用を集計し、取消・返金は件数に含めないこと', () => {
+            const report = BillingCycleUtil.summarize(card, cycle, [
+                createUsage('a', new Date(2025, 3, 16)),
+                createUsage('b', new Date(2025, 4, 15, 23, 59), { amount: 3000, category: 'dining' }),
+                createUsage('c', new Date(2025, 4, 1), { amount: -500, transaction_type: 'refund' }),
+                createUsage('d', new Date(2025, 3, 15, 23, 59)),
+                createUsage('e', new Date(2025, 4, 16)),
+                createUsage('f', new Date(2025, 4, 1), { card_name: 'SMBC' }),
+            ]);
+
+            expect(report).toEqual({
+                cardName: '楽天カード',
+                displayName: '楽天',
+                issuer: 'Rakuten',
+                cycle: '2025-06',
+                periodStart: '2025-04-16',
+                periodEnd: '2025-05-15',
+                paymentDate: '2025-06-10',
+                totalAmount: 3500,
+                totalCount: 2,
+                categoryTotals: {
+                    groceries: { amount: 500, count: 1 },
+                    dining: { amount: 3000, count: 1 },
+                },
+                documentIdList: ['a', 'b', 'c'],
+            });
+        });
+
+        test('正常系: 論理削除されたものや確認待ちのものは集計しないこと', () => {
+            const report = BillingCycleUtil.summarize(card, cycle, [
+                createUsage('a', new Date(2025, 4, 1), { is_active: false }),
+                createUsage('b', new Date(2025, 4, 1), { status: 'pending_review' }),
+                createUsage('c', new Date(2025, 4, 1), { status: 'confirmed' }),
+            ]);
+
+            expect(report.totalAmount).toBe(1000);
+            expect(report.documentIdList).toEqual(['c']);
+        });
+    });
+});
@@ -0,0 +1,56 @@
+import { BudgetUtil } from '../../../../shared/utils/BudgetUtil';
+import { Budget } from '../../../../shared/domain/entities/Budget';
+
+describe('BudgetUtil', () => {
+    const budget: Budget = {
+        id: 'budget-1',
+        name: '食料品',
+        target: 'category',
+        key: 'groceries',
+        limit: 30000,
+        alertPercentages: [50, 80, 100],
+    };
+    const report = {
+        categoryTotals: { groceries: { amount: 24000, count: 6 } },
+        cardTotals: { '楽天カード': { amount: 40000, count: 10 } },
+    };
+
+    describe('toStatus', () => {
+        test('正常系: 支出カテゴリの予算は支出カテゴリの小計から利用状況を求めること', () => {
+            expect(BudgetUtil.toStatus(budget, report)).toEqual({
+                budget,
+                spent: 24000,
+                remaining: 6000,
+                usage: 80,
+            });
+        });
+
+        test('正常系: カードの予算はカードの小計から利用状況を求め、超過した場合は残りを負の値にすること', () => {
+            const cardBudget: Budget = { ...budget, target: 'card', key: '楽天カード', limit: 35000 };
+
+            expect(BudgetUtil.toStatus(cardBudget, report)).toEqual({
+                budget: cardBudget,
+                spent: 40000,
+                remaining: -5000,
+                usage: 114.3,
+            });
+        });
+
+        test('正常系: 小計がない場合は利用額を0円とすること', () => {
+            expect(BudgetUtil.toStatus(budget, {})).toMatchObject({ spent: 0, remaining: 30000, usage: 0 });
+        });
+    });
+
+    describe('reachedPercentages', () => {
+        test('正常系: 利用額が達している通知する割合のみを返すこと', () => {
+            expect(BudgetUtil.reachedPercentages(BudgetUtil.toStatus(budget, report))).toEqual([50, 80]);
+        });
+
+        test('正常系: 利用額がちょうど割合に一致する場合は達しているとみなすこと', () => {
+            const status = BudgetUtil.toStatus(budget, { categoryTotals: { groceries: { amount: 15000, count: 1 } } });
+
+            expect(BudgetUtil.hasReached(status, 50)).toBe(true);
+            expect(BudgetUtil.hasReached(status, 80)).toBe(false);
+        });
+    });
+});
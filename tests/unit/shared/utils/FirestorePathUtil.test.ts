@@ -551,6 +551,13 @@ describe('FirestorePathUtil', () => {
     });
   });
 
+  describe('getYearlyReportPath', () => {
+    test('正常系: 年（数値・文字列）から年次レポートパスが生成されること', () => {
+      expect(FirestorePathUtil.getYearlyReportPath(2024)).toBe('reports/yearly/2024/summary');
+      expect(FirestorePathUtil.getYearlyReportPath('2025')).toBe('reports/yearly/2025/summary');
+    });
+  });
+
   describe('getCardUsageDetailsPath', () => {
     test('正常系: Dateオブジェクトからカード利用詳細パスが生成されること', () => {
       const testDate = new Date('2024-06-15T10:30:00');
@@ -0,0 +1,180 @@
+import { ForecastUtil, ForecastInput } from '../../../../shared/utils/ForecastUtil';
+import { Subscription } from '../../../../shared/domain/entities/Subscription';
+
+describe('ForecastUtil', () => {
+    const dailyAmounts = (amounts: number[]): Record<number, number> =>
+        Object.fromEntries(amounts.map((amount, index) => [index + 1, amount]));
+
+    // 2025年6月（30日）の1日〜10日まで、毎日1,000円の利用
+    const input = (overrides: Partial<ForecastInput> = {}): ForecastInput => ({
+        year: 2025,
+        month: 6,
+        asOf: new Date(2025, 5, 10),
+        dailyAmounts: dailyAmounts(Array(10).fill(1000)),
+        recentMonths: [],
+        subscriptions: [],
+        ...overrides,
+    });
+
+    const subscription: Subscription = {
+        id: '楽天カード:NETFLIX',
+        merchant: 'NETFLIX',
+        cardName: '楽天カード',
+        interval: 'monthly',
+        amount: 1490,
+        chargeCount: 4,
+        lastChargedAt: '2025-05-25',
+        nextChargeDate: '2025-06-25',
+        status: 'active',
+    };
+
+    test('正常系: 当月の1日あたりの平均から残りの日の利用額を見積もること', () => {
+        const result = ForecastUtil.forecast(input());
+
+        expect(result).toEqual({
+            year: 2025,
+            month: 6,
+            asOf: '2025-06-10',
+            daysInMonth: 30,
+            elapsedDays: 10,
+            monthToDateAmount: 10000,
+            projectedAmount: 30000,
+            lowerBound: 30000,
+            upperBound: 30000,
+            confidenceLevel: 80,
+            upcomingSubscriptionAmount: 0,
+            dailyAverage: 1000,
+            recentMonthCount: 0,
+        });
+    });
+
+    test('正常系: 日ごとの利用額のばらつきから見込みの幅を求めること', () => {
+        const result = ForecastUtil.forecast(input({
+            dailyAmounts: dailyAmounts([500, 1500, 500, 1500, 500, 1500, 500, 1500, 500, 1500]),
+        }));
+
+        expect(result.projectedAmount).toBe(30000);
+        expect(result.lowerBound).toBeLessThan(30000);
+        expect(result.upperBound - result.projectedAmount).toBe(result.projectedAmount - result.lowerBound);
+    });
+
+    test('正常系: 経過した割合に応じて直近の月の1日あたりの平均と重み付けすること', () => {
+        const result = ForecastUtil.forecast(input({
+            // 1日あたり2,000円
+            recentMonths: [{ totalAmount: 62000, days: 31 }],
+        }));
+
+        // 1,000円 × 10/30 + 2,000円 × 20/30
+        expect(result.dailyAverage).toBe(1667);
+        expect(result.projectedAmount).toBe(43333);
+        expect(result.recentMonthCount).toBe(1);
+    });
+
+    test('正常系: 対象の月が始まっていない場合は直近の月の平均のみで見積もること', () => {
+        const result = ForecastUtil.forecast(input({
+            asOf: new Date(2025, 4, 20),
+            dailyAmounts: {},
+            recentMonths: [{ totalAmount: 62000, days: 31 }, { totalAmount: 30000, days: 30 }],
+        }));
+
+        expect(result.asOf).toBe('2025-05-20');
+        expect(result.elapsedDays).toBe(0);
+        expect(result.monthToDateAmount).toBe(0);
+        expect(result.projectedAmount).toBe(45000);
+        // 月ごとの1日あたりの平均のばらつき（2,000円と1,000円）から幅を求める
+        expect(result.lowerBound).toBeLessThan(45000);
+        expect(result.upperBound).toBeGreaterThan(45000);
+    });
+
+    test('正常系: 対象の月が終わっている場合は実績の合計を返すこと', () => {
+        const result = ForecastUtil.forecast(input({
+            asOf: new Date(2025, 6, 3),
+            dailyAmounts: dailyAmounts(Array(30).fill(1000)),
+        }));
+
+        expect(result.asOf).toBe('2025-06-30');
+        expect(result.elapsedDays).toBe(30);
+        expect(result.projectedAmount).toBe(30000);
+        expect(result.lowerBound).toBe(30000);
+        expect(result.upperBound).toBe(30000);
+    });
+
+    test('正常系: 利用の実績も直近の月のレポートもない場合は0円とすること', () => {
+        const result = ForecastUtil.forecast(input({ dailyAmounts: {} }));
+
+        expect(result.projectedAmount).toBe(0);
+        expect(result.lowerBound).toBe(0);
+        expect(result.upperBound).toBe(0);
+    });
+
+    describe('定期的な支払い', () => {
+        test('正常系: 残りの日に予定されている支払いを見込みに加えること', () => {
+            const result = ForecastUtil.forecast(input({ subscriptions: [subscription] }));
+
+            expect(result.upcomingSubscriptionAmount).toBe(1490);
+            expect(result.projectedAmount).toBe(31490);
+            expect(result.lowerBound).toBe(31490);
+        });
+
+        test('正常系: 当月に支払い済みのものは1日あたりの平均に含めないこと', () => {
+            const result = ForecastUtil.forecast(input({
+                dailyAmounts: dailyAmounts([1000, 1000, 1000, 1000, 2490, 1000, 1000, 1000, 1000, 1000]),
+                subscriptions: [{ ...subscription, lastChargedAt: '2025-06-05', nextChargeDate: '2025-07-05' }],
+            }));
+
+            expect(result.monthToDateAmount).toBe(11490);
+            expect(result.dailyAverage).toBe(1000);
+            expect(result.upcomingSubscriptionAmount).toBe(0);
+            expect(result.projectedAmount).toBe(31490);
+        });
+
+        test('正常系: 毎週の支払いは月末までの予定をすべて加えること', () => {
+            const weekly: Subscription = {
+                ...subscription,
+                interval: 'weekly',
+                amount: 500,
+                lastChargedAt: '2025-06-07',
+                nextChargeDate: '2025-06-14',
+            };
+
+            const result = ForecastUtil.forecast(input({ subscriptions: [weekly] }));
+
+            // 14日・21日・28日
+            expect(result.upcomingSubscriptionAmount).toBe(1500);
+        });
+
+        test('正常系: 未払いのものは予定に含めないこと', () => {
+            const result = ForecastUtil.forecast(input({
+                subscriptions: [{ ...subscription, status: 'missed' }],
+            }));
+
+            expect(result.upcomingSubscriptionAmount).toBe(0);
+            expect(result.projectedAmount).toBe(30000);
+        });
+
+        test('正常系: 直近の月の平均から継続中の定期的な支払いの分を除くこと', () => {
+            const result = ForecastUtil.forecast(input({
+                asOf: new Date(2025, 4, 31),
+                dailyAmounts: {},
+                // 1日あたり2,000円（うち定期的な支払いが1,490円 / (365 / 12)日）
+                recentMonths: [{ totalAmount: 62000, days: 31 }],
+                subscriptions: [subscription],
+            }));
+
+            const expected = Math.round((2000 - 1490 / (365 / 12)) * 30 + 1490);
+            expect(result.projectedAmount).toBe(expected);
+        });
+    });
+
+    test('正常系: 下限は実績と予定されている定期的な支払いの合計を下回らないこと', () => {
+        const result = ForecastUtil.forecast(input({
+            asOf: new Date(2025, 5, 2),
+            dailyAmounts: dailyAmounts([0, 2000]),
+            recentMonths: [{ totalAmount: 310000, days: 31 }, { totalAmount: 0, days: 30 }],
+            subscriptions: [subscription],
+        }));
+
+        expect(result.lowerBound).toBe(2000 + 1490);
+        expect(result.upperBound).toBeGreaterThan(result.projectedAmount);
+    });
+});
@@ -0,0 +1,93 @@
+import { ReportBreakdownUtil } from '../../../../shared/utils/ReportBreakdownUtil';
+
+describe('ReportBreakdownUtil', () => {
+    describe('add', () => {
+        test('正常系: 既存の小計に金額と件数を加算した新しい小計を返すこと', () => {
+            const subtotals = { groceries: { amount: 1000, count: 1 } };
+
+            const result = ReportBreakdownUtil.add(subtotals, 'groceries', 500, 1);
+
+            expect(result).toEqual({ groceries: { amount: 1500, count: 2 } });
+            expect(subtotals).toEqual({ groceries: { amount: 1000, count: 1 } });
+        });
+
+        test('正常系: 小計がない場合は新しく集計を始めること', () => {
+            expect(ReportBreakdownUtil.add(undefined, 'dining', -300, 0)).toEqual({
+                dining: { amount: -300, count: 0 },
+            });
+        });
+    });
+
+    describe('categoryKeyOf / cardKeyOf', () => {
+        test('正常系: カテゴリ・カード名が未設定の場合は未分類・不明をキーとすること', () => {
+            expect(ReportBreakdownUtil.categoryKeyOf({ amount: 100, category: 'dining' })).toBe('dining');
+            expect(ReportBreakdownUtil.categoryKeyOf({ amount: 100 })).toBe('uncategorized');
+            expect(ReportBreakdownUtil.cardKeyOf({ amount: 100, card_name: ' 楽天カード ' })).toBe('楽天カード');
+            expect(ReportBreakdownUtil.cardKeyOf({ amount: 100 })).toBe('不明');
+        });
+    });
+
+    describe('merchantKeyOf', () => {
+        test('正常系: 正規化済みの利用先、利用先、不明の順にキーとすること', () => {
+            expect(ReportBreakdownUtil.merchantKeyOf({ amount: 100, merchant: 'AMAZON', where_to_use: 'AMAZON.CO.JP' }))
+                .toBe('AMAZON');
+            expect(ReportBreakdownUtil.merchantKeyOf({ amount: 100, where_to_use: ' AMAZON.CO.JP ' }))
+                .toBe('AMAZON.CO.JP');
+            expect(ReportBreakdownUtil.merchantKeyOf({ amount: 100 })).toBe('不明');
+        });
+    });
+
+    describe('toCategoryBreakdown', () => {
+        const report = {
+            totalAmount: 3000,
+            categoryTotals: {
+                dining: { amount: 1000, count: 1 },
+                groceries: { amount: 2000, count: 3 },
+            },
+        };
+
+        test('正常系: 金額の大きい順に表示名と構成比を含めて返すこと', () => {
+            const result = ReportBreakdownUtil.toCategoryBreakdown(report, [{ id: 'groceries', name: '食料品' }]);
+
+            expect(result).toEqual([
+                { category: 'groceries', name: '食料品', amount: 2000, count: 3, share: 66.7 },
+                { category: 'dining', name: 'dining', amount: 1000, count: 1, share: 33.3 },
+            ]);
+        });
+
+        test('正常系: 件数の上限を指定した場合は上位のみを返すこと', () => {
+            expect(ReportBreakdownUtil.toCategoryBreakdown(report, [], 1)).toHaveLength(1);
+        });
+
+        test('正常系: 合計金額が0以下の場合は構成比を0とすること', () => {
+            const result = ReportBreakdownUtil.toCategoryBreakdown({
+                totalAmount: 0,
+                categoryTotals: { dining: { amount: 0, count: 1 } },
+            });
+
+            expect(result[0].share).toBe(0);
+        });
+
+        test('正常系: 小計を持たないレポートの場合は空配列を返すこと', () => {
+            expect(ReportBreakdownUtil.toCategoryBreakdown({ totalAmount: 1000 })).toEqual([]);
+        });
+    });
+
+    describe('toMerchantBreakdown', () => {
+        test('正常系: 金額の大きい順に構成比を含めて返すこと', () => {
+            const result = ReportBreakdownUtil.toMerchantBreakdown({
+                totalAmount: 4000,
+                merchantTotals: {
+                    'イオン': { amount: 1000, count: 2 },
+                    'AMAZON': { amount: 3000, count: 1 },
+                },
+            }, 1);
+
+            expect(result).toEqual([{ merchant: 'AMAZON', amount: 3000, count: 1, share: 75 }]);
+        });
+
+        test('正常系: 小計を持たないレポートの場合は空配列を返すこと', () => {
+            expect(ReportBreakdownUtil.toMerchantBreakdown({ totalAmount: 1000 })).toEqual([]);
+        });
+    });
+});
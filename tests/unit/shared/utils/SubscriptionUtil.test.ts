@@ -0,0 +1,217 @@
+import { SubscriptionUtil, SubscriptionUsageSource } from '../../../../shared/utils/SubscriptionUtil';
+import { Subscription } from '../../../../shared/domain/entities/Subscription';
+
+describe('SubscriptionUtil', () => {
+    const usage = (date: Date, amount: number, overrides: Partial<SubscriptionUsageSource> = {}): SubscriptionUsageSource => ({
+        amount,
+        card_name: '楽天カード',
+        where_to_use: 'NETFLIX.COM',
+        merchant: 'NETFLIX',
+        category: 'subscriptions',
+        usedAt: date,
+        ...overrides,
+    });
+
+    // 毎月10日の支払い（3〜6月）
+    const monthly = [
+        usage(new Date(2025, 2, 10, 9, 0), 1490),
+        usage(new Date(2025, 3, 10, 9, 0), 1490),
+        usage(new Date(2025, 4, 10, 9, 0), 1490),
+        usage(new Date(2025, 5, 10, 9, 0), 1490),
+    ];
+
+    describe('detect', () => {
+        test('正常系: 同じカード・利用先の毎月の支払いを検出し、次回の支払予定日を求めること', () => {
+            const result = SubscriptionUtil.detect(monthly, new Date(2025, 5, 15));
+
+            expect(result).toEqual([{
+                id: '楽天カード:NETFLIX',
+                merchant: 'NETFLIX',
+                cardName: '楽天カード',
+                category: 'subscriptions',
+                interval: 'monthly',
+                amount: 1490,
+                chargeCount: 4,
+                lastChargedAt: '2025-06-10',
+                nextChargeDate: '2025-07-10',
+                status: 'active',
+            }]);
+        });
+
+        test('正常系: 毎週の支払いを検出すること', () => {
+            const weekly = [0, 7, 14, 21].map((day) =>
+                usage(new Date(2025, 5, 2 + day), 500, { merchant: 'ジム', where_to_use: 'GYM' })
+            );
+
+            const [result] = SubscriptionUtil.detect(weekly, new Date(2025, 5, 24));
+
+            expect(result.interval).toBe('weekly');
+            expect(result.nextChargeDate).toBe('2025-06-30');
+        });
+
+        test('正常系: 月末の支払いの次回の支払予定日は翌月の日数に合わせること', () => {
+            const endOfMonth = [
+                usage(new Date(2024, 11, 31), 980),
+                usage(new Date(2025, 0, 31), 980),
+                usage(new Date(2025, 1, 28), 980),
+            ];
+
+            const [result] = SubscriptionUtil.detect(endOfMonth, new Date(2025, 2, 1));
+
+            expect(result.nextChargeDate).toBe('2025-03-31');
+        });
+
+        test('正常系: 月末の支払いの次回の支払予定日は本来の支払日（31日）に戻すこと', () => {
+            const endOfMonth = [
+                usage(new Date(2025, 0, 31), 980),
+                usage(new Date(2025, 1, 28), 980),
+                usage(new Date(2025, 2, 31), 980),
+                usage(new Date(2025, 3, 30), 980),
+            ];
+
+            const [result] = SubscriptionUtil.detect(endOfMonth, new Date(2025, 4, 1));
+
+            expect(result.nextChargeDate).toBe('2025-05-31');
+        });
+
+        test('正常系: 支払いのない月を挟んでも、間隔が1か月の整数倍であれば検出すること', () => {
+            // 4月の支払いがない
+            const skipped = [
+                usage(new Date(2025, 0, 10), 1490),
+                usage(new Date(2025, 1, 10), 1490),
+                usage(new Date(2025, 2, 10), 1490),
+                ...monthly.slice(2),
+            ];
+
+            const [result] = SubscriptionUtil.detect(skipped, new Date(2025, 5, 15));
+
+            expect(result.interval).toBe('monthly');
+            expect(result.chargeCount).toBe(5);
+            expect(result.nextChargeDate).toBe('2025-07-10');
+            expect(result.status).toBe('active');
+        });
+
+        test('正常系: 前回検出済みのものは、支払いのない月の後に再開した場合も検出し続けること', () => {
+            // 5月の支払いがなく、6月に再開した
+            const resumed = [...monthly.slice(0, 2), monthly[3]];
+            const [previous] = SubscriptionUtil.detect(monthly.slice(0, 3), new Date(2025, 4, 15));
+
+            const [result] = SubscriptionUtil.detect(resumed, new Date(2025, 5, 15), [previous]);
+
+            expect(result.lastChargedAt).toBe('2025-06-10');
+            expect(result.status).toBe('active');
+        });
+
+        test('異常系: 前回検出されていないものは、支払いのない月を挟んだ間隔だけでは検出しないこと', () => {
+            const resumed = [...monthly.slice(0, 2), monthly[3]];
+
+            expect(SubscriptionUtil.detect(resumed, new Date(2025, 5, 15))).toEqual([]);
+        });
+
+        test('正常系: 正規化した利用先がない場合は元の表記でまとめること', () => {
+            const result = SubscriptionUtil.detect(
+                monthly.map((item) => ({ ...item, merchant: undefined })),
+                new Date(2025, 5, 15)
+            );
+
+            expect(result[0].id).toBe('楽天カード:NETFLIX.COM');
+            expect(result[0].merchant).toBe('NETFLIX.COM');
+        });
+
+        test('正常系: 途中で1度だけ金額が変わったものは定期的な支払いとみなし、最後の金額を使うこと', () => {
+            const changed = [...monthly.slice(0, 3), usage(new Date(2025, 5, 10), 1790)];
+
+            const [result] = SubscriptionUtil.detect(changed, new Date(2025, 5, 15));
+
+            expect(result.amount).toBe(1790);
+        });
+
+        test('正常系: 支払予定日から猶予日数を過ぎても支払いがない場合は未払いとすること', () => {
+            expect(SubscriptionUtil.detect(monthly, new Date(2025, 6, 17))[0].status).toBe('active');
+            expect(SubscriptionUtil.detect(monthly, new Date(2025, 6, 18))[0].status).toBe('missed');
+        });
+
+        test('異常系: 支払いの回数が足りない場合は検出しないこと', () => {
+            expect(SubscriptionUtil.detect(monthly.slice(0, 2), new Date(2025, 5, 15))).toEqual([]);
+        });
+
+        test('異常系: 間隔が一定でない場合は検出しないこと', () => {
+            const irregular = [...monthly.slice(0, 3), usage(new Date(2025, 4, 20), 1490)];
+
+            expect(SubscriptionUtil.detect(irregular, new Date(2025, 5, 15))).toEqual([]);
+        });
+
+        test('異常系: 金額が2度以上大きく変わる場合は検出しないこと', () => {
+            const varying = [
+                usage(new Date(2025, 2, 10), 1000),
+                usage(new Date(2025, 3, 10), 3000),
+                usage(new Date(2025, 4, 10), 1000),
+            ];
+
+            expect(SubscriptionUtil.detect(varying, new Date(2025, 5, 15))).toEqual([]);
+        });
+
+        test('異常系: 取消・返金、論理削除・確認待ちのものは支払いとして扱わないこと', () => {
+            const excluded = [
+                ...monthly.slice(0, 2),
+                usage(new Date(2025, 4, 10), -1490, { transaction_type: 'refund' }),
+                usage(new Date(2025, 4, 10), 1490, { is_active: false }),
+                usage(new Date(2025, 4, 10), 1490, { status: 'pending_review' }),
+            ];
+
+            expect(SubscriptionUtil.detect(excluded, new Date(2025, 5, 15))).toEqual([]);
+        });
+
+        test('正常系: カードが異なる支払いは別の定期的な支払いとしてまとめないこと', () => {
+            const otherCard = monthly.slice(0, 2).map((item) => ({ ...item, card_name: 'SMBC' }));
+
+            expect(SubscriptionUtil.detect([...monthly.slice(2), ...otherCard], new Date(2025, 5, 15))).toEqual([]);
+        });
+    });
+
+    describe('diff', () => {
+        const subscription: Subscription = {
+            id: '楽天カード:NETFLIX',
+            merchant: 'NETFLIX',
+            cardName: '楽天カード',
+            interval: 'monthly',
+            amount: 1490,
+            chargeCount: 4,
+            lastChargedAt: '2025-06-10',
+            nextChargeDate: '2025-07-10',
+            status: 'active',
+        };
+
+        test('正常系: 前回の検出結果にないものを新規とすること', () => {
+            expect(SubscriptionUtil.diff([], [subscription])).toEqual([{ type: 'new', subscription }]);
+        });
+
+        test('正常系: 前回の検出結果にない未払いのものは新規としないこと', () => {
+            expect(SubscriptionUtil.diff([], [{ ...subscription, status: 'missed' }])).toEqual([]);
+        });
+
+        test('正常系: 金額が変わったものを変わる前の金額とともに返すこと', () => {
+            const current = { ...subscription, amount: 1590 };
+
+            expect(SubscriptionUtil.diff([subscription], [current])).toEqual([
+                { type: 'price_changed', subscription: current, previousAmount: 1490 },
+            ]);
+        });
+
+        test('正常系: 通知する割合に満たない金額の差は変化としないこと', () => {
+            expect(SubscriptionUtil.diff([subscription], [{ ...subscription, amount: 1520 }])).toEqual([]);
+        });
+
+        test('正常系: 継続中から未払いになったときだけ未払いとすること', () => {
+            const missed = { ...subscription, status: 'missed' as const };
+
+            expect(SubscriptionUtil.diff([subscription], [missed])).toEqual([{ type: 'missed', subscription: missed }]);
+            expect(SubscriptionUtil.diff([missed], [missed])).toEqual([]);
+        });
+
+        test('正常系: 変化がない場合や検出されなくなったものは返さないこと', () => {
+            expect(SubscriptionUtil.diff([subscription], [subscription])).toEqual([]);
+            expect(SubscriptionUtil.diff([subscription], [])).toEqual([]);
+        });
+    });
+});
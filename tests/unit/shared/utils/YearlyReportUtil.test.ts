@@ -0,0 +1,77 @@
+import { YearlyReportUtil } from '../../../../shared/utils/YearlyReportUtil';
+import { YearlyReport } from '../../../../shared/domain/entities/Reports';
+
+describe('YearlyReportUtil', () => {
+    const yearlyReport = (totalAmount: number, overrides: Partial<YearlyReport> = {}): YearlyReport => ({
+        totalAmount,
+        totalCount: 10,
+        lastUpdated: 'SERVER_TIMESTAMP' as any,
+        lastUpdatedBy: 'system',
+        documentIdList: [],
+        yearStartDate: {} as any,
+        yearEndDate: {} as any,
+        monthlyTotals: {},
+        categoryTotals: {},
+        cardTotals: {},
+        merchantTotals: {},
+        ...overrides,
+    });
+
+    describe('toSummary', () => {
+        test('正常系: 12か月分の月別の利用額と上位の支出カテゴリ・利用先を含めること', () => {
+            const report = yearlyReport(6000, {
+                monthlyTotals: {
+                    '01': { amount: 1000, count: 1 },
+                    '12': { amount: 5000, count: 3 },
+                },
+                categoryTotals: { groceries: { amount: 6000, count: 4 } },
+                merchantTotals: {
+                    'イオン': { amount: 1000, count: 1 },
+                    'AMAZON': { amount: 5000, count: 3 },
+                },
+            });
+
+            const result = YearlyReportUtil.toSummary(2025, report, null, [{ id: 'groceries', name: '食料品' }]);
+
+            expect(result.year).toBe(2025);
+            expect(result.months).toHaveLength(12);
+            expect(result.months[0]).toEqual({ month: 1, amount: 1000, count: 1 });
+            expect(result.months[5]).toEqual({ month: 6, amount: 0, count: 0 });
+            expect(result.months[11]).toEqual({ month: 12, amount: 5000, count: 3 });
+            expect(result.topCategories[0].name).toBe('食料品');
+            expect(result.topMerchants.map((merchant) => merchant.merchant)).toEqual(['AMAZON', 'イオン']);
+            expect(result.yearOverYear).toBeNull();
+        });
+
+        test('正常系: 上位の一覧は上限の件数までとすること', () => {
+            const merchantTotals = Object.fromEntries(
+                Array.from({ length: 8 }, (_, index) => [`店舗${index}`, { amount: 100 * (index + 1), count: 1 }])
+            );
+
+            const result = YearlyReportUtil.toSummary(2025, yearlyReport(3600, { merchantTotals }), null);
+
+            expect(result.topMerchants).toHaveLength(YearlyReportUtil.TOP_LIMIT);
+            expect(result.topMerchants[0].merchant).toBe('店舗7');
+        });
+
+        test('正常系: 前年のレポートがある場合は前年との比較を含めること', () => {
+            const result = YearlyReportUtil.toSummary(2025, yearlyReport(1100000), yearlyReport(1000000));
+
+            expect(result.yearOverYear).toEqual({ previousTotalAmount: 1000000, difference: 100000, changeRate: 10 });
+        });
+    });
+
+    describe('toYearOverYear', () => {
+        test('正常系: 増減率を小数第1位に丸めること', () => {
+            expect(YearlyReportUtil.toYearOverYear({ totalAmount: 2000 }, { totalAmount: 3000 })).toEqual({
+                previousTotalAmount: 3000,
+                difference: -1000,
+                changeRate: -33.3,
+            });
+        });
+
+        test('正常系: 前年の合計が0以下の場合は増減率をnullとすること', () => {
+            expect(YearlyReportUtil.toYearOverYear({ totalAmount: 2000 }, { totalAmount: 0 }).changeRate).toBeNull();
+        });
+    });
+});
@@ -4,6 +4,7 @@ import { DependencyContainer } from '../../../../../src/infrastructure/config/De
 import { EmailController } from '../../../../../src/presentation/email/controllers/EmailController';
 import { TestRunner } from '../../../../../src/infrastructure/test/TestRunner';
 import { CardCompany } from '../../../../../src/domain/enums/CardCompany';
+import { Environment } from '../../../../../shared/infrastructure/config/Environment';
 import { ProcessEmailUseCase } from '../../../../../src/usecases/email/ProcessEmailUseCase';
 import { Server } from 'http';
 
@@ -83,6 +84,8 @@ describe('Application', () => {
 
     // EmailControllerのモックを設定
     mockEmailController = new EmailController(
+      {} as any,
+      {} as any,
       {} as any,
       {} as any
     ) as jest.Mocked<EmailController>;
@@ -159,6 +162,14 @@ describe('Application', () => {
       // EmailControllerのstartAllMonitoringが呼ばれることを確認
       expect(mockEmailController.startAllMonitoring).toHaveBeenCalled();
     });
+
+    test('正常系: メールを受信Webhookのみで受け取る場合、メール監視は開始されないこと', async () => {
+      jest.spyOn(Environment, 'isImapSourceEnabled').mockReturnValueOnce(false);
+
+      await application.runInNormalMode();
+
+      expect(mockEmailController.startAllMonitoring).not.toHaveBeenCalled();
+    });
   });
 
   describe('runInTestMode', () => {
@@ -0,0 +1,100 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import { CardUsageCategorizer } from '../../../../../src/infrastructure/category/CardUsageCategorizer';
+import { IConfigRepository } from '../../../../../shared/domain/interfaces/database/repositories/IConfigRepository';
+import { CardUsage } from '../../../../../shared/domain/entities/CardUsage';
+import { CategoryRule, DEFAULT_CATEGORIES } from '../../../../../shared/domain/entities/Category';
+import { logger } from '../../../../../shared/infrastructure/logging/Logger';
+
+// Loggerをモック化
+jest.mock('../../../../../shared/infrastructure/logging/Logger', () => ({
+    logger: {
+        info: jest.fn(),
+        debug: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+    }
+}));
+
+describe('CardUsageCategorizer', () => {
+    let mockConfigRepository: jest.Mocked<IConfigRepository>;
+    let categorizer: CardUsageCategorizer;
+
+    const createCardUsage = (overrides: Partial<CardUsage> = {}): CardUsage => ({
+        card_name: '三井住友カード（NL）',
+        datetime_of_use: Timestamp.fromDate(new Date('2025-05-10T12:00:00+09:00')),
+        amount: 1490,
+        where_to_use: 'NETFLIX.COM',
+        merchant: 'NETFLIX.COM',
+        created_at: Timestamp.now(),
+        ...overrides,
+    });
+
+    const rules: CategoryRule[] = [
+        { category: 'subscriptions', merchantPattern: '^NETFLIX|SPOTIFY' },
+        { category: 'groceries', merchantPattern: 'スーパー', maxAmount: 10000 },
+        { category: 'shopping', merchantPattern: 'スーパー' },
+        { category: 'transport', cardName: 'デビット', minAmount: 100, maxAmount: 500 },
+    ];
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+
+        mockConfigRepository = {
+            getReportThresholds: jest.fn(),
+            getIssuerTemplates: jest.fn(),
+            getIssuerTemplateConfig: jest.fn(),
+            saveIssuerTemplate: jest.fn(),
+            rollbackIssuerTemplate: jest.fn(),
+            getMerchantAliases: jest.fn(),
+            saveMerchantAliases: jest.fn(),
+            getCategoryConfig: jest.fn().mockResolvedValue({ categories: DEFAULT_CATEGORIES, rules }),
+            saveCategories: jest.fn(),
+            saveCategoryRules: jest.fn(),
+            getBudgets: jest.fn(),
+            saveBudget: jest.fn(),
+            deleteBudget: jest.fn(),
+            getCards: jest.fn(),
+            saveCard: jest.fn(),
+            deleteCard: jest.fn(),
+        };
+
+        categorizer = new CardUsageCategorizer(mockConfigRepository);
+    });
+
+    describe('categorize', () => {
+        test.each([
+            ['利用先の正規表現に一致するルールのカテゴリを割り当てること（大文字・小文字を区別しない）',
+                { merchant: 'Spotify' }, 'subscriptions'],
+            ['先に一致したルールのカテゴリを割り当てること', { merchant: 'スーパーマルエツ', amount: 3200 }, 'groceries'],
+            ['金額の範囲外のルールは使用しないこと', { merchant: 'スーパーマルエツ', amount: 12000 }, 'shopping'],
+            ['取消・返金は金額の絶対値で比較すること', { merchant: 'スーパーマルエツ', amount: -3200 }, 'groceries'],
+            ['カード名は部分一致で比較すること',
+                { card_name: '三菱UFJ デビット', merchant: 'JR東日本', amount: 170 }, 'transport'],
+            ['正規化した利用先が未設定の場合は元の利用先で比較すること',
+                { merchant: undefined, where_to_use: 'netflix.com' }, 'subscriptions'],
+            ['どのルールにも一致しない場合は未分類とすること', { merchant: 'ドトール', amount: 450 }, 'uncategorized'],
+        ])('正常系: %s', async (_, overrides, expected) => {
+            expect(await categorizer.categorize(createCardUsage(overrides))).toBe(expected);
+        });
+
+        test('正常系: 設定情報リポジトリを指定しない場合は未分類とすること', async () => {
+            categorizer = new CardUsageCategorizer();
+
+            expect(await categorizer.categorize(createCardUsage())).toBe('uncategorized');
+        });
+
+        test('異常系: ルールを取得できない場合は未分類とすること', async () => {
+            mockConfigRepository.getCategoryConfig.mockRejectedValue(new Error('取得エラー'));
+
+            expect(await categorizer.categorize(createCardUsage())).toBe('uncategorized');
+            expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('取得エラー'), 'CardUsageCategorizer');
+        });
+    });
+
+    describe('hasCategory', () => {
+        test('正常系: 登録済みのカテゴリかどうかを返すこと', async () => {
+            expect(await categorizer.hasCategory('groceries')).toBe(true);
+            expect(await categorizer.hasCategory('unknown')).toBe(false);
+        });
+    });
+});
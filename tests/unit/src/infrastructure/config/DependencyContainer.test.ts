@@ -1,11 +1,24 @@
 import { DependencyContainer } from '../../../../../src/infrastructure/config/DependencyContainer';
+import { CardIssuerParserRegistry } from '../../../../../src/infrastructure/email/issuers/CardIssuerParserRegistry';
 import { ImapEmailService } from '../../../../../src/infrastructure/email/ImapEmailService';
+import { FirestoreImapStateRepository } from '../../../../../src/infrastructure/database/repositories/FirestoreImapStateRepository';
 import { FirestoreCardUsageRepository } from '../../../../../src/infrastructure/database/repositories/FirestoreCardUsageRepository';
 import { DiscordNotifier } from '../../../../../shared/infrastructure/discord/DiscordNotifier';
 import { ProcessEmailUseCase } from '../../../../../src/usecases/email/ProcessEmailUseCase';
 import { EmailController } from '../../../../../src/presentation/email/controllers/EmailController';
 import { ProcessCardCompanyEmailUseCase } from '../../../../../src/usecases/email/ProcessCardCompanyEmailUseCase';
 import { NotifyCardUsageUseCase } from '../../../../../src/usecases/notification/NotifyCardUsageUseCase';
+import { DeadLetterUseCase } from '../../../../../src/usecases/email/DeadLetterUseCase';
+import { ImportEmailsUseCase } from '../../../../../src/usecases/email/ImportEmailsUseCase';
+import { PreviewEmailParseUseCase } from '../../../../../src/usecases/email/PreviewEmailParseUseCase';
+import { ReconcileStatementUseCase } from '../../../../../src/usecases/statement/ReconcileStatementUseCase';
+import { BackfillMerchantUseCase } from '../../../../../src/usecases/database/BackfillMerchantUseCase';
+import { MerchantNormalizer } from '../../../../../src/infrastructure/merchant/MerchantNormalizer';
+import { CardUsageCategorizer } from '../../../../../src/infrastructure/category/CardUsageCategorizer';
+import { ApplyCategoryRulesUseCase } from '../../../../../src/usecases/category/ApplyCategoryRulesUseCase';
+import { CardUsageDuplicateUseCase } from '../../../../../src/usecases/database/CardUsageDuplicateUseCase';
+import { CardUsageValidator } from '../../../../../src/infrastructure/email/CardUsageValidator';
+import { FirestoreDeadLetterRepository } from '../../../../../src/infrastructure/database/repositories/FirestoreDeadLetterRepository';
 
 // ErrorHandlerをモック化
 jest.mock('../../../../../shared/infrastructure/errors/ErrorHandler', () => ({
@@ -35,11 +48,25 @@ jest.mock('../../../../../shared/infrastructure/config/Environment', () => ({
 // 依存コンポーネントをモック
 jest.mock('../../../../../src/infrastructure/email/ImapEmailService');
 jest.mock('../../../../../src/infrastructure/database/repositories/FirestoreCardUsageRepository');
+jest.mock('../../../../../src/infrastructure/database/repositories/FirestoreImapStateRepository');
+jest.mock('../../../../../src/infrastructure/database/repositories/FirestoreDeadLetterRepository');
+jest.mock('../../../../../src/usecases/email/DeadLetterUseCase');
+jest.mock('../../../../../src/usecases/email/ImportEmailsUseCase');
+jest.mock('../../../../../src/usecases/email/PreviewEmailParseUseCase');
+jest.mock('../../../../../src/usecases/statement/ReconcileStatementUseCase');
+jest.mock('../../../../../src/usecases/database/BackfillMerchantUseCase');
+jest.mock('../../../../../src/usecases/category/ApplyCategoryRulesUseCase');
 jest.mock('../../../../../shared/infrastructure/discord/DiscordNotifier');
 jest.mock('../../../../../src/usecases/email/ProcessEmailUseCase');
 jest.mock('../../../../../src/presentation/email/controllers/EmailController');
 jest.mock('../../../../../src/usecases/email/ProcessCardCompanyEmailUseCase');
 jest.mock('../../../../../src/usecases/notification/NotifyCardUsageUseCase');
+jest.mock('../../../../../shared/infrastructure/database/repositories/FirestoreConfigRepository');
+jest.mock('../../../../../src/infrastructure/email/issuers/IssuerTemplateLoader', () => ({
+    IssuerTemplateLoader: jest.fn().mockImplementation(() => ({
+        load: jest.fn().mockResolvedValue(0)
+    }))
+}));
 
 // Loggerをモック化
 jest.mock('../../../../../shared/infrastructure/logging/Logger', () => ({
@@ -86,8 +113,8 @@ describe('DependencyContainer', () => {
             loggingWebhookUrl: mockEnvironment.DISCORD_LOGGING_WEBHOOK_URL
         }) as jest.Mocked<DiscordNotifier>;
         mockProcessEmailUseCase = new ProcessEmailUseCase({} as any, {} as any) as jest.Mocked<ProcessEmailUseCase>;
-        mockEmailController = new EmailController({} as any, {} as any) as jest.Mocked<EmailController>;
-        mockProcessCardCompanyEmailUseCase = new ProcessCardCompanyEmailUseCase({} as any) as jest.Mocked<ProcessCardCompanyEmailUseCase>;
+        mockEmailController = new EmailController({} as any, {} as any, {} as any, {} as any) as jest.Mocked<EmailController>;
+        mockProcessCardCompanyEmailUseCase = new ProcessCardCompanyEmailUseCase({} as any, {} as any, {} as any) as jest.Mocked<ProcessCardCompanyEmailUseCase>;
         mockNotifyCardUsageUseCase = new NotifyCardUsageUseCase({} as any) as jest.Mocked<NotifyCardUsageUseCase>;
 
         // コンストラクタのモック
@@ -126,7 +153,9 @@ describe('DependencyContainer', () => {
             expect(ImapEmailService).toHaveBeenCalledWith(
                 mockEnvironment.IMAP_SERVER,
                 mockEnvironment.IMAP_USER,
-                mockEnvironment.IMAP_PASSWORD
+                mockEnvironment.IMAP_PASSWORD,
+                expect.any(CardIssuerParserRegistry),
+                expect.any(FirestoreImapStateRepository)
             );
 
             // FirestoreCardUsageRepositoryが初期化されることを確認
@@ -144,15 +173,65 @@ describe('DependencyContainer', () => {
             // ProcessEmailUseCaseが正しい引数で初期化されることを確認
             expect(ProcessEmailUseCase).toHaveBeenCalledWith(
                 mockImapEmailService,
-                mockFirestoreCardUsageRepository
+                mockFirestoreCardUsageRepository,
+                expect.any(CardUsageValidator),
+                undefined,
+                expect.any(CardUsageDuplicateUseCase),
+                expect.any(MerchantNormalizer),
+                expect.any(CardUsageCategorizer)
+            );
+
+            // DeadLetterUseCaseが正しい引数で初期化され、ProcessCardCompanyEmailUseCaseに渡されることを確認
+            expect(DeadLetterUseCase).toHaveBeenCalledWith(
+                expect.any(FirestoreDeadLetterRepository),
+                mockProcessEmailUseCase,
+                mockNotifyCardUsageUseCase,
+                expect.any(CardIssuerParserRegistry)
+            );
+            expect(ProcessCardCompanyEmailUseCase).toHaveBeenCalledWith(
+                mockProcessEmailUseCase,
+                expect.any(CardIssuerParserRegistry),
+                dependencyContainer.getDeadLetterUseCase()
+            );
+
+            // ImportEmailsUseCaseが正しい引数で初期化されることを確認
+            expect(ImportEmailsUseCase).toHaveBeenCalledWith(
+                mockProcessCardCompanyEmailUseCase,
+                expect.any(CardIssuerParserRegistry)
+            );
+
+            // ReconcileStatementUseCaseにカード会社ごとの利用明細CSVのパーサーが渡されることを確認
+            const [statementParsers, cardUsageRepository, merchantNormalizer, categorizer] =
+                (ReconcileStatementUseCase as jest.MockedClass<typeof ReconcileStatementUseCase>).mock.calls[0];
+            expect(statementParsers.map((parser) => parser.cardCompany)).toEqual(['MUFG', 'SMBC']);
+            expect(cardUsageRepository).toBe(mockFirestoreCardUsageRepository);
+            expect(merchantNormalizer).toBeInstanceOf(MerchantNormalizer);
+            expect(categorizer).toBeInstanceOf(CardUsageCategorizer);
+
+            // BackfillMerchantUseCaseにメールの取り込みと同じ利用先の正規化が渡されることを確認
+            expect(BackfillMerchantUseCase).toHaveBeenCalledWith(
+                mockFirestoreCardUsageRepository,
+                merchantNormalizer
+            );
+
+            // ApplyCategoryRulesUseCaseにメールの取り込みと同じ自動分類が渡されることを確認
+            expect(ApplyCategoryRulesUseCase).toHaveBeenCalledWith(
+                mockFirestoreCardUsageRepository,
+                expect.any(CardUsageCategorizer)
             );
 
             // EmailControllerが正しい引数で初期化されることを確認
             expect(EmailController).toHaveBeenCalledWith(
                 mockProcessCardCompanyEmailUseCase,
-                mockNotifyCardUsageUseCase
+                mockNotifyCardUsageUseCase,
+                expect.any(CardIssuerParserRegistry),
+                expect.any(FirestoreImapStateRepository)
             );
 
+            // 組み込みのカード会社パーサーが登録されることを確認
+            const registry = dependencyContainer.getCardIssuerParserRegistry();
+            expect(registry.getAll().map((parser) => parser.cardCompany)).toEqual(['MUFG', 'SMBC', 'RAKUTEN', 'JCB', 'AEON', 'EPOS']);
+
             // ステータス更新のログが記録されることを確認
             expect(mockLogger.updateServiceStatus).toHaveBeenCalledWith(
                 'FirestoreRepository',
@@ -219,6 +298,36 @@ describe('DependencyContainer', () => {
             expect(result).toBe(mockProcessCardCompanyEmailUseCase);
         });
 
+        test('getDeadLetterUseCaseが正しいインスタンスを返すこと', () => {
+            const result = dependencyContainer.getDeadLetterUseCase();
+            expect(result).toBeInstanceOf(DeadLetterUseCase);
+        });
+
+        test('getImportEmailsUseCaseが正しいインスタンスを返すこと', () => {
+            const result = dependencyContainer.getImportEmailsUseCase();
+            expect(result).toBeInstanceOf(ImportEmailsUseCase);
+        });
+
+        test('getPreviewEmailParseUseCaseが正しいインスタンスを返すこと', () => {
+            const result = dependencyContainer.getPreviewEmailParseUseCase();
+            expect(result).toBeInstanceOf(PreviewEmailParseUseCase);
+        });
+
+        test('getReconcileStatementUseCaseが正しいインスタンスを返すこと', () => {
+            const result = dependencyContainer.getReconcileStatementUseCase();
+            expect(result).toBeInstanceOf(ReconcileStatementUseCase);
+        });
+
+        test('getBackfillMerchantUseCaseが正しいインスタンスを返すこと', () => {
+            const result = dependencyContainer.getBackfillMerchantUseCase();
+            expect(result).toBeInstanceOf(BackfillMerchantUseCase);
+        });
+
+        test('getApplyCategoryRulesUseCaseが正しいインスタンスを返すこと', () => {
+            const result = dependencyContainer.getApplyCategoryRulesUseCase();
+            expect(result).toBeInstanceOf(ApplyCategoryRulesUseCase);
+        });
+
         test('getNotifyCardUsageUseCaseが正しいインスタンスを返すこと', () => {
             const result = dependencyContainer.getNotifyCardUsageUseCase();
             expect(result).toBe(mockNotifyCardUsageUseCase);
@@ -3,6 +3,25 @@ import { MonitoringRoutes } from '../../../../../src/presentation/api/routes/Mon
 import { ServiceRoutes } from '../../../../../src/presentation/api/routes/ServiceRoutes';
 import { CardUsageRoutes } from '../../../../../src/presentation/api/routes/CardUsageRoutes';
 import { ReportsRoutes } from '../../../../../src/presentation/api/routes/ReportsRoutes';
+import { IssuerTemplateRoutes } from '../../../../../src/presentation/api/routes/IssuerTemplateRoutes';
+import { DeadLetterRoutes } from '../../../../../src/presentation/api/routes/DeadLetterRoutes';
+import { ImportRoutes } from '../../../../../src/presentation/api/routes/ImportRoutes';
+import { ImportController } from '../../../../../src/presentation/api/controllers/ImportController';
+import { InboundEmailRoutes } from '../../../../../src/presentation/api/routes/InboundEmailRoutes';
+import { ParseRoutes } from '../../../../../src/presentation/api/routes/ParseRoutes';
+import { ParseController } from '../../../../../src/presentation/api/controllers/ParseController';
+import { MerchantAliasRoutes } from '../../../../../src/presentation/api/routes/MerchantAliasRoutes';
+import { MerchantAliasController } from '../../../../../src/presentation/api/controllers/MerchantAliasController';
+import { CategoryRoutes } from '../../../../../src/presentation/api/routes/CategoryRoutes';
+import { CategoryController } from '../../../../../src/presentation/api/controllers/CategoryController';
+import { BudgetRoutes } from '../../../../../src/presentation/api/routes/BudgetRoutes';
+import { BudgetController } from '../../../../../src/presentation/api/controllers/BudgetController';
+import { CardRoutes } from '../../../../../src/presentation/api/routes/CardRoutes';
+import { CardController } from '../../../../../src/presentation/api/controllers/CardController';
+import { SubscriptionRoutes } from '../../../../../src/presentation/api/routes/SubscriptionRoutes';
+import { SubscriptionController } from '../../../../../src/presentation/api/controllers/SubscriptionController';
+import { InboundEmailController } from '../../../../../src/presentation/api/controllers/InboundEmailController';
+import { Environment } from '../../../../../shared/infrastructure/config/Environment';
 import { ServiceController } from '../../../../../src/presentation/api/controllers/ServiceController';
 import { CardUsageController } from '../../../../../src/presentation/api/controllers/CardUsageController';
 import { ReportController } from '../../../../../src/presentation/api/controllers/ReportController';
@@ -16,9 +35,29 @@ jest.mock('../../../../../src/presentation/api/routes/MonitoringRoutes');
 jest.mock('../../../../../src/presentation/api/routes/ServiceRoutes');
 jest.mock('../../../../../src/presentation/api/routes/CardUsageRoutes');
 jest.mock('../../../../../src/presentation/api/routes/ReportsRoutes');
+jest.mock('../../../../../src/presentation/api/routes/IssuerTemplateRoutes');
+jest.mock('../../../../../src/presentation/api/routes/DeadLetterRoutes');
+jest.mock('../../../../../src/presentation/api/routes/ImportRoutes');
+jest.mock('../../../../../src/presentation/api/routes/InboundEmailRoutes');
+jest.mock('../../../../../src/presentation/api/routes/ParseRoutes');
+jest.mock('../../../../../src/presentation/api/routes/MerchantAliasRoutes');
+jest.mock('../../../../../src/presentation/api/routes/CategoryRoutes');
+jest.mock('../../../../../src/presentation/api/routes/BudgetRoutes');
+jest.mock('../../../../../src/presentation/api/routes/CardRoutes');
 jest.mock('../../../../../src/presentation/api/controllers/ServiceController');
 jest.mock('../../../../../src/presentation/api/controllers/CardUsageController');
 jest.mock('../../../../../src/presentation/api/controllers/ReportController');
+jest.mock('../../../../../src/presentation/api/controllers/IssuerTemplateController');
+jest.mock('../../../../../src/presentation/api/controllers/DeadLetterController');
+jest.mock('../../../../../src/presentation/api/controllers/ImportController');
+jest.mock('../../../../../src/presentation/api/controllers/InboundEmailController');
+jest.mock('../../../../../src/presentation/api/controllers/ParseController');
+jest.mock('../../../../../src/presentation/api/controllers/MerchantAliasController');
+jest.mock('../../../../../src/presentation/api/controllers/CategoryController');
+jest.mock('../../../../../src/presentation/api/controllers/BudgetController');
+jest.mock('../../../../../src/presentation/api/controllers/CardController');
+jest.mock('../../../../../src/presentation/api/routes/SubscriptionRoutes');
+jest.mock('../../../../../src/presentation/api/controllers/SubscriptionController');
 jest.mock('express', () => {
     const mockRouter = {
         use: jest.fn().mockReturnThis(),
@@ -105,6 +144,56 @@ describe('HttpAppConfig', () => {
         (mockReportsRoutes.getRouter as jest.Mock).mockReturnValue('reports-router');
         (ReportsRoutes as jest.MockedClass<typeof ReportsRoutes>).mockImplementation(() => mockReportsRoutes);
 
+        // IssuerTemplateRoutesのモック
+        (IssuerTemplateRoutes as jest.MockedClass<typeof IssuerTemplateRoutes>).mockImplementation(() => ({
+            getRouter: jest.fn().mockReturnValue('issuer-template-router')
+        }) as any);
+
+        // DeadLetterRoutesのモック
+        (DeadLetterRoutes as jest.MockedClass<typeof DeadLetterRoutes>).mockImplementation(() => ({
+            getRouter: jest.fn().mockReturnValue('dead-letter-router')
+        }) as any);
+
+        // ImportRoutesのモック
+        (ImportRoutes as jest.MockedClass<typeof ImportRoutes>).mockImplementation(() => ({
+            getRouter: jest.fn().mockReturnValue('import-router')
+        }) as any);
+
+        // ParseRoutesのモック
+        (ParseRoutes as jest.MockedClass<typeof ParseRoutes>).mockImplementation(() => ({
+            getRouter: jest.fn().mockReturnValue('parse-router')
+        }) as any);
+
+        // MerchantAliasRoutesのモック
+        (MerchantAliasRoutes as jest.MockedClass<typeof MerchantAliasRoutes>).mockImplementation(() => ({
+            getRouter: jest.fn().mockReturnValue('merchant-alias-router')
+        }) as any);
+
+        // CategoryRoutesのモック
+        (CategoryRoutes as jest.MockedClass<typeof CategoryRoutes>).mockImplementation(() => ({
+            getRouter: jest.fn().mockReturnValue('category-router')
+        }) as any);
+
+        // BudgetRoutesのモック
+        (BudgetRoutes as jest.MockedClass<typeof BudgetRoutes>).mockImplementation(() => ({
+            getRouter: jest.fn().mockReturnValue('budget-router')
+        }) as any);
+
+        // CardRoutesのモック
+        (CardRoutes as jest.MockedClass<typeof CardRoutes>).mockImplementation(() => ({
+            getRouter: jest.fn().mockReturnValue('card-router')
+        }) as any);
+
+        // SubscriptionRoutesのモック
+        (SubscriptionRoutes as jest.MockedClass<typeof SubscriptionRoutes>).mockImplementation(() => ({
+            getRouter: jest.fn().mockReturnValue('subscription-router')
+        }) as any);
+
+        // InboundEmailRoutesのモック
+        (InboundEmailRoutes as jest.MockedClass<typeof InboundEmailRoutes>).mockImplementation(() => ({
+            getRouter: jest.fn().mockReturnValue('inbound-email-router')
+        }) as any);
+
         // ServiceControllerのモック
         mockServiceController = new ServiceController() as jest.Mocked<ServiceController>;
         (mockServiceController.setEmailController as jest.Mock).mockReturnValue(undefined);
@@ -126,7 +215,14 @@ describe('HttpAppConfig', () => {
 
         // DependencyContainerのモック
         mockDependencyContainer = {
-            getDiscordNotifier: jest.fn().mockReturnValue(mockDiscordNotifier)
+            getDiscordNotifier: jest.fn().mockReturnValue(mockDiscordNotifier),
+            getConfigRepository: jest.fn().mockReturnValue({}),
+            getIssuerTemplateLoader: jest.fn().mockReturnValue({}),
+            getDeadLetterUseCase: jest.fn().mockReturnValue({}),
+            getImportEmailsUseCase: jest.fn().mockReturnValue({}),
+            getReconcileStatementUseCase: jest.fn().mockReturnValue({}),
+            getPreviewEmailParseUseCase: jest.fn().mockReturnValue({}),
+            getApplyCategoryRulesUseCase: jest.fn().mockReturnValue({})
         } as unknown as jest.Mocked<IDependencyContainer>;
 
         // HttpAppConfigのインスタンスを作成
@@ -139,10 +235,10 @@ describe('HttpAppConfig', () => {
             const express = require('express');
             expect(express).toHaveBeenCalled();
             expect(express.json).toHaveBeenCalled();
-            expect(mockExpressApp.use).toHaveBeenCalledWith('json-parser-middleware');
 
             // ReportControllerが初期化されることを確認
             expect(ReportController).toHaveBeenCalled();
+            expect(SubscriptionController).toHaveBeenCalled();
 
             // CORSミドルウェアが設定されることを確認
             expect(mockExpressApp.use).toHaveBeenCalledWith(expect.any(Function));
@@ -154,6 +250,25 @@ describe('HttpAppConfig', () => {
             expect(mockExpressApp.use).toHaveBeenCalledWith(expect.any(Function));
         });
 
+        test('受信Webhook以外のリクエストボディをJSONとして解析すること', () => {
+            const express = require('express');
+            const jsonParser = jest.fn();
+            express.json.mockReturnValueOnce(jsonParser);
+            mockExpressApp.use.mockClear();
+            httpAppConfig = new HttpAppConfig();
+            // CORSの次に登録されるミドルウェア
+            const middleware = mockExpressApp.use.mock.calls[1][0];
+            const next = jest.fn();
+
+            middleware({ path: '/api/cards' }, {}, next);
+            expect(jsonParser).toHaveBeenCalledWith({ path: '/api/cards' }, {}, next);
+
+            jsonParser.mockClear();
+            middleware({ path: '/api/inbound/emails' }, {}, next);
+            expect(jsonParser).not.toHaveBeenCalled();
+            expect(next).toHaveBeenCalled();
+        });
+
         test('デフォルトポートは環境変数未設定時に3000になること', () => {
             delete process.env.PORT;
             httpAppConfig = new HttpAppConfig();
@@ -251,6 +366,144 @@ describe('HttpAppConfig', () => {
         });
     });
 
+    describe('setupIssuerTemplateRoutes', () => {
+        test('IssuerTemplateControllerが初期化されていない場合、エラーがスローされること', () => {
+            expect(() => {
+                httpAppConfig.setupIssuerTemplateRoutes();
+            }).toThrow('IssuerTemplateController が初期化されていません。initializeControllersを先に呼び出してください。');
+        });
+    });
+
+    describe('setupDeadLetterRoutes', () => {
+        test('DeadLetterControllerが初期化されていない場合、エラーがスローされること', () => {
+            expect(() => {
+                httpAppConfig.setupDeadLetterRoutes();
+            }).toThrow('DeadLetterController が初期化されていません。initializeControllersを先に呼び出してください。');
+        });
+    });
+
+    describe('setupImportRoutes', () => {
+        test('ImportControllerが初期化されていない場合、エラーがスローされること', () => {
+            expect(() => {
+                httpAppConfig.setupImportRoutes();
+            }).toThrow('ImportController が初期化されていません。initializeControllersを先に呼び出してください。');
+        });
+
+        test('データ取り込みルートが正しく設定されること', () => {
+            httpAppConfig.initializeControllers(mockDependencyContainer);
+            httpAppConfig.setupImportRoutes();
+
+            expect(ImportController).toHaveBeenCalledWith(
+                mockDependencyContainer.getImportEmailsUseCase(),
+                mockDependencyContainer.getReconcileStatementUseCase()
+            );
+            expect(mockExpressApp.use).toHaveBeenCalledWith('/api/imports', 'import-router');
+        });
+    });
+
+    describe('setupParseRoutes', () => {
+        test('ParseControllerが初期化されていない場合、エラーがスローされること', () => {
+            expect(() => {
+                httpAppConfig.setupParseRoutes();
+            }).toThrow('ParseController が初期化されていません。initializeControllersを先に呼び出してください。');
+        });
+
+        test('メール解析ルートが正しく設定されること', () => {
+            httpAppConfig.initializeControllers(mockDependencyContainer);
+            httpAppConfig.setupParseRoutes();
+
+            expect(ParseController).toHaveBeenCalledWith(mockDependencyContainer.getPreviewEmailParseUseCase());
+            expect(mockExpressApp.use).toHaveBeenCalledWith('/api/parse', 'parse-router');
+        });
+    });
+
+    describe('setupMerchantAliasRoutes', () => {
+        test('MerchantAliasControllerが初期化されていない場合、エラーがスローされること', () => {
+            expect(() => {
+                httpAppConfig.setupMerchantAliasRoutes();
+            }).toThrow('MerchantAliasController が初期化されていません。initializeControllersを先に呼び出してください。');
+        });
+
+        test('利用先の別名ルートが正しく設定されること', () => {
+            httpAppConfig.initializeControllers(mockDependencyContainer);
+            httpAppConfig.setupMerchantAliasRoutes();
+
+            expect(MerchantAliasController).toHaveBeenCalledWith(mockDependencyContainer.getConfigRepository());
+            expect(mockExpressApp.use).toHaveBeenCalledWith('/api/merchant-aliases', 'merchant-alias-router');
+        });
+    });
+
+    describe('setupCategoryRoutes', () => {
+        test('CategoryControllerが初期化されていない場合、エラーがスローされること', () => {
+            expect(() => {
+                httpAppConfig.setupCategoryRoutes();
+            }).toThrow('CategoryController が初期化されていません。initializeControllersを先に呼び出してください。');
+        });
+
+        test('支出カテゴリルートが正しく設定されること', () => {
+            httpAppConfig.initializeControllers(mockDependencyContainer);
+            httpAppConfig.setupCategoryRoutes();
+
+            expect(CategoryController).toHaveBeenCalledWith(
+                mockDependencyContainer.getConfigRepository(),
+                mockDependencyContainer.getApplyCategoryRulesUseCase()
+            );
+            expect(mockExpressApp.use).toHaveBeenCalledWith('/api/categories', 'category-router');
+        });
+    });
+
+    describe('setupBudgetRoutes', () => {
+        test('BudgetControllerが初期化されていない場合、エラーがスローされること', () => {
+            expect(() => {
+                httpAppConfig.setupBudgetRoutes();
+            }).toThrow('BudgetController が初期化されていません。initializeControllersを先に呼び出してください。');
+        });
+
+        test('予算ルートが正しく設定されること', () => {
+            httpAppConfig.initializeControllers(mockDependencyContainer);
+            httpAppConfig.setupBudgetRoutes();
+
+            expect(BudgetController).toHaveBeenCalledWith(mockDependencyContainer.getConfigRepository());
+            expect(mockExpressApp.use).toHaveBeenCalledWith('/api/budgets', 'budget-router');
+        });
+    });
+
+    describe('setupCardRoutes', () => {
+        test('CardControllerが初期化されていない場合、エラーがスローされること', () => {
+            expect(() => {
+                httpAppConfig.setupCardRoutes();
+            }).toThrow('CardController が初期化されていません。initializeControllersを先に呼び出してください。');
+        });
+
+        test('カードルートが正しく設定されること', () => {
+            httpAppConfig.initializeControllers(mockDependencyContainer);
+            httpAppConfig.setupCardRoutes();
+
+            expect(CardController).toHaveBeenCalledWith(mockDependencyContainer.getConfigRepository());
+            expect(mockExpressApp.use).toHaveBeenCalledWith('/api/cards', 'card-router');
+        });
+    });
+
+    describe('setupSubscriptionRoutes', () => {
+        test('定期的な支払いルートが正しく設定されること', () => {
+            httpAppConfig.setupSubscriptionRoutes();
+
+            expect(SubscriptionRoutes).toHaveBeenCalledWith(expect.any(SubscriptionController));
+            expect(mockExpressApp.use).toHaveBeenCalledWith('/api/subscriptions', 'subscription-router');
+            expect(require('../../../../../shared/infrastructure/logging/Logger').logger.updateServiceStatus)
+                .toHaveBeenCalledWith('SubscriptionAPI', 'online', '定期的な支払いAPI有効');
+        });
+    });
+
+    describe('setupInboundEmailRoutes', () => {
+        test('受信Webhookのルートが正しく設定されること', () => {
+            httpAppConfig.setupInboundEmailRoutes(mockEmailController);
+
+            expect(InboundEmailController).toHaveBeenCalledWith(mockEmailController);
+            expect(mockExpressApp.use).toHaveBeenCalledWith('/api/inbound', 'inbound-email-router');
+        });
+    });
+
     describe('setupAllApiRoutes', () => {
         test('すべてのAPIルートが正しく設定されること', () => {
             // まずcontrollerを初期化
@@ -263,6 +516,18 @@ describe('HttpAppConfig', () => {
             expect(mockExpressApp.use).toHaveBeenCalledWith('/api/services', 'service-router');
             expect(mockExpressApp.use).toHaveBeenCalledWith('/api/card-usages', 'card-usage-router');
             expect(mockExpressApp.use).toHaveBeenCalledWith('/api/reports', 'reports-router');
+            expect(mockExpressApp.use).toHaveBeenCalledWith('/api/issuer-templates', 'issuer-template-router');
+            expect(mockExpressApp.use).toHaveBeenCalledWith('/api/dead-letters', 'dead-letter-router');
+            expect(mockExpressApp.use).toHaveBeenCalledWith('/api/imports', 'import-router');
+            expect(mockExpressApp.use).toHaveBeenCalledWith('/api/parse', 'parse-router');
+            expect(mockExpressApp.use).toHaveBeenCalledWith('/api/merchant-aliases', 'merchant-alias-router');
+            expect(mockExpressApp.use).toHaveBeenCalledWith('/api/categories', 'category-router');
+            expect(mockExpressApp.use).toHaveBeenCalledWith('/api/budgets', 'budget-router');
+            expect(mockExpressApp.use).toHaveBeenCalledWith('/api/cards', 'card-router');
+            expect(mockExpressApp.use).toHaveBeenCalledWith('/api/subscriptions', 'subscription-router');
+
+            // メールの受信方法がIMAPのみの場合、受信Webhookは公開しない
+            expect(mockExpressApp.use).not.toHaveBeenCalledWith('/api/inbound', 'inbound-email-router');
 
             // 404ハンドラーが設定されることを確認
             expect(mockExpressApp.use).toHaveBeenCalledWith('*', expect.any(Function));
@@ -270,6 +535,15 @@ describe('HttpAppConfig', () => {
             // エラーハンドラーが設定されることを確認
             expect(mockExpressApp.use).toHaveBeenCalledWith(expect.any(Function));
         });
+
+        test('受信Webhookが有効な場合、受信Webhookのルートも設定されること', () => {
+            jest.spyOn(Environment, 'isWebhookSourceEnabled').mockReturnValueOnce(true);
+            httpAppConfig.initializeControllers(mockDependencyContainer);
+
+            httpAppConfig.setupAllApiRoutes(mockEmailController);
+
+            expect(mockExpressApp.use).toHaveBeenCalledWith('/api/inbound', 'inbound-email-router');
+        });
     });
 
     describe('initializeControllers', () => {
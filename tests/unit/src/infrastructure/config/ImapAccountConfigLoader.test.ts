@@ -0,0 +1,139 @@
+import { ImapAccountConfigLoader } from '../../../../../src/infrastructure/config/ImapAccountConfigLoader';
+import { CardIssuerParserRegistry } from '../../../../../src/infrastructure/email/issuers/CardIssuerParserRegistry';
+import { MufgIssuerParser } from '../../../../../src/infrastructure/email/issuers/MufgIssuerParser';
+import { SmbcIssuerParser } from '../../../../../src/infrastructure/email/issuers/SmbcIssuerParser';
+import { AppError, ErrorType } from '../../../../../shared/errors/AppError';
+
+jest.mock('../../../../../shared/infrastructure/config/Environment', () => ({
+    Environment: {
+        IMAP_SERVER: 'imap.example.com',
+        IMAP_USER: 'user@example.com',
+        IMAP_PASSWORD: 'password',
+        IMAP_IDLE_ENABLED: true,
+        IMAP_POLLING_INTERVAL: 60000,
+        IMAP_ACCOUNTS: '',
+    }
+}));
+
+describe('ImapAccountConfigLoader', () => {
+    const env = { IMAP_PASSWORD_FATHER: 'father-pass', IMAP_PASSWORD_MOTHER: 'mother-pass' };
+    let registry: CardIssuerParserRegistry;
+
+    const load = (accounts: unknown) =>
+        new ImapAccountConfigLoader(registry, JSON.stringify(accounts), env).load();
+
+    beforeEach(() => {
+        registry = new CardIssuerParserRegistry();
+        registry.register(new MufgIssuerParser());
+        registry.register(new SmbcIssuerParser());
+    });
+
+    test('IMAP_ACCOUNTSが未設定の場合、IMAP_SERVER・IMAP_USER・IMAP_PASSWORDの1アカウントで全カード会社を監視すること', () => {
+        const accounts = new ImapAccountConfigLoader(registry, '', env).load();
+
+        expect(accounts).toEqual([{
+            id: 'default',
+            server: 'imap.example.com',
+            user: 'user@example.com',
+            password: 'password',
+            issuers: ['MUFG', 'SMBC'],
+            mailboxes: ['三菱東京UFJ銀行', '三井住友カード'],
+            monitoringOptions: { idle: true, pollingInterval: 60000 },
+        }]);
+    });
+
+    test('アカウントごとの設定を読み込み、パスワードは参照した環境変数から取得すること', () => {
+        const accounts = load([
+            { id: 'father', user: 'father@example.com', passwordEnv: 'IMAP_PASSWORD_FATHER' },
+            {
+                id: 'mother',
+                server: 'imap.example.jp',
+                user: 'mother@example.com',
+                passwordEnv: 'IMAP_PASSWORD_MOTHER',
+                issuers: ['SMBC'],
+                mailboxes: { SMBC: 'カード' },
+                idle: false,
+                pollingInterval: 30000,
+            },
+        ]);
+
+        expect(accounts[0]).toMatchObject({
+            id: 'father',
+            server: 'imap.example.com',
+            password: 'father-pass',
+            issuers: ['MUFG', 'SMBC'],
+            mailboxes: ['三菱東京UFJ銀行', '三井住友カード'],
+            monitoringOptions: { idle: true, pollingInterval: 60000 },
+        });
+        expect(accounts[1]).toEqual({
+            id: 'mother',
+            server: 'imap.example.jp',
+            user: 'mother@example.com',
+            password: 'mother-pass',
+            issuers: ['SMBC'],
+            mailboxes: ['カード'],
+            monitoringOptions: { idle: false, pollingInterval: 30000 },
+        });
+    });
+
+    test('refreshTokenEnvを指定した場合はOAuth2で認証し、passwordEnvは不要とすること', () => {
+        const tokenProvider = { getAccessToken: jest.fn(), invalidate: jest.fn() };
+        const createTokenProvider = jest.fn().mockReturnValue(tokenProvider);
+        const loader = new ImapAccountConfigLoader(
+            registry,
+            JSON.stringify([{ id: 'father', user: 'father@gmail.com', refreshTokenEnv: 'IMAP_REFRESH_TOKEN_FATHER' }]),
+            { IMAP_REFRESH_TOKEN_FATHER: 'refresh-token' },
+            createTokenProvider
+        );
+
+        const [account] = loader.load();
+
+        expect(createTokenProvider).toHaveBeenCalledWith('refresh-token');
+        expect(account.password).toBe('');
+        expect(account.accessTokenProvider).toBe(tokenProvider);
+    });
+
+    test('複数のカード会社が同じメールボックスの場合は1つにまとめること', () => {
+        const accounts = load([{
+            id: 'father',
+            user: 'father@example.com',
+            passwordEnv: 'IMAP_PASSWORD_FATHER',
+            mailboxes: { MUFG: 'INBOX', SMBC: 'INBOX' },
+        }]);
+
+        expect(accounts[0].mailboxes).toEqual(['INBOX']);
+    });
+
+    test.each([
+        ['JSONとして解析できない場合', '[{', 'IMAP_ACCOUNTSをJSONとして解析できません'],
+        ['空の配列の場合', '[]', 'IMAP_ACCOUNTSには1件以上のアカウントを配列で指定してください'],
+        [
+            'passwordEnvの環境変数が未設定の場合',
+            JSON.stringify([{ id: 'a', user: 'a@example.com', passwordEnv: 'IMAP_PASSWORD_UNKNOWN' }]),
+            'IMAP_ACCOUNTS[0]: 環境変数 IMAP_PASSWORD_UNKNOWN が設定されていません',
+        ],
+        [
+            '登録されていないカード会社を指定した場合',
+            JSON.stringify([{ id: 'a', user: 'a@example.com', passwordEnv: 'IMAP_PASSWORD_FATHER', issuers: ['VISA'] }]),
+            'IMAP_ACCOUNTS[0]: 登録されていないカード会社です: VISA',
+        ],
+        [
+            'idが重複している場合',
+            JSON.stringify([
+                { id: 'a', user: 'a@example.com', passwordEnv: 'IMAP_PASSWORD_FATHER' },
+                { id: 'a', user: 'b@example.com', passwordEnv: 'IMAP_PASSWORD_MOTHER' },
+            ]),
+            'IMAP_ACCOUNTSのidが重複しています: a',
+        ],
+    ])('異常系: %sは設定エラーとなること', (_, accountsJson, message) => {
+        const loader = new ImapAccountConfigLoader(registry, accountsJson, env);
+
+        expect(() => loader.load()).toThrow(message);
+        try {
+            loader.load();
+        } catch (error) {
+            expect(error).toBeInstanceOf(AppError);
+            expect((error as AppError).type).toBe(ErrorType.CONFIGURATION);
+        }
+    });
+});
@@ -380,6 +380,16 @@ describe('FirestoreCardUsageRepository', () => {
         });
     });
 
+    describe('updateByPath', () => {
+        test('正常系: 指定したパスのカード利用情報を更新すること', async () => {
+            const path = 'details/2023/01/term1/05/test-id';
+
+            await repository.updateByPath(path, { merchant: 'Amazon' });
+
+            expect(mockFirestoreService.updateDocument).toHaveBeenCalledWith(path, { merchant: 'Amazon' });
+        });
+    });
+
     describe('delete', () => {
         test('正常系: カード利用情報の論理削除が成功すること', async () => {
             const testId = 'test-id';
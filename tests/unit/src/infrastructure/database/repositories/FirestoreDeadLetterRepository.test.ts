@@ -0,0 +1,140 @@
+import { Firestore } from 'firebase-admin/firestore';
+import { FirestoreDeadLetterRepository } from '../../../../../../src/infrastructure/database/repositories/FirestoreDeadLetterRepository';
+import { DeadLetter, DeadLetterInput } from '../../../../../../shared/domain/entities/DeadLetter';
+import { FirestoreService } from '../../../../../../shared/infrastructure/database/FirestoreService';
+import { Environment } from '../../../../../../shared/infrastructure/config/Environment';
+import { AppError } from '../../../../../../shared/errors/AppError';
+
+// モック
+jest.mock('../../../../../../shared/infrastructure/database/FirestoreService');
+jest.mock('../../../../../../shared/infrastructure/config/Environment');
+
+// Loggerをモック化
+jest.mock('../../../../../../shared/infrastructure/logging/Logger', () => ({
+    logger: {
+        info: jest.fn(),
+        debug: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        logAppError: jest.fn(),
+        updateServiceStatus: jest.fn()
+    }
+}));
+
+describe('FirestoreDeadLetterRepository', () => {
+    let repository: FirestoreDeadLetterRepository;
+    let mockFirestoreService: jest.Mocked<FirestoreService>;
+
+    const testInput: DeadLetterInput = {
+        cardCompany: 'MUFG',
+        uid: '123',
+        subject: 'デビットカード利用のお知らせ',
+        from: 'notification@bk.mufg.jp',
+        receivedAt: '2025-05-10T10:00:00.000Z',
+        body: 'メール本文',
+        rawSource: Buffer.from('raw').toString('base64'),
+        error: { message: '抽出エラー', type: 'VALIDATION_ERROR', details: null }
+    };
+
+    const createDeadLetter = (id: string, createdAt: string): DeadLetter => ({
+        ...testInput,
+        id,
+        status: 'pending',
+        retryCount: 0,
+        resolvedPaths: [],
+        createdAt,
+        updatedAt: createdAt
+    });
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+
+        // FirestoreServiceのモック
+        mockFirestoreService = {
+            setCloudFunctions: jest.fn(),
+            initialize: jest.fn().mockResolvedValue({} as Firestore),
+            saveDocument: jest.fn().mockResolvedValue(undefined),
+            updateDocument: jest.fn().mockResolvedValue(undefined),
+            getDocument: jest.fn(),
+            query: jest.fn()
+        } as unknown as jest.Mocked<FirestoreService>;
+
+        (FirestoreService.getInstance as jest.Mock).mockReturnValue(mockFirestoreService);
+        (Environment.getFirebaseAdminKeyPath as jest.Mock).mockReturnValue('/path/to/key.json');
+        (Environment.isCloudFunctions as jest.Mock).mockReturnValue(false);
+
+        repository = new FirestoreDeadLetterRepository();
+    });
+
+    describe('save', () => {
+        test('正常系: 未対応の状態でdead_lettersコレクションに保存されること', async () => {
+            const result = await repository.save(testInput);
+
+            expect(result).toEqual(expect.objectContaining({
+                ...testInput,
+                status: 'pending',
+                retryCount: 0,
+                resolvedPaths: []
+            }));
+            expect(result.id).toEqual(expect.any(String));
+            expect(result.createdAt).toBe(result.updatedAt);
+            expect(mockFirestoreService.saveDocument).toHaveBeenCalledWith(`dead_letters/${result.id}`, result);
+        });
+
+        test('異常系: 保存に失敗した場合、AppErrorがスローされること', async () => {
+            mockFirestoreService.saveDocument.mockRejectedValueOnce(new Error('Firestoreエラー'));
+
+            await expect(repository.save(testInput)).rejects.toThrow(AppError);
+        });
+    });
+
+    describe('getById', () => {
+        test('正常系: IDでデッドレターを取得できること', async () => {
+            const deadLetter = createDeadLetter('dl-1', '2025-05-10T10:00:00.000Z');
+            mockFirestoreService.getDocument.mockResolvedValueOnce(deadLetter);
+
+            const result = await repository.getById('dl-1');
+
+            expect(result).toEqual(deadLetter);
+            expect(mockFirestoreService.getDocument).toHaveBeenCalledWith('dead_letters/dl-1');
+        });
+    });
+
+    describe('findAll', () => {
+        test('正常系: 状態で絞り込み、新しい順に並べて返すこと', async () => {
+            const older = createDeadLetter('dl-1', '2025-05-10T10:00:00.000Z');
+            const newer = createDeadLetter('dl-2', '2025-05-11T10:00:00.000Z');
+            const where = jest.fn().mockReturnValue('filtered-query');
+            mockFirestoreService.query.mockImplementationOnce(async (_path, queryFn) => {
+                expect(queryFn({ where } as any)).toBe('filtered-query');
+                return [older, newer];
+            });
+
+            const result = await repository.findAll('pending');
+
+            expect(where).toHaveBeenCalledWith('status', '==', 'pending');
+            expect(result.map((deadLetter) => deadLetter.id)).toEqual(['dl-2', 'dl-1']);
+        });
+
+        test('正常系: 状態を指定しない場合は絞り込まないこと', async () => {
+            const collection = { where: jest.fn() };
+            mockFirestoreService.query.mockImplementationOnce(async (_path, queryFn) => {
+                expect(queryFn(collection as any)).toBe(collection);
+                return [];
+            });
+
+            const result = await repository.findAll();
+
+            expect(collection.where).not.toHaveBeenCalled();
+            expect(result).toEqual([]);
+        });
+    });
+
+    describe('update', () => {
+        test('正常系: 指定した項目を更新すること', async () => {
+            await repository.update('dl-1', { status: 'discarded' });
+
+            expect(mockFirestoreService.updateDocument).toHaveBeenCalledWith('dead_letters/dl-1', { status: 'discarded' });
+        });
+    });
+});
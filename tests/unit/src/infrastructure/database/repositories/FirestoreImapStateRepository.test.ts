@@ -0,0 +1,89 @@
+import { Firestore } from 'firebase-admin/firestore';
+import { FirestoreImapStateRepository } from '../../../../../../src/infrastructure/database/repositories/FirestoreImapStateRepository';
+import { ImapMailboxState } from '../../../../../../src/domain/interfaces/infrastructure/database/repositories/IImapStateRepository';
+import { FirestoreService } from '../../../../../../shared/infrastructure/database/FirestoreService';
+import { Environment } from '../../../../../../shared/infrastructure/config/Environment';
+import { AppError } from '../../../../../../shared/errors/AppError';
+
+// モック
+jest.mock('../../../../../../shared/infrastructure/database/FirestoreService');
+jest.mock('../../../../../../shared/infrastructure/config/Environment');
+
+// Loggerをモック化
+jest.mock('../../../../../../shared/infrastructure/logging/Logger', () => ({
+    logger: {
+        info: jest.fn(),
+        debug: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        logAppError: jest.fn(),
+        updateServiceStatus: jest.fn()
+    }
+}));
+
+describe('FirestoreImapStateRepository', () => {
+    let repository: FirestoreImapStateRepository;
+    let mockFirestoreService: jest.Mocked<FirestoreService>;
+
+    const testState: ImapMailboxState = {
+        uidValidity: '1700000000',
+        lastUid: 128,
+        updatedAt: '2025-05-10T00:00:00.000Z'
+    };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+
+        // FirestoreServiceのモック
+        mockFirestoreService = {
+            setCloudFunctions: jest.fn(),
+            initialize: jest.fn().mockResolvedValue({} as Firestore),
+            saveDocument: jest.fn().mockResolvedValue(undefined),
+            getDocument: jest.fn()
+        } as unknown as jest.Mocked<FirestoreService>;
+
+        (FirestoreService.getInstance as jest.Mock).mockReturnValue(mockFirestoreService);
+        (Environment.getFirebaseAdminKeyPath as jest.Mock).mockReturnValue('/path/to/key.json');
+        (Environment.isCloudFunctions as jest.Mock).mockReturnValue(false);
+
+        repository = new FirestoreImapStateRepository();
+    });
+
+    describe('getMailboxState', () => {
+        test('正常系: メールボックスの処理状態を取得できること', async () => {
+            mockFirestoreService.getDocument.mockResolvedValueOnce(testState);
+
+            const result = await repository.getMailboxState('user@example.com:INBOX');
+
+            expect(result).toEqual(testState);
+            expect(mockFirestoreService.getDocument).toHaveBeenCalledWith(
+                'system/imap_state/mailboxes/user%40example.com%3AINBOX'
+            );
+        });
+
+        test('正常系: 未記録の場合はnullを返すこと', async () => {
+            mockFirestoreService.getDocument.mockResolvedValueOnce(null);
+
+            const result = await repository.getMailboxState('user@example.com:INBOX');
+
+            expect(result).toBeNull();
+        });
+
+        test('異常系: 取得に失敗した場合、AppErrorがスローされること', async () => {
+            mockFirestoreService.getDocument.mockRejectedValueOnce(new Error('Firestoreエラー'));
+
+            await expect(repository.getMailboxState('user@example.com:INBOX')).rejects.toThrow(AppError);
+        });
+    });
+
+    describe('saveMailboxState', () => {
+        test('正常系: 階層を含むメールボックス名でも1つのドキュメントに保存されること', async () => {
+            await repository.saveMailboxState('user@example.com:[Gmail]/三井住友カード', testState);
+
+            expect(mockFirestoreService.saveDocument).toHaveBeenCalledWith(
+                `system/imap_state/mailboxes/${encodeURIComponent('user@example.com:[Gmail]/三井住友カード')}`,
+                testState
+            );
+        });
+    });
+});
@@ -1,4 +1,7 @@
 import { CardUsageExtractor } from '../../../../../src/infrastructure/email/CardUsageExtractor';
+import { CardIssuerParserRegistry } from '../../../../../src/infrastructure/email/issuers/CardIssuerParserRegistry';
+import { MufgIssuerParser } from '../../../../../src/infrastructure/email/issuers/MufgIssuerParser';
+import { SmbcIssuerParser } from '../../../../../src/infrastructure/email/issuers/SmbcIssuerParser';
 import { AppError } from '../../../../../shared/errors/AppError';
 import { CardCompany } from '../../../../../src/domain/enums/CardCompany';
 import { Timestamp } from 'firebase-admin/firestore';
@@ -21,7 +24,10 @@ describe('CardUsageExtractor', () => {
     let extractor: CardUsageExtractor;
 
     beforeEach(() => {
-        extractor = new CardUsageExtractor();
+        const registry = new CardIssuerParserRegistry();
+        registry.register(new MufgIssuerParser());
+        registry.register(new SmbcIssuerParser());
+        extractor = new CardUsageExtractor(registry);
     });
 
     describe('MUFG（三菱UFJ銀行）のメール解析', () => {
@@ -197,6 +203,122 @@ describe('CardUsageExtractor', () => {
         });
     });
 
+    describe('外貨建てのメール解析', () => {
+        test('正常系: MUFGのメールから現地通貨額と換算レートを抽出できること', () => {
+            const emailBody = `
+カード名称：Ｄ　三菱ＵＦＪ－ＪＣＢデビット
+デビットカード取引確認メール
+
+【ご利用日時(日本時間)】 2025年5月10日 15:30:00
+【ご利用金額】 1,834円
+【現地通貨額】 12.34 USD
+【換算レート】 148.620円
+【ご利用先】 AMAZON.COM
+      `;
+
+            const result = extractor.extractFromEmailBody(emailBody, CardCompany.MUFG);
+
+            expect(result.amount).toBe(1834);
+            expect(result.original_currency).toBe('USD');
+            expect(result.original_amount).toBe(12.34);
+            expect(result.exchange_rate).toBe(148.62);
+        });
+
+        test('正常系: SMBCのメールから通貨コードが先に記載された現地通貨額を抽出できること', () => {
+            const emailBody = `
+三井住友カード 様
+
+ご利用日時：2025/05/10 15:30 HOTEL PARIS 25,120円
+現地通貨額：EUR 1,520.00
+換算レート：1EUR=165.263円
+      `;
+
+            const result = extractor.extractFromEmailBody(emailBody, CardCompany.SMBC);
+
+            expect(result.amount).toBe(25120);
+            expect(result.where_to_use).toBe('HOTEL PARIS');
+            expect(result.original_currency).toBe('EUR');
+            expect(result.original_amount).toBe(1520);
+            expect(result.exchange_rate).toBe(165.263);
+        });
+
+        test('正常系: 換算レートの記載がない場合は現地通貨額のみを設定すること', () => {
+            const emailBody = `
+三井住友カード 様
+
+ご利用日時：2025/05/10 15:30 APPLE.COM 1,500円
+現地通貨額：9.99 USD
+      `;
+
+            const result = extractor.extractFromEmailBody(emailBody, CardCompany.SMBC);
+
+            expect(result.original_amount).toBe(9.99);
+            expect(result).not.toHaveProperty('exchange_rate');
+        });
+
+        test('正常系: 円建ての利用には外貨の項目を設定しないこと', () => {
+            const emailBody = `
+三井住友カード 様
+
+ご利用日時：2025/05/10 15:30 スーパーマーケット 2,468円
+      `;
+
+            const result = extractor.extractFromEmailBody(emailBody, CardCompany.SMBC);
+
+            expect(result).not.toHaveProperty('original_currency');
+            expect(result).not.toHaveProperty('original_amount');
+            expect(result).not.toHaveProperty('exchange_rate');
+        });
+    });
+
+    describe('取消・返金のメール解析', () => {
+        test('正常系: MUFGの取引取消メールから負の金額の取消・返金として抽出できること', () => {
+            const emailBody = `
+カード名称：Ｄ　三菱ＵＦＪ－ＪＣＢデビット
+デビットカード取引取消確認メール
+
+【ご利用取消日時(日本時間)】 2025年5月12日 10:05:00
+【ご利用取消金額】 1,234円
+【ご利用先】 コンビニエンスストア東京
+      `;
+
+            const result = extractor.extractFromEmailBody(emailBody, CardCompany.MUFG);
+
+            expect(result.amount).toBe(-1234);
+            expect(result.transaction_type).toBe('refund');
+            expect(result.where_to_use).toBe('コンビニエンスストア東京');
+            expect(result.datetime_of_use.toDate().getDate()).toBe(12);
+        });
+
+        test('正常系: SMBCのご利用取消メールから負の金額の取消・返金として抽出できること', () => {
+            const emailBody = `
+三井住友カード 様
+
+以下のご利用の取消を承りました。
+ご利用日時：2025/05/10 15:30 スーパーマーケット -2,468円
+      `;
+
+            const result = extractor.extractFromEmailBody(emailBody, CardCompany.SMBC);
+
+            expect(result.amount).toBe(-2468);
+            expect(result.transaction_type).toBe('refund');
+            expect(result.where_to_use).toBe('スーパーマーケット');
+        });
+
+        test('正常系: 通常の利用メールには取引種別を設定しないこと', () => {
+            const emailBody = `
+三井住友カード 様
+
+ご利用日時：2025/05/10 15:30 スーパーマーケット 2,468円
+      `;
+
+            const result = extractor.extractFromEmailBody(emailBody, CardCompany.SMBC);
+
+            expect(result.amount).toBe(2468);
+            expect(result).not.toHaveProperty('transaction_type');
+        });
+    });
+
     describe('SMBC（三井住友カード）のメール解析', () => {
         test('正常系: 正しいフォーマットのメールからカード情報を抽出できること', () => {
             // テスト用のメール本文
@@ -0,0 +1,144 @@
+import { CardUsageValidator } from '../../../../../src/infrastructure/email/CardUsageValidator';
+import { CardUsageFactory } from '../../../../../shared/domain/factories/CardUsageFactory';
+import { MufgIssuerParser } from '../../../../../src/infrastructure/email/issuers/MufgIssuerParser';
+import { SmbcIssuerParser } from '../../../../../src/infrastructure/email/issuers/SmbcIssuerParser';
+import { RakutenIssuerParser } from '../../../../../src/infrastructure/email/issuers/RakutenIssuerParser';
+import { JcbIssuerParser } from '../../../../../src/infrastructure/email/issuers/JcbIssuerParser';
+import { AeonIssuerParser } from '../../../../../src/infrastructure/email/issuers/AeonIssuerParser';
+import { EposIssuerParser } from '../../../../../src/infrastructure/email/issuers/EposIssuerParser';
+
+// Loggerをモック化
+jest.mock('../../../../../shared/infrastructure/logging/Logger', () => ({
+    logger: {
+        info: jest.fn(),
+        debug: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        logAppError: jest.fn(),
+        updateServiceStatus: jest.fn()
+    }
+}));
+
+describe('CardUsageValidator', () => {
+    const validator = new CardUsageValidator();
+
+    const sampleBody = [
+        'カード名称：Ｄ　三菱ＵＦＪ－ＪＣＢデビット',
+        '【ご利用日時(日本時間)】 2025年5月10日 15:30:00',
+        '【ご利用金額】 1,500円',
+        '【ご利用先】 コンビニエンスストア東京',
+    ].join('\n');
+
+    const createUsage = (overrides: Partial<{
+        cardName: string; datetime: string; amount: number; whereToUse: string;
+    }> = {}) => CardUsageFactory.create(
+        overrides.cardName ?? 'Ｄ　三菱ＵＦＪ－ＪＣＢデビット',
+        overrides.datetime ?? '2025-05-10T06:30:00.000Z',
+        overrides.amount ?? 1500,
+        overrides.whereToUse ?? 'コンビニエンスストア東京'
+    );
+
+    test('正常系: すべての項目が本文と一致する場合、信頼度は1で問題はないこと', () => {
+        const result = validator.validate(createUsage(), sampleBody);
+
+        expect(result).toEqual({
+            confidence: 1,
+            fields: { card_name: 1, datetime_of_use: 1, amount: 1, where_to_use: 1 },
+            issues: []
+        });
+    });
+
+    test('正常系: 全角・半角の違いや金額の区切り文字の違いは一致として扱うこと', () => {
+        const body = 'カード名称：D 三菱UFJ-JCBデビット\nご利用日：2025/05/10\nご利用金額：１５００円\nご利用先：コンビニエンスストア東京';
+
+        const result = validator.validate(createUsage(), body);
+
+        expect(result.confidence).toBe(1);
+    });
+
+    test('異常系: 利用日時が本文にない場合（現在時刻で補完）、信頼度が下がること', () => {
+        const result = validator.validate(createUsage({ datetime: '2025-06-01T00:00:00.000Z' }), sampleBody);
+
+        expect(result.fields.datetime_of_use).toBe(0.2);
+        expect(result.confidence).toBe(0.2);
+        expect(result.issues).toEqual([
+            { field: 'datetime_of_use', message: '利用日時が本文に見つかりません（現在時刻で補完された可能性があります）' }
+        ]);
+    });
+
+    test('正常系: 本文に年がない場合は月日で照合すること', () => {
+        const body = sampleBody.replace('2025年5月10日', '05/10');
+
+        const result = validator.validate(createUsage(), body);
+
+        expect(result.fields.datetime_of_use).toBe(0.8);
+    });
+
+    test('異常系: 利用金額が0の場合、金額の信頼度は0になること', () => {
+        const result = validator.validate(createUsage({ amount: 0 }), sampleBody);
+
+        expect(result.fields.amount).toBe(0);
+        expect(result.issues).toContainEqual({ field: 'amount', message: '利用金額を取得できませんでした' });
+    });
+
+    test('異常系: 利用金額が本文にない場合、信頼度が下がること', () => {
+        const result = validator.validate(createUsage({ amount: 987 }), sampleBody);
+
+        expect(result.fields.amount).toBe(0.3);
+    });
+
+    test('正常系: 取消・返金の場合、負の金額の絶対値を本文と照合すること', () => {
+        const refund = { ...createUsage({ amount: -1500 }), transaction_type: 'refund' as const };
+
+        const result = validator.validate(refund, sampleBody);
+
+        expect(result.fields.amount).toBe(1);
+    });
+
+    test('異常系: 利用なのに金額が負の場合、または取消・返金なのに金額が正の場合、金額の信頼度は0になること', () => {
+        const negativeUsage = createUsage({ amount: -1500 });
+        const positiveRefund = { ...createUsage(), transaction_type: 'refund' as const };
+
+        expect(validator.validate(negativeUsage, sampleBody).fields.amount).toBe(0);
+        expect(validator.validate(positiveRefund, sampleBody).fields.amount).toBe(0);
+    });
+
+    test('異常系: 利用先が「不明」の場合、信頼度が下がること', () => {
+        const result = validator.validate(createUsage({ whereToUse: '不明' }), sampleBody);
+
+        expect(result.fields.where_to_use).toBe(0.3);
+        expect(result.issues).toContainEqual({ field: 'where_to_use', message: '利用先を取得できませんでした' });
+    });
+
+    test('異常系: カード名が空の場合、カード名の信頼度は0になること', () => {
+        const result = validator.validate(createUsage({ cardName: '' }), sampleBody);
+
+        expect(result.fields.card_name).toBe(0);
+        expect(result.confidence).toBe(0);
+    });
+
+    test('正常系: カード名が本文にない場合（既定のカード名で補完）、信頼度はやや下がること', () => {
+        const result = validator.validate(createUsage({ cardName: 'JCBカード' }), sampleBody);
+
+        expect(result.fields.card_name).toBe(0.7);
+    });
+
+    describe('組み込みパーサーのサンプルメール', () => {
+        const parsers = [
+            new MufgIssuerParser(),
+            new SmbcIssuerParser(),
+            new RakutenIssuerParser(),
+            new JcbIssuerParser(),
+            new AeonIssuerParser(),
+            new EposIssuerParser(),
+        ];
+
+        test.each(parsers.flatMap((parser) =>
+            parser.sampleFixtures.map((fixture) => [parser.cardCompany, fixture.description, parser, fixture] as const)
+        ))('正常系: %s（%s）の抽出結果は確認待ちにならないこと', (_cardCompany, _description, parser, fixture) => {
+            for (const usage of parser.extract(fixture.email.body)) {
+                expect(validator.validate(usage, fixture.email.body).confidence).toBeGreaterThanOrEqual(0.6);
+            }
+        });
+    });
+});
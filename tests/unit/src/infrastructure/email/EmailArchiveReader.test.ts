@@ -0,0 +1,74 @@
+import { EmailArchiveReader } from '../../../../../src/infrastructure/email/EmailArchiveReader';
+
+describe('EmailArchiveReader', () => {
+    let reader: EmailArchiveReader;
+
+    beforeEach(() => {
+        reader = new EmailArchiveReader();
+    });
+
+    test('.emlファイルは1通のメールとしてそのまま読み込むこと', () => {
+        const content = Buffer.from('Subject: テスト\r\nFrom: a@example.com\r\n\r\n本文\r\n');
+
+        const messages = reader.read(content, 'mail.eml');
+
+        expect(messages).toHaveLength(1);
+        expect(messages[0].uid).toBe('import:mail.eml');
+        expect(messages[0].source.equals(content)).toBe(true);
+    });
+
+    test('空のファイルはメールなしとして扱うこと', () => {
+        expect(reader.read(Buffer.from('\n\n'), 'empty.eml')).toEqual([]);
+    });
+
+    test('mboxアーカイブを区切り行ごとに分割し、区切り行を取り除くこと', () => {
+        const content = Buffer.from([
+            'From 1234567890@xxx Sat May 10 10:00:00 +0000 2025',
+            'Subject: 1通目',
+            '',
+            '本文1',
+            '',
+            'From 1234567891@xxx Sun May 11 10:00:00 +0000 2025',
+            'Subject: 2通目',
+            '',
+            '本文2',
+            '',
+        ].join('\n'));
+
+        const messages = reader.read(content, 'mail.mbox');
+
+        expect(messages.map((message) => message.uid)).toEqual(['import:mail.mbox#1', 'import:mail.mbox#2']);
+        expect(messages[0].source.toString()).toBe('Subject: 1通目\n\n本文1\n');
+        expect(messages[1].source.toString()).toBe('Subject: 2通目\n\n本文2\n');
+    });
+
+    test('本文中でエスケープされた「From 」行を元に戻すこと', () => {
+        const content = Buffer.from([
+            'From 1234567890@xxx Sat May 10 10:00:00 +0000 2025',
+            'Subject: テスト',
+            '',
+            '>From the bank',
+            '>>From the card',
+            '',
+        ].join('\r\n'));
+
+        const messages = reader.read(content, 'mail.mbox');
+
+        expect(messages).toHaveLength(1);
+        expect(messages[0].source.toString()).toBe('Subject: テスト\r\n\r\nFrom the bank\r\n>From the card\r\n');
+    });
+
+    test('ISO-2022-JPなどのバイト列を変更せずに保持すること', () => {
+        const body = Buffer.from([0x1b, 0x24, 0x42, 0x46, 0x7c, 0x4b, 0x5c, 0x1b, 0x28, 0x42]);
+        const content = Buffer.concat([
+            Buffer.from('From 1234567890@xxx Sat May 10 10:00:00 +0000 2025\nSubject: test\n\n'),
+            body,
+            Buffer.from('\n'),
+        ]);
+
+        const messages = reader.read(content, 'mail.mbox');
+
+        expect(messages[0].source.equals(Buffer.concat([Buffer.from('Subject: test\n\n'), body, Buffer.from('\n')])))
+            .toBe(true);
+    });
+});
@@ -35,7 +35,8 @@ describe('EmailParser', () => {
             subject: 'テストメール',
             from: { text: 'test@example.com' },
             text: 'これはテストメールです',
-            date: new Date('2025-05-10T10:00:00Z')
+            date: new Date('2025-05-10T10:00:00Z'),
+            messageId: '<12345@example.com>'
         });
 
         // テスト用のrawEmailMessage
@@ -54,7 +55,9 @@ describe('EmailParser', () => {
             from: 'test@example.com',
             body: 'これはテストメールです',
             date: expect.any(Date),
-            uid: '12345'
+            uid: '12345',
+            messageId: '<12345@example.com>',
+            source: rawMessage.source
         });
 
         // simpleParserが正しく呼ばれたことを確認
@@ -91,7 +94,8 @@ describe('EmailParser', () => {
             from: 'html@example.com',
             body: 'これはHTMLメールです', // HTML変換後の結果
             date: expect.any(Date),
-            uid: '12346'
+            uid: '12346',
+            source: rawMessage.source
         });
 
         // HTMLの変換メソッドが呼ばれたことを確認
@@ -0,0 +1,90 @@
+import axios, { isAxiosError } from 'axios';
+import { GoogleOAuth2TokenProvider } from '../../../../../src/infrastructure/email/GoogleOAuth2TokenProvider';
+import { AppError, ErrorType } from '../../../../../shared/errors/AppError';
+
+jest.mock('axios');
+
+// Loggerをモック化
+jest.mock('../../../../../shared/infrastructure/logging/Logger', () => ({
+    logger: {
+        info: jest.fn(),
+        debug: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        logAppError: jest.fn(),
+        updateServiceStatus: jest.fn()
+    }
+}));
+
+describe('GoogleOAuth2TokenProvider', () => {
+    const credentials = { clientId: 'client-id', clientSecret: 'client-secret', refreshToken: 'refresh-token' };
+    const mockedPost = axios.post as jest.Mock;
+    let now: number;
+    let provider: GoogleOAuth2TokenProvider;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        now = 1746838800000;
+        mockedPost.mockResolvedValue({ data: { access_token: 'access-1', expires_in: 3600 } });
+        (isAxiosError as unknown as jest.Mock).mockReturnValue(false);
+        provider = new GoogleOAuth2TokenProvider(credentials, 'https://oauth2.example.com/token', () => now);
+    });
+
+    test('正常系: リフレッシュトークンでアクセストークンを取得すること', async () => {
+        await expect(provider.getAccessToken()).resolves.toBe('access-1');
+
+        expect(mockedPost).toHaveBeenCalledWith(
+            'https://oauth2.example.com/token',
+            'grant_type=refresh_token&client_id=client-id&client_secret=client-secret&refresh_token=refresh-token',
+            { headers: { 'Content-Type': 'application/x-www-form-urlencoded' } }
+        );
+    });
+
+    test('正常系: 有効期限の5分前までは取得済みのアクセストークンを再利用すること', async () => {
+        await provider.getAccessToken();
+        now += 3600 * 1000 - 5 * 60 * 1000 - 1;
+
+        await expect(provider.getAccessToken()).resolves.toBe('access-1');
+        expect(mockedPost).toHaveBeenCalledTimes(1);
+    });
+
+    test('正常系: 有効期限が近づいた場合はアクセストークンを更新すること', async () => {
+        await provider.getAccessToken();
+        now += 3600 * 1000 - 5 * 60 * 1000;
+        mockedPost.mockResolvedValueOnce({ data: { access_token: 'access-2', expires_in: 3600 } });
+
+        await expect(provider.getAccessToken()).resolves.toBe('access-2');
+        expect(mockedPost).toHaveBeenCalledTimes(2);
+    });
+
+    test('正常系: 同時に取得した場合は更新を1回にまとめること', async () => {
+        const tokens = await Promise.all([provider.getAccessToken(), provider.getAccessToken()]);
+
+        expect(tokens).toEqual(['access-1', 'access-1']);
+        expect(mockedPost).toHaveBeenCalledTimes(1);
+    });
+
+    test('正常系: 破棄した後はアクセストークンを更新すること', async () => {
+        await provider.getAccessToken();
+        provider.invalidate();
+        mockedPost.mockResolvedValueOnce({ data: { access_token: 'access-2', expires_in: 3600 } });
+
+        await expect(provider.getAccessToken()).resolves.toBe('access-2');
+    });
+
+    test('異常系: アクセストークンを更新できない場合は認証エラーとなること', async () => {
+        mockedPost.mockRejectedValueOnce(new Error('invalid_grant'));
+
+        const error = await provider.getAccessToken().catch((e) => e);
+
+        expect(error).toBeInstanceOf(AppError);
+        expect(error.type).toBe(ErrorType.AUTHENTICATION);
+        expect(error.message).toBe('OAuth2のアクセストークンを更新できませんでした');
+    });
+
+    test('異常系: レスポンスにアクセストークンが含まれない場合は認証エラーとなること', async () => {
+        mockedPost.mockResolvedValueOnce({ data: { error: 'invalid_client' } });
+
+        await expect(provider.getAccessToken()).rejects.toMatchObject({ type: ErrorType.AUTHENTICATION });
+    });
+});
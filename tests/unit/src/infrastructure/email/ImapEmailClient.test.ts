@@ -1,6 +1,24 @@
 import { ImapEmailClient, ImapConnectionConfig } from '../../../../../src/infrastructure/email/ImapEmailClient';
 import { AppError } from '../../../../../shared/errors/AppError';
 import { EventEmitter } from 'events';
+import { IImapAccessTokenProvider } from '../../../../../src/domain/interfaces/infrastructure/email/IImapAccessTokenProvider';
+
+/**
+ * テスト用のアクセストークンの提供元（取得のたびに連番のトークンを返す）
+ */
+class FakeAccessTokenProvider implements IImapAccessTokenProvider {
+    issued = 0;
+    invalidated = 0;
+
+    async getAccessToken(): Promise<string> {
+        this.issued++;
+        return `token-${this.issued}`;
+    }
+
+    invalidate(): void {
+        this.invalidated++;
+    }
+}
 
 // ErrorHandlerをモック化
 jest.mock('../../../../../shared/infrastructure/errors/ErrorHandler', () => ({
@@ -44,6 +62,8 @@ const createMockImapFlow = () => {
             source: Buffer.from('テストメール本文')
         }),
         messageFlagsAdd: jest.fn().mockResolvedValue(true),
+        mailbox: { path: 'INBOX', uidValidity: BigInt(1700000000), uidNext: 103 },
+        capabilities: new Map<string, boolean | number>([['IDLE', true]]),
         noop: jest.fn().mockResolvedValue(undefined),
         // EventEmitterメソッドをモック
         on: jest.fn((event, handler) => {
@@ -119,7 +139,8 @@ describe('ImapEmailClient', () => {
                 pass: 'testpass'
             },
             logger: false,
-            emitLogs: false
+            emitLogs: false,
+            disableAutoIdle: false
         });
 
         // エラーイベントリスナーが登録されたか確認
@@ -179,12 +200,34 @@ describe('ImapEmailClient', () => {
         const unseenMessages = await adapter.fetchUnseenMessages();
 
         // 正しいクエリで検索されたことを確認
-        expect(mockImapFlowInstance.search).toHaveBeenCalledWith({ seen: false });
+        expect(mockImapFlowInstance.search).toHaveBeenCalledWith({ seen: false }, { uid: true });
 
         // 結果を検証
         expect(unseenMessages).toEqual(['100', '101', '102']);
     });
 
+    test('正常系: 処理済みUIDより後のメッセージを昇順で取得できること', async () => {
+        // 「n:*」の検索結果には処理済みの最新メッセージが含まれる場合がある
+        mockImapFlowInstance.search.mockResolvedValueOnce([102, 100, 101]);
+
+        await adapter.connect('INBOX');
+
+        const uids = await adapter.fetchMessageUidsAfter(100);
+
+        expect(mockImapFlowInstance.search).toHaveBeenCalledWith({ uid: '101:*' }, { uid: true });
+        expect(uids).toEqual(['101', '102']);
+    });
+
+    test('正常系: メールボックスのUID情報を取得できること', async () => {
+        await adapter.connect('INBOX');
+
+        expect(adapter.getMailboxStatus()).toEqual({ uidValidity: '1700000000', uidNext: 103 });
+    });
+
+    test('正常系: 未接続の場合、メールボックスのUID情報はnullとなること', () => {
+        expect(adapter.getMailboxStatus()).toBeNull();
+    });
+
     test('正常系: メッセージの取得が成功すること', async () => {
         // メッセージ本文のモック
         const mockSource = Buffer.from('テストメール本文');
@@ -200,7 +243,7 @@ describe('ImapEmailClient', () => {
         const message = await adapter.fetchMessage('12345');
 
         // 正しく呼び出されたことを確認
-        expect(mockImapFlowInstance.fetchOne).toHaveBeenCalledWith('12345', { source: true });
+        expect(mockImapFlowInstance.fetchOne).toHaveBeenCalledWith('12345', { source: true }, { uid: true });
 
         // 結果を検証
         expect(message).toBeDefined();
@@ -215,7 +258,7 @@ describe('ImapEmailClient', () => {
         const result = await adapter.markAsSeen('12345');
 
         // 正しく呼び出されたことを確認
-        expect(mockImapFlowInstance.messageFlagsAdd).toHaveBeenCalledWith('12345', ['\\Seen']);
+        expect(mockImapFlowInstance.messageFlagsAdd).toHaveBeenCalledWith('12345', ['\\Seen'], { uid: true });
 
         // 結果を検証
         expect(result).toBe(true);
@@ -234,6 +277,29 @@ describe('ImapEmailClient', () => {
         expect(adapter.isActive()).toBe(false);
     });
 
+    test('正常系: アクセストークンの提供元を指定した場合、OAuth2（XOAUTH2）で認証すること', async () => {
+        const tokenProvider = new FakeAccessTokenProvider();
+        adapter = new ImapEmailClient({ ...mockConfig, auth: { user: 'testuser', accessTokenProvider: tokenProvider } });
+
+        await adapter.connect('INBOX');
+
+        expect(require('imapflow').ImapFlow).toHaveBeenCalledWith(
+            expect.objectContaining({ auth: { user: 'testuser', accessToken: 'token-1' } })
+        );
+    });
+
+    test('異常系: OAuth2の認証に失敗した場合、アクセストークンを破棄して再接続を予約すること', async () => {
+        const tokenProvider = new FakeAccessTokenProvider();
+        adapter = new ImapEmailClient({ ...mockConfig, auth: { user: 'testuser', accessTokenProvider: tokenProvider } });
+        const authError = Object.assign(new Error('Authentication failed'), { authenticationFailed: true });
+        mockImapFlowInstance.connect.mockRejectedValueOnce(authError);
+
+        await expect(adapter.connect('INBOX')).rejects.toThrow(AppError);
+
+        expect(tokenProvider.invalidated).toBe(1);
+        expect((adapter as any).reconnectTimer).not.toBeNull();
+    });
+
     test('正常系: 接続を閉じることができること', async () => {
         // 接続
         await adapter.connect('INBOX');
@@ -262,6 +328,40 @@ describe('ImapEmailClient', () => {
         expect(result).toBeNull();
     });
 
+    test('正常系: IDLE中に新着メールを検知するとnewMailイベントが発行されること', async () => {
+        await adapter.connect('INBOX');
+
+        const newMailHandler = jest.fn();
+        adapter.on('newMail', newMailHandler);
+
+        // 件数が増えた場合のみ通知される
+        mockImapFlowInstance.emit('exists', { path: 'INBOX', count: 10, prevCount: 11 });
+        mockImapFlowInstance.emit('exists', { path: 'INBOX', count: 11, prevCount: 10 });
+
+        expect(newMailHandler).toHaveBeenCalledTimes(1);
+        expect(newMailHandler).toHaveBeenCalledWith('INBOX');
+        expect(adapter.isIdleActive()).toBe(true);
+    });
+
+    test('正常系: IDLEを無効化した場合、自動IDLEが無効化されること', async () => {
+        adapter = new ImapEmailClient({ ...mockConfig, idle: false });
+
+        await adapter.connect('INBOX');
+
+        expect(require('imapflow').ImapFlow).toHaveBeenCalledWith(
+            expect.objectContaining({ disableAutoIdle: true })
+        );
+        expect(adapter.isIdleActive()).toBe(false);
+    });
+
+    test('正常系: サーバーがIDLEに対応していない場合、IDLEは無効となること', async () => {
+        mockImapFlowInstance.capabilities = new Map();
+
+        await adapter.connect('INBOX');
+
+        expect(adapter.isIdleActive()).toBe(false);
+    });
+
     test('正常系: イベントが正しく発行されること', async () => {
         // 接続
         await adapter.connect('INBOX');
@@ -4,6 +4,9 @@ import { EmailParser, ParsedEmail } from '../../../../../src/infrastructure/emai
 import { CardUsageExtractor } from '../../../../../src/infrastructure/email/CardUsageExtractor';
 import { CardUsageNotificationDTO } from '../../../../../shared/domain/dto/CardUsageNotificationDTO';
 import { CardCompany } from '../../../../../src/domain/enums/CardCompany';
+import {
+    IImapStateRepository,
+} from '../../../../../src/domain/interfaces/infrastructure/database/repositories/IImapStateRepository';
 
 // 依存コンポーネントをモック
 jest.mock('../../../../../src/infrastructure/email/ImapEmailClient');
@@ -29,6 +32,7 @@ describe('ImapEmailService', () => {
     let mockImapClient: jest.Mocked<ImapEmailClient>;
     let mockEmailParser: jest.Mocked<EmailParser>;
     let mockCardUsageExtractor: jest.Mocked<CardUsageExtractor>;
+    let mockImapStateRepository: jest.Mocked<IImapStateRepository>;
 
     // テスト用のサンプルデータ
     const sampleEmailContent = 'テストメール本文';
@@ -53,15 +57,18 @@ describe('ImapEmailService', () => {
         // モックの初期化
         mockImapClient = new ImapEmailClient({ host: '', port: 0, secure: false, auth: { user: '', pass: '' } }) as jest.Mocked<ImapEmailClient>;
         mockEmailParser = new EmailParser() as jest.Mocked<EmailParser>;
-        mockCardUsageExtractor = new CardUsageExtractor() as jest.Mocked<CardUsageExtractor>;
+        mockCardUsageExtractor = new CardUsageExtractor({} as any) as jest.Mocked<CardUsageExtractor>;
 
         // ImapEmailClientのコンストラクタモックを設定
         (ImapEmailClient as jest.MockedClass<typeof ImapEmailClient>).mockImplementation(() => {
             mockImapClient.connect = jest.fn().mockResolvedValue({} as any);
             mockImapClient.fetchUnseenMessages = jest.fn().mockResolvedValue(['123', '124']);
+            mockImapClient.fetchMessageUidsAfter = jest.fn().mockResolvedValue([]);
+            mockImapClient.getMailboxStatus = jest.fn().mockReturnValue({ uidValidity: '1', uidNext: 130 });
             mockImapClient.fetchMessage = jest.fn().mockResolvedValue({ uid: '123', source: Buffer.from(sampleEmailContent) });
             mockImapClient.markAsSeen = jest.fn().mockResolvedValue(true);
             mockImapClient.isActive = jest.fn().mockReturnValue(true);
+            mockImapClient.isIdleActive = jest.fn().mockReturnValue(true);
             mockImapClient.close = jest.fn().mockResolvedValue(undefined);
             mockImapClient.on = jest.fn();
             return mockImapClient;
@@ -79,8 +86,21 @@ describe('ImapEmailService', () => {
             return mockCardUsageExtractor;
         });
 
+        // 処理状態リポジトリのモック
+        mockImapStateRepository = {
+            getMailboxState: jest.fn().mockResolvedValue(null),
+            saveMailboxState: jest.fn().mockResolvedValue(undefined),
+        };
+
         // テスト対象のサービスを作成
-        emailService = new ImapEmailService('imap.example.com', 'testuser', 'testpass');
+        emailService = new ImapEmailService(
+            'imap.example.com',
+            'testuser',
+            'testpass',
+            {} as any,
+            mockImapStateRepository,
+            { idle: true, pollingInterval: 60000 }
+        );
     });
 
     // テスト後のクリーンアップ
@@ -123,8 +143,9 @@ describe('ImapEmailService', () => {
             expect(mockImapClient.connect).toHaveBeenCalledWith('INBOX');
 
             // イベントリスナーが登録されていることを確認
-            expect(mockImapClient.on).toHaveBeenCalledTimes(2);
+            expect(mockImapClient.on).toHaveBeenCalledTimes(3);
             expect(mockImapClient.on).toHaveBeenCalledWith('connectionLost', expect.any(Function));
+            expect(mockImapClient.on).toHaveBeenCalledWith('newMail', expect.any(Function));
             expect(mockImapClient.on).toHaveBeenCalledWith('reconnected', expect.any(Function));
         });
 
@@ -138,15 +159,16 @@ describe('ImapEmailService', () => {
     });
 
     describe('pollForNewMessages', () => {
-        test('正常系: 未読メールが正しく処理されること', async () => {
+        const flushPromises = () => new Promise((resolve) => setImmediate(resolve));
+
+        test('正常系: 処理状態がない場合、未読メールを処理してUIDの追跡を開始すること', async () => {
             // モック用のコールバック関数
             const mockCallback = jest.fn().mockResolvedValue(undefined);
 
             // まず接続
             await emailService.connect('INBOX', mockCallback);
-
-            // privateなpollForNewMessagesメソッドをテストするために、
-            // ポーリング処理を直接シミュレート（内部実装に依存するため注意）
+            // 接続時の初回メール確認の完了を待つ
+            await flushPromises();
 
             // ImapEmailClientがfetchUnseenMessagesを呼び出したときの結果をモック
             mockImapClient.fetchUnseenMessages.mockResolvedValueOnce(['123']);
@@ -156,11 +178,172 @@ describe('ImapEmailService', () => {
             await pollForNewMessages(mockCallback, 'TestContext');
 
             // 適切なメソッドが呼ばれていることを確認
+            expect(mockImapStateRepository.getMailboxState).toHaveBeenCalledWith('testuser:INBOX');
             expect(mockImapClient.fetchUnseenMessages).toHaveBeenCalled();
             expect(mockImapClient.fetchMessage).toHaveBeenCalledWith('123');
             expect(mockEmailParser.parseEmail).toHaveBeenCalled();
             expect(mockCallback).toHaveBeenCalledWith(sampleParsedEmail);
             expect(mockImapClient.markAsSeen).toHaveBeenCalledWith('123');
+
+            // 次に割り当てられるUIDの直前までを処理済みとして記録することを確認
+            expect(mockImapStateRepository.saveMailboxState).toHaveBeenCalledWith('testuser:INBOX', {
+                uidValidity: '1',
+                lastUid: 129,
+                updatedAt: expect.any(String),
+            });
+        });
+
+        test('正常系: 処理済みUIDより後のメールを既読状態に関わらず処理し、1件ごとに記録すること', async () => {
+            const mockCallback = jest.fn().mockResolvedValue(undefined);
+            await emailService.connect('INBOX', mockCallback);
+            // 接続時の初回メール確認の完了を待つ
+            await flushPromises();
+            jest.clearAllMocks();
+
+            mockImapStateRepository.getMailboxState.mockResolvedValueOnce({
+                uidValidity: '1',
+                lastUid: 124,
+                updatedAt: '2025-05-10T00:00:00.000Z',
+            });
+            mockImapClient.fetchMessageUidsAfter.mockResolvedValueOnce(['125', '126']);
+
+            const pollForNewMessages = (emailService as any).pollForNewMessages.bind(emailService);
+            await pollForNewMessages(mockCallback, 'TestContext');
+
+            expect(mockImapClient.fetchMessageUidsAfter).toHaveBeenCalledWith(124);
+            expect(mockImapClient.fetchUnseenMessages).not.toHaveBeenCalled();
+            expect(mockCallback).toHaveBeenCalledTimes(2);
+            expect(mockImapStateRepository.saveMailboxState).toHaveBeenNthCalledWith(1, 'testuser:INBOX',
+                expect.objectContaining({ uidValidity: '1', lastUid: 125 }));
+            expect(mockImapStateRepository.saveMailboxState).toHaveBeenNthCalledWith(2, 'testuser:INBOX',
+                expect.objectContaining({ uidValidity: '1', lastUid: 126 }));
+        });
+
+        test('正常系: UIDVALIDITYが変わった場合、未読メールから処理し直すこと', async () => {
+            const mockCallback = jest.fn().mockResolvedValue(undefined);
+            await emailService.connect('INBOX', mockCallback);
+            // 接続時の初回メール確認の完了を待つ
+            await flushPromises();
+            jest.clearAllMocks();
+
+            mockImapStateRepository.getMailboxState.mockResolvedValueOnce({
+                uidValidity: '0',
+                lastUid: 500,
+                updatedAt: '2025-05-10T00:00:00.000Z',
+            });
+            mockImapClient.fetchUnseenMessages.mockResolvedValueOnce([]);
+
+            const pollForNewMessages = (emailService as any).pollForNewMessages.bind(emailService);
+            await pollForNewMessages(mockCallback, 'TestContext');
+
+            expect(mockImapClient.fetchMessageUidsAfter).not.toHaveBeenCalled();
+            expect(mockImapClient.fetchUnseenMessages).toHaveBeenCalled();
+            expect(mockImapStateRepository.saveMailboxState).toHaveBeenCalledWith('testuser:INBOX',
+                expect.objectContaining({ uidValidity: '1', lastUid: 129 }));
+        });
+
+        test('異常系: コールバックが失敗したメールは未読のまま処理済みとして記録されること', async () => {
+            const mockCallback = jest.fn().mockResolvedValue(undefined);
+            await emailService.connect('INBOX', mockCallback);
+            // 接続時の初回メール確認の完了を待つ
+            await flushPromises();
+            jest.clearAllMocks();
+
+            mockImapStateRepository.getMailboxState.mockResolvedValueOnce({
+                uidValidity: '1',
+                lastUid: 124,
+                updatedAt: '2025-05-10T00:00:00.000Z',
+            });
+            mockImapClient.fetchMessageUidsAfter.mockResolvedValueOnce(['125']);
+            const failingCallback = jest.fn().mockRejectedValue(new Error('処理エラー'));
+
+            const pollForNewMessages = (emailService as any).pollForNewMessages.bind(emailService);
+            await pollForNewMessages(failingCallback, 'TestContext');
+
+            expect(mockImapClient.markAsSeen).not.toHaveBeenCalled();
+            expect(mockImapStateRepository.saveMailboxState).toHaveBeenCalledWith('testuser:INBOX',
+                expect.objectContaining({ lastUid: 125 }));
+        });
+
+        test('異常系: メッセージを取得できない場合、処理状態を進めずに次回に再試行すること', async () => {
+            const mockCallback = jest.fn().mockResolvedValue(undefined);
+            await emailService.connect('INBOX', mockCallback);
+            // 接続時の初回メール確認の完了を待つ
+            await flushPromises();
+            jest.clearAllMocks();
+
+            mockImapStateRepository.getMailboxState.mockResolvedValueOnce({
+                uidValidity: '1',
+                lastUid: 124,
+                updatedAt: '2025-05-10T00:00:00.000Z',
+            });
+            mockImapClient.fetchMessageUidsAfter.mockResolvedValueOnce(['125', '126']);
+            mockImapClient.fetchMessage.mockResolvedValueOnce(null);
+
+            const pollForNewMessages = (emailService as any).pollForNewMessages.bind(emailService);
+            await pollForNewMessages(mockCallback, 'TestContext');
+
+            expect(mockImapClient.fetchMessage).toHaveBeenCalledTimes(1);
+            expect(mockCallback).not.toHaveBeenCalled();
+            expect(mockImapStateRepository.saveMailboxState).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('monitoring mode', () => {
+        const flushPromises = () => new Promise((resolve) => setImmediate(resolve));
+        const { logger } = require('../../../../../shared/infrastructure/logging/Logger');
+
+        test('正常系: IDLEが有効な場合、IDLEモードとしてステータスが報告されること', async () => {
+            await emailService.connect('INBOX', jest.fn().mockResolvedValue(undefined));
+
+            expect(logger.updateServiceStatus).toHaveBeenCalledWith(
+                'ImapEmailService',
+                'online',
+                expect.stringContaining('IDLEモード')
+            );
+        });
+
+        test('正常系: IDLEが使えない場合、ポーリングモードとしてステータスが報告されること', async () => {
+            mockImapClient.isIdleActive.mockReturnValue(false);
+
+            await emailService.connect('INBOX', jest.fn().mockResolvedValue(undefined));
+
+            expect(logger.updateServiceStatus).toHaveBeenCalledWith(
+                'ImapEmailService',
+                'online',
+                'ポーリングモード（60秒間隔）'
+            );
+        });
+
+        test('正常系: newMailイベントで即時に新着メールが確認されること', async () => {
+            const mockCallback = jest.fn().mockResolvedValue(undefined);
+            await emailService.connect('INBOX', mockCallback);
+            await flushPromises();
+
+            const pollForNewMessagesSpy = jest.spyOn(emailService as any, 'pollForNewMessages');
+            const newMailHandler = (mockImapClient.on as jest.Mock).mock.calls.find(
+                call => call[0] === 'newMail'
+            )[1];
+
+            newMailHandler('INBOX');
+
+            expect(pollForNewMessagesSpy).toHaveBeenCalledWith(mockCallback, expect.stringContaining('INBOX'));
+        });
+
+        test('正常系: 確認中に新着を検知した場合、完了後にもう一度確認されること', async () => {
+            const mockCallback = jest.fn().mockResolvedValue(undefined);
+            await emailService.connect('INBOX', mockCallback);
+            await flushPromises();
+
+            const processNewMessagesSpy = jest.spyOn(emailService as any, 'processNewMessages');
+            const pollForNewMessages = (emailService as any).pollForNewMessages.bind(emailService);
+
+            // 1回目の確認中に2回目の確認を要求する
+            const first = pollForNewMessages(mockCallback, 'TestContext');
+            await pollForNewMessages(mockCallback, 'TestContext');
+            await first;
+
+            expect(processNewMessagesSpy).toHaveBeenCalledTimes(2);
         });
     });
 
@@ -0,0 +1,106 @@
+import { InboundEmailPayloadParser } from '../../../../../src/infrastructure/email/InboundEmailPayloadParser';
+import { EmailParser } from '../../../../../src/infrastructure/email/EmailParser';
+
+/**
+ * multipart/form-data のリクエストボディを作成
+ */
+const multipart = (boundary: string, fields: Record<string, string>): Buffer => {
+    const parts = Object.entries(fields).map(([name, value]) =>
+        `--${boundary}\r\nContent-Disposition: form-data; name="${name}"\r\n\r\n${value}\r\n`
+    );
+    return Buffer.from(`${parts.join('')}--${boundary}--\r\n`, 'utf8');
+};
+
+describe('InboundEmailPayloadParser', () => {
+    let parser: InboundEmailPayloadParser;
+
+    beforeEach(() => {
+        parser = new InboundEmailPayloadParser();
+    });
+
+    test('RFC 822形式のメールはリクエストボディをそのまま元のメールとすること', () => {
+        const body = Buffer.from('Subject: テスト\r\nFrom: a@example.com\r\n\r\n本文\r\n');
+
+        const payload = parser.parse(body, 'message/rfc822');
+
+        expect(payload.fields).toEqual({});
+        expect(payload.source?.equals(body)).toBe(true);
+    });
+
+    test('空のリクエストボディの場合、元のメールはnullとなること', () => {
+        expect(parser.parse(Buffer.alloc(0), 'message/rfc822').source).toBeNull();
+    });
+
+    test('SendGrid形式のフォームでは「email」フィールドを元のメールとすること', () => {
+        const raw = 'Subject: Test\r\nFrom: card@example.com\r\n\r\nbody';
+        const body = multipart('xYzZY', { from: 'card@example.com', email: raw, charsets: '{}' });
+
+        const payload = parser.parse(body, 'multipart/form-data; boundary=xYzZY');
+
+        expect(payload.fields.from).toBe('card@example.com');
+        expect(payload.source?.toString('utf8')).toBe(raw);
+    });
+
+    test('添付ファイルのパートはフィールドに含めないこと', () => {
+        const body = Buffer.from([
+            '--b1',
+            'Content-Disposition: form-data; name="attachment1"; filename="a.pdf"',
+            '',
+            'PDF',
+            '--b1',
+            'Content-Disposition: form-data; name="body-mime"',
+            '',
+            'Subject: Test',
+            '--b1--',
+            '',
+        ].join('\r\n'));
+
+        const payload = parser.parse(body, 'multipart/form-data; boundary="b1"');
+
+        expect(Object.keys(payload.fields)).toEqual(['body-mime']);
+        expect(payload.source?.toString('utf8')).toBe('Subject: Test');
+    });
+
+    test('元のメールを含まないフォームでは、差出人・件名・本文からメールを組み立てること', async () => {
+        const body = Buffer.from(new URLSearchParams({
+            'sender': 'mufg@example.com',
+            'subject': '【三菱UFJカード】ご利用のお知らせ',
+            'Date': 'Sat, 10 May 2025 10:00:00 +0900',
+            'body-plain': 'ご利用金額：1,000円',
+        }).toString());
+
+        const payload = parser.parse(body, 'application/x-www-form-urlencoded');
+        const email = await new EmailParser().parseEmail({ uid: 'webhook:1', source: payload.source! });
+
+        expect(email).toMatchObject({
+            subject: '【三菱UFJカード】ご利用のお知らせ',
+            from: 'mufg@example.com',
+            body: 'ご利用金額：1,000円',
+            date: new Date('2025-05-10T01:00:00Z'),
+        });
+    });
+
+    test('受信日時はSendGridの「headers」フィールドから取得すること', async () => {
+        const body = multipart('b2', {
+            from: 'card@example.com',
+            subject: 'Test',
+            headers: 'Received: by mx\r\nDate: Sun, 11 May 2025 12:30:00 +0900\r\nSubject: Test',
+            html: '<p>ご利用金額：2,000円</p>',
+        });
+
+        const payload = parser.parse(body, 'multipart/form-data; boundary=b2');
+        const email = await new EmailParser().parseEmail({ uid: 'webhook:2', source: payload.source! });
+
+        expect(email?.date).toEqual(new Date('2025-05-11T03:30:00Z'));
+        expect(email?.body).toBe('ご利用金額：2,000円');
+    });
+
+    test('本文を含まないフォームの場合、元のメールはnullとなること', () => {
+        const body = Buffer.from('timestamp=1&token=abc&signature=def');
+
+        const payload = parser.parse(body, 'application/x-www-form-urlencoded');
+
+        expect(payload.fields.token).toBe('abc');
+        expect(payload.source).toBeNull();
+    });
+});
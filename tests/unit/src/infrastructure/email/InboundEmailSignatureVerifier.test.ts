@@ -0,0 +1,97 @@
+import { createHmac } from 'crypto';
+import { InboundEmailSignatureVerifier } from '../../../../../src/infrastructure/email/InboundEmailSignatureVerifier';
+
+const SECRET = 'test-secret';
+const NOW = 1746838800000;
+const TIMESTAMP = String(NOW / 1000);
+
+const sign = (payload: string): string => createHmac('sha256', SECRET).update(payload).digest('hex');
+
+describe('InboundEmailSignatureVerifier', () => {
+    const body = Buffer.from('Subject: Test\r\n\r\nbody');
+    let verifier: InboundEmailSignatureVerifier;
+
+    beforeEach(() => {
+        verifier = new InboundEmailSignatureVerifier(SECRET, 300, () => NOW);
+    });
+
+    describe('ヘッダー方式', () => {
+        test('正常系: 署名時刻とリクエストボディの署名が一致する場合はtrueを返すこと', () => {
+            const signature = sign(`${TIMESTAMP}.${body.toString()}`);
+
+            expect(verifier.verify(body, { signature, timestamp: TIMESTAMP }, {})).toBe(true);
+            expect(verifier.verify(body, { signature: `sha256=${signature}`, timestamp: TIMESTAMP }, {})).toBe(true);
+        });
+
+        test('異常系: リクエストボディが改ざんされている場合はfalseを返すこと', () => {
+            const signature = sign(`${TIMESTAMP}.${body.toString()}`);
+
+            expect(verifier.verify(Buffer.from('tampered'), { signature, timestamp: TIMESTAMP }, {})).toBe(false);
+        });
+
+        test('異常系: 署名時刻が許容範囲外の場合はfalseを返すこと', () => {
+            const timestamp = String(NOW / 1000 - 301);
+            const signature = sign(`${timestamp}.${body.toString()}`);
+
+            expect(verifier.verify(body, { signature, timestamp }, {})).toBe(false);
+        });
+
+        test('異常系: 署名の形式が不正な場合はfalseを返すこと', () => {
+            expect(verifier.verify(body, { signature: 'not-hex', timestamp: TIMESTAMP }, {})).toBe(false);
+        });
+    });
+
+    describe('Mailgun方式', () => {
+        test('正常系: timestamp・tokenの署名が一致する場合はtrueを返すこと', () => {
+            const fields = { timestamp: TIMESTAMP, token: 'token', signature: sign(`${TIMESTAMP}token`) };
+
+            expect(verifier.verify(body, {}, fields)).toBe(true);
+        });
+
+        test('異常系: 署名が一致しない場合はfalseを返すこと', () => {
+            const fields = { timestamp: TIMESTAMP, token: 'other', signature: sign(`${TIMESTAMP}token`) };
+
+            expect(verifier.verify(body, {}, fields)).toBe(false);
+        });
+
+        test('異常系: 使用済みのtokenを本文を差し替えて再送した場合はfalseを返すこと', () => {
+            const fields = { timestamp: TIMESTAMP, token: 'token', signature: sign(`${TIMESTAMP}token`) };
+
+            expect(verifier.verify(body, {}, { ...fields, 'body-mime': 'Subject: Test' })).toBe(true);
+            expect(verifier.verify(Buffer.from('tampered'), {}, { ...fields, 'body-mime': 'Subject: Fake' }))
+                .toBe(false);
+        });
+
+        test('正常系: 署名が一致しないリクエストではtokenを使用済みにしないこと', () => {
+            const fields = { timestamp: TIMESTAMP, token: 'token', signature: sign(`${TIMESTAMP}token`) };
+
+            expect(verifier.verify(body, {}, { ...fields, signature: sign('forged') })).toBe(false);
+            expect(verifier.verify(body, {}, fields)).toBe(true);
+        });
+
+        test('正常系: 許容範囲を過ぎたtokenの記録は破棄すること', () => {
+            let now = NOW;
+            const clocked = new InboundEmailSignatureVerifier(SECRET, 300, () => now);
+            const fields = { timestamp: TIMESTAMP, token: 'token', signature: sign(`${TIMESTAMP}token`) };
+            clocked.verify(body, {}, fields);
+
+            now = NOW + 301 * 1000;
+            const timestamp = String(now / 1000);
+            clocked.verify(body, {}, { timestamp, token: 'next', signature: sign(`${timestamp}next`) });
+
+            expect((clocked as any).usedTokens.has('token')).toBe(false);
+            expect((clocked as any).usedTokens.has('next')).toBe(true);
+        });
+    });
+
+    test('異常系: 署名が指定されていない場合はfalseを返すこと', () => {
+        expect(verifier.verify(body, {}, {})).toBe(false);
+    });
+
+    test('異常系: 共有シークレットが未設定の場合はすべて拒否すること', () => {
+        const unconfigured = new InboundEmailSignatureVerifier('', 300, () => NOW);
+        const signature = createHmac('sha256', '').update(`${TIMESTAMP}.${body.toString()}`).digest('hex');
+
+        expect(unconfigured.verify(body, { signature, timestamp: TIMESTAMP }, {})).toBe(false);
+    });
+});
@@ -0,0 +1,119 @@
+import { CardIssuerParserRegistry } from '../../../../../../src/infrastructure/email/issuers/CardIssuerParserRegistry';
+import { MufgIssuerParser } from '../../../../../../src/infrastructure/email/issuers/MufgIssuerParser';
+import { SmbcIssuerParser } from '../../../../../../src/infrastructure/email/issuers/SmbcIssuerParser';
+import { RakutenIssuerParser } from '../../../../../../src/infrastructure/email/issuers/RakutenIssuerParser';
+import { JcbIssuerParser } from '../../../../../../src/infrastructure/email/issuers/JcbIssuerParser';
+import { AeonIssuerParser } from '../../../../../../src/infrastructure/email/issuers/AeonIssuerParser';
+import { EposIssuerParser } from '../../../../../../src/infrastructure/email/issuers/EposIssuerParser';
+import { CardCompany } from '../../../../../../src/domain/enums/CardCompany';
+import { AppError, ErrorType } from '../../../../../../shared/errors/AppError';
+
+// Loggerをモック化
+jest.mock('../../../../../../shared/infrastructure/logging/Logger', () => ({
+    logger: {
+        info: jest.fn(),
+        debug: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        logAppError: jest.fn(),
+        updateServiceStatus: jest.fn()
+    }
+}));
+
+describe('CardIssuerParserRegistry', () => {
+    let registry: CardIssuerParserRegistry;
+
+    beforeEach(() => {
+        registry = new CardIssuerParserRegistry();
+        registry.register(new MufgIssuerParser());
+        registry.register(new SmbcIssuerParser());
+        registry.register(new RakutenIssuerParser());
+        registry.register(new JcbIssuerParser());
+        registry.register(new AeonIssuerParser());
+        registry.register(new EposIssuerParser());
+    });
+
+    describe('register', () => {
+        test('正常系: 登録順にパーサーを取得できること', () => {
+            const companies = registry.getAll().map((parser) => parser.cardCompany);
+
+            expect(companies).toEqual([CardCompany.MUFG, CardCompany.SMBC, 'RAKUTEN', 'JCB', 'AEON', 'EPOS']);
+            expect(registry.get(CardCompany.SMBC)).toBeInstanceOf(SmbcIssuerParser);
+        });
+
+        test('異常系: 同じ識別子のパーサーを重複登録するとAppErrorがスローされること', () => {
+            try {
+                registry.register(new MufgIssuerParser());
+                fail('例外がスローされるべき');
+            } catch (error) {
+                expect(error).toBeInstanceOf(AppError);
+                expect((error as AppError).type).toBe(ErrorType.DUPLICATE);
+            }
+        });
+
+        test('正常系: 未登録の識別子の場合はundefinedを返すこと', () => {
+            expect(registry.get('UNKNOWN')).toBeUndefined();
+        });
+    });
+
+    describe('detect', () => {
+        test('正常系: 送信元のみで判定でき、一致したルールが返されること', () => {
+            const parser = new MufgIssuerParser();
+            const result = parser.detect({
+                subject: 'お知らせ',
+                from: 'notification@bk.mufg.jp',
+                body: '本文',
+            });
+
+            expect(result.matched).toBe(true);
+            expect(result.matchedBy).toBe('sender');
+            expect(result.matchedRules).toEqual(['sender:mufg.jp', 'sender:bk.mufg.jp']);
+        });
+
+        test('正常系: 送信元が一致したパーサーがキーワード一致より優先されること', () => {
+            // 件名と本文はSMBCのキーワードにも一致するが、送信元は楽天カード
+            const result = registry.detect({
+                subject: 'カード利用のお知らせ',
+                from: 'info@mail.rakuten-card.co.jp',
+                body: '楽天カード（クレジットカード）のご利用内容',
+            });
+
+            expect(result?.cardCompany).toBe('RAKUTEN');
+        });
+
+        test('正常系: 件名のみ一致する場合は判定されないこと', () => {
+            const result = registry.detect({
+                subject: 'ご利用のお知らせ',
+                from: 'info@example.com',
+                body: 'これはカード利用に関係ないメールです。',
+            });
+
+            expect(result).toBeNull();
+        });
+    });
+
+    describe('サンプルメール', () => {
+        const parsers = [
+            new MufgIssuerParser(),
+            new SmbcIssuerParser(),
+            new RakutenIssuerParser(),
+            new JcbIssuerParser(),
+            new AeonIssuerParser(),
+            new EposIssuerParser(),
+        ];
+
+        test.each(parsers.flatMap((parser) =>
+            parser.sampleFixtures.map((fixture) => [parser.cardCompany, fixture.description, fixture] as const)
+        ))('正常系: %s - %s を判定・抽出できること', (cardCompany, _description, fixture) => {
+            const detected = registry.detect(fixture.email);
+            expect(detected?.cardCompany).toBe(cardCompany);
+
+            const usages = detected!.extract(fixture.email.body);
+            expect(usages.map((usage) => ({
+                card_name: usage.card_name,
+                amount: usage.amount,
+                where_to_use: usage.where_to_use,
+            }))).toEqual(fixture.expected);
+        });
+    });
+});
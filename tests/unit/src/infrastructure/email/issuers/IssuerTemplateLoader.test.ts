@@ -0,0 +1,126 @@
+import { IssuerTemplateLoader } from '../../../../../../src/infrastructure/email/issuers/IssuerTemplateLoader';
+import { CardIssuerParserRegistry } from '../../../../../../src/infrastructure/email/issuers/CardIssuerParserRegistry';
+import { MufgIssuerParser } from '../../../../../../src/infrastructure/email/issuers/MufgIssuerParser';
+import { SmbcIssuerParser } from '../../../../../../src/infrastructure/email/issuers/SmbcIssuerParser';
+import { TemplateIssuerParser } from '../../../../../../src/infrastructure/email/issuers/TemplateIssuerParser';
+import { IssuerTemplate } from '../../../../../../shared/domain/entities/IssuerTemplate';
+import { IConfigRepository } from '../../../../../../shared/domain/interfaces/database/repositories/IConfigRepository';
+
+// Loggerをモック化
+jest.mock('../../../../../../shared/infrastructure/logging/Logger', () => ({
+    logger: {
+        info: jest.fn(),
+        debug: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        logAppError: jest.fn(),
+        updateServiceStatus: jest.fn()
+    }
+}));
+
+// ErrorHandlerをモック化
+jest.mock('../../../../../../shared/infrastructure/errors/ErrorHandler', () => ({
+    ErrorHandler: {
+        errorDecorator: () => (_target: any, _propertyKey: string, descriptor: PropertyDescriptor) => descriptor,
+        handle: jest.fn()
+    }
+}));
+
+describe('IssuerTemplateLoader', () => {
+    let registry: CardIssuerParserRegistry;
+    let mockConfigRepository: jest.Mocked<IConfigRepository>;
+    let loader: IssuerTemplateLoader;
+
+    const template = (overrides: Partial<IssuerTemplate> = {}): IssuerTemplate => ({
+        cardCompany: 'MUFG',
+        displayName: '三菱UFJ銀行',
+        mailboxName: '三菱東京UFJ銀行',
+        version: 2,
+        senders: ['mufg.jp'],
+        subjectKeywords: [],
+        bodyKeywords: [],
+        fields: {
+            datetime: '【ご利用日時】\\s*([^\\n]+)',
+            amount: '【ご利用金額】\\s*([\\d,]+)円',
+            whereToUse: '【ご利用先】\\s*([^\\n]+)',
+        },
+        dateFormat: 'yyyy年M月d日 HH:mm',
+        amountLocale: 'ja-JP',
+        enabled: true,
+        createdAt: '2025-01-01T00:00:00.000Z',
+        ...overrides,
+    });
+
+    beforeEach(() => {
+        registry = new CardIssuerParserRegistry();
+        registry.register(new MufgIssuerParser());
+        registry.register(new SmbcIssuerParser());
+
+        mockConfigRepository = {
+            getReportThresholds: jest.fn(),
+            getIssuerTemplates: jest.fn(),
+            getIssuerTemplateConfig: jest.fn(),
+            saveIssuerTemplate: jest.fn(),
+            rollbackIssuerTemplate: jest.fn(),
+            getMerchantAliases: jest.fn(),
+            saveMerchantAliases: jest.fn(),
+            getCategoryConfig: jest.fn(),
+            saveCategories: jest.fn(),
+            saveCategoryRules: jest.fn(),
+            getBudgets: jest.fn(),
+            saveBudget: jest.fn(),
+            deleteBudget: jest.fn(),
+            getCards: jest.fn(),
+            saveCard: jest.fn(),
+            deleteCard: jest.fn(),
+        };
+
+        loader = new IssuerTemplateLoader(mockConfigRepository, registry);
+    });
+
+    test('正常系: テンプレートで組み込みパーサーが置き換えられること', async () => {
+        mockConfigRepository.getIssuerTemplates.mockResolvedValue([template()]);
+
+        const count = await loader.load();
+
+        expect(count).toBe(1);
+        expect(registry.get('MUFG')).toBeInstanceOf(TemplateIssuerParser);
+        expect(registry.get('SMBC')).toBeInstanceOf(SmbcIssuerParser);
+    });
+
+    test('正常系: 新しいカード会社のテンプレートが追加されること', async () => {
+        mockConfigRepository.getIssuerTemplates.mockResolvedValue([
+            template({ cardCompany: 'SAISON', mailboxName: 'セゾンカード' }),
+        ]);
+
+        await loader.load();
+
+        expect(registry.getAll().map((parser) => parser.cardCompany)).toEqual(['MUFG', 'SMBC', 'SAISON']);
+    });
+
+    test('正常系: テンプレートが無効化された場合は組み込みパーサーに戻ること', async () => {
+        mockConfigRepository.getIssuerTemplates.mockResolvedValueOnce([
+            template(),
+            template({ cardCompany: 'SAISON', mailboxName: 'セゾンカード' }),
+        ]);
+        await loader.load();
+
+        mockConfigRepository.getIssuerTemplates.mockResolvedValueOnce([]);
+        const count = await loader.load();
+
+        expect(count).toBe(0);
+        expect(registry.get('MUFG')).toBeInstanceOf(MufgIssuerParser);
+        expect(registry.get('SAISON')).toBeUndefined();
+    });
+
+    test('異常系: 不正なテンプレートはスキップされ、既存のパーサーが維持されること', async () => {
+        mockConfigRepository.getIssuerTemplates.mockResolvedValue([
+            template({ fields: { datetime: '(', amount: '(', whereToUse: '(' } }),
+        ]);
+
+        const count = await loader.load();
+
+        expect(count).toBe(0);
+        expect(registry.get('MUFG')).toBeInstanceOf(MufgIssuerParser);
+    });
+});
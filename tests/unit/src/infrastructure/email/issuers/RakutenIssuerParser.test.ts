@@ -0,0 +1,79 @@
+import { RakutenIssuerParser } from '../../../../../../src/infrastructure/email/issuers/RakutenIssuerParser';
+
+// Loggerをモック化
+jest.mock('../../../../../../shared/infrastructure/logging/Logger', () => ({
+    logger: {
+        info: jest.fn(),
+        debug: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        logAppError: jest.fn(),
+        updateServiceStatus: jest.fn()
+    }
+}));
+
+describe('RakutenIssuerParser', () => {
+    let parser: RakutenIssuerParser;
+
+    // 複数件の利用明細を含むカード利用お知らせメール
+    const digestBody = `
+楽天カードをご利用いただき誠にありがとうございます。
+お客様のカードご利用内容をお知らせいたします。
+
+■カード名称：楽天ゴールドカード（Mastercard）
+
+<<ご利用内容>>
+■利用日: 2025/05/10
+■利用先: セブン－イレブン
+■利用者: 本人
+■支払方法: 1回
+■利用金額: 1,280 円
+■支払月: 2025/06
+
+■利用日: 2025/05/11
+■利用先: AMAZON.CO.JP
+■利用者: 本人
+■支払方法: 1回
+■利用金額: 12,345 円
+■支払月: 2025/06
+`;
+
+    beforeEach(() => {
+        parser = new RakutenIssuerParser();
+    });
+
+    describe('extract', () => {
+        test('正常系: 複数件の利用明細をすべて抽出できること', () => {
+            const usages = parser.extract(digestBody);
+
+            expect(usages).toHaveLength(2);
+            expect(usages[0].card_name).toBe('楽天ゴールドカード（Mastercard）');
+            expect(usages[0].where_to_use).toBe('セブン－イレブン');
+            expect(usages[0].amount).toBe(1280);
+            expect(usages[0].datetime_of_use.toDate().toISOString()).toBe('2025-05-09T15:00:00.000Z');
+            expect(usages[1].card_name).toBe('楽天ゴールドカード（Mastercard）');
+            expect(usages[1].where_to_use).toBe('AMAZON.CO.JP');
+            expect(usages[1].amount).toBe(12345);
+            expect(usages[1].datetime_of_use.toDate().toISOString()).toBe('2025-05-10T15:00:00.000Z');
+        });
+
+        test('正常系: 全角コロンの明細も抽出できること', () => {
+            const usages = parser.extract('■利用日：2025/5/3\n■利用先：楽天市場\n■利用金額：500円\n');
+
+            expect(usages).toHaveLength(1);
+            expect(usages[0].card_name).toBe('楽天カード');
+            expect(usages[0].where_to_use).toBe('楽天市場');
+            expect(usages[0].amount).toBe(500);
+            expect(usages[0].datetime_of_use.toDate().toISOString()).toBe('2025-05-02T15:00:00.000Z');
+        });
+
+        test('異常系: 利用明細が見つからない場合、デフォルト値で1件返すこと', () => {
+            const usages = parser.extract('楽天カードのお知らせ');
+
+            expect(usages).toHaveLength(1);
+            expect(usages[0].card_name).toBe('楽天カード');
+            expect(usages[0].where_to_use).toBe('不明');
+            expect(usages[0].amount).toBe(0);
+        });
+    });
+});
@@ -0,0 +1,129 @@
+import { TemplateIssuerParser } from '../../../../../../src/infrastructure/email/issuers/TemplateIssuerParser';
+import { IssuerTemplate } from '../../../../../../shared/domain/entities/IssuerTemplate';
+import { AppError, ErrorType } from '../../../../../../shared/errors/AppError';
+
+// Loggerをモック化
+jest.mock('../../../../../../shared/infrastructure/logging/Logger', () => ({
+    logger: {
+        info: jest.fn(),
+        debug: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        logAppError: jest.fn(),
+        updateServiceStatus: jest.fn()
+    }
+}));
+
+describe('TemplateIssuerParser', () => {
+    const baseTemplate: IssuerTemplate = {
+        cardCompany: 'SAISON',
+        displayName: 'セゾンカード',
+        mailboxName: 'セゾンカード',
+        version: 1,
+        senders: ['saisoncard.co.jp'],
+        subjectKeywords: ['セゾン', '利用'],
+        bodyKeywords: ['セゾン'],
+        fields: {
+            cardName: 'カード名：\\s*([^\\n]+)',
+            datetime: 'ご利用日時：\\s*([^\\n]+)',
+            amount: 'ご利用金額：\\s*([\\d,.]+)円',
+            whereToUse: 'ご利用先：\\s*([^\\n]+)',
+        },
+        dateFormat: 'yyyy/MM/dd HH:mm',
+        amountLocale: 'ja-JP',
+        enabled: true,
+        createdAt: '2025-01-01T00:00:00.000Z',
+    };
+
+    describe('detect', () => {
+        test('正常系: テンプレートの送信元で判定されること', () => {
+            const parser = new TemplateIssuerParser(baseTemplate);
+
+            const result = parser.detect({ subject: 'お知らせ', from: 'info@saisoncard.co.jp', body: '' });
+
+            expect(result.matched).toBe(true);
+            expect(result.matchedBy).toBe('sender');
+        });
+    });
+
+    describe('extract', () => {
+        test('正常系: 日時書式に従って日本時間として解釈されること', () => {
+            const parser = new TemplateIssuerParser(baseTemplate);
+            const body = [
+                'カード名：セゾンカードインターナショナル',
+                'ご利用日時：2025/05/10 14:30',
+                'ご利用金額：1,280円',
+                'ご利用先：コンビニ',
+            ].join('\n');
+
+            const [usage] = parser.extract(body);
+
+            expect(usage.card_name).toBe('セゾンカードインターナショナル');
+            expect(usage.datetime_of_use.toDate().toISOString()).toBe('2025-05-10T05:30:00.000Z');
+            expect(usage.amount).toBe(1280);
+            expect(usage.where_to_use).toBe('コンビニ');
+        });
+
+        test('正常系: ロケールに応じた桁区切りと小数点で金額が解釈されること', () => {
+            const parser = new TemplateIssuerParser({
+                ...baseTemplate,
+                fields: { ...baseTemplate.fields, amount: 'ご利用金額：\\s*([\\d.,]+)円' },
+                dateFormat: 'd.M.yyyy',
+                amountLocale: 'de-DE',
+            });
+            const body = 'ご利用日時：3.2.2025\nご利用金額：1.234,56円\nご利用先：Shop';
+
+            const [usage] = parser.extract(body);
+
+            expect(usage.amount).toBe(1235);
+            expect(usage.datetime_of_use.toDate().toISOString()).toBe('2025-02-02T15:00:00.000Z');
+        });
+
+        test('正常系: 明細区切りが指定された場合は複数件が抽出されること', () => {
+            const parser = new TemplateIssuerParser({
+                ...baseTemplate,
+                usageBlockPattern: 'ご利用日時：',
+            });
+            const body = [
+                'カード名：セゾンカード',
+                'ご利用日時：2025/05/10 09:00',
+                'ご利用金額：500円',
+                'ご利用先：カフェ',
+                'ご利用日時：2025/05/11 10:00',
+                'ご利用金額：2,000円',
+                'ご利用先：書店',
+            ].join('\n');
+
+            const usages = parser.extract(body);
+
+            expect(usages.map((usage) => [usage.amount, usage.where_to_use])).toEqual([
+                [500, 'カフェ'],
+                [2000, '書店'],
+            ]);
+        });
+
+        test('正常系: カード名が取得できない場合は既定のカード名が使われること', () => {
+            const parser = new TemplateIssuerParser({ ...baseTemplate, defaultCardName: 'セゾン既定' });
+
+            const [usage] = parser.extract('ご利用日時：2025/05/10 09:00\nご利用金額：500円\nご利用先：カフェ');
+
+            expect(usage.card_name).toBe('セゾン既定');
+        });
+    });
+
+    describe('constructor', () => {
+        test('異常系: 正規表現が不正な場合はバリデーションエラーになること', () => {
+            const create = () => new TemplateIssuerParser({
+                ...baseTemplate,
+                fields: { ...baseTemplate.fields, amount: '([' },
+            });
+
+            expect(create).toThrow(AppError);
+            try {
+                create();
+            } catch (error) {
+                expect((error as AppError).type).toBe(ErrorType.VALIDATION);
+            }
+        });
+    });
+});
@@ -0,0 +1,108 @@
+import { MerchantNormalizer } from '../../../../../src/infrastructure/merchant/MerchantNormalizer';
+import { IConfigRepository } from '../../../../../shared/domain/interfaces/database/repositories/IConfigRepository';
+import { logger } from '../../../../../shared/infrastructure/logging/Logger';
+
+// Loggerをモック化
+jest.mock('../../../../../shared/infrastructure/logging/Logger', () => ({
+    logger: {
+        info: jest.fn(),
+        debug: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+    }
+}));
+
+describe('MerchantNormalizer', () => {
+    let mockConfigRepository: jest.Mocked<IConfigRepository>;
+    let normalizer: MerchantNormalizer;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+
+        mockConfigRepository = {
+            getReportThresholds: jest.fn(),
+            getIssuerTemplates: jest.fn(),
+            getIssuerTemplateConfig: jest.fn(),
+            saveIssuerTemplate: jest.fn(),
+            rollbackIssuerTemplate: jest.fn(),
+            getMerchantAliases: jest.fn().mockResolvedValue([]),
+            saveMerchantAliases: jest.fn(),
+            getCategoryConfig: jest.fn(),
+            saveCategories: jest.fn(),
+            saveCategoryRules: jest.fn(),
+            getBudgets: jest.fn(),
+            saveBudget: jest.fn(),
+            deleteBudget: jest.fn(),
+            getCards: jest.fn(),
+            saveCard: jest.fn(),
+            deleteCard: jest.fn(),
+        };
+
+        normalizer = new MerchantNormalizer(mockConfigRepository);
+    });
+
+    describe('表記の揺れの除去', () => {
+        test.each([
+            ['全角英数字・記号を半角にそろえること', 'ＡＭＡＺＯＮ．ＣＯ．ＪＰ', 'AMAZON.CO.JP'],
+            ['半角カナを全角にそろえること', 'ｱﾏｿﾞﾝ', 'アマゾン'],
+            ['英字を大文字にそろえ、連続する空白をまとめること', ' amazon　 co jp ', 'AMAZON CO JP'],
+            ['決済代行の接頭辞を除くこと', 'PAYPAL *STEAM GAMES', 'STEAM GAMES'],
+            ['コード決済の接頭辞を除くこと', '楽天ペイ　ファミリーマート', 'ファミリーマート'],
+            ['接頭辞のみの場合は除かないこと', 'PAYPAY', 'PAYPAY'],
+        ])('正常系: %s', async (_, whereToUse, expected) => {
+            expect(await normalizer.normalize(whereToUse)).toBe(expected);
+        });
+    });
+
+    describe('別名', () => {
+        test('正常系: 記号・空白を除いて別名と一致する場合は統一後の利用先に置き換えること', async () => {
+            mockConfigRepository.getMerchantAliases.mockResolvedValue([
+                { alias: 'AMAZON.CO.JP', canonical: 'Amazon' },
+            ]);
+
+            expect(await normalizer.normalize('ＡＭＡＺＯＮ．ＣＯ．ＪＰ')).toBe('Amazon');
+            expect(await normalizer.normalize('AMAZON CO JP')).toBe('Amazon');
+            expect(await normalizer.normalize('AMAZON.CO.JP MKTPL')).toBe('AMAZON.CO.JP MKTPL');
+        });
+
+        test('正常系: ひらがなの別名はカタカナの利用先と一致すること', async () => {
+            mockConfigRepository.getMerchantAliases.mockResolvedValue([
+                { alias: 'あまぞん', canonical: 'Amazon' },
+            ]);
+
+            expect(await normalizer.normalize('ｱﾏｿﾞﾝ')).toBe('Amazon');
+        });
+
+        test('正常系: 前方一致の別名は別名で始まる利用先と一致すること', async () => {
+            mockConfigRepository.getMerchantAliases.mockResolvedValue([
+                { alias: 'セブン-イレブン', canonical: 'セブン-イレブン', match: 'prefix' },
+            ]);
+
+            expect(await normalizer.normalize('ｾﾌﾞﾝｲﾚﾌﾞﾝ 新宿店')).toBe('セブン-イレブン');
+            expect(await normalizer.normalize('イレブン')).toBe('イレブン');
+        });
+
+        test('正常系: 複数の別名に一致する場合は先に一致したものを使用すること', async () => {
+            mockConfigRepository.getMerchantAliases.mockResolvedValue([
+                { alias: 'AMAZON PRIME', canonical: 'Amazonプライム' },
+                { alias: 'AMAZON', canonical: 'Amazon', match: 'prefix' },
+            ]);
+
+            expect(await normalizer.normalize('AMAZON PRIME')).toBe('Amazonプライム');
+            expect(await normalizer.normalize('AMAZON DOWNLOADS')).toBe('Amazon');
+        });
+
+        test('正常系: 設定情報リポジトリを指定しない場合は別名を使用しないこと', async () => {
+            normalizer = new MerchantNormalizer();
+
+            expect(await normalizer.normalize('ＡＭＡＺＯＮ．ＣＯ．ＪＰ')).toBe('AMAZON.CO.JP');
+        });
+
+        test('異常系: 別名を取得できない場合は別名を使用せずに正規化すること', async () => {
+            mockConfigRepository.getMerchantAliases.mockRejectedValue(new Error('取得エラー'));
+
+            expect(await normalizer.normalize('ＡＭＡＺＯＮ．ＣＯ．ＪＰ')).toBe('AMAZON.CO.JP');
+            expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('取得エラー'), 'MerchantNormalizer');
+        });
+    });
+});
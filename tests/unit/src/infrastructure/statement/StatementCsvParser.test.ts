@@ -0,0 +1,74 @@
+import * as Encoding from 'encoding-japanese';
+import {
+    MUFG_STATEMENT_COLUMNS,
+    SMBC_STATEMENT_COLUMNS,
+    StatementCsvParser,
+} from '../../../../../src/infrastructure/statement/StatementCsvParser';
+import { CardCompany } from '../../../../../src/domain/enums/CardCompany';
+
+/**
+ * 文字列をShift_JISのバイト列に変換する
+ */
+const toShiftJis = (text: string): Buffer =>
+    Buffer.from(Encoding.convert(Encoding.stringToCode(text), { to: 'SJIS', from: 'UNICODE' }));
+
+describe('StatementCsvParser', () => {
+    describe('三井住友カード（見出し行なし）', () => {
+        const parser = new StatementCsvParser(CardCompany.SMBC, SMBC_STATEMENT_COLUMNS);
+
+        test('Shift_JISのCSVから利用明細を読み取り、カード情報の行と合計行を除くこと', () => {
+            const csv = [
+                '山田　太郎　様,4980-****-****-****,三井住友カード（ＮＬ）',
+                '2025/05/10,セブン－イレブン,"1,234",１,１,1234,',
+                '2025/05/11,ＡＭＡＺＯＮ．ＣＯ．ＪＰ,5000,１,１,5000,',
+                '2025/05/12,ＡＭＡＺＯＮ．ＣＯ．ＪＰ,-1500,１,１,-1500,返品',
+                ',,,,,4734,',
+            ].join('\r\n');
+
+            const lines = parser.parse(toShiftJis(csv));
+
+            expect(lines).toEqual([
+                { lineNumber: 2, date: '2025-05-10', amount: 1234, merchant: 'セブン-イレブン' },
+                { lineNumber: 3, date: '2025-05-11', amount: 5000, merchant: 'AMAZON.CO.JP' },
+                { lineNumber: 4, date: '2025-05-12', amount: -1500, merchant: 'AMAZON.CO.JP' },
+            ]);
+        });
+    });
+
+    describe('三菱UFJ銀行（見出し行あり）', () => {
+        const parser = new StatementCsvParser(CardCompany.MUFG, MUFG_STATEMENT_COLUMNS);
+
+        test('見出し行から列を特定し、UTF-8（BOM付き）のCSVを読み取ること', () => {
+            const csv = '\uFEFF' + [
+                '"ご利用日","ご利用先","ご利用金額","備考"',
+                '"2025年5月10日","ﾛｰｿﾝ","980円",""',
+                '"2025年5月11日","Store, Inc.","▲300",""',
+            ].join('\n') + '\n';
+
+            const lines = parser.parse(Buffer.from(csv, 'utf8'));
+
+            expect(lines).toEqual([
+                { lineNumber: 2, date: '2025-05-10', amount: 980, merchant: 'ローソン' },
+                { lineNumber: 3, date: '2025-05-11', amount: -300, merchant: 'Store, Inc.' },
+            ]);
+        });
+
+        test('入出金明細の見出しにも対応し、金額が空の行（入金など）を除くこと', () => {
+            const csv = [
+                '日付,摘要,摘要内容,支払い金額,預かり金額,差引残高',
+                '2025/5/10,デビット,ｽﾀ-ﾊﾞﾂｸｽ,650,,100000',
+                '2025/5/11,振込,ｶ)ｷﾕｳﾖ,,300000,400000',
+            ].join('\n');
+
+            const lines = parser.parse(toShiftJis(csv));
+
+            expect(lines).toEqual([
+                { lineNumber: 2, date: '2025-05-10', amount: 650, merchant: 'スタ-バツクス' },
+            ]);
+        });
+
+        test('見出し行が見つからない場合は空の配列を返すこと', () => {
+            expect(parser.parse(Buffer.from('a,b,c\n1,2,3\n'))).toEqual([]);
+        });
+    });
+});
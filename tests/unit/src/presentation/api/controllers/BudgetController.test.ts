@@ -0,0 +1,161 @@
+import { Request, Response } from 'express';
+import { BudgetController } from '../../../../../../src/presentation/api/controllers/BudgetController';
+import { IConfigRepository } from '../../../../../../shared/domain/interfaces/database/repositories/IConfigRepository';
+import { ErrorHandler } from '../../../../../../shared/infrastructure/errors/ErrorHandler';
+import { AppError, ErrorType } from '../../../../../../shared/errors/AppError';
+import { Budget } from '../../../../../../shared/domain/entities/Budget';
+
+jest.mock('../../../../../../shared/infrastructure/errors/ErrorHandler');
+
+// Loggerをモック化
+jest.mock('../../../../../../shared/infrastructure/logging/Logger', () => ({
+    logger: {
+        info: jest.fn(),
+        debug: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        logAppError: jest.fn(),
+        updateServiceStatus: jest.fn()
+    }
+}));
+
+const mockRequest = (body?: unknown, params: Record<string, string> = {}) =>
+    ({ body, params }) as unknown as Request;
+
+const mockResponse = () => {
+    const res: Partial<Response> = {};
+    res.status = jest.fn().mockReturnValue(res);
+    res.json = jest.fn().mockReturnValue(res);
+    return res as Response;
+};
+
+describe('BudgetController', () => {
+    const budget: Budget = {
+        id: 'budget-1',
+        name: '食料品',
+        target: 'category',
+        key: 'groceries',
+        limit: 30000,
+        alertPercentages: [50, 80, 100],
+    };
+
+    let controller: BudgetController;
+    let mockConfigRepository: jest.Mocked<IConfigRepository>;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+
+        mockConfigRepository = {
+            getReportThresholds: jest.fn(),
+            getIssuerTemplates: jest.fn(),
+            getIssuerTemplateConfig: jest.fn(),
+            saveIssuerTemplate: jest.fn(),
+            rollbackIssuerTemplate: jest.fn(),
+            getMerchantAliases: jest.fn(),
+            saveMerchantAliases: jest.fn(),
+            getCategoryConfig: jest.fn(),
+            saveCategories: jest.fn(),
+            saveCategoryRules: jest.fn(),
+            getBudgets: jest.fn().mockResolvedValue([budget]),
+            saveBudget: jest.fn().mockResolvedValue(budget),
+            deleteBudget: jest.fn().mockResolvedValue(undefined),
+            getCards: jest.fn(),
+            saveCard: jest.fn(),
+            deleteCard: jest.fn(),
+        };
+
+        (ErrorHandler.handle as jest.Mock).mockImplementation(async (error: any) => {
+            if (error instanceof AppError) return error;
+            return new AppError(error.message, ErrorType.GENERAL);
+        });
+
+        controller = new BudgetController(mockConfigRepository);
+    });
+
+    describe('getBudgets', () => {
+        test('正常系: 予算の一覧を返すこと', async () => {
+            const res = mockResponse();
+
+            await controller.getBudgets(mockRequest(), res);
+
+            expect(res.status).toHaveBeenCalledWith(200);
+            expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+                success: true,
+                data: [budget],
+            }));
+        });
+    });
+
+    describe('createBudget', () => {
+        test('正常系: リクエストの予算を新規登録すること', async () => {
+            const res = mockResponse();
+
+            await controller.createBudget(
+                mockRequest({ target: 'category', key: 'groceries', limit: 30000, extra: 'ignored' }),
+                res
+            );
+
+            expect(mockConfigRepository.saveBudget).toHaveBeenCalledWith({
+                name: undefined,
+                target: 'category',
+                key: 'groceries',
+                limit: 30000,
+                alertPercentages: undefined,
+            });
+            expect(res.status).toHaveBeenCalledWith(200);
+            expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+                success: true,
+                data: budget,
+            }));
+        });
+
+        test('異常系: 入力が不正な場合は400を返すこと', async () => {
+            mockConfigRepository.saveBudget.mockRejectedValue(
+                new AppError('limitは0より大きい数値で指定してください', ErrorType.VALIDATION)
+            );
+            const res = mockResponse();
+
+            await controller.createBudget(mockRequest(), res);
+
+            expect(res.status).toHaveBeenCalledWith(400);
+        });
+    });
+
+    describe('updateBudget', () => {
+        test('正常系: 指定されたIDの予算を更新すること', async () => {
+            const res = mockResponse();
+            const body = { name: '食費', target: 'category', key: 'groceries', limit: 40000, alertPercentages: [90] };
+
+            await controller.updateBudget(mockRequest(body, { id: 'budget-1' }), res);
+
+            expect(mockConfigRepository.saveBudget).toHaveBeenCalledWith(body, 'budget-1');
+            expect(res.status).toHaveBeenCalledWith(200);
+        });
+
+        test('異常系: 予算が存在しない場合は404を返すこと', async () => {
+            mockConfigRepository.saveBudget.mockRejectedValue(
+                new AppError('予算が見つかりません: unknown', ErrorType.NOT_FOUND)
+            );
+            const res = mockResponse();
+
+            await controller.updateBudget(mockRequest({}, { id: 'unknown' }), res);
+
+            expect(res.status).toHaveBeenCalledWith(404);
+        });
+    });
+
+    describe('deleteBudget', () => {
+        test('正常系: 指定されたIDの予算を削除すること', async () => {
+            const res = mockResponse();
+
+            await controller.deleteBudget(mockRequest(undefined, { id: 'budget-1' }), res);
+
+            expect(mockConfigRepository.deleteBudget).toHaveBeenCalledWith('budget-1');
+            expect(res.status).toHaveBeenCalledWith(200);
+            expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+                success: true,
+                data: { id: 'budget-1' },
+            }));
+        });
+    });
+});
@@ -0,0 +1,154 @@
+import { Request, Response } from 'express';
+import { CardController } from '../../../../../../src/presentation/api/controllers/CardController';
+import { IConfigRepository } from '../../../../../../shared/domain/interfaces/database/repositories/IConfigRepository';
+import { ErrorHandler } from '../../../../../../shared/infrastructure/errors/ErrorHandler';
+import { AppError, ErrorType } from '../../../../../../shared/errors/AppError';
+import { Card } from '../../../../../../shared/domain/entities/Card';
+
+jest.mock('../../../../../../shared/infrastructure/errors/ErrorHandler');
+
+// Loggerをモック化
+jest.mock('../../../../../../shared/infrastructure/logging/Logger', () => ({
+    logger: {
+        info: jest.fn(),
+        debug: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        logAppError: jest.fn(),
+        updateServiceStatus: jest.fn()
+    }
+}));
+
+const mockRequest = (body?: unknown, params: Record<string, string> = {}) =>
+    ({ body, params }) as unknown as Request;
+
+const mockResponse = () => {
+    const res: Partial<Response> = {};
+    res.status = jest.fn().mockReturnValue(res);
+    res.json = jest.fn().mockReturnValue(res);
+    return res as Response;
+};
+
+describe('CardController', () => {
+    const card: Card = {
+        cardName: '楽天カード',
+        displayName: '楽天',
+        issuer: 'Rakuten',
+        closingDay: 15,
+        paymentDay: 10,
+        paymentMonthOffset: 1,
+        reminderDaysBefore: 3,
+    };
+
+    let controller: CardController;
+    let mockConfigRepository: jest.Mocked<IConfigRepository>;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+
+        mockConfigRepository = {
+            getReportThresholds: jest.fn(),
+            getIssuerTemplates: jest.fn(),
+            getIssuerTemplateConfig: jest.fn(),
+            saveIssuerTemplate: jest.fn(),
+            rollbackIssuerTemplate: jest.fn(),
+            getMerchantAliases: jest.fn(),
+            saveMerchantAliases: jest.fn(),
+            getCategoryConfig: jest.fn(),
+            saveCategories: jest.fn(),
+            saveCategoryRules: jest.fn(),
+            getBudgets: jest.fn(),
+            saveBudget: jest.fn(),
+            deleteBudget: jest.fn(),
+            getCards: jest.fn().mockResolvedValue([card]),
+            saveCard: jest.fn().mockResolvedValue(card),
+            deleteCard: jest.fn().mockResolvedValue(undefined),
+        };
+
+        (ErrorHandler.handle as jest.Mock).mockImplementation(async (error: any) => {
+            if (error instanceof AppError) return error;
+            return new AppError(error.message, ErrorType.GENERAL);
+        });
+
+        controller = new CardController(mockConfigRepository);
+    });
+
+    describe('getCards', () => {
+        test('正常系: 登録済みのカードの一覧を返すこと', async () => {
+            const res = mockResponse();
+
+            await controller.getCards(mockRequest(), res);
+
+            expect(res.status).toHaveBeenCalledWith(200);
+            expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+                success: true,
+                data: [card],
+            }));
+        });
+    });
+
+    describe('saveCard', () => {
+        test('正常系: パスのカード名でリクエストのカードを保存すること', async () => {
+            const res = mockResponse();
+
+            await controller.saveCard(
+                mockRequest({ issuer: 'Rakuten', closingDay: 15, paymentDay: 10, cardName: 'ignored' }, {
+                    cardName: '楽天カード',
+                }),
+                res
+            );
+
+            expect(mockConfigRepository.saveCard).toHaveBeenCalledWith({
+                cardName: '楽天カード',
+                displayName: undefined,
+                issuer: 'Rakuten',
+                closingDay: 15,
+                paymentDay: 10,
+                paymentMonthOffset: undefined,
+                reminderDaysBefore: undefined,
+            });
+            expect(res.status).toHaveBeenCalledWith(200);
+            expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+                success: true,
+                data: card,
+            }));
+        });
+
+        test('異常系: 入力が不正な場合は400を返すこと', async () => {
+            mockConfigRepository.saveCard.mockRejectedValue(
+                new AppError('closingDayは1〜31の整数で指定してください', ErrorType.VALIDATION)
+            );
+            const res = mockResponse();
+
+            await controller.saveCard(mockRequest(undefined, { cardName: '楽天カード' }), res);
+
+            expect(res.status).toHaveBeenCalledWith(400);
+        });
+    });
+
+    describe('deleteCard', () => {
+        test('正常系: 指定されたカード名の登録を削除すること', async () => {
+            const res = mockResponse();
+
+            await controller.deleteCard(mockRequest(undefined, { cardName: '楽天カード' }), res);
+
+            expect(mockConfigRepository.deleteCard).toHaveBeenCalledWith('楽天カード');
+            expect(res.status).toHaveBeenCalledWith(200);
+            expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+                success: true,
+                data: { cardName: '楽天カード' },
+            }));
+        });
+
+        test('異常系: カードが登録されていない場合は404を返すこと', async () => {
+            mockConfigRepository.deleteCard.mockRejectedValue(
+                new AppError('カードが登録されていません: 未登録カード', ErrorType.NOT_FOUND)
+            );
+            const res = mockResponse();
+
+            await controller.deleteCard(mockRequest(undefined, { cardName: '未登録カード' }), res);
+
+            expect(res.status).toHaveBeenCalledWith(404);
+        });
+    });
+});
@@ -105,7 +105,7 @@ describe('CardUsageController', () => {
             await cardUsageController.getCardUsagesByDate(mockRequest as Request, mockResponse as Response);
 
             // Assert
-            expect(mockCardUsageUseCase.getCardUsagesByYearMonth).toHaveBeenCalledWith(year, month);
+            expect(mockCardUsageUseCase.getCardUsagesByYearMonth).toHaveBeenCalledWith(year, month, undefined);
             expect(ResponseHelper.success).toHaveBeenCalledWith('カード利用情報の取得に成功しました', mockUsages);
             expect(statusMock).toHaveBeenCalledWith(200);
             expect(jsonMock).toHaveBeenCalledWith({
@@ -116,6 +116,15 @@ describe('CardUsageController', () => {
             });
         });
 
+        test('statusクエリを指定した場合、状態で絞り込むこと', async () => {
+            mockRequest.query = { year: '2023', month: '12', status: 'pending_review' };
+            mockCardUsageUseCase.getCardUsagesByYearMonth = jest.fn().mockResolvedValue([]);
+
+            await cardUsageController.getCardUsagesByDate(mockRequest as Request, mockResponse as Response);
+
+            expect(mockCardUsageUseCase.getCardUsagesByYearMonth).toHaveBeenCalledWith('2023', '12', 'pending_review');
+        });
+
         test('エラーが発生した場合、500エラーレスポンスを返すこと', async () => {
             // Arrange
             mockRequest.query = { year: '2023', month: '12' };
@@ -168,6 +177,38 @@ describe('CardUsageController', () => {
             });
         });
 
+        test('外貨建ての利用の場合、現地通貨額と換算レートをレスポンスに含めること', async () => {
+            // Arrange
+            mockRequest.params = { id: '124' };
+            const mockCardUsage = {
+                id: '124',
+                path: 'details/2023/12/term1/01/124',
+                card_name: 'テストカード',
+                amount: 1834,
+                original_currency: 'USD',
+                original_amount: 12.34,
+                exchange_rate: 148.62,
+                datetime_of_use: new Date(),
+                where_to_use: 'AMAZON.COM',
+                is_active: true,
+                created_at: new Date()
+            };
+            mockCardUsageUseCase.getCardUsageById = jest.fn().mockResolvedValue(mockCardUsage);
+
+            // Act
+            await cardUsageController.getCardUsageById(mockRequest as Request, mockResponse as Response);
+
+            // Assert
+            expect(jsonMock).toHaveBeenCalledWith(expect.objectContaining({
+                data: expect.objectContaining({
+                    amount: 1834,
+                    original_currency: 'USD',
+                    original_amount: 12.34,
+                    exchange_rate: 148.62
+                })
+            }));
+        });
+
         test('エラーが発生した場合、500エラーレスポンスを返すこと', async () => {
             // Arrange
             mockRequest.params = { id: '123' };
@@ -342,6 +383,90 @@ describe('CardUsageController', () => {
         });
     });
 
+    describe('getDuplicates', () => {
+        test('正常に年月で重複の疑いがあるカード利用情報の組を取得できること', async () => {
+            // Arrange
+            mockRequest.query = { year: '2023', month: '12' };
+            const mockPairs = [
+                {
+                    fingerprint: 'テストカード|1000|テスト店舗',
+                    original: { id: '1', path: 'details/2023/12/term1/01/1' },
+                    duplicate: { id: '2', path: 'details/2023/12/term1/01/2' },
+                    minutesApart: 3
+                }
+            ];
+            const mockDuplicateUseCase = { getDuplicates: jest.fn().mockResolvedValue(mockPairs) };
+            (cardUsageController as any).duplicateUseCase = mockDuplicateUseCase;
+
+            // Act
+            await cardUsageController.getDuplicates(mockRequest as Request, mockResponse as Response);
+
+            // Assert
+            expect(mockDuplicateUseCase.getDuplicates).toHaveBeenCalledWith('2023', '12');
+            expect(ResponseHelper.success).toHaveBeenCalledWith('重複の疑いがあるカード利用情報を取得しました', mockPairs);
+            expect(statusMock).toHaveBeenCalledWith(200);
+        });
+
+        test('エラーが発生した場合、エラーの種類に応じたステータスを返すこと', async () => {
+            // Arrange
+            mockRequest.query = {};
+            const error = new AppError('年と月のパラメータが必要です', ErrorType.VALIDATION);
+            (cardUsageController as any).duplicateUseCase = { getDuplicates: jest.fn().mockRejectedValue(error) };
+            (ResponseHelper.fromAppError as jest.Mock).mockReturnValueOnce({
+                status: 400,
+                success: false,
+                message: error.message
+            });
+
+            // Act
+            await cardUsageController.getDuplicates(mockRequest as Request, mockResponse as Response);
+
+            // Assert
+            expect(ErrorHandler.handle).toHaveBeenCalledWith(error, 'CardUsageController.getDuplicates');
+            expect(statusMock).toHaveBeenCalledWith(400);
+        });
+    });
+
+    describe('mergeDuplicates', () => {
+        test('正常に重複したカード利用情報を統合できること', async () => {
+            // Arrange
+            mockRequest.body = { keepId: '1', duplicateId: '2' };
+            const mockResult = {
+                kept: { id: '1', path: 'details/2023/12/term1/01/1' },
+                removed: { id: '2', path: 'details/2023/12/term1/01/2' }
+            };
+            const mockDuplicateUseCase = { merge: jest.fn().mockResolvedValue(mockResult) };
+            (cardUsageController as any).duplicateUseCase = mockDuplicateUseCase;
+
+            // Act
+            await cardUsageController.mergeDuplicates(mockRequest as Request, mockResponse as Response);
+
+            // Assert
+            expect(mockDuplicateUseCase.merge).toHaveBeenCalledWith('1', '2');
+            expect(ResponseHelper.success).toHaveBeenCalledWith('重複したカード利用情報を統合しました', mockResult);
+            expect(statusMock).toHaveBeenCalledWith(200);
+        });
+
+        test('エラーが発生した場合、エラーの種類に応じたステータスを返すこと', async () => {
+            // Arrange
+            mockRequest.body = { keepId: '1', duplicateId: '2' };
+            const error = new AppError('指定されたIDのカード利用情報が見つかりません', ErrorType.NOT_FOUND);
+            (cardUsageController as any).duplicateUseCase = { merge: jest.fn().mockRejectedValue(error) };
+            (ResponseHelper.fromAppError as jest.Mock).mockReturnValueOnce({
+                status: 404,
+                success: false,
+                message: error.message
+            });
+
+            // Act
+            await cardUsageController.mergeDuplicates(mockRequest as Request, mockResponse as Response);
+
+            // Assert
+            expect(ErrorHandler.handle).toHaveBeenCalledWith(error, 'CardUsageController.mergeDuplicates');
+            expect(statusMock).toHaveBeenCalledWith(404);
+        });
+    });
+
     // ルートクラスの統合テスト - カバレッジ向上のため
     describe('CardUsageRoutes統合テスト', () => {
         test('CardUsageRoutesクラスが正常にインスタンス化されること', () => {
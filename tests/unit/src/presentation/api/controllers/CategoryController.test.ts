@@ -0,0 +1,164 @@
+import { Request, Response } from 'express';
+import { CategoryController } from '../../../../../../src/presentation/api/controllers/CategoryController';
+import { IConfigRepository } from '../../../../../../shared/domain/interfaces/database/repositories/IConfigRepository';
+import { IApplyCategoryRulesUseCase } from '../../../../../../src/domain/interfaces/usecases/category/IApplyCategoryRulesUseCase';
+import { ErrorHandler } from '../../../../../../shared/infrastructure/errors/ErrorHandler';
+import { AppError, ErrorType } from '../../../../../../shared/errors/AppError';
+import { CategoryConfig } from '../../../../../../shared/domain/entities/Category';
+
+jest.mock('../../../../../../shared/infrastructure/errors/ErrorHandler');
+
+// Loggerをモック化
+jest.mock('../../../../../../shared/infrastructure/logging/Logger', () => ({
+    logger: {
+        info: jest.fn(),
+        debug: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        logAppError: jest.fn(),
+        updateServiceStatus: jest.fn()
+    }
+}));
+
+const mockRequest = (body?: unknown) => ({ body }) as unknown as Request;
+
+const mockResponse = () => {
+    const res: Partial<Response> = {};
+    res.status = jest.fn().mockReturnValue(res);
+    res.json = jest.fn().mockReturnValue(res);
+    return res as Response;
+};
+
+describe('CategoryController', () => {
+    const config: CategoryConfig = {
+        categories: [
+            { id: 'groceries', name: '食料品' },
+            { id: 'uncategorized', name: '未分類' },
+        ],
+        rules: [
+            { category: 'groceries', merchantPattern: 'イオン|ライフ' },
+        ],
+    };
+
+    let controller: CategoryController;
+    let mockConfigRepository: jest.Mocked<IConfigRepository>;
+    let mockApplyCategoryRulesUseCase: jest.Mocked<IApplyCategoryRulesUseCase>;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+
+        mockConfigRepository = {
+            getReportThresholds: jest.fn(),
+            getIssuerTemplates: jest.fn(),
+            getIssuerTemplateConfig: jest.fn(),
+            saveIssuerTemplate: jest.fn(),
+            rollbackIssuerTemplate: jest.fn(),
+            getMerchantAliases: jest.fn(),
+            saveMerchantAliases: jest.fn(),
+            getCategoryConfig: jest.fn().mockResolvedValue(config),
+            saveCategories: jest.fn().mockResolvedValue(config),
+            saveCategoryRules: jest.fn().mockResolvedValue(config),
+            getBudgets: jest.fn(),
+            saveBudget: jest.fn(),
+            deleteBudget: jest.fn(),
+            getCards: jest.fn(),
+            saveCard: jest.fn(),
+            deleteCard: jest.fn(),
+        };
+
+        mockApplyCategoryRulesUseCase = {
+            execute: jest.fn().mockResolvedValue({
+                from: '2025-05-01',
+                to: '2025-05-31',
+                total: 3,
+                skipped: 1,
+                changes: [],
+            }),
+        };
+
+        (ErrorHandler.handle as jest.Mock).mockImplementation(async (error: any) => {
+            if (error instanceof AppError) return error;
+            return new AppError(error.message, ErrorType.GENERAL);
+        });
+
+        controller = new CategoryController(mockConfigRepository, mockApplyCategoryRulesUseCase);
+    });
+
+    describe('getCategories', () => {
+        test('正常系: カテゴリの一覧と自動分類のルールを返すこと', async () => {
+            const res = mockResponse();
+
+            await controller.getCategories(mockRequest(), res);
+
+            expect(res.status).toHaveBeenCalledWith(200);
+            expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+                success: true,
+                data: config,
+            }));
+        });
+    });
+
+    describe('saveCategories', () => {
+        test('正常系: リクエストのカテゴリで置き換えること', async () => {
+            const res = mockResponse();
+
+            await controller.saveCategories(mockRequest({ categories: config.categories }), res);
+
+            expect(mockConfigRepository.saveCategories).toHaveBeenCalledWith(config.categories);
+            expect(res.status).toHaveBeenCalledWith(200);
+        });
+
+        test('異常系: ルールで使用中のカテゴリを削除しようとした場合は400を返すこと', async () => {
+            mockConfigRepository.saveCategories.mockRejectedValue(
+                new AppError('ルールで使用しているカテゴリは削除できません: groceries', ErrorType.VALIDATION)
+            );
+            const res = mockResponse();
+
+            await controller.saveCategories(mockRequest({ categories: [] }), res);
+
+            expect(res.status).toHaveBeenCalledWith(400);
+        });
+    });
+
+    describe('saveRules', () => {
+        test('正常系: リクエストのルールで置き換えること', async () => {
+            const res = mockResponse();
+
+            await controller.saveRules(mockRequest({ rules: config.rules }), res);
+
+            expect(mockConfigRepository.saveCategoryRules).toHaveBeenCalledWith(config.rules);
+            expect(res.status).toHaveBeenCalledWith(200);
+            expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+                success: true,
+                data: config,
+            }));
+        });
+    });
+
+    describe('applyRules', () => {
+        test('正常系: 指定された期間にルールを再適用すること', async () => {
+            const res = mockResponse();
+
+            await controller.applyRules(mockRequest({ from: '2025-05-01', to: '2025-05-31', dryRun: true }), res);
+
+            expect(mockApplyCategoryRulesUseCase.execute).toHaveBeenCalledWith('2025-05-01', '2025-05-31', true);
+            expect(res.status).toHaveBeenCalledWith(200);
+            expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+                success: true,
+                data: expect.objectContaining({ total: 3, skipped: 1 }),
+            }));
+        });
+
+        test('異常系: 期間が不正な場合は400を返すこと', async () => {
+            mockApplyCategoryRulesUseCase.execute.mockRejectedValue(
+                new AppError('fromはYYYY-MM-DD形式の日付で指定してください', ErrorType.VALIDATION)
+            );
+            const res = mockResponse();
+
+            await controller.applyRules(mockRequest(), res);
+
+            expect(mockApplyCategoryRulesUseCase.execute).toHaveBeenCalledWith(undefined, undefined, false);
+            expect(res.status).toHaveBeenCalledWith(400);
+        });
+    });
+});
@@ -0,0 +1,135 @@
+import { Request, Response } from 'express';
+import { InboundEmailController } from '../../../../../../src/presentation/api/controllers/InboundEmailController';
+import { EmailController } from '../../../../../../src/presentation/email/controllers/EmailController';
+import { IEmailParser } from '../../../../../../src/domain/interfaces/infrastructure/email/IEmailParser';
+import { IInboundEmailPayloadParser } from '../../../../../../src/domain/interfaces/infrastructure/email/IInboundEmailPayloadParser';
+import { IInboundEmailSignatureVerifier } from '../../../../../../src/domain/interfaces/infrastructure/email/IInboundEmailSignatureVerifier';
+import { ErrorHandler } from '../../../../../../shared/infrastructure/errors/ErrorHandler';
+import { AppError, ErrorType } from '../../../../../../shared/errors/AppError';
+
+jest.mock('../../../../../../shared/infrastructure/errors/ErrorHandler');
+
+// Loggerをモック化
+jest.mock('../../../../../../shared/infrastructure/logging/Logger', () => ({
+    logger: {
+        info: jest.fn(),
+        debug: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        logAppError: jest.fn(),
+        updateServiceStatus: jest.fn()
+    }
+}));
+
+const mockRequest = (body: unknown, headers: Record<string, string> = {}) => ({
+    body,
+    get: (name: string) => headers[name.toLowerCase()],
+}) as unknown as Request;
+
+const mockResponse = () => {
+    const res: Partial<Response> = {};
+    res.status = jest.fn().mockReturnValue(res);
+    res.json = jest.fn().mockReturnValue(res);
+    return res as Response;
+};
+
+describe('InboundEmailController', () => {
+    const source = Buffer.from('Subject: Test\r\n\r\nbody');
+    const parsedEmail = { uid: 'webhook:1', subject: 'Test', from: 'card@example.com', body: 'body', date: new Date() };
+
+    let controller: InboundEmailController;
+    let mockEmailController: jest.Mocked<EmailController>;
+    let mockSignatureVerifier: jest.Mocked<IInboundEmailSignatureVerifier>;
+    let mockPayloadParser: jest.Mocked<IInboundEmailPayloadParser>;
+    let mockEmailParser: jest.Mocked<IEmailParser>;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+
+        mockEmailController = {
+            processReceivedEmail: jest.fn().mockResolvedValue(undefined),
+        } as unknown as jest.Mocked<EmailController>;
+        mockSignatureVerifier = { verify: jest.fn().mockReturnValue(true) };
+        mockPayloadParser = { parse: jest.fn().mockReturnValue({ fields: {}, source }) };
+        mockEmailParser = { parseEmail: jest.fn().mockResolvedValue(parsedEmail) };
+
+        (ErrorHandler.handle as jest.Mock).mockImplementation(async (error: any) => {
+            if (error instanceof AppError) return error;
+            return new AppError(error.message, ErrorType.GENERAL);
+        });
+
+        controller = new InboundEmailController(
+            mockEmailController,
+            mockSignatureVerifier,
+            mockPayloadParser,
+            mockEmailParser
+        );
+    });
+
+    test('正常系: 署名を検証したメールをIMAPと同じ処理に渡すこと', async () => {
+        const req = mockRequest(source, {
+            'content-type': 'message/rfc822',
+            'x-inbound-signature': 'signature',
+            'x-inbound-timestamp': '1746838800',
+        });
+        const res = mockResponse();
+
+        await controller.receiveEmail(req, res);
+
+        expect(mockPayloadParser.parse).toHaveBeenCalledWith(source, 'message/rfc822');
+        expect(mockSignatureVerifier.verify).toHaveBeenCalledWith(
+            source,
+            { signature: 'signature', timestamp: '1746838800' },
+            {}
+        );
+        expect(mockEmailParser.parseEmail).toHaveBeenCalledWith({ uid: expect.stringMatching(/^webhook:\d+$/), source });
+        expect(mockEmailController.processReceivedEmail).toHaveBeenCalledWith(parsedEmail, 'InboundEmailController');
+        expect(res.status).toHaveBeenCalledWith(200);
+        expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+            success: true,
+            data: { uid: 'webhook:1', subject: 'Test' },
+        }));
+    });
+
+    test('異常系: 署名を検証できない場合は401を返し、メールを処理しないこと', async () => {
+        mockSignatureVerifier.verify.mockReturnValue(false);
+        const res = mockResponse();
+
+        await controller.receiveEmail(mockRequest(source), res);
+
+        expect(res.status).toHaveBeenCalledWith(401);
+        expect(mockEmailParser.parseEmail).not.toHaveBeenCalled();
+        expect(mockEmailController.processReceivedEmail).not.toHaveBeenCalled();
+    });
+
+    test('異常系: メールを取り出せない場合は400を返すこと', async () => {
+        mockPayloadParser.parse.mockReturnValue({ fields: {}, source: null });
+        const res = mockResponse();
+
+        await controller.receiveEmail(mockRequest(Buffer.alloc(0)), res);
+
+        expect(res.status).toHaveBeenCalledWith(400);
+        expect(mockEmailController.processReceivedEmail).not.toHaveBeenCalled();
+    });
+
+    test('異常系: メールを解析できない場合は400を返すこと', async () => {
+        mockEmailParser.parseEmail.mockResolvedValue(null);
+        const res = mockResponse();
+
+        await controller.receiveEmail(mockRequest(source), res);
+
+        expect(res.status).toHaveBeenCalledWith(400);
+        expect(mockEmailController.processReceivedEmail).not.toHaveBeenCalled();
+    });
+
+    test('異常系: メール処理でエラーが発生した場合はエラーレスポンスを返すこと', async () => {
+        const error = new AppError('カード会社を特定できませんでした', ErrorType.EMAIL);
+        mockEmailController.processReceivedEmail.mockRejectedValue(error);
+        const res = mockResponse();
+
+        await controller.receiveEmail(mockRequest(source), res);
+
+        expect(ErrorHandler.handle).toHaveBeenCalledWith(error, 'InboundEmailController.receiveEmail');
+        expect(res.status).toHaveBeenCalledWith(500);
+    });
+});
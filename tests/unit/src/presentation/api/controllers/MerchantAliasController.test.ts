@@ -0,0 +1,109 @@
+import { Request, Response } from 'express';
+import { MerchantAliasController } from '../../../../../../src/presentation/api/controllers/MerchantAliasController';
+import { IConfigRepository } from '../../../../../../shared/domain/interfaces/database/repositories/IConfigRepository';
+import { ErrorHandler } from '../../../../../../shared/infrastructure/errors/ErrorHandler';
+import { AppError, ErrorType } from '../../../../../../shared/errors/AppError';
+
+jest.mock('../../../../../../shared/infrastructure/errors/ErrorHandler');
+
+// Loggerをモック化
+jest.mock('../../../../../../shared/infrastructure/logging/Logger', () => ({
+    logger: {
+        info: jest.fn(),
+        debug: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        logAppError: jest.fn(),
+        updateServiceStatus: jest.fn()
+    }
+}));
+
+const mockRequest = (body?: unknown) => ({ body }) as unknown as Request;
+
+const mockResponse = () => {
+    const res: Partial<Response> = {};
+    res.status = jest.fn().mockReturnValue(res);
+    res.json = jest.fn().mockReturnValue(res);
+    return res as Response;
+};
+
+describe('MerchantAliasController', () => {
+    const aliases = [
+        { alias: 'AMAZON.CO.JP', canonical: 'Amazon' },
+        { alias: 'セブン-イレブン', canonical: 'セブン-イレブン', match: 'prefix' as const },
+    ];
+
+    let controller: MerchantAliasController;
+    let mockConfigRepository: jest.Mocked<IConfigRepository>;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+
+        mockConfigRepository = {
+            getReportThresholds: jest.fn(),
+            getIssuerTemplates: jest.fn(),
+            getIssuerTemplateConfig: jest.fn(),
+            saveIssuerTemplate: jest.fn(),
+            rollbackIssuerTemplate: jest.fn(),
+            getMerchantAliases: jest.fn().mockResolvedValue(aliases),
+            saveMerchantAliases: jest.fn().mockResolvedValue(aliases),
+            getCategoryConfig: jest.fn(),
+            saveCategories: jest.fn(),
+            saveCategoryRules: jest.fn(),
+            getBudgets: jest.fn(),
+            saveBudget: jest.fn(),
+            deleteBudget: jest.fn(),
+            getCards: jest.fn(),
+            saveCard: jest.fn(),
+            deleteCard: jest.fn(),
+        };
+
+        (ErrorHandler.handle as jest.Mock).mockImplementation(async (error: any) => {
+            if (error instanceof AppError) return error;
+            return new AppError(error.message, ErrorType.GENERAL);
+        });
+
+        controller = new MerchantAliasController(mockConfigRepository);
+    });
+
+    describe('getAliases', () => {
+        test('正常系: 別名の一覧を返すこと', async () => {
+            const res = mockResponse();
+
+            await controller.getAliases(mockRequest(), res);
+
+            expect(res.status).toHaveBeenCalledWith(200);
+            expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+                success: true,
+                data: { aliases },
+            }));
+        });
+    });
+
+    describe('saveAliases', () => {
+        test('正常系: リクエストの別名で置き換えること', async () => {
+            const res = mockResponse();
+
+            await controller.saveAliases(mockRequest({ aliases }), res);
+
+            expect(mockConfigRepository.saveMerchantAliases).toHaveBeenCalledWith(aliases);
+            expect(res.status).toHaveBeenCalledWith(200);
+            expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+                success: true,
+                data: { aliases },
+            }));
+        });
+
+        test('異常系: 別名が不正な場合は400を返すこと', async () => {
+            mockConfigRepository.saveMerchantAliases.mockRejectedValue(
+                new AppError('別名は配列で指定してください', ErrorType.VALIDATION)
+            );
+            const res = mockResponse();
+
+            await controller.saveAliases(mockRequest({}), res);
+
+            expect(mockConfigRepository.saveMerchantAliases).toHaveBeenCalledWith(undefined);
+            expect(res.status).toHaveBeenCalledWith(400);
+        });
+    });
+});
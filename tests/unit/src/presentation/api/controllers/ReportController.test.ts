@@ -10,9 +10,24 @@ jest.mock('../../../../../../shared/usecases/database/FirestoreReportUseCase');
 jest.mock('../../../../../../shared/presentation/responses/ResponseHelper');
 jest.mock('../../../../../../shared/infrastructure/errors/ErrorHandler');
 
+// Loggerをモック化
+jest.mock('../../../../../../shared/infrastructure/logging/Logger', () => ({
+    logger: {
+        info: jest.fn(),
+        debug: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        logAppError: jest.fn(),
+        updateServiceStatus: jest.fn()
+    }
+}));
+
 describe('ReportController', () => {
     let reportController: ReportController;
     let mockReportUseCase: jest.Mocked<FirestoreReportUseCase>;
+    let mockConfigRepository: { getCategoryConfig: jest.Mock };
+    let mockBillingCycleReportUseCase: { execute: jest.Mock };
+    let mockMonthEndForecastUseCase: { execute: jest.Mock };
     let mockRequest: Partial<Request>;
     let mockResponse: Partial<Response>;
     let jsonMock: jest.Mock;
@@ -31,11 +46,25 @@ describe('ReportController', () => {
 
         // モックのセットアップ
         mockReportUseCase = {} as jest.Mocked<FirestoreReportUseCase>;
+        mockConfigRepository = {
+            getCategoryConfig: jest.fn().mockResolvedValue({
+                categories: [
+                    { id: 'groceries', name: '食料品' },
+                    { id: 'uncategorized', name: '未分類' },
+                ],
+                rules: [],
+            }),
+        };
 
         // コントローラーの作成
         reportController = new ReportController();
         // プライベートプロパティのモック置き換え
         (reportController as any).reportUseCase = mockReportUseCase;
+        (reportController as any).configRepository = mockConfigRepository;
+        mockBillingCycleReportUseCase = { execute: jest.fn() };
+        (reportController as any).billingCycleReportUseCase = mockBillingCycleReportUseCase;
+        mockMonthEndForecastUseCase = { execute: jest.fn() };
+        (reportController as any).monthEndForecastUseCase = mockMonthEndForecastUseCase;
 
         // ResponseHelperのモック
         (ResponseHelper.success as jest.Mock).mockImplementation((message: string, data?: any) => ({
@@ -110,13 +139,13 @@ describe('ReportController', () => {
 
             // Assert
             expect(mockReportUseCase.getDailyReport).toHaveBeenCalledWith(year, month, day);
-            expect(ResponseHelper.success).toHaveBeenCalledWith('日次レポートを取得しました', mockReport);
+            expect(ResponseHelper.success).toHaveBeenCalledWith('日次レポートを取得しました', { ...mockReport, categoryBreakdown: [] });
             expect(statusMock).toHaveBeenCalledWith(200);
             expect(jsonMock).toHaveBeenCalledWith({
                 status: 200,
                 success: true,
                 message: '日次レポートを取得しました',
-                data: mockReport
+                data: { ...mockReport, categoryBreakdown: [] }
             });
         });
 
@@ -164,13 +193,13 @@ describe('ReportController', () => {
 
             // Assert
             expect(mockReportUseCase.getMonthlyReport).toHaveBeenCalledWith(year, month);
-            expect(ResponseHelper.success).toHaveBeenCalledWith('月次レポートを取得しました', mockReport);
+            expect(ResponseHelper.success).toHaveBeenCalledWith('月次レポートを取得しました', { ...mockReport, categoryBreakdown: [] });
             expect(statusMock).toHaveBeenCalledWith(200);
             expect(jsonMock).toHaveBeenCalledWith({
                 status: 200,
                 success: true,
                 message: '月次レポートを取得しました',
-                data: mockReport
+                data: { ...mockReport, categoryBreakdown: [] }
             });
         });
 
@@ -192,6 +221,71 @@ describe('ReportController', () => {
         });
     });
 
+    describe('getYearlyReport', () => {
+        const yearlyReport = {
+            totalAmount: 11000,
+            totalCount: 4,
+            monthlyTotals: { '01': { amount: 11000, count: 4 } },
+            categoryTotals: { groceries: { amount: 11000, count: 4 } },
+            merchantTotals: { 'イオン': { amount: 11000, count: 4 } },
+        };
+
+        test('正常系: 内訳と前年との比較を含む概要を返すこと', async () => {
+            mockRequest.params = { year: '2025' };
+            mockReportUseCase.getYearlyReport = jest.fn().mockImplementation(async (year: string) =>
+                year === '2025' ? yearlyReport : { totalAmount: 10000, totalCount: 3 }
+            );
+
+            await reportController.getYearlyReport(mockRequest as Request, mockResponse as Response);
+
+            expect(mockReportUseCase.getYearlyReport).toHaveBeenCalledWith('2025');
+            expect(mockReportUseCase.getYearlyReport).toHaveBeenCalledWith('2024');
+            expect(statusMock).toHaveBeenCalledWith(200);
+            const data = (ResponseHelper.success as jest.Mock).mock.calls[0][1];
+            expect((ResponseHelper.success as jest.Mock).mock.calls[0][0]).toBe('年次レポートを取得しました');
+            expect(data.categoryBreakdown).toEqual([
+                { category: 'groceries', name: '食料品', amount: 11000, count: 4, share: 100 },
+            ]);
+            expect(data.summary.months).toHaveLength(12);
+            expect(data.summary.topMerchants[0].merchant).toBe('イオン');
+            expect(data.summary.yearOverYear).toEqual({ previousTotalAmount: 10000, difference: 1000, changeRate: 10 });
+        });
+
+        test('正常系: 前年の年次レポートがない場合は前年との比較をnullとすること', async () => {
+            mockRequest.params = { year: '2025' };
+            mockReportUseCase.getYearlyReport = jest.fn()
+                .mockResolvedValueOnce(yearlyReport)
+                .mockRejectedValueOnce(new AppError('2024年のレポートが見つかりません', ErrorType.NOT_FOUND));
+
+            await reportController.getYearlyReport(mockRequest as Request, mockResponse as Response);
+
+            expect(statusMock).toHaveBeenCalledWith(200);
+            const data = (ResponseHelper.success as jest.Mock).mock.calls[0][1];
+            expect(data.summary.yearOverYear).toBeNull();
+        });
+
+        test('異常系: 年の形式が不正な場合は400を返すこと', async () => {
+            mockRequest.params = { year: '25' };
+            mockReportUseCase.getYearlyReport = jest.fn();
+
+            await reportController.getYearlyReport(mockRequest as Request, mockResponse as Response);
+
+            expect(mockReportUseCase.getYearlyReport).not.toHaveBeenCalled();
+            expect(statusMock).toHaveBeenCalledWith(400);
+        });
+
+        test('異常系: 年次レポートが見つからない場合は404を返すこと', async () => {
+            mockRequest.params = { year: '2025' };
+            const error = new AppError('2025年のレポートが見つかりません', ErrorType.NOT_FOUND);
+            mockReportUseCase.getYearlyReport = jest.fn().mockRejectedValue(error);
+
+            await reportController.getYearlyReport(mockRequest as Request, mockResponse as Response);
+
+            expect(ErrorHandler.handle).toHaveBeenCalledWith(error, 'ReportController.getYearlyReport');
+            expect(statusMock).toHaveBeenCalledWith(404);
+        });
+    });
+
     describe('getWeeklyReport', () => {
         test('正常に週次レポートを取得できること', async () => {
             // Arrange
@@ -219,13 +313,13 @@ describe('ReportController', () => {
 
             // Assert
             expect(mockReportUseCase.getWeeklyReport).toHaveBeenCalledWith(year, month, term);
-            expect(ResponseHelper.success).toHaveBeenCalledWith('週次レポートを取得しました', mockReport);
+            expect(ResponseHelper.success).toHaveBeenCalledWith('週次レポートを取得しました', { ...mockReport, categoryBreakdown: [] });
             expect(statusMock).toHaveBeenCalledWith(200);
             expect(jsonMock).toHaveBeenCalledWith({
                 status: 200,
                 success: true,
                 message: '週次レポートを取得しました',
-                data: mockReport
+                data: { ...mockReport, categoryBreakdown: [] }
             });
         });
 
@@ -286,13 +380,16 @@ describe('ReportController', () => {
 
             // Assert
             expect(mockReportUseCase.getMonthlyDailyReports).toHaveBeenCalledWith(year, month);
-            expect(ResponseHelper.success).toHaveBeenCalledWith('月内日次レポート一覧を取得しました', mockReports);
+            expect(ResponseHelper.success).toHaveBeenCalledWith(
+                '月内日次レポート一覧を取得しました',
+                mockReports.map((report) => ({ ...report, categoryBreakdown: [] }))
+            );
             expect(statusMock).toHaveBeenCalledWith(200);
             expect(jsonMock).toHaveBeenCalledWith({
                 status: 200,
                 success: true,
                 message: '月内日次レポート一覧を取得しました',
-                data: mockReports
+                data: mockReports.map((report) => ({ ...report, categoryBreakdown: [] }))
             });
         });
 
@@ -352,13 +449,16 @@ describe('ReportController', () => {
 
             // Assert
             expect(mockReportUseCase.getMonthlyWeeklyReports).toHaveBeenCalledWith(year, month);
-            expect(ResponseHelper.success).toHaveBeenCalledWith('月内週次レポート一覧を取得しました', mockReports);
+            expect(ResponseHelper.success).toHaveBeenCalledWith(
+                '月内週次レポート一覧を取得しました',
+                mockReports.map((report) => ({ ...report, categoryBreakdown: [] }))
+            );
             expect(statusMock).toHaveBeenCalledWith(200);
             expect(jsonMock).toHaveBeenCalledWith({
                 status: 200,
                 success: true,
                 message: '月内週次レポート一覧を取得しました',
-                data: mockReports
+                data: mockReports.map((report) => ({ ...report, categoryBreakdown: [] }))
             });
         });
 
@@ -379,7 +479,132 @@ describe('ReportController', () => {
         });
     });
 
+    describe('getBillingCycleReport', () => {
+        test('正常系: カードの請求サイクルのレポートを支出カテゴリごとの内訳付きで返すこと', async () => {
+            const report = {
+                cardName: '楽天カード',
+                cycle: '2025-06',
+                paymentDate: '2025-06-10',
+                totalAmount: 7500,
+                totalCount: 3,
+                categoryTotals: { groceries: { amount: 7500, count: 3 } },
+            };
+            mockRequest.params = { card: '楽天カード', cycle: '2025-06' };
+            mockBillingCycleReportUseCase.execute.mockResolvedValue(report);
+
+            await reportController.getBillingCycleReport(mockRequest as Request, mockResponse as Response);
+
+            expect(mockBillingCycleReportUseCase.execute).toHaveBeenCalledWith('楽天カード', '2025-06');
+            expect(statusMock).toHaveBeenCalledWith(200);
+            expect(ResponseHelper.success).toHaveBeenCalledWith('請求サイクルのレポートを取得しました', {
+                ...report,
+                categoryBreakdown: [
+                    { category: 'groceries', name: '食料品', amount: 7500, count: 3, share: 100 },
+                ],
+            });
+        });
+
+        test('異常系: 登録されていないカードの場合は404を返すこと', async () => {
+            mockRequest.params = { card: '未登録カード', cycle: '2025-06' };
+            mockBillingCycleReportUseCase.execute.mockRejectedValue(
+                new AppError('カードが登録されていません: 未登録カード', ErrorType.NOT_FOUND)
+            );
+
+            await reportController.getBillingCycleReport(mockRequest as Request, mockResponse as Response);
+
+            expect(ErrorHandler.handle).toHaveBeenCalledWith(expect.any(AppError), 'ReportController.getBillingCycleReport');
+            expect(statusMock).toHaveBeenCalledWith(404);
+        });
+
+        test('異常系: 請求サイクルの形式が不正な場合は400を返すこと', async () => {
+            mockRequest.params = { card: '楽天カード', cycle: '2025-6' };
+            mockBillingCycleReportUseCase.execute.mockRejectedValue(
+                new AppError('cycleはYYYY-MMの形式で指定してください', ErrorType.VALIDATION)
+            );
+
+            await reportController.getBillingCycleReport(mockRequest as Request, mockResponse as Response);
+
+            expect(statusMock).toHaveBeenCalledWith(400);
+        });
+    });
+
+    describe('getMonthEndForecast', () => {
+        test('正常系: 今日までの利用を実績とした月末の見込みを返すこと', async () => {
+            const forecast = {
+                year: 2025,
+                month: 6,
+                asOf: '2025-06-10',
+                projectedAmount: 31490,
+                lowerBound: 28000,
+                upperBound: 35000,
+                confidenceLevel: 80,
+            };
+            mockRequest.params = { year: '2025', month: '06' };
+            mockMonthEndForecastUseCase.execute.mockResolvedValue(forecast);
+
+            await reportController.getMonthEndForecast(mockRequest as Request, mockResponse as Response);
+
+            expect(mockMonthEndForecastUseCase.execute).toHaveBeenCalledWith('2025', '06', expect.any(Date));
+            expect(statusMock).toHaveBeenCalledWith(200);
+            expect(ResponseHelper.success).toHaveBeenCalledWith('月末の見込みを取得しました', forecast);
+        });
+
+        test('異常系: 年月の形式が不正な場合は400を返すこと', async () => {
+            mockRequest.params = { year: '2025', month: '13' };
+            mockMonthEndForecastUseCase.execute.mockRejectedValue(
+                new AppError('年はYYYY、月は1〜12で指定してください', ErrorType.VALIDATION)
+            );
+
+            await reportController.getMonthEndForecast(mockRequest as Request, mockResponse as Response);
+
+            expect(ErrorHandler.handle).toHaveBeenCalledWith(expect.any(AppError), 'ReportController.getMonthEndForecast');
+            expect(statusMock).toHaveBeenCalledWith(400);
+        });
+    });
+
     // ルートクラスの統合テスト - カバレッジ向上のため
+    describe('支出カテゴリごとの内訳', () => {
+        const report = {
+            totalAmount: 10000,
+            totalCount: 4,
+            categoryTotals: {
+                uncategorized: { amount: 2500, count: 1 },
+                groceries: { amount: 7500, count: 3 },
+            },
+        };
+
+        test('正常系: カテゴリ名と構成比を含む内訳を金額の大きい順に返すこと', async () => {
+            mockRequest.params = { year: '2025', month: '05' };
+            mockReportUseCase.getMonthlyReport = jest.fn().mockResolvedValue(report);
+
+            await reportController.getMonthlyReport(mockRequest as Request, mockResponse as Response);
+
+            expect(ResponseHelper.success).toHaveBeenCalledWith('月次レポートを取得しました', {
+                ...report,
+                categoryBreakdown: [
+                    { category: 'groceries', name: '食料品', amount: 7500, count: 3, share: 75 },
+                    { category: 'uncategorized', name: '未分類', amount: 2500, count: 1, share: 25 },
+                ],
+            });
+        });
+
+        test('異常系: カテゴリを取得できない場合はカテゴリのIDを表示名とすること', async () => {
+            mockRequest.params = { year: '2025', month: '05' };
+            mockReportUseCase.getMonthlyReport = jest.fn().mockResolvedValue(report);
+            mockConfigRepository.getCategoryConfig.mockRejectedValue(new Error('取得エラー'));
+
+            await reportController.getMonthlyReport(mockRequest as Request, mockResponse as Response);
+
+            expect(statusMock).toHaveBeenCalledWith(200);
+            expect(ResponseHelper.success).toHaveBeenCalledWith('月次レポートを取得しました', expect.objectContaining({
+                categoryBreakdown: [
+                    expect.objectContaining({ category: 'groceries', name: 'groceries' }),
+                    expect.objectContaining({ category: 'uncategorized', name: 'uncategorized' }),
+                ],
+            }));
+        });
+    });
+
     describe('ReportsRoutes統合テスト', () => {
         test('ReportsRoutesクラスが正常にインスタンス化されること', () => {
             // 実際のReportsRoutesをインポート
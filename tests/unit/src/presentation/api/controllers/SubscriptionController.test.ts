@@ -0,0 +1,98 @@
+import { Request, Response } from 'express';
+import { SubscriptionController } from '../../../../../../src/presentation/api/controllers/SubscriptionController';
+import { FirestoreSubscriptionRepository } from '../../../../../../shared/infrastructure/database/repositories/FirestoreSubscriptionRepository';
+import { ErrorHandler } from '../../../../../../shared/infrastructure/errors/ErrorHandler';
+import { AppError, ErrorType } from '../../../../../../shared/errors/AppError';
+import { SubscriptionList } from '../../../../../../shared/domain/entities/Subscription';
+
+jest.mock('../../../../../../shared/infrastructure/database/repositories/FirestoreSubscriptionRepository');
+jest.mock('../../../../../../shared/infrastructure/errors/ErrorHandler');
+
+// Loggerをモック化
+jest.mock('../../../../../../shared/infrastructure/logging/Logger', () => ({
+    logger: {
+        info: jest.fn(),
+        debug: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        logAppError: jest.fn(),
+        updateServiceStatus: jest.fn()
+    }
+}));
+
+const mockResponse = () => {
+    const res: Partial<Response> = {};
+    res.status = jest.fn().mockReturnValue(res);
+    res.json = jest.fn().mockReturnValue(res);
+    return res as Response;
+};
+
+describe('SubscriptionController', () => {
+    const list: SubscriptionList = {
+        subscriptions: [{
+            id: '楽天カード:NETFLIX',
+            merchant: 'NETFLIX',
+            cardName: '楽天カード',
+            interval: 'monthly',
+            amount: 1590,
+            chargeCount: 4,
+            lastChargedAt: '2025-06-10',
+            nextChargeDate: '2025-07-10',
+            status: 'active',
+        }],
+        analyzedAt: '2025-06-11T00:00:00.000Z',
+    };
+
+    let controller: SubscriptionController;
+    let mockRepository: jest.Mocked<FirestoreSubscriptionRepository>;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+
+        (ErrorHandler.handle as jest.Mock).mockImplementation(async (error: any) => {
+            if (error instanceof AppError) return error;
+            return new AppError(error.message, ErrorType.GENERAL);
+        });
+
+        controller = new SubscriptionController();
+        mockRepository = (FirestoreSubscriptionRepository as jest.MockedClass<typeof FirestoreSubscriptionRepository>)
+            .mock.instances[0] as jest.Mocked<FirestoreSubscriptionRepository>;
+    });
+
+    describe('getSubscriptions', () => {
+        test('正常系: 検出済みの定期的な支払いの一覧を返すこと', async () => {
+            mockRepository.getSubscriptions.mockResolvedValue(list);
+            const res = mockResponse();
+
+            await controller.getSubscriptions({} as Request, res);
+
+            expect(res.status).toHaveBeenCalledWith(200);
+            expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+                success: true,
+                data: list,
+            }));
+        });
+
+        test('正常系: まだ検出していない場合は空の一覧を返すこと', async () => {
+            mockRepository.getSubscriptions.mockResolvedValue(null);
+            const res = mockResponse();
+
+            await controller.getSubscriptions({} as Request, res);
+
+            expect(res.status).toHaveBeenCalledWith(200);
+            expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+                data: { subscriptions: [], analyzedAt: null },
+            }));
+        });
+
+        test('異常系: 取得に失敗した場合はエラーレスポンスを返すこと', async () => {
+            mockRepository.getSubscriptions.mockRejectedValue(new AppError('取得失敗', ErrorType.FIREBASE));
+            const res = mockResponse();
+
+            await controller.getSubscriptions({} as Request, res);
+
+            expect(ErrorHandler.handle).toHaveBeenCalledWith(expect.any(AppError), 'SubscriptionController.getSubscriptions');
+            expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ success: false }));
+        });
+    });
+});
@@ -4,6 +4,12 @@ import { ProcessCardCompanyEmailUseCase } from '../../../../../../src/usecases/e
 import { NotifyCardUsageUseCase } from '../../../../../../src/usecases/notification/NotifyCardUsageUseCase';
 import { ParsedEmail } from '../../../../../../src/infrastructure/email/EmailParser';
 import { CardCompany } from '../../../../../../src/domain/enums/CardCompany';
+import { CardIssuerParserRegistry } from '../../../../../../src/infrastructure/email/issuers/CardIssuerParserRegistry';
+import { MufgIssuerParser } from '../../../../../../src/infrastructure/email/issuers/MufgIssuerParser';
+import { SmbcIssuerParser } from '../../../../../../src/infrastructure/email/issuers/SmbcIssuerParser';
+import {
+    IImapStateRepository,
+} from '../../../../../../src/domain/interfaces/infrastructure/database/repositories/IImapStateRepository';
 
 // 依存コンポーネントをモック
 jest.mock('../../../../../../src/infrastructure/email/ImapEmailService');
@@ -48,6 +54,7 @@ describe('EmailController', () => {
     let emailController: EmailController;
     let mockProcessCardCompanyEmailUseCase: jest.Mocked<ProcessCardCompanyEmailUseCase>;
     let mockNotifyCardUsageUseCase: jest.Mocked<NotifyCardUsageUseCase>;
+    let mockImapStateRepository: jest.Mocked<IImapStateRepository>;
 
     // コールバック関数を保存するためのオブジェクト
     let emailCallbacks: Record<string, (email: ParsedEmail) => Promise<void>> = {};
@@ -105,7 +112,7 @@ describe('EmailController', () => {
         mockProcessCardCompanyEmailUseCase = {
             execute: jest.fn().mockResolvedValue({
                 cardCompany: CardCompany.MUFG,
-                usageResult: {
+                usageResults: [{
                     usage: {
                         card_name: 'テストカード',
                         datetime_of_use: '2025-05-10T06:30:00.000Z',
@@ -113,7 +120,7 @@ describe('EmailController', () => {
                         where_to_use: 'テスト利用先',
                     },
                     savedPath: 'users/2025/5/10/card-usage-123'
-                }
+                }]
             })
         } as unknown as jest.Mocked<ProcessCardCompanyEmailUseCase>;
 
@@ -124,10 +131,23 @@ describe('EmailController', () => {
             notifyLogging: jest.fn().mockResolvedValue(undefined)
         } as unknown as jest.Mocked<NotifyCardUsageUseCase>;
 
+        // IMAP処理状態リポジトリのモック
+        mockImapStateRepository = {
+            getMailboxState: jest.fn().mockResolvedValue(null),
+            saveMailboxState: jest.fn().mockResolvedValue(undefined),
+        };
+
+        // カード会社パーサーのレジストリを作成
+        const registry = new CardIssuerParserRegistry();
+        registry.register(new MufgIssuerParser());
+        registry.register(new SmbcIssuerParser());
+
         // EmailControllerのインスタンスを作成
         emailController = new EmailController(
             mockProcessCardCompanyEmailUseCase,
-            mockNotifyCardUsageUseCase
+            mockNotifyCardUsageUseCase,
+            registry,
+            mockImapStateRepository
         );
     });
 
@@ -138,6 +158,17 @@ describe('EmailController', () => {
             // ImapEmailServiceのインスタンスが2回作成されることを確認
             expect(ImapEmailService).toHaveBeenCalledTimes(2);
 
+            // 接続情報・レジストリ・処理状態リポジトリと、メールボックスごとのサービス名が渡されることを確認
+            expect(ImapEmailService).toHaveBeenCalledWith(
+                'imap.example.com',
+                'user@example.com',
+                'password',
+                expect.any(CardIssuerParserRegistry),
+                mockImapStateRepository,
+                expect.anything(),
+                'ImapEmailService:default:三菱東京UFJ銀行'
+            );
+
             // connectメソッドが各メールボックスで呼ばれることを確認
             const emailServiceInstances = (ImapEmailService as jest.Mock).mock.results;
 
@@ -183,6 +214,51 @@ describe('EmailController', () => {
             // 監視フラグはtrueになる
             expect(emailController.isMonitoring()).toBe(true);
         });
+
+        test('正常系: 設定されたアカウントごとに、受け付けるカード会社のメールボックスを監視すること', async () => {
+            const registry = new CardIssuerParserRegistry();
+            registry.register(new MufgIssuerParser());
+            registry.register(new SmbcIssuerParser());
+            const monitoringOptions = { idle: true, pollingInterval: 60000 };
+            const accountController = new EmailController(
+                mockProcessCardCompanyEmailUseCase,
+                mockNotifyCardUsageUseCase,
+                registry,
+                mockImapStateRepository,
+                {
+                    load: jest.fn().mockReturnValue([
+                        {
+                            id: 'father', server: 'imap.gmail.com', user: 'father@example.com', password: 'p1',
+                            issuers: [CardCompany.MUFG, CardCompany.SMBC], mailboxes: ['INBOX'], monitoringOptions,
+                        },
+                        {
+                            id: 'mother', server: 'imap.example.jp', user: 'mother@example.com', password: 'p2',
+                            issuers: [CardCompany.SMBC], mailboxes: ['三井住友カード'], monitoringOptions,
+                        },
+                    ]),
+                }
+            );
+
+            await accountController.startAllMonitoring();
+
+            expect(ImapEmailService).toHaveBeenCalledTimes(2);
+            expect(ImapEmailService).toHaveBeenCalledWith(
+                'imap.gmail.com', 'father@example.com', 'p1', registry, mockImapStateRepository,
+                monitoringOptions, 'ImapEmailService:father:INBOX'
+            );
+            expect(ImapEmailService).toHaveBeenCalledWith(
+                'imap.example.jp', 'mother@example.com', 'p2', registry, mockImapStateRepository,
+                monitoringOptions, 'ImapEmailService:mother:三井住友カード'
+            );
+
+            // 受け付けないカード会社（MUFG）のメールは処理しない
+            await emailCallbacks['SMBC'](sampleParsedEmail);
+            expect(mockProcessCardCompanyEmailUseCase.execute).not.toHaveBeenCalled();
+
+            // 受け付けるカード会社のメールは処理する
+            await emailCallbacks['SMBC'](smbcSampleParsedEmail);
+            expect(mockProcessCardCompanyEmailUseCase.execute).toHaveBeenCalledWith(smbcSampleParsedEmail);
+        });
     });
 
     describe('stopMonitoring', () => {
@@ -250,6 +326,41 @@ describe('EmailController', () => {
             );
         });
 
+        test('正常系: 複数件の利用明細は明細ごとに通知されること', async () => {
+            mockProcessCardCompanyEmailUseCase.execute.mockResolvedValueOnce({
+                cardCompany: 'JCB',
+                usageResults: [
+                    {
+                        usage: {
+                            card_name: 'JCBカード',
+                            datetime_of_use: '2025-05-10T06:30:00.000Z',
+                            amount: 1234,
+                            where_to_use: '利用先A',
+                        },
+                        savedPath: 'details/2025/05/term2/10/1'
+                    },
+                    {
+                        usage: {
+                            card_name: 'JCBカード',
+                            datetime_of_use: '2025-05-10T09:05:00.000Z',
+                            amount: 560,
+                            where_to_use: '利用先B',
+                        },
+                        savedPath: 'details/2025/05/term2/10/2'
+                    }
+                ]
+            });
+
+            await emailController.startAllMonitoring();
+            await emailCallbacks['MUFG'](sampleParsedEmail);
+
+            expect(mockNotifyCardUsageUseCase.notifyUsage).toHaveBeenCalledTimes(2);
+            expect(mockNotifyCardUsageUseCase.notifyUsage).toHaveBeenNthCalledWith(
+                2,
+                expect.objectContaining({ amount: 560, where_to_use: '利用先B' })
+            );
+        });
+
         test('異常系: ProcessCardCompanyEmailUseCaseがnullを返す場合の挙動', async () => {
             // カード会社を特定できないケース
             mockProcessCardCompanyEmailUseCase.execute.mockResolvedValueOnce({
@@ -269,6 +380,23 @@ describe('EmailController', () => {
             expect(mockNotifyCardUsageUseCase.notifyUsage).not.toHaveBeenCalled();
         });
 
+        test('異常系: デッドレターに登録された場合、通知せずに処理を終えること', async () => {
+            mockProcessCardCompanyEmailUseCase.execute.mockResolvedValueOnce({
+                cardCompany: CardCompany.MUFG,
+                usageResults: [],
+                deadLetterId: 'dead-letter-1'
+            });
+
+            await emailController.startAllMonitoring();
+
+            // 例外はスローされない
+            await expect(emailCallbacks['MUFG'](sampleParsedEmail)).resolves.toBeUndefined();
+
+            expect(mockNotifyCardUsageUseCase.notifyUsage).not.toHaveBeenCalled();
+            expect(require('../../../../../../shared/infrastructure/logging/Logger').logger.warn)
+                .toHaveBeenCalledWith('メールをデッドレターに登録しました: dead-letter-1', expect.any(String));
+        });
+
         test('異常系: ProcessCardCompanyEmailUseCaseでエラーが発生した場合', async () => {
             // 監視開始
             await emailController.startAllMonitoring();
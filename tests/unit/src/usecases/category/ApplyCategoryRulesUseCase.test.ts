@@ -0,0 +1,158 @@
+import { ApplyCategoryRulesUseCase } from '../../../../../src/usecases/category/ApplyCategoryRulesUseCase';
+import { ICardUsageCrudRepository } from '../../../../../src/domain/interfaces/infrastructure/database/repositories/ICardUsageCrudRepository';
+import { ICardUsageCategorizer } from '../../../../../src/domain/interfaces/infrastructure/category/ICardUsageCategorizer';
+import { CardUsage } from '../../../../../shared/domain/entities/CardUsage';
+import { CategoryRule } from '../../../../../shared/domain/entities/Category';
+import { ErrorType } from '../../../../../shared/errors/AppError';
+
+// Loggerをモック化
+jest.mock('../../../../../shared/infrastructure/logging/Logger', () => ({
+    logger: {
+        info: jest.fn(),
+        debug: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        logAppError: jest.fn(),
+        updateServiceStatus: jest.fn()
+    }
+}));
+
+// ErrorHandlerをモック化
+jest.mock('../../../../../shared/infrastructure/errors/ErrorHandler', () => ({
+    ErrorHandler: {
+        errorDecorator: () => (
+            _target: any,
+            _propertyKey: string | symbol,
+            descriptor: PropertyDescriptor
+        ) => descriptor,
+        handle: jest.fn()
+    }
+}));
+
+describe('ApplyCategoryRulesUseCase', () => {
+    let useCase: ApplyCategoryRulesUseCase;
+    let mockRepository: jest.Mocked<ICardUsageCrudRepository>;
+    let mockCategorizer: jest.Mocked<ICardUsageCategorizer>;
+
+    const rules: CategoryRule[] = [{ category: 'subscriptions', merchantPattern: 'NETFLIX' }];
+
+    const createStored = (id: string, usedAt: Date, overrides: Partial<CardUsage> = {}) => ({
+        card_name: 'テストカード',
+        datetime_of_use: { toDate: () => usedAt } as any,
+        amount: 1490,
+        where_to_use: 'NETFLIX.COM',
+        created_at: { toDate: () => new Date() } as any,
+        ...overrides,
+        id,
+        path: `details/${usedAt.getFullYear()}/${usedAt.getMonth() + 1}/term1/${usedAt.getDate()}/${id}`
+    });
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+
+        mockRepository = {
+            save: jest.fn(),
+            getByTimestamp: jest.fn(),
+            getById: jest.fn(),
+            getByYearMonth: jest.fn().mockResolvedValue([]),
+            update: jest.fn(),
+            updateByPath: jest.fn().mockResolvedValue(undefined),
+            delete: jest.fn()
+        };
+
+        mockCategorizer = {
+            categorize: jest.fn(),
+            getRules: jest.fn().mockResolvedValue(rules),
+            match: jest.fn().mockReturnValue('subscriptions'),
+            hasCategory: jest.fn()
+        };
+
+        useCase = new ApplyCategoryRulesUseCase(mockRepository, mockCategorizer);
+    });
+
+    describe('execute', () => {
+        test('正常系: 期間内のカード利用情報のうち、カテゴリが変わったものだけを更新すること', async () => {
+            const unset = createStored('1', new Date(2025, 4, 20));
+            const outdated = createStored('2', new Date(2025, 5, 1), { category: 'shopping', category_source: 'rule' });
+            const upToDate = createStored('3', new Date(2025, 5, 2), {
+                category: 'subscriptions',
+                category_source: 'rule'
+            });
+            const outOfRange = createStored('4', new Date(2025, 4, 19, 23, 59));
+            mockRepository.getByYearMonth
+                .mockResolvedValueOnce([outOfRange, unset])
+                .mockResolvedValueOnce([outdated, upToDate]);
+
+            const result = await useCase.execute('2025-05-20', '2025-06-30');
+
+            expect(mockRepository.getByYearMonth).toHaveBeenCalledTimes(2);
+            expect(mockRepository.getByYearMonth).toHaveBeenNthCalledWith(1, '2025', '5');
+            expect(mockRepository.getByYearMonth).toHaveBeenNthCalledWith(2, '2025', '6');
+            expect(mockCategorizer.getRules).toHaveBeenCalledTimes(1);
+            expect(mockCategorizer.match).toHaveBeenCalledWith(unset, rules);
+            expect(mockRepository.updateByPath).toHaveBeenCalledTimes(2);
+            expect(mockRepository.updateByPath).toHaveBeenCalledWith(unset.path, {
+                category: 'subscriptions',
+                category_source: 'rule'
+            });
+            expect(result).toEqual({
+                from: '2025-05-20',
+                to: '2025-06-30',
+                total: 3,
+                skipped: 0,
+                changes: [
+                    { path: unset.path, whereToUse: 'NETFLIX.COM', previous: undefined, category: 'subscriptions' },
+                    { path: outdated.path, whereToUse: 'NETFLIX.COM', previous: 'shopping', category: 'subscriptions' }
+                ]
+            });
+        });
+
+        test('正常系: どのルールにも一致しない場合は、設定元をdefaultとして未分類にすること', async () => {
+            mockCategorizer.match.mockReturnValue('uncategorized');
+            const stored = createStored('1', new Date(2025, 4, 20), { category: 'shopping', category_source: 'rule' });
+            const upToDate = createStored('2', new Date(2025, 4, 21), {
+                category: 'uncategorized',
+                category_source: 'default'
+            });
+            mockRepository.getByYearMonth.mockResolvedValue([stored, upToDate]);
+
+            await useCase.execute('2025-05-01', '2025-05-31');
+
+            expect(mockRepository.updateByPath).toHaveBeenCalledTimes(1);
+            expect(mockRepository.updateByPath).toHaveBeenCalledWith(stored.path, {
+                category: 'uncategorized',
+                category_source: 'default'
+            });
+        });
+
+        test('正常系: 手動で設定したカテゴリは変更しないこと', async () => {
+            mockRepository.getByYearMonth.mockResolvedValue([
+                createStored('1', new Date(2025, 4, 20), { category: 'dining', category_source: 'manual' })
+            ]);
+
+            const result = await useCase.execute('2025-05-01', '2025-05-31');
+
+            expect(mockCategorizer.match).not.toHaveBeenCalled();
+            expect(mockRepository.updateByPath).not.toHaveBeenCalled();
+            expect(result).toMatchObject({ total: 1, skipped: 1, changes: [] });
+        });
+
+        test('正常系: dryRunの場合は更新せずに結果のみを返すこと', async () => {
+            mockRepository.getByYearMonth.mockResolvedValue([createStored('1', new Date(2025, 4, 20))]);
+
+            const result = await useCase.execute('2025-05-01', '2025-05-31', true);
+
+            expect(mockRepository.updateByPath).not.toHaveBeenCalled();
+            expect(result.changes).toHaveLength(1);
+        });
+
+        test.each([
+            ['日付の形式が不正な場合', '2025/05/01', '2025-05-31'],
+            ['存在しない日付の場合', '2025-02-30', '2025-05-31'],
+            ['開始日が終了日より後の場合', '2025-06-01', '2025-05-31'],
+        ])('異常系: %sはバリデーションエラーとなること', async (_, from, to) => {
+            await expect(useCase.execute(from, to)).rejects.toMatchObject({ type: ErrorType.VALIDATION });
+            expect(mockRepository.getByYearMonth).not.toHaveBeenCalled();
+        });
+    });
+});
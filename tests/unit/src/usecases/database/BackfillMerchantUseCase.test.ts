@@ -0,0 +1,106 @@
+import { BackfillMerchantUseCase } from '../../../../../src/usecases/database/BackfillMerchantUseCase';
+import { ICardUsageCrudRepository } from '../../../../../src/domain/interfaces/infrastructure/database/repositories/ICardUsageCrudRepository';
+import { IMerchantNormalizer } from '../../../../../src/domain/interfaces/infrastructure/merchant/IMerchantNormalizer';
+import { CardUsage } from '../../../../../shared/domain/entities/CardUsage';
+import { ErrorType } from '../../../../../shared/errors/AppError';
+
+// Loggerをモック化
+jest.mock('../../../../../shared/infrastructure/logging/Logger', () => ({
+    logger: {
+        info: jest.fn(),
+        debug: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        logAppError: jest.fn(),
+        updateServiceStatus: jest.fn()
+    }
+}));
+
+// ErrorHandlerをモック化
+jest.mock('../../../../../shared/infrastructure/errors/ErrorHandler', () => ({
+    ErrorHandler: {
+        errorDecorator: () => (
+            _target: any,
+            _propertyKey: string | symbol,
+            descriptor: PropertyDescriptor
+        ) => descriptor,
+        handle: jest.fn()
+    }
+}));
+
+describe('BackfillMerchantUseCase', () => {
+    let useCase: BackfillMerchantUseCase;
+    let mockRepository: jest.Mocked<ICardUsageCrudRepository>;
+    let mockMerchantNormalizer: jest.Mocked<IMerchantNormalizer>;
+
+    const createStored = (id: string, overrides: Partial<CardUsage> = {}) => ({
+        card_name: 'テストカード',
+        datetime_of_use: { toDate: () => new Date(2025, 4, 10) } as any,
+        amount: 1500,
+        where_to_use: 'ＡＭＡＺＯＮ．ＣＯ．ＪＰ',
+        created_at: { toDate: () => new Date() } as any,
+        ...overrides,
+        id,
+        path: `details/2025/05/term2/10/${id}`
+    });
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+
+        mockRepository = {
+            save: jest.fn(),
+            getByTimestamp: jest.fn(),
+            getById: jest.fn(),
+            getByYearMonth: jest.fn().mockResolvedValue([]),
+            update: jest.fn(),
+            updateByPath: jest.fn().mockResolvedValue(undefined),
+            delete: jest.fn()
+        };
+
+        mockMerchantNormalizer = {
+            normalize: jest.fn().mockResolvedValue('Amazon')
+        };
+
+        useCase = new BackfillMerchantUseCase(mockRepository, mockMerchantNormalizer);
+    });
+
+    describe('execute', () => {
+        test('正常系: 正規化した利用先が変わったカード利用情報のみを更新すること', async () => {
+            const unset = createStored('1');
+            const outdated = createStored('2', { merchant: 'AMAZON.CO.JP' });
+            const upToDate = createStored('3', { merchant: 'Amazon' });
+            mockRepository.getByYearMonth.mockResolvedValue([unset, outdated, upToDate]);
+
+            const result = await useCase.execute('2025', '5');
+
+            expect(mockRepository.getByYearMonth).toHaveBeenCalledWith('2025', '5');
+            expect(mockMerchantNormalizer.normalize).toHaveBeenCalledTimes(3);
+            expect(mockRepository.updateByPath).toHaveBeenCalledTimes(2);
+            expect(mockRepository.updateByPath).toHaveBeenCalledWith(unset.path, { merchant: 'Amazon' });
+            expect(mockRepository.updateByPath).toHaveBeenCalledWith(outdated.path, { merchant: 'Amazon' });
+            expect(result).toEqual({
+                year: '2025',
+                month: '5',
+                total: 3,
+                changes: [
+                    { path: unset.path, whereToUse: 'ＡＭＡＺＯＮ．ＣＯ．ＪＰ', previous: undefined, merchant: 'Amazon' },
+                    { path: outdated.path, whereToUse: 'ＡＭＡＺＯＮ．ＣＯ．ＪＰ', previous: 'AMAZON.CO.JP', merchant: 'Amazon' }
+                ]
+            });
+        });
+
+        test('正常系: dryRunの場合は更新せずに結果のみを返すこと', async () => {
+            mockRepository.getByYearMonth.mockResolvedValue([createStored('1')]);
+
+            const result = await useCase.execute('2025', '5', true);
+
+            expect(mockRepository.updateByPath).not.toHaveBeenCalled();
+            expect(result.changes).toHaveLength(1);
+        });
+
+        test('異常系: 年月が指定されていない場合はエラーをスローすること', async () => {
+            await expect(useCase.execute('2025', '')).rejects.toMatchObject({ type: ErrorType.VALIDATION });
+            expect(mockRepository.getByYearMonth).not.toHaveBeenCalled();
+        });
+    });
+});
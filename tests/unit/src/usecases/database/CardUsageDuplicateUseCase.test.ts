@@ -0,0 +1,290 @@
+import { CardUsageDuplicateUseCase } from '../../../../../src/usecases/database/CardUsageDuplicateUseCase';
+import { ICardUsageCrudRepository } from '../../../../../src/domain/interfaces/infrastructure/database/repositories/ICardUsageCrudRepository';
+import { StoredCardUsage } from '../../../../../src/domain/interfaces/usecases/database/ICardUsageDuplicateUseCase';
+import { CardUsage } from '../../../../../shared/domain/entities/CardUsage';
+import { ErrorType } from '../../../../../shared/errors/AppError';
+import { logger } from '../../../../../shared/infrastructure/logging/Logger';
+
+// Loggerをモック化
+jest.mock('../../../../../shared/infrastructure/logging/Logger', () => ({
+    logger: {
+        info: jest.fn(),
+        debug: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        logAppError: jest.fn(),
+        updateServiceStatus: jest.fn()
+    }
+}));
+
+describe('CardUsageDuplicateUseCase', () => {
+    let useCase: CardUsageDuplicateUseCase;
+    let mockRepository: jest.Mocked<ICardUsageCrudRepository>;
+
+    const usedAt = new Date(2025, 4, 10, 12, 30);
+    const minutesLater = (minutes: number): Date => new Date(usedAt.getTime() + minutes * 60 * 1000);
+
+    const createCardUsage = (date: Date, overrides: Partial<CardUsage> = {}): CardUsage => ({
+        card_name: '三井住友カード',
+        datetime_of_use: { toDate: () => date } as any,
+        amount: 1500,
+        where_to_use: 'AMAZON.CO.JP',
+        created_at: { toDate: () => new Date() } as any,
+        ...overrides
+    });
+
+    const createStored = (id: string, date: Date, overrides: Partial<CardUsage> = {}): StoredCardUsage => ({
+        ...createCardUsage(date, overrides),
+        id,
+        path: `details/2025/05/term2/10/${id}`
+    });
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+
+        mockRepository = {
+            save: jest.fn(),
+            getByTimestamp: jest.fn(),
+            getById: jest.fn(),
+            getByYearMonth: jest.fn().mockResolvedValue([]),
+            update: jest.fn(),
+            updateByPath: jest.fn(),
+            delete: jest.fn()
+        };
+
+        useCase = new CardUsageDuplicateUseCase(mockRepository, 'flag', 10);
+    });
+
+    describe('check', () => {
+        test('正常系: 重複がない場合はそのまま保存すること', async () => {
+            const cardUsage = createCardUsage(usedAt);
+
+            const result = await useCase.check(cardUsage);
+
+            expect(mockRepository.getByYearMonth).toHaveBeenCalledWith('2025', '5');
+            expect(result).toEqual({ cardUsage, duplicateOf: null, skip: false });
+        });
+
+        test('正常系: カード名・金額・利用先が同じで利用日時が近い場合は重複の疑いを記録すること', async () => {
+            const existing = createStored('1', minutesLater(-3), {
+                card_name: '三井住友カード',
+                where_to_use: 'ＡＭＡＺＯＮ．ＣＯ．ＪＰ'
+            });
+            mockRepository.getByYearMonth.mockResolvedValue([existing]);
+
+            const result = await useCase.check(createCardUsage(usedAt));
+
+            expect(result.skip).toBe(false);
+            expect(result.duplicateOf).toBe(existing);
+            expect(result.cardUsage.duplicate_of).toBe(existing.path);
+            expect(logger.warn).toHaveBeenCalledWith(
+                expect.stringContaining('重複の疑いがあるカード利用情報を保存します'),
+                'CardUsageDuplicateUseCase',
+                expect.objectContaining({ notify: true })
+            );
+        });
+
+        test('正常系: 利用日時が最も近いものを重複の疑いとすること', async () => {
+            const far = createStored('1', minutesLater(-8));
+            const near = createStored('2', minutesLater(2));
+            mockRepository.getByYearMonth.mockResolvedValue([far, near]);
+
+            const result = await useCase.check(createCardUsage(usedAt));
+
+            expect(result.duplicateOf).toBe(near);
+        });
+
+        test('正常系: 利用日時の差が重複とみなす時間を超える場合は重複としないこと', async () => {
+            mockRepository.getByYearMonth.mockResolvedValue([createStored('1', minutesLater(11))]);
+
+            const result = await useCase.check(createCardUsage(usedAt));
+
+            expect(result.duplicateOf).toBeNull();
+        });
+
+        test('正常系: 金額または利用先が異なる場合は重複としないこと', async () => {
+            mockRepository.getByYearMonth.mockResolvedValue([
+                createStored('1', minutesLater(1), { amount: 1600 }),
+                createStored('2', minutesLater(1), { where_to_use: 'ヨドバシカメラ' }),
+            ]);
+
+            const result = await useCase.check(createCardUsage(usedAt));
+
+            expect(result.duplicateOf).toBeNull();
+        });
+
+        test('正常系: 論理削除されたカード利用情報は重複の対象としないこと', async () => {
+            mockRepository.getByYearMonth.mockResolvedValue([createStored('1', minutesLater(1), { is_active: false })]);
+
+            const result = await useCase.check(createCardUsage(usedAt));
+
+            expect(result.duplicateOf).toBeNull();
+        });
+
+        test('正常系: スキップする設定の場合は保存せずにスキップすること', async () => {
+            useCase = new CardUsageDuplicateUseCase(mockRepository, 'skip', 10);
+            const existing = createStored('1', minutesLater(5));
+            mockRepository.getByYearMonth.mockResolvedValue([existing]);
+
+            const result = await useCase.check(createCardUsage(usedAt));
+
+            expect(result.skip).toBe(true);
+            expect(result.duplicateOf).toBe(existing);
+            expect(result.cardUsage).not.toHaveProperty('duplicate_of');
+        });
+
+        test('正常系: 同じメールの同じ明細の再送は確実に同じ利用のため、設定によらずスキップすること', async () => {
+            const source = { source_message_id: '<abc@example.com>', source_item_index: 1 };
+            const existing = createStored('2', usedAt, source);
+            mockRepository.getByYearMonth.mockResolvedValue([
+                createStored('1', usedAt, { ...source, source_item_index: 0 }),
+                existing,
+            ]);
+
+            const result = await useCase.check(createCardUsage(usedAt, source));
+
+            expect(result.skip).toBe(true);
+            expect(result.duplicateOf).toBe(existing);
+        });
+
+        test('正常系: 同じメール内の同じ内容の明細は別の利用として設定に従うこと', async () => {
+            // 日付のみの明細は同じ利用日時（0時）になる
+            const existing = createStored('1', usedAt, { source_message_id: '<abc@example.com>', source_item_index: 0 });
+            mockRepository.getByYearMonth.mockResolvedValue([existing]);
+
+            const result = await useCase.check(
+                createCardUsage(usedAt, { source_message_id: '<abc@example.com>', source_item_index: 1 })
+            );
+
+            expect(result.skip).toBe(false);
+            expect(result.cardUsage.duplicate_of).toBe(existing.path);
+        });
+
+        test('正常系: 元のメールが不明な場合は利用日時まで同じでも設定に従うこと', async () => {
+            const existing = createStored('1', usedAt);
+            mockRepository.getByYearMonth.mockResolvedValue([existing]);
+
+            const result = await useCase.check(createCardUsage(usedAt));
+
+            expect(result.skip).toBe(false);
+            expect(result.cardUsage.duplicate_of).toBe(existing.path);
+        });
+
+        test('正常系: 重複とみなす時間が月をまたぐ場合は両方の月を検索すること', async () => {
+            await useCase.check(createCardUsage(new Date(2025, 4, 31, 23, 55)));
+
+            expect(mockRepository.getByYearMonth).toHaveBeenCalledTimes(2);
+            expect(mockRepository.getByYearMonth).toHaveBeenCalledWith('2025', '5');
+            expect(mockRepository.getByYearMonth).toHaveBeenCalledWith('2025', '6');
+        });
+
+        test('異常系: 検索に失敗した場合は重複なしとして保存すること', async () => {
+            mockRepository.getByYearMonth.mockRejectedValue(new Error('検索エラー'));
+            const cardUsage = createCardUsage(usedAt);
+
+            const result = await useCase.check(cardUsage);
+
+            expect(result).toEqual({ cardUsage, duplicateOf: null, skip: false });
+            expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('検索エラー'), 'CardUsageDuplicateUseCase');
+        });
+    });
+
+    describe('getDuplicates', () => {
+        test('正常系: 利用日時が近い同じ利用と、重複の疑いを記録した利用を組にして返すこと', async () => {
+            const original = createStored('1', usedAt);
+            const duplicate = createStored('2', minutesLater(4), { memo: '手動登録' });
+            const other = createStored('3', minutesLater(60), { amount: 800, where_to_use: 'スターバックス' });
+            const flagged = createStored('4', minutesLater(90), {
+                amount: 780,
+                where_to_use: 'スタバ',
+                duplicate_of: other.path
+            });
+            const deleted = createStored('5', minutesLater(5), { is_active: false });
+            mockRepository.getByYearMonth.mockResolvedValue([flagged, deleted, duplicate, other, original]);
+
+            const result = await useCase.getDuplicates('2025', '5');
+
+            expect(mockRepository.getByYearMonth).toHaveBeenCalledWith('2025', '5');
+            expect(result).toEqual([
+                {
+                    fingerprint: '三井住友カード|1500|AMAZONCOJP',
+                    original,
+                    duplicate,
+                    minutesApart: 4
+                },
+                {
+                    fingerprint: '三井住友カード|780|スタバ',
+                    original: other,
+                    duplicate: flagged,
+                    minutesApart: 30
+                }
+            ]);
+        });
+
+        test('正常系: 同じ組は重複して返さないこと', async () => {
+            const original = createStored('1', usedAt);
+            const duplicate = createStored('2', minutesLater(1), { duplicate_of: original.path });
+            mockRepository.getByYearMonth.mockResolvedValue([original, duplicate]);
+
+            const result = await useCase.getDuplicates('2025', '5');
+
+            expect(result).toHaveLength(1);
+        });
+
+        test('異常系: 年月が指定されていない場合はエラーをスローすること', async () => {
+            await expect(useCase.getDuplicates('', '5')).rejects.toMatchObject({ type: ErrorType.VALIDATION });
+        });
+    });
+
+    describe('merge', () => {
+        test('正常系: 残す方に未設定のメモを補い、もう一方を統合先を記録して論理削除すること', async () => {
+            const kept = createStored('1', usedAt, { memo: '' });
+            const duplicate = createStored('2', minutesLater(4), { memo: '手動登録' });
+            const merged = { ...kept, memo: '手動登録' };
+            mockRepository.getById.mockImplementation(async (id) => (id === '1' ? kept : duplicate));
+            mockRepository.update.mockResolvedValueOnce(merged);
+
+            const result = await useCase.merge('1', '2');
+
+            expect(mockRepository.update).toHaveBeenNthCalledWith(1, '1', { memo: '手動登録' });
+            expect(mockRepository.update).toHaveBeenNthCalledWith(2, '2', {
+                is_active: false,
+                duplicate_of: kept.path
+            });
+            expect(result).toEqual({ kept: merged, removed: { id: '2', path: duplicate.path } });
+        });
+
+        test('正常系: 補う項目がない場合は残す方を更新しないこと', async () => {
+            const kept = createStored('1', usedAt, { memo: 'メモ' });
+            const duplicate = createStored('2', minutesLater(4));
+            mockRepository.getById.mockImplementation(async (id) => (id === '1' ? kept : duplicate));
+
+            const result = await useCase.merge('1', '2');
+
+            expect(mockRepository.update).toHaveBeenCalledTimes(1);
+            expect(mockRepository.update).toHaveBeenCalledWith('2', { is_active: false, duplicate_of: kept.path });
+            expect(result.kept).toBe(kept);
+        });
+
+        test('異常系: 同じIDを指定した場合はエラーをスローすること', async () => {
+            await expect(useCase.merge('1', '1')).rejects.toMatchObject({ type: ErrorType.VALIDATION });
+            expect(mockRepository.getById).not.toHaveBeenCalled();
+        });
+
+        test('異常系: カード利用情報が見つからない場合はエラーをスローすること', async () => {
+            mockRepository.getById.mockImplementation(async (id) => (id === '1' ? createStored('1', usedAt) : null));
+
+            await expect(useCase.merge('1', '2')).rejects.toMatchObject({ type: ErrorType.NOT_FOUND });
+            expect(mockRepository.update).not.toHaveBeenCalled();
+        });
+
+        test('異常系: 削除する方がすでに削除されている場合はエラーをスローすること', async () => {
+            const kept = createStored('1', usedAt);
+            const duplicate = createStored('2', minutesLater(4), { is_active: false });
+            mockRepository.getById.mockImplementation(async (id) => (id === '1' ? kept : duplicate));
+
+            await expect(useCase.merge('1', '2')).rejects.toMatchObject({ type: ErrorType.VALIDATION });
+            expect(mockRepository.update).not.toHaveBeenCalled();
+        });
+    });
+});
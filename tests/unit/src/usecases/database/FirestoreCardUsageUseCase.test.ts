@@ -4,7 +4,10 @@ import { DiscordNotifier } from '../../../../../shared/infrastructure/discord/Di
 import { CardUsageMapper } from '../../../../../shared/infrastructure/mappers/CardUsageMapper';
 import { AppError, ErrorType } from '../../../../../shared/errors/AppError';
 import { Timestamp } from 'firebase-admin/firestore';
-import { CardUsage } from '../../../../../shared/domain/entities/CardUsage';
+import { CardUsage, CardUsageStatus } from '../../../../../shared/domain/entities/CardUsage';
+import { ICardUsageDuplicateUseCase } from '../../../../../src/domain/interfaces/usecases/database/ICardUsageDuplicateUseCase';
+import { IMerchantNormalizer } from '../../../../../src/domain/interfaces/infrastructure/merchant/IMerchantNormalizer';
+import { ICardUsageCategorizer } from '../../../../../src/domain/interfaces/infrastructure/category/ICardUsageCategorizer';
 
 // 依存関係をモック
 jest.mock('../../../../../shared/infrastructure/discord/DiscordNotifier');
@@ -47,6 +50,9 @@ describe('FirestoreCardUsageUseCase', () => {
     let firestoreCardUsageUseCase: FirestoreCardUsageUseCase;
     let mockRepository: jest.Mocked<ICardUsageCrudRepository>;
     let mockDiscordNotifier: jest.Mocked<DiscordNotifier>;
+    let mockDuplicateUseCase: jest.Mocked<ICardUsageDuplicateUseCase>;
+    let mockMerchantNormalizer: jest.Mocked<IMerchantNormalizer>;
+    let mockCategorizer: jest.Mocked<ICardUsageCategorizer>;
 
     beforeEach(() => {
         // モックのセットアップ
@@ -56,6 +62,7 @@ describe('FirestoreCardUsageUseCase', () => {
             getById: jest.fn(),
             getByYearMonth: jest.fn(),
             update: jest.fn(),
+            updateByPath: jest.fn(),
             delete: jest.fn()
         };
 
@@ -75,8 +82,34 @@ describe('FirestoreCardUsageUseCase', () => {
                 new Date().toISOString()
         }));
 
+        // 重複がない場合はそのまま保存する
+        mockDuplicateUseCase = {
+            check: jest.fn().mockImplementation(async (cardUsage) => ({ cardUsage, duplicateOf: null, skip: false })),
+            getDuplicates: jest.fn(),
+            merge: jest.fn()
+        };
+
+        // 利用先はそのまま正規化後の利用先とする
+        mockMerchantNormalizer = {
+            normalize: jest.fn().mockImplementation(async (whereToUse) => whereToUse)
+        };
+
+        // どのルールにも一致しない場合は未分類とし、既定のカテゴリのみ登録済みとする
+        mockCategorizer = {
+            categorize: jest.fn().mockResolvedValue('uncategorized'),
+            getRules: jest.fn(),
+            match: jest.fn(),
+            hasCategory: jest.fn().mockImplementation(async (category) => category !== 'unknown')
+        };
+
         // ユースケースの作成
-        firestoreCardUsageUseCase = new FirestoreCardUsageUseCase(mockRepository, mockDiscordNotifier);
+        firestoreCardUsageUseCase = new FirestoreCardUsageUseCase(
+            mockRepository,
+            mockDiscordNotifier,
+            mockDuplicateUseCase,
+            mockMerchantNormalizer,
+            mockCategorizer
+        );
     });
 
     afterEach(() => {
@@ -137,6 +170,37 @@ describe('FirestoreCardUsageUseCase', () => {
             await expect(firestoreCardUsageUseCase.getCardUsagesByYearMonth('', ''))
                 .rejects.toThrow(new AppError('年と月のパラメータが必要です', ErrorType.VALIDATION));
         });
+
+        test('状態を指定した場合、該当する状態のカード利用情報のみを返すこと（未設定は確定済みとして扱う）', async () => {
+            // Arrange
+            const baseUsage = {
+                card_name: 'テストカード',
+                amount: 1000,
+                datetime_of_use: Timestamp.now(),
+                where_to_use: 'テスト店舗',
+                is_active: true,
+                created_at: Timestamp.now()
+            };
+            const legacyUsage = { ...baseUsage, id: '1', path: 'details/2023/12/term1/01/1' };
+            const confirmedUsage = { ...baseUsage, id: '2', path: 'details/2023/12/term1/01/2', status: 'confirmed' as const };
+            const pendingUsage = { ...baseUsage, id: '3', path: 'details/2023/12/term1/01/3', status: 'pending_review' as const };
+            mockRepository.getByYearMonth.mockResolvedValue([legacyUsage, confirmedUsage, pendingUsage]);
+
+            // Act
+            const confirmed = await firestoreCardUsageUseCase.getCardUsagesByYearMonth('2023', '12', 'confirmed');
+            const pending = await firestoreCardUsageUseCase.getCardUsagesByYearMonth('2023', '12', 'pending_review');
+
+            // Assert
+            expect(confirmed).toEqual([legacyUsage, confirmedUsage]);
+            expect(pending).toEqual([pendingUsage]);
+        });
+
+        test('不正な状態を指定した場合、ValidationErrorをスローすること', async () => {
+            // Act & Assert
+            await expect(firestoreCardUsageUseCase.getCardUsagesByYearMonth('2023', '12', 'unknown' as CardUsageStatus))
+                .rejects.toThrow(new AppError('statusはconfirmed, pending_reviewのいずれかを指定してください', ErrorType.VALIDATION));
+            expect(mockRepository.getByYearMonth).not.toHaveBeenCalled();
+        });
     });
 
     describe('getCardUsageById', () => {
@@ -235,6 +299,131 @@ describe('FirestoreCardUsageUseCase', () => {
             expect(result.id).toBeDefined();
         });
 
+        test('利用先は指定された表記のまま、正規化した利用先とあわせて作成すること', async () => {
+            // Arrange
+            mockRepository.save.mockResolvedValue('details/2023/12/term1/01/123');
+            mockMerchantNormalizer.normalize.mockResolvedValue('Amazon');
+
+            // Act
+            await firestoreCardUsageUseCase.createCardUsage({
+                card_name: 'テストカード',
+                amount: 1000,
+                datetime_of_use: '2023-12-01T10:00:00Z',
+                where_to_use: 'ＡＭＡＺＯＮ．ＣＯ．ＪＰ'
+            });
+
+            // Assert
+            expect(mockMerchantNormalizer.normalize).toHaveBeenCalledWith('ＡＭＡＺＯＮ．ＣＯ．ＪＰ');
+            expect(mockRepository.save).toHaveBeenCalledWith(expect.objectContaining({
+                where_to_use: 'ＡＭＡＺＯＮ．ＣＯ．ＪＰ',
+                merchant: 'Amazon'
+            }));
+        });
+
+        test('カテゴリを省略した場合は自動分類のルールで割り当てること', async () => {
+            // Arrange
+            mockRepository.save.mockResolvedValue('details/2023/12/term1/01/123');
+            mockCategorizer.categorize.mockResolvedValue('subscriptions');
+
+            // Act
+            await firestoreCardUsageUseCase.createCardUsage({
+                card_name: 'テストカード',
+                amount: 1490,
+                datetime_of_use: '2023-12-01T10:00:00Z',
+                where_to_use: 'NETFLIX.COM'
+            });
+
+            // Assert
+            expect(mockCategorizer.categorize).toHaveBeenCalledWith(expect.objectContaining({ merchant: 'NETFLIX.COM' }));
+            expect(mockRepository.save).toHaveBeenCalledWith(expect.objectContaining({
+                category: 'subscriptions',
+                category_source: 'rule'
+            }));
+        });
+
+        test('どのルールにも一致しない場合は設定元をdefaultとして未分類で作成すること', async () => {
+            // Arrange
+            mockRepository.save.mockResolvedValue('details/2023/12/term1/01/123');
+            mockCategorizer.categorize.mockResolvedValue('uncategorized');
+
+            // Act
+            await firestoreCardUsageUseCase.createCardUsage({
+                card_name: 'テストカード',
+                amount: 1490,
+                datetime_of_use: '2023-12-01T10:00:00Z',
+                where_to_use: 'NETFLIX.COM'
+            });
+
+            // Assert
+            expect(mockRepository.save).toHaveBeenCalledWith(expect.objectContaining({
+                category: 'uncategorized',
+                category_source: 'default'
+            }));
+        });
+
+        test('カテゴリを指定した場合は手動で設定したカテゴリとして作成すること', async () => {
+            // Arrange
+            mockRepository.save.mockResolvedValue('details/2023/12/term1/01/123');
+
+            // Act
+            await firestoreCardUsageUseCase.createCardUsage({
+                card_name: 'テストカード',
+                amount: 1000,
+                datetime_of_use: '2023-12-01T10:00:00Z',
+                where_to_use: 'テスト店舗',
+                category: 'dining'
+            });
+
+            // Assert
+            expect(mockCategorizer.categorize).not.toHaveBeenCalled();
+            expect(mockRepository.save).toHaveBeenCalledWith(expect.objectContaining({
+                category: 'dining',
+                category_source: 'manual'
+            }));
+        });
+
+        test('重複の疑いがある場合は重複の疑いを記録して作成すること', async () => {
+            // Arrange
+            const duplicatePath = 'details/2023/12/term1/01/1701424500000';
+            mockDuplicateUseCase.check.mockImplementation(async (cardUsage) => ({
+                cardUsage: { ...cardUsage, duplicate_of: duplicatePath },
+                duplicateOf: null,
+                skip: false
+            }));
+            mockRepository.save.mockResolvedValue('details/2023/12/term1/01/123');
+
+            // Act
+            const result = await firestoreCardUsageUseCase.createCardUsage({
+                card_name: 'テストカード',
+                amount: 1000,
+                datetime_of_use: '2023-12-01T10:00:00Z',
+                where_to_use: 'テスト店舗'
+            });
+
+            // Assert
+            expect(mockRepository.save).toHaveBeenCalledWith(expect.objectContaining({ duplicate_of: duplicatePath }));
+            expect(result.duplicate_of).toBe(duplicatePath);
+        });
+
+        test('重複をスキップする設定の場合はDUPLICATEエラーとし、保存・通知しないこと', async () => {
+            // Arrange
+            mockDuplicateUseCase.check.mockImplementation(async (cardUsage) => ({
+                cardUsage,
+                duplicateOf: { ...cardUsage, id: '1701424500000', path: 'details/2023/12/term1/01/1701424500000' },
+                skip: true
+            }));
+
+            // Act & Assert
+            await expect(firestoreCardUsageUseCase.createCardUsage({
+                card_name: 'テストカード',
+                amount: 1000,
+                datetime_of_use: '2023-12-01T10:00:00Z',
+                where_to_use: 'テスト店舗'
+            })).rejects.toMatchObject({ type: ErrorType.DUPLICATE });
+            expect(mockRepository.save).not.toHaveBeenCalled();
+            expect(mockDiscordNotifier.notifyCardUsage).not.toHaveBeenCalled();
+        });
+
         test('Timestampオブジェクト形式の日付でもカード利用情報を作成できること', async () => {
             // Arrange
             const cardUsageData = {
@@ -292,6 +481,86 @@ describe('FirestoreCardUsageUseCase', () => {
             expect(result.is_active).toBe(true);
         });
 
+        test('取消・返金を指定した場合、金額を負の値として保存すること', async () => {
+            // Arrange
+            const cardUsageData = {
+                card_name: 'テストカード',
+                amount: 1000,
+                datetime_of_use: '2023-12-02T10:00:00Z',
+                where_to_use: 'テスト店舗',
+                transaction_type: 'refund',
+                original_usage_path: 'details/2023/12/term1/01/123'
+            };
+            mockRepository.save.mockResolvedValue('details/2023/12/term1/02/124');
+
+            // Act
+            const result = await firestoreCardUsageUseCase.createCardUsage(cardUsageData);
+
+            // Assert
+            expect(mockRepository.save).toHaveBeenCalledWith(expect.objectContaining({
+                amount: -1000,
+                transaction_type: 'refund',
+                original_usage_path: 'details/2023/12/term1/01/123'
+            }));
+            expect(result.amount).toBe(-1000);
+        });
+
+        test('外貨建ての情報を指定した場合、円の金額とあわせて保存すること', async () => {
+            // Arrange
+            const cardUsageData = {
+                card_name: 'テストカード',
+                amount: 1834,
+                datetime_of_use: '2023-12-02T10:00:00Z',
+                where_to_use: 'AMAZON.COM',
+                original_currency: 'USD',
+                original_amount: '12.34',
+                exchange_rate: 148.62
+            };
+            mockRepository.save.mockResolvedValue('details/2023/12/term1/02/124');
+
+            // Act
+            await firestoreCardUsageUseCase.createCardUsage(cardUsageData);
+
+            // Assert
+            expect(mockRepository.save).toHaveBeenCalledWith(expect.objectContaining({
+                amount: 1834,
+                original_currency: 'USD',
+                original_amount: 12.34,
+                exchange_rate: 148.62
+            }));
+        });
+
+        test('不正な外貨建ての情報を指定した場合、ValidationErrorをスローすること', async () => {
+            // Arrange
+            const baseData = {
+                card_name: 'テストカード',
+                amount: 1834,
+                datetime_of_use: '2023-12-02T10:00:00Z'
+            };
+
+            // Act & Assert
+            await expect(firestoreCardUsageUseCase.createCardUsage({ ...baseData, original_currency: 'usd' }))
+                .rejects.toThrow(new AppError('original_currencyは3文字の通貨コード（例: USD）を指定してください', ErrorType.VALIDATION));
+            await expect(firestoreCardUsageUseCase.createCardUsage({ ...baseData, exchange_rate: 0 }))
+                .rejects.toThrow(new AppError('exchange_rateは正の数値を指定してください', ErrorType.VALIDATION));
+            expect(mockRepository.save).not.toHaveBeenCalled();
+        });
+
+        test('不正な取引種別を指定した場合、ValidationErrorをスローすること', async () => {
+            // Arrange
+            const cardUsageData = {
+                card_name: 'テストカード',
+                amount: 1000,
+                datetime_of_use: '2023-12-02T10:00:00Z',
+                transaction_type: 'chargeback'
+            };
+
+            // Act & Assert
+            await expect(firestoreCardUsageUseCase.createCardUsage(cardUsageData))
+                .rejects.toThrow(new AppError('transaction_typeはusage, refundのいずれかを指定してください', ErrorType.VALIDATION));
+            expect(mockRepository.save).not.toHaveBeenCalled();
+        });
+
         test('必須フィールドが不足している場合、ValidationErrorをスローすること', async () => {
             // Arrange
             const incompleteData = {
@@ -384,6 +653,74 @@ describe('FirestoreCardUsageUseCase', () => {
             expect(result).toEqual(updatedCardUsage);
         });
 
+        test('利用先を更新する場合は、正規化した利用先もあわせて更新すること', async () => {
+            // Arrange
+            mockRepository.update.mockResolvedValue({ id: '123', path: 'details/2023/12/term1/01/123' } as any);
+            mockMerchantNormalizer.normalize.mockResolvedValue('STEAM GAMES');
+
+            // Act
+            await firestoreCardUsageUseCase.updateCardUsage('123', { where_to_use: 'PAYPAL *STEAM GAMES' });
+
+            // Assert
+            expect(mockRepository.update).toHaveBeenCalledWith('123', {
+                where_to_use: 'PAYPAL *STEAM GAMES',
+                merchant: 'STEAM GAMES'
+            });
+        });
+
+        test('カテゴリを指定した場合は手動で設定したカテゴリとして更新すること', async () => {
+            // Arrange
+            mockRepository.update.mockResolvedValue({ id: '123', path: 'details/2023/12/term1/01/123' } as any);
+
+            // Act
+            await firestoreCardUsageUseCase.updateCardUsage('123', { category: 'dining' });
+
+            // Assert
+            expect(mockCategorizer.hasCategory).toHaveBeenCalledWith('dining');
+            expect(mockRepository.update).toHaveBeenCalledWith('123', {
+                category: 'dining',
+                category_source: 'manual'
+            });
+        });
+
+        test('カテゴリにnullを指定した場合は手動の設定を解除して自動分類のルールで割り当て直すこと', async () => {
+            // Arrange
+            const current = {
+                id: '123',
+                path: 'details/2023/12/term1/01/123',
+                card_name: 'テストカード',
+                amount: 1490,
+                where_to_use: 'NETFLIX.COM',
+                merchant: 'NETFLIX.COM',
+                category: 'dining',
+                category_source: 'manual'
+            };
+            mockRepository.getById.mockResolvedValue(current as any);
+            mockRepository.update.mockResolvedValue(current as any);
+            mockCategorizer.categorize.mockResolvedValue('subscriptions');
+
+            // Act
+            await firestoreCardUsageUseCase.updateCardUsage('123', { category: null, memo: '動画配信' });
+
+            // Assert
+            expect(mockCategorizer.categorize).toHaveBeenCalledWith(expect.objectContaining({
+                merchant: 'NETFLIX.COM',
+                memo: '動画配信'
+            }));
+            expect(mockRepository.update).toHaveBeenCalledWith('123', {
+                memo: '動画配信',
+                category: 'subscriptions',
+                category_source: 'rule'
+            });
+        });
+
+        test('登録されていないカテゴリを指定した場合はバリデーションエラーとなること', async () => {
+            // Act & Assert
+            await expect(firestoreCardUsageUseCase.updateCardUsage('123', { category: 'unknown' }))
+                .rejects.toMatchObject({ type: ErrorType.VALIDATION });
+            expect(mockRepository.update).not.toHaveBeenCalled();
+        });
+
         test('部分的な更新データでも正しく処理されること', async () => {
             // Arrange
             const id = '123';
@@ -438,6 +775,36 @@ describe('FirestoreCardUsageUseCase', () => {
                 .rejects.toThrow(new AppError('IDが必要です', ErrorType.VALIDATION));
         });
 
+        test('状態を更新できること（確認待ちの確定）', async () => {
+            // Arrange
+            const id = '123';
+            mockRepository.update.mockResolvedValue({
+                id,
+                path: 'details/2023/12/term1/01/123',
+                card_name: 'テストカード',
+                amount: 1000,
+                datetime_of_use: Timestamp.now(),
+                where_to_use: 'テスト店舗',
+                is_active: true,
+                created_at: Timestamp.now(),
+                status: 'confirmed'
+            });
+
+            // Act
+            const result = await firestoreCardUsageUseCase.updateCardUsage(id, { status: 'confirmed' });
+
+            // Assert
+            expect(mockRepository.update).toHaveBeenCalledWith(id, { status: 'confirmed' });
+            expect(result.status).toBe('confirmed');
+        });
+
+        test('不正な状態で更新しようとした場合、ValidationErrorをスローすること', async () => {
+            // Act & Assert
+            await expect(firestoreCardUsageUseCase.updateCardUsage('123', { status: 'approved' as CardUsageStatus }))
+                .rejects.toThrow(new AppError('statusはconfirmed, pending_reviewのいずれかを指定してください', ErrorType.VALIDATION));
+            expect(mockRepository.update).not.toHaveBeenCalled();
+        });
+
         test('カード利用情報が見つからない場合、NotFoundErrorをスローすること', async () => {
             // Arrange
             const id = '123';
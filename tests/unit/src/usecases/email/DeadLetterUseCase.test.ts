@@ -0,0 +1,244 @@
+import { DeadLetterUseCase } from '../../../../../src/usecases/email/DeadLetterUseCase';
+import { IDeadLetterRepository } from '../../../../../src/domain/interfaces/infrastructure/database/repositories/IDeadLetterRepository';
+import { IProcessEmailUseCase } from '../../../../../src/domain/interfaces/usecases/email/IProcessEmailUseCase';
+import { INotifyCardUsageUseCase } from '../../../../../src/domain/interfaces/usecases/notification/INotifyCardUsageUseCase';
+import { IEmailParser } from '../../../../../src/domain/interfaces/infrastructure/email/IEmailParser';
+import { ParsedEmail } from '../../../../../src/infrastructure/email/EmailParser';
+import { CardIssuerParserRegistry } from '../../../../../src/infrastructure/email/issuers/CardIssuerParserRegistry';
+import { MufgIssuerParser } from '../../../../../src/infrastructure/email/issuers/MufgIssuerParser';
+import { CardCompany } from '../../../../../src/domain/enums/CardCompany';
+import { DeadLetter } from '../../../../../shared/domain/entities/DeadLetter';
+import { CardUsageNotificationDTO } from '../../../../../shared/domain/dto/CardUsageNotificationDTO';
+import { AppError, ErrorType } from '../../../../../shared/errors/AppError';
+import { logger } from '../../../../../shared/infrastructure/logging/Logger';
+
+// Loggerをモック化
+jest.mock('../../../../../shared/infrastructure/logging/Logger', () => ({
+    logger: {
+        info: jest.fn(),
+        debug: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        logAppError: jest.fn(),
+        updateServiceStatus: jest.fn()
+    }
+}));
+
+// ErrorHandlerをモック化
+jest.mock('../../../../../shared/infrastructure/errors/ErrorHandler', () => ({
+    ErrorHandler: {
+        errorDecorator: () => (
+            _target: any,
+            _propertyKey: string | symbol,
+            descriptor: PropertyDescriptor
+        ) => descriptor,
+        handle: jest.fn()
+    }
+}));
+
+describe('DeadLetterUseCase', () => {
+    let deadLetterUseCase: DeadLetterUseCase;
+    let mockRepository: jest.Mocked<IDeadLetterRepository>;
+    let mockProcessEmailUseCase: jest.Mocked<IProcessEmailUseCase>;
+    let mockNotifyCardUsageUseCase: jest.Mocked<INotifyCardUsageUseCase>;
+    let mockEmailParser: jest.Mocked<IEmailParser>;
+
+    const sampleEmail: ParsedEmail = {
+        uid: '123',
+        messageId: '<123@bk.mufg.jp>',
+        subject: 'デビットカード利用のお知らせ',
+        from: 'notification@bk.mufg.jp',
+        body: 'カード名称：Ｄ　三菱ＵＦＪ－ＪＣＢデビット',
+        date: new Date('2025-05-10T10:00:00.000Z'),
+        source: Buffer.from('raw email source')
+    };
+
+    const sampleDeadLetter: DeadLetter = {
+        id: 'dl-1',
+        status: 'pending',
+        cardCompany: CardCompany.MUFG,
+        uid: '123',
+        subject: sampleEmail.subject,
+        from: sampleEmail.from,
+        receivedAt: '2025-05-10T10:00:00.000Z',
+        body: sampleEmail.body,
+        rawSource: Buffer.from('raw email source').toString('base64'),
+        error: { message: '抽出エラー', type: ErrorType.VALIDATION, details: null },
+        retryCount: 0,
+        resolvedPaths: [],
+        createdAt: '2025-05-10T10:00:01.000Z',
+        updatedAt: '2025-05-10T10:00:01.000Z'
+    };
+
+    const sampleUsageResult = {
+        usage: { card_name: 'テストカード', amount: 1500 } as CardUsageNotificationDTO,
+        savedPath: 'details/2025/05/term2/10/1'
+    };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+
+        mockRepository = {
+            save: jest.fn().mockImplementation(async (input) => ({ ...sampleDeadLetter, ...input })),
+            getById: jest.fn().mockResolvedValue(sampleDeadLetter),
+            findAll: jest.fn().mockResolvedValue([sampleDeadLetter]),
+            update: jest.fn().mockResolvedValue(undefined)
+        };
+
+        mockProcessEmailUseCase = {
+            execute: jest.fn().mockResolvedValue([sampleUsageResult]),
+            executeTest: jest.fn()
+        };
+
+        mockNotifyCardUsageUseCase = {
+            notifyUsage: jest.fn().mockResolvedValue(undefined)
+        };
+
+        mockEmailParser = {
+            parseEmail: jest.fn().mockResolvedValue(sampleEmail)
+        } as unknown as jest.Mocked<IEmailParser>;
+
+        const registry = new CardIssuerParserRegistry();
+        registry.register(new MufgIssuerParser());
+
+        deadLetterUseCase = new DeadLetterUseCase(
+            mockRepository,
+            mockProcessEmailUseCase,
+            mockNotifyCardUsageUseCase,
+            registry,
+            mockEmailParser
+        );
+    });
+
+    describe('record', () => {
+        test('正常系: 元のメールとエラー情報を保存し、Discordに通知すること', async () => {
+            const error = new AppError('抽出結果が不完全です', ErrorType.VALIDATION, { invalidFields: ['amount'], extra: undefined });
+
+            await deadLetterUseCase.record(sampleEmail, CardCompany.MUFG, error);
+
+            expect(mockRepository.save).toHaveBeenCalledWith({
+                cardCompany: CardCompany.MUFG,
+                uid: '123',
+                subject: sampleEmail.subject,
+                from: sampleEmail.from,
+                receivedAt: '2025-05-10T10:00:00.000Z',
+                body: sampleEmail.body,
+                rawSource: sampleEmail.source!.toString('base64'),
+                // undefinedの値は保存されない
+                error: { message: '抽出結果が不完全です', type: ErrorType.VALIDATION, details: { invalidFields: ['amount'] } }
+            });
+            expect(logger.warn).toHaveBeenCalledWith(
+                expect.stringContaining('ID: dl-1'),
+                'DeadLetterUseCase',
+                expect.objectContaining({ notify: true })
+            );
+        });
+
+        test('正常系: 元のメールがない場合やAppError以外のエラーも保存できること', async () => {
+            await deadLetterUseCase.record({ ...sampleEmail, source: undefined }, null, new Error('予期しないエラー'));
+
+            expect(mockRepository.save).toHaveBeenCalledWith(expect.objectContaining({
+                cardCompany: null,
+                rawSource: '',
+                error: { message: '予期しないエラー', type: ErrorType.GENERAL, details: null }
+            }));
+        });
+    });
+
+    describe('getDeadLetter', () => {
+        test('異常系: 存在しない場合、NOT_FOUNDエラーがスローされること', async () => {
+            mockRepository.getById.mockResolvedValueOnce(null);
+
+            await expect(deadLetterUseCase.getDeadLetter('unknown'))
+                .rejects.toMatchObject({ type: ErrorType.NOT_FOUND });
+        });
+    });
+
+    describe('getDeadLetters', () => {
+        test('正常系: 状態を指定して一覧を取得できること', async () => {
+            const result = await deadLetterUseCase.getDeadLetters('pending');
+
+            expect(result).toEqual([sampleDeadLetter]);
+            expect(mockRepository.findAll).toHaveBeenCalledWith('pending');
+        });
+    });
+
+    describe('retry', () => {
+        test('正常系: 元のメールを再解析して保存・通知し、解決済みにすること', async () => {
+            const result = await deadLetterUseCase.retry('dl-1');
+
+            expect(mockEmailParser.parseEmail).toHaveBeenCalledWith({
+                uid: '123',
+                source: Buffer.from('raw email source')
+            });
+            expect(mockProcessEmailUseCase.execute).toHaveBeenCalledWith(sampleEmail.body, CardCompany.MUFG, '<123@bk.mufg.jp>');
+            expect(mockNotifyCardUsageUseCase.notifyUsage).toHaveBeenCalledWith(sampleUsageResult.usage);
+            expect(mockRepository.update).toHaveBeenCalledWith('dl-1', expect.objectContaining({
+                status: 'resolved',
+                retryCount: 1,
+                resolvedPaths: ['details/2025/05/term2/10/1']
+            }));
+            expect(result.deadLetter.status).toBe('resolved');
+            expect(result.usageResults).toEqual([sampleUsageResult]);
+        });
+
+        test('正常系: カード会社を判定できない場合は登録時のカード会社で再処理すること', async () => {
+            mockEmailParser.parseEmail.mockResolvedValueOnce({
+                ...sampleEmail,
+                from: 'other@example.com',
+                subject: 'お知らせ',
+                body: '利用明細'
+            });
+            mockRepository.getById.mockResolvedValueOnce({ ...sampleDeadLetter, cardCompany: 'JCB' });
+
+            await deadLetterUseCase.retry('dl-1');
+
+            expect(mockProcessEmailUseCase.execute).toHaveBeenCalledWith('利用明細', 'JCB', '<123@bk.mufg.jp>');
+        });
+
+        test('正常系: 元のメールがない場合は登録時の本文で再処理すること', async () => {
+            mockRepository.getById.mockResolvedValueOnce({ ...sampleDeadLetter, rawSource: '' });
+
+            await deadLetterUseCase.retry('dl-1');
+
+            expect(mockEmailParser.parseEmail).not.toHaveBeenCalled();
+            expect(mockProcessEmailUseCase.execute).toHaveBeenCalledWith(sampleDeadLetter.body, CardCompany.MUFG, undefined);
+        });
+
+        test('異常系: 再処理に失敗した場合、試行回数とエラーを更新して例外がスローされること', async () => {
+            mockProcessEmailUseCase.execute.mockRejectedValueOnce(new AppError('保存エラー', ErrorType.FIREBASE));
+
+            await expect(deadLetterUseCase.retry('dl-1')).rejects.toThrow('保存エラー');
+
+            expect(mockRepository.update).toHaveBeenCalledWith('dl-1', expect.objectContaining({
+                retryCount: 1,
+                error: { message: '保存エラー', type: ErrorType.FIREBASE, details: null }
+            }));
+            expect(mockNotifyCardUsageUseCase.notifyUsage).not.toHaveBeenCalled();
+        });
+
+        test('異常系: 解決済みのデッドレターは再処理できないこと', async () => {
+            mockRepository.getById.mockResolvedValueOnce({ ...sampleDeadLetter, status: 'resolved' });
+
+            await expect(deadLetterUseCase.retry('dl-1'))
+                .rejects.toMatchObject({ type: ErrorType.VALIDATION });
+            expect(mockProcessEmailUseCase.execute).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('discard', () => {
+        test('正常系: デッドレターを破棄済みにすること', async () => {
+            const result = await deadLetterUseCase.discard('dl-1');
+
+            expect(result.status).toBe('discarded');
+            expect(mockRepository.update).toHaveBeenCalledWith('dl-1', expect.objectContaining({ status: 'discarded' }));
+        });
+
+        test('異常系: 破棄済みのデッドレターは再度破棄できないこと', async () => {
+            mockRepository.getById.mockResolvedValueOnce({ ...sampleDeadLetter, status: 'discarded' });
+
+            await expect(deadLetterUseCase.discard('dl-1'))
+                .rejects.toThrow('デッドレターは既に破棄されています: dl-1');
+        });
+    });
+});
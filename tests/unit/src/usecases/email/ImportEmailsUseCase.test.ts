@@ -0,0 +1,215 @@
+import { ImportEmailsUseCase } from '../../../../../src/usecases/email/ImportEmailsUseCase';
+import { IProcessCardCompanyEmailUseCase } from '../../../../../src/domain/interfaces/usecases/email/IProcessCardCompanyEmailUseCase';
+import { ICardIssuerParserRegistry } from '../../../../../src/domain/interfaces/infrastructure/email/ICardIssuerParserRegistry';
+import { ICardIssuerParser } from '../../../../../src/domain/interfaces/infrastructure/email/ICardIssuerParser';
+import { IEmailParser } from '../../../../../src/domain/interfaces/infrastructure/email/IEmailParser';
+import { IEmailArchiveReader } from '../../../../../src/domain/interfaces/infrastructure/email/IEmailArchiveReader';
+import { ParsedEmail } from '../../../../../src/infrastructure/email/EmailParser';
+import { RawEmailMessage } from '../../../../../src/infrastructure/email/ImapEmailClient';
+import { CardCompany } from '../../../../../src/domain/enums/CardCompany';
+import { CardUsageNotificationDTO } from '../../../../../shared/domain/dto/CardUsageNotificationDTO';
+
+// Loggerをモック化
+jest.mock('../../../../../shared/infrastructure/logging/Logger', () => ({
+    logger: {
+        info: jest.fn(),
+        debug: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        logAppError: jest.fn(),
+        updateServiceStatus: jest.fn()
+    }
+}));
+
+// ErrorHandlerをモック化
+jest.mock('../../../../../shared/infrastructure/errors/ErrorHandler', () => ({
+    ErrorHandler: {
+        errorDecorator: () => (
+            _target: any,
+            _propertyKey: string | symbol,
+            descriptor: PropertyDescriptor
+        ) => descriptor,
+        handle: jest.fn()
+    }
+}));
+
+describe('ImportEmailsUseCase', () => {
+    let useCase: ImportEmailsUseCase;
+    let mockProcessCardCompanyEmailUseCase: jest.Mocked<IProcessCardCompanyEmailUseCase>;
+    let mockParserRegistry: jest.Mocked<ICardIssuerParserRegistry>;
+    let mockParser: jest.Mocked<ICardIssuerParser>;
+    let mockEmailParser: jest.Mocked<IEmailParser>;
+    let mockArchiveReader: jest.Mocked<IEmailArchiveReader>;
+
+    const createEmail = (message: RawEmailMessage): ParsedEmail => ({
+        uid: message.uid,
+        subject: 'デビットカード利用のお知らせ',
+        from: 'notification@bk.mufg.jp',
+        body: 'カード利用のお知らせ',
+        date: new Date('2025-05-10T03:30:00.000Z'),
+        source: message.source
+    });
+
+    const messages: RawEmailMessage[] = [
+        { uid: 'import:mail.mbox#1', source: Buffer.from('message1') },
+    ];
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+
+        mockProcessCardCompanyEmailUseCase = {
+            execute: jest.fn().mockResolvedValue({
+                cardCompany: CardCompany.MUFG,
+                usageResults: [{
+                    usage: { card_name: 'テストカード', amount: 1500 } as CardUsageNotificationDTO,
+                    savedPath: 'details/2025/05/term2/10/1746847800000'
+                }]
+            })
+        };
+
+        mockParser = {
+            cardCompany: CardCompany.MUFG
+        } as unknown as jest.Mocked<ICardIssuerParser>;
+
+        mockParserRegistry = {
+            detect: jest.fn().mockReturnValue(mockParser)
+        } as unknown as jest.Mocked<ICardIssuerParserRegistry>;
+
+        mockEmailParser = {
+            parseEmail: jest.fn().mockImplementation(async (message: RawEmailMessage) => createEmail(message))
+        };
+
+        mockArchiveReader = {
+            read: jest.fn().mockReturnValue(messages)
+        };
+
+        useCase = new ImportEmailsUseCase(
+            mockProcessCardCompanyEmailUseCase,
+            mockParserRegistry,
+            mockEmailParser,
+            mockArchiveReader
+        );
+    });
+
+    test('正常系: 未登録の利用明細を含むメールを登録し、結果を集計すること', async () => {
+        const content = Buffer.from('archive');
+
+        const result = await useCase.execute([{ name: 'mail.mbox', content }]);
+
+        expect(mockArchiveReader.read).toHaveBeenCalledWith(content, 'mail.mbox');
+        expect(mockProcessCardCompanyEmailUseCase.execute).toHaveBeenCalledWith(
+            expect.objectContaining({ uid: 'import:mail.mbox#1' }),
+            { imported: true }
+        );
+        expect(result).toEqual({
+            total: 1,
+            created: 1,
+            skipped: 0,
+            failed: 0,
+            items: [{
+                source: 'import:mail.mbox#1',
+                subject: 'デビットカード利用のお知らせ',
+                receivedAt: '2025-05-10T03:30:00.000Z',
+                status: 'created',
+                cardCompany: CardCompany.MUFG,
+                savedPaths: ['details/2025/05/term2/10/1746847800000']
+            }]
+        });
+    });
+
+    test('正常系: すべての明細が登録済みの利用明細と重複するメールはスキップとすること', async () => {
+        mockProcessCardCompanyEmailUseCase.execute.mockResolvedValue({
+            cardCompany: CardCompany.MUFG,
+            usageResults: []
+        });
+
+        const result = await useCase.execute([{ name: 'mail.mbox', content: Buffer.from('archive') }]);
+
+        expect(result.skipped).toBe(1);
+        expect(result.items[0]).toEqual(expect.objectContaining({
+            status: 'skipped',
+            cardCompany: CardCompany.MUFG,
+            reason: '登録済みの利用明細と重複するため登録しませんでした'
+        }));
+    });
+
+    test('正常系: 登録済みの明細を含むメールもメールごとにはスキップせず、未登録の明細を登録すること', async () => {
+        // 2件の明細のうち1件は登録済みとして保存時の重複の確認でスキップされた
+        mockProcessCardCompanyEmailUseCase.execute.mockResolvedValue({
+            cardCompany: CardCompany.MUFG,
+            usageResults: [{
+                usage: { card_name: 'テストカード', amount: 2500 } as CardUsageNotificationDTO,
+                savedPath: 'details/2025/05/term2/10/1746847800001'
+            }]
+        });
+
+        const result = await useCase.execute([{ name: 'mail.mbox', content: Buffer.from('archive') }]);
+
+        expect(mockProcessCardCompanyEmailUseCase.execute).toHaveBeenCalledTimes(1);
+        expect(result.created).toBe(1);
+        expect(result.items[0]).toEqual(expect.objectContaining({
+            status: 'created',
+            savedPaths: ['details/2025/05/term2/10/1746847800001']
+        }));
+    });
+
+    test('正常系: カード会社を特定できないメールはスキップすること', async () => {
+        mockParserRegistry.detect.mockReturnValue(null);
+
+        const result = await useCase.execute([{ name: 'mail.mbox', content: Buffer.from('archive') }]);
+
+        expect(mockProcessCardCompanyEmailUseCase.execute).not.toHaveBeenCalled();
+        expect(result.items[0]).toEqual(expect.objectContaining({
+            status: 'skipped',
+            cardCompany: null,
+            reason: 'カード会社を特定できないメールです'
+        }));
+    });
+
+    test('異常系: 解析できないメールは失敗として記録し、処理を継続すること', async () => {
+        mockArchiveReader.read.mockReturnValue([
+            { uid: 'import:mail.mbox#1', source: Buffer.from('broken') },
+            { uid: 'import:mail.mbox#2', source: Buffer.from('message2') },
+        ]);
+        mockEmailParser.parseEmail.mockResolvedValueOnce(null);
+
+        const result = await useCase.execute([{ name: 'mail.mbox', content: Buffer.from('archive') }]);
+
+        expect(result).toEqual(expect.objectContaining({ total: 2, created: 1, failed: 1 }));
+        expect(result.items[0]).toEqual({
+            source: 'import:mail.mbox#1',
+            status: 'failed',
+            cardCompany: null,
+            reason: 'メールを解析できませんでした'
+        });
+    });
+
+    test('異常系: 保存できずデッドレターに登録されたメールは失敗としてデッドレターIDを返すこと', async () => {
+        mockProcessCardCompanyEmailUseCase.execute.mockResolvedValue({
+            cardCompany: CardCompany.MUFG,
+            usageResults: [],
+            deadLetterId: 'dl-1'
+        });
+
+        const result = await useCase.execute([{ name: 'mail.mbox', content: Buffer.from('archive') }]);
+
+        expect(mockProcessCardCompanyEmailUseCase.execute).toHaveBeenCalled();
+        expect(result.items[0]).toEqual(expect.objectContaining({
+            status: 'failed',
+            cardCompany: CardCompany.MUFG,
+            deadLetterId: 'dl-1'
+        }));
+    });
+
+    test('異常系: 処理中にエラーが発生したメールは失敗として理由を返すこと', async () => {
+        mockProcessCardCompanyEmailUseCase.execute.mockRejectedValue(new Error('Firestoreエラー'));
+
+        const result = await useCase.execute([{ name: 'mail.mbox', content: Buffer.from('archive') }]);
+
+        expect(result.failed).toBe(1);
+        expect(result.items[0]).toEqual(expect.objectContaining({
+            status: 'failed',
+            reason: 'Firestoreエラー'
+        }));
+    });
+});
@@ -0,0 +1,215 @@
+import { PreviewEmailParseUseCase } from '../../../../../src/usecases/email/PreviewEmailParseUseCase';
+import { ICardIssuerParserRegistry } from '../../../../../src/domain/interfaces/infrastructure/email/ICardIssuerParserRegistry';
+import { ICardIssuerParser } from '../../../../../src/domain/interfaces/infrastructure/email/ICardIssuerParser';
+import { ICardUsageValidator } from '../../../../../src/domain/interfaces/infrastructure/email/ICardUsageValidator';
+import { IEmailParser } from '../../../../../src/domain/interfaces/infrastructure/email/IEmailParser';
+import { CardCompany } from '../../../../../src/domain/enums/CardCompany';
+import { CardUsage, ExtractionValidation } from '../../../../../shared/domain/entities/CardUsage';
+import { AppError, ErrorType } from '../../../../../shared/errors/AppError';
+
+// Loggerをモック化
+jest.mock('../../../../../shared/infrastructure/logging/Logger', () => ({
+    logger: {
+        info: jest.fn(),
+        debug: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        logAppError: jest.fn(),
+        updateServiceStatus: jest.fn()
+    }
+}));
+
+// ErrorHandlerをモック化
+jest.mock('../../../../../shared/infrastructure/errors/ErrorHandler', () => ({
+    ErrorHandler: {
+        errorDecorator: () => (
+            _target: any,
+            _propertyKey: string | symbol,
+            descriptor: PropertyDescriptor
+        ) => descriptor,
+        handle: jest.fn()
+    }
+}));
+
+describe('PreviewEmailParseUseCase', () => {
+    let useCase: PreviewEmailParseUseCase;
+    let mockParserRegistry: jest.Mocked<ICardIssuerParserRegistry>;
+    let mufgParser: jest.Mocked<ICardIssuerParser>;
+    let smbcParser: jest.Mocked<ICardIssuerParser>;
+    let mockValidator: jest.Mocked<ICardUsageValidator>;
+    let mockEmailParser: jest.Mocked<IEmailParser>;
+
+    const cardUsage: CardUsage = {
+        card_name: 'テストカード',
+        datetime_of_use: { toDate: () => new Date('2025-05-10T03:30:00.000Z') } as any,
+        amount: 1500,
+        where_to_use: 'テストストア',
+        created_at: { toDate: () => new Date() } as any,
+    };
+
+    const createValidation = (confidence: number): ExtractionValidation => ({
+        confidence,
+        fields: { card_name: 1, datetime_of_use: confidence, amount: 1, where_to_use: 1 },
+        issues: confidence < 1 ? [{ field: 'datetime_of_use', message: '利用日時を取得できませんでした' }] : [],
+    });
+
+    const createParser = (cardCompany: CardCompany): jest.Mocked<ICardIssuerParser> => ({
+        cardCompany,
+        displayName: cardCompany,
+        mailboxName: cardCompany,
+        detectionRules: { senders: [], subjectKeywords: [], bodyKeywords: [] },
+        sampleFixtures: [],
+        detect: jest.fn().mockReturnValue({ matched: false, matchedBy: null, matchedRules: [] }),
+        extract: jest.fn().mockReturnValue([cardUsage]),
+    } as unknown as jest.Mocked<ICardIssuerParser>);
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+
+        mufgParser = createParser(CardCompany.MUFG);
+        mufgParser.detect.mockReturnValue({ matched: true, matchedBy: 'sender', matchedRules: ['sender:mufg.jp'] });
+        smbcParser = createParser(CardCompany.SMBC);
+
+        mockParserRegistry = {
+            register: jest.fn(),
+            replace: jest.fn(),
+            unregister: jest.fn(),
+            get: jest.fn((cardCompany: CardCompany) =>
+                [mufgParser, smbcParser].find((parser) => parser.cardCompany === cardCompany)),
+            getAll: jest.fn().mockReturnValue([mufgParser, smbcParser]),
+            detect: jest.fn().mockReturnValue(mufgParser),
+        };
+
+        mockValidator = {
+            validate: jest.fn().mockReturnValue(createValidation(1)),
+        };
+
+        mockEmailParser = {
+            parseEmail: jest.fn().mockResolvedValue({
+                uid: 'preview',
+                subject: 'デビットカード利用のお知らせ',
+                from: 'notification@bk.mufg.jp',
+                body: 'カード利用のお知らせ',
+                date: new Date(),
+            }),
+        };
+
+        useCase = new PreviewEmailParseUseCase(mockParserRegistry, mockValidator, 0.8, mockEmailParser);
+    });
+
+    describe('execute', () => {
+        test('正常系: 元のメールからカード会社を判定し、抽出結果と検証結果を返すこと', async () => {
+            const source = Buffer.from('raw email');
+
+            const result = await useCase.execute({ source });
+
+            expect(mockEmailParser.parseEmail).toHaveBeenCalledWith({ uid: 'preview', source });
+            expect(mufgParser.extract).toHaveBeenCalledWith('カード利用のお知らせ');
+            expect(mockValidator.validate).toHaveBeenCalledWith(cardUsage, 'カード利用のお知らせ');
+            expect(result).toEqual({
+                subject: 'デビットカード利用のお知らせ',
+                from: 'notification@bk.mufg.jp',
+                cardCompany: CardCompany.MUFG,
+                resolvedBy: 'sender',
+                detections: [
+                    {
+                        cardCompany: CardCompany.MUFG,
+                        matched: true,
+                        matchedBy: 'sender',
+                        matchedRules: ['sender:mufg.jp'],
+                    },
+                ],
+                usages: [
+                    {
+                        usage: {
+                            card_name: 'テストカード',
+                            datetime_of_use: '2025-05-10T03:30:00.000Z',
+                            amount: 1500,
+                            where_to_use: 'テストストア',
+                        },
+                        validation: createValidation(1),
+                        status: 'confirmed',
+                    },
+                ],
+            });
+        });
+
+        test('正常系: 本文が指定された場合は件名・送信元とあわせて判定に使用すること', async () => {
+            await useCase.execute({ body: '本文', subject: '件名', from: 'sender@example.com' });
+
+            expect(mockEmailParser.parseEmail).not.toHaveBeenCalled();
+            expect(mockParserRegistry.detect).toHaveBeenCalledWith({
+                subject: '件名',
+                from: 'sender@example.com',
+                body: '本文',
+            });
+            expect(mufgParser.extract).toHaveBeenCalledWith('本文');
+        });
+
+        test('正常系: カード会社が指定された場合は判定によらず指定されたパーサーで抽出すること', async () => {
+            const result = await useCase.execute({ body: '本文', cardCompany: CardCompany.SMBC });
+
+            expect(smbcParser.extract).toHaveBeenCalledWith('本文');
+            expect(mufgParser.extract).not.toHaveBeenCalled();
+            expect(result.cardCompany).toBe(CardCompany.SMBC);
+            expect(result.resolvedBy).toBe('hint');
+            // 判定結果は指定の有無によらず返す
+            expect(result.detections.map((detection) => detection.cardCompany)).toEqual([CardCompany.MUFG]);
+        });
+
+        test('正常系: 信頼度がしきい値未満の明細は確認待ちとなること', async () => {
+            mockValidator.validate.mockReturnValue(createValidation(0.5));
+
+            const result = await useCase.execute({ body: '本文' });
+
+            expect(result.usages[0].status).toBe('pending_review');
+            expect(result.usages[0].validation.issues).toEqual([
+                { field: 'datetime_of_use', message: '利用日時を取得できませんでした' },
+            ]);
+        });
+
+        test('正常系: カード会社を特定できない場合は抽出を行わずに判定結果のみを返すこと', async () => {
+            mockParserRegistry.detect.mockReturnValue(null);
+            mufgParser.detect.mockReturnValue({ matched: false, matchedBy: null, matchedRules: [] });
+
+            const result = await useCase.execute({ body: '本文' });
+
+            expect(result).toEqual({
+                subject: '',
+                from: '',
+                cardCompany: null,
+                resolvedBy: null,
+                detections: [],
+                usages: [],
+            });
+        });
+
+        test('正常系: 抽出に失敗した場合はエラーメッセージを結果に含めること', async () => {
+            mufgParser.extract.mockImplementation(() => {
+                throw new AppError('利用金額が見つかりません', ErrorType.VALIDATION);
+            });
+
+            const result = await useCase.execute({ body: '本文' });
+
+            expect(result.cardCompany).toBe(CardCompany.MUFG);
+            expect(result.usages).toEqual([]);
+            expect(result.error).toBe('利用金額が見つかりません');
+        });
+
+        test('異常系: 未対応のカード会社が指定された場合はエラーをスローすること', async () => {
+            await expect(useCase.execute({ body: '本文', cardCompany: 'UNKNOWN' }))
+                .rejects.toThrow('未対応のカード会社です: UNKNOWN');
+        });
+
+        test('異常系: メールを解析できない場合はエラーをスローすること', async () => {
+            mockEmailParser.parseEmail.mockResolvedValue(null);
+
+            await expect(useCase.execute({ source: Buffer.from('broken') }))
+                .rejects.toThrow('メールを解析できませんでした');
+        });
+
+        test('異常系: 元のメールも本文も指定されていない場合はエラーをスローすること', async () => {
+            await expect(useCase.execute({})).rejects.toThrow('元のメールまたはメール本文を指定してください');
+        });
+    });
+});
@@ -3,6 +3,10 @@ import { ProcessEmailUseCase } from '../../../../../src/usecases/email/ProcessEm
 import { ParsedEmail } from '../../../../../src/infrastructure/email/EmailParser';
 import { CardUsageNotificationDTO } from '../../../../../shared/domain/dto/CardUsageNotificationDTO';
 import { CardCompany } from '../../../../../src/domain/enums/CardCompany';
+import { CardIssuerParserRegistry } from '../../../../../src/infrastructure/email/issuers/CardIssuerParserRegistry';
+import { MufgIssuerParser } from '../../../../../src/infrastructure/email/issuers/MufgIssuerParser';
+import { SmbcIssuerParser } from '../../../../../src/infrastructure/email/issuers/SmbcIssuerParser';
+import { IDeadLetterUseCase } from '../../../../../src/domain/interfaces/usecases/email/IDeadLetterUseCase';
 
 // Loggerをモック化
 jest.mock('../../../../../shared/infrastructure/logging/Logger', () => ({
@@ -32,10 +36,12 @@ jest.mock('../../../../../shared/infrastructure/errors/ErrorHandler', () => ({
 describe('ProcessCardCompanyEmailUseCase', () => {
     let processCardCompanyEmailUseCase: ProcessCardCompanyEmailUseCase;
     let mockProcessEmailUseCase: jest.Mocked<ProcessEmailUseCase>;
+    let mockDeadLetterUseCase: jest.Mocked<IDeadLetterUseCase>;
 
     // テスト用のサンプルデータ
     const sampleMufgEmail: ParsedEmail = {
         uid: '123',
+        messageId: '<123@bk.mufg.jp>',
         subject: 'デビットカード利用のお知らせ',
         from: 'notification@bk.mufg.jp',
         body: `
@@ -86,12 +92,23 @@ describe('ProcessCardCompanyEmailUseCase', () => {
 
         // モックの設定
         mockProcessEmailUseCase = {
-            execute: jest.fn().mockResolvedValue(sampleCardUsageResult)
+            execute: jest.fn().mockResolvedValue([sampleCardUsageResult])
         } as unknown as jest.Mocked<ProcessEmailUseCase>;
 
+        mockDeadLetterUseCase = {
+            record: jest.fn().mockResolvedValue({ id: 'dead-letter-1' })
+        } as unknown as jest.Mocked<IDeadLetterUseCase>;
+
+        // カード会社パーサーのレジストリを作成
+        const registry = new CardIssuerParserRegistry();
+        registry.register(new MufgIssuerParser());
+        registry.register(new SmbcIssuerParser());
+
         // ProcessCardCompanyEmailUseCaseのインスタンスを作成
         processCardCompanyEmailUseCase = new ProcessCardCompanyEmailUseCase(
-            mockProcessEmailUseCase
+            mockProcessEmailUseCase,
+            registry,
+            mockDeadLetterUseCase
         );
     });
 
@@ -102,12 +119,14 @@ describe('ProcessCardCompanyEmailUseCase', () => {
 
             // 結果を検証
             expect(result.cardCompany).toBe(CardCompany.MUFG);
-            expect(result.usageResult).toEqual(sampleCardUsageResult);
+            expect(result.usageResults).toEqual([sampleCardUsageResult]);
 
             // ProcessEmailUseCase.executeが正しい引数で呼ばれることを確認
             expect(mockProcessEmailUseCase.execute).toHaveBeenCalledWith(
                 sampleMufgEmail.body,
-                CardCompany.MUFG
+                CardCompany.MUFG,
+                '<123@bk.mufg.jp>',
+                {}
             );
         });
 
@@ -117,12 +136,25 @@ describe('ProcessCardCompanyEmailUseCase', () => {
 
             // 結果を検証
             expect(result.cardCompany).toBe(CardCompany.SMBC);
-            expect(result.usageResult).toEqual(sampleCardUsageResult);
+            expect(result.usageResults).toEqual([sampleCardUsageResult]);
 
             // ProcessEmailUseCase.executeが正しい引数で呼ばれることを確認
             expect(mockProcessEmailUseCase.execute).toHaveBeenCalledWith(
                 sampleSmbcEmail.body,
-                CardCompany.SMBC
+                CardCompany.SMBC,
+                undefined,
+                {}
+            );
+        });
+
+        test('正常系: メール処理のオプションをそのまま渡すこと', async () => {
+            await processCardCompanyEmailUseCase.execute(sampleMufgEmail, { imported: true });
+
+            expect(mockProcessEmailUseCase.execute).toHaveBeenCalledWith(
+                sampleMufgEmail.body,
+                CardCompany.MUFG,
+                '<123@bk.mufg.jp>',
+                { imported: true }
             );
         });
 
@@ -132,21 +164,34 @@ describe('ProcessCardCompanyEmailUseCase', () => {
 
             // 結果を検証
             expect(result.cardCompany).toBeNull();
-            expect(result.usageResult).toBeUndefined();
+            expect(result.usageResults).toBeUndefined();
 
             // ProcessEmailUseCase.executeが呼ばれないことを確認
             expect(mockProcessEmailUseCase.execute).not.toHaveBeenCalled();
         });
 
-        test('異常系: ProcessEmailUseCase.executeでエラーが発生した場合、例外がスローされること', async () => {
-            // エラーをスローするように設定
-            mockProcessEmailUseCase.execute.mockRejectedValueOnce(
-                new Error('処理エラー')
-            );
+        test('異常系: ProcessEmailUseCase.executeでエラーが発生した場合、デッドレターに登録されること', async () => {
+            const error = new Error('処理エラー');
+            mockProcessEmailUseCase.execute.mockRejectedValueOnce(error);
+
+            const result = await processCardCompanyEmailUseCase.execute(sampleMufgEmail);
+
+            // 元のメールと判定したカード会社、エラーがデッドレターに渡されることを確認
+            expect(mockDeadLetterUseCase.record).toHaveBeenCalledWith(sampleMufgEmail, CardCompany.MUFG, error);
+            expect(result).toEqual({
+                cardCompany: CardCompany.MUFG,
+                usageResults: [],
+                deadLetterId: 'dead-letter-1'
+            });
+        });
+
+        test('異常系: デッドレターの登録にも失敗した場合、例外がスローされること', async () => {
+            mockProcessEmailUseCase.execute.mockRejectedValueOnce(new Error('処理エラー'));
+            mockDeadLetterUseCase.record.mockRejectedValueOnce(new Error('登録エラー'));
 
             // 例外がスローされることを確認（ErrorHandler.errorDecoratorによってハンドリングされるが、テストではモック化しているため素のエラーがスローされる）
             await expect(processCardCompanyEmailUseCase.execute(sampleMufgEmail))
-                .rejects.toThrow('処理エラー');
+                .rejects.toThrow('登録エラー');
         });
     });
 
@@ -4,6 +4,12 @@ import { ICardUsageCrudRepository } from '../../../../../src/domain/interfaces/i
 import { DiscordNotifier } from '../../../../../shared/infrastructure/discord/DiscordNotifier';
 import { CardUsageNotificationDTO } from '../../../../../shared/domain/dto/CardUsageNotificationDTO';
 import { CardCompany } from '../../../../../src/domain/enums/CardCompany';
+import { ICardUsageValidator } from '../../../../../src/domain/interfaces/infrastructure/email/ICardUsageValidator';
+import { ExtractionValidation } from '../../../../../shared/domain/entities/CardUsage';
+import { logger } from '../../../../../shared/infrastructure/logging/Logger';
+import { ICardUsageDuplicateUseCase } from '../../../../../src/domain/interfaces/usecases/database/ICardUsageDuplicateUseCase';
+import { IMerchantNormalizer } from '../../../../../src/domain/interfaces/infrastructure/merchant/IMerchantNormalizer';
+import { ICardUsageCategorizer } from '../../../../../src/domain/interfaces/infrastructure/category/ICardUsageCategorizer';
 
 // 依存コンポーネントをモック化
 jest.mock('../../../../../src/infrastructure/email/ImapEmailService');
@@ -79,6 +85,16 @@ describe('ProcessEmailUseCase', () => {
     let mockEmailService: jest.Mocked<ImapEmailService>;
     let mockCardUsageRepository: jest.Mocked<ICardUsageCrudRepository>;
     let mockDiscordNotifier: jest.Mocked<DiscordNotifier>;
+    let mockCardUsageValidator: jest.Mocked<ICardUsageValidator>;
+    let mockDuplicateUseCase: jest.Mocked<ICardUsageDuplicateUseCase>;
+    let mockMerchantNormalizer: jest.Mocked<IMerchantNormalizer>;
+    let mockCategorizer: jest.Mocked<ICardUsageCategorizer>;
+
+    const fullConfidence: ExtractionValidation = {
+        confidence: 1,
+        fields: { card_name: 1, datetime_of_use: 1, amount: 1, where_to_use: 1 },
+        issues: []
+    };
 
     // テスト用のサンプルデータ
     const sampleEmailBody = `カード名称：Ｄ　三菱ＵＦＪ－ＪＣＢデビット
@@ -102,7 +118,7 @@ describe('ProcessEmailUseCase', () => {
 
         // モックの設定
         mockEmailService = {
-            parseCardUsageFromEmail: jest.fn().mockResolvedValue(sampleCardUsage)
+            parseCardUsagesFromEmail: jest.fn().mockResolvedValue([sampleCardUsage])
         } as unknown as jest.Mocked<ImapEmailService>;
 
         mockCardUsageRepository = {
@@ -113,10 +129,39 @@ describe('ProcessEmailUseCase', () => {
             notify: jest.fn().mockResolvedValue(true)
         } as unknown as jest.Mocked<DiscordNotifier>;
 
+        mockCardUsageValidator = {
+            validate: jest.fn().mockReturnValue(fullConfidence)
+        };
+
+        // 重複がない場合はそのまま保存する
+        mockDuplicateUseCase = {
+            check: jest.fn().mockImplementation(async (cardUsage) => ({ cardUsage, duplicateOf: null, skip: false })),
+            getDuplicates: jest.fn(),
+            merge: jest.fn()
+        };
+
+        // 利用先はそのまま正規化後の利用先とする
+        mockMerchantNormalizer = {
+            normalize: jest.fn().mockImplementation(async (whereToUse) => whereToUse)
+        };
+
+        // どのルールにも一致しない場合は未分類とする
+        mockCategorizer = {
+            categorize: jest.fn().mockResolvedValue('uncategorized'),
+            getRules: jest.fn(),
+            match: jest.fn(),
+            hasCategory: jest.fn()
+        };
+
         // ProcessEmailUseCaseのインスタンスを作成 (discordNotifierを除去)
         processEmailUseCase = new ProcessEmailUseCase(
             mockEmailService,
-            mockCardUsageRepository
+            mockCardUsageRepository,
+            mockCardUsageValidator,
+            0.6,
+            mockDuplicateUseCase,
+            mockMerchantNormalizer,
+            mockCategorizer
         );
     });
 
@@ -125,8 +170,8 @@ describe('ProcessEmailUseCase', () => {
             // メソッドを実行
             const result = await processEmailUseCase.execute(sampleEmailBody, CardCompany.MUFG);
 
-            // emailServiceのparseCardUsageFromEmailが呼ばれることを確認
-            expect(mockEmailService.parseCardUsageFromEmail).toHaveBeenCalledWith(
+            // emailServiceのparseCardUsagesFromEmailが呼ばれることを確認
+            expect(mockEmailService.parseCardUsagesFromEmail).toHaveBeenCalledWith(
                 sampleEmailBody,
                 CardCompany.MUFG
             );
@@ -137,20 +182,50 @@ describe('ProcessEmailUseCase', () => {
                 datetime_of_use: '2025-05-10T06:30:00.000Z',
                 amount: sampleCardUsage.amount,
                 where_to_use: sampleCardUsage.where_to_use,
+                merchant: sampleCardUsage.where_to_use,
+                category: 'uncategorized',
+                category_source: 'default',
                 memo: sampleCardUsage.memo,
                 is_active: sampleCardUsage.is_active,
+                status: 'confirmed',
+                validation: fullConfidence,
             });
 
             // 戻り値が正しいか確認
-            expect(result).toEqual({
+            expect(result).toEqual([{
                 usage: sampleCardUsage,  // CardUsageMapper.toNotificationの戻り値を期待
                 savedPath: 'users/2025/5/10/card-usage-123'
+            }]);
+        });
+
+        test('正常系: 複数件の利用明細を含むメールは明細ごとに保存されること', async () => {
+            const secondCardUsage = { ...sampleCardUsage, amount: 2500, where_to_use: 'スーパー' };
+            mockEmailService.parseCardUsagesFromEmail.mockResolvedValueOnce([sampleCardUsage, secondCardUsage] as any);
+            mockCardUsageRepository.save
+                .mockResolvedValueOnce('details/2025/05/term2/10/1')
+                .mockResolvedValueOnce('details/2025/05/term2/10/2');
+
+            const result = await processEmailUseCase.execute(sampleEmailBody, 'JCB');
+
+            // 明細ごとに保存されることを確認
+            expect(mockCardUsageRepository.save).toHaveBeenCalledTimes(2);
+            expect(mockCardUsageRepository.save).toHaveBeenNthCalledWith(2, {
+                ...secondCardUsage,
+                merchant: 'スーパー',
+                category: 'uncategorized',
+                category_source: 'default',
+                status: 'confirmed',
+                validation: fullConfidence
             });
+            expect(result.map((r) => r.savedPath)).toEqual([
+                'details/2025/05/term2/10/1',
+                'details/2025/05/term2/10/2',
+            ]);
         });
 
         test('異常系: メール解析に失敗した場合、エラーがスローされること', async () => {
-            // parseCardUsageFromEmailで例外が発生するようモックを設定
-            mockEmailService.parseCardUsageFromEmail.mockRejectedValueOnce(
+            // parseCardUsagesFromEmailで例外が発生するようモックを設定
+            mockEmailService.parseCardUsagesFromEmail.mockRejectedValueOnce(
                 new Error('メール解析エラー')
             );
 
@@ -176,12 +251,272 @@ describe('ProcessEmailUseCase', () => {
             expect(mockhandle).toHaveBeenCalled();
         });
 
+        test('異常系: 金額が0の明細を含む場合、1件も保存せずにエラーがスローされること', async () => {
+            const invalidCardUsage = { ...sampleCardUsage, amount: 0 };
+            mockEmailService.parseCardUsagesFromEmail.mockResolvedValueOnce([sampleCardUsage, invalidCardUsage] as any);
+            mockCardUsageValidator.validate
+                .mockReturnValueOnce(fullConfidence)
+                .mockReturnValueOnce({ ...fullConfidence, confidence: 0, fields: { ...fullConfidence.fields, amount: 0 } });
+
+            await expect(processEmailUseCase.execute(sampleEmailBody, CardCompany.MUFG))
+                .rejects.toMatchObject({
+                    type: 'VALIDATION_ERROR',
+                    details: expect.objectContaining({ index: 1, invalidFields: ['amount'] }),
+                });
+
+            // 正常な明細も保存されないことを確認
+            expect(mockCardUsageRepository.save).not.toHaveBeenCalled();
+        });
+
+        test('異常系: カード名が空の場合、エラーがスローされること', async () => {
+            mockEmailService.parseCardUsagesFromEmail.mockResolvedValueOnce([{ ...sampleCardUsage, card_name: ' ' }] as any);
+            mockCardUsageValidator.validate.mockReturnValueOnce({
+                ...fullConfidence,
+                confidence: 0,
+                fields: { ...fullConfidence.fields, card_name: 0 }
+            });
+
+            await expect(processEmailUseCase.execute(sampleEmailBody, CardCompany.MUFG))
+                .rejects.toThrow('カード利用情報の抽出結果が不完全です: card_name');
+            expect(mockCardUsageRepository.save).not.toHaveBeenCalled();
+        });
+
+        test('正常系: 信頼度がしきい値未満の明細は確認待ちとして保存されること', async () => {
+            const lowConfidence: ExtractionValidation = {
+                confidence: 0.3,
+                fields: { card_name: 1, datetime_of_use: 1, amount: 1, where_to_use: 0.3 },
+                issues: [{ field: 'where_to_use', message: '利用先を取得できませんでした' }]
+            };
+            mockCardUsageValidator.validate.mockReturnValueOnce(lowConfidence);
+
+            await processEmailUseCase.execute(sampleEmailBody, CardCompany.MUFG);
+
+            // 抽出元の本文と照合されることを確認
+            expect(mockCardUsageValidator.validate).toHaveBeenCalledWith(sampleCardUsage, sampleEmailBody);
+            expect(mockCardUsageRepository.save).toHaveBeenCalledWith(expect.objectContaining({
+                status: 'pending_review',
+                validation: lowConfidence
+            }));
+            expect(logger.warn).toHaveBeenCalledWith(
+                expect.stringContaining('where_to_use: 利用先を取得できませんでした'),
+                'ProcessEmailUseCase',
+                expect.objectContaining({ notify: true })
+            );
+        });
+
+        test('正常系: 利用先は元の表記のまま、正規化した利用先とあわせて保存されること', async () => {
+            mockEmailService.parseCardUsagesFromEmail.mockResolvedValue([
+                { ...sampleCardUsage, where_to_use: 'ＡＭＡＺＯＮ．ＣＯ．ＪＰ' }
+            ] as any);
+            mockMerchantNormalizer.normalize.mockResolvedValue('Amazon');
+
+            await processEmailUseCase.execute(sampleEmailBody, CardCompany.MUFG);
+
+            expect(mockMerchantNormalizer.normalize).toHaveBeenCalledWith('ＡＭＡＺＯＮ．ＣＯ．ＪＰ');
+            expect(mockCardUsageRepository.save).toHaveBeenCalledWith(expect.objectContaining({
+                where_to_use: 'ＡＭＡＺＯＮ．ＣＯ．ＪＰ',
+                merchant: 'Amazon'
+            }));
+        });
+
+        test('正常系: 正規化した利用先を使用して自動分類したカテゴリとあわせて保存されること', async () => {
+            mockMerchantNormalizer.normalize.mockResolvedValue('NETFLIX.COM');
+            mockCategorizer.categorize.mockResolvedValue('subscriptions');
+
+            await processEmailUseCase.execute(sampleEmailBody, CardCompany.MUFG);
+
+            expect(mockCategorizer.categorize).toHaveBeenCalledWith(expect.objectContaining({
+                merchant: 'NETFLIX.COM'
+            }));
+            expect(mockCardUsageRepository.save).toHaveBeenCalledWith(expect.objectContaining({
+                category: 'subscriptions',
+                category_source: 'rule'
+            }));
+        });
+
+        test('正常系: どのルールにも一致せず未分類とした明細は、カテゴリの設定元をdefaultとして保存されること', async () => {
+            await processEmailUseCase.execute(sampleEmailBody, CardCompany.MUFG);
+
+            expect(mockCardUsageRepository.save).toHaveBeenCalledWith(expect.objectContaining({
+                category: 'uncategorized',
+                category_source: 'default'
+            }));
+        });
+
+        describe('重複', () => {
+            test('正常系: 重複の疑いがある明細は重複の疑いを記録して保存されること', async () => {
+                mockDuplicateUseCase.check.mockImplementation(async (cardUsage) => ({
+                    cardUsage: { ...cardUsage, duplicate_of: 'details/2025/05/term2/10/1746858600000' },
+                    duplicateOf: null,
+                    skip: false
+                }));
+
+                await processEmailUseCase.execute(sampleEmailBody, CardCompany.MUFG);
+
+                expect(mockCardUsageRepository.save).toHaveBeenCalledWith(expect.objectContaining({
+                    duplicate_of: 'details/2025/05/term2/10/1746858600000'
+                }));
+            });
+
+            test('正常系: スキップする明細は保存せず、結果にも含めないこと', async () => {
+                const secondCardUsage = { ...sampleCardUsage, amount: 2500, where_to_use: 'スーパー' };
+                mockEmailService.parseCardUsagesFromEmail.mockResolvedValue([sampleCardUsage, secondCardUsage] as any);
+                mockDuplicateUseCase.check.mockImplementationOnce(async (cardUsage) => ({
+                    cardUsage,
+                    duplicateOf: null,
+                    skip: true
+                }));
+
+                const result = await processEmailUseCase.execute(sampleEmailBody, CardCompany.MUFG);
+
+                expect(mockCardUsageRepository.save).toHaveBeenCalledTimes(1);
+                expect(mockCardUsageRepository.save).toHaveBeenCalledWith(expect.objectContaining({ amount: 2500 }));
+                expect(result).toHaveLength(1);
+            });
+
+            test('正常系: 同じ内容の明細を含むメールは、Message-IDと明細の位置を付けて重複を確認すること', async () => {
+                mockEmailService.parseCardUsagesFromEmail.mockResolvedValue([sampleCardUsage, sampleCardUsage] as any);
+
+                await processEmailUseCase.execute(sampleEmailBody, 'RAKUTEN', '<abc@example.com>');
+
+                expect(mockDuplicateUseCase.check).toHaveBeenNthCalledWith(1, expect.objectContaining({
+                    source_message_id: '<abc@example.com>',
+                    source_item_index: 0
+                }));
+                expect(mockDuplicateUseCase.check).toHaveBeenNthCalledWith(2, expect.objectContaining({
+                    source_message_id: '<abc@example.com>',
+                    source_item_index: 1
+                }));
+                expect(mockCardUsageRepository.save).toHaveBeenCalledTimes(2);
+            });
+
+            test('正常系: Message-IDがない場合は元のメールを記録しないこと', async () => {
+                await processEmailUseCase.execute(sampleEmailBody, CardCompany.MUFG);
+
+                expect(mockCardUsageRepository.save).toHaveBeenCalledWith(
+                    expect.not.objectContaining({ source_message_id: expect.anything() })
+                );
+                expect(mockCardUsageRepository.save).toHaveBeenCalledWith(
+                    expect.not.objectContaining({ imported: expect.anything() })
+                );
+            });
+
+            test('正常系: 過去のメールの取り込みの場合は、取り込みであることを記録して保存されること', async () => {
+                await processEmailUseCase.execute(sampleEmailBody, CardCompany.MUFG, '<abc@example.com>', {
+                    imported: true
+                });
+
+                expect(mockCardUsageRepository.save).toHaveBeenCalledWith(expect.objectContaining({
+                    source_message_id: '<abc@example.com>',
+                    imported: true
+                }));
+            });
+        });
+
+        describe('取消・返金', () => {
+            const timestampOf = (iso: string) => ({ toDate: () => new Date(iso) });
+            const refundUsage = {
+                ...sampleCardUsage,
+                amount: -1500,
+                datetime_of_use: timestampOf('2025-05-12T01:00:00.000Z'),
+                transaction_type: 'refund'
+            };
+            const storedUsage = (path: string, iso: string, overrides: Record<string, unknown> = {}) => ({
+                ...sampleCardUsage,
+                datetime_of_use: timestampOf(iso),
+                id: path.split('/').pop(),
+                path,
+                ...overrides
+            });
+
+            beforeEach(() => {
+                mockEmailService.parseCardUsagesFromEmail.mockResolvedValue([refundUsage] as any);
+                mockCardUsageRepository.getByYearMonth = jest.fn().mockResolvedValue([]);
+            });
+
+            test('正常系: 同じカード・利用先・金額の直近の利用に関連付けて保存されること', async () => {
+                (mockCardUsageRepository.getByYearMonth as jest.Mock)
+                    .mockResolvedValueOnce([
+                        storedUsage('details/2025/05/term2/10/1', '2025-05-10T06:30:00.000Z'),
+                        storedUsage('details/2025/05/term2/11/2', '2025-05-11T06:30:00.000Z', { where_to_use: 'スーパー' }),
+                        storedUsage('details/2025/05/term3/13/3', '2025-05-13T06:30:00.000Z'),
+                    ])
+                    .mockResolvedValueOnce([
+                        storedUsage('details/2025/04/term4/20/4', '2025-04-20T06:30:00.000Z'),
+                    ]);
+
+                await processEmailUseCase.execute(sampleEmailBody, CardCompany.MUFG);
+
+                // 取消・返金と同じ月と前月を検索することを確認
+                expect(mockCardUsageRepository.getByYearMonth).toHaveBeenCalledWith('2025', '5');
+                expect(mockCardUsageRepository.getByYearMonth).toHaveBeenCalledWith('2025', '4');
+                expect(mockCardUsageRepository.save).toHaveBeenCalledWith(expect.objectContaining({
+                    amount: -1500,
+                    transaction_type: 'refund',
+                    original_usage_path: 'details/2025/05/term2/10/1'
+                }));
+            });
+
+            test('正常系: 金額が一致する利用がない場合は、一部返金として返金額以上の利用に関連付けること', async () => {
+                (mockCardUsageRepository.getByYearMonth as jest.Mock).mockResolvedValueOnce([
+                    storedUsage('details/2025/05/term2/10/1', '2025-05-10T06:30:00.000Z', { amount: 1000 }),
+                    storedUsage('details/2025/05/term2/11/2', '2025-05-11T06:30:00.000Z', { amount: 3000 }),
+                ]);
+
+                await processEmailUseCase.execute(sampleEmailBody, CardCompany.MUFG);
+
+                expect(mockCardUsageRepository.save).toHaveBeenCalledWith(expect.objectContaining({
+                    original_usage_path: 'details/2025/05/term2/11/2'
+                }));
+            });
+
+            test('正常系: 他の取消・返金に関連付け済みの利用は対象外とすること', async () => {
+                (mockCardUsageRepository.getByYearMonth as jest.Mock).mockResolvedValueOnce([
+                    storedUsage('details/2025/05/term2/10/1', '2025-05-10T06:30:00.000Z'),
+                    storedUsage('details/2025/05/term2/11/2', '2025-05-11T06:30:00.000Z', {
+                        amount: -1500,
+                        transaction_type: 'refund',
+                        original_usage_path: 'details/2025/05/term2/10/1'
+                    }),
+                ]);
+
+                await processEmailUseCase.execute(sampleEmailBody, CardCompany.MUFG);
+
+                expect(mockCardUsageRepository.save).toHaveBeenCalledWith(
+                    expect.not.objectContaining({ original_usage_path: expect.anything() })
+                );
+            });
+
+            test('異常系: 元の利用情報の検索に失敗しても、関連付けずに保存されること', async () => {
+                (mockCardUsageRepository.getByYearMonth as jest.Mock).mockRejectedValue(new Error('検索エラー'));
+
+                const result = await processEmailUseCase.execute(sampleEmailBody, CardCompany.MUFG);
+
+                expect(result).toHaveLength(1);
+                expect(mockCardUsageRepository.save).toHaveBeenCalledWith(
+                    expect.not.objectContaining({ original_usage_path: expect.anything() })
+                );
+                expect(logger.warn).toHaveBeenCalledWith(
+                    expect.stringContaining('検索エラー'),
+                    'ProcessEmailUseCase'
+                );
+            });
+
+            test('正常系: 通常の利用では元の利用情報を検索しないこと', async () => {
+                mockEmailService.parseCardUsagesFromEmail.mockResolvedValue([sampleCardUsage] as any);
+
+                await processEmailUseCase.execute(sampleEmailBody, CardCompany.MUFG);
+
+                expect(mockCardUsageRepository.getByYearMonth).not.toHaveBeenCalled();
+            });
+        });
+
         test('カード会社を指定しない場合、デフォルトでMUFGになること', async () => {
             // カード会社を指定せずに実行
             await processEmailUseCase.execute(sampleEmailBody);
 
             // MUFGがデフォルト値として使われることを確認
-            expect(mockEmailService.parseCardUsageFromEmail).toHaveBeenCalledWith(
+            expect(mockEmailService.parseCardUsagesFromEmail).toHaveBeenCalledWith(
                 sampleEmailBody,
                 CardCompany.MUFG
             );
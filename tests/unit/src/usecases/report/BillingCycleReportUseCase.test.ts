@@ -0,0 +1,120 @@
+import { BillingCycleReportUseCase } from '../../../../../src/usecases/report/BillingCycleReportUseCase';
+import { ICardUsageCrudRepository } from '../../../../../src/domain/interfaces/infrastructure/database/repositories/ICardUsageCrudRepository';
+import { IConfigRepository } from '../../../../../shared/domain/interfaces/database/repositories/IConfigRepository';
+import { Card } from '../../../../../shared/domain/entities/Card';
+import { CardUsage } from '../../../../../shared/domain/entities/CardUsage';
+import { ErrorType } from '../../../../../shared/errors/AppError';
+
+// Loggerをモック化
+jest.mock('../../../../../shared/infrastructure/logging/Logger', () => ({
+    logger: {
+        info: jest.fn(),
+        debug: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        logAppError: jest.fn(),
+        updateServiceStatus: jest.fn()
+    }
+}));
+
+// ErrorHandlerをモック化
+jest.mock('../../../../../shared/infrastructure/errors/ErrorHandler', () => ({
+    ErrorHandler: {
+        errorDecorator: () => (
+            _target: any,
+            _propertyKey: string | symbol,
+            descriptor: PropertyDescriptor
+        ) => descriptor,
+        handle: jest.fn()
+    }
+}));
+
+describe('BillingCycleReportUseCase', () => {
+    let useCase: BillingCycleReportUseCase;
+    let mockRepository: jest.Mocked<ICardUsageCrudRepository>;
+    let mockConfigRepository: { getCards: jest.Mock };
+
+    const card: Card = {
+        cardName: '楽天カード',
+        displayName: '楽天',
+        issuer: 'Rakuten',
+        closingDay: 15,
+        paymentDay: 10,
+        paymentMonthOffset: 1,
+        reminderDaysBefore: 3,
+    };
+
+    const createStored = (id: string, usedAt: Date, overrides: Partial<CardUsage> = {}) => ({
+        card_name: '楽天カード',
+        datetime_of_use: { toDate: () => usedAt } as any,
+        amount: 1000,
+        where_to_use: 'テスト店舗',
+        created_at: { toDate: () => new Date() } as any,
+        ...overrides,
+        id,
+        path: `details/${usedAt.getFullYear()}/${usedAt.getMonth() + 1}/term1/${usedAt.getDate()}/${id}`
+    });
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+
+        mockRepository = {
+            save: jest.fn(),
+            getByTimestamp: jest.fn(),
+            getById: jest.fn(),
+            getByYearMonth: jest.fn().mockResolvedValue([]),
+            update: jest.fn(),
+            updateByPath: jest.fn(),
+            delete: jest.fn()
+        };
+        mockConfigRepository = { getCards: jest.fn().mockResolvedValue([card]) };
+
+        useCase = new BillingCycleReportUseCase(
+            mockRepository,
+            mockConfigRepository as unknown as IConfigRepository
+        );
+    });
+
+    test('正常系: 利用期間に含まれる月のカード利用情報を取得して集計すること', async () => {
+        const april = createStored('april', new Date(2025, 3, 20), { category: 'groceries' });
+        const may = createStored('may', new Date(2025, 4, 10), { amount: 2000 });
+        const afterClosing = createStored('after', new Date(2025, 4, 20));
+        mockRepository.getByYearMonth.mockImplementation(async (_year, month) =>
+            month === '4' ? [april] : [may, afterClosing]
+        );
+
+        const report = await useCase.execute('楽天カード', '2025-06');
+
+        expect(mockRepository.getByYearMonth).toHaveBeenCalledTimes(2);
+        expect(mockRepository.getByYearMonth).toHaveBeenNthCalledWith(1, '2025', '4');
+        expect(mockRepository.getByYearMonth).toHaveBeenNthCalledWith(2, '2025', '5');
+        expect(report).toMatchObject({
+            cardName: '楽天カード',
+            cycle: '2025-06',
+            periodStart: '2025-04-16',
+            periodEnd: '2025-05-15',
+            paymentDate: '2025-06-10',
+            totalAmount: 3000,
+            totalCount: 2,
+            categoryTotals: {
+                groceries: { amount: 1000, count: 1 },
+                uncategorized: { amount: 2000, count: 1 },
+            },
+            documentIdList: [april.path, may.path],
+        });
+    });
+
+    test('異常系: 請求サイクルの形式が不正な場合はバリデーションエラーとすること', async () => {
+        await expect(useCase.execute('楽天カード', '2025-6')).rejects.toMatchObject({
+            type: ErrorType.VALIDATION,
+        });
+        expect(mockConfigRepository.getCards).not.toHaveBeenCalled();
+    });
+
+    test('異常系: 登録されていないカードの場合はNOT_FOUNDとすること', async () => {
+        await expect(useCase.execute('未登録カード', '2025-06')).rejects.toMatchObject({
+            type: ErrorType.NOT_FOUND,
+        });
+        expect(mockRepository.getByYearMonth).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,304 @@
+import { ReconcileStatementUseCase } from '../../../../../src/usecases/statement/ReconcileStatementUseCase';
+import { IStatementParser, StatementLine } from '../../../../../src/domain/interfaces/infrastructure/statement/IStatementParser';
+import { ICardUsageCrudRepository } from '../../../../../src/domain/interfaces/infrastructure/database/repositories/ICardUsageCrudRepository';
+import { ICardUsageCategorizer } from '../../../../../src/domain/interfaces/infrastructure/category/ICardUsageCategorizer';
+import { ICardUsageDuplicateUseCase } from '../../../../../src/domain/interfaces/usecases/database/ICardUsageDuplicateUseCase';
+import { MerchantNormalizer } from '../../../../../src/infrastructure/merchant/MerchantNormalizer';
+import { CardCompany } from '../../../../../src/domain/enums/CardCompany';
+import { CardUsage } from '../../../../../shared/domain/entities/CardUsage';
+import { AppError, ErrorType } from '../../../../../shared/errors/AppError';
+
+// Loggerをモック化
+jest.mock('../../../../../shared/infrastructure/logging/Logger', () => ({
+    logger: {
+        info: jest.fn(),
+        debug: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        logAppError: jest.fn(),
+        updateServiceStatus: jest.fn()
+    }
+}));
+
+// ErrorHandlerをモック化
+jest.mock('../../../../../shared/infrastructure/errors/ErrorHandler', () => ({
+    ErrorHandler: {
+        errorDecorator: () => (
+            _target: any,
+            _propertyKey: string | symbol,
+            descriptor: PropertyDescriptor
+        ) => descriptor,
+        handle: jest.fn()
+    }
+}));
+
+// firebase-adminのTimestampをモック化
+jest.mock('firebase-admin/firestore', () => ({
+    Timestamp: {
+        fromDate: jest.fn((date: Date) => ({ toDate: () => date })),
+        now: jest.fn(() => ({ toDate: () => new Date() }))
+    }
+}));
+
+describe('ReconcileStatementUseCase', () => {
+    let useCase: ReconcileStatementUseCase;
+    let mockParser: jest.Mocked<IStatementParser>;
+    let mockRepository: jest.Mocked<ICardUsageCrudRepository>;
+    let mockCategorizer: jest.Mocked<ICardUsageCategorizer>;
+    let mockDuplicateUseCase: jest.Mocked<ICardUsageDuplicateUseCase>;
+
+    const createStoredUsage = (
+        id: string,
+        usedAt: Date,
+        amount: number,
+        whereToUse: string,
+        overrides: Partial<CardUsage> = {}
+    ): CardUsage & { id: string, path: string } => ({
+        id,
+        path: `details/2025/05/term2/${usedAt.getDate()}/${id}`,
+        card_name: '三井住友カード（NL）',
+        datetime_of_use: { toDate: () => usedAt } as any,
+        amount,
+        where_to_use: whereToUse,
+        created_at: { toDate: () => usedAt } as any,
+        ...overrides
+    });
+
+    const line = (lineNumber: number, date: string, amount: number, merchant: string): StatementLine => ({
+        lineNumber, date, amount, merchant
+    });
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+
+        mockParser = {
+            cardCompany: CardCompany.SMBC,
+            parse: jest.fn()
+        };
+
+        mockRepository = {
+            getByYearMonth: jest.fn().mockResolvedValue([]),
+            save: jest.fn().mockImplementation(async () => `details/saved/${mockRepository.save.mock.calls.length}`)
+        } as unknown as jest.Mocked<ICardUsageCrudRepository>;
+
+        // どのルールにも一致しない場合は未分類とする
+        mockCategorizer = {
+            categorize: jest.fn().mockResolvedValue('uncategorized'),
+            getRules: jest.fn(),
+            match: jest.fn(),
+            hasCategory: jest.fn()
+        };
+
+        // 重複がない場合はそのまま保存する
+        mockDuplicateUseCase = {
+            check: jest.fn().mockImplementation(async (cardUsage) => ({ cardUsage, duplicateOf: null, skip: false })),
+            getDuplicates: jest.fn(),
+            merge: jest.fn()
+        };
+
+        useCase = new ReconcileStatementUseCase(
+            [mockParser],
+            mockRepository,
+            new MerchantNormalizer(),
+            mockCategorizer,
+            mockDuplicateUseCase
+        );
+    });
+
+    test('正常系: 利用明細を一致・未登録・余分・相違に分類すること', async () => {
+        mockParser.parse.mockReturnValue([
+            line(1, '2025-05-10', 1234, 'セブン-イレブン'),
+            line(2, '2025-05-11', 5000, 'AMAZON.CO.JP'),
+            line(3, '2025-05-12', 800, 'ローソン'),
+            line(4, '2025-05-13', 3000, 'ユニクロ'),
+            line(5, '2025-05-14', 2000, 'スターバックス'),
+        ]);
+        mockRepository.getByYearMonth.mockImplementation(async (year, month) => month === '5' ? [
+            // 利用先の表記が異なっても一致とみなす
+            createStoredUsage('1', new Date(2025, 4, 10, 12, 30), 1234, 'ｾﾌﾞﾝｲﾚﾌﾞﾝ'),
+            // 利用日と金額のみ一致
+            createStoredUsage('2', new Date(2025, 4, 11, 9, 0), 5000, 'ヨドバシカメラ'),
+            // 利用日と利用先のみ一致
+            createStoredUsage('3', new Date(2025, 4, 12, 18, 0), 880, 'ローソン'),
+            // 利用日のみ異なる（3日以内）
+            createStoredUsage('4', new Date(2025, 4, 15, 10, 0), 3000, 'ユニクロ'),
+            // 利用明細にない
+            createStoredUsage('5', new Date(2025, 4, 13, 20, 0), 450, 'ドトール'),
+            // 論理削除されたものは照合しない
+            createStoredUsage('6', new Date(2025, 4, 14, 8, 0), 2000, 'スターバックス', { is_active: false }),
+        ] : []);
+
+        const result = await useCase.execute(CardCompany.SMBC, Buffer.from('csv'));
+
+        expect(result.period).toEqual({ start: '2025-05-10', end: '2025-05-14' });
+        expect(result.total).toBe(5);
+        expect(result.matched).toBe(1);
+        expect(result.mismatched.map((entry) => [entry.line.lineNumber, entry.usage.id, entry.differences]))
+            .toEqual([
+                [2, '2', ['merchant']],
+                [3, '3', ['amount']],
+                [4, '4', ['date']],
+            ]);
+        expect(result.missing).toEqual([{ line: line(5, '2025-05-14', 2000, 'スターバックス') }]);
+        expect(result.extra.map((usage) => usage.id)).toEqual(['5']);
+        expect(result.created).toBe(0);
+        expect(mockRepository.save).not.toHaveBeenCalled();
+    });
+
+    test('正常系: 利用日の差を許容するため、期間の前後の月も検索し、期間外の利用は余分に含めないこと', async () => {
+        mockParser.parse.mockReturnValue([line(1, '2025-05-01', 1000, 'テスト')]);
+        mockRepository.getByYearMonth.mockImplementation(async (year, month) => month === '4' ? [
+            createStoredUsage('1', new Date(2025, 3, 29, 12, 0), 500, 'その他'),
+        ] : []);
+
+        const result = await useCase.execute(CardCompany.SMBC, Buffer.from('csv'));
+
+        expect(mockRepository.getByYearMonth).toHaveBeenCalledWith('2025', '4');
+        expect(mockRepository.getByYearMonth).toHaveBeenCalledWith('2025', '5');
+        expect(result.extra).toEqual([]);
+        expect(result.missing).toHaveLength(1);
+    });
+
+    test('正常系: カード名を指定した場合は、そのカードの利用情報とのみ照合すること', async () => {
+        mockParser.parse.mockReturnValue([line(1, '2025-05-10', 1000, 'テスト')]);
+        mockRepository.getByYearMonth.mockResolvedValue([
+            createStoredUsage('1', new Date(2025, 4, 10, 12, 0), 1000, 'テスト', { card_name: 'Ｄ　三菱ＵＦＪ－ＪＣＢデビット' }),
+        ]);
+
+        const result = await useCase.execute(CardCompany.SMBC, Buffer.from('csv'), { cardName: '三井住友' });
+
+        expect(result.matched).toBe(0);
+        expect(result.missing).toHaveLength(1);
+    });
+
+    test('正常系: createMissingを指定した場合は、未登録の利用明細を照合で一致した利用情報のカード名で登録すること', async () => {
+        mockParser.parse.mockReturnValue([
+            line(1, '2025-05-09', 450, 'ドトール'),
+            line(2, '2025-05-10', 1000, 'テストストア'),
+            line(3, '2025-05-10', -300, 'テストストア'),
+        ]);
+        mockRepository.getByYearMonth.mockResolvedValue([
+            createStoredUsage('1', new Date(2025, 4, 9, 8, 0), 450, 'ドトール'),
+        ]);
+
+        const result = await useCase.execute(CardCompany.SMBC, Buffer.from('csv'), {
+            cardName: '三井住友',
+            createMissing: true
+        });
+
+        expect(mockRepository.save).toHaveBeenCalledTimes(2);
+        expect(mockRepository.save).toHaveBeenNthCalledWith(1, expect.objectContaining({
+            card_name: '三井住友カード（NL）',
+            amount: 1000,
+            where_to_use: 'テストストア',
+            merchant: 'テストストア',
+            memo: '利用明細CSVから登録',
+            status: 'confirmed',
+            transaction_type: 'usage',
+            category: 'uncategorized',
+            category_source: 'default'
+        }));
+        expect(mockRepository.save).toHaveBeenNthCalledWith(2, expect.objectContaining({
+            amount: -300,
+            transaction_type: 'refund'
+        }));
+
+        // 保存先のパスを結果に含めること
+        expect(result.missing.map((entry) => entry.savedPath)).toEqual(['details/saved/1', 'details/saved/2']);
+        expect(result.created).toBe(2);
+    });
+
+    test('正常系: 未登録の利用明細は正規化した利用先を使用して自動分類したカテゴリとあわせて登録すること', async () => {
+        mockParser.parse.mockReturnValue([line(1, '2025-05-10', 1490, 'NETFLIX.COM')]);
+        mockCategorizer.categorize.mockResolvedValue('subscriptions');
+
+        await useCase.execute(CardCompany.SMBC, Buffer.from('csv'), {
+            createMissing: true,
+            createCardName: '三井住友カード（NL）'
+        });
+
+        expect(mockCategorizer.categorize).toHaveBeenCalledWith(expect.objectContaining({
+            merchant: expect.any(String)
+        }));
+        expect(mockRepository.save).toHaveBeenCalledWith(expect.objectContaining({
+            category: 'subscriptions',
+            category_source: 'rule'
+        }));
+    });
+
+    test('正常系: 登録するカード名を指定した場合は、そのカード名で登録すること', async () => {
+        mockParser.parse.mockReturnValue([
+            line(1, '2025-05-09', 450, 'ドトール'),
+            line(2, '2025-05-10', 1000, 'テストストア'),
+        ]);
+        mockRepository.getByYearMonth.mockResolvedValue([
+            createStoredUsage('1', new Date(2025, 4, 9, 8, 0), 450, 'ドトール'),
+        ]);
+
+        await useCase.execute(CardCompany.SMBC, Buffer.from('csv'), {
+            createMissing: true,
+            createCardName: '三井住友カード（ゴールド）'
+        });
+
+        expect(mockRepository.save).toHaveBeenCalledWith(expect.objectContaining({
+            card_name: '三井住友カード（ゴールド）',
+            amount: 1000
+        }));
+    });
+
+    test('正常系: 登録済みの利用と重複する明細は、設定に応じて重複の疑いを記録して登録するか、登録せずにスキップすること', async () => {
+        mockParser.parse.mockReturnValue([
+            line(1, '2025-05-10', 1000, 'テストストア'),
+            line(2, '2025-05-11', 2000, 'テストストア'),
+        ]);
+        const existing = createStoredUsage('9', new Date(2025, 4, 10), 1000, 'テストストア');
+        mockDuplicateUseCase.check
+            .mockImplementationOnce(async (cardUsage) => ({ cardUsage, duplicateOf: existing, skip: true }))
+            .mockImplementationOnce(async (cardUsage) => ({
+                cardUsage: { ...cardUsage, duplicate_of: existing.path },
+                duplicateOf: existing,
+                skip: false
+            }));
+
+        const result = await useCase.execute(CardCompany.SMBC, Buffer.from('csv'), {
+            createMissing: true,
+            createCardName: '三井住友カード（NL）'
+        });
+
+        expect(mockDuplicateUseCase.check).toHaveBeenCalledTimes(2);
+        expect(mockRepository.save).toHaveBeenCalledTimes(1);
+        expect(mockRepository.save).toHaveBeenCalledWith(expect.objectContaining({
+            amount: 2000,
+            duplicate_of: existing.path
+        }));
+        expect(result.missing).toEqual([
+            { line: line(1, '2025-05-10', 1000, 'テストストア'), duplicateOf: existing.path },
+            { line: line(2, '2025-05-11', 2000, 'テストストア'), savedPath: 'details/saved/1', duplicateOf: existing.path },
+        ]);
+        expect(result.created).toBe(1);
+    });
+
+    test('異常系: 登録するカード名を特定できない場合は、登録せずにバリデーションエラーになること', async () => {
+        mockParser.parse.mockReturnValue([line(1, '2025-05-10', 1000, 'テストストア')]);
+
+        await expect(useCase.execute(CardCompany.SMBC, Buffer.from('csv'), { createMissing: true }))
+            .rejects.toMatchObject({ type: ErrorType.VALIDATION });
+        expect(mockRepository.save).not.toHaveBeenCalled();
+    });
+
+    test('異常系: 利用明細CSVに対応していないカード会社の場合はバリデーションエラーになること', async () => {
+        await expect(useCase.execute('RAKUTEN', Buffer.from('csv'))).rejects.toThrow(AppError);
+        await expect(useCase.execute('RAKUTEN', Buffer.from('csv'))).rejects.toMatchObject({
+            type: ErrorType.VALIDATION
+        });
+    });
+
+    test('異常系: 利用明細を読み取れない場合はバリデーションエラーになること', async () => {
+        mockParser.parse.mockReturnValue([]);
+
+        await expect(useCase.execute(CardCompany.SMBC, Buffer.from('csv'))).rejects.toMatchObject({
+            message: '利用明細CSVから利用明細を読み取れませんでした',
+            type: ErrorType.VALIDATION
+        });
+    });
+});